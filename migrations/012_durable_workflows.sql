@@ -0,0 +1,50 @@
+-- Durable Workflow Migration
+-- Persists workflow engine runs and their steps so in-flight builds
+-- survive a restart and resume from the last completed step
+
+-- One row per workflow run (a project can be built more than once)
+CREATE TABLE IF NOT EXISTS workflow_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    phase VARCHAR(50) NOT NULL DEFAULT 'planning',
+    demo_phase VARCHAR(50),
+    current_demo_id UUID REFERENCES demos(id) ON DELETE SET NULL,
+    approval_request_id UUID REFERENCES approval_requests(id) ON DELETE SET NULL,
+    options JSONB DEFAULT '{}',
+    build_result JSONB,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Completed steps are never re-executed; their output is replayed instead
+CREATE TABLE IF NOT EXISTS workflow_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID REFERENCES workflow_runs(id) ON DELETE CASCADE,
+    step_key VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed
+    output JSONB,
+    error_message TEXT,
+    attempts INTEGER DEFAULT 1,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (run_id, step_key)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_project ON workflow_runs(project_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_in_flight ON workflow_runs(started_at) WHERE finished_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_runs_one_in_flight ON workflow_runs(project_id) WHERE finished_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_workflow_steps_run ON workflow_steps(run_id);
+
+-- Trigger for workflow_runs updated_at
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_trigger WHERE tgname = 'workflow_runs_updated_at'
+    ) THEN
+        CREATE TRIGGER workflow_runs_updated_at BEFORE UPDATE ON workflow_runs
+            FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+    END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- Durable Message Bus Migration
+-- Dead letters for messages that could not be delivered within the retry limit
+
+CREATE TABLE IF NOT EXISTS message_dead_letters (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,  -- Consumer the message failed for
+    attempts INTEGER NOT NULL,
+    last_error TEXT,
+    dead_lettered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    requeued_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_message_dead_letters_project ON message_dead_letters(project_id);
+CREATE INDEX IF NOT EXISTS idx_message_dead_letters_open ON message_dead_letters(project_id, dead_lettered_at) WHERE requeued_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_message_dead_letters_message ON message_dead_letters(message_id, agent_id);
+CREATE INDEX IF NOT EXISTS idx_messages_unprocessed ON messages(to_agent_id, created_at) WHERE processed = FALSE;
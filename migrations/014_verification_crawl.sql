@@ -0,0 +1,4 @@
+-- Verification Crawl Migration
+-- Keep the crawl graph (routes, forms and assets reached) with each verification
+
+ALTER TABLE demo_verifications ADD COLUMN IF NOT EXISTS crawl_graph JSONB;
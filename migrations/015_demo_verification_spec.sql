@@ -0,0 +1,4 @@
+-- Demo Verification Spec Migration
+-- Each demo carries the routes, content, API responses and timings verification checks
+
+ALTER TABLE demos ADD COLUMN IF NOT EXISTS verification_spec JSONB;
@@ -0,0 +1,46 @@
+-- QA User Flows Migration
+-- Stores each project's user flows and records every executed step with the QA results
+
+CREATE TABLE IF NOT EXISTS qa_user_flows (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    flow_key VARCHAR(100) NOT NULL,  -- UserFlow.id, referenced by qa_test_results.flow_id
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    priority INTEGER NOT NULL DEFAULT 1,
+    steps JSONB NOT NULL DEFAULT '[]',
+    expected_outcome TEXT,
+    tags JSONB DEFAULT '[]',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (project_id, flow_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_user_flows_project ON qa_user_flows(project_id, priority) WHERE enabled = true;
+
+-- Step rows sit next to issue rows in qa_test_results
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS result_kind VARCHAR(20) NOT NULL DEFAULT 'issue';  -- 'issue', 'step'
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS step_index INTEGER;
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS status VARCHAR(20);  -- 'pass', 'fail', 'skip' for steps
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS duration INTEGER;  -- milliseconds
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS http_status INTEGER;
+ALTER TABLE qa_test_results ADD COLUMN IF NOT EXISTS dom_snapshot TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_qa_test_results_steps ON qa_test_results(test_run_id, flow_id, step_index) WHERE result_kind = 'step';
+
+-- Only issues count as open
+CREATE OR REPLACE VIEW qa_summary AS
+SELECT
+    qr.project_id,
+    p.name as project_name,
+    COUNT(*) as total_runs,
+    COUNT(*) FILTER (WHERE qr.status = 'pass') as passed_runs,
+    COUNT(*) FILTER (WHERE qr.status = 'fail') as failed_runs,
+    AVG(qr.duration) as avg_duration_ms,
+    (SELECT COUNT(*) FROM qa_test_results r
+     WHERE r.project_id = qr.project_id AND r.result_kind = 'issue' AND r.resolved = false) as open_issues,
+    MAX(qr.created_at) as last_run
+FROM qa_test_runs qr
+JOIN projects p ON qr.project_id = p.id
+GROUP BY qr.project_id, p.name;
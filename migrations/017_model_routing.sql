@@ -0,0 +1,57 @@
+-- Model Routing Migration
+-- Logs the model chosen for every agent, and why, under the project's routing policy
+
+CREATE TABLE IF NOT EXISTS model_routing_decisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    agent_id UUID,
+    task_id UUID,
+    agent_type agent_type NOT NULL,
+    task_type VARCHAR(100),
+    task_priority INTEGER,
+    requested_model VARCHAR(100) NOT NULL,  -- Chosen by the policy
+    model VARCHAR(100) NOT NULL,            -- After budget fallback
+    rule VARCHAR(20) NOT NULL,              -- 'task_type', 'priority', 'agent_type', 'default'
+    downgraded BOOLEAN NOT NULL DEFAULT false,
+    budget_percent DECIMAL(6,2),
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_routing_project ON model_routing_decisions(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_model_routing_agent ON model_routing_decisions(agent_id) WHERE agent_id IS NOT NULL;
+
+-- Budget fallback reads check_budget_status; its status column came back as
+-- TEXT, which Postgres rejects against the declared VARCHAR(20)
+CREATE OR REPLACE FUNCTION check_budget_status(
+  p_project_id UUID
+) RETURNS TABLE (
+  within_budget BOOLEAN,
+  current_spend DECIMAL(10, 2),
+  budget_limit DECIMAL(10, 2),
+  percent_used DECIMAL(5, 2),
+  remaining DECIMAL(10, 2),
+  status VARCHAR(20)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (COALESCE(p.cost_used, 0) < COALESCE(p.budget_cost_usd, 100)) AS within_budget,
+    COALESCE(p.cost_used, 0)::DECIMAL(10, 2) AS current_spend,
+    COALESCE(p.budget_cost_usd, 100)::DECIMAL(10, 2) AS budget_limit,
+    CASE WHEN COALESCE(p.budget_cost_usd, 100) > 0
+         THEN (COALESCE(p.cost_used, 0) / COALESCE(p.budget_cost_usd, 100) * 100)::DECIMAL(5, 2)
+         ELSE 0::DECIMAL(5, 2)
+    END AS percent_used,
+    GREATEST(0, COALESCE(p.budget_cost_usd, 100) - COALESCE(p.cost_used, 0))::DECIMAL(10, 2) AS remaining,
+    (CASE
+      WHEN COALESCE(p.cost_used, 0) >= COALESCE(p.budget_cost_usd, 100) THEN 'exceeded'
+      WHEN COALESCE(p.cost_used, 0) >= COALESCE(p.budget_cost_usd, 100) * 0.9 THEN 'critical'
+      WHEN COALESCE(p.cost_used, 0) >= COALESCE(p.budget_cost_usd, 100) * 0.75 THEN 'warning'
+      WHEN COALESCE(p.cost_used, 0) >= COALESCE(p.budget_cost_usd, 100) * 0.5 THEN 'caution'
+      ELSE 'healthy'
+    END)::VARCHAR(20) AS status
+  FROM projects p
+  WHERE p.id = p_project_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,20 @@
+-- Budget Enforcement Migration
+-- Wall-clock start for the time budget, and an audit trail of budget extensions
+
+-- Set by ProgressService.startProjectTimer when a build first starts
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS budget_extensions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    dimension VARCHAR(10) NOT NULL,             -- 'cost', 'tokens', 'time'
+    amount DECIMAL(14, 2) NOT NULL,             -- USD, tokens or hours added
+    previous_limit DECIMAL(14, 2) NOT NULL,
+    new_limit DECIMAL(14, 2) NOT NULL,
+    percent_used DECIMAL(8, 2),                 -- Use of the old limit when granted
+    reason TEXT NOT NULL,
+    granted_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_extensions_project ON budget_extensions(project_id, created_at DESC);
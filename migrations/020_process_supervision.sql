@@ -0,0 +1,92 @@
+-- Process Supervision Migration
+-- Agent processes are real children of the lifecycle manager: record the
+-- signal that ended them, and stop mapping crashes to an agent status that
+-- does not exist
+
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS exit_signal VARCHAR(20);
+
+-- Function: Update agent process status (adds p_exit_signal)
+DROP FUNCTION IF EXISTS update_agent_process(UUID, VARCHAR, INTEGER, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION update_agent_process(
+    p_process_id UUID,
+    p_status VARCHAR(50),
+    p_pid INTEGER DEFAULT NULL,
+    p_exit_code INTEGER DEFAULT NULL,
+    p_error_message TEXT DEFAULT NULL,
+    p_exit_signal VARCHAR(20) DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_agent_id UUID;
+BEGIN
+    SELECT agent_id INTO v_agent_id FROM agent_processes WHERE id = p_process_id;
+
+    IF v_agent_id IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE agent_processes
+    SET
+        status = p_status,
+        pid = COALESCE(p_pid, pid),
+        exit_code = COALESCE(p_exit_code, exit_code),
+        exit_signal = COALESCE(p_exit_signal, exit_signal),
+        error_message = COALESCE(p_error_message, error_message),
+        stopped_at = CASE WHEN p_status IN ('stopped', 'terminated', 'crashed', 'failed') THEN NOW() ELSE stopped_at END,
+        updated_at = NOW()
+    WHERE id = p_process_id;
+
+    UPDATE agents
+    SET
+        status = CASE
+            WHEN p_status = 'running' THEN 'working'::agent_status
+            WHEN p_status IN ('stopped', 'terminated') THEN 'idle'::agent_status
+            WHEN p_status IN ('crashed', 'failed') THEN 'failed'::agent_status
+            ELSE status
+        END,
+        updated_at = NOW()
+    WHERE id = v_agent_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function: Terminate agent process (adds p_exit_signal)
+DROP FUNCTION IF EXISTS terminate_agent_process(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION terminate_agent_process(
+    p_agent_id UUID,
+    p_exit_code INTEGER DEFAULT 0,
+    p_error_message TEXT DEFAULT NULL,
+    p_exit_signal VARCHAR(20) DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_process_id UUID;
+BEGIN
+    SELECT id INTO v_process_id
+    FROM agent_processes
+    WHERE agent_id = p_agent_id AND status IN ('pending', 'starting', 'running', 'stopping')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_process_id IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE agent_processes
+    SET
+        status = 'stopped',
+        stopped_at = NOW(),
+        exit_code = p_exit_code,
+        exit_signal = p_exit_signal,
+        error_message = p_error_message,
+        updated_at = NOW()
+    WHERE id = v_process_id;
+
+    UPDATE agents SET status = 'idle', updated_at = NOW() WHERE id = p_agent_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,46 @@
+-- Agent Control Migration
+-- Human-in-the-loop controls for running agents: pause/step, steering
+-- instructions delivered at the next turn, and approval of risky actions
+
+-- Pause state, one row per agent that has ever been paused
+CREATE TABLE IF NOT EXISTS agent_controls (
+    agent_id UUID PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+    paused BOOLEAN NOT NULL DEFAULT FALSE,
+    pid INTEGER,                                   -- Process that was stopped
+    previous_status agent_status,                  -- Restored on resume
+    pause_reason TEXT,
+    paused_by VARCHAR(255),
+    paused_at TIMESTAMP WITH TIME ZONE,
+    step_pending BOOLEAN NOT NULL DEFAULT FALSE,   -- Pause again at the next turn
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_steering (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    instruction TEXT NOT NULL,
+    created_by VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'delivered', 'cancelled'
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_steering_pending ON agent_steering(agent_id, created_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS agent_pending_actions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    action_type VARCHAR(50) NOT NULL,              -- 'delete_files', 'run_migration', ...
+    description TEXT NOT NULL,
+    details JSONB DEFAULT '{}',
+    paused_agent BOOLEAN NOT NULL DEFAULT FALSE,   -- The agent was paused awaiting the decision
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'approved', 'denied'
+    decided_by VARCHAR(255),
+    decision_reason TEXT,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_pending_actions_project ON agent_pending_actions(project_id, status, requested_at);
+CREATE INDEX IF NOT EXISTS idx_agent_pending_actions_agent ON agent_pending_actions(agent_id, status);
@@ -0,0 +1,457 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  getAccountService,
+  type AccountRole,
+  type AccountStatus,
+  type TeamRole,
+} from '../core/accounts/index.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { ProjectRole } from '../middleware/authorization.js';
+
+/**
+ * Accounts API
+ *
+ * User accounts, invitations, teams and project membership. Managing
+ * accounts, invitations and teams is for admins (enforced by the endpoint
+ * permissions); team maintainers may also manage their team's members, and
+ * project owners their project's members.
+ */
+
+/**
+ * Parse JSON body from request
+ */
+async function parseBody<T>(req: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}') as T);
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: ServerResponse, data: unknown, status: number = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Send error response
+ */
+function sendError(res: ServerResponse, message: string, status: number = 400): void {
+  sendJson(res, { error: message }, status);
+}
+
+/**
+ * Map a service error to a response: missing things are 404, broken rules
+ * 409, anything else the caller got wrong 400
+ */
+function sendServiceError(res: ServerResponse, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+  if (/not found/.test(message)) {
+    sendError(res, message, 404);
+  } else if (/already in use|only owner|at least one owner/.test(message)) {
+    sendError(res, message, 409);
+  } else if (/required|must be|invalid|expired|Invalid JSON/i.test(message)) {
+    sendError(res, message, 400);
+  } else {
+    sendError(res, fallback, 500);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+/**
+ * List user accounts
+ * GET /api/users?status=active
+ */
+export async function listUsers(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const status = url.searchParams.get('status') as AccountStatus | null;
+    const users = await getAccountService().listUsers({ status: status || undefined });
+    sendJson(res, { users });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list users');
+  }
+}
+
+/**
+ * Create a user account
+ * POST /api/users
+ */
+export async function createUser(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const body = await parseBody<{
+      username: string;
+      password: string;
+      email?: string;
+      displayName?: string;
+      role?: AccountRole;
+    }>(req);
+    const user = await getAccountService().createUser(body);
+    sendJson(res, { user }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create user');
+  }
+}
+
+/**
+ * Get a user account
+ * GET /api/users/:userId
+ */
+export async function getUser(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const user = await getAccountService().getUser(params.userId);
+    if (!user) {
+      sendError(res, `User not found: ${params.userId}`, 404);
+      return;
+    }
+    sendJson(res, { user });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to get user');
+  }
+}
+
+/**
+ * Update a user's profile, role or status
+ * PATCH /api/users/:userId
+ */
+export async function updateUser(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const body = await parseBody<{
+      email?: string | null;
+      displayName?: string | null;
+      role?: AccountRole;
+      status?: AccountStatus;
+    }>(req);
+
+    // Admins cannot lock themselves out
+    const self = (req as AuthenticatedRequest).user?.sub === params.userId;
+    if (self && (body.status === 'disabled' || (body.role && body.role !== 'admin'))) {
+      sendError(res, 'You cannot disable or demote your own account', 400);
+      return;
+    }
+
+    const user = await getAccountService().updateUser(params.userId, {
+      email: body.email,
+      displayName: body.displayName,
+      role: body.role,
+      status: body.status,
+    });
+    sendJson(res, { user });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update user');
+  }
+}
+
+/**
+ * Delete a user account
+ * DELETE /api/users/:userId
+ */
+export async function deleteUser(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    if ((req as AuthenticatedRequest).user?.sub === params.userId) {
+      sendError(res, 'You cannot delete your own account', 400);
+      return;
+    }
+    await getAccountService().deleteUser(params.userId);
+    sendJson(res, { success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete user');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Invitations
+// ---------------------------------------------------------------------------
+
+/**
+ * List invitations
+ * GET /api/invitations
+ */
+export async function listInvitations(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const invitations = await getAccountService().listInvitations();
+    sendJson(res, { invitations });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list invitations');
+  }
+}
+
+/**
+ * Invite someone by email. The token is only ever returned here.
+ * POST /api/invitations
+ */
+export async function createInvitation(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const body = await parseBody<{
+      email: string;
+      role?: AccountRole;
+      teamId?: string;
+      projectId?: string;
+      projectRole?: ProjectRole;
+      expiresInHours?: number;
+    }>(req);
+    const result = await getAccountService().createInvitation({
+      ...body,
+      invitedBy: (req as AuthenticatedRequest).user?.sub,
+    });
+    sendJson(res, result, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create invitation');
+  }
+}
+
+/**
+ * Revoke a pending invitation
+ * DELETE /api/invitations/:invitationId
+ */
+export async function revokeInvitation(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    await getAccountService().revokeInvitation(params.invitationId);
+    sendJson(res, { success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to revoke invitation');
+  }
+}
+
+/**
+ * Accept an invitation and create the account (no auth required)
+ * POST /api/invitations/accept
+ */
+export async function acceptInvitation(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const body = await parseBody<{
+      token: string;
+      username: string;
+      password: string;
+      displayName?: string;
+    }>(req);
+    const user = await getAccountService().acceptInvitation(body.token, {
+      username: body.username,
+      password: body.password,
+      displayName: body.displayName,
+    });
+    sendJson(res, { user }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to accept invitation');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Teams
+// ---------------------------------------------------------------------------
+
+/**
+ * List teams
+ * GET /api/teams
+ */
+export async function listTeams(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const teams = await getAccountService().listTeams();
+    sendJson(res, { teams });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list teams');
+  }
+}
+
+/**
+ * Create a team
+ * POST /api/teams
+ */
+export async function createTeam(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const body = await parseBody<{ name: string; description?: string }>(req);
+    const team = await getAccountService().createTeam({
+      ...body,
+      createdBy: (req as AuthenticatedRequest).user?.sub,
+    });
+    sendJson(res, { team }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create team');
+  }
+}
+
+/**
+ * Get a team and its members
+ * GET /api/teams/:teamId
+ */
+export async function getTeam(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const team = await getAccountService().getTeam(params.teamId);
+    if (!team) {
+      sendError(res, `Team not found: ${params.teamId}`, 404);
+      return;
+    }
+    sendJson(res, { team });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to get team');
+  }
+}
+
+/**
+ * Delete a team
+ * DELETE /api/teams/:teamId
+ */
+export async function deleteTeam(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    await getAccountService().deleteTeam(params.teamId);
+    sendJson(res, { success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete team');
+  }
+}
+
+/**
+ * Admins and the team's maintainers may change its members
+ */
+async function canManageTeam(req: IncomingMessage, teamId: string): Promise<boolean> {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  const team = await getAccountService().getTeam(teamId);
+  return !!team?.members?.some(m => m.userId === user.sub && m.role === 'maintainer');
+}
+
+/**
+ * Add a user to a team, or change their team role
+ * POST /api/teams/:teamId/members
+ */
+export async function addTeamMember(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    if (!(await canManageTeam(req, params.teamId))) {
+      sendError(res, 'Only admins and team maintainers can manage team members', 403);
+      return;
+    }
+    const body = await parseBody<{ userId: string; role?: TeamRole }>(req);
+    if (!body.userId) {
+      sendError(res, 'userId is required', 400);
+      return;
+    }
+    const member = await getAccountService().addTeamMember(params.teamId, body.userId, body.role);
+    sendJson(res, { member }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to add team member');
+  }
+}
+
+/**
+ * Remove a user from a team
+ * DELETE /api/teams/:teamId/members/:userId
+ */
+export async function removeTeamMember(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    if (!(await canManageTeam(req, params.teamId))) {
+      sendError(res, 'Only admins and team maintainers can manage team members', 403);
+      return;
+    }
+    await getAccountService().removeTeamMember(params.teamId, params.userId);
+    sendJson(res, { success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to remove team member');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Project membership
+// ---------------------------------------------------------------------------
+
+/**
+ * List a project's members
+ * GET /api/projects/:projectId/members
+ */
+export async function listProjectMembers(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const members = await getAccountService().listProjectMembers(params.projectId);
+    sendJson(res, { members });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list project members');
+  }
+}
+
+/**
+ * Give a user or team a role on a project
+ * PUT /api/projects/:projectId/members
+ */
+export async function setProjectMember(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const body = await parseBody<{ userId?: string; teamId?: string; role: ProjectRole }>(req);
+    const member = await getAccountService().setProjectMember(
+      params.projectId,
+      { userId: body.userId, teamId: body.teamId, role: body.role },
+      (req as AuthenticatedRequest).user?.sub
+    );
+    sendJson(res, { member });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to set project member');
+  }
+}
+
+/**
+ * Remove a member from a project
+ * DELETE /api/projects/:projectId/members/:memberId
+ */
+export async function removeProjectMember(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    await getAccountService().removeProjectMember(params.projectId, params.memberId);
+    sendJson(res, { success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to remove project member');
+  }
+}
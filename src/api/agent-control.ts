@@ -0,0 +1,394 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  getAgentControlService,
+  type ActionDecision,
+  type PendingActionStatus,
+  type SteeringStatus,
+} from '../core/agent-control/index.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  getProjectRole,
+  hasProjectRole,
+  verifyAgentAccess,
+  type ActionType,
+} from '../middleware/authorization.js';
+
+/**
+ * Agent Control API
+ *
+ * Human-in-the-loop controls for running agents: pause, unpause and step,
+ * steering instructions for the agent's next turn, and the queue of risky
+ * actions awaiting approval. Controlling an agent needs the editor role
+ * on its project, reading its state any role, and deciding an action the
+ * reviewer role.
+ */
+
+/**
+ * Parse JSON body from request
+ */
+async function parseBody<T>(req: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}') as T);
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: ServerResponse, data: unknown, status: number = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Send error response
+ */
+function sendError(res: ServerResponse, message: string, status: number = 400): void {
+  sendJson(res, { error: message }, status);
+}
+
+/**
+ * Map a service error to a response: missing things are 404, state
+ * conflicts 409, anything else the caller got wrong 400
+ */
+function sendServiceError(res: ServerResponse, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+  if (/not found/.test(message)) {
+    sendError(res, message, 404);
+  } else if (/no running process|not paused|already (approved|denied)/.test(message)) {
+    sendError(res, message, 409);
+  } else if (/required|must be|Invalid JSON/i.test(message)) {
+    sendError(res, message, 400);
+  } else {
+    sendError(res, fallback, 500);
+  }
+}
+
+function requester(req: IncomingMessage): string | undefined {
+  return (req as AuthenticatedRequest).user?.sub;
+}
+
+/**
+ * Admins, and members whose role on the agent's project allows the action.
+ * Sends the error response when not allowed.
+ */
+async function authorizeAgentAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  agentId: string,
+  action: ActionType
+): Promise<boolean> {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    sendError(res, 'Authentication required', 401);
+    return false;
+  }
+  if (user.role === 'admin' || await verifyAgentAccess(user.sub, agentId, action)) {
+    return true;
+  }
+  sendError(res, 'Access denied to this agent', 403);
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Pause / unpause / step
+// ---------------------------------------------------------------------------
+
+/**
+ * Get an agent's pause state
+ * GET /api/agents/:agentId/control
+ */
+export async function getAgentControl(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'read'))) return;
+
+  try {
+    const control = await getAgentControlService().getControlState(params.agentId);
+    sendJson(res, { control });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to get agent control state');
+  }
+}
+
+/**
+ * Pause an agent (SIGSTOP, status blocked)
+ * POST /api/agents/:agentId/pause
+ */
+export async function pauseAgent(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'execute'))) return;
+
+  try {
+    const body = await parseBody<{ reason?: string }>(req);
+    const control = await getAgentControlService().pauseAgent(params.agentId, {
+      pausedBy: requester(req),
+      reason: body.reason,
+    });
+    sendJson(res, { control });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to pause agent');
+  }
+}
+
+/**
+ * Continue a paused agent
+ * POST /api/agents/:agentId/unpause
+ */
+export async function unpauseAgent(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'execute'))) return;
+
+  try {
+    const control = await getAgentControlService().resumeAgent(params.agentId, { resumedBy: requester(req) });
+    sendJson(res, { control });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to unpause agent');
+  }
+}
+
+/**
+ * Run a paused agent for one turn, then pause it again
+ * POST /api/agents/:agentId/step
+ */
+export async function stepAgent(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'execute'))) return;
+
+  try {
+    const control = await getAgentControlService().stepAgent(params.agentId, { resumedBy: requester(req) });
+    sendJson(res, { control });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to step agent');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Steering
+// ---------------------------------------------------------------------------
+
+/**
+ * List an agent's steering instructions
+ * GET /api/agents/:agentId/steering?status=pending
+ */
+export async function listSteering(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'read'))) return;
+
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const status = url.searchParams.get('status') as SteeringStatus | null;
+    const steering = await getAgentControlService().listSteering(params.agentId, { status: status || undefined });
+    sendJson(res, { steering });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list steering instructions');
+  }
+}
+
+/**
+ * Queue an instruction for the agent's next turn
+ * POST /api/agents/:agentId/steering
+ */
+export async function steerAgent(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'execute'))) return;
+
+  try {
+    const body = await parseBody<{ instruction: string }>(req);
+    const steering = await getAgentControlService().steerAgent(params.agentId, body.instruction, requester(req));
+    sendJson(res, { steering }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to queue steering instruction');
+  }
+}
+
+/**
+ * Withdraw an instruction that has not been delivered
+ * DELETE /api/steering/:steeringId
+ */
+export async function cancelSteering(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const service = getAgentControlService();
+    const existing = await service.getSteering(params.steeringId);
+    if (!existing) {
+      sendError(res, `Steering instruction not found: ${params.steeringId}`, 404);
+      return;
+    }
+    if (!(await authorizeAgentAction(req, res, existing.agentId, 'execute'))) return;
+
+    const steering = await service.cancelSteering(params.steeringId);
+    sendJson(res, { steering });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to cancel steering instruction');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pending actions
+// ---------------------------------------------------------------------------
+
+/**
+ * List a project's actions awaiting (or past) approval
+ * GET /api/projects/:projectId/pending-actions?status=pending
+ */
+export async function listProjectPendingActions(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const status = url.searchParams.get('status') as PendingActionStatus | null;
+    const actions = await getAgentControlService().listPendingActions({
+      projectId: params.projectId,
+      status: status || undefined,
+    });
+    sendJson(res, { actions });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list pending actions');
+  }
+}
+
+/**
+ * List an agent's actions
+ * GET /api/agents/:agentId/pending-actions?status=pending
+ */
+export async function listAgentPendingActions(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'read'))) return;
+
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const status = url.searchParams.get('status') as PendingActionStatus | null;
+    const actions = await getAgentControlService().listPendingActions({
+      agentId: params.agentId,
+      status: status || undefined,
+    });
+    sendJson(res, { actions });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list pending actions');
+  }
+}
+
+/**
+ * Ask for approval before taking an action, for agents that check in
+ * themselves rather than being gated on their tool calls
+ * POST /api/agents/:agentId/pending-actions
+ */
+export async function requestAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  if (!(await authorizeAgentAction(req, res, params.agentId, 'execute'))) return;
+
+  try {
+    const body = await parseBody<{
+      actionType: string;
+      description: string;
+      details?: Record<string, unknown>;
+      pauseAgent?: boolean;
+    }>(req);
+    const action = await getAgentControlService().requestAction({ ...body, agentId: params.agentId });
+    sendJson(res, { action }, 201);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to request action');
+  }
+}
+
+/**
+ * Admins and project reviewers and above can decide its actions
+ */
+async function canDecide(req: IncomingMessage, projectId: string): Promise<boolean> {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  return hasProjectRole(await getProjectRole(user.sub, projectId), 'reviewer');
+}
+
+async function decideAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  actionId: string,
+  decision: ActionDecision
+): Promise<void> {
+  try {
+    const service = getAgentControlService();
+    const existing = await service.getPendingAction(actionId);
+    if (!existing) {
+      sendError(res, `Pending action not found: ${actionId}`, 404);
+      return;
+    }
+    if (!(await canDecide(req, existing.projectId))) {
+      sendError(res, 'Only project reviewers can approve or deny agent actions', 403);
+      return;
+    }
+
+    const body = await parseBody<{ reason?: string }>(req);
+    const action = await service.decideAction(actionId, decision, {
+      decidedBy: requester(req),
+      reason: body.reason,
+    });
+    sendJson(res, { action });
+  } catch (error) {
+    sendServiceError(res, error, `Failed to ${decision === 'approved' ? 'approve' : 'deny'} action`);
+  }
+}
+
+/**
+ * Approve a pending action
+ * POST /api/pending-actions/:actionId/approve
+ */
+export async function approveAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  await decideAction(req, res, params.actionId, 'approved');
+}
+
+/**
+ * Deny a pending action
+ * POST /api/pending-actions/:actionId/deny
+ */
+export async function denyAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  await decideAction(req, res, params.actionId, 'denied');
+}
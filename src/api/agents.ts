@@ -8,10 +8,12 @@
 import { getDatabase } from '../lib/database.js';
 import {
   createQAAgent,
+  FlowStore,
   createMentorAgent,
   createMonitorAgent,
   type E2EConfig,
   type UserFlow,
+  type StoredUserFlow,
   type BlockedIssue,
   type CodeContext,
   BlockedCategory,
@@ -98,10 +100,12 @@ export async function testUserFlow(
   flow: UserFlow
 ): Promise<{
   resultId: string;
+  testRunId: string;
   flowId: string;
   status: string;
   stepsCompleted: number;
   totalSteps: number;
+  stepResults: object[];
   issues: object[];
 }> {
   let qa = qaAgents.get(projectId);
@@ -116,14 +120,44 @@ export async function testUserFlow(
 
   return {
     resultId: result.id,
+    testRunId: result.testRunId,
     flowId: result.flowId,
     status: result.status,
     stepsCompleted: result.stepsCompleted,
     totalSteps: result.totalSteps,
+    stepResults: result.stepResults,
     issues: result.issues,
   };
 }
 
+/**
+ * List a project's stored user flows
+ */
+export async function listUserFlows(
+  projectId: string,
+  includeDisabled = false
+): Promise<StoredUserFlow[]> {
+  return new FlowStore(projectId).list({ includeDisabled });
+}
+
+/**
+ * Create or replace a user flow for a project
+ */
+export async function saveUserFlow(
+  projectId: string,
+  flow: UserFlow,
+  enabled = true
+): Promise<StoredUserFlow> {
+  return new FlowStore(projectId).save(flow, enabled);
+}
+
+/**
+ * Delete a user flow
+ */
+export async function deleteUserFlow(projectId: string, flowId: string): Promise<boolean> {
+  return new FlowStore(projectId).delete(flowId);
+}
+
 /**
  * Generate QA report
  */
@@ -192,7 +226,7 @@ export async function getQAIssues(
   filters?: { severity?: string; resolved?: boolean }
 ): Promise<object[]> {
   const db = getDatabase();
-  let query = `SELECT * FROM qa_test_results WHERE project_id = $1`;
+  let query = `SELECT * FROM qa_test_results WHERE project_id = $1 AND result_kind = 'issue'`;
   const params: unknown[] = [projectId];
 
   if (filters?.severity) {
@@ -211,6 +245,23 @@ export async function getQAIssues(
   return result.rows;
 }
 
+/**
+ * Get the executed steps of a test run, in order, with timings and
+ * DOM snapshots of failures
+ */
+export async function getQAStepResults(projectId: string, testRunId: string): Promise<object[]> {
+  const db = getDatabase();
+  const result = await db.query(
+    `SELECT id, flow_id, step_id, step_index, title, status, duration, url, http_status,
+            selector, expected, actual, description AS error, screenshot, dom_snapshot, created_at
+     FROM qa_test_results
+     WHERE project_id = $1 AND test_run_id = $2 AND result_kind = 'step'
+     ORDER BY created_at ASC, step_index ASC`,
+    [projectId, testRunId]
+  );
+  return result.rows;
+}
+
 // ============================================================================
 // Mentor Agent Endpoints
 // ============================================================================
@@ -30,7 +30,8 @@ export interface UserCredentials {
   username: string;
   passwordHash: string;
   salt: string;
-  role: 'admin' | 'user';
+  role: JwtPayload['role'];
+  status: 'active' | 'disabled';
   failedAttempts: number;
   lockedUntil: Date | null;
   lastLogin: Date | null;
@@ -243,7 +244,7 @@ export async function login(req: IncomingMessage, res: ServerResponse): Promise<
     try {
       const db = getDatabase();
       const result = await db.query<UserCredentials>(
-        `SELECT id, username, password_hash as "passwordHash", salt, role,
+        `SELECT id, username, password_hash as "passwordHash", salt, role, status,
                 failed_attempts as "failedAttempts", locked_until as "lockedUntil",
                 last_login as "lastLogin", created_at as "createdAt", updated_at as "updatedAt"
          FROM users WHERE username = $1`,
@@ -253,9 +254,14 @@ export async function login(req: IncomingMessage, res: ServerResponse): Promise<
       if (result.rows.length > 0) {
         user = result.rows[0];
       }
-    } catch (dbError) {
-      // If users table doesn't exist or other DB error, fall back to env-based auth
-      // This allows development without a full user system
+    } catch {
+      // Users table missing or unreachable: only the env-based admin below can log in
+    }
+
+    if (!user) {
+      // Without a matching account, fall back to the env-based admin. This
+      // allows development without a full user system, and bootstrapping
+      // the first accounts.
       const adminUsername = process.env.ADMIN_USERNAME || 'admin';
       const adminPassword = process.env.ADMIN_PASSWORD;
 
@@ -298,6 +304,20 @@ export async function login(req: IncomingMessage, res: ServerResponse): Promise<
       return;
     }
 
+    if (user.status !== 'active') {
+      logSecurityEvent('LOGIN_BLOCKED', {
+        username: body.username,
+        ip: clientIP,
+        reason: 'disabled'
+      });
+
+      sendJson(res, 403, {
+        error: 'Account is disabled',
+        code: 'ACCOUNT_DISABLED'
+      });
+      return;
+    }
+
     // Check if user is locked in database
     if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
       logSecurityEvent('LOGIN_BLOCKED', {
@@ -513,7 +533,8 @@ export async function getCurrentUser(req: AuthenticatedRequest, res: ServerRespo
     try {
       const db = getDatabase();
       const result = await db.query(
-        `SELECT id, username, role, created_at as "createdAt", last_login as "lastLogin"
+        `SELECT id, username, email, display_name as "displayName", role, status,
+                created_at as "createdAt", last_login as "lastLogin"
          FROM users WHERE id = $1`,
         [req.user.sub]
       );
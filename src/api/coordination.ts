@@ -442,7 +442,8 @@ router.post('/:projectId/conflicts/detect', async (req: Request, res: Response)
 
 /**
  * POST /api/coordination/:projectId/conflicts/:conflictId/resolve
- * Resolve a conflict
+ * Resolve a conflict. For merge conflicts, resolving the last conflicted
+ * file of a merge completes the git merge into the integration branch.
  */
 router.post('/:projectId/conflicts/:conflictId/resolve', async (req: Request, res: Response) => {
   try {
@@ -1,5 +1,23 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { getCostTracker } from '../core/cost/index.js';
+import {
+  BUDGET_DIMENSIONS,
+  getBudgetEnforcer,
+  loadProjectBudgetPolicy,
+  resolveThresholds,
+  saveProjectBudgetPolicy,
+  validateBudgetPolicy,
+} from '../core/cost/budgets.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { BudgetDimension } from '../types/index.js';
+import {
+  DEFAULT_BUDGET_FALLBACK,
+  getModelRoutingDecisions,
+  loadProjectModelPolicy,
+  priceTiers,
+  saveProjectModelPolicy,
+  validateModelRoutingPolicy,
+} from '../core/cost/routing.js';
 
 /**
  * Parse JSON body from request
@@ -123,6 +141,33 @@ export async function updateProjectBudget(
   }
 }
 
+/**
+ * Get projected final cost and budget exhaustion date
+ * GET /api/projects/:projectId/cost-forecast
+ */
+export async function getCostForecast(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const costTracker = getCostTracker();
+    const forecast = await costTracker.getBudgetForecast(projectId);
+
+    sendJson(res, forecast);
+  } catch (error) {
+    console.error('Error getting cost forecast:', error);
+    sendError(res, 'Failed to get cost forecast', 500);
+  }
+}
+
 /**
  * Get cost events for a project
  * GET /api/projects/:projectId/cost-events
@@ -362,3 +407,301 @@ export async function getModelPricing(
     sendError(res, 'Failed to get model pricing', 500);
   }
 }
+
+/**
+ * Get a project's model routing policy
+ * GET /api/projects/:projectId/model-policy
+ */
+export async function getModelPolicy(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const policy = await loadProjectModelPolicy(projectId);
+    const pricing = getCostTracker().getAllModelPricing();
+
+    sendJson(res, {
+      policy: policy || null,
+      budgetFallback: policy?.budgetFallback || DEFAULT_BUDGET_FALLBACK,
+      priceTiers: policy?.fallbackChain ? policy.fallbackChain.map(model => [model]) : priceTiers(pricing),
+    });
+  } catch (error) {
+    console.error('Error getting model policy:', error);
+    sendError(res, 'Failed to get model policy', 500);
+  }
+}
+
+/**
+ * Replace a project's model routing policy; a null policy removes it
+ * PUT /api/projects/:projectId/model-policy
+ */
+export async function updateModelPolicy(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const body = await parseBody<{ policy?: unknown }>(req);
+
+    if (body.policy === undefined) {
+      sendError(res, 'policy is required (null to remove)', 400);
+      return;
+    }
+
+    if (body.policy === null) {
+      await saveProjectModelPolicy(projectId, null);
+      sendJson(res, { policy: null });
+      return;
+    }
+
+    const knownModels = getCostTracker().getAllModelPricing().map(pricing => pricing.model);
+    const validation = validateModelRoutingPolicy(body.policy, knownModels);
+    if (!validation.valid) {
+      sendJson(res, { error: 'Invalid model routing policy', details: validation.errors }, 400);
+      return;
+    }
+
+    await saveProjectModelPolicy(projectId, validation.policy!);
+    sendJson(res, { policy: validation.policy });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      sendError(res, error.message, 404);
+      return;
+    }
+    console.error('Error updating model policy:', error);
+    sendError(res, 'Failed to update model policy', 500);
+  }
+}
+
+/**
+ * Get the models chosen for a project's agents, most recent first
+ * GET /api/projects/:projectId/model-routing
+ */
+export async function getModelRoutingLog(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 500);
+
+    const decisions = await getModelRoutingDecisions(projectId, limit);
+    sendJson(res, { decisions });
+  } catch (error) {
+    console.error('Error getting model routing log:', error);
+    sendError(res, 'Failed to get model routing log', 500);
+  }
+}
+
+/**
+ * Get USD, token and time budget use with the threshold actions in effect
+ * GET /api/projects/:projectId/budgets
+ */
+export async function getProjectBudgets(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const status = await getBudgetEnforcer().getStatus(projectId);
+    sendJson(res, status);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      sendError(res, error.message, 404);
+      return;
+    }
+    console.error('Error getting project budgets:', error);
+    sendError(res, 'Failed to get project budgets', 500);
+  }
+}
+
+/**
+ * Get a project's budget policy and the thresholds each budget resolves to
+ * GET /api/projects/:projectId/budget-policy
+ */
+export async function getBudgetPolicy(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const policy = await loadProjectBudgetPolicy(projectId);
+    const thresholds = Object.fromEntries(
+      BUDGET_DIMENSIONS.map(dimension => [dimension, resolveThresholds(dimension, policy)])
+    );
+
+    sendJson(res, { policy: policy || null, thresholds });
+  } catch (error) {
+    console.error('Error getting budget policy:', error);
+    sendError(res, 'Failed to get budget policy', 500);
+  }
+}
+
+/**
+ * Replace a project's budget policy; a null policy removes it
+ * PUT /api/projects/:projectId/budget-policy
+ */
+export async function updateBudgetPolicy(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const body = await parseBody<{ policy?: unknown }>(req);
+
+    if (body.policy === undefined) {
+      sendError(res, 'policy is required (null to remove)', 400);
+      return;
+    }
+
+    if (body.policy === null) {
+      await saveProjectBudgetPolicy(projectId, null);
+      sendJson(res, { policy: null });
+      return;
+    }
+
+    const validation = validateBudgetPolicy(body.policy);
+    if (!validation.valid) {
+      sendJson(res, { error: 'Invalid budget policy', details: validation.errors }, 400);
+      return;
+    }
+
+    await saveProjectBudgetPolicy(projectId, validation.policy!);
+    sendJson(res, { policy: validation.policy });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      sendError(res, error.message, 404);
+      return;
+    }
+    console.error('Error updating budget policy:', error);
+    sendError(res, 'Failed to update budget policy', 500);
+  }
+}
+
+/**
+ * List budget extensions granted for a project, most recent first
+ * GET /api/projects/:projectId/budget-extensions
+ */
+export async function getBudgetExtensions(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 500);
+
+    const extensions = await getBudgetEnforcer().getBudgetExtensions(projectId, limit);
+    sendJson(res, { extensions });
+  } catch (error) {
+    console.error('Error getting budget extensions:', error);
+    sendError(res, 'Failed to get budget extensions', 500);
+  }
+}
+
+/**
+ * Grant a budget extension: raises one budget's limit and records it
+ * POST /api/projects/:projectId/budget-extensions
+ * Body: { dimension: 'cost' | 'tokens' | 'time', amount, reason, grantedBy? }
+ */
+export async function grantBudgetExtension(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+
+    if (!projectId) {
+      sendError(res, 'Project ID is required', 400);
+      return;
+    }
+
+    const body = await parseBody<{
+      dimension?: BudgetDimension;
+      amount?: number;
+      reason?: string;
+      grantedBy?: string;
+    }>(req);
+
+    if (!body.dimension || !BUDGET_DIMENSIONS.includes(body.dimension)) {
+      sendError(res, `dimension must be one of: ${BUDGET_DIMENSIONS.join(', ')}`, 400);
+      return;
+    }
+
+    // The authenticated user, when there is one, is the grantor of record
+    const grantedBy = (req as AuthenticatedRequest).user?.sub || body.grantedBy;
+
+    const extension = await getBudgetEnforcer().extendBudget(projectId, {
+      dimension: body.dimension,
+      amount: body.amount as number,
+      reason: body.reason || '',
+      grantedBy,
+    });
+
+    const status = await getBudgetEnforcer().getStatus(projectId);
+    sendJson(res, { extension, status }, 201);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      sendError(res, error.message, 404);
+      return;
+    }
+    if (error instanceof Error && /amount|reason|dimension/.test(error.message)) {
+      sendError(res, error.message, 400);
+      return;
+    }
+    console.error('Error granting budget extension:', error);
+    sendError(res, 'Failed to grant budget extension', 500);
+  }
+}
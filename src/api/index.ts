@@ -57,9 +57,13 @@ import {
   resumeAgentFromCheckpoint,
   getAgentMessages,
   sendMessageToAgent,
+  getDeadLetters,
+  requeueDeadLetter,
   getCheckpointStats,
   getAgentCheckpoints,
+  getCheckpointDiff,
   getExecutionLogs,
+  type ProjectMessageBusOptions,
 } from './orchestrator.js';
 import {
   spawnAgent as spawnAgentLifecycle,
@@ -92,6 +96,12 @@ import {
   getProjectCosts,
   getProjectBudget,
   updateProjectBudget,
+  getCostForecast,
+  getProjectBudgets,
+  getBudgetPolicy,
+  updateBudgetPolicy,
+  getBudgetExtensions,
+  grantBudgetExtension,
   getCostEvents,
   getDailyCosts,
   getCostByAgentType,
@@ -100,7 +110,55 @@ import {
   acknowledgeBudgetAlert,
   recordCostEvent,
   getModelPricing,
+  getModelPolicy,
+  updateModelPolicy,
+  getModelRoutingLog,
 } from './costs.js';
+import {
+  listUsers,
+  createUser,
+  getUser,
+  updateUser,
+  deleteUser,
+  listInvitations,
+  createInvitation,
+  revokeInvitation,
+  acceptInvitation,
+  listTeams,
+  createTeam,
+  getTeam,
+  deleteTeam,
+  addTeamMember,
+  removeTeamMember,
+  listProjectMembers,
+  setProjectMember,
+  removeProjectMember,
+} from './accounts.js';
+import { getAccountService } from '../core/accounts/index.js';
+import {
+  getAgentControl,
+  pauseAgent,
+  unpauseAgent,
+  stepAgent,
+  listSteering,
+  steerAgent,
+  cancelSteering,
+  listProjectPendingActions,
+  listAgentPendingActions,
+  requestAction,
+  approveAction,
+  denyAction,
+} from './agent-control.js';
+import { getProjectRequirements } from './requirements.js';
+import { getProjectQuality } from './quality.js';
+import {
+  listVisualBaselines,
+  createVisualBaseline,
+  runVisualBaseline,
+  acceptVisualRun,
+  listVisualRuns,
+  getVisualImage,
+} from './visual.js';
 import {
   getAggregateLearningMetrics,
   getPromptPerformance,
@@ -121,6 +179,8 @@ import {
   resumeWorkflow,
   getActiveWorkflows,
   getWorkflowStats,
+  listWorkflowDefinitions,
+  validateWorkflow,
   enableAutoTrigger,
   disableAutoTrigger,
   getAutoTriggerStatus,
@@ -129,6 +189,7 @@ import {
 export interface ApiServerOptions {
   port: number;
   host?: string;
+  messageBus?: ProjectMessageBusOptions;  // The bus the server runs on; defaults to Redis on localhost
 }
 
 type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => Promise<void>;
@@ -136,8 +197,10 @@ type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: Record<s
 export class ApiServer {
   private server: ReturnType<typeof createServer>;
   private routes: Map<string, Map<string, RouteHandler>> = new Map();
+  private messageBusOptions: ProjectMessageBusOptions;
 
   constructor(options: ApiServerOptions) {
+    this.messageBusOptions = options.messageBus || { redis: { host: 'localhost', port: 6379 } };
     this.server = createServer((req, res) => this.handleRequest(req, res));
     this.setupRoutes();
   }
@@ -153,6 +216,26 @@ export class ApiServer {
     // Authorization audit (admin only)
     this.route('GET', '/api/auth/audit', this.getAuthAuditHandler);
 
+    // Accounts: users, invitations, teams and project membership
+    this.route('GET', '/api/users', this.listUsersHandler);
+    this.route('POST', '/api/users', this.createUserHandler);
+    this.route('GET', '/api/users/:userId', this.getUserHandler);
+    this.route('PATCH', '/api/users/:userId', this.updateUserHandler);
+    this.route('DELETE', '/api/users/:userId', this.deleteUserHandler);
+    this.route('GET', '/api/invitations', this.listInvitationsHandler);
+    this.route('POST', '/api/invitations', this.createInvitationHandler);
+    this.route('POST', '/api/invitations/accept', this.acceptInvitationHandler);
+    this.route('DELETE', '/api/invitations/:invitationId', this.revokeInvitationHandler);
+    this.route('GET', '/api/teams', this.listTeamsHandler);
+    this.route('POST', '/api/teams', this.createTeamHandler);
+    this.route('GET', '/api/teams/:teamId', this.getTeamHandler);
+    this.route('DELETE', '/api/teams/:teamId', this.deleteTeamHandler);
+    this.route('POST', '/api/teams/:teamId/members', this.addTeamMemberHandler);
+    this.route('DELETE', '/api/teams/:teamId/members/:userId', this.removeTeamMemberHandler);
+    this.route('GET', '/api/projects/:projectId/members', this.listProjectMembersHandler);
+    this.route('PUT', '/api/projects/:projectId/members', this.setProjectMemberHandler);
+    this.route('DELETE', '/api/projects/:projectId/members/:memberId', this.removeProjectMemberHandler);
+
     // Projects
     this.route('GET', '/api/projects', this.listProjects);
     this.route('GET', '/api/projects/:id', this.getProject);
@@ -208,10 +291,13 @@ export class ApiServer {
     this.route('POST', '/api/agents/:agentId/resume', this.resumeAgentHandler);
     this.route('GET', '/api/agents/:agentId/messages', this.getAgentMessagesHandler);
     this.route('POST', '/api/agents/:agentId/message', this.sendMessageToAgentHandler);
+    this.route('GET', '/api/projects/:projectId/dead-letters', this.getDeadLettersHandler);
+    this.route('POST', '/api/projects/:projectId/dead-letters/:deadLetterId/requeue', this.requeueDeadLetterHandler);
 
     // Demo₃: Checkpoint endpoints
     this.route('GET', '/api/checkpoints', this.getCheckpointStatsHandler);
     this.route('GET', '/api/checkpoints/:agentId', this.getAgentCheckpointsHandler);
+    this.route('GET', '/api/checkpoints/:checkpointId/diff/:otherId', this.getCheckpointDiffHandler);
 
     // Demo₃: Execution logs
     this.route('GET', '/api/execution-logs', this.getExecutionLogsHandler);
@@ -228,6 +314,26 @@ export class ApiServer {
     this.route('GET', '/api/agents/:agentId/health-history', this.getAgentHealthHistoryHandler);
     this.route('GET', '/api/agents/:agentId/resource-history', this.getAgentResourceHistoryHandler);
 
+    // Human-in-the-loop agent control
+    this.route('GET', '/api/agents/:agentId/control', this.getAgentControlHandler);
+    this.route('POST', '/api/agents/:agentId/pause', this.pauseAgentHandler);
+    this.route('POST', '/api/agents/:agentId/unpause', this.unpauseAgentHandler);
+    this.route('POST', '/api/agents/:agentId/step', this.stepAgentHandler);
+    this.route('GET', '/api/agents/:agentId/steering', this.listSteeringHandler);
+    this.route('POST', '/api/agents/:agentId/steering', this.steerAgentHandler);
+    this.route('DELETE', '/api/steering/:steeringId', this.cancelSteeringHandler);
+    this.route('GET', '/api/agents/:agentId/pending-actions', this.listAgentPendingActionsHandler);
+    this.route('POST', '/api/agents/:agentId/pending-actions', this.requestActionHandler);
+    this.route('GET', '/api/projects/:projectId/pending-actions', this.listProjectPendingActionsHandler);
+    this.route('POST', '/api/pending-actions/:actionId/approve', this.approveActionHandler);
+    this.route('POST', '/api/pending-actions/:actionId/deny', this.denyActionHandler);
+
+    // Requirements traceability
+    this.route('GET', '/api/projects/:projectId/requirements', this.getProjectRequirementsHandler);
+
+    // Code quality (SARIF)
+    this.route('GET', '/api/projects/:projectId/quality', this.getProjectQualityHandler);
+
     // Demo₄: Agent Manager endpoints
     this.route('GET', '/api/agent-manager/status', this.getManagerStatusHandler);
     this.route('POST', '/api/agent-manager/spawn-all', this.spawnAllAgentsHandler);
@@ -315,6 +421,14 @@ export class ApiServer {
     this.route('GET', '/api/demos/:demoId/verification', this.getLatestVerificationHandler);
     this.route('GET', '/api/demos/:demoId/verification-history', this.getVerificationHistoryHandler);
 
+    // Demo₇: Visual Regression
+    this.route('GET', '/api/projects/:projectId/visual-baselines', this.listVisualBaselinesHandler);
+    this.route('POST', '/api/projects/:projectId/visual-baselines', this.createVisualBaselineHandler);
+    this.route('POST', '/api/projects/:projectId/visual-baselines/:baselineId/run', this.runVisualBaselineHandler);
+    this.route('POST', '/api/projects/:projectId/visual-baselines/:baselineId/accept', this.acceptVisualRunHandler);
+    this.route('GET', '/api/projects/:projectId/visual-runs', this.listVisualRunsHandler);
+    this.route('GET', '/api/projects/:projectId/visual/:scope/:scopeId/:file', this.getVisualImageHandler);
+
     // Demo₇: Client Feedback
     this.route('GET', '/api/demos/:demoId/feedback', this.listFeedbackHandler);
     this.route('POST', '/api/demos/:demoId/feedback', this.addFeedbackHandler);
@@ -352,6 +466,8 @@ export class ApiServer {
     this.route('POST', '/api/projects/:projectId/workflow/resume', this.resumeWorkflowHandler);
     this.route('GET', '/api/workflow/active', this.getActiveWorkflowsHandler);
     this.route('GET', '/api/workflow/stats', this.getWorkflowStatsHandler);
+    this.route('GET', '/api/workflow/definitions', this.listWorkflowDefinitionsHandler);
+    this.route('POST', '/api/workflow/definitions/validate', this.validateWorkflowHandler);
     this.route('POST', '/api/workflow/auto-trigger/enable', this.enableAutoTriggerHandler);
     this.route('POST', '/api/workflow/auto-trigger/disable', this.disableAutoTriggerHandler);
     this.route('GET', '/api/workflow/auto-trigger/status', this.getAutoTriggerStatusHandler);
@@ -360,6 +476,12 @@ export class ApiServer {
     this.route('GET', '/api/projects/:projectId/costs', this.getProjectCostsHandler);
     this.route('GET', '/api/projects/:projectId/budget', this.getProjectBudgetHandler);
     this.route('PUT', '/api/projects/:projectId/budget', this.updateProjectBudgetHandler);
+    this.route('GET', '/api/projects/:projectId/cost-forecast', this.getCostForecastHandler);
+    this.route('GET', '/api/projects/:projectId/budgets', this.getProjectBudgetsHandler);
+    this.route('GET', '/api/projects/:projectId/budget-policy', this.getBudgetPolicyHandler);
+    this.route('PUT', '/api/projects/:projectId/budget-policy', this.updateBudgetPolicyHandler);
+    this.route('GET', '/api/projects/:projectId/budget-extensions', this.getBudgetExtensionsHandler);
+    this.route('POST', '/api/projects/:projectId/budget-extensions', this.grantBudgetExtensionHandler);
     this.route('GET', '/api/projects/:projectId/cost-events', this.getCostEventsHandler);
     this.route('GET', '/api/projects/:projectId/cost-daily', this.getDailyCostsHandler);
     this.route('GET', '/api/projects/:projectId/cost-by-agent', this.getCostByAgentTypeHandler);
@@ -368,6 +490,9 @@ export class ApiServer {
     this.route('GET', '/api/costs/alerts', this.getBudgetAlertsHandler);
     this.route('POST', '/api/costs/alerts/:alertId/acknowledge', this.acknowledgeBudgetAlertHandler);
     this.route('GET', '/api/costs/pricing', this.getModelPricingHandler);
+    this.route('GET', '/api/projects/:projectId/model-policy', this.getModelPolicyHandler);
+    this.route('PUT', '/api/projects/:projectId/model-policy', this.updateModelPolicyHandler);
+    this.route('GET', '/api/projects/:projectId/model-routing', this.getModelRoutingLogHandler);
 
     // Production: Learning Metrics
     this.route('GET', '/api/learning/metrics', this.getLearningMetricsHandler);
@@ -421,7 +546,8 @@ export class ApiServer {
       const publicEndpoints = [
         '/api/health',
         '/api/auth/login',
-        '/api/auth/refresh'
+        '/api/auth/refresh',
+        '/api/invitations/accept'
       ];
 
       const isPublicEndpoint = publicEndpoints.some(ep => url.pathname === ep);
@@ -538,9 +664,27 @@ export class ApiServer {
     this.sendJson(res, 200, { status: 'ok', timestamp: new Date().toISOString() });
   }
 
-  private async listProjects(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async listProjects(req: IncomingMessage, res: ServerResponse): Promise<void> {
     const db = getDatabase();
-    const result = await db.query<Project>('SELECT * FROM projects ORDER BY created_at DESC');
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user || user.role === 'admin') {
+      const result = await db.query<Project>('SELECT * FROM projects ORDER BY created_at DESC');
+      this.sendJson(res, 200, result.rows);
+      return;
+    }
+
+    // Everyone else sees the projects they are a member of, directly or
+    // through a team, and projects that have no members yet
+    const result = await db.query<Project>(
+      `SELECT p.* FROM projects p
+       WHERE NOT EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id)
+          OR EXISTS (SELECT 1 FROM project_members pm
+                     LEFT JOIN team_members tm ON tm.team_id = pm.team_id
+                     WHERE pm.project_id = p.id AND (pm.user_id::text = $1 OR tm.user_id::text = $1))
+       ORDER BY p.created_at DESC`,
+      [user.sub]
+    );
     this.sendJson(res, 200, result.rows);
   }
 
@@ -561,6 +705,13 @@ export class ApiServer {
       `INSERT INTO projects (name, description) VALUES ($1, $2) RETURNING *`,
       [body.name, body.description || null]
     );
+
+    // The creator owns the project if they have an account
+    const user = (req as AuthenticatedRequest).user;
+    if (user) {
+      await getAccountService().addProjectCreator(result.rows[0].id, user.sub);
+    }
+
     this.sendJson(res, 201, result.rows[0]);
   }
 
@@ -777,6 +928,14 @@ export class ApiServer {
     await sendMessageToAgent(req, res, params.agentId);
   }
 
+  private async getDeadLettersHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getDeadLetters(req, res, params.projectId, this.messageBusOptions);
+  }
+
+  private async requeueDeadLetterHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await requeueDeadLetter(req, res, params.projectId, params.deadLetterId, this.messageBusOptions);
+  }
+
   // Demo₃: Checkpoint handlers
   private async getCheckpointStatsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
     await getCheckpointStats(req, res);
@@ -786,6 +945,10 @@ export class ApiServer {
     await getAgentCheckpoints(req, res, params.agentId);
   }
 
+  private async getCheckpointDiffHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getCheckpointDiff(req, res, params.checkpointId, params.otherId);
+  }
+
   // Demo₃: Execution logs handler
   private async getExecutionLogsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
     await getExecutionLogs(req, res);
@@ -832,6 +995,63 @@ export class ApiServer {
     await getAgentResourceHistory(req, res, params.agentId);
   }
 
+  // Agent control handlers
+  private async getAgentControlHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getAgentControl(req, res, params);
+  }
+
+  private async pauseAgentHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await pauseAgent(req, res, params);
+  }
+
+  private async unpauseAgentHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await unpauseAgent(req, res, params);
+  }
+
+  private async stepAgentHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await stepAgent(req, res, params);
+  }
+
+  private async listSteeringHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listSteering(req, res, params);
+  }
+
+  private async steerAgentHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await steerAgent(req, res, params);
+  }
+
+  private async cancelSteeringHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await cancelSteering(req, res, params);
+  }
+
+  private async listAgentPendingActionsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listAgentPendingActions(req, res, params);
+  }
+
+  private async requestActionHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await requestAction(req, res, params);
+  }
+
+  private async listProjectPendingActionsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listProjectPendingActions(req, res, params);
+  }
+
+  private async approveActionHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await approveAction(req, res, params);
+  }
+
+  private async denyActionHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await denyAction(req, res, params);
+  }
+
+  private async getProjectRequirementsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getProjectRequirements(req, res, params);
+  }
+
+  private async getProjectQualityHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getProjectQuality(req, res, params);
+  }
+
   // Demo₄: Agent Manager handlers
   private async getManagerStatusHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
     await getManagerStatus(req, res);
@@ -1518,6 +1738,8 @@ export class ApiServer {
           scaffoldingPercent?: number;
           estimatedTime?: number;
           estimatedCost?: number;
+          routes?: string[];
+          apiEndpoints?: string[];
         };
       }>(req);
 
@@ -1544,6 +1766,8 @@ export class ApiServer {
           scaffoldingPercent?: number;
           estimatedTime?: number;
           estimatedCost?: number;
+          routes?: string[];
+          apiEndpoints?: string[];
         };
         scaffolding?: {
           totalFiles?: number;
@@ -1552,6 +1776,7 @@ export class ApiServer {
           routes?: string[];
           styles?: string[];
         };
+        verificationSpec?: unknown;  // null resets to the generated spec
       }>(req);
 
       const demoService = getDemoService();
@@ -1563,9 +1788,18 @@ export class ApiServer {
       if (body.scaffolding) {
         demo = await demoService.updateScaffolding(demoId, body.scaffolding);
       }
+      if (body.verificationSpec !== undefined) {
+        demo = await demoService.updateVerificationSpec(demoId, body.verificationSpec);
+      }
 
       this.sendJson(res, 200, { success: true, demo });
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid verification spec')) {
+        return this.sendJson(res, 400, { success: false, error: error.message });
+      }
+      if (error instanceof Error && error.message.includes('not found')) {
+        return this.sendJson(res, 404, { success: false, error: error.message });
+      }
       this.sendJson(res, 500, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
@@ -1815,6 +2049,9 @@ export class ApiServer {
         skipFlow?: boolean;
         skipResponsive?: boolean;
         timeout?: number;
+        crawlDepth?: number;
+        crawlMaxPages?: number;
+        skipSpec?: boolean;
       }>(req);
 
       const demoService = getDemoService();
@@ -1833,6 +2070,9 @@ export class ApiServer {
         skipFlow: body.skipFlow,
         skipResponsive: body.skipResponsive,
         timeout: body.timeout,
+        crawlDepth: body.crawlDepth,
+        crawlMaxPages: body.crawlMaxPages,
+        skipSpec: body.skipSpec,
       });
 
       this.sendJson(res, 200, { success: true, result });
@@ -2071,6 +2311,31 @@ export class ApiServer {
     }
   }
 
+  // Demo₇: Visual regression handlers
+  private async listVisualBaselinesHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listVisualBaselines(req, res, params);
+  }
+
+  private async createVisualBaselineHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await createVisualBaseline(req, res, params);
+  }
+
+  private async runVisualBaselineHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await runVisualBaseline(req, res, params);
+  }
+
+  private async acceptVisualRunHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await acceptVisualRun(req, res, params);
+  }
+
+  private async listVisualRunsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listVisualRuns(req, res, params);
+  }
+
+  private async getVisualImageHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getVisualImage(req, res, params);
+  }
+
   // Demo₈: Self-Build handlers
   private async startSelfBuildHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
     try {
@@ -2298,6 +2563,14 @@ export class ApiServer {
     await getWorkflowStats(req, res);
   }
 
+  private async listWorkflowDefinitionsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await listWorkflowDefinitions(req, res);
+  }
+
+  private async validateWorkflowHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await validateWorkflow(req, res);
+  }
+
   private async enableAutoTriggerHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
     await enableAutoTrigger(req, res);
   }
@@ -2360,6 +2633,79 @@ export class ApiServer {
     }
   }
 
+  // Accounts handlers
+  private async listUsersHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await listUsers(req, res);
+  }
+
+  private async createUserHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await createUser(req, res);
+  }
+
+  private async getUserHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getUser(req, res, params);
+  }
+
+  private async updateUserHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await updateUser(req, res, params);
+  }
+
+  private async deleteUserHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await deleteUser(req, res, params);
+  }
+
+  private async listInvitationsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await listInvitations(req, res);
+  }
+
+  private async createInvitationHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await createInvitation(req, res);
+  }
+
+  private async acceptInvitationHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await acceptInvitation(req, res);
+  }
+
+  private async revokeInvitationHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await revokeInvitation(req, res, params);
+  }
+
+  private async listTeamsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await listTeams(req, res);
+  }
+
+  private async createTeamHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await createTeam(req, res);
+  }
+
+  private async getTeamHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getTeam(req, res, params);
+  }
+
+  private async deleteTeamHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await deleteTeam(req, res, params);
+  }
+
+  private async addTeamMemberHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await addTeamMember(req, res, params);
+  }
+
+  private async removeTeamMemberHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await removeTeamMember(req, res, params);
+  }
+
+  private async listProjectMembersHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await listProjectMembers(req, res, params);
+  }
+
+  private async setProjectMemberHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await setProjectMember(req, res, params);
+  }
+
+  private async removeProjectMemberHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await removeProjectMember(req, res, params);
+  }
+
   // Cost Tracking handlers
   private async getProjectCostsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
     await getProjectCosts(req, res, params);
@@ -2373,6 +2719,30 @@ export class ApiServer {
     await updateProjectBudget(req, res, params);
   }
 
+  private async getCostForecastHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getCostForecast(req, res, params);
+  }
+
+  private async getProjectBudgetsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getProjectBudgets(req, res, params);
+  }
+
+  private async getBudgetPolicyHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getBudgetPolicy(req, res, params);
+  }
+
+  private async updateBudgetPolicyHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await updateBudgetPolicy(req, res, params);
+  }
+
+  private async getBudgetExtensionsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getBudgetExtensions(req, res, params);
+  }
+
+  private async grantBudgetExtensionHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await grantBudgetExtension(req, res, params);
+  }
+
   private async getCostEventsHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
     await getCostEvents(req, res, params);
   }
@@ -2405,6 +2775,18 @@ export class ApiServer {
     await getModelPricing(req, res);
   }
 
+  private async getModelPolicyHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getModelPolicy(req, res, params);
+  }
+
+  private async updateModelPolicyHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await updateModelPolicy(req, res, params);
+  }
+
+  private async getModelRoutingLogHandler(req: IncomingMessage, res: ServerResponse, params: Record<string, string>): Promise<void> {
+    await getModelRoutingLog(req, res, params);
+  }
+
   // Learning Metrics handlers
   private async getLearningMetricsHandler(req: IncomingMessage, res: ServerResponse): Promise<void> {
     await getAggregateLearningMetrics(req, res);
@@ -9,6 +9,7 @@ import {
   initializeLifecycleManager,
   getLifecycleManager,
 } from '../core/agent-manager/lifecycle.js';
+import { initializeRuntimeRegistry, ScriptedRuntime } from '../core/agent-manager/runtime.js';
 
 // Mock HTTP request/response for API testing
 interface MockRequest {
@@ -69,6 +70,10 @@ describe('Lifecycle API', () => {
     );
     testAgentId = agentResult.rows[0].id;
 
+    // Run agents with the scripted runtime so no model CLI is needed. Exits
+    // are supervised, so keep them alive for as long as the tests look at them.
+    initializeRuntimeRegistry({ default: 'scripted' }).register(new ScriptedRuntime({ lingerMs: 30000 }));
+
     // Initialize manager
     initializeLifecycleManager();
   });
@@ -11,6 +11,7 @@
 import type { IncomingMessage, ServerResponse } from 'http';
 import { getDatabase } from '../lib/database.js';
 import { getLifecycleManager } from '../core/agent-manager/lifecycle.js';
+import { validateRestartPolicy, type RestartPolicy } from '../core/agent-manager/supervisor.js';
 
 function sendJson(res: ServerResponse, status: number, data: unknown): void {
   res.writeHead(status, { 'Content-Type': 'application/json' });
@@ -49,14 +50,26 @@ export async function spawnAgent(
       workingDirectory?: string;
       environment?: Record<string, string>;
       timeout?: number;
+      restartPolicy?: Partial<RestartPolicy>;
     }>(req);
 
+    let restartPolicy: Partial<RestartPolicy> | undefined;
+    if (body.restartPolicy !== undefined) {
+      const validation = validateRestartPolicy(body.restartPolicy);
+      if (!validation.valid) {
+        sendJson(res, 400, { success: false, error: 'Invalid restart policy', details: validation.errors });
+        return;
+      }
+      restartPolicy = validation.policy;
+    }
+
     const manager = getLifecycleManager();
     const result = await manager.spawnAgent({
       agentId,
       workingDirectory: body.workingDirectory,
       environment: body.environment,
       timeout: body.timeout,
+      restartPolicy,
     });
 
     if (result.success) {
@@ -99,6 +112,8 @@ export async function terminateAgent(
       success: result.success,
       checkpointSaved: result.checkpointSaved,
       exitCode: result.exitCode,
+      signal: result.signal,
+      escalated: result.escalated,
       error: result.error,
       message: result.success ? 'Agent terminated successfully' : 'Termination failed',
     });
@@ -1,6 +1,7 @@
 import type { IncomingMessage, ServerResponse } from 'http';
 import { getDatabase } from '../lib/database.js';
 import { getCheckpointManager } from '../core/checkpoint/index.js';
+import { createMessageBus, type MessageBusOptions } from '../core/message-bus/index.js';
 import type { AgentType } from '../types/index.js';
 
 function sendJson(res: ServerResponse, status: number, data: unknown): void {
@@ -334,7 +335,7 @@ export async function resumeAgentFromCheckpoint(
   agentId: string
 ): Promise<void> {
   try {
-    const body = await parseBody<{ checkpointId?: string }>(req);
+    const body = await parseBody<{ checkpointId?: string; restoreFiles?: boolean }>(req);
 
     const checkpointManager = getCheckpointManager();
 
@@ -350,13 +351,17 @@ export async function resumeAgentFromCheckpoint(
       checkpointId = latest.id;
     }
 
-    const { checkpoint, state, restoredFiles } = await checkpointManager.restoreFromCheckpoint(checkpointId);
+    const { checkpoint, state, restoredFiles, fileChanges } = await checkpointManager.restoreFromCheckpoint(
+      checkpointId,
+      { restoreFiles: body.restoreFiles }
+    );
 
     sendJson(res, 200, {
       success: true,
       checkpointId: checkpoint.id,
       restoredState: state,
       restoredFiles,
+      fileChanges,
       recoveryInstructions: checkpoint.recoveryInstructions,
     });
   } catch (error) {
@@ -465,6 +470,71 @@ export async function sendMessageToAgent(
   }
 }
 
+// The bus the server was configured with, minus the project
+export type ProjectMessageBusOptions = Omit<MessageBusOptions, 'projectId'>;
+
+function createProjectMessageBus(projectId: string, options: ProjectMessageBusOptions) {
+  return createMessageBus({ ...options, projectId });
+}
+
+/**
+ * GET /api/projects/:projectId/dead-letters - List messages that ran out of delivery attempts
+ */
+export async function getDeadLetters(
+  req: IncomingMessage,
+  res: ServerResponse,
+  projectId: string,
+  messageBusOptions: ProjectMessageBusOptions
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const includeRequeued = url.searchParams.get('includeRequeued') === 'true';
+    const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+
+    // Listing only reads the database, so the bus is never connected
+    const deadLetters = await createProjectMessageBus(projectId, messageBusOptions).getDeadLetters({ includeRequeued, limit });
+
+    sendJson(res, 200, deadLetters);
+  } catch (error) {
+    console.error('Error getting dead letters:', error);
+    sendJson(res, 500, { error: 'Failed to get dead letters' });
+  }
+}
+
+/**
+ * POST /api/projects/:projectId/dead-letters/:id/requeue - Redeliver a dead letter
+ */
+export async function requeueDeadLetter(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  projectId: string,
+  deadLetterId: string,
+  messageBusOptions: ProjectMessageBusOptions
+): Promise<void> {
+  const messageBus = createProjectMessageBus(projectId, messageBusOptions);
+
+  try {
+    await messageBus.connect();
+    const deadLetter = await messageBus.requeueDeadLetter(deadLetterId);
+
+    sendJson(res, 200, { success: true, deadLetter });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith('Dead letter not found')) {
+      sendJson(res, 404, { error: message });
+      return;
+    }
+    if (message.startsWith('Dead letter already requeued')) {
+      sendJson(res, 409, { error: message });
+      return;
+    }
+    console.error('Error requeueing dead letter:', error);
+    sendJson(res, 500, { error: 'Failed to requeue dead letter' });
+  } finally {
+    await messageBus.close().catch(() => {});
+  }
+}
+
 /**
  * GET /api/checkpoints - Get checkpoint statistics
  */
@@ -508,6 +578,39 @@ export async function getAgentCheckpoints(
   }
 }
 
+/**
+ * GET /api/checkpoints/:checkpointId/diff/:otherId - Compare the file snapshots of two checkpoints
+ */
+export async function getCheckpointDiff(
+  req: IncomingMessage,
+  res: ServerResponse,
+  fromCheckpointId: string,
+  toCheckpointId: string
+): Promise<void> {
+  try {
+    const checkpointManager = getCheckpointManager();
+    const diff = await checkpointManager.diffCheckpoints(fromCheckpointId, toCheckpointId);
+
+    sendJson(res, 200, {
+      ...diff,
+      summary: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        modified: diff.modified.length,
+        unchanged: diff.unchanged,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found') || message.includes('no file snapshot')) {
+      sendJson(res, 404, { error: message });
+      return;
+    }
+    console.error('Error diffing checkpoints:', error);
+    sendJson(res, 500, { error: 'Failed to diff checkpoints' });
+  }
+}
+
 /**
  * GET /api/execution-logs - Get execution logs
  */
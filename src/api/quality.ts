@@ -0,0 +1,65 @@
+import { ServerResponse, IncomingMessage } from 'http';
+import { analyzeProjectQuality } from '../core/architect-agent/quality-analyzer.js';
+import { toSarif } from '../core/architect-agent/sarif.js';
+
+/**
+ * Code Quality API
+ *
+ * AST-based quality analysis of a project's workspace. Issues are
+ * returned as SARIF so the dashboard and external code scanning tools
+ * read the same format.
+ */
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: ServerResponse, data: unknown, status: number = 200, contentType: string = 'application/json'): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Send error response
+ */
+function sendError(res: ServerResponse, message: string, status: number = 400): void {
+  sendJson(res, { error: message }, status);
+}
+
+/**
+ * Analyze a project's code quality
+ * GET /api/projects/:projectId/quality
+ * GET /api/projects/:projectId/quality?format=sarif  (raw SARIF log)
+ */
+export async function getProjectQuality(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const report = await analyzeProjectQuality(params.projectId);
+    const sarif = toSarif(report);
+
+    if (url.searchParams.get('format') === 'sarif') {
+      sendJson(res, sarif, 200, 'application/sarif+json');
+      return;
+    }
+
+    sendJson(res, {
+      overallScore: report.overallScore,
+      totalFiles: report.totalFiles,
+      metrics: report.metrics,
+      complexFunctions: report.complexFunctions,
+      recommendations: report.recommendations,
+      sarif,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to analyze code quality';
+    if (/not found/.test(message)) {
+      sendError(res, message, 404);
+      return;
+    }
+    console.error('Error analyzing code quality:', error);
+    sendError(res, 'Failed to analyze code quality', 500);
+  }
+}
@@ -0,0 +1,48 @@
+import { ServerResponse, IncomingMessage } from 'http';
+import { mapProjectRequirements } from '../core/architect-agent/requirements-mapper.js';
+
+/**
+ * Requirements API
+ *
+ * The requirements extracted from a project's spec, task acceptance
+ * criteria or description, and the traceability matrix linking each to
+ * the files, tests and tasks that implement it.
+ */
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: ServerResponse, data: unknown, status: number = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Send error response
+ */
+function sendError(res: ServerResponse, message: string, status: number = 400): void {
+  sendJson(res, { error: message }, status);
+}
+
+/**
+ * Map a project's requirements and trace them to its workspace
+ * GET /api/projects/:projectId/requirements
+ */
+export async function getProjectRequirements(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const report = await mapProjectRequirements(params.projectId);
+    sendJson(res, { report });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to map requirements';
+    if (/not found/.test(message)) {
+      sendError(res, message, 404);
+      return;
+    }
+    console.error('Error mapping requirements:', error);
+    sendError(res, 'Failed to map requirements', 500);
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * API Endpoints for Visual Regression
+ *
+ * Baselines are PNG screenshots per page and viewport, stored on disk by
+ * VisualBaselineStore. Runs compare the demo preview against a baseline;
+ * after an intentional UI change, a run's screenshots are accepted as the
+ * new baseline.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { join } from 'path';
+import { getDatabase } from '../lib/database.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { getDemoService } from '../core/demos/index.js';
+import { createQAAgent } from '../core/qa-agent/index.js';
+import { VisualBaselineStore, type Viewport } from '../core/qa-agent/visual.js';
+
+const DEFAULT_VIEWPORT: Viewport = { width: 1280, height: 720 };
+const IMAGE_FILE = /^[\w.@-]+\.png$/;
+
+interface BaselinePageInput {
+  name: string;
+  path: string;
+  viewport?: Viewport;
+  image?: string;  // Base64 PNG
+}
+
+/**
+ * Parse JSON body from request
+ */
+async function parseBody<T>(req: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}') as T);
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Send JSON response
+ */
+function sendJson(res: ServerResponse, data: unknown, status: number = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Send error response
+ */
+function sendError(res: ServerResponse, message: string, status: number = 400): void {
+  sendJson(res, { error: message }, status);
+}
+
+function errorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.startsWith('Invalid') || message.startsWith('Duplicate') ||
+      message.startsWith('No screenshot') || message.startsWith('Pages not in')) {
+    return 400;
+  }
+  if (message.startsWith('No headless browser')) return 503;
+  return 500;
+}
+
+function decodeScreenshots(images: Record<string, string> | undefined): Record<string, Buffer> {
+  const screenshots: Record<string, Buffer> = {};
+  for (const [name, image] of Object.entries(images || {})) {
+    screenshots[name] = Buffer.from(image, 'base64');
+  }
+  return screenshots;
+}
+
+/**
+ * Run the project's baseline against the preview: the one given, else the
+ * latest demo's preview
+ */
+async function runAgainstPreview(
+  projectId: string,
+  baselineId: string,
+  options: { baseUrl?: string; threshold?: number; screenshots?: Record<string, Buffer> }
+) {
+  let baseUrl = options.baseUrl;
+  if (!baseUrl && !(options.screenshots && Object.keys(options.screenshots).length > 0)) {
+    const demo = await getDemoService().getLatestDemo(projectId);
+    baseUrl = demo?.previewUrl;
+    if (!baseUrl) {
+      throw new Error('Invalid request: no baseUrl given and the project has no demo preview');
+    }
+  }
+
+  const qa = createQAAgent({
+    projectId,
+    projectDir: join(process.cwd(), 'projects', projectId),
+    baseUrl,
+  });
+  return qa.runVisualRegression(baselineId, { threshold: options.threshold, screenshots: options.screenshots });
+}
+
+/**
+ * List a project's baselines
+ * GET /api/projects/:projectId/visual-baselines
+ */
+export async function listVisualBaselines(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const store = new VisualBaselineStore(params.projectId);
+    const baselines = await store.list({ includeInactive: url.searchParams.get('includeInactive') === 'true' });
+
+    sendJson(res, { baselines, count: baselines.length });
+  } catch (error) {
+    console.error('Error listing visual baselines:', error);
+    sendError(res, 'Failed to list visual baselines', 500);
+  }
+}
+
+/**
+ * Create a baseline from uploaded screenshots (base64 PNG per page) or, for
+ * pages without one, by capturing the preview
+ * POST /api/projects/:projectId/visual-baselines
+ */
+export async function createVisualBaseline(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId } = params;
+    const body = await parseBody<{
+      name?: string;
+      description?: string;
+      pages?: BaselinePageInput[];
+      baseUrl?: string;
+    }>(req);
+    const approvedBy = (req as AuthenticatedRequest).user?.sub;
+
+    if (!body.name) {
+      sendError(res, 'name is required');
+      return;
+    }
+    if (!Array.isArray(body.pages) || body.pages.length === 0) {
+      sendError(res, 'pages must be a non-empty array');
+      return;
+    }
+    if (body.pages.some(page => !page.name || !page.path)) {
+      sendError(res, 'Each page needs a name and path');
+      return;
+    }
+
+    const store = new VisualBaselineStore(projectId);
+    let baseline = await store.create(
+      body.name,
+      body.pages.map(page => ({
+        name: page.name,
+        path: page.path,
+        viewport: page.viewport || DEFAULT_VIEWPORT,
+        png: page.image ? Buffer.from(page.image, 'base64') : undefined,
+      })),
+      { description: body.description, approvedBy }
+    );
+
+    // Pages without an upload start from what the preview shows now
+    let captureRunId: string | undefined;
+    if (baseline.pages.some(page => !page.image)) {
+      const run = await runAgainstPreview(projectId, baseline.id, { baseUrl: body.baseUrl });
+      captureRunId = run.id;
+      baseline = await store.acceptRun(baseline.id, run.id, { approvedBy });
+    }
+
+    sendJson(res, { baseline, captureRunId }, 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    sendError(res, message, errorStatus(message));
+  }
+}
+
+/**
+ * Compare the preview (or uploaded screenshots) against a baseline
+ * POST /api/projects/:projectId/visual-baselines/:baselineId/run
+ */
+export async function runVisualBaseline(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId, baselineId } = params;
+    const body = await parseBody<{
+      baseUrl?: string;
+      threshold?: number;
+      screenshots?: Record<string, string>;
+    }>(req);
+
+    if (body.threshold !== undefined && (typeof body.threshold !== 'number' || body.threshold < 0 || body.threshold > 100)) {
+      sendError(res, 'threshold must be a percentage between 0 and 100');
+      return;
+    }
+
+    const results = await runAgainstPreview(projectId, baselineId, {
+      baseUrl: body.baseUrl,
+      threshold: body.threshold,
+      screenshots: decodeScreenshots(body.screenshots),
+    });
+
+    sendJson(res, results);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    sendError(res, message, errorStatus(message));
+  }
+}
+
+/**
+ * Accept a run's screenshots as the new baseline, for all pages or the
+ * ones named
+ * POST /api/projects/:projectId/visual-baselines/:baselineId/accept
+ */
+export async function acceptVisualRun(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const { projectId, baselineId } = params;
+    const body = await parseBody<{ runId?: string; pages?: string[] }>(req);
+    const approvedBy = (req as AuthenticatedRequest).user?.sub;
+
+    if (!body.runId) {
+      sendError(res, 'runId is required');
+      return;
+    }
+    if (body.pages !== undefined && !Array.isArray(body.pages)) {
+      sendError(res, 'pages must be an array of page names');
+      return;
+    }
+
+    // The run must belong to this baseline
+    const db = getDatabase();
+    const run = await db.query<{ id: string }>(
+      `SELECT id FROM qa_test_runs
+       WHERE id = $1 AND project_id = $2 AND baseline_id = $3 AND test_type = 'visual'`,
+      [body.runId, projectId, baselineId]
+    );
+    if (run.rows.length === 0) {
+      sendError(res, `Visual run not found: ${body.runId}`, 404);
+      return;
+    }
+
+    const store = new VisualBaselineStore(projectId);
+    const baseline = await store.acceptRun(baselineId, body.runId, {
+      pages: body.pages,
+      approvedBy,
+    });
+
+    sendJson(res, { baseline });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    sendError(res, message, errorStatus(message));
+  }
+}
+
+/**
+ * Recent visual regression runs with their diffs
+ * GET /api/projects/:projectId/visual-runs
+ */
+export async function listVisualRuns(
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20', 10) || 20, 100);
+    const baselineId = url.searchParams.get('baselineId');
+
+    const db = getDatabase();
+    const result = await db.query<{
+      id: string;
+      baseline_id: string | null;
+      status: string;
+      summary: object;
+      visual_diffs: object[];
+      start_time: Date;
+      duration: number;
+    }>(
+      `SELECT id, baseline_id, status, summary, visual_diffs, start_time, duration
+       FROM qa_test_runs
+       WHERE project_id = $1 AND test_type = 'visual' AND ($2::uuid IS NULL OR baseline_id = $2)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [params.projectId, baselineId, limit]
+    );
+
+    const runs = result.rows.map(row => ({
+      id: row.id,
+      baselineId: row.baseline_id,
+      status: row.status,
+      summary: row.summary,
+      diffs: row.visual_diffs,
+      startTime: row.start_time,
+      duration: row.duration,
+    }));
+
+    sendJson(res, { runs, count: runs.length });
+  } catch (error) {
+    console.error('Error listing visual runs:', error);
+    sendError(res, 'Failed to list visual runs', 500);
+  }
+}
+
+/**
+ * Serve a baseline, current or diff image
+ * GET /api/projects/:projectId/visual/:scope/:scopeId/:file
+ */
+export async function getVisualImage(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+): Promise<void> {
+  const { projectId, scope, scopeId, file } = params;
+
+  if ((scope !== 'baselines' && scope !== 'runs') || !/^[\w-]+$/.test(scopeId) || !IMAGE_FILE.test(file)) {
+    sendError(res, 'Invalid image reference');
+    return;
+  }
+
+  try {
+    const png = await new VisualBaselineStore(projectId).readImage(`${scope}/${scopeId}/${file}`);
+    res.writeHead(200, {
+      'Content-Type': 'image/png',
+      'Content-Length': png.length,
+      'Cache-Control': 'private, max-age=300',
+    });
+    res.end(png);
+  } catch {
+    sendError(res, 'Image not found', 404);
+  }
+}
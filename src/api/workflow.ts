@@ -16,6 +16,12 @@ import {
   getAutoTriggerService,
   triggerProjectBuild,
 } from '../core/workflow/auto-trigger.js';
+import {
+  getWorkflowRegistry,
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+  DEFAULT_WORKFLOW_NAME,
+} from '../core/workflow/definition.js';
 import type { Project, EklavyaConfig } from '../types/index.js';
 
 // Helper to parse JSON body
@@ -46,6 +52,8 @@ function sendJson(res: ServerResponse, status: number, data: unknown): void {
 function getDefaultWorkflowConfig(): EklavyaConfig {
   return {
     database: {
+      driver: process.env.EKLAVYA_DB_DRIVER === 'embedded' ? 'embedded' : 'postgres',
+      dataDir: process.env.EKLAVYA_DATA_DIR || undefined,
       host: process.env.DB_HOST || 'localhost',
       port: parseInt(process.env.DB_PORT || '5432', 10),
       database: process.env.DB_NAME || 'eklavya',
@@ -56,6 +64,7 @@ function getDefaultWorkflowConfig(): EklavyaConfig {
       host: process.env.REDIS_HOST || 'localhost',
       port: parseInt(process.env.REDIS_PORT || '6379', 10),
     },
+    messageBus: process.env.EKLAVYA_MESSAGE_BUS === 'memory' ? 'memory' : 'redis',
     defaultModel: 'claude-sonnet-4-20250514',
     maxConcurrentAgents: parseInt(process.env.MAX_CONCURRENT_AGENTS || '5', 10),
     checkpointIntervalMs: 15 * 60 * 1000,
@@ -94,8 +103,18 @@ export async function startBuild(
       autoApprove?: boolean;
       demoOnly?: boolean;
       demoType?: 'wow' | 'trust' | 'milestone';
+      workflow?: string;
     }>(req);
 
+    const workflow = body.workflow || DEFAULT_WORKFLOW_NAME;
+    if (!getWorkflowRegistry().has(workflow)) {
+      sendJson(res, 400, {
+        error: `Unknown workflow: ${workflow}`,
+        availableWorkflows: getWorkflowRegistry().list().map(d => d.name),
+      });
+      return;
+    }
+
     // Check if project is already building
     const activeStatuses = ['planning', 'architect', 'building', 'demo_building', 'approval_pending'];
     if (activeStatuses.includes(project.status)) {
@@ -114,7 +133,7 @@ export async function startBuild(
     });
 
     // Start build asynchronously (don't wait for completion)
-    engine.startProjectBuild(projectId).catch((error) => {
+    engine.startProjectBuild(projectId, workflow).catch((error) => {
       console.error(`Build failed for project ${projectId}:`, error.message);
     });
 
@@ -122,6 +141,7 @@ export async function startBuild(
       success: true,
       message: 'Build started',
       projectId,
+      workflow,
       status: 'planning',
     });
   } catch (error) {
@@ -290,10 +310,11 @@ export async function cancelWorkflow(
 
 /**
  * POST /api/projects/:id/workflow/resume
- * Resume a paused or failed workflow
+ * Resume a paused or failed workflow from its last completed step. The run
+ * continues with the options it was started with.
  */
 export async function resumeWorkflow(
-  req: IncomingMessage,
+  _req: IncomingMessage,
   res: ServerResponse,
   projectId: string
 ): Promise<void> {
@@ -312,7 +333,7 @@ export async function resumeWorkflow(
     }
 
     const project = projectResult.rows[0];
-    const resumableStatuses = ['failed', 'cancelled', 'approval_pending'];
+    const resumableStatuses = ['failed', 'cancelled', 'paused'];
 
     if (!resumableStatuses.includes(project.status)) {
       sendJson(res, 400, {
@@ -323,27 +344,19 @@ export async function resumeWorkflow(
       return;
     }
 
-    // Parse options
-    const body = await parseBody<{
-      autoApprove?: boolean;
-      skipToPhase?: WorkflowPhase;
-    }>(req);
-
-    // Create new workflow engine and restart
-    const config = getDefaultWorkflowConfig();
-    const engine = createWorkflowEngine({
-      config,
-      autoApprove: body.autoApprove || false,
-    });
-
-    // Reset project status to planning
-    await db.query(
-      "UPDATE projects SET status = 'planning', updated_at = NOW() WHERE id = $1",
-      [projectId]
-    );
+    // Resume on the shared engine so the run is tracked (and cancellable)
+    // alongside every other active workflow
+    const engine = getWorkflowEngine({ config: getDefaultWorkflowConfig() });
+    if (engine.isWorkflowActive(projectId)) {
+      sendJson(res, 409, {
+        error: 'Workflow is still running',
+        currentPhase: engine.getWorkflowState(projectId).phase,
+      });
+      return;
+    }
 
-    // Start build asynchronously
-    engine.startProjectBuild(projectId).catch((error) => {
+    // Resume asynchronously
+    engine.resumeWorkflow(projectId).catch((error) => {
       console.error(`Resume failed for project ${projectId}:`, error.message);
     });
 
@@ -351,7 +364,7 @@ export async function resumeWorkflow(
       success: true,
       message: 'Workflow resumed',
       projectId,
-      status: 'planning',
+      previousStatus: project.status,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -497,6 +510,66 @@ export async function getWorkflowStats(
   }
 }
 
+/**
+ * GET /api/workflow/definitions
+ * List the named workflow definitions
+ */
+export async function listWorkflowDefinitions(
+  _req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    const definitions = getWorkflowRegistry().list();
+
+    sendJson(res, 200, {
+      count: definitions.length,
+      definitions,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Failed to list workflow definitions:', message);
+    sendJson(res, 500, { error: 'Failed to list workflow definitions', details: message });
+  }
+}
+
+/**
+ * POST /api/workflow/definitions/validate
+ * Validate a definition, given as an object or as YAML/JSON text
+ */
+export async function validateWorkflow(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  try {
+    const body = await parseBody<{
+      definition?: unknown;
+      content?: string;
+      format?: 'yaml' | 'json';
+    }>(req);
+
+    if (body.content !== undefined) {
+      try {
+        const definition = parseWorkflowDefinition(body.content, body.format || 'yaml');
+        sendJson(res, 200, { valid: true, errors: [], definition });
+      } catch (error) {
+        sendJson(res, 200, { valid: false, errors: [error instanceof Error ? error.message : 'Unknown error'] });
+      }
+      return;
+    }
+
+    if (body.definition === undefined) {
+      sendJson(res, 400, { error: 'definition or content is required' });
+      return;
+    }
+
+    sendJson(res, 200, validateWorkflowDefinition(body.definition));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Failed to validate workflow definition:', message);
+    sendJson(res, 500, { error: 'Failed to validate workflow definition', details: message });
+  }
+}
+
 /**
  * POST /api/workflow/auto-trigger/enable
  * Enable auto-trigger for project creation
@@ -0,0 +1,121 @@
+/**
+ * Actions Command
+ * Review risky actions agents are waiting to take
+ */
+
+import { parseArgs } from 'util';
+import { createSpinner } from '../utils/spinner.js';
+import {
+  success, error, info, header, table,
+  newline, statusBadge, timestamp,
+} from '../utils/output.js';
+import { initializeDatabase } from '../utils/config.js';
+import { getAgentControlService, type PendingActionStatus } from '../../core/agent-control/index.js';
+
+export async function actionsCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      approve: { type: 'string', short: 'a' },
+      deny: { type: 'string', short: 'd' },
+      reason: { type: 'string', short: 'r' },
+      all: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    showHelp();
+    return;
+  }
+
+  if (positionals.length === 0) {
+    console.log(error('Project ID is required'));
+    console.log(info('Usage: eklavya actions <project-id> [options]'));
+    process.exit(1);
+  }
+
+  const projectId = positionals[0];
+  await initializeDatabase();
+  const service = getAgentControlService();
+
+  const actionId = (values.approve || values.deny) as string | undefined;
+  if (actionId) {
+    const decision = values.approve ? 'approved' : 'denied';
+    const spinner = createSpinner(`Recording decision for ${actionId}...`);
+    spinner.start();
+
+    try {
+      // Accept the ID prefix shown in the list
+      const pending = await service.listPendingActions({ projectId, status: 'pending' });
+      const match = pending.filter(a => a.id.startsWith(actionId));
+      if (match.length !== 1) {
+        spinner.fail(match.length === 0 ? 'Action not found' : 'Action ID is ambiguous');
+        console.log(error(`No single pending action matches "${actionId}"`));
+        process.exit(1);
+      }
+
+      const action = await service.decideAction(match[0].id, decision, {
+        decidedBy: 'cli',
+        reason: values.reason as string | undefined,
+      });
+      spinner.succeed(`Action ${decision}: ${action.description}`);
+      if (action.pausedAgent) {
+        console.log(info(decision === 'approved'
+          ? 'The agent has been resumed'
+          : 'The agent has been told not to go ahead and resumed'));
+      }
+    } catch (err) {
+      spinner.fail('Failed to record decision');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.log(error(message));
+      process.exit(1);
+    }
+    return;
+  }
+
+  const status: PendingActionStatus | undefined = values.all ? undefined : 'pending';
+  const actions = await service.listPendingActions({ projectId, status });
+
+  header(values.all ? 'Agent Actions' : 'Actions Awaiting Approval');
+  newline();
+
+  if (actions.length === 0) {
+    console.log(success('Nothing is waiting for approval'));
+    return;
+  }
+
+  table(
+    actions.map(a => [
+      a.id.substring(0, 8),
+      a.agentId.substring(0, 8),
+      a.actionType,
+      a.description.substring(0, 50),
+      statusBadge(a.status),
+      timestamp(a.requestedAt),
+    ]),
+    ['ID', 'Agent', 'Type', 'Description', 'Status', 'Requested']
+  );
+  newline();
+  console.log(info('Approve with --approve <id>, deny with --deny <id> [--reason "..."]'));
+}
+
+function showHelp(): void {
+  console.log('Usage: eklavya actions <project-id> [options]');
+  newline();
+  console.log('Review risky actions agents are waiting to take, such as deleting');
+  console.log('files or running migrations. Agents stay paused until decided.');
+  newline();
+  console.log('Options:');
+  console.log('  -a, --approve <id>     Approve an action');
+  console.log('  -d, --deny <id>        Deny an action');
+  console.log('  -r, --reason <text>    Reason for the decision (sent to the agent on deny)');
+  console.log('      --all              Include decided actions');
+  console.log('  -h, --help             Show this help');
+  newline();
+  console.log('Examples:');
+  console.log('  eklavya actions my-app                          # List pending actions');
+  console.log('  eklavya actions my-app -a 1b2c3d4e              # Approve');
+  console.log('  eklavya actions my-app -d 1b2c3d4e -r "Keep the fixtures"');
+}
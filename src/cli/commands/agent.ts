@@ -0,0 +1,133 @@
+/**
+ * Agent Command
+ * Pause, step and steer a running agent
+ */
+
+import { parseArgs } from 'util';
+import { createSpinner } from '../utils/spinner.js';
+import {
+  error, info, header, keyValue, table,
+  newline, statusBadge, timestamp,
+} from '../utils/output.js';
+import { initializeDatabase } from '../utils/config.js';
+import { getAgentControlService } from '../../core/agent-control/index.js';
+
+const ACTIONS = ['status', 'pause', 'unpause', 'step', 'steer'];
+
+export async function agentCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      reason: { type: 'string', short: 'r' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    showHelp();
+    return;
+  }
+
+  const [action, agentId, ...rest] = positionals;
+
+  if (!action || !ACTIONS.includes(action) || !agentId) {
+    console.log(error('An action and an agent ID are required'));
+    console.log(info('Usage: eklavya agent <status|pause|unpause|step|steer> <agent-id> [instruction]'));
+    process.exit(1);
+  }
+
+  await initializeDatabase();
+  const service = getAgentControlService();
+  const spinner = createSpinner(`${action} agent ${agentId}...`);
+
+  try {
+    switch (action) {
+      case 'status': {
+        const state = await service.getControlState(agentId);
+        const steering = await service.listSteering(agentId, { status: 'pending' });
+        const actions = await service.listPendingActions({ agentId, status: 'pending' });
+
+        header(`Agent ${agentId}`);
+        keyValue({
+          Paused: state.paused,
+          'Paused by': state.paused ? state.pausedBy || '-' : undefined,
+          Reason: state.paused ? state.pauseReason || '-' : undefined,
+          Since: state.paused && state.pausedAt ? timestamp(state.pausedAt) : undefined,
+          'Queued instructions': steering.length,
+          'Actions awaiting approval': actions.length,
+        });
+
+        if (actions.length > 0) {
+          newline();
+          table(
+            actions.map(a => [a.id.substring(0, 8), a.actionType, a.description.substring(0, 60)]),
+            ['ID', 'Type', 'Description']
+          );
+          console.log(info('Decide with: eklavya actions <project-id> --approve <id> | --deny <id>'));
+        }
+        return;
+      }
+
+      case 'pause': {
+        spinner.start();
+        const state = await service.pauseAgent(agentId, { pausedBy: 'cli', reason: values.reason as string | undefined });
+        spinner.succeed(`Agent paused (pid ${state.pid})`);
+        console.log(`Status: ${statusBadge('blocked')}`);
+        return;
+      }
+
+      case 'unpause':
+      case 'step': {
+        spinner.start();
+        if (action === 'step') {
+          await service.stepAgent(agentId, { resumedBy: 'cli' });
+          spinner.succeed('Agent will pause again when its next turn starts');
+        } else {
+          await service.resumeAgent(agentId, { resumedBy: 'cli' });
+          spinner.succeed('Agent resumed');
+        }
+        return;
+      }
+
+      case 'steer': {
+        const instruction = rest.join(' ');
+        if (!instruction) {
+          console.log(error('An instruction is required'));
+          process.exit(1);
+        }
+        spinner.start();
+        await service.steerAgent(agentId, instruction, 'cli');
+        spinner.succeed('Instruction queued for the agent\'s next turn');
+        return;
+      }
+    }
+  } catch (err) {
+    spinner.fail(`Failed to ${action} agent`);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.log(error(message));
+    process.exit(1);
+  }
+}
+
+function showHelp(): void {
+  console.log('Usage: eklavya agent <action> <agent-id> [options]');
+  newline();
+  console.log('Pause, step and steer a running agent');
+  newline();
+  console.log('Actions:');
+  console.log('  status                 Show pause state, queued instructions and pending actions');
+  console.log('  pause                  Stop the agent (SIGSTOP) and mark it blocked');
+  console.log('  unpause                Continue a paused agent');
+  console.log('  step                   Continue a paused agent for one turn');
+  console.log('  steer <instruction>    Queue an instruction for the agent\'s next turn');
+  newline();
+  console.log('Options:');
+  console.log('  -r, --reason <text>    Why the agent is being paused');
+  console.log('  -h, --help             Show this help');
+  newline();
+  console.log('Examples:');
+  console.log('  eklavya agent pause <agent-id> -r "Reviewing its plan"');
+  console.log('  eklavya agent steer <agent-id> "Use the existing auth middleware"');
+  console.log('  eklavya agent step <agent-id>');
+}
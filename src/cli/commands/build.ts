@@ -27,6 +27,7 @@ import {
   getWorkflowEngine,
   WorkflowPhase,
 } from '../../core/workflow/engine.js';
+import { getWorkflowRegistry } from '../../core/workflow/definition.js';
 import type { EklavyaConfig } from '../../types/index.js';
 
 interface BuildOptions {
@@ -36,6 +37,7 @@ interface BuildOptions {
   autoApprove: boolean;
   watch: boolean;
   timeout?: number;
+  workflow?: string;
 }
 
 export async function buildCommand(args: string[]): Promise<void> {
@@ -47,6 +49,7 @@ export async function buildCommand(args: string[]): Promise<void> {
       'auto-approve': { type: 'boolean', short: 'a' },
       watch: { type: 'boolean', short: 'w' },
       timeout: { type: 'string' },
+      workflow: { type: 'string' },
       help: { type: 'boolean', short: 'h' },
     },
     allowPositionals: true,
@@ -70,6 +73,7 @@ export async function buildCommand(args: string[]): Promise<void> {
     autoApprove: values['auto-approve'] as boolean || false,
     watch: values.watch as boolean || false,
     timeout: values.timeout ? parseInt(values.timeout as string, 10) : undefined,
+    workflow: values.workflow as string | undefined,
   };
 
   await runBuild(options);
@@ -159,6 +163,7 @@ async function runBuild(options: BuildOptions): Promise<void> {
       host: process.env.REDIS_HOST || 'localhost',
       port: parseInt(process.env.REDIS_PORT || '6379', 10),
     },
+    messageBus: cliConfig.messageBus,
     defaultModel: 'claude-sonnet-4-20250514',
     maxConcurrentAgents: cliConfig.defaults.maxConcurrentAgents,
     checkpointIntervalMs: 15 * 60 * 1000,
@@ -168,6 +173,7 @@ async function runBuild(options: BuildOptions): Promise<void> {
 
   let engine: WorkflowEngine;
   try {
+    await getWorkflowRegistry().loadDirectory();
     engine = createWorkflowEngine({
       config,
       autoApprove: options.autoApprove,
@@ -336,7 +342,7 @@ async function runBuild(options: BuildOptions): Promise<void> {
 
     } else {
       // Full build
-      await engine.startProjectBuild(project.id);
+      await engine.startProjectBuild(project.id, options.workflow);
     }
 
     // Clear timeout if build completes
@@ -374,6 +380,7 @@ function getPhaseIcon(phase: WorkflowPhase): string {
     completed: '\x1b[32m[Completed]\x1b[0m',
     failed: '\x1b[31m[Failed]\x1b[0m',
     cancelled: '\x1b[31m[Cancelled]\x1b[0m',
+    paused: '\x1b[33m[Paused]\x1b[0m',
   };
   return icons[phase] || `[${phase}]`;
 }
@@ -389,6 +396,7 @@ function showHelp(): void {
   console.log('  -a, --auto-approve      Auto-approve demos (skip approval wait)');
   console.log('  -w, --watch             Watch build progress (for ongoing builds)');
   console.log('      --timeout <seconds> Build timeout in seconds');
+  console.log('      --workflow <name>   Workflow definition to run (default: default)');
   console.log('  -h, --help              Show this help');
   newline();
   console.log('Examples:');
@@ -396,8 +404,9 @@ function showHelp(): void {
   console.log('  eklavya build my-project --demo-only');
   console.log('  eklavya build my-project --auto-approve');
   console.log('  eklavya build my-project --timeout 3600');
+  console.log('  eklavya build my-project --workflow secure-release');
   newline();
-  console.log('Workflow Phases:');
+  console.log('Workflow Phases (default workflow):');
   console.log('  1. Planning    - Initialize project structure');
   console.log('  2. Architect   - Analyze requirements, generate task plan');
   console.log('  3. Demo (Wow)  - Build visual prototype');
@@ -66,6 +66,8 @@ function showConfig(): void {
 
   subheader('Database');
   keyValue({
+    'Driver': config.database.driver || 'postgres',
+    ...(config.database.driver === 'embedded' ? { 'Data Dir': config.database.dataDir || dim('(in memory)') } : {}),
     'Host': config.database.host,
     'Port': config.database.port.toString(),
     'Database': config.database.database,
@@ -73,6 +75,11 @@ function showConfig(): void {
     'Password': config.database.password ? '********' : dim('(not set)'),
   });
 
+  subheader('Message Bus');
+  keyValue({
+    'Driver': config.messageBus,
+  });
+
   subheader('Defaults');
   keyValue({
     'Max Budget': `$${config.defaults.maxBudget}`,
@@ -98,7 +105,9 @@ function getConfig(key: string): void {
     console.log(error(`Configuration key "${key}" not found`));
     newline();
     console.log('Available keys:');
+    console.log('  database.driver, database.dataDir');
     console.log('  database.host, database.port, database.database, database.user, database.password');
+    console.log('  messageBus');
     console.log('  defaults.maxBudget, defaults.maxConcurrentAgents, defaults.notificationLevel');
     console.log('  ui.colors, ui.timestamps');
     process.exit(1);
@@ -126,6 +135,7 @@ function setConfig(key: string, value: string): void {
 
   // Validate key
   const validKeys = [
+    'database.driver', 'database.dataDir', 'messageBus',
     'database.host', 'database.port', 'database.database', 'database.user', 'database.password',
     'defaults.maxBudget', 'defaults.maxConcurrentAgents', 'defaults.notificationLevel',
     'ui.colors', 'ui.timestamps',
@@ -139,6 +149,17 @@ function setConfig(key: string, value: string): void {
     process.exit(1);
   }
 
+  // Validate drivers
+  const validDrivers: Record<string, string[]> = {
+    'database.driver': ['postgres', 'embedded'],
+    'messageBus': ['redis', 'memory'],
+  };
+  if (validDrivers[key] && !validDrivers[key].includes(value)) {
+    console.log(error(`Invalid ${key}: ${value}`));
+    console.log(info(`Valid values: ${validDrivers[key].join(', ')}`));
+    process.exit(1);
+  }
+
   // Validate notification level
   if (key === 'defaults.notificationLevel') {
     const validLevels = ['all', 'important', 'critical', 'none'];
@@ -176,12 +197,17 @@ function showHelp(): void {
   newline();
   console.log('Configuration Keys:');
   console.log(colorize('  Database:', 'cyan'));
+  console.log('    database.driver     postgres|embedded (embedded needs no server)');
+  console.log('    database.dataDir    Embedded data directory (default: ~/.eklavya/data)');
   console.log('    database.host       PostgreSQL host (default: localhost)');
   console.log('    database.port       PostgreSQL port (default: 5432)');
   console.log('    database.database   Database name (default: eklavya)');
   console.log('    database.user       Database user (default: eklavya)');
   console.log('    database.password   Database password');
   newline();
+  console.log(colorize('  Message Bus:', 'cyan'));
+  console.log('    messageBus          redis|memory (memory needs no Redis)');
+  newline();
   console.log(colorize('  Defaults:', 'cyan'));
   console.log('    defaults.maxBudget              Default budget per project (default: 100)');
   console.log('    defaults.maxConcurrentAgents    Max agents per project (default: 5)');
@@ -193,6 +219,7 @@ function showHelp(): void {
   newline();
   console.log('Environment Variables:');
   console.log('  DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD');
+  console.log('  EKLAVYA_DB_DRIVER, EKLAVYA_DATA_DIR, EKLAVYA_MESSAGE_BUS');
   console.log('  Environment variables override config file settings');
   newline();
   console.log('Examples:');
@@ -200,4 +227,6 @@ function showHelp(): void {
   console.log('  eklavya config get database.host   # Get specific value');
   console.log('  eklavya config set database.host 192.168.1.100');
   console.log('  eklavya config set defaults.maxBudget 200');
+  console.log('  eklavya config set database.driver embedded   # Run without PostgreSQL');
+  console.log('  eklavya config set messageBus memory          # Run without Redis');
 }
@@ -18,6 +18,8 @@ import { configCommand } from './commands/config.js';
 import { demoCommand } from './commands/demo.js';
 import { stopCommand } from './commands/stop.js';
 import { buildCommand } from './commands/build.js';
+import { agentCommand } from './commands/agent.js';
+import { actionsCommand } from './commands/actions.js';
 
 const VERSION = '1.0.0';
 
@@ -61,6 +63,16 @@ const COMMANDS: Record<string, {
     usage: 'eklavya demo <project-id> [--open] [--screenshots]',
     handler: demoCommand,
   },
+  agent: {
+    description: 'Pause, step or steer a running agent',
+    usage: 'eklavya agent <status|pause|unpause|step|steer> <agent-id> [instruction]',
+    handler: agentCommand,
+  },
+  actions: {
+    description: 'Approve or deny risky agent actions',
+    usage: 'eklavya actions <project-id> [--approve <id>] [--deny <id>]',
+    handler: actionsCommand,
+  },
   stop: {
     description: 'Stop a project or agent',
     usage: 'eklavya stop <project-id> [--agent <id>] [--force]',
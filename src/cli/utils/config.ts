@@ -7,10 +7,11 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 import { getDatabase } from '../../lib/database.js';
-import type { DatabaseConfig } from '../../types/index.js';
+import type { DatabaseConfig, MessageBusDriver } from '../../types/index.js';
 
 export interface CliConfig {
   database: DatabaseConfig;
+  messageBus: MessageBusDriver;
   defaults: {
     maxBudget: number;
     maxConcurrentAgents: number;
@@ -24,6 +25,7 @@ export interface CliConfig {
 
 const CONFIG_DIR = join(homedir(), '.eklavya');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+const DATA_DIR = join(CONFIG_DIR, 'data');
 
 const DEFAULT_CONFIG: CliConfig = {
   database: {
@@ -33,6 +35,7 @@ const DEFAULT_CONFIG: CliConfig = {
     user: process.env.DB_USER || 'eklavya',
     password: process.env.DB_PASSWORD || '',
   },
+  messageBus: 'redis',
   defaults: {
     maxBudget: 100,
     maxConcurrentAgents: 5,
@@ -68,6 +71,14 @@ export function loadConfig(): CliConfig {
   if (process.env.DB_NAME) config.database.database = process.env.DB_NAME;
   if (process.env.DB_USER) config.database.user = process.env.DB_USER;
   if (process.env.DB_PASSWORD) config.database.password = process.env.DB_PASSWORD;
+  if (process.env.EKLAVYA_DB_DRIVER) config.database.driver = process.env.EKLAVYA_DB_DRIVER === 'embedded' ? 'embedded' : 'postgres';
+  if (process.env.EKLAVYA_DATA_DIR) config.database.dataDir = process.env.EKLAVYA_DATA_DIR;
+  if (process.env.EKLAVYA_MESSAGE_BUS) config.messageBus = process.env.EKLAVYA_MESSAGE_BUS === 'memory' ? 'memory' : 'redis';
+
+  // The CLI keeps embedded data between runs
+  if (config.database.driver === 'embedded' && !config.database.dataDir) {
+    config.database.dataDir = DATA_DIR;
+  }
 
   return config;
 }
@@ -0,0 +1,168 @@
+/**
+ * Tests for accounts
+ * Users, invitations, teams and membership-driven project access on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDatabase } from '../../lib/database.js';
+import { generateToken, verifyToken } from '../../middleware/auth.js';
+import {
+  canAccessProject,
+  clearOwnershipCache,
+  getEndpointPermission,
+  getProjectRole,
+  verifyAgentAccess,
+  verifyProjectAccess,
+} from '../../middleware/authorization.js';
+import { getAccountService } from './index.js';
+
+describe('AccountService', () => {
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    clearOwnershipCache();
+    await getDatabase().close();
+  });
+
+  async function createProject(name: string): Promise<string> {
+    const result = await getDatabase().query<{ id: string }>(
+      'INSERT INTO projects (name) VALUES ($1) RETURNING id',
+      [name]
+    );
+    return result.rows[0].id;
+  }
+
+  it('should validate and manage user accounts', async () => {
+    const accounts = getAccountService();
+    const user = await accounts.createUser({ username: 'ada', password: 'correct-horse', email: 'ada@example.com' });
+    expect(user).toMatchObject({ username: 'ada', role: 'user', status: 'active', email: 'ada@example.com' });
+    expect(user).not.toHaveProperty('passwordHash');
+
+    await expect(accounts.createUser({ username: 'ada', password: 'correct-horse' })).rejects.toThrow('already in use');
+    await expect(accounts.createUser({ username: 'x', password: 'correct-horse' })).rejects.toThrow('Username');
+    await expect(accounts.createUser({ username: 'bob', password: 'short' })).rejects.toThrow('at least 8');
+
+    const secret = 'accounts-test-secret-at-least-32-chars';
+    const token = generateToken({ sub: user.id, role: 'user' }, 60, secret);
+    expect(verifyToken(token, secret)).not.toBeNull();
+
+    const disabled = await accounts.updateUser(user.id, { status: 'disabled', displayName: 'Ada L.' });
+    expect(disabled).toMatchObject({ status: 'disabled', displayName: 'Ada L.', email: 'ada@example.com' });
+    expect(verifyToken(token, secret)).toBeNull();
+
+    expect((await accounts.listUsers({ status: 'disabled' })).map(u => u.username)).toEqual(['ada']);
+    expect(await accounts.getUser('admin')).toBeNull();
+  });
+
+  it('should drive project access from direct and team membership', async () => {
+    const accounts = getAccountService();
+    const owner = await accounts.createUser({ username: 'olivia', password: 'password-1' });
+    const member = await accounts.createUser({ username: 'tom', password: 'password-2' });
+    const outsider = await accounts.createUser({ username: 'eve', password: 'password-3' });
+    const projectId = await createProject('membership');
+
+    // No members yet: readable by every user, but only an admin can change it
+    expect(await verifyProjectAccess(outsider.id, projectId, 'read')).toBe(true);
+    expect(await verifyProjectAccess(outsider.id, projectId, 'write')).toBe(false);
+    expect(await verifyProjectAccess(outsider.id, projectId, 'admin')).toBe(false);
+    expect(await canAccessProject({ sub: 'admin', role: 'admin', iat: 0, exp: 0 }, projectId, 'admin')).toBe(true);
+    expect(await verifyProjectAccess(outsider.id, 'not-a-uuid', 'read')).toBe(false);
+
+    await accounts.addProjectCreator(projectId, owner.id);
+    const team = await accounts.createTeam({ name: 'reviewers' });
+    await accounts.addTeamMember(team.id, member.id);
+    await accounts.setProjectMember(projectId, { teamId: team.id, role: 'reviewer' });
+
+    expect(await getProjectRole(owner.id, projectId)).toBe('owner');
+    expect(await getProjectRole(member.id, projectId)).toBe('reviewer');
+    expect(await verifyProjectAccess(member.id, projectId, 'read')).toBe(true);
+    expect(await verifyProjectAccess(member.id, projectId, 'write')).toBe(false);
+    expect(await verifyProjectAccess(outsider.id, projectId, 'read')).toBe(false);
+    expect(await canAccessProject({ sub: outsider.id, role: 'user', iat: 0, exp: 0 }, projectId)).toBe(false);
+
+    // Controlling the project's agents needs the editor role
+    const agent = await getDatabase().query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status) VALUES ($1, 'developer', 'idle') RETURNING id`,
+      [projectId]
+    );
+    expect(await verifyAgentAccess(member.id, agent.rows[0].id, 'read')).toBe(true);
+    expect(await verifyAgentAccess(member.id, agent.rows[0].id, 'execute')).toBe(false);
+
+    // A direct role and a team role combine to the higher one, immediately
+    await accounts.setProjectMember(projectId, { userId: member.id, role: 'editor' });
+    expect(await verifyProjectAccess(member.id, projectId, 'write')).toBe(true);
+    expect(await verifyAgentAccess(member.id, agent.rows[0].id, 'execute')).toBe(true);
+    expect(await verifyAgentAccess(outsider.id, agent.rows[0].id, 'execute')).toBe(false);
+
+    // Budgets, like membership, are the owner's to change
+    for (const [method, route] of [['PUT', 'budget-policy'], ['POST', 'budget-extensions']]) {
+      const permission = getEndpointPermission(method, `/api/projects/${projectId}/${route}`);
+      expect(permission).toMatchObject({ resource: 'project', action: 'admin' });
+      expect(permission!.extractResourceId!(`/api/projects/${projectId}/${route}`)).toBe(projectId);
+    }
+    expect(await verifyProjectAccess(member.id, projectId, 'admin')).toBe(false);
+    expect(await verifyProjectAccess(owner.id, projectId, 'admin')).toBe(true);
+
+    await accounts.removeTeamMember(team.id, member.id);
+    expect(await getProjectRole(member.id, projectId)).toBe('editor');
+
+    const members = await accounts.listProjectMembers(projectId);
+    expect(members.map(m => `${m.kind}:${m.name}:${m.role}`)).toEqual([
+      'user:olivia:owner', 'user:tom:editor', 'team:reviewers:reviewer',
+    ]);
+  });
+
+  it('should keep at least one owner on a project', async () => {
+    const accounts = getAccountService();
+    const owner = await accounts.createUser({ username: 'sole-owner', password: 'password-4' });
+    const projectId = await createProject('owned');
+    const ownership = await accounts.addProjectCreator(projectId, owner.id);
+
+    await expect(accounts.setProjectMember(projectId, { userId: owner.id, role: 'viewer' }))
+      .rejects.toThrow('at least one owner');
+    await expect(accounts.removeProjectMember(projectId, ownership!.id)).rejects.toThrow('at least one owner');
+    await expect(accounts.deleteUser(owner.id)).rejects.toThrow('only owner');
+    await expect(accounts.setProjectMember(projectId, { role: 'viewer' })).rejects.toThrow('Exactly one');
+  });
+
+  it('should create an account from an invitation once', async () => {
+    const accounts = getAccountService();
+    const projectId = await createProject('invited');
+    const { invitation, token } = await accounts.createInvitation({
+      email: 'client@example.com',
+      role: 'viewer',
+      projectId,
+      projectRole: 'reviewer',
+      invitedBy: 'admin',
+    });
+    expect(invitation).toMatchObject({ status: 'pending', projectRole: 'reviewer' });
+    expect(invitation).not.toHaveProperty('tokenHash');
+
+    const user = await accounts.acceptInvitation(token, { username: 'client', password: 'password-5' });
+    expect(user).toMatchObject({ email: 'client@example.com', role: 'viewer' });
+    expect(await getProjectRole(user.id, projectId)).toBe('reviewer');
+
+    await expect(accounts.acceptInvitation(token, { username: 'client2', password: 'password-6' }))
+      .rejects.toThrow('invalid or has expired');
+    await expect(accounts.acceptInvitation('nope', { username: 'client3', password: 'password-7' }))
+      .rejects.toThrow('invalid or has expired');
+
+    const revoked = await accounts.createInvitation({ email: 'late@example.com' });
+    await accounts.revokeInvitation(revoked.invitation.id);
+    await expect(accounts.acceptInvitation(revoked.token, { username: 'late', password: 'password-8' }))
+      .rejects.toThrow('invalid or has expired');
+
+    const statuses = (await accounts.listInvitations()).map(i => i.status).sort();
+    expect(statuses).toEqual(['accepted', 'revoked']);
+  });
+});
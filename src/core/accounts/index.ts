@@ -0,0 +1,769 @@
+/**
+ * Accounts Module
+ *
+ * Lets several engineers and clients share one Eklavya server:
+ * - User accounts (create, update, disable, delete)
+ * - Invitations that let someone create their own account
+ * - Teams of users
+ * - Per-project membership with owner/editor/reviewer/viewer roles,
+ *   granted to a user directly or to a whole team
+ *
+ * Membership changes invalidate the authorization cache for the projects
+ * they touch, so access follows immediately.
+ */
+
+import { EventEmitter } from 'events';
+import { createHash, randomBytes } from 'crypto';
+import { getDatabase } from '../../lib/database.js';
+import { generateSalt, hashPassword } from '../../api/auth.js';
+import { revokeUserTokens, type JwtPayload } from '../../middleware/auth.js';
+import { PROJECT_ROLES, invalidateProjectCache, type ProjectRole } from '../../middleware/authorization.js';
+
+export type AccountRole = JwtPayload['role'];
+export type AccountStatus = 'active' | 'disabled';
+export type TeamRole = 'maintainer' | 'member';
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export const ACCOUNT_ROLES: AccountRole[] = ['admin', 'user', 'viewer', 'service'];
+export const TEAM_ROLES: TeamRole[] = ['maintainer', 'member'];
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  email: string | null;
+  displayName: string | null;
+  role: AccountRole;
+  status: AccountStatus;
+  lastLogin: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateUserOptions {
+  username: string;
+  password: string;
+  email?: string;
+  displayName?: string;
+  role?: AccountRole;
+}
+
+export interface UpdateUserOptions {
+  email?: string | null;
+  displayName?: string | null;
+  role?: AccountRole;
+  status?: AccountStatus;
+}
+
+export interface TeamMember {
+  userId: string;
+  username: string;
+  role: TeamRole;
+  createdAt: Date;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  memberCount: number;
+  createdAt: Date;
+  members?: TeamMember[];
+}
+
+export interface ProjectMember {
+  id: string;
+  projectId: string;
+  kind: 'user' | 'team';
+  userId: string | null;
+  teamId: string | null;
+  name: string;  // Username or team name
+  role: ProjectRole;
+  addedBy: string | null;
+  createdAt: Date;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: AccountRole;
+  teamId: string | null;
+  projectId: string | null;
+  projectRole: ProjectRole | null;
+  invitedBy: string | null;
+  status: InvitationStatus;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  acceptedUserId: string | null;
+  createdAt: Date;
+}
+
+export interface CreateInvitationOptions {
+  email: string;
+  role?: AccountRole;
+  teamId?: string;
+  projectId?: string;
+  projectRole?: ProjectRole;
+  invitedBy?: string;
+  expiresInHours?: number;
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,100}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const DEFAULT_INVITATION_HOURS = 72;
+
+const USER_COLUMNS = `id, username, email, display_name as "displayName", role, status,
+  last_login as "lastLogin", created_at as "createdAt", updated_at as "updatedAt"`;
+
+const INVITATION_COLUMNS = `id, email, role, team_id as "teamId", project_id as "projectId",
+  project_role as "projectRole", invited_by as "invitedBy", expires_at as "expiresAt",
+  accepted_at as "acceptedAt", accepted_user_id as "acceptedUserId", created_at as "createdAt",
+  CASE WHEN revoked_at IS NOT NULL THEN 'revoked'
+       WHEN accepted_at IS NOT NULL THEN 'accepted'
+       WHEN expires_at < NOW() THEN 'expired'
+       ELSE 'pending' END AS status`;
+
+const PROJECT_MEMBER_QUERY = `
+  SELECT pm.id, pm.project_id as "projectId",
+         CASE WHEN pm.user_id IS NOT NULL THEN 'user' ELSE 'team' END AS kind,
+         pm.user_id as "userId", pm.team_id as "teamId",
+         COALESCE(u.username, t.name) AS name,
+         pm.role, pm.added_by as "addedBy", pm.created_at as "createdAt"
+  FROM project_members pm
+  LEFT JOIN users u ON u.id = pm.user_id
+  LEFT JOIN teams t ON t.id = pm.team_id`;
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && /duplicate key|unique constraint/i.test(error.message);
+}
+
+function validatePassword(password: string | undefined): void {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function validateUsername(username: string | undefined): void {
+  if (!username || !USERNAME_PATTERN.test(username)) {
+    throw new Error('Username must be 3-100 letters, digits, dots, dashes or underscores');
+  }
+}
+
+function validateAccountRole(role: string | undefined): void {
+  if (role !== undefined && !ACCOUNT_ROLES.includes(role as AccountRole)) {
+    throw new Error(`role must be one of: ${ACCOUNT_ROLES.join(', ')}`);
+  }
+}
+
+function validateProjectRole(role: string | undefined): void {
+  if (!role || !PROJECT_ROLES.includes(role as ProjectRole)) {
+    throw new Error(`Project role must be one of: ${PROJECT_ROLES.join(', ')}`);
+  }
+}
+
+/**
+ * AccountService manages users, invitations, teams and project membership.
+ */
+export class AccountService extends EventEmitter {
+  constructor() {
+    super();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Users
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create a user account.
+   * @throws Error if the username, password or role is invalid, or the
+   * username or email is taken
+   */
+  async createUser(options: CreateUserOptions): Promise<UserAccount> {
+    validateUsername(options.username);
+    validatePassword(options.password);
+    validateAccountRole(options.role);
+
+    const salt = generateSalt();
+    try {
+      const result = await getDatabase().query<UserAccount>(
+        `INSERT INTO users (username, email, display_name, password_hash, salt, role)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING ${USER_COLUMNS}`,
+        [
+          options.username,
+          options.email || null,
+          options.displayName || null,
+          hashPassword(options.password, salt),
+          salt,
+          options.role || 'user',
+        ]
+      );
+      const user = result.rows[0];
+      this.emit('user:created', user);
+      return user;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error('Username or email is already in use');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List user accounts, optionally by status.
+   */
+  async listUsers(options: { status?: AccountStatus } = {}): Promise<UserAccount[]> {
+    const result = await getDatabase().query<UserAccount>(
+      `SELECT ${USER_COLUMNS} FROM users
+       WHERE ($1::text IS NULL OR status = $1)
+       ORDER BY username`,
+      [options.status || null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get a user account. Null if there is none, including for IDs that are
+   * not accounts at all such as the env-based admin.
+   */
+  async getUser(userId: string): Promise<UserAccount | null> {
+    const result = await getDatabase().query<UserAccount>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id::text = $1`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update a user's profile, role or status. Changing the role or
+   * disabling the account revokes the tokens already issued to it.
+   * @throws Error if the user does not exist or the role is invalid
+   */
+  async updateUser(userId: string, updates: UpdateUserOptions): Promise<UserAccount> {
+    validateAccountRole(updates.role);
+    if (updates.status !== undefined && updates.status !== 'active' && updates.status !== 'disabled') {
+      throw new Error('status must be one of: active, disabled');
+    }
+
+    const existing = await this.getUser(userId);
+    if (!existing) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    let user: UserAccount;
+    try {
+      const result = await getDatabase().query<UserAccount>(
+        `UPDATE users SET
+           email = CASE WHEN $2 THEN $3 ELSE email END,
+           display_name = CASE WHEN $4 THEN $5 ELSE display_name END,
+           role = COALESCE($6, role),
+           status = COALESCE($7, status),
+           updated_at = NOW()
+         WHERE id = $1
+         RETURNING ${USER_COLUMNS}`,
+        [
+          existing.id,
+          updates.email !== undefined,
+          updates.email ?? null,
+          updates.displayName !== undefined,
+          updates.displayName ?? null,
+          updates.role ?? null,
+          updates.status ?? null,
+        ]
+      );
+      user = result.rows[0];
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error('Username or email is already in use');
+      }
+      throw error;
+    }
+
+    // Tokens carry the role, so old ones must not outlive a change to it
+    if (user.role !== existing.role || (user.status === 'disabled' && existing.status !== 'disabled')) {
+      revokeUserTokens(user.id);
+    }
+    await this.invalidateUserProjects(user.id);
+
+    this.emit('user:updated', user);
+    return user;
+  }
+
+  /**
+   * Delete a user account and its memberships.
+   * @throws Error if the user does not exist or is the only owner of a project
+   */
+  async deleteUser(userId: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const soleOwner = await getDatabase().query<{ projectId: string }>(
+      `SELECT pm.project_id as "projectId"
+       FROM project_members pm
+       WHERE pm.user_id = $1 AND pm.role = 'owner'
+         AND (SELECT COUNT(*) FROM project_members o
+              WHERE o.project_id = pm.project_id AND o.role = 'owner') = 1`,
+      [user.id]
+    );
+    if (soleOwner.rows.length > 0) {
+      throw new Error(
+        `User is the only owner of project ${soleOwner.rows[0].projectId}; transfer ownership first`
+      );
+    }
+
+    const projectIds = await this.getUserProjectIds(user.id);
+    await getDatabase().query('DELETE FROM users WHERE id = $1', [user.id]);
+    revokeUserTokens(user.id);
+    projectIds.forEach(invalidateProjectCache);
+
+    this.emit('user:deleted', { userId: user.id });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Invitations
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Invite someone by email. The returned token is shown once: only its
+   * hash is stored, and accepting it creates the account.
+   * @throws Error if the email, role or project role is invalid
+   */
+  async createInvitation(options: CreateInvitationOptions): Promise<{ invitation: Invitation; token: string }> {
+    if (!options.email || !options.email.includes('@')) {
+      throw new Error('A valid email is required');
+    }
+    validateAccountRole(options.role);
+    if (options.projectId) {
+      validateProjectRole(options.projectRole || 'viewer');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const hours = options.expiresInHours || DEFAULT_INVITATION_HOURS;
+
+    const result = await getDatabase().query<Invitation>(
+      `INSERT INTO user_invitations
+         (email, role, token_hash, team_id, project_id, project_role, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW() + make_interval(hours => $8))
+       RETURNING ${INVITATION_COLUMNS}`,
+      [
+        options.email,
+        options.role || 'user',
+        hashInvitationToken(token),
+        options.teamId || null,
+        options.projectId || null,
+        options.projectId ? options.projectRole || 'viewer' : null,
+        options.invitedBy || null,
+        hours,
+      ]
+    );
+
+    const invitation = result.rows[0];
+    this.emit('invitation:created', invitation);
+    return { invitation, token };
+  }
+
+  /**
+   * List invitations, newest first.
+   */
+  async listInvitations(): Promise<Invitation[]> {
+    const result = await getDatabase().query<Invitation>(
+      `SELECT ${INVITATION_COLUMNS} FROM user_invitations ORDER BY created_at DESC`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Revoke a pending invitation.
+   * @throws Error if it does not exist or is no longer pending
+   */
+  async revokeInvitation(invitationId: string): Promise<void> {
+    const result = await getDatabase().query(
+      `UPDATE user_invitations SET revoked_at = NOW()
+       WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [invitationId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`Pending invitation not found: ${invitationId}`);
+    }
+  }
+
+  /**
+   * Accept an invitation: create the account with the invited email and
+   * role, and add it to the invited team and project.
+   * @throws Error if the token is unknown, used, revoked or expired, or the
+   * account details are invalid
+   */
+  async acceptInvitation(
+    token: string,
+    account: { username: string; password: string; displayName?: string }
+  ): Promise<UserAccount> {
+    validateUsername(account.username);
+    validatePassword(account.password);
+
+    const user = await getDatabase().transaction(async (client) => {
+      const found = await client.query<Invitation & { status: InvitationStatus }>(
+        `SELECT ${INVITATION_COLUMNS} FROM user_invitations WHERE token_hash = $1 FOR UPDATE`,
+        [hashInvitationToken(token || '')]
+      );
+      const invitation = found.rows[0];
+      if (!invitation || invitation.status !== 'pending') {
+        throw new Error('Invitation is invalid or has expired');
+      }
+
+      const salt = generateSalt();
+      let created: UserAccount;
+      try {
+        const inserted = await client.query<UserAccount>(
+          `INSERT INTO users (username, email, display_name, password_hash, salt, role)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING ${USER_COLUMNS}`,
+          [
+            account.username,
+            invitation.email,
+            account.displayName || null,
+            hashPassword(account.password, salt),
+            salt,
+            invitation.role,
+          ]
+        );
+        created = inserted.rows[0];
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new Error('Username or email is already in use');
+        }
+        throw error;
+      }
+
+      if (invitation.teamId) {
+        await client.query(
+          `INSERT INTO team_members (team_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+          [invitation.teamId, created.id]
+        );
+      }
+      if (invitation.projectId) {
+        await client.query(
+          `INSERT INTO project_members (project_id, user_id, role, added_by) VALUES ($1, $2, $3, $4)`,
+          [invitation.projectId, created.id, invitation.projectRole || 'viewer', invitation.invitedBy]
+        );
+      }
+
+      await client.query(
+        `UPDATE user_invitations SET accepted_at = NOW(), accepted_user_id = $2 WHERE id = $1`,
+        [invitation.id, created.id]
+      );
+      return created;
+    });
+
+    await this.invalidateUserProjects(user.id);
+    this.emit('invitation:accepted', { userId: user.id });
+    return user;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Teams
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create a team.
+   * @throws Error if the name is missing or taken
+   */
+  async createTeam(options: { name: string; description?: string; createdBy?: string }): Promise<Team> {
+    if (!options.name || !options.name.trim()) {
+      throw new Error('Team name is required');
+    }
+
+    try {
+      const result = await getDatabase().query<Team>(
+        `INSERT INTO teams (name, description, created_by) VALUES ($1, $2, $3)
+         RETURNING id, name, description, created_by as "createdBy", 0 AS "memberCount", created_at as "createdAt"`,
+        [options.name.trim(), options.description || null, options.createdBy || null]
+      );
+      const team = result.rows[0];
+      this.emit('team:created', team);
+      return team;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error(`Team name is already in use: ${options.name}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List teams with their member counts.
+   */
+  async listTeams(): Promise<Team[]> {
+    const result = await getDatabase().query<Team>(
+      `SELECT t.id, t.name, t.description, t.created_by as "createdBy", t.created_at as "createdAt",
+              (SELECT COUNT(*)::int FROM team_members tm WHERE tm.team_id = t.id) AS "memberCount"
+       FROM teams t ORDER BY t.name`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get a team with its members. Null if there is none.
+   */
+  async getTeam(teamId: string): Promise<Team | null> {
+    const db = getDatabase();
+    const result = await db.query<Team>(
+      `SELECT t.id, t.name, t.description, t.created_by as "createdBy", t.created_at as "createdAt",
+              (SELECT COUNT(*)::int FROM team_members tm WHERE tm.team_id = t.id) AS "memberCount"
+       FROM teams t WHERE t.id::text = $1`,
+      [teamId]
+    );
+    const team = result.rows[0];
+    if (!team) {
+      return null;
+    }
+
+    const members = await db.query<TeamMember>(
+      `SELECT tm.user_id as "userId", u.username, tm.role, tm.created_at as "createdAt"
+       FROM team_members tm JOIN users u ON u.id = tm.user_id
+       WHERE tm.team_id = $1 ORDER BY u.username`,
+      [team.id]
+    );
+    return { ...team, members: members.rows };
+  }
+
+  /**
+   * Delete a team; its project memberships go with it.
+   * @throws Error if the team does not exist or is the only owner of a project
+   */
+  async deleteTeam(teamId: string): Promise<void> {
+    const team = await this.getTeam(teamId);
+    if (!team) {
+      throw new Error(`Team not found: ${teamId}`);
+    }
+
+    const soleOwner = await getDatabase().query<{ projectId: string }>(
+      `SELECT pm.project_id as "projectId"
+       FROM project_members pm
+       WHERE pm.team_id = $1 AND pm.role = 'owner'
+         AND (SELECT COUNT(*) FROM project_members o
+              WHERE o.project_id = pm.project_id AND o.role = 'owner') = 1`,
+      [team.id]
+    );
+    if (soleOwner.rows.length > 0) {
+      throw new Error(
+        `Team is the only owner of project ${soleOwner.rows[0].projectId}; transfer ownership first`
+      );
+    }
+
+    const projectIds = await this.getTeamProjectIds(team.id);
+    await getDatabase().query('DELETE FROM teams WHERE id = $1', [team.id]);
+    projectIds.forEach(invalidateProjectCache);
+    this.emit('team:deleted', { teamId: team.id });
+  }
+
+  /**
+   * Add a user to a team, or change their role in it.
+   * @throws Error if the team or user does not exist, or the role is invalid
+   */
+  async addTeamMember(teamId: string, userId: string, role: TeamRole = 'member'): Promise<TeamMember> {
+    if (!TEAM_ROLES.includes(role)) {
+      throw new Error(`Team role must be one of: ${TEAM_ROLES.join(', ')}`);
+    }
+    const [team, user] = await Promise.all([this.getTeam(teamId), this.getUser(userId)]);
+    if (!team) {
+      throw new Error(`Team not found: ${teamId}`);
+    }
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const result = await getDatabase().query<{ createdAt: Date }>(
+      `INSERT INTO team_members (team_id, user_id, role) VALUES ($1, $2, $3)
+       ON CONFLICT (team_id, user_id) DO UPDATE SET role = EXCLUDED.role
+       RETURNING created_at as "createdAt"`,
+      [team.id, user.id, role]
+    );
+
+    (await this.getTeamProjectIds(team.id)).forEach(invalidateProjectCache);
+    return { userId: user.id, username: user.username, role, createdAt: result.rows[0].createdAt };
+  }
+
+  /**
+   * Remove a user from a team.
+   * @throws Error if they are not a member
+   */
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    const result = await getDatabase().query(
+      'DELETE FROM team_members WHERE team_id::text = $1 AND user_id::text = $2',
+      [teamId, userId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`Team member not found: ${userId}`);
+    }
+    (await this.getTeamProjectIds(teamId)).forEach(invalidateProjectCache);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Project membership
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List a project's members, owners first.
+   */
+  async listProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    const result = await getDatabase().query<ProjectMember>(
+      `${PROJECT_MEMBER_QUERY}
+       WHERE pm.project_id = $1
+       ORDER BY CASE pm.role WHEN 'owner' THEN 1 WHEN 'editor' THEN 2 WHEN 'reviewer' THEN 3 ELSE 4 END, name`,
+      [projectId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Give a user or a team a role on a project, replacing any role they had.
+   * @throws Error if neither or both of userId and teamId are given, the
+   * role is invalid, the user, team or project does not exist, or the
+   * change would leave the project without an owner
+   */
+  async setProjectMember(
+    projectId: string,
+    member: { userId?: string; teamId?: string; role: ProjectRole },
+    addedBy?: string
+  ): Promise<ProjectMember> {
+    if (!member.userId === !member.teamId) {
+      throw new Error('Exactly one of userId and teamId is required');
+    }
+    validateProjectRole(member.role);
+
+    const db = getDatabase();
+    const project = await db.query('SELECT id FROM projects WHERE id::text = $1', [projectId]);
+    if (project.rows.length === 0) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    let userId: string | null = null;
+    let teamId: string | null = null;
+    if (member.userId) {
+      const user = await this.getUser(member.userId);
+      if (!user) {
+        throw new Error(`User not found: ${member.userId}`);
+      }
+      userId = user.id;
+    } else {
+      const team = await this.getTeam(member.teamId!);
+      if (!team) {
+        throw new Error(`Team not found: ${member.teamId}`);
+      }
+      teamId = team.id;
+    }
+
+    const existing = await db.query<{ id: string; role: ProjectRole }>(
+      `SELECT id, role FROM project_members
+       WHERE project_id = $1 AND (user_id = $2 OR team_id = $3)`,
+      [projectId, userId, teamId]
+    );
+    if (existing.rows[0]?.role === 'owner' && member.role !== 'owner') {
+      await this.assertAnotherOwner(projectId, existing.rows[0].id);
+    }
+
+    const result = existing.rows.length > 0
+      ? await db.query<{ id: string }>(
+        `UPDATE project_members SET role = $2 WHERE id = $1 RETURNING id`,
+        [existing.rows[0].id, member.role]
+      )
+      : await db.query<{ id: string }>(
+        `INSERT INTO project_members (project_id, user_id, team_id, role, added_by)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [projectId, userId, teamId, member.role, addedBy || null]
+      );
+
+    invalidateProjectCache(projectId);
+
+    const saved = await db.query<ProjectMember>(`${PROJECT_MEMBER_QUERY} WHERE pm.id = $1`, [result.rows[0].id]);
+    this.emit('project:member_changed', saved.rows[0]);
+    return saved.rows[0];
+  }
+
+  /**
+   * Remove a member from a project.
+   * @throws Error if the member does not exist or is the last owner
+   */
+  async removeProjectMember(projectId: string, memberId: string): Promise<void> {
+    const db = getDatabase();
+    const existing = await db.query<{ role: ProjectRole }>(
+      'SELECT role FROM project_members WHERE id::text = $1 AND project_id::text = $2',
+      [memberId, projectId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error(`Project member not found: ${memberId}`);
+    }
+    if (existing.rows[0].role === 'owner') {
+      await this.assertAnotherOwner(projectId, memberId);
+    }
+
+    await db.query('DELETE FROM project_members WHERE id = $1', [memberId]);
+    invalidateProjectCache(projectId);
+    this.emit('project:member_removed', { projectId, memberId });
+  }
+
+  /**
+   * Make the creator of a project its owner, if they have an account.
+   * Projects created by the env-based admin stay open until members are added.
+   */
+  async addProjectCreator(projectId: string, userId: string): Promise<ProjectMember | null> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return null;
+    }
+    return this.setProjectMember(projectId, { userId: user.id, role: 'owner' }, user.id);
+  }
+
+  private async assertAnotherOwner(projectId: string, memberId: string): Promise<void> {
+    const owners = await getDatabase().query<{ count: number }>(
+      `SELECT COUNT(*)::int AS count FROM project_members
+       WHERE project_id = $1 AND role = 'owner' AND id <> $2`,
+      [projectId, memberId]
+    );
+    if (owners.rows[0].count === 0) {
+      throw new Error('A project must keep at least one owner');
+    }
+  }
+
+  private async getTeamProjectIds(teamId: string): Promise<string[]> {
+    const result = await getDatabase().query<{ projectId: string }>(
+      'SELECT project_id as "projectId" FROM project_members WHERE team_id::text = $1',
+      [teamId]
+    );
+    return result.rows.map(r => r.projectId);
+  }
+
+  private async getUserProjectIds(userId: string): Promise<string[]> {
+    const result = await getDatabase().query<{ projectId: string }>(
+      `SELECT DISTINCT pm.project_id as "projectId"
+       FROM project_members pm
+       LEFT JOIN team_members tm ON tm.team_id = pm.team_id
+       WHERE pm.user_id = $1 OR tm.user_id = $1`,
+      [userId]
+    );
+    return result.rows.map(r => r.projectId);
+  }
+
+  private async invalidateUserProjects(userId: string): Promise<void> {
+    (await this.getUserProjectIds(userId)).forEach(invalidateProjectCache);
+  }
+}
+
+export function createAccountService(): AccountService {
+  return new AccountService();
+}
+
+let defaultService: AccountService | null = null;
+
+export function getAccountService(): AccountService {
+  if (!defaultService) {
+    defaultService = new AccountService();
+  }
+  return defaultService;
+}
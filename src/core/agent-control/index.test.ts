@@ -0,0 +1,289 @@
+/**
+ * Tests for agent control
+ * Pause/step/resume of real processes, steering delivery and the pending-action queue
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import { getDatabase } from '../../lib/database.js';
+import { classifyRiskyAction, getAgentControlService } from './index.js';
+import type { ParsedToolCall } from '../agent-manager/output-parser.js';
+
+// Echoes stdin so steering writes can be observed
+const ECHO = "process.stdin.on('data', d => process.stdout.write(d)); setInterval(() => {}, 1000)";
+
+function toolCall(name: string, input: Record<string, unknown>, files: string[] = []): ParsedToolCall {
+  return { name, input, files, modifiesFiles: name !== 'Bash' };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+async function processState(pid: number): Promise<string> {
+  const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+  return stat.slice(stat.lastIndexOf(')') + 2).split(' ')[0];
+}
+
+// Signals land asynchronously, so poll until the process is (or is no longer) stopped
+async function waitForStopped(pid: number, stopped = true, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while ((await processState(pid) === 'T') !== stopped) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for process ${pid} to ${stopped ? 'stop' : 'continue'}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('classifyRiskyAction', () => {
+  it('should flag destructive commands and migration files', () => {
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'rm -rf dist' }))).toMatchObject({ actionType: 'delete_files' });
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'npm run db:migrate' }))).toMatchObject({ actionType: 'run_migration' });
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'psql -c "DROP TABLE users"' })))
+      .toMatchObject({ actionType: 'destructive_sql' });
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'git push --force origin main' })))
+      .toMatchObject({ actionType: 'rewrite_history' });
+    expect(classifyRiskyAction(toolCall('Write', { file_path: 'migrations/022_x.sql' }, ['migrations/022_x.sql'])))
+      .toMatchObject({ actionType: 'edit_migration' });
+  });
+
+  it('should let ordinary tool calls through', () => {
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'npm test' }))).toBeNull();
+    expect(classifyRiskyAction(toolCall('Bash', { command: 'git status && ls -la' }))).toBeNull();
+    expect(classifyRiskyAction(toolCall('Read', { file_path: 'migrations/001.sql' }, ['migrations/001.sql']))).toBeNull();
+    expect(classifyRiskyAction(toolCall('Edit', { file_path: 'src/form.ts' }, ['src/form.ts']))).toBeNull();
+  });
+});
+
+describe('AgentControlService', () => {
+  let projectId: string;
+  const children: ChildProcess[] = [];
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const result = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('control') RETURNING id`);
+    projectId = result.rows[0].id;
+  });
+
+  afterEach(() => {
+    for (const child of children.splice(0)) {
+      child.kill('SIGKILL');
+    }
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  async function startAgent(): Promise<{ agentId: string; child: ChildProcess; output: () => string }> {
+    const child = spawn(process.execPath, ['-e', ECHO], { stdio: ['pipe', 'pipe', 'ignore'] });
+    children.push(child);
+    await new Promise(resolve => child.once('spawn', resolve));
+
+    let output = '';
+    child.stdout!.on('data', chunk => { output += chunk; });
+
+    const result = await getDatabase().query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status, pid) VALUES ($1, 'developer', 'working', $2) RETURNING id`,
+      [projectId, child.pid]
+    );
+    return { agentId: result.rows[0].id, child, output: () => output };
+  }
+
+  async function agentStatus(agentId: string): Promise<string> {
+    const result = await getDatabase().query<{ status: string }>(`SELECT status FROM agents WHERE id = $1`, [agentId]);
+    return result.rows[0].status;
+  }
+
+  it('should pause, step and resume a running process', async () => {
+    const control = getAgentControlService();
+    const { agentId, child } = await startAgent();
+
+    const paused = await control.pauseAgent(agentId, { pausedBy: 'ops', reason: 'Reviewing its plan' });
+    expect(paused).toMatchObject({ paused: true, pid: child.pid, previousStatus: 'working', pausedBy: 'ops' });
+    await waitForStopped(child.pid!);
+    expect(await agentStatus(agentId)).toBe('blocked');
+
+    // Pausing again changes nothing
+    expect(await control.pauseAgent(agentId)).toMatchObject({ pausedBy: 'ops', previousStatus: 'working' });
+
+    const stepped = await control.stepAgent(agentId);
+    expect(stepped).toMatchObject({ paused: false, stepPending: true });
+    await waitForStopped(child.pid!, false);
+    expect(await agentStatus(agentId)).toBe('working');
+
+    // The next turn pauses it again
+    expect(await control.handleTurn(agentId, child.stdin)).toEqual({ delivered: 0, paused: true });
+    await waitForStopped(child.pid!);
+    expect((await control.getControlState(agentId)).pausedBy).toBe('step');
+
+    await control.resumeAgent(agentId);
+    await waitForStopped(child.pid!, false);
+    expect(await agentStatus(agentId)).toBe('working');
+    expect(await control.handleTurn(agentId, child.stdin)).toEqual({ delivered: 0, paused: false });
+
+    await expect(control.resumeAgent(agentId)).rejects.toThrow('not paused');
+  });
+
+  it('should refuse to pause an agent without a live process', async () => {
+    const result = await getDatabase().query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status) VALUES ($1, 'developer', 'idle') RETURNING id`,
+      [projectId]
+    );
+    await expect(getAgentControlService().pauseAgent(result.rows[0].id)).rejects.toThrow('no running process');
+  });
+
+  it('should deliver queued steering once, at the next turn', async () => {
+    const control = getAgentControlService();
+    const { agentId, child, output } = await startAgent();
+
+    await control.steerAgent(agentId, 'Use the existing auth middleware', 'ops');
+    const withdrawn = await control.steerAgent(agentId, 'Never mind this one');
+    await control.steerAgent(agentId, 'Add tests for the login form');
+    await control.cancelSteering(withdrawn.id);
+    await expect(control.steerAgent(agentId, '  ')).rejects.toThrow('instruction is required');
+
+    expect(await control.handleTurn(agentId, child.stdin)).toEqual({ delivered: 2, paused: false });
+    await waitFor(() => output().endsWith('\n'));
+
+    const message = JSON.parse(output().trim());
+    expect(message).toMatchObject({ type: 'user', message: { role: 'user' } });
+    expect(message.message.content).toBe(
+      'Operator instructions:\n- Use the existing auth middleware\n- Add tests for the login form'
+    );
+
+    expect(await control.takeSteering(agentId)).toEqual([]);
+    const history = await control.listSteering(agentId);
+    expect(history.map(s => s.status).sort()).toEqual(['cancelled', 'delivered', 'delivered']);
+  });
+
+  it('should close stdin at the result unless steering is waiting', async () => {
+    const control = getAgentControlService();
+    const { agentId, child } = await startAgent();
+
+    await control.steerAgent(agentId, 'Also update the changelog');
+    expect(await control.handleResult(agentId, child.stdin)).toEqual({ delivered: 1 });
+    expect(child.stdin!.writableEnded).toBe(false);
+
+    expect(await control.handleResult(agentId, child.stdin)).toEqual({ delivered: 0 });
+    expect(child.stdin!.writableEnded).toBe(true);
+  });
+
+  it('should hold risky tool calls until every one is decided', async () => {
+    const control = getAgentControlService();
+    const { agentId, child } = await startAgent();
+
+    expect(await control.gateToolCall(agentId, toolCall('Bash', { command: 'ls' }))).toBeNull();
+
+    const remove = await control.gateToolCall(agentId, toolCall('Bash', { command: 'rm -rf fixtures' }));
+    const migrate = await control.gateToolCall(agentId, toolCall('Bash', { command: 'npx prisma migrate deploy' }));
+    expect(remove).toMatchObject({ actionType: 'delete_files', status: 'pending', pausedAgent: true, projectId });
+    expect(migrate).toMatchObject({ actionType: 'run_migration', pausedAgent: true });
+    await waitForStopped(child.pid!);
+    expect(await agentStatus(agentId)).toBe('blocked');
+
+    const pending = await control.listPendingActions({ projectId, status: 'pending' });
+    expect(pending.map(a => a.id).sort()).toEqual([remove!.id, migrate!.id].sort());
+
+    const notifications = await getDatabase().query<{ event_type: string }>(
+      `SELECT event_type FROM notifications WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(notifications.rows.map(n => n.event_type)).toEqual(['approval_needed', 'approval_needed']);
+
+    // Still waiting on the migration
+    await control.decideAction(remove!.id, 'approved', { decidedBy: 'reviewer' });
+    await waitForStopped(child.pid!);
+
+    const denied = await control.decideAction(migrate!.id, 'denied', { decidedBy: 'reviewer', reason: 'staging only' });
+    expect(denied).toMatchObject({ status: 'denied', decidedBy: 'reviewer', decisionReason: 'staging only' });
+    await waitForStopped(child.pid!, false);
+    expect(await agentStatus(agentId)).toBe('working');
+
+    const steering = await control.listSteering(agentId, { status: 'pending' });
+    expect(steering).toHaveLength(1);
+    expect(steering[0].instruction).toContain('was denied (staging only)');
+
+    await expect(control.decideAction(migrate!.id, 'approved')).rejects.toThrow('already denied');
+  });
+
+  it('should leave the agent running while a held call waits for its decision', async () => {
+    const control = getAgentControlService();
+    const { agentId, child } = await startAgent();
+
+    const action = await control.gateToolCall(agentId, toolCall('Bash', { command: 'rm -rf fixtures' }), { held: true });
+    expect(action).toMatchObject({ actionType: 'delete_files', pausedAgent: false, details: { held: true } });
+    expect(await processState(child.pid!)).not.toBe('T');
+    expect(await agentStatus(agentId)).toBe('working');
+
+    const waiting = control.waitForDecision(action!.id, { pollIntervalMs: 50 });
+    await control.decideAction(action!.id, 'denied', { reason: 'keep the fixtures' });
+    expect(await waiting).toMatchObject({ status: 'denied', decisionReason: 'keep the fixtures' });
+
+    // The gate refuses the call, so there is nothing to undo
+    expect(await control.listSteering(agentId, { status: 'pending' })).toEqual([]);
+
+    const abort = new AbortController();
+    const other = await control.gateToolCall(agentId, toolCall('Bash', { command: 'rm notes.txt' }), { held: true });
+    const abandoned = control.waitForDecision(other!.id, { signal: abort.signal });
+    abort.abort();
+    await expect(abandoned).rejects.toThrow('Stopped waiting');
+  });
+
+  it('should clear the pause of a process that died before it was resumed', async () => {
+    const control = getAgentControlService();
+    const { agentId } = await startAgent();
+    await control.pauseAgent(agentId);
+
+    // The process exits between reading the state and signalling it
+    const kill = process.kill.bind(process);
+    const spy = vi.spyOn(process, 'kill').mockImplementation((pid, signal) => {
+      if (signal === 'SIGCONT') {
+        throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+      }
+      return kill(pid, signal);
+    });
+    try {
+      const state = await control.stepAgent(agentId);
+      expect(state).toMatchObject({ paused: false, stepPending: false });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await agentStatus(agentId)).toBe('working');
+  });
+
+  it('should keep an operator pause when an action is decided', async () => {
+    const control = getAgentControlService();
+    const { agentId, child } = await startAgent();
+
+    const action = await control.requestAction({
+      agentId,
+      actionType: 'deploy',
+      description: 'Deploy to production',
+    });
+    expect(action.pausedAgent).toBe(false);
+
+    await control.pauseAgent(agentId, { pausedBy: 'ops' });
+    await control.decideAction(action.id, 'approved');
+    await waitForStopped(child.pid!);
+    expect((await control.getControlState(agentId)).pausedBy).toBe('ops');
+  });
+});
@@ -0,0 +1,713 @@
+/**
+ * Agent Control Module
+ *
+ * Human-in-the-loop controls for running agents:
+ * - Pause (SIGSTOP, agent status `blocked`), resume (SIGCONT) and step,
+ *   which resumes the agent for one turn and pauses it again
+ * - Steering instructions, queued by an operator and written to the
+ *   agent's stdin at its next turn
+ * - A pending-action queue: risky tool calls (deleting files, running
+ *   migrations, ...) wait until someone approves or denies them. Runtimes
+ *   with a permission gate (see permission-gate.ts) hold the call itself;
+ *   for the rest the queue is advisory, the agent is paused once the call
+ *   is seen and may already have run it
+ *
+ * State lives in the database and processes are addressed by PID, so the
+ * API server and the CLI can both drive the same agent.
+ */
+
+import { EventEmitter } from 'events';
+import type { Writable } from 'stream';
+import { getDatabase } from '../../lib/database.js';
+import type { AgentStatus } from '../../types/index.js';
+import type { ParsedToolCall } from '../agent-manager/output-parser.js';
+import { formatUserMessage } from '../agent-manager/runtime.js';
+import { getNotificationService } from '../notifications/index.js';
+
+export type SteeringStatus = 'pending' | 'delivered' | 'cancelled';
+export type PendingActionStatus = 'pending' | 'approved' | 'denied';
+export type ActionDecision = Exclude<PendingActionStatus, 'pending'>;
+
+export interface AgentControlState {
+  agentId: string;
+  paused: boolean;
+  pid: number | null;
+  previousStatus: AgentStatus | null;
+  pauseReason: string | null;
+  pausedBy: string | null;
+  pausedAt: Date | null;
+  stepPending: boolean;
+}
+
+export interface SteeringInstruction {
+  id: string;
+  agentId: string;
+  instruction: string;
+  createdBy: string | null;
+  status: SteeringStatus;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PendingAction {
+  id: string;
+  agentId: string;
+  projectId: string;
+  actionType: string;
+  description: string;
+  details: Record<string, unknown>;
+  pausedAgent: boolean;
+  status: PendingActionStatus;
+  decidedBy: string | null;
+  decisionReason: string | null;
+  decidedAt: Date | null;
+  requestedAt: Date;
+}
+
+export interface PauseOptions {
+  pausedBy?: string;
+  reason?: string;
+}
+
+export interface RequestActionOptions {
+  agentId: string;
+  actionType: string;
+  description: string;
+  details?: Record<string, unknown>;
+  pauseAgent?: boolean;   // Stop the agent until the action is decided
+}
+
+export interface GateToolCallOptions {
+  held?: boolean;         // A permission gate holds the call until it is decided
+}
+
+export interface WaitForDecisionOptions {
+  signal?: AbortSignal;   // Stop waiting, e.g. when the agent exits
+  pollIntervalMs?: number;
+}
+
+export interface DecideActionOptions {
+  decidedBy?: string;
+  reason?: string;
+}
+
+export interface RiskyActionRule {
+  actionType: string;
+  tools: string[];        // Tool names the rule applies to
+  pattern: RegExp;        // Matched against the tool's command, or its file path
+  description: string;
+}
+
+/**
+ * Tool calls that need an operator's approval. Bash commands are matched
+ * on their command line; file tools on the path they touch.
+ */
+export const RISKY_ACTION_RULES: RiskyActionRule[] = [
+  {
+    actionType: 'delete_files',
+    tools: ['Bash'],
+    pattern: /(^|[;&|]\s*|\s)(rm|rmdir|shred|unlink)\s|\bgit\s+clean\s+-\w*f|\bfind\b.*\s-delete\b/,
+    description: 'Delete files',
+  },
+  {
+    actionType: 'run_migration',
+    tools: ['Bash'],
+    pattern: /\b(migrate|migration|db:migrate|db:push|db:reset)\b|\bpsql\b.*\s-f\s/,
+    description: 'Run a database migration',
+  },
+  {
+    actionType: 'destructive_sql',
+    tools: ['Bash'],
+    pattern: /\b(DROP\s+(TABLE|DATABASE|SCHEMA)|TRUNCATE\s+(TABLE\s+)?\w|DELETE\s+FROM\s+\w+\s*(;|$|"|'))/i,
+    description: 'Run destructive SQL',
+  },
+  {
+    actionType: 'rewrite_history',
+    tools: ['Bash'],
+    pattern: /\bgit\s+(push\s+.*(--force|-f\b)|reset\s+--hard|rebase\b)/,
+    description: 'Rewrite git history',
+  },
+  {
+    actionType: 'edit_migration',
+    tools: ['Write', 'Edit', 'MultiEdit'],
+    pattern: /(^|\/)migrations?\//,
+    description: 'Write a migration file',
+  },
+];
+
+export interface RiskyAction {
+  actionType: string;
+  description: string;
+}
+
+/**
+ * Classify a tool call against the risky-action rules. Null if it is safe
+ * to run without approval.
+ */
+export function classifyRiskyAction(
+  call: ParsedToolCall,
+  rules: RiskyActionRule[] = RISKY_ACTION_RULES
+): RiskyAction | null {
+  const command = typeof call.input.command === 'string' ? call.input.command : undefined;
+
+  for (const rule of rules) {
+    if (!rule.tools.includes(call.name)) continue;
+
+    const subjects = command !== undefined ? [command] : call.files;
+    const subject = subjects.find(s => rule.pattern.test(s));
+    if (subject !== undefined) {
+      return { actionType: rule.actionType, description: `${rule.description}: ${subject.slice(0, 200)}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Render steering instructions as one stream-json user message, the
+ * input format agent runtimes read between turns.
+ */
+export function formatSteeringMessage(instructions: SteeringInstruction[]): string {
+  const text = instructions.length === 1
+    ? `Operator instruction: ${instructions[0].instruction}`
+    : `Operator instructions:\n${instructions.map(i => `- ${i.instruction}`).join('\n')}`;
+
+  return formatUserMessage(text);
+}
+
+const CONTROL_COLUMNS = `agent_id as "agentId", paused, pid, previous_status as "previousStatus",
+  pause_reason as "pauseReason", paused_by as "pausedBy", paused_at as "pausedAt",
+  step_pending as "stepPending"`;
+
+const STEERING_COLUMNS = `id, agent_id as "agentId", instruction, created_by as "createdBy", status,
+  delivered_at as "deliveredAt", created_at as "createdAt"`;
+
+const ACTION_COLUMNS = `id, agent_id as "agentId", project_id as "projectId", action_type as "actionType",
+  description, details, paused_agent as "pausedAgent", status, decided_by as "decidedBy",
+  decision_reason as "decisionReason", decided_at as "decidedAt", requested_at as "requestedAt"`;
+
+// Decisions made by another process are only seen by polling
+const DECISION_POLL_INTERVAL_MS = 1000;
+
+function isProcessAlive(pid: number | null): pid is number {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * AgentControlService pauses, steps and steers agents, and keeps the
+ * queue of actions awaiting approval.
+ *
+ * Events: agent:paused, agent:resumed, steering:queued, steering:delivered,
+ * action:requested, action:decided
+ */
+export class AgentControlService extends EventEmitter {
+  constructor() {
+    super();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pause / resume / step
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get an agent's pause state. An agent whose stopped process has since
+   * exited is no longer paused.
+   */
+  async getControlState(agentId: string): Promise<AgentControlState> {
+    const result = await getDatabase().query<AgentControlState>(
+      `SELECT ${CONTROL_COLUMNS} FROM agent_controls WHERE agent_id::text = $1`,
+      [agentId]
+    );
+    const state = result.rows[0];
+    if (!state) {
+      return {
+        agentId,
+        paused: false,
+        pid: null,
+        previousStatus: null,
+        pauseReason: null,
+        pausedBy: null,
+        pausedAt: null,
+        stepPending: false,
+      };
+    }
+    return { ...state, paused: state.paused && isProcessAlive(state.pid) };
+  }
+
+  /**
+   * Stop an agent's process with SIGSTOP and mark the agent blocked.
+   * Pausing a paused agent is a no-op. Only the agent process itself is
+   * stopped; a command it is already running finishes.
+   * @throws Error if the agent does not exist or has no running process
+   */
+  async pauseAgent(agentId: string, options: PauseOptions = {}): Promise<AgentControlState> {
+    const current = await this.getControlState(agentId);
+    if (current.paused) {
+      return current;
+    }
+
+    const db = getDatabase();
+    const agent = await db.query<{ status: AgentStatus; pid: number | null; processPid: number | null }>(
+      `SELECT a.status, a.pid,
+              (SELECT p.pid FROM agent_processes p
+                WHERE p.agent_id = a.id AND p.status = 'running' AND p.pid IS NOT NULL
+                ORDER BY p.created_at DESC LIMIT 1) AS "processPid"
+       FROM agents a WHERE a.id::text = $1`,
+      [agentId]
+    );
+    if (agent.rows.length === 0) {
+      throw new Error(`Agent not found: ${agentId}`);
+    }
+
+    const { status, pid, processPid } = agent.rows[0];
+    const target = [processPid, pid].find(isProcessAlive);
+    if (target === undefined) {
+      throw new Error(`Agent has no running process: ${agentId}`);
+    }
+
+    process.kill(target, 'SIGSTOP');
+
+    const result = await db.query<AgentControlState>(
+      `INSERT INTO agent_controls
+         (agent_id, paused, pid, previous_status, pause_reason, paused_by, paused_at, step_pending, updated_at)
+       VALUES ($1, TRUE, $2, $3, $4, $5, NOW(), FALSE, NOW())
+       ON CONFLICT (agent_id) DO UPDATE SET
+         paused = TRUE, pid = $2, previous_status = $3, pause_reason = $4, paused_by = $5,
+         paused_at = NOW(), step_pending = FALSE, updated_at = NOW()
+       RETURNING ${CONTROL_COLUMNS}`,
+      [agentId, target, status === 'blocked' ? null : status, options.reason || null, options.pausedBy || null]
+    );
+    await db.query(`UPDATE agents SET status = 'blocked', updated_at = NOW() WHERE id = $1`, [agentId]);
+
+    const state = result.rows[0];
+    this.emit('agent:paused', state);
+    return state;
+  }
+
+  /**
+   * Continue a paused agent with SIGCONT and restore its previous status.
+   * @throws Error if the agent is not paused
+   */
+  async resumeAgent(agentId: string, options: { resumedBy?: string } = {}): Promise<AgentControlState> {
+    return this.continueAgent(agentId, false, options.resumedBy);
+  }
+
+  /**
+   * Let a paused agent run until its next turn starts, then pause it again.
+   * @throws Error if the agent is not paused
+   */
+  async stepAgent(agentId: string, options: { resumedBy?: string } = {}): Promise<AgentControlState> {
+    return this.continueAgent(agentId, true, options.resumedBy);
+  }
+
+  private async continueAgent(agentId: string, step: boolean, resumedBy?: string): Promise<AgentControlState> {
+    const current = await this.getControlState(agentId);
+    if (!current.paused) {
+      throw new Error(`Agent is not paused: ${agentId}`);
+    }
+
+    let exited = false;
+    try {
+      process.kill(current.pid!, 'SIGCONT');
+    } catch (error) {
+      // It died since the state was read; clear the pause all the same
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        throw error;
+      }
+      exited = true;
+    }
+
+    const db = getDatabase();
+    const result = await db.query<AgentControlState>(
+      `UPDATE agent_controls SET paused = FALSE, step_pending = $2, updated_at = NOW()
+       WHERE agent_id = $1
+       RETURNING ${CONTROL_COLUMNS}`,
+      [agentId, step && !exited]
+    );
+    // Leave the status alone if something else changed it meanwhile
+    await db.query(
+      `UPDATE agents SET status = COALESCE($2::agent_status, 'working'), updated_at = NOW()
+       WHERE id = $1 AND status = 'blocked'`,
+      [agentId, current.previousStatus]
+    );
+
+    const state = result.rows[0];
+    this.emit('agent:resumed', { ...state, resumedBy, step, exited });
+    return state;
+  }
+
+  /**
+   * Called by whoever reads the agent's output when a new turn starts:
+   * writes queued steering to the agent's stdin, and pauses the agent if
+   * it was only stepped.
+   */
+  async handleTurn(agentId: string, stdin: Writable | null | undefined): Promise<{ delivered: number; paused: boolean }> {
+    const delivered = await this.deliverSteering(agentId, stdin);
+
+    const stepped = await getDatabase().query(
+      `UPDATE agent_controls SET step_pending = FALSE, updated_at = NOW()
+       WHERE agent_id = $1 AND step_pending AND NOT paused
+       RETURNING agent_id`,
+      [agentId]
+    );
+    if (stepped.rows.length > 0) {
+      await this.pauseAgent(agentId, { pausedBy: 'step', reason: 'Stepped one turn' });
+    }
+
+    return { delivered, paused: stepped.rows.length > 0 };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Steering
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Write the agent's pending steering to its stdin as one user message.
+   * Returns how many instructions were delivered.
+   */
+  async deliverSteering(agentId: string, stdin: Writable | null | undefined): Promise<number> {
+    if (!stdin?.writable) {
+      return 0;
+    }
+    const instructions = await this.takeSteering(agentId);
+    if (instructions.length > 0) {
+      stdin.write(formatSteeringMessage(instructions));
+    }
+    return instructions.length;
+  }
+
+  /**
+   * Called when the agent reports its result. Steering that arrived during
+   * the last turn starts another one; otherwise stdin is closed, which is
+   * what lets a CLI reading stream-json input exit.
+   */
+  async handleResult(agentId: string, stdin: Writable | null | undefined): Promise<{ delivered: number }> {
+    try {
+      const delivered = await this.deliverSteering(agentId, stdin);
+      if (delivered > 0) {
+        return { delivered };
+      }
+    } catch (error) {
+      stdin?.end();
+      throw error;
+    }
+    stdin?.end();
+    return { delivered: 0 };
+  }
+
+  /**
+   * Queue an instruction for the agent's next turn.
+   * @throws Error if the instruction is empty or the agent does not exist
+   */
+  async steerAgent(agentId: string, instruction: string, createdBy?: string): Promise<SteeringInstruction> {
+    if (!instruction || !instruction.trim()) {
+      throw new Error('instruction is required');
+    }
+    await this.requireAgent(agentId);
+
+    const result = await getDatabase().query<SteeringInstruction>(
+      `INSERT INTO agent_steering (agent_id, instruction, created_by)
+       VALUES ($1, $2, $3)
+       RETURNING ${STEERING_COLUMNS}`,
+      [agentId, instruction.trim(), createdBy || null]
+    );
+    const steering = result.rows[0];
+    this.emit('steering:queued', steering);
+    return steering;
+  }
+
+  /**
+   * List an agent's steering instructions, newest first.
+   */
+  async listSteering(agentId: string, options: { status?: SteeringStatus } = {}): Promise<SteeringInstruction[]> {
+    const result = await getDatabase().query<SteeringInstruction>(
+      `SELECT ${STEERING_COLUMNS} FROM agent_steering
+       WHERE agent_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC`,
+      [agentId, options.status || null]
+    );
+    return result.rows;
+  }
+
+  async getSteering(steeringId: string): Promise<SteeringInstruction | null> {
+    const result = await getDatabase().query<SteeringInstruction>(
+      `SELECT ${STEERING_COLUMNS} FROM agent_steering WHERE id::text = $1`,
+      [steeringId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Withdraw an instruction that has not been delivered yet.
+   * @throws Error if it does not exist or was already delivered
+   */
+  async cancelSteering(steeringId: string): Promise<SteeringInstruction> {
+    const result = await getDatabase().query<SteeringInstruction>(
+      `UPDATE agent_steering SET status = 'cancelled'
+       WHERE id::text = $1 AND status = 'pending'
+       RETURNING ${STEERING_COLUMNS}`,
+      [steeringId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Pending steering instruction not found: ${steeringId}`);
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Claim an agent's pending instructions, oldest first, marking them
+   * delivered so each is handed over exactly once.
+   */
+  async takeSteering(agentId: string): Promise<SteeringInstruction[]> {
+    const result = await getDatabase().query<SteeringInstruction>(
+      `UPDATE agent_steering SET status = 'delivered', delivered_at = NOW()
+       WHERE agent_id = $1 AND status = 'pending'
+       RETURNING ${STEERING_COLUMNS}`,
+      [agentId]
+    );
+    const instructions = result.rows.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (instructions.length > 0) {
+      this.emit('steering:delivered', { agentId, instructions });
+    }
+    return instructions;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pending actions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Queue an action for approval, optionally pausing the agent until it
+   * is decided.
+   * @throws Error if the agent does not exist or a field is missing
+   */
+  async requestAction(options: RequestActionOptions): Promise<PendingAction> {
+    if (!options.actionType || !options.description) {
+      throw new Error('actionType and description are required');
+    }
+    const agent = await this.requireAgent(options.agentId);
+
+    let pausedAgent = false;
+    if (options.pauseAgent) {
+      try {
+        await this.pauseAgent(options.agentId, {
+          pausedBy: 'approval',
+          reason: `Awaiting approval: ${options.description}`,
+        });
+        pausedAgent = true;
+      } catch (error) {
+        // An agent that has already exited can still have its action reviewed
+        if (!(error instanceof Error && error.message.startsWith('Agent has no running process'))) {
+          throw error;
+        }
+      }
+    }
+
+    const result = await getDatabase().query<PendingAction>(
+      `INSERT INTO agent_pending_actions (agent_id, project_id, action_type, description, details, paused_agent)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${ACTION_COLUMNS}`,
+      [
+        options.agentId,
+        agent.projectId,
+        options.actionType,
+        options.description,
+        JSON.stringify(options.details || {}),
+        pausedAgent,
+      ]
+    );
+    const action = result.rows[0];
+
+    try {
+      await getNotificationService().createNotification(
+        action.projectId,
+        'warning',
+        'approval_needed',
+        'Agent Action Needs Approval',
+        {
+          message: action.description,
+          agentId: action.agentId,
+          metadata: { actionId: action.id, actionType: action.actionType },
+        }
+      );
+    } catch (error) {
+      // Non-critical, the action is still listed as pending
+      console.error('Failed to notify about pending action:', error);
+    }
+
+    this.emit('action:requested', action);
+    return action;
+  }
+
+  /**
+   * Queue a risky tool call for approval. Null if the call needs no approval.
+   *
+   * A call held by a permission gate cannot run before it is decided, so
+   * the agent is left running. Otherwise the agent is paused, but only
+   * once the call has been seen in its output: by then the tool may
+   * already be running, so the approval is advisory.
+   */
+  async gateToolCall(
+    agentId: string,
+    call: ParsedToolCall,
+    options: GateToolCallOptions = {}
+  ): Promise<PendingAction | null> {
+    const risky = classifyRiskyAction(call);
+    if (!risky) return null;
+
+    return this.requestAction({
+      agentId,
+      actionType: risky.actionType,
+      description: risky.description,
+      details: { tool: call.name, toolUseId: call.id, input: call.input, held: options.held === true },
+      pauseAgent: !options.held,
+    });
+  }
+
+  /**
+   * Resolve once an action has been approved or denied, here or by
+   * another process.
+   * @throws Error if the action does not exist or the signal aborts
+   */
+  async waitForDecision(actionId: string, options: WaitForDecisionOptions = {}): Promise<PendingAction> {
+    const pollIntervalMs = options.pollIntervalMs ?? DECISION_POLL_INTERVAL_MS;
+
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new Error(`Stopped waiting for action: ${actionId}`);
+      }
+      const action = await this.getPendingAction(actionId);
+      if (!action) {
+        throw new Error(`Pending action not found: ${actionId}`);
+      }
+      if (action.status !== 'pending') {
+        return action;
+      }
+
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          this.off('action:decided', onDecided);
+          options.signal?.removeEventListener('abort', done);
+          resolve();
+        };
+        const onDecided = (decided: PendingAction) => {
+          if (decided.id === action.id) done();
+        };
+        const timer = setTimeout(done, pollIntervalMs);
+        this.on('action:decided', onDecided);
+        options.signal?.addEventListener('abort', done);
+      });
+    }
+  }
+
+  /**
+   * List actions, newest first, by project, agent and status.
+   */
+  async listPendingActions(options: {
+    projectId?: string;
+    agentId?: string;
+    status?: PendingActionStatus;
+  } = {}): Promise<PendingAction[]> {
+    const result = await getDatabase().query<PendingAction>(
+      `SELECT ${ACTION_COLUMNS} FROM agent_pending_actions
+       WHERE ($1::text IS NULL OR project_id::text = $1)
+         AND ($2::text IS NULL OR agent_id::text = $2)
+         AND ($3::text IS NULL OR status = $3)
+       ORDER BY requested_at DESC`,
+      [options.projectId || null, options.agentId || null, options.status || null]
+    );
+    return result.rows;
+  }
+
+  async getPendingAction(actionId: string): Promise<PendingAction | null> {
+    const result = await getDatabase().query<PendingAction>(
+      `SELECT ${ACTION_COLUMNS} FROM agent_pending_actions WHERE id::text = $1`,
+      [actionId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Approve or deny a pending action. An agent paused for the action is
+   * resumed either way; when denied it is first told not to go ahead,
+   * unless the call was held, in which case its gate refuses it.
+   * @throws Error if the action does not exist or was already decided
+   */
+  async decideAction(
+    actionId: string,
+    decision: ActionDecision,
+    options: DecideActionOptions = {}
+  ): Promise<PendingAction> {
+    if (decision !== 'approved' && decision !== 'denied') {
+      throw new Error('decision must be one of: approved, denied');
+    }
+
+    const result = await getDatabase().query<PendingAction>(
+      `UPDATE agent_pending_actions
+       SET status = $2, decided_by = $3, decision_reason = $4, decided_at = NOW()
+       WHERE id::text = $1 AND status = 'pending'
+       RETURNING ${ACTION_COLUMNS}`,
+      [actionId, decision, options.decidedBy || null, options.reason || null]
+    );
+    if (result.rows.length === 0) {
+      const existing = await this.getPendingAction(actionId);
+      throw new Error(existing
+        ? `Action already ${existing.status}: ${actionId}`
+        : `Pending action not found: ${actionId}`);
+    }
+    const action = result.rows[0];
+
+    if (decision === 'denied' && action.details.held !== true) {
+      await this.steerAgent(
+        action.agentId,
+        `Your request to ${action.description} was denied` +
+          (options.reason ? ` (${options.reason})` : '') +
+          '. Do not do it; undo anything it already changed and continue another way.',
+        options.decidedBy
+      );
+    }
+
+    // Resume only once nothing else the agent asked for is still waiting
+    if (action.pausedAgent) {
+      const waiting = await this.listPendingActions({ agentId: action.agentId, status: 'pending' });
+      const state = await this.getControlState(action.agentId);
+      if (state.paused && state.pausedBy === 'approval' && !waiting.some(a => a.pausedAgent)) {
+        await this.resumeAgent(action.agentId, { resumedBy: options.decidedBy });
+      }
+    }
+
+    this.emit('action:decided', action);
+    return action;
+  }
+
+  private async requireAgent(agentId: string): Promise<{ projectId: string }> {
+    const result = await getDatabase().query<{ projectId: string }>(
+      `SELECT project_id as "projectId" FROM agents WHERE id::text = $1`,
+      [agentId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Agent not found: ${agentId}`);
+    }
+    return result.rows[0];
+  }
+}
+
+export function createAgentControlService(): AgentControlService {
+  return new AgentControlService();
+}
+
+let defaultService: AgentControlService | null = null;
+
+export function getAgentControlService(): AgentControlService {
+  if (!defaultService) {
+    defaultService = new AgentControlService();
+  }
+  return defaultService;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for the permission gate
+ * The PreToolUse hook holds a tool call until its decision file is written
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  gateDirectory,
+  preparePermissionGate,
+  removePermissionGate,
+  writeGateDecision,
+} from './permission-gate.js';
+
+// Runs the hook the way the CLI does, from the command in the settings file
+async function runHook(settingsFile: string, input: Record<string, unknown>) {
+  const settings = JSON.parse(await fs.readFile(settingsFile, 'utf8'));
+  const hook = settings.hooks.PreToolUse[0].hooks[0];
+
+  const child = spawn('sh', ['-c', hook.command]);
+  child.stdin.end(JSON.stringify({ hook_event_name: 'PreToolUse', ...input }));
+
+  let stderr = '';
+  child.stderr.on('data', chunk => { stderr += chunk; });
+  let exited = false;
+  const done = new Promise<{ code: number | null; stderr: string }>(resolve =>
+    child.on('close', code => {
+      exited = true;
+      resolve({ code, stderr });
+    })
+  );
+
+  return { done, exited: () => exited };
+}
+
+describe('Permission gate', () => {
+  let root: string;
+  let settings: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-gate-'));
+    settings = await preparePermissionGate('agent-1', root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should hold a tool call until it is allowed', async () => {
+    const hook = await runHook(settings, { tool_name: 'Bash', tool_use_id: 'toolu_1', tool_input: { command: 'ls' } });
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(hook.exited()).toBe(false);
+
+    await writeGateDecision('agent-1', 'toolu_1', { allow: true }, root);
+    expect((await hook.done).code).toBe(0);
+  });
+
+  it('should refuse a denied tool call with the reason', async () => {
+    const hook = await runHook(settings, { tool_name: 'Bash', tool_use_id: 'toolu_2', tool_input: { command: 'rm -rf /' } });
+    await writeGateDecision('agent-1', 'toolu_2', { allow: false, reason: 'Denied by an operator: no' }, root);
+
+    expect(await hook.done).toEqual({ code: 2, stderr: 'Denied by an operator: no' });
+  });
+
+  it('should refuse a tool call without an id', async () => {
+    const hook = await runHook(settings, { tool_name: 'Bash', tool_input: { command: 'ls' } });
+
+    const { code, stderr } = await hook.done;
+    expect(code).toBe(2);
+    expect(stderr).toContain('no id');
+  });
+
+  it('should reject ids that are not plain identifiers', async () => {
+    await expect(writeGateDecision('agent-1', '../settings', { allow: true }, root)).rejects.toThrow('Invalid tool_use id');
+  });
+
+  it('should remove the gate directory', async () => {
+    await removePermissionGate('agent-1', root);
+    await expect(fs.access(gateDirectory('agent-1', root))).rejects.toThrow();
+  });
+});
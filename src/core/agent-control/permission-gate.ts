@@ -0,0 +1,114 @@
+/**
+ * Permission Gate
+ *
+ * Holds an agent's tool calls before they run. The Claude CLI is launched
+ * with a PreToolUse hook that waits for a decision file named after the
+ * call's tool_use id: safe calls are allowed as soon as the AgentManager
+ * parses them, risky ones once an operator has decided the pending action.
+ * A denied call is refused by the hook and the reason handed to the model.
+ *
+ * Gate directories live under ~/.eklavya, outside every sandbox profile's
+ * writable paths, so a jailed agent can run its hook but cannot write its
+ * own approvals. Without isolation the agent could, and the gate only
+ * holds an agent that plays along.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface GateDecision {
+  allow: boolean;
+  reason?: string;
+}
+
+export const DEFAULT_GATE_DIR = process.env.EKLAVYA_GATE_DIR || path.join(os.homedir(), '.eklavya', 'gates');
+
+// The CLI lets a timed-out hook's call through, so it waits as long as a run can
+export const GATE_HOOK_TIMEOUT_SECONDS = 7 * 24 * 60 * 60;
+
+const HOOK_FILE = 'pre-tool-use.cjs';
+const SETTINGS_FILE = 'settings.json';
+const DECISIONS_DIR = 'decisions';
+
+// Run by the CLI before every tool call with the call as JSON on stdin.
+// Exit 0 lets the call run; exit 2 refuses it with stderr as the reason.
+const HOOK_PROGRAM = `
+const fs = require('fs');
+const path = require('path');
+const refuse = (reason) => { process.stderr.write(reason); process.exit(2); };
+let input = '';
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  let id;
+  try { id = JSON.parse(input).tool_use_id; } catch {}
+  if (typeof id !== 'string' || !/^[\\w-]+$/.test(id)) {
+    refuse('Tool call has no id, so it cannot be approved');
+  }
+  const file = path.join(__dirname, '${DECISIONS_DIR}', id + '.json');
+  const poll = () => {
+    let decision;
+    try { decision = JSON.parse(fs.readFileSync(file, 'utf8')); } catch { return setTimeout(poll, 200); }
+    if (decision.allow === true) process.exit(0);
+    refuse(decision.reason || 'Denied by an operator');
+  };
+  poll();
+});
+`;
+
+export function gateDirectory(agentId: string, root: string = DEFAULT_GATE_DIR): string {
+  return path.join(root, agentId);
+}
+
+/**
+ * Write an agent's hook and the CLI settings that install it.
+ * Returns the settings file to pass with `--settings`.
+ */
+export async function preparePermissionGate(agentId: string, root: string = DEFAULT_GATE_DIR): Promise<string> {
+  const dir = gateDirectory(agentId, root);
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(path.join(dir, DECISIONS_DIR), { recursive: true });
+
+  const hook = path.join(dir, HOOK_FILE);
+  await fs.writeFile(hook, HOOK_PROGRAM);
+
+  const settings = path.join(dir, SETTINGS_FILE);
+  await fs.writeFile(settings, JSON.stringify({
+    hooks: {
+      PreToolUse: [{
+        matcher: '*',
+        hooks: [{
+          type: 'command',
+          command: `"${process.execPath}" "${hook}"`,
+          timeout: GATE_HOOK_TIMEOUT_SECONDS,
+        }],
+      }],
+    },
+  }, null, 2));
+
+  return settings;
+}
+
+/**
+ * Release or refuse a held tool call.
+ * @throws Error if the tool_use id is not a plain identifier
+ */
+export async function writeGateDecision(
+  agentId: string,
+  toolUseId: string,
+  decision: GateDecision,
+  root: string = DEFAULT_GATE_DIR
+): Promise<void> {
+  if (!/^[\w-]+$/.test(toolUseId)) {
+    throw new Error(`Invalid tool_use id: ${toolUseId}`);
+  }
+
+  // Written aside and renamed so the hook never reads half a decision
+  const file = path.join(gateDirectory(agentId, root), DECISIONS_DIR, `${toolUseId}.json`);
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(decision));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+export async function removePermissionGate(agentId: string, root: string = DEFAULT_GATE_DIR): Promise<void> {
+  await fs.rm(gateDirectory(agentId, root), { recursive: true, force: true });
+}
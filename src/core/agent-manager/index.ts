@@ -1,25 +1,44 @@
-import { spawn, ChildProcess } from 'child_process';
+import { ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs/promises';
 import type { Agent, AgentType, AgentStatus, EklavyaConfig, Prompt } from '../../types/index.js';
 import { getDatabase } from '../../lib/database.js';
-import { MessageBus } from '../message-bus/index.js';
+import type { MessageBusAdapter } from '../message-bus/index.js';
 import { getLearningSystem } from '../learning/index.js';
 import { getCostTracker } from '../cost/index.js';
+import { ModelRouter } from '../cost/routing.js';
+import { getRuntimeRegistry } from './runtime.js';
+import { WorktreeManager, createWorktreeManager } from '../worktree/index.js';
+import { getAgentControlService } from '../agent-control/index.js';
+import {
+  preparePermissionGate,
+  removePermissionGate,
+  writeGateDecision,
+} from '../agent-control/permission-gate.js';
+import {
+  AgentOutputParser,
+  AgentOutputSummary,
+  ParsedToolCall,
+  ParsedResult,
+  ParsedUsage,
+  ParsedLine,
+} from './output-parser.js';
 
 export interface AgentManagerOptions {
   config: EklavyaConfig;
   projectId: string;
   projectDir: string;
-  messageBus: MessageBus;
+  messageBus: MessageBusAdapter;
 }
 
 export interface SpawnAgentOptions {
   type: AgentType;
   taskId?: string;
   taskDescription?: string;
+  taskType?: string;       // Task type and priority steer model routing
+  taskPriority?: number;
   workingDirectory?: string;
   parentAgentId?: string;  // For tracking agent hierarchy
 }
@@ -34,6 +53,9 @@ export interface AgentOutcome {
     tasksFailed: number;
     tokensUsed: number;
     executionTimeMs: number;
+    apiCalls?: number;
+    toolCalls?: number;
+    filesModified?: number;
     bugsIntroduced?: number;
     codeQualityScore?: number;
   };
@@ -44,6 +66,7 @@ export interface AgentOutcome {
 export interface RLAgent extends Agent {
   promptId?: string;
   promptVersion?: number;
+  model?: string;
   spawnedAt: Date;
   parentAgentId?: string;
 }
@@ -52,8 +75,13 @@ export class AgentManager extends EventEmitter {
   private config: EklavyaConfig;
   private projectId: string;
   private projectDir: string;
-  private messageBus: MessageBus;
+  private messageBus: MessageBusAdapter;
   private agents: Map<string, { agent: RLAgent; process?: ChildProcess; startTime: number }> = new Map();
+  private parsers: Map<string, AgentOutputParser> = new Map();
+  private pendingWrites: Map<string, Promise<void>[]> = new Map();
+  private gates: Map<string, AbortController> = new Map();
+  private worktrees?: WorktreeManager;
+  private modelRouter: ModelRouter;
   private heartbeatInterval?: NodeJS.Timeout;
 
   constructor(options: AgentManagerOptions) {
@@ -62,6 +90,22 @@ export class AgentManager extends EventEmitter {
     this.projectId = options.projectId;
     this.projectDir = options.projectDir;
     this.messageBus = options.messageBus;
+    this.modelRouter = new ModelRouter(this.config.defaultModel, this.config.modelRouting);
+
+    // Give each agent its own git worktree when isolation is enabled
+    if (this.config.worktrees?.enabled) {
+      this.worktrees = createWorktreeManager({
+        projectDir: this.projectDir,
+        integrationBranch: this.config.worktrees.integrationBranch,
+      });
+    }
+  }
+
+  /**
+   * Worktree manager for this project, if worktree isolation is enabled
+   */
+  getWorktreeManager(): WorktreeManager | undefined {
+    return this.worktrees;
   }
 
   async start(): Promise<void> {
@@ -115,6 +159,33 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  /**
+   * Model router used for spawned agents
+   */
+  getModelRouter(): ModelRouter {
+    return this.modelRouter;
+  }
+
+  /**
+   * Pick the model for a new agent, falling back to the configured
+   * default if routing fails
+   */
+  private async routeModel(agentId: string, options: SpawnAgentOptions): Promise<string> {
+    try {
+      const decision = await this.modelRouter.route(this.projectId, {
+        agentType: options.type,
+        taskType: options.taskType,
+        taskPriority: options.taskPriority,
+        agentId,
+        taskId: options.taskId,
+      });
+      return decision.model;
+    } catch (error) {
+      console.error('Failed to route model:', error);
+      return this.config.defaultModel;
+    }
+  }
+
   /**
    * Record token usage for an agent
    */
@@ -161,12 +232,15 @@ export class AgentManager extends EventEmitter {
       const learningSystem = getLearningSystem();
       const agentId = uuidv4();
       const workingDir = options.workingDirectory ||
-        path.join(this.projectDir, 'agents', options.type, agentId);
+        (this.worktrees
+          ? (await this.worktrees.createWorktree(agentId, options.type)).path
+          : path.join(this.projectDir, 'agents', options.type, agentId));
 
       // Select prompt using Thompson Sampling
       const selectedPrompt = await learningSystem.selectPrompt(options.type);
       const promptContent = selectedPrompt?.content || this.getDefaultPrompt(options.type);
       const promptId = selectedPrompt?.id;
+      const model = await this.routeModel(agentId, options);
 
     // Create working directory
     await fs.mkdir(workingDir, { recursive: true });
@@ -184,6 +258,7 @@ export class AgentManager extends EventEmitter {
       currentTaskId: options.taskId,
       promptId,
       promptVersion: selectedPrompt?.version,
+      model,
       parentAgentId: options.parentAgentId,
       spawnedAt: new Date(),
       metrics: { tasksCompleted: 0, tasksFailed: 0, tokensUsed: 0 },
@@ -208,8 +283,8 @@ export class AgentManager extends EventEmitter {
       ]
     );
 
-    // Spawn Claude Code process
-    const process = await this.spawnClaudeProcess(agent, options.taskDescription);
+    // Spawn the agent process through its configured runtime
+    const process = await this.spawnAgentProcess(agent, options.taskDescription);
 
     this.agents.set(agentId, { agent, process, startTime: Date.now() });
 
@@ -219,7 +294,7 @@ export class AgentManager extends EventEmitter {
     // Subscribe to messages
     await this.messageBus.subscribe(agentId);
 
-    this.emit('agent:spawned', { agent, promptId, promptVersion: selectedPrompt?.version });
+    this.emit('agent:spawned', { agent, promptId, promptVersion: selectedPrompt?.version, model });
     return agent;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -373,72 +448,101 @@ export class AgentManager extends EventEmitter {
     return Math.max(-1, Math.min(1, baseReward));
   }
 
-  private async spawnClaudeProcess(agent: RLAgent, taskDescription?: string): Promise<ChildProcess> {
-    const args = [
-      '--dangerously-skip-permissions',
-      '--project-dir', agent.workingDirectory!,
-    ];
+  private async spawnAgentProcess(agent: RLAgent, taskDescription?: string): Promise<ChildProcess> {
+    const runtime = await getRuntimeRegistry().resolveForProject(
+      agent.type,
+      this.projectId,
+      this.config.agentRuntime
+    );
 
-    // If there's a task description, pass it as the initial prompt
-    if (taskDescription) {
-      args.push('--prompt', taskDescription);
+    // Runtimes that can hold tool calls get a permission gate; for the
+    // rest approvals are advisory (see AgentControlService.gateToolCall)
+    let gate: AbortController | undefined;
+    let permissionSettings: string | undefined;
+    if (this.config.actionApproval !== false && runtime.gatesToolCalls) {
+      permissionSettings = await preparePermissionGate(agent.id);
+      gate = new AbortController();
+      this.gates.set(agent.id, gate);
     }
 
-    const proc = spawn('claude', args, {
-      cwd: agent.workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: {
-        ...process.env,
-        EKLAVYA_AGENT_ID: agent.id,
-        EKLAVYA_PROJECT_ID: this.projectId,
-        EKLAVYA_AGENT_TYPE: agent.type,
-        EKLAVYA_PROMPT_ID: agent.promptId || '',
-      },
+    const proc = runtime.launch({
+      agentId: agent.id,
+      projectId: this.projectId,
+      agentType: agent.type,
+      workingDirectory: agent.workingDirectory!,
+      promptId: agent.promptId,
+      taskDescription,
+      model: agent.model,
+      permissionSettings,
     });
 
-    proc.on('exit', async (code) => {
-      const success = code === 0;
+    this.emit('agent:runtime', { agentId: agent.id, runtime: runtime.name });
+
+    // Parse structured output for usage, tool calls and the result block
+    const parser = this.attachOutputParser(agent, proc);
+
+    // A failed spawn emits 'error' and then 'close'; the outcome of the run
+    // is recorded once, at close
+    let processError: Error | undefined;
+
+    proc.on('close', async (code) => {
       const entry = this.agents.get(agent.id);
+      const summary = parser.getSummary();
+
+      // A reported result overrides the exit code when the agent says it failed
+      const success = !processError && code === 0 && (summary.result ? summary.result.success : true);
+
+      // Tool calls still waiting on a decision will never run
+      gate?.abort();
 
+      // Make sure usage has been recorded before the outcome is computed
+      await this.drainPendingWrites(agent.id);
+      if (this.parsers.get(agent.id) === parser) {
+        this.parsers.delete(agent.id);
+      }
+      if (gate && this.gates.get(agent.id) === gate) {
+        this.gates.delete(agent.id);
+        await removePermissionGate(agent.id).catch(() => undefined);
+      }
+
+      // A terminated agent has already recorded its outcome, and one whose
+      // spawn failed before it was registered has nothing to record it on;
+      // either way there is no entry and recordAgentOutcome would only warn
       if (entry) {
         // Record outcome with RL feedback
-        const defaultMetrics = {
-          tasksCompleted: success ? 1 : 0,
-          tasksFailed: success ? 0 : 1,
-          tokensUsed: 0,
-          executionTimeMs: Date.now() - entry.startTime,
-        };
         await this.recordAgentOutcome({
           agentId: agent.id,
           promptId: agent.promptId || '',
           success,
           taskId: agent.currentTaskId,
           metrics: {
-            ...defaultMetrics,
-            ...(entry.agent.metrics || {}),
+            ...entry.agent.metrics,
+            tasksCompleted: success ? 1 : 0,
+            tasksFailed: success ? 0 : 1,
+            tokensUsed: summary.totalTokens,
+            executionTimeMs: Date.now() - entry.startTime,
+            apiCalls: summary.apiCalls,
+            toolCalls: summary.toolCalls,
+            filesModified: summary.filesModified.length,
+          },
+          context: {
+            exitCode: code,
+            model: summary.model,
+            inputTokens: summary.inputTokens,
+            outputTokens: summary.outputTokens,
+            toolCallsByName: summary.toolCallsByName,
+            filesModified: summary.filesModified,
+            result: summary.result?.text?.slice(0, 2000),
+            error: processError?.message,
           },
-          context: { exitCode: code },
         });
       }
 
-      this.emit('agent:exited', { agent, code, success });
+      this.emit('agent:exited', { agent, code, success, summary });
     });
 
-    proc.on('error', async (error) => {
-      await this.recordAgentOutcome({
-        agentId: agent.id,
-        promptId: agent.promptId || '',
-        success: false,
-        taskId: agent.currentTaskId,
-        metrics: {
-          tasksCompleted: 0,
-          tasksFailed: 1,
-          tokensUsed: 0,
-          executionTimeMs: Date.now() - (this.agents.get(agent.id)?.startTime || Date.now()),
-        },
-        context: { error: error.message },
-      });
-
+    proc.on('error', (error) => {
+      processError = error;
       this.emit('agent:error', { agent, error });
     });
 
@@ -452,6 +556,173 @@ export class AgentManager extends EventEmitter {
     return proc;
   }
 
+  /**
+   * Wire an output parser to an agent process so usage flows into the
+   * cost tracker, tool calls and results into execution_logs, and both
+   * into the agent's metrics.
+   */
+  private attachOutputParser(agent: RLAgent, proc: ChildProcess): AgentOutputParser {
+    const parser = new AgentOutputParser();
+
+    // Steering is handed over, and a stepped agent paused, as each turn starts
+    parser.on('turn', () => {
+      this.trackPendingWrite(agent.id, this.handleTurn(agent, proc));
+    });
+
+    parser.on('usage', (usage: ParsedUsage) => {
+      this.trackPendingWrite(agent.id, this.recordTokenUsage(
+        agent.id,
+        usage.model || agent.model || this.config.defaultModel,
+        usage.inputTokens,
+        usage.outputTokens,
+        agent.currentTaskId
+      ));
+    });
+
+    parser.on('tool', (call: ParsedToolCall) => {
+      this.trackPendingWrite(agent.id, this.logExecution(agent, 'info', `Tool call: ${call.name}`, {
+        tool: call.name,
+        files: call.files,
+        modifiesFiles: call.modifiesFiles,
+      }));
+      this.emit('agent:tool', { agentId: agent.id, call });
+
+      if (this.config.actionApproval !== false) {
+        this.trackPendingWrite(agent.id, this.gateToolCall(agent, call));
+      }
+    });
+
+    parser.on('result', (result: ParsedResult) => {
+      this.trackPendingWrite(agent.id, this.logExecution(
+        agent,
+        result.success ? 'info' : 'error',
+        result.success ? 'Agent reported success' : 'Agent reported failure',
+        { ...result, text: result.text?.slice(0, 2000) }
+      ));
+      this.emit('agent:result', { agentId: agent.id, result });
+      this.trackPendingWrite(agent.id, this.handleResult(agent, proc));
+    });
+
+    parser.on('line', ({ stream, text }: ParsedLine) => {
+      if (stream === 'stderr') {
+        this.trackPendingWrite(agent.id, this.logExecution(agent, 'warn', text.slice(0, 2000)));
+      }
+      this.emit('agent:output', { agentId: agent.id, stream, text });
+    });
+
+    parser.attach(proc);
+    this.parsers.set(agent.id, parser);
+
+    return parser;
+  }
+
+  private async handleTurn(agent: RLAgent, proc: ChildProcess): Promise<void> {
+    try {
+      const { delivered, paused } = await getAgentControlService().handleTurn(agent.id, proc.stdin);
+      if (delivered > 0) {
+        await this.logExecution(agent, 'info', `Delivered ${delivered} steering instruction(s)`);
+      }
+      if (paused) {
+        this.emit('agent:paused', { agentId: agent.id, reason: 'step' });
+      }
+    } catch (error) {
+      console.error(`Failed to handle turn for agent ${agent.id}:`, error);
+    }
+  }
+
+  /**
+   * Hand over steering that came in during the run, or close stdin so the
+   * agent can exit
+   */
+  private async handleResult(agent: RLAgent, proc: ChildProcess): Promise<void> {
+    try {
+      const { delivered } = await getAgentControlService().handleResult(agent.id, proc.stdin);
+      if (delivered > 0) {
+        await this.logExecution(agent, 'info', `Delivered ${delivered} steering instruction(s) after the result`);
+      }
+    } catch (error) {
+      console.error(`Failed to handle result for agent ${agent.id}:`, error);
+    }
+  }
+
+  /**
+   * Queue risky tool calls for an operator's decision. Behind a permission
+   * gate every call waits for its decision file: safe calls are released
+   * at once, risky ones when decided. Without one the agent is paused.
+   */
+  private async gateToolCall(agent: RLAgent, call: ParsedToolCall): Promise<void> {
+    const gate = this.gates.get(agent.id);
+    const control = getAgentControlService();
+
+    try {
+      const action = await control.gateToolCall(agent.id, call, { held: !!gate });
+      if (action) {
+        await this.logExecution(agent, 'warn', `Awaiting approval: ${action.description}`, { actionId: action.id });
+        this.emit('agent:action-requested', { agentId: agent.id, action });
+      }
+
+      // The hook refuses a call without an id by itself
+      if (!gate || !call.id) return;
+
+      const decided = action ? await control.waitForDecision(action.id, { signal: gate.signal }) : undefined;
+      await writeGateDecision(agent.id, call.id, decided?.status === 'denied'
+        ? { allow: false, reason: `Denied by an operator${decided.decisionReason ? `: ${decided.decisionReason}` : ''}` }
+        : { allow: true });
+    } catch (error) {
+      if (gate?.signal.aborted) return;
+      console.error(`Failed to gate tool call for agent ${agent.id}:`, error);
+
+      // A call that could not be checked must not run
+      if (gate && call.id) {
+        await writeGateDecision(agent.id, call.id, {
+          allow: false,
+          reason: 'The tool call could not be checked for approval',
+        }).catch(() => undefined);
+      }
+    }
+  }
+
+  private trackPendingWrite(agentId: string, write: Promise<void>): void {
+    const pending = this.pendingWrites.get(agentId) || [];
+    pending.push(write);
+    this.pendingWrites.set(agentId, pending);
+  }
+
+  private async drainPendingWrites(agentId: string): Promise<void> {
+    const pending = this.pendingWrites.get(agentId) || [];
+    this.pendingWrites.delete(agentId);
+    await Promise.allSettled(pending);
+  }
+
+  /**
+   * Write an agent execution log entry
+   */
+  private async logExecution(
+    agent: RLAgent,
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.query(
+        `INSERT INTO execution_logs (project_id, agent_id, task_id, log_level, message, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [this.projectId, agent.id, agent.currentTaskId || null, level, message, JSON.stringify(metadata || {})]
+      );
+    } catch (error) {
+      // Non-critical, just log the error
+      console.error('Failed to log execution:', error);
+    }
+  }
+
+  /**
+   * Get the parsed output summary for an agent's current run
+   */
+  getOutputSummary(agentId: string): AgentOutputSummary | undefined {
+    return this.parsers.get(agentId)?.getSummary();
+  }
+
   async terminateAgent(agentId: string, reason?: string): Promise<void> {
     const entry = this.agents.get(agentId);
     if (!entry) return;
@@ -464,6 +735,7 @@ export class AgentManager extends EventEmitter {
     // Kill process if running
     if (process && !process.killed) {
       process.kill('SIGTERM');
+      process.kill('SIGCONT');
 
       // Force kill after 5 seconds
       setTimeout(() => {
@@ -490,6 +762,7 @@ export class AgentManager extends EventEmitter {
 
     await this.updateAgentStatus(agentId, 'terminated');
     this.agents.delete(agentId);
+    this.parsers.delete(agentId);
 
     this.emit('agent:terminated', { agent, reason });
   }
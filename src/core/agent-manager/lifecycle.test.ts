@@ -10,6 +10,7 @@ import {
   getLifecycleManager,
   initializeLifecycleManager,
 } from './lifecycle.js';
+import { initializeRuntimeRegistry, ScriptedRuntime } from './runtime.js';
 
 describe('AgentLifecycleManager', () => {
   let manager: AgentLifecycleManager;
@@ -41,6 +42,10 @@ describe('AgentLifecycleManager', () => {
     );
     testAgentId = agentResult.rows[0].id;
 
+    // Run agents with the scripted runtime so no model CLI is needed. Exits
+    // are supervised, so keep them alive for as long as the tests look at them.
+    initializeRuntimeRegistry({ default: 'scripted' }).register(new ScriptedRuntime({ lingerMs: 30000 }));
+
     // Initialize manager
     manager = initializeLifecycleManager();
   });
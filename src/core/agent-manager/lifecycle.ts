@@ -3,19 +3,37 @@
  *
  * Demo₄: Manages the complete lifecycle of agent processes:
  * - Process spawning and tracking
+ * - Runtime selection per agent type / project
  * - Health monitoring
  * - Resource tracking
- * - Graceful termination
- * - Crash recovery
+ * - Graceful termination (SIGTERM, escalating to SIGKILL)
+ * - Crash recovery (restart policy with backoff)
+ * - Sandbox violations, reported as unhealthy agents
  *
  * This module works alongside the existing AgentManager to provide
  * enhanced lifecycle management capabilities.
  */
 
 import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import fs from 'fs/promises';
 import { getDatabase } from '../../lib/database.js';
 import { getCheckpointManager } from '../checkpoint/index.js';
-import type { AgentType } from '../../types/index.js';
+import { getRuntimeRegistry } from './runtime.js';
+import { getSandboxEnforcer, type SandboxProfile, type SandboxViolation } from './sandbox.js';
+import {
+  cpuPercentBetween,
+  readProcessSample,
+  resolveRestartPolicy,
+  restartDelayMs,
+  shouldRestart,
+  stopProcess,
+  waitForExit,
+  type ProcessExit,
+  type ProcessSample,
+  type RestartPolicy,
+} from './supervisor.js';
+import type { AgentType, AgentRuntimeConfig } from '../../types/index.js';
 
 // ============================================================================
 // Types & Interfaces
@@ -42,6 +60,7 @@ export interface AgentProcess {
   startedAt: Date | null;
   stoppedAt: Date | null;
   exitCode: number | null;
+  exitSignal: string | null;
   errorMessage: string | null;
   workingDirectory: string | null;
   environment: Record<string, string>;
@@ -72,12 +91,17 @@ export interface SpawnOptions {
   workingDirectory?: string;
   environment?: Record<string, string>;
   timeout?: number;
+  taskDescription?: string;
+  runtime?: AgentRuntimeConfig;  // Overrides the global runtime selection
+  restartPolicy?: Partial<RestartPolicy>;  // Overrides the manager's policy
+  sandbox?: Partial<SandboxProfile>;       // Adjusts the agent type's sandbox profile
 }
 
 export interface SpawnResult {
   success: boolean;
   processId?: string;
   pid?: number;
+  runtime?: string;
   error?: string;
 }
 
@@ -92,6 +116,8 @@ export interface TerminateResult {
   success: boolean;
   checkpointSaved: boolean;
   exitCode?: number;
+  signal?: string | null;
+  escalated?: boolean;  // Had to be SIGKILLed after ignoring SIGTERM
   error?: string;
 }
 
@@ -112,6 +138,12 @@ export interface AgentProcessStatus {
   uptimeSeconds: number | null;
 }
 
+export interface LifecycleManagerOptions {
+  restartPolicy?: Partial<RestartPolicy>;
+  resourceSampleIntervalMs?: number;  // 0 disables /proc sampling
+  terminationTimeoutMs?: number;      // SIGTERM grace period before SIGKILL
+}
+
 export interface LifecycleManagerStatus {
   running: boolean;
   totalAgents: number;
@@ -126,14 +158,14 @@ export interface LifecycleManagerStatus {
 // ============================================================================
 
 class AgentSpawner {
-  private nextPid = 10000; // Simulated PIDs start at 10000
+  private processes: Map<string, ChildProcess> = new Map();
 
   async spawn(options: SpawnOptions): Promise<SpawnResult> {
     const db = getDatabase();
 
     try {
       // Verify agent exists
-      const agentResult = await db.query<{ id: string; type: string; project_id: string }>(
+      const agentResult = await db.query<{ id: string; type: AgentType; project_id: string }>(
         `SELECT id, type, project_id FROM agents WHERE id = $1`,
         [options.agentId]
       );
@@ -157,11 +189,34 @@ class AgentSpawner {
         return { success: false, error: 'Project agent limit reached (max 10 concurrent agents)' };
       }
 
-      // Prepare working directory (simulated)
+      // Prepare working directory
       const workingDir = options.workingDirectory || `/tmp/eklavya/agents/${options.agentId}`;
+      await fs.mkdir(workingDir, { recursive: true });
+
+      // Launch through the runtime selected for this agent type / project
+      const runtime = await getRuntimeRegistry().resolveForProject(
+        agent.type,
+        agent.project_id,
+        options.runtime
+      );
+
+      const child = runtime.launch({
+        agentId: options.agentId,
+        projectId: agent.project_id,
+        agentType: agent.type,
+        workingDirectory: workingDir,
+        taskDescription: options.taskDescription,
+        environment: options.environment,
+        sandbox: options.sandbox,
+      });
 
-      // Generate simulated PID
-      const pid = this.nextPid++;
+      // Nothing reads a supervised agent's output, so drain the pipes to keep
+      // it from blocking once a pipe buffer fills
+      child.stdout?.resume();
+      child.stderr?.resume();
+
+      const pid = await this.waitForSpawn(child);
+      this.processes.set(options.agentId, child);
 
       // Create process record using database function
       const processResult = await db.query<{ spawn_agent_process: string }>(
@@ -171,9 +226,6 @@ class AgentSpawner {
 
       const processId = processResult.rows[0].spawn_agent_process;
 
-      // Simulate startup delay
-      await new Promise(resolve => setTimeout(resolve, 50));
-
       // Update to running status
       await db.query(
         `SELECT update_agent_process($1, 'running', $2)`,
@@ -184,6 +236,7 @@ class AgentSpawner {
         success: true,
         processId,
         pid,
+        runtime: runtime.name,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown spawn error';
@@ -191,6 +244,39 @@ class AgentSpawner {
     }
   }
 
+  /**
+   * Resolve with the PID once the OS has started the process.
+   */
+  private waitForSpawn(child: ChildProcess): Promise<number> {
+    return new Promise((resolve, reject) => {
+      child.once('spawn', () => resolve(child.pid!));
+      child.once('error', reject);
+    });
+  }
+
+  getProcess(agentId: string): ChildProcess | undefined {
+    return this.processes.get(agentId);
+  }
+
+  kill(agentId: string, signal: NodeJS.Signals = 'SIGTERM'): void {
+    const child = this.processes.get(agentId);
+    if (child && child.exitCode === null && !child.killed) {
+      child.kill(signal);
+      // Let a paused agent see the signal
+      child.kill('SIGCONT');
+    }
+    this.processes.delete(agentId);
+  }
+
+  /**
+   * Stop tracking a process that has already exited.
+   */
+  release(agentId: string, child: ChildProcess): void {
+    if (this.processes.get(agentId) === child) {
+      this.processes.delete(agentId);
+    }
+  }
+
   async prepareEnvironment(agentId: string, agentType: AgentType): Promise<Record<string, string>> {
     return {
       AGENT_ID: agentId,
@@ -374,7 +460,11 @@ class AgentMonitor extends EventEmitter {
 // ============================================================================
 
 class AgentTerminator {
-  async terminate(options: TerminateOptions): Promise<TerminateResult> {
+  /**
+   * Stop the agent's process (if this manager owns it) and record how it
+   * exited.
+   */
+  async terminate(options: TerminateOptions, child?: ChildProcess): Promise<TerminateResult> {
     const db = getDatabase();
     let checkpointSaved = false;
 
@@ -414,19 +504,32 @@ class AgentTerminator {
         }
       }
 
-      // Graceful termination (simulated)
-      if (options.graceful !== false) {
-        // Give agent time to clean up (simulated)
-        await new Promise(resolve => setTimeout(resolve, 100));
+      // Graceful termination gives the agent the timeout to clean up after SIGTERM
+      let exitCode = 0;
+      let signal: NodeJS.Signals | null = null;
+      let escalated = false;
+      let message: string | null = null;
+
+      if (child) {
+        const timeoutMs = options.graceful !== false ? options.timeoutMs ?? 5000 : 0;
+        const exit = await stopProcess(child, timeoutMs);
+        ({ exitCode, signal, escalated } = exit);
+        if (escalated) {
+          message = `Did not exit within ${timeoutMs}ms of SIGTERM; killed`;
+        }
       }
 
-      // Update process status
-      await db.query(`SELECT terminate_agent_process($1, 0, NULL)`, [options.agentId]);
+      await db.query(
+        `SELECT terminate_agent_process($1, $2, $3, $4)`,
+        [options.agentId, exitCode, message, signal]
+      );
 
       return {
         success: true,
         checkpointSaved,
-        exitCode: 0,
+        exitCode,
+        signal,
+        escalated,
       };
     } catch (error) {
       return {
@@ -437,16 +540,20 @@ class AgentTerminator {
     }
   }
 
-  async forceKill(agentId: string): Promise<boolean> {
+  async forceKill(agentId: string, child?: ChildProcess): Promise<boolean> {
     const db = getDatabase();
 
     try {
+      // -9 when there is no process of ours to observe
+      const exit = child ? await stopProcess(child, 0) : null;
+
       // Force update all active processes to terminated
       await db.query(
         `UPDATE agent_processes
-         SET status = 'terminated', stopped_at = NOW(), exit_code = -9, error_message = 'Force killed'
+         SET status = 'terminated', stopped_at = NOW(), exit_code = $2, exit_signal = $3,
+             error_message = 'Force killed'
          WHERE agent_id = $1 AND status IN ('pending', 'starting', 'running', 'stopping')`,
-        [agentId]
+        [agentId, exit?.exitCode ?? -9, exit?.signal ?? 'SIGKILL']
       );
 
       // Update agent status
@@ -469,24 +576,59 @@ class AgentTerminator {
 // Agent Lifecycle Manager (Main Orchestrator)
 // ============================================================================
 
+/**
+ * A process this manager spawned and is watching
+ */
+interface SupervisedProcess {
+  agentId: string;
+  processId: string;
+  child: ChildProcess;
+  spawnOptions: SpawnOptions;
+  restartPolicy: RestartPolicy;
+  stopping: boolean;
+  sampler?: NodeJS.Timeout;
+  lastSample: ProcessSample | null;
+}
+
 export class AgentLifecycleManager extends EventEmitter {
   private spawner: AgentSpawner;
   private monitor: AgentMonitor;
   private terminator: AgentTerminator;
   private running = false;
-
-  constructor() {
+  private restartPolicy: RestartPolicy;
+  private resourceSampleIntervalMs: number;
+  private terminationTimeoutMs: number;
+  private supervised: Map<string, SupervisedProcess> = new Map();
+  private restartCounts: Map<string, number> = new Map();
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(options: LifecycleManagerOptions = {}) {
     super();
     this.spawner = new AgentSpawner();
     this.monitor = new AgentMonitor();
     this.terminator = new AgentTerminator();
+    this.restartPolicy = resolveRestartPolicy(options.restartPolicy);
+    this.resourceSampleIntervalMs = options.resourceSampleIntervalMs ?? 10000;
+    this.terminationTimeoutMs = options.terminationTimeoutMs ?? 5000;
 
     // Forward monitor events
     this.monitor.on('unhealthy', data => this.emit('agent-unhealthy', data));
     this.monitor.on('monitoring-started', data => this.emit('monitoring-started', data));
     this.monitor.on('monitoring-stopped', data => this.emit('monitoring-stopped', data));
+
+    getSandboxEnforcer().on('health', this.onSandboxHealth);
   }
 
+  /**
+   * The sandbox has already recorded the health check; surface it for the
+   * agents this manager owns.
+   */
+  private onSandboxHealth = (data: { agentId: string; health: AgentHealth; violation: SandboxViolation }) => {
+    if (this.supervised.has(data.agentId)) {
+      this.emit('agent-unhealthy', data);
+    }
+  };
+
   async start(): Promise<void> {
     this.running = true;
     this.emit('manager-started');
@@ -494,6 +636,18 @@ export class AgentLifecycleManager extends EventEmitter {
 
   async stop(): Promise<void> {
     this.running = false;
+
+    getSandboxEnforcer().off('health', this.onSandboxHealth);
+
+    // Agents keep running; only pending restarts and sampling stop
+    for (const timer of this.restartTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.clear();
+    for (const entry of this.supervised.values()) {
+      this.stopSampling(entry);
+    }
+
     this.emit('manager-stopped');
   }
 
@@ -525,6 +679,8 @@ export class AgentLifecycleManager extends EventEmitter {
     const result = await this.spawner.spawn({ ...options, environment });
 
     if (result.success) {
+      await this.supervise(options, result.processId!);
+
       // Start health monitoring
       await this.monitor.startMonitoring(options.agentId);
       this.emit('agent-spawned', { agentId: options.agentId, ...result });
@@ -538,14 +694,17 @@ export class AgentLifecycleManager extends EventEmitter {
   async terminateAgent(agentId: string, graceful = true): Promise<TerminateResult> {
     // Stop monitoring
     this.monitor.stopMonitoring(agentId);
+    const entry = this.release(agentId);
 
     const result = await this.terminator.terminate({
       agentId,
       graceful,
+      timeoutMs: this.terminationTimeoutMs,
       saveCheckpoint: true,
-    });
+    }, entry?.child);
 
     if (result.success) {
+      this.spawner.kill(agentId, graceful ? 'SIGTERM' : 'SIGKILL');
       await this.terminator.cleanup(agentId);
       this.emit('agent-terminated', { agentId, ...result });
     } else {
@@ -557,9 +716,11 @@ export class AgentLifecycleManager extends EventEmitter {
 
   async forceKillAgent(agentId: string): Promise<boolean> {
     this.monitor.stopMonitoring(agentId);
-    const success = await this.terminator.forceKill(agentId);
+    const entry = this.release(agentId);
+    const success = await this.terminator.forceKill(agentId, entry?.child);
 
     if (success) {
+      this.spawner.kill(agentId, 'SIGKILL');
       await this.terminator.cleanup(agentId);
       this.emit('agent-killed', { agentId });
     }
@@ -584,7 +745,7 @@ export class AgentLifecycleManager extends EventEmitter {
     const restartCount = countResult.rows[0]?.increment_restart_count || 0;
 
     // Check max restarts
-    if (restartCount >= 5) {
+    if (restartCount >= this.restartPolicy.maxRestarts) {
       return { success: false, error: 'Maximum restart limit reached' };
     }
 
@@ -598,6 +759,159 @@ export class AgentLifecycleManager extends EventEmitter {
     return result;
   }
 
+  // ========== Supervision ==========
+
+  /**
+   * Watch a freshly spawned process: sample its resources and handle its
+   * exit when nobody asked it to stop.
+   */
+  private async supervise(options: SpawnOptions, processId: string): Promise<void> {
+    const child = this.spawner.getProcess(options.agentId);
+    if (!child) return;
+
+    const restartPolicy = resolveRestartPolicy(this.restartPolicy, options.restartPolicy);
+    const restarts = this.restartCounts.get(options.agentId) || 0;
+    await getDatabase().query(
+      `UPDATE agent_processes SET restart_count = $2, max_restarts = $3 WHERE id = $1`,
+      [processId, restarts, restartPolicy.maxRestarts]
+    );
+
+    const entry: SupervisedProcess = {
+      agentId: options.agentId,
+      processId,
+      child,
+      spawnOptions: options,
+      restartPolicy,
+      stopping: false,
+      lastSample: null,
+    };
+
+    // Spawning again replaces the agent's process (its record is already terminated)
+    const previous = this.supervised.get(options.agentId);
+    if (previous) {
+      previous.stopping = true;
+      this.stopSampling(previous);
+      previous.child.kill('SIGTERM');
+      previous.child.kill('SIGCONT');
+    }
+
+    this.supervised.set(options.agentId, entry);
+    this.startSampling(entry);
+
+    void waitForExit(child).then(exit => this.handleExit(entry, exit)).catch(error => {
+      this.emit('supervision-error', { agentId: entry.agentId, error });
+    });
+  }
+
+  /**
+   * Stop supervising an agent because we are about to stop it ourselves.
+   */
+  private release(agentId: string): SupervisedProcess | undefined {
+    const timer = this.restartTimers.get(agentId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(agentId);
+    }
+    this.restartCounts.delete(agentId);
+
+    const entry = this.supervised.get(agentId);
+    if (entry) {
+      entry.stopping = true;
+      this.stopSampling(entry);
+      this.supervised.delete(agentId);
+    }
+    return entry;
+  }
+
+  private async handleExit(entry: SupervisedProcess, exit: ProcessExit): Promise<void> {
+    this.stopSampling(entry);
+    if (entry.stopping || this.supervised.get(entry.agentId) !== entry) {
+      return;
+    }
+
+    this.supervised.delete(entry.agentId);
+    this.spawner.release(entry.agentId, entry.child);
+    this.monitor.stopMonitoring(entry.agentId);
+
+    const reason = exit.signal ? `Killed by ${exit.signal}` : `Exited with code ${exit.exitCode}`;
+    await getDatabase().query(
+      `SELECT update_agent_process($1, $2, NULL, $3, $4, $5)`,
+      [entry.processId, exit.crashed ? 'crashed' : 'stopped', exit.exitCode, exit.crashed ? reason : null, exit.signal]
+    );
+
+    const event = { agentId: entry.agentId, processId: entry.processId, ...exit };
+    this.emit('agent-exited', event);
+    if (exit.crashed) {
+      this.emit('agent-crashed', event);
+    }
+
+    const restarts = this.restartCounts.get(entry.agentId) || 0;
+    if (!shouldRestart(entry.restartPolicy, exit, restarts)) {
+      if (exit.crashed && entry.restartPolicy.mode !== 'never') {
+        await getDatabase().query(
+          `SELECT update_agent_process($1, 'failed', NULL, NULL, $2)`,
+          [entry.processId, `${reason}; restart limit of ${entry.restartPolicy.maxRestarts} reached`]
+        );
+        this.emit('agent-restart-exhausted', { ...event, restarts });
+      }
+      this.restartCounts.delete(entry.agentId);
+      return;
+    }
+
+    const delayMs = restartDelayMs(entry.restartPolicy, restarts);
+    this.restartCounts.set(entry.agentId, restarts + 1);
+    this.emit('agent-restart-scheduled', { agentId: entry.agentId, attempt: restarts + 1, delayMs });
+
+    const timer = setTimeout(async () => {
+      this.restartTimers.delete(entry.agentId);
+      try {
+        const result = await this.spawnAgent(entry.spawnOptions);
+        if (result.success) {
+          this.emit('agent-restarted', { agentId: entry.agentId, restartCount: restarts + 1, ...result });
+        } else {
+          this.restartCounts.delete(entry.agentId);
+        }
+      } catch (error) {
+        this.restartCounts.delete(entry.agentId);
+        this.emit('supervision-error', { agentId: entry.agentId, error });
+      }
+    }, delayMs);
+    this.restartTimers.set(entry.agentId, timer);
+  }
+
+  /**
+   * Record CPU and RSS from /proc into agent_resources on an interval.
+   */
+  private startSampling(entry: SupervisedProcess): void {
+    const pid = entry.child.pid;
+    if (!pid || this.resourceSampleIntervalMs <= 0) return;
+
+    void readProcessSample(pid).then(sample => { entry.lastSample ??= sample; });
+
+    entry.sampler = setInterval(async () => {
+      const sample = await readProcessSample(pid);
+      if (!sample || !entry.sampler) return;
+
+      const cpuPercent = entry.lastSample ? cpuPercentBetween(entry.lastSample, sample) : 0;
+      const memoryMb = Math.round((sample.rssBytes / (1024 * 1024)) * 100) / 100;
+      entry.lastSample = sample;
+
+      try {
+        await this.monitor.recordResourceUsage(entry.agentId, cpuPercent, memoryMb);
+        this.emit('resources-sampled', { agentId: entry.agentId, pid, cpuPercent, memoryMb });
+      } catch {
+        // The next sample will try again
+      }
+    }, this.resourceSampleIntervalMs);
+  }
+
+  private stopSampling(entry: SupervisedProcess): void {
+    if (entry.sampler) {
+      clearInterval(entry.sampler);
+      entry.sampler = undefined;
+    }
+  }
+
   // ========== Status Methods ==========
 
   async getAgentStatus(agentId: string): Promise<AgentProcessStatus | null> {
@@ -873,7 +1187,7 @@ export function getLifecycleManager(): AgentLifecycleManager {
   return lifecycleManagerInstance;
 }
 
-export function initializeLifecycleManager(): AgentLifecycleManager {
-  lifecycleManagerInstance = new AgentLifecycleManager();
+export function initializeLifecycleManager(options?: LifecycleManagerOptions): AgentLifecycleManager {
+  lifecycleManagerInstance = new AgentLifecycleManager(options);
   return lifecycleManagerInstance;
 }
@@ -0,0 +1,183 @@
+/**
+ * Tests for Agent Output Parser
+ * Stream-json token accounting, tool calls and results
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import os from 'os';
+import { AgentOutputParser, type ParsedLine, type ParsedUsage } from './output-parser.js';
+import { ScriptedRuntime } from './runtime.js';
+
+const line = (event: Record<string, unknown>): string => JSON.stringify(event) + '\n';
+
+describe('AgentOutputParser', () => {
+  let parser: AgentOutputParser;
+
+  beforeEach(() => {
+    parser = new AgentOutputParser();
+  });
+
+  describe('Token usage', () => {
+    it('should count usage once per message id', () => {
+      const usages: ParsedUsage[] = [];
+      parser.on('usage', usage => usages.push(usage));
+
+      const message = {
+        id: 'msg_1',
+        model: 'claude-sonnet-4-20250514',
+        usage: { input_tokens: 100, cache_read_input_tokens: 50, output_tokens: 20 },
+        content: [{ type: 'text', text: 'Working on it' }],
+      };
+      parser.feed(line({ type: 'assistant', message }));
+      parser.feed(line({ type: 'assistant', message: { ...message, content: [] } }));
+
+      const summary = parser.getSummary();
+      expect(usages).toHaveLength(1);
+      expect(summary.model).toBe('claude-sonnet-4-20250514');
+      expect(summary.inputTokens).toBe(150);
+      expect(summary.cachedInputTokens).toBe(50);
+      expect(summary.outputTokens).toBe(20);
+      expect(summary.totalTokens).toBe(170);
+      expect(summary.apiCalls).toBe(1);
+    });
+
+    it('should number turns once per model response', () => {
+      const turns: number[] = [];
+      parser.on('turn', turn => turns.push(turn));
+
+      parser.feed(line({ type: 'assistant', message: { id: 'msg_1', content: [] } }));
+      parser.feed(line({ type: 'assistant', message: { id: 'msg_1', content: [] } }));
+      parser.feed(line({ type: 'user', message: { content: [] } }));
+      parser.feed(line({ type: 'assistant', message: { id: 'msg_2', content: [] } }));
+
+      expect(turns).toEqual([1, 2]);
+    });
+
+    it('should fall back to result usage when no assistant usage was seen', () => {
+      parser.feed(line({ type: 'system', subtype: 'init', model: 'claude-haiku' }));
+      parser.feed(line({
+        type: 'result',
+        subtype: 'success',
+        result: 'done',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+
+      const summary = parser.getSummary();
+      expect(summary.model).toBe('claude-haiku');
+      expect(summary.totalTokens).toBe(15);
+      expect(summary.apiCalls).toBe(1);
+    });
+
+    it('should not double count result usage after assistant usage', () => {
+      parser.feed(line({
+        type: 'assistant',
+        message: { id: 'msg_1', usage: { input_tokens: 10, output_tokens: 5 } },
+      }));
+      parser.feed(line({ type: 'result', subtype: 'success', usage: { input_tokens: 10, output_tokens: 5 } }));
+
+      expect(parser.getSummary().totalTokens).toBe(15);
+    });
+  });
+
+  describe('Tool calls', () => {
+    it('should record tool calls and the files they touch', () => {
+      parser.feed(line({
+        type: 'assistant',
+        message: {
+          id: 'msg_1',
+          content: [
+            { type: 'tool_use', id: 'tool_1', name: 'Read', input: { file_path: 'src/a.ts' } },
+            { type: 'tool_use', id: 'tool_2', name: 'Edit', input: { file_path: 'src/b.ts' } },
+            { type: 'tool_use', id: 'tool_3', name: 'Edit', input: { file_path: 'src/b.ts' } },
+            { type: 'tool_use', id: 'tool_4', name: 'Bash', input: { command: 'npm test' } },
+          ],
+        },
+      }));
+
+      const summary = parser.getSummary();
+      expect(summary.toolCalls).toBe(4);
+      expect(summary.toolCallsByName).toEqual({ Read: 1, Edit: 2, Bash: 1 });
+      expect(summary.filesTouched).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(summary.filesModified).toEqual(['src/b.ts']);
+    });
+  });
+
+  describe('Results', () => {
+    it('should parse a successful result block', () => {
+      parser.feed(line({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        result: 'All tasks complete',
+        num_turns: 4,
+        duration_ms: 1200,
+        total_cost_usd: 0.02,
+      }));
+
+      expect(parser.getSummary().result).toEqual({
+        success: true,
+        text: 'All tasks complete',
+        numTurns: 4,
+        durationMs: 1200,
+        costUsd: 0.02,
+      });
+    });
+
+    it('should mark error results as unsuccessful', () => {
+      parser.feed(line({ type: 'result', subtype: 'error_max_turns', is_error: true }));
+      expect(parser.getSummary().result?.success).toBe(false);
+    });
+  });
+
+  describe('Line handling', () => {
+    it('should surface plain text and stderr as lines', () => {
+      const lines: ParsedLine[] = [];
+      parser.on('line', l => lines.push(l));
+
+      parser.feed('plain output\n');
+      parser.feed(line({ type: 'result' }), 'stderr');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toEqual({ stream: 'stdout', text: 'plain output' });
+      expect(lines[1].stream).toBe('stderr');
+      expect(parser.getSummary().result).toBeUndefined();
+    });
+
+    it('should reassemble lines split across chunks', () => {
+      const text = line({ type: 'assistant', message: { id: 'msg_1', usage: { input_tokens: 7, output_tokens: 3 } } });
+      parser.feed(text.slice(0, 12));
+      parser.feed(text.slice(12, 30));
+      expect(parser.getSummary().apiCalls).toBe(0);
+
+      parser.feed(text.slice(30));
+      expect(parser.getSummary().totalTokens).toBe(10);
+    });
+
+    it('should parse an unterminated final line on flush', () => {
+      parser.feed(JSON.stringify({ type: 'result', subtype: 'success' }));
+      expect(parser.getSummary().result).toBeUndefined();
+
+      parser.flush();
+      expect(parser.getSummary().result?.success).toBe(true);
+    });
+  });
+
+  describe('Attaching to a process', () => {
+    it('should read the default scripted run', async () => {
+      const child = new ScriptedRuntime().launch({
+        agentId: 'agent-1',
+        projectId: 'project-1',
+        agentType: 'tester',
+        workingDirectory: os.tmpdir(),
+      });
+      parser.attach(child);
+
+      await new Promise(resolve => child.on('close', resolve));
+
+      const summary = parser.getSummary();
+      expect(summary.model).toBe('scripted');
+      expect(summary.result?.success).toBe(true);
+      expect(summary.result?.text).toBe('tester agent finished');
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Agent Output Parser
+ *
+ * Reads an agent's stdout/stderr line by line and extracts:
+ * - Token usage per model call
+ * - Tool calls and the files they touch
+ * - The final result block
+ *
+ * The canonical format is the Claude CLI's `stream-json` output: one JSON
+ * object per line with `type` of `system`, `assistant`, `user` or `result`.
+ * Any runtime that emits the same shape gets usage and cost accounting for
+ * free; non-JSON lines are surfaced as plain text.
+ */
+
+import { EventEmitter } from 'events';
+import type { ChildProcess } from 'child_process';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface ParsedUsage {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+}
+
+export interface ParsedToolCall {
+  id?: string;
+  name: string;
+  input: Record<string, unknown>;
+  files: string[];
+  modifiesFiles: boolean;
+}
+
+export interface ParsedResult {
+  success: boolean;
+  text?: string;
+  numTurns?: number;
+  durationMs?: number;
+  costUsd?: number;
+}
+
+export interface ParsedLine {
+  stream: OutputStream;
+  text: string;
+}
+
+export interface AgentOutputSummary {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+  apiCalls: number;
+  toolCalls: number;
+  toolCallsByName: Record<string, number>;
+  filesTouched: string[];
+  filesModified: string[];
+  result?: ParsedResult;
+  linesParsed: number;
+}
+
+// Tools whose file arguments are written rather than read
+const WRITE_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+// Input keys that carry a file path
+const FILE_INPUT_KEYS = ['file_path', 'notebook_path', 'path'];
+
+// ============================================================================
+// Output Parser
+// ============================================================================
+
+/**
+ * Stateful line parser for one agent run.
+ *
+ * Events:
+ * - `turn` (number): a new model response started, numbered from 1
+ * - `usage` (ParsedUsage): one model call's token usage
+ * - `tool` (ParsedToolCall): a tool invocation
+ * - `result` (ParsedResult): the final result block
+ * - `line` (ParsedLine): a line that isn't structured output
+ */
+export class AgentOutputParser extends EventEmitter {
+  private buffers: Record<OutputStream, string> = { stdout: '', stderr: '' };
+  private seenMessageIds: Set<string> = new Set();
+  private sawAssistantUsage = false;
+  private turns = 0;
+
+  private model?: string;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private cachedInputTokens = 0;
+  private apiCalls = 0;
+  private toolCallsByName: Record<string, number> = {};
+  private filesTouched: Set<string> = new Set();
+  private filesModified: Set<string> = new Set();
+  private result?: ParsedResult;
+  private linesParsed = 0;
+
+  /**
+   * Read a child process's stdout and stderr until they close.
+   */
+  attach(child: ChildProcess): void {
+    child.stdout?.on('data', (chunk: Buffer) => this.feed(chunk, 'stdout'));
+    child.stderr?.on('data', (chunk: Buffer) => this.feed(chunk, 'stderr'));
+    child.stdout?.on('end', () => this.flush('stdout'));
+    child.stderr?.on('end', () => this.flush('stderr'));
+  }
+
+  /**
+   * Feed a chunk of output; complete lines are parsed immediately.
+   */
+  feed(chunk: Buffer | string, stream: OutputStream = 'stdout'): void {
+    this.buffers[stream] += chunk.toString();
+
+    let newline = this.buffers[stream].indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffers[stream].slice(0, newline);
+      this.buffers[stream] = this.buffers[stream].slice(newline + 1);
+      this.parseLine(line, stream);
+      newline = this.buffers[stream].indexOf('\n');
+    }
+  }
+
+  /**
+   * Parse whatever is left in a stream's buffer.
+   */
+  flush(stream: OutputStream = 'stdout'): void {
+    const rest = this.buffers[stream];
+    this.buffers[stream] = '';
+    if (rest.length > 0) {
+      this.parseLine(rest, stream);
+    }
+  }
+
+  getSummary(): AgentOutputSummary {
+    const toolCalls = Object.values(this.toolCallsByName).reduce((sum, n) => sum + n, 0);
+
+    return {
+      model: this.model,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      cachedInputTokens: this.cachedInputTokens,
+      totalTokens: this.inputTokens + this.outputTokens,
+      apiCalls: this.apiCalls,
+      toolCalls,
+      toolCallsByName: { ...this.toolCallsByName },
+      filesTouched: Array.from(this.filesTouched),
+      filesModified: Array.from(this.filesModified),
+      result: this.result,
+      linesParsed: this.linesParsed,
+    };
+  }
+
+  private parseLine(rawLine: string, stream: OutputStream): void {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    this.linesParsed++;
+
+    const event = stream === 'stdout' ? this.parseJson(line) : null;
+    if (!event) {
+      this.emit('line', { stream, text: line } as ParsedLine);
+      return;
+    }
+
+    switch (event.type) {
+      case 'system':
+        if (typeof event.model === 'string') {
+          this.model = event.model;
+        }
+        break;
+
+      case 'assistant':
+        this.handleAssistant(event.message as Record<string, unknown> | undefined);
+        break;
+
+      case 'result':
+        this.handleResult(event);
+        break;
+
+      default:
+        // user/tool_result and unknown events carry nothing we account for
+        break;
+    }
+  }
+
+  private parseJson(line: string): Record<string, unknown> | null {
+    if (!line.startsWith('{')) return null;
+
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && typeof parsed.type === 'string') {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Not structured output
+    }
+    return null;
+  }
+
+  private handleAssistant(message: Record<string, unknown> | undefined): void {
+    if (!message) return;
+
+    if (typeof message.model === 'string') {
+      this.model = message.model;
+    }
+
+    // One model response may be streamed as several events sharing an id
+    const messageId = typeof message.id === 'string' ? message.id : undefined;
+    const firstSighting = !messageId || !this.seenMessageIds.has(messageId);
+    if (messageId) {
+      this.seenMessageIds.add(messageId);
+    }
+
+    if (firstSighting) {
+      this.emit('turn', ++this.turns);
+    }
+
+    if (firstSighting && message.usage && typeof message.usage === 'object') {
+      this.sawAssistantUsage = true;
+      this.recordUsage(message.usage as Record<string, unknown>);
+    }
+
+    const content = Array.isArray(message.content) ? message.content : [];
+    for (const block of content as Array<Record<string, unknown>>) {
+      if (block?.type === 'tool_use' && typeof block.name === 'string') {
+        this.recordToolCall(block);
+      }
+    }
+  }
+
+  private handleResult(event: Record<string, unknown>): void {
+    // Fall back to the cumulative usage when no per-call usage was streamed
+    if (!this.sawAssistantUsage && event.usage && typeof event.usage === 'object') {
+      this.recordUsage(event.usage as Record<string, unknown>);
+    }
+
+    this.result = {
+      success: event.is_error !== true && (event.subtype === undefined || event.subtype === 'success'),
+      text: typeof event.result === 'string' ? event.result : undefined,
+      numTurns: typeof event.num_turns === 'number' ? event.num_turns : undefined,
+      durationMs: typeof event.duration_ms === 'number' ? event.duration_ms : undefined,
+      costUsd: typeof event.total_cost_usd === 'number' ? event.total_cost_usd : undefined,
+    };
+
+    this.emit('result', this.result);
+  }
+
+  private recordUsage(usage: Record<string, unknown>): void {
+    const num = (value: unknown): number => (typeof value === 'number' ? value : 0);
+
+    const cachedInputTokens = num(usage.cache_read_input_tokens);
+    const parsed: ParsedUsage = {
+      model: this.model,
+      inputTokens: num(usage.input_tokens) + num(usage.cache_creation_input_tokens) + cachedInputTokens,
+      outputTokens: num(usage.output_tokens),
+      cachedInputTokens,
+    };
+
+    this.inputTokens += parsed.inputTokens;
+    this.outputTokens += parsed.outputTokens;
+    this.cachedInputTokens += parsed.cachedInputTokens;
+    this.apiCalls++;
+
+    this.emit('usage', parsed);
+  }
+
+  private recordToolCall(block: Record<string, unknown>): void {
+    const name = block.name as string;
+    const input = (block.input && typeof block.input === 'object' ? block.input : {}) as Record<string, unknown>;
+
+    const files = FILE_INPUT_KEYS
+      .map(key => input[key])
+      .filter((value): value is string => typeof value === 'string' && value.length > 0);
+
+    const modifiesFiles = WRITE_TOOLS.has(name);
+    for (const file of files) {
+      this.filesTouched.add(file);
+      if (modifiesFiles) {
+        this.filesModified.add(file);
+      }
+    }
+
+    this.toolCallsByName[name] = (this.toolCallsByName[name] || 0) + 1;
+
+    const call: ParsedToolCall = {
+      id: typeof block.id === 'string' ? block.id : undefined,
+      name,
+      input,
+      files,
+      modifiesFiles,
+    };
+    this.emit('tool', call);
+  }
+}
+
+// Factory function
+export function createOutputParser(): AgentOutputParser {
+  return new AgentOutputParser();
+}
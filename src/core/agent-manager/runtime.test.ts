@@ -0,0 +1,152 @@
+/**
+ * Tests for Agent Runtimes
+ * Runtime registry, the Claude CLI arguments and the scripted runtime
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { ChildProcess } from 'child_process';
+import {
+  AgentRuntimeRegistry,
+  ClaudeCliRuntime,
+  CommandRuntime,
+  ScriptedRuntime,
+  expandTemplate,
+  type AgentLaunchContext,
+} from './runtime.js';
+
+function collectOutput(child: ChildProcess): Promise<{ stdout: string; stderr: string; code: number | null }> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.on('data', chunk => { stdout += chunk; });
+    child.stderr?.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', code => resolve({ stdout, stderr, code }));
+  });
+}
+
+describe('AgentRuntimeRegistry', () => {
+  let registry: AgentRuntimeRegistry;
+
+  const context: AgentLaunchContext = {
+    agentId: 'agent-1',
+    projectId: 'project-1',
+    agentType: 'developer',
+    workingDirectory: os.tmpdir(),
+    taskDescription: 'Build the thing',
+  };
+
+  beforeEach(() => {
+    registry = new AgentRuntimeRegistry();
+  });
+
+  describe('Registration', () => {
+    it('should register built-in runtimes', () => {
+      expect(registry.list()).toEqual(expect.arrayContaining(['claude', 'scripted']));
+    });
+
+    it('should throw for unknown runtimes', () => {
+      expect(() => registry.get('missing')).toThrow('Unknown agent runtime: missing');
+    });
+  });
+
+  describe('Resolution', () => {
+    it('should default to the Claude CLI', () => {
+      expect(registry.resolve('developer').name).toBe('claude');
+    });
+
+    it('should prefer per-agent-type selection over the default', () => {
+      const runtime = registry.resolve('monitor', {
+        default: 'claude',
+        agentTypes: { monitor: 'scripted' },
+      });
+      expect(runtime.name).toBe('scripted');
+    });
+
+    it('should prefer project selection over the registry selection', () => {
+      registry.setSelection({ default: 'claude' });
+      expect(registry.resolve('developer', { default: 'scripted' }).name).toBe('scripted');
+      expect(registry.resolve('developer', undefined).name).toBe('claude');
+    });
+
+    it('should build command runtimes declared inline', () => {
+      const runtime = registry.resolve('developer', {
+        default: 'echo',
+        commands: { echo: { command: 'echo', args: ['{agentType}'] } },
+      });
+      expect(runtime).toBeInstanceOf(CommandRuntime);
+      expect(runtime.name).toBe('echo');
+    });
+  });
+
+  describe('Launching', () => {
+    it('should expand launch context placeholders', () => {
+      expect(expandTemplate('{agentType}:{taskDescription}:{unknown}', context))
+        .toBe('developer:Build the thing:{unknown}');
+    });
+
+    it('should run a command runtime with templated arguments', async () => {
+      const runtime = new CommandRuntime('node', {
+        command: process.execPath,
+        args: ['-e', 'console.log(process.argv[1], process.env.EKLAVYA_AGENT_ID)', '{agentType}'],
+      });
+
+      const { stdout, code } = await collectOutput(runtime.launch(context));
+      expect(code).toBe(0);
+      expect(stdout.trim()).toBe('developer agent-1');
+    });
+
+    it('should run the Claude CLI in print mode with the task as its first message', async () => {
+      // Stands in for the CLI: reports its arguments and the first line of stdin
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-claude-'));
+      const claude = path.join(dir, 'claude');
+      await fs.writeFile(claude, `#!${process.execPath}
+process.stdin.once('data', chunk => {
+  console.log(JSON.stringify({ args: process.argv.slice(2), input: String(chunk).split('\\n')[0] }));
+  process.exit(0);
+});
+`, { mode: 0o755 });
+
+      try {
+        const { stdout, code } = await collectOutput(new ClaudeCliRuntime(claude).launch(context));
+        expect(code).toBe(0);
+
+        const { args, input } = JSON.parse(stdout);
+        expect(args).toContain('--print');
+        expect(args).not.toContain('--prompt');
+        expect(args.join(' ')).toContain('--input-format stream-json');
+        expect(JSON.parse(input)).toEqual({ type: 'user', message: { role: 'user', content: 'Build the thing' } });
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should replay a scripted run deterministically', async () => {
+      const runtime = new ScriptedRuntime({
+        steps: [
+          { output: 'step one' },
+          { output: 'warning', stream: 'stderr' },
+          { output: 'step two' },
+        ],
+        exitCode: 3,
+      });
+
+      const { stdout, stderr, code } = await collectOutput(runtime.launch(context));
+      expect(stdout).toBe('step one\nstep two\n');
+      expect(stderr).toBe('warning\n');
+      expect(code).toBe(3);
+    });
+
+    it('should use per-agent-type scripts', async () => {
+      const runtime = new ScriptedRuntime({
+        agentTypes: { tester: { steps: [{ output: 'tests passed' }], exitCode: 0 } },
+      });
+
+      const { stdout } = await collectOutput(runtime.launch({ ...context, agentType: 'tester' }));
+      expect(stdout).toBe('tests passed\n');
+    });
+  });
+});
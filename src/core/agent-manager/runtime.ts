@@ -0,0 +1,393 @@
+/**
+ * Agent Runtimes
+ *
+ * Pluggable backends that launch the OS process behind an agent:
+ * - claude: the Claude Code CLI (default)
+ * - command: any executable with templated arguments
+ * - scripted: deterministic scripted output, for tests and CI without model access
+ *
+ * A runtime is picked per agent type or per project through the
+ * AgentRuntimeRegistry. Project selections live under `config.runtime`
+ * in the projects table and take precedence over the global config.
+ * Whatever the runtime, the process starts inside the agent type's
+ * sandbox profile (see sandbox.ts).
+ */
+
+import { ChildProcess } from 'child_process';
+import { getDatabase } from '../../lib/database.js';
+import { getSandboxEnforcer, type SandboxProfile } from './sandbox.js';
+import type {
+  AgentType,
+  AgentRuntimeConfig,
+  AgentRuntimeCommandConfig,
+} from '../../types/index.js';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface AgentLaunchContext {
+  agentId: string;
+  projectId: string;
+  agentType: AgentType;
+  workingDirectory: string;
+  promptId?: string;
+  taskDescription?: string;
+  model?: string;
+  environment?: Record<string, string>;
+  sandbox?: Partial<SandboxProfile>;  // Adjusts the agent type's profile
+  permissionSettings?: string;        // CLI settings installing the permission gate hook
+}
+
+export interface AgentRuntime {
+  readonly name: string;
+  readonly gatesToolCalls?: boolean;  // Honours permissionSettings, holding tool calls until decided
+  launch(context: AgentLaunchContext): ChildProcess;
+}
+
+export interface ScriptedStep {
+  output: string;
+  stream?: 'stdout' | 'stderr';
+  delayMs?: number;
+}
+
+export interface ScriptedScript {
+  steps: ScriptedStep[];
+  exitCode?: number;
+  lingerMs?: number;  // Stay alive this long after the last step
+}
+
+export interface ScriptedRuntimeOptions extends Partial<ScriptedScript> {
+  name?: string;
+  agentTypes?: Partial<Record<AgentType, ScriptedScript>>;
+}
+
+export const DEFAULT_RUNTIME = 'claude';
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/**
+ * Build the environment every agent process receives. Only the sandbox
+ * profile's allowlisted variables come from the server's own environment.
+ */
+export function buildAgentEnvironment(
+  context: AgentLaunchContext,
+  extra: Record<string, string> = {}
+): NodeJS.ProcessEnv {
+  return {
+    ...getSandboxEnforcer().environmentFor(context),
+    ...extra,
+    ...context.environment,
+    EKLAVYA_AGENT_ID: context.agentId,
+    EKLAVYA_PROJECT_ID: context.projectId,
+    EKLAVYA_AGENT_TYPE: context.agentType,
+    EKLAVYA_PROMPT_ID: context.promptId || '',
+    EKLAVYA_MODEL: context.model || '',
+  };
+}
+
+/**
+ * Render text as one stream-json user message, the input format of the
+ * Claude CLI and of any runtime that reads steering between turns.
+ */
+export function formatUserMessage(text: string): string {
+  return JSON.stringify({ type: 'user', message: { role: 'user', content: text } }) + '\n';
+}
+
+/**
+ * Replace {placeholders} in a command argument with launch context values.
+ */
+export function expandTemplate(template: string, context: AgentLaunchContext): string {
+  const values: Record<string, string> = {
+    agentId: context.agentId,
+    projectId: context.projectId,
+    agentType: context.agentType,
+    workingDirectory: context.workingDirectory,
+    promptId: context.promptId || '',
+    taskDescription: context.taskDescription || '',
+    model: context.model || '',
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+// ============================================================================
+// Runtimes
+// ============================================================================
+
+/**
+ * Runs the Claude Code CLI, the original and default backend.
+ */
+export class ClaudeCliRuntime implements AgentRuntime {
+  readonly name = 'claude';
+  readonly gatesToolCalls = true;
+
+  constructor(private command = 'claude') {}
+
+  launch(context: AgentLaunchContext): ChildProcess {
+    const args = [
+      // Run non-interactively, reading the conversation from stdin
+      '--print',
+      '--dangerously-skip-permissions',
+      '--project-dir', context.workingDirectory,
+      // Structured output lets AgentOutputParser account for tokens and tools
+      '--output-format', 'stream-json',
+      // Steering instructions arrive on stdin as user messages between turns;
+      // the CLI keeps reading until stdin closes, which the AgentManager does
+      // at the result (AgentControlService.handleResult)
+      '--input-format', 'stream-json',
+      '--verbose',
+    ];
+
+    if (context.model) {
+      args.push('--model', context.model);
+    }
+
+    // A PreToolUse hook holds each tool call until it is allowed (see permission-gate.ts)
+    if (context.permissionSettings) {
+      args.push('--settings', context.permissionSettings);
+    }
+
+    const child = getSandboxEnforcer().launch(this.command, args, context, buildAgentEnvironment(context));
+
+    // The task is the first user message on stdin; steering follows it there
+    if (context.taskDescription) {
+      // A process that fails to start reports it through its own 'error'
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.write(formatUserMessage(context.taskDescription));
+    }
+
+    return child;
+  }
+}
+
+/**
+ * Runs an arbitrary command. Arguments may reference {agentId}, {projectId},
+ * {agentType}, {workingDirectory}, {promptId}, {taskDescription} and {model}.
+ */
+export class CommandRuntime implements AgentRuntime {
+  constructor(
+    readonly name: string,
+    private options: AgentRuntimeCommandConfig
+  ) {}
+
+  launch(context: AgentLaunchContext): ChildProcess {
+    const args = (this.options.args || []).map(arg => expandTemplate(arg, context));
+
+    return getSandboxEnforcer().launch(
+      this.options.command,
+      args,
+      context,
+      buildAgentEnvironment(context, this.options.env)
+    );
+  }
+}
+
+// Executed with `node -e`; the script arrives as JSON in argv[1]
+const SCRIPTED_PROGRAM = `
+const script = JSON.parse(process.argv[1]);
+let index = 0;
+const next = () => {
+  if (index >= script.steps.length) {
+    setTimeout(() => process.exit(script.exitCode || 0), script.lingerMs || 0);
+    return;
+  }
+  const step = script.steps[index++];
+  setTimeout(() => {
+    (step.stream === 'stderr' ? process.stderr : process.stdout).write(step.output + '\\n');
+    next();
+  }, step.delayMs || 0);
+};
+next();
+`;
+
+/**
+ * Replays a fixed script of output lines and exits with a fixed code.
+ * Runs as a real child process so the rest of the pipeline is exercised.
+ */
+export class ScriptedRuntime implements AgentRuntime {
+  readonly name: string;
+  private options: ScriptedRuntimeOptions;
+
+  constructor(options: ScriptedRuntimeOptions = {}) {
+    this.name = options.name || 'scripted';
+    this.options = options;
+  }
+
+  getScript(agentType: AgentType): ScriptedScript {
+    const byType = this.options.agentTypes?.[agentType];
+    if (byType) {
+      return byType;
+    }
+
+    return {
+      steps: this.options.steps || [
+        { output: JSON.stringify({ type: 'system', subtype: 'init', model: 'scripted' }) },
+        {
+          output: JSON.stringify({
+            type: 'result',
+            subtype: 'success',
+            is_error: false,
+            result: `${agentType} agent finished`,
+            num_turns: 1,
+            usage: { input_tokens: 0, output_tokens: 0 },
+          }),
+        },
+      ],
+      exitCode: this.options.exitCode ?? 0,
+      lingerMs: this.options.lingerMs,
+    };
+  }
+
+  launch(context: AgentLaunchContext): ChildProcess {
+    const script = this.getScript(context.agentType);
+
+    return getSandboxEnforcer().launch(
+      process.execPath,
+      ['-e', SCRIPTED_PROGRAM, JSON.stringify(script)],
+      context,
+      buildAgentEnvironment(context)
+    );
+  }
+}
+
+// ============================================================================
+// Runtime Registry
+// ============================================================================
+
+export class AgentRuntimeRegistry {
+  private runtimes: Map<string, AgentRuntime> = new Map();
+  private selection: AgentRuntimeConfig;
+
+  constructor(selection: AgentRuntimeConfig = {}) {
+    this.selection = selection;
+    this.register(new ClaudeCliRuntime());
+    this.register(new ScriptedRuntime());
+  }
+
+  register(runtime: AgentRuntime): void {
+    this.runtimes.set(runtime.name, runtime);
+  }
+
+  unregister(name: string): boolean {
+    return this.runtimes.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.runtimes.has(name);
+  }
+
+  get(name: string): AgentRuntime {
+    const runtime = this.runtimes.get(name);
+    if (!runtime) {
+      throw new Error(`Unknown agent runtime: ${name}`);
+    }
+    return runtime;
+  }
+
+  list(): string[] {
+    return Array.from(this.runtimes.keys());
+  }
+
+  getSelection(): AgentRuntimeConfig {
+    return this.selection;
+  }
+
+  setSelection(selection: AgentRuntimeConfig): void {
+    this.selection = selection;
+  }
+
+  /**
+   * Pick a runtime for an agent type. Selections are consulted in order,
+   * followed by the registry's own selection; per-type entries win over
+   * defaults within the same selection.
+   */
+  resolve(agentType: AgentType, ...selections: Array<AgentRuntimeConfig | undefined>): AgentRuntime {
+    const ordered = [...selections, this.selection].filter(
+      (s): s is AgentRuntimeConfig => !!s
+    );
+
+    for (const selection of ordered) {
+      const name = selection.agentTypes?.[agentType] || selection.default;
+      if (name) {
+        return this.lookup(name, ordered);
+      }
+    }
+
+    return this.get(DEFAULT_RUNTIME);
+  }
+
+  /**
+   * Resolve a runtime using the project's stored config first.
+   */
+  async resolveForProject(
+    agentType: AgentType,
+    projectId: string,
+    fallback?: AgentRuntimeConfig
+  ): Promise<AgentRuntime> {
+    const projectSelection = await loadProjectRuntimeConfig(projectId);
+    return this.resolve(agentType, projectSelection, fallback);
+  }
+
+  private lookup(name: string, selections: AgentRuntimeConfig[]): AgentRuntime {
+    const registered = this.runtimes.get(name);
+    if (registered) {
+      return registered;
+    }
+
+    // Command runtimes can be declared inline in any selection
+    for (const selection of selections) {
+      const command = selection.commands?.[name];
+      if (command) {
+        return new CommandRuntime(name, command);
+      }
+    }
+
+    return this.get(name);
+  }
+}
+
+/**
+ * Read `config.runtime` for a project, if any.
+ */
+export async function loadProjectRuntimeConfig(projectId: string): Promise<AgentRuntimeConfig | undefined> {
+  try {
+    const db = getDatabase();
+    const result = await db.query<{ config: Record<string, unknown> | null }>(
+      `SELECT config FROM projects WHERE id = $1`,
+      [projectId]
+    );
+
+    const runtime = result.rows[0]?.config?.runtime;
+    if (runtime && typeof runtime === 'object') {
+      return runtime as AgentRuntimeConfig;
+    }
+  } catch {
+    // Fall back to the global selection if the project can't be read
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let registryInstance: AgentRuntimeRegistry | null = null;
+
+export function getRuntimeRegistry(): AgentRuntimeRegistry {
+  if (!registryInstance) {
+    registryInstance = new AgentRuntimeRegistry(
+      process.env.EKLAVYA_AGENT_RUNTIME ? { default: process.env.EKLAVYA_AGENT_RUNTIME } : {}
+    );
+  }
+  return registryInstance;
+}
+
+export function initializeRuntimeRegistry(selection?: AgentRuntimeConfig): AgentRuntimeRegistry {
+  registryInstance = new AgentRuntimeRegistry(selection);
+  return registryInstance;
+}
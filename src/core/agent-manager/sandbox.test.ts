@@ -0,0 +1,257 @@
+/**
+ * Tests for the agent sandbox
+ * Profiles, environment allowlist, filesystem jail, network, limits and violation reporting
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { ChildProcess } from 'child_process';
+import { getDatabase } from '../../lib/database.js';
+import { AgentLifecycleManager } from './lifecycle.js';
+import {
+  ClaudeCliRuntime,
+  CommandRuntime,
+  initializeRuntimeRegistry,
+  ScriptedRuntime,
+  type AgentLaunchContext,
+} from './runtime.js';
+import {
+  DEFAULT_SANDBOX_PROFILE,
+  filterEnvironment,
+  initializeSandboxEnforcer,
+  isIsolationAvailable,
+  mergeSandboxProfile,
+  type SandboxProfile,
+  type SandboxViolation,
+} from './sandbox.js';
+import { AlertType, createMonitorAgent } from '../monitor-agent/index.js';
+
+function run(
+  script: string,
+  context: AgentLaunchContext
+): Promise<{ stdout: string; code: number | null; signal: NodeJS.Signals | null }> {
+  const child: ChildProcess = new CommandRuntime('node', { command: process.execPath, args: ['-e', script] })
+    .launch(context);
+  let stdout = '';
+  child.stdout?.on('data', chunk => { stdout += chunk; });
+  return new Promise((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', (code, signal) => resolve({ stdout, code, signal }));
+  });
+}
+
+describe('Sandbox profiles', () => {
+  it('should layer overrides over the default profile', () => {
+    const profile = mergeSandboxProfile(
+      DEFAULT_SANDBOX_PROFILE,
+      { limits: { memoryMb: 512 } },
+      { network: false, envAllowlist: ['PATH'] }
+    );
+    expect(profile).toMatchObject({
+      filesystem: 'project',
+      network: false,
+      envAllowlist: ['PATH'],
+      limits: { memoryMb: 512, wallClockMs: DEFAULT_SANDBOX_PROFILE.limits.wallClockMs },
+    });
+  });
+
+  it('should only pass allowlisted variables through', () => {
+    const env = { PATH: '/bin', LC_ALL: 'C', JWT_SECRET: 'secret', DB_PASSWORD: 'pwd' };
+    expect(filterEnvironment(env, ['PATH', 'LC_*'])).toEqual({ PATH: '/bin', LC_ALL: 'C' });
+  });
+});
+
+describe('SandboxEnforcer', () => {
+  let workingDirectory: string;
+  let outside: string;
+  const violations: SandboxViolation[] = [];
+
+  function context(sandbox: Partial<SandboxProfile> = {}): AgentLaunchContext {
+    return {
+      agentId: 'agent-1',
+      projectId: 'project-1',
+      agentType: 'developer',
+      workingDirectory,
+      sandbox: { writablePaths: [], ...sandbox },
+    };
+  }
+
+  beforeAll(async () => {
+    // Outside the temp directory, which profiles leave writable
+    workingDirectory = await fs.mkdtemp(path.join(os.homedir(), '.eklavya-sandbox-'));
+    outside = await fs.mkdtemp(path.join(os.homedir(), '.eklavya-outside-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workingDirectory, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    violations.length = 0;
+  });
+
+  function enforcer(sampleIntervalMs = 1000) {
+    const instance = initializeSandboxEnforcer({ sampleIntervalMs });
+    instance.on('violation', violation => violations.push(violation));
+    return instance;
+  }
+
+  it('should not leak secrets from the server environment', async () => {
+    enforcer();
+    process.env.EKLAVYA_TEST_SECRET_TOKEN = 'do-not-leak';
+    process.env.SANDBOX_TEST_SECRET = 'do-not-leak';
+    try {
+      const result = await run(
+        'console.log(JSON.stringify([process.env.SANDBOX_TEST_SECRET, !!process.env.PATH]))',
+        context()
+      );
+      expect(JSON.parse(result.stdout)).toEqual([null, true]);
+    } finally {
+      delete process.env.EKLAVYA_TEST_SECRET_TOKEN;
+      delete process.env.SANDBOX_TEST_SECRET;
+    }
+  });
+
+  it.skipIf(!isIsolationAvailable())('should keep writes inside the working directory', async () => {
+    enforcer();
+    const result = await run(`
+      const fs = require('fs');
+      fs.writeFileSync('inside.txt', 'ok');
+      try { fs.writeFileSync(${JSON.stringify(path.join(outside, 'escape.txt'))}, 'x'); }
+      catch (error) { console.error(error.code); }
+    `, context());
+
+    expect(result.code).toBe(0);
+    expect(await fs.readFile(path.join(workingDirectory, 'inside.txt'), 'utf8')).toBe('ok');
+    await expect(fs.access(path.join(outside, 'escape.txt'))).rejects.toThrow();
+    expect(violations.map(v => v.kind)).toEqual(['filesystem']);
+  });
+
+  it.skipIf(!isIsolationAvailable())('should cut network egress when the profile turns it off', async () => {
+    enforcer();
+    const result = await run(`
+      require('dns').lookup('example.com', error => console.log(error ? error.code : 'resolved'));
+    `, context({ network: false }));
+
+    expect(result.stdout.trim()).toMatch(/EAI_AGAIN|ENOTFOUND/);
+    expect(violations.map(v => v.kind)).toContain('network');
+  });
+
+  it.skipIf(!isIsolationAvailable())('should run the Claude CLI as an unprivileged user inside the jail', async () => {
+    // Stands in for the CLI, which refuses to skip permissions as root
+    const claude = path.join(outside, 'claude');
+    await fs.writeFile(claude, `#!${process.execPath}
+if (process.getuid() === 0 && process.argv.includes('--dangerously-skip-permissions')) {
+  console.error('--dangerously-skip-permissions cannot be used with root/sudo privileges');
+  process.exit(1);
+}
+require('fs').writeFileSync('claude.txt', String(process.getuid()));
+`, { mode: 0o755 });
+
+    const runAs = process.getuid!() === 0 ? { uid: 1000, gid: 1000 } : undefined;
+    initializeSandboxEnforcer({ runAs }).on('violation', violation => violations.push(violation));
+    const child = new ClaudeCliRuntime(claude).launch({ ...context(), taskDescription: 'Say hi' });
+    child.stdin?.end();
+    const code = await new Promise<number | null>(resolve => child.on('close', resolve));
+
+    expect(code).toBe(0);
+    const uid = Number(await fs.readFile(path.join(workingDirectory, 'claude.txt'), 'utf8'));
+    expect(uid).toBe(runAs?.uid ?? process.getuid!());
+    expect(uid).not.toBe(0);
+    expect(violations).toEqual([]);
+  });
+
+  it('should stop agents that exceed their CPU limit', async () => {
+    enforcer();
+    const result = await run('for (;;) {}', context({ limits: { cpuSeconds: 1 } }));
+    expect(result.signal).toBe('SIGXCPU');
+    expect(violations).toMatchObject([{ kind: 'cpu', agentId: 'agent-1', limit: 1 }]);
+  });
+
+  it('should stop agents that exceed their memory limit', async () => {
+    enforcer(50);
+    const result = await run(
+      'const keep = []; setInterval(() => keep.push(Buffer.alloc(8 * 1024 * 1024, 1)), 10)',
+      context({ limits: { memoryMb: 96 } })
+    );
+    expect(result.signal).toBe('SIGKILL');
+    expect(violations[0]).toMatchObject({ kind: 'memory', limit: 96 });
+    expect(violations[0].actual).toBeGreaterThan(96);
+  });
+
+  it('should stop agents that run past their wall-clock limit', async () => {
+    enforcer();
+    const result = await run('setInterval(() => {}, 1000)', context({ limits: { wallClockMs: 300 } }));
+    expect(result.signal).toBe('SIGKILL');
+    expect(violations.map(v => v.kind)).toEqual(['wall_clock']);
+  });
+});
+
+describe('Sandbox violation reporting', () => {
+  let projectId: string;
+  let agentId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const project = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('sandbox') RETURNING id`);
+    projectId = project.rows[0].id;
+    const agent = await db.query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status) VALUES ($1, 'developer', 'idle') RETURNING id`,
+      [projectId]
+    );
+    agentId = agent.rows[0].id;
+
+    initializeSandboxEnforcer();
+    initializeRuntimeRegistry({ default: 'scripted' }).register(new ScriptedRuntime({ lingerMs: 30000 }));
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  it('should surface violations as unhealthy agents and monitor alerts', async () => {
+    const manager = new AgentLifecycleManager({ resourceSampleIntervalMs: 0 });
+    const monitor = createMonitorAgent({ projectId, checkIntervalMs: 60000 });
+    monitor.start();
+
+    const unhealthy = new Promise<{ agentId: string; health: { status: string; errorMessage: string } }>(resolve => {
+      manager.once('agent-unhealthy', resolve);
+    });
+    const alerted = new Promise(resolve => monitor.once('alert:created', resolve));
+
+    const spawned = await manager.spawnAgent({
+      agentId,
+      sandbox: { limits: { wallClockMs: 300 } },
+      restartPolicy: { mode: 'never' },
+    });
+    expect(spawned.success).toBe(true);
+
+    const event = await unhealthy;
+    expect(event).toMatchObject({ agentId, health: { status: 'unhealthy' } });
+    expect(event.health.errorMessage).toContain('wall_clock');
+
+    expect(await alerted).toMatchObject({ agentId, type: AlertType.SANDBOX_VIOLATION, level: 'warning' });
+    expect(monitor.getActiveAlerts()).toHaveLength(1);
+
+    const checks = await getDatabase().query<{ status: string }>(
+      `SELECT status FROM agent_health_checks WHERE agent_id = $1 AND error_message LIKE 'Sandbox violation%'`,
+      [agentId]
+    );
+    expect(checks.rows.map(c => c.status)).toEqual(['unhealthy']);
+
+    monitor.stop();
+    await manager.stop();
+  });
+});
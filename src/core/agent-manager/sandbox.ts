@@ -0,0 +1,418 @@
+/**
+ * Agent Sandbox
+ *
+ * Every agent process is launched through a sandbox profile chosen by agent
+ * type:
+ * - Filesystem jail: read-only outside the working directory (and a few
+ *   writable paths the CLI needs), via a private mount namespace
+ * - Environment allowlist instead of passing the server's secrets through
+ * - CPU (ulimit), memory (RSS watchdog) and wall-clock limits
+ * - Network egress on or off, via a private network namespace
+ *
+ * Namespaces come from `unshare` on Linux. Where it is unavailable the
+ * filesystem jail is skipped with a warning; a profile that turns network
+ * off refuses to launch rather than run with egress.
+ *
+ * Violations are emitted as `violation` and `health` events, and recorded
+ * as unhealthy agent health checks.
+ */
+
+import { EventEmitter } from 'events';
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import os from 'os';
+import path from 'path';
+import { getDatabase } from '../../lib/database.js';
+import { readProcessSample } from './supervisor.js';
+import type { AgentLaunchContext } from './runtime.js';
+import type { AgentHealth } from './lifecycle.js';
+import type { AgentType } from '../../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SandboxViolationKind = 'cpu' | 'memory' | 'wall_clock' | 'filesystem' | 'network';
+
+export interface SandboxLimits {
+  cpuSeconds?: number;
+  memoryMb?: number;
+  wallClockMs?: number;
+}
+
+export interface SandboxProfile {
+  filesystem: 'project' | 'unrestricted';  // 'project': read-only outside the working directory
+  writablePaths: string[];                 // Also writable under 'project'; ~ is the home directory
+  envAllowlist: string[];                  // Variable names; a trailing * matches a prefix
+  limits: SandboxLimits;
+  network: boolean;
+}
+
+export interface SandboxViolation {
+  agentId: string;
+  projectId: string;
+  agentType: AgentType;
+  pid: number | null;
+  kind: SandboxViolationKind;
+  message: string;
+  limit?: number;
+  actual?: number;
+  detectedAt: Date;
+}
+
+export interface SandboxUser {
+  uid: number;
+  gid: number;
+}
+
+export interface SandboxEnforcerOptions {
+  profiles?: Partial<Record<AgentType, Partial<SandboxProfile>>>;
+  isolation?: boolean;        // Defaults to whether `unshare` works here
+  runAs?: SandboxUser;        // Who agents run as inside namespaces; defaults to the server's user
+  sampleIntervalMs?: number;  // How often RSS is checked against the memory limit
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+export const DEFAULT_SANDBOX_PROFILE: SandboxProfile = {
+  filesystem: 'project',
+  writablePaths: [os.tmpdir(), '~/.claude', '~/.claude.json', '~/.npm', '~/.cache'],
+  envAllowlist: [
+    'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_*', 'TERM', 'TZ', 'TMPDIR',
+    'NODE_OPTIONS', 'ANTHROPIC_*', 'CLAUDE_*', 'EKLAVYA_*',
+  ],
+  limits: {
+    memoryMb: 4096,
+    wallClockMs: 2 * 60 * 60 * 1000,
+  },
+  // The model CLI needs to reach its API
+  network: true,
+};
+
+/**
+ * Per-type adjustments to the default profile
+ */
+export const SANDBOX_PROFILES: Partial<Record<AgentType, Partial<SandboxProfile>>> = {
+  orchestrator: { limits: { memoryMb: 4096, wallClockMs: 8 * 60 * 60 * 1000 } },
+  monitor: { limits: { memoryMb: 1024, wallClockMs: 60 * 60 * 1000 } },
+  mentor: { limits: { memoryMb: 1024, wallClockMs: 60 * 60 * 1000 } },
+};
+
+/**
+ * Layer profile overrides; limits merge key by key, lists replace.
+ */
+export function mergeSandboxProfile(
+  base: SandboxProfile,
+  ...overrides: Array<Partial<SandboxProfile> | undefined>
+): SandboxProfile {
+  return overrides.reduce<SandboxProfile>((profile, override) => {
+    if (!override) return profile;
+    return {
+      ...profile,
+      ...override,
+      limits: { ...profile.limits, ...override.limits },
+    };
+  }, base);
+}
+
+/**
+ * Keep only allowlisted variables.
+ */
+export function filterEnvironment(env: NodeJS.ProcessEnv, allowlist: string[]): Record<string, string> {
+  const filtered: Record<string, string> = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) continue;
+    const allowed = allowlist.some(pattern =>
+      pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+    );
+    if (allowed) {
+      filtered[name] = value;
+    }
+  }
+  return filtered;
+}
+
+// ============================================================================
+// Command Wrapping
+// ============================================================================
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function expandHome(file: string): string {
+  return file === '~' || file.startsWith('~/') ? os.homedir() + file.slice(1) : file;
+}
+
+function currentUser(): SandboxUser {
+  return { uid: process.getuid?.() ?? 0, gid: process.getgid?.() ?? 0 };
+}
+
+/**
+ * Wrap a command so it starts inside the profile's limits and namespaces.
+ * The command is exec'd at the end, so the PID stays the agent's own.
+ *
+ * Setting up the jail needs root inside the namespace, so once it is in
+ * place the command is exec'd in a nested user namespace as `runAs`:
+ * tools like the Claude CLI refuse to skip permission prompts as root.
+ */
+export function wrapCommand(
+  command: string,
+  args: string[],
+  profile: SandboxProfile,
+  workingDirectory: string,
+  isolation: boolean,
+  runAs: SandboxUser = currentUser()
+): { command: string; args: string[] } {
+  const steps: string[] = [];
+
+  // The soft limit sends SIGXCPU; the hard limit a little later is SIGKILL
+  const cpuSeconds = profile.limits.cpuSeconds;
+  if (cpuSeconds) {
+    steps.push(`ulimit -S -t ${Math.ceil(cpuSeconds)}`, `ulimit -H -t ${Math.ceil(cpuSeconds) + 5}`);
+  }
+
+  const jail = isolation && profile.filesystem === 'project';
+  if (jail) {
+    const writable = [workingDirectory, ...profile.writablePaths.map(expandHome)]
+      .map(p => shellQuote(path.resolve(p)));
+
+    // Bind the writable paths onto themselves first: a bind made after the
+    // read-only remount would inherit it. Mount points with escaped names
+    // in /proc/self/mounts are left as they are, and so is /proc, where the
+    // nested user namespace writes its ID maps. Finally re-enter the
+    // working directory, since the old cwd is beneath its new bind mount.
+    steps.push(
+      'mount --make-rprivate /',
+      `for p in ${writable.join(' ')}; do if [ -e "$p" ]; then mount --bind "$p" "$p" || exit 125; fi; done`,
+      `for m in $(cut -d' ' -f2 /proc/self/mounts | sort -u); do case "$m" in ${[...writable, '/proc', '/proc/*'].join('|')}) ;; ` +
+        `*) mount -o remount,bind,ro "$m" 2>/dev/null || true ;; esac; done`,
+      `cd ${writable[0]}`
+    );
+  }
+
+  const namespaces = [
+    ...(jail ? ['--mount'] : []),
+    ...(isolation && !profile.network ? ['--net'] : []),
+  ];
+
+  if (steps.length === 0 && namespaces.length === 0) {
+    return { command, args };
+  }
+
+  const exec = namespaces.length > 0 && runAs.uid !== 0
+    ? `exec unshare --map-user=${runAs.uid} --map-group=${runAs.gid} -- "$0" "$@"`
+    : 'exec "$0" "$@"';
+  const shell = ['/bin/sh', '-c', [...steps, exec].join(' && '), command, ...args];
+
+  if (namespaces.length === 0) {
+    return { command: shell[0], args: shell.slice(1) };
+  }
+
+  return { command: 'unshare', args: ['--map-root-user', ...namespaces, ...shell] };
+}
+
+let isolationProbe: boolean | null = null;
+
+/**
+ * Whether this host lets us create mount and network namespaces, and drop
+ * to an unprivileged user inside them.
+ */
+export function isIsolationAvailable(): boolean {
+  if (isolationProbe === null) {
+    if (process.platform !== 'linux') {
+      isolationProbe = false;
+    } else {
+      const result = spawnSync(
+        'unshare',
+        ['--map-root-user', '--mount', '--net', '/bin/sh', '-c',
+          'mount --make-rprivate / && mount -o remount,bind,ro / && exec unshare --map-user=1 --map-group=1 true'],
+        { timeout: 5000, stdio: 'ignore' }
+      );
+      isolationProbe = result.status === 0;
+    }
+  }
+  return isolationProbe;
+}
+
+// What the sandbox makes a blocked write or connection look like
+const FILESYSTEM_DENIED = /EROFS|Read-only file system/;
+const NETWORK_DENIED = /EAI_AGAIN|ENETUNREACH|Network is unreachable|getaddrinfo/;
+
+// ============================================================================
+// Sandbox Enforcer
+// ============================================================================
+
+export class SandboxEnforcer extends EventEmitter {
+  private profiles: Partial<Record<AgentType, Partial<SandboxProfile>>>;
+  private isolation: boolean;
+  private runAs: SandboxUser;
+  private sampleIntervalMs: number;
+  private warnedUnconfined = false;
+
+  constructor(options: SandboxEnforcerOptions = {}) {
+    super();
+    this.profiles = options.profiles || {};
+    this.isolation = options.isolation ?? isIsolationAvailable();
+    this.runAs = options.runAs ?? currentUser();
+    this.sampleIntervalMs = options.sampleIntervalMs ?? 1000;
+  }
+
+  hasIsolation(): boolean {
+    return this.isolation;
+  }
+
+  profileFor(agentType: AgentType, override?: Partial<SandboxProfile>): SandboxProfile {
+    return mergeSandboxProfile(
+      DEFAULT_SANDBOX_PROFILE,
+      SANDBOX_PROFILES[agentType],
+      this.profiles[agentType],
+      override
+    );
+  }
+
+  /**
+   * The part of the server's environment an agent may see.
+   */
+  environmentFor(context: AgentLaunchContext): Record<string, string> {
+    return filterEnvironment(process.env, this.profileFor(context.agentType, context.sandbox).envAllowlist);
+  }
+
+  /**
+   * Start an agent command inside its sandbox profile and watch it.
+   */
+  launch(
+    command: string,
+    args: string[],
+    context: AgentLaunchContext,
+    env: NodeJS.ProcessEnv
+  ): ChildProcess {
+    const profile = this.profileFor(context.agentType, context.sandbox);
+
+    if (!this.isolation) {
+      if (!profile.network) {
+        throw new Error(`Sandbox for ${context.agentType} disables network egress, but network isolation is unavailable`);
+      }
+      if (profile.filesystem === 'project' && !this.warnedUnconfined) {
+        this.warnedUnconfined = true;
+        console.warn('Sandbox: filesystem isolation is unavailable; agents can write outside their working directory');
+      }
+    }
+
+    const wrapped = wrapCommand(command, args, profile, context.workingDirectory, this.isolation, this.runAs);
+    const child = spawn(wrapped.command, wrapped.args, {
+      cwd: context.workingDirectory,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env,
+    });
+
+    this.watch(child, context, profile);
+    return child;
+  }
+
+  private watch(child: ChildProcess, context: AgentLaunchContext, profile: SandboxProfile): void {
+    const reported = new Set<SandboxViolationKind>();
+    const report = (kind: SandboxViolationKind, message: string, limit?: number, actual?: number) => {
+      if (reported.has(kind)) return;
+      reported.add(kind);
+      void this.report({
+        agentId: context.agentId,
+        projectId: context.projectId,
+        agentType: context.agentType,
+        pid: child.pid ?? null,
+        kind,
+        message,
+        limit,
+        actual,
+        detectedAt: new Date(),
+      });
+    };
+
+    const timers: NodeJS.Timeout[] = [];
+    const { memoryMb, wallClockMs, cpuSeconds } = profile.limits;
+
+    if (wallClockMs) {
+      timers.push(setTimeout(() => {
+        report('wall_clock', `Ran longer than ${wallClockMs}ms; killed`, wallClockMs);
+        child.kill('SIGKILL');
+      }, wallClockMs));
+    }
+
+    if (memoryMb) {
+      timers.push(setInterval(async () => {
+        const sample = child.pid ? await readProcessSample(child.pid) : null;
+        const rssMb = sample ? sample.rssBytes / (1024 * 1024) : 0;
+        if (rssMb > memoryMb && child.exitCode === null) {
+          report('memory', `Resident memory ${Math.round(rssMb)}MB exceeded ${memoryMb}MB; killed`, memoryMb, rssMb);
+          child.kill('SIGKILL');
+        }
+      }, this.sampleIntervalMs));
+    }
+
+    const jailed = this.isolation && profile.filesystem === 'project';
+    const offline = this.isolation && !profile.network;
+    if (jailed || offline) {
+      const scan = (chunk: Buffer | string) => {
+        const text = chunk.toString();
+        if (jailed && FILESYSTEM_DENIED.test(text)) {
+          report('filesystem', 'Tried to write outside its working directory');
+        }
+        if (offline && NETWORK_DENIED.test(text)) {
+          report('network', 'Tried to reach the network with egress disabled');
+        }
+      };
+      child.stdout?.on('data', scan);
+      child.stderr?.on('data', scan);
+    }
+
+    child.once('exit', (_code, signal) => {
+      timers.forEach(timer => clearTimeout(timer));
+      if (signal === 'SIGXCPU') {
+        report('cpu', `Used more than ${cpuSeconds}s of CPU time; killed`, cpuSeconds);
+      }
+    });
+  }
+
+  private async report(violation: SandboxViolation): Promise<void> {
+    this.emit('violation', violation);
+
+    const health: AgentHealth = {
+      agentId: violation.agentId,
+      status: 'unhealthy',
+      latencyMs: 0,
+      lastActivity: violation.detectedAt,
+      errorMessage: `Sandbox violation (${violation.kind}): ${violation.message}`,
+    };
+
+    // Emit before awaiting anything, so listeners hear of it before the exit it causes
+    this.emit('health', { agentId: violation.agentId, health, violation });
+
+    try {
+      await getDatabase().query(
+        `SELECT record_health_check($1, $2, $3, $4)`,
+        [health.agentId, health.status, health.latencyMs, health.errorMessage]
+      );
+    } catch {
+      // Agents launched outside the database (tests, scripts) still get the event
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let enforcerInstance: SandboxEnforcer | null = null;
+
+export function getSandboxEnforcer(): SandboxEnforcer {
+  if (!enforcerInstance) {
+    enforcerInstance = new SandboxEnforcer();
+  }
+  return enforcerInstance;
+}
+
+export function initializeSandboxEnforcer(options?: SandboxEnforcerOptions): SandboxEnforcer {
+  enforcerInstance = new SandboxEnforcer(options);
+  return enforcerInstance;
+}
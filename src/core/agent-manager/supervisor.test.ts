@@ -0,0 +1,239 @@
+/**
+ * Tests for process supervision
+ * Restart policy, SIGTERM-to-SIGKILL escalation, exit capture and /proc sampling
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn } from 'child_process';
+import { getDatabase } from '../../lib/database.js';
+import { AgentLifecycleManager } from './lifecycle.js';
+import { initializeRuntimeRegistry, ScriptedRuntime } from './runtime.js';
+import {
+  DEFAULT_RESTART_POLICY,
+  describeExit,
+  readProcessSample,
+  restartDelayMs,
+  shouldRestart,
+  stopProcess,
+  validateRestartPolicy,
+} from './supervisor.js';
+
+// Ignores SIGTERM, so only SIGKILL stops it
+const STUBBORN = {
+  default: 'stubborn',
+  commands: {
+    stubborn: {
+      command: process.execPath,
+      args: ['-e', "process.on('SIGTERM', () => {}); console.log('ready'); setInterval(() => {}, 1000)"],
+    },
+  },
+};
+
+// Writes far more than a pipe buffer holds, so it only exits if someone reads
+const CHATTY = {
+  default: 'chatty',
+  commands: {
+    chatty: {
+      command: process.execPath,
+      args: ['-e', "process.stdout.write('x'.repeat(1 << 20)); process.stderr.write('y'.repeat(1 << 20))"],
+    },
+  },
+};
+
+function waitForEvent<T>(emitter: AgentLifecycleManager, event: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No ${event} event`)), 5000);
+    emitter.once(event, data => {
+      clearTimeout(timer);
+      resolve(data);
+    });
+  });
+}
+
+describe('Restart policy', () => {
+  it('should back off exponentially up to the cap', () => {
+    const policy = { ...DEFAULT_RESTART_POLICY, backoffMs: 1000, maxBackoffMs: 5000 };
+    expect([0, 1, 2, 3].map(attempt => restartDelayMs(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should restart according to the mode and limit', () => {
+    const crash = describeExit(1, null);
+    const clean = describeExit(0, null);
+
+    expect(shouldRestart(DEFAULT_RESTART_POLICY, crash, 0)).toBe(true);
+    expect(shouldRestart(DEFAULT_RESTART_POLICY, clean, 0)).toBe(false);
+    expect(shouldRestart(DEFAULT_RESTART_POLICY, crash, 5)).toBe(false);
+    expect(shouldRestart({ ...DEFAULT_RESTART_POLICY, mode: 'always' }, clean, 0)).toBe(true);
+    expect(shouldRestart({ ...DEFAULT_RESTART_POLICY, mode: 'never' }, crash, 0)).toBe(false);
+  });
+
+  it('should validate restart policy overrides', () => {
+    expect(validateRestartPolicy({ mode: 'always', maxRestarts: 3 })).toEqual({
+      valid: true,
+      policy: { mode: 'always', maxRestarts: 3 },
+      errors: [],
+    });
+    expect(validateRestartPolicy({ mode: 'sometimes' }).valid).toBe(false);
+    expect(validateRestartPolicy({ maxRestarts: -1 }).valid).toBe(false);
+    expect(validateRestartPolicy({ maxRestarts: 1e9 }).valid).toBe(false);
+    expect(validateRestartPolicy({ backoffMs: 'soon' }).valid).toBe(false);
+    expect(validateRestartPolicy({ backoffMultiplier: 0.5 }).valid).toBe(false);
+    expect(validateRestartPolicy({ backoffMs: 5000, maxBackoffMs: 1000 }).errors).toEqual([
+      'maxBackoffMs: maxBackoffMs must not be less than backoffMs',
+    ]);
+    expect(validateRestartPolicy({ retries: 3 }).valid).toBe(false);
+    expect(validateRestartPolicy('always').valid).toBe(false);
+  });
+
+  it('should report signals as 128 + signal number', () => {
+    expect(describeExit(null, 'SIGKILL')).toEqual({ exitCode: 137, signal: 'SIGKILL', crashed: true });
+    expect(describeExit(0, null)).toEqual({ exitCode: 0, signal: null, crashed: false });
+  });
+});
+
+describe('stopProcess', () => {
+  it('should escalate to SIGKILL when SIGTERM is ignored', async () => {
+    const child = spawn(process.execPath, ['-e', STUBBORN.commands.stubborn.args[1]]);
+    await new Promise(resolve => child.stdout.once('data', resolve));
+
+    const result = await stopProcess(child, 200);
+    expect(result).toEqual({ exitCode: 137, signal: 'SIGKILL', crashed: true, escalated: true });
+  });
+
+  it('should not escalate when the process exits on SIGTERM', async () => {
+    const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)']);
+    await new Promise(resolve => child.once('spawn', resolve));
+
+    const result = await stopProcess(child, 2000);
+    expect(result).toMatchObject({ signal: 'SIGTERM', exitCode: 143, escalated: false });
+  });
+
+  it('should sample a process from /proc', async () => {
+    const sample = await readProcessSample(process.pid);
+    expect(sample?.rssBytes).toBeGreaterThan(0);
+    expect(sample?.cpuTicks).toBeGreaterThanOrEqual(0);
+    expect(await readProcessSample(2 ** 22 + 1)).toBeNull();
+  });
+});
+
+describe('AgentLifecycleManager supervision', () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const result = await db.query<{ id: string }>(
+      `INSERT INTO projects (name) VALUES ('supervision') RETURNING id`
+    );
+    projectId = result.rows[0].id;
+
+    initializeRuntimeRegistry({ default: 'scripted' })
+      .register(new ScriptedRuntime({ name: 'crashing', steps: [], exitCode: 3 }));
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  async function createAgent(): Promise<string> {
+    const result = await getDatabase().query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status) VALUES ($1, 'developer', 'idle') RETURNING id`,
+      [projectId]
+    );
+    return result.rows[0].id;
+  }
+
+  it('should sample resources and SIGKILL an agent that ignores SIGTERM', async () => {
+    const manager = new AgentLifecycleManager({ resourceSampleIntervalMs: 50, terminationTimeoutMs: 300 });
+    const agentId = await createAgent();
+
+    const spawned = await manager.spawnAgent({ agentId, runtime: STUBBORN });
+    expect(spawned.success).toBe(true);
+
+    const sampled = await waitForEvent<{ memoryMb: number }>(manager, 'resources-sampled');
+    expect(sampled.memoryMb).toBeGreaterThan(0);
+    expect((await manager.getAgentResources(agentId)).memoryMb).toBeGreaterThan(0);
+
+    // Give it time to install its SIGTERM handler
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const result = await manager.terminateAgent(agentId);
+    expect(result).toMatchObject({ success: true, exitCode: 137, signal: 'SIGKILL', escalated: true });
+
+    const row = await getDatabase().query<{ status: string; exit_code: number; exit_signal: string }>(
+      `SELECT status, exit_code, exit_signal FROM agent_processes WHERE id = $1`,
+      [spawned.processId]
+    );
+    expect(row.rows[0]).toEqual({ status: 'stopped', exit_code: 137, exit_signal: 'SIGKILL' });
+    await manager.stop();
+  });
+
+  it('should restart a crashing agent with backoff until the limit', async () => {
+    const manager = new AgentLifecycleManager({ resourceSampleIntervalMs: 0 });
+    const agentId = await createAgent();
+
+    const delays: number[] = [];
+    manager.on('agent-restart-scheduled', ({ delayMs }) => delays.push(delayMs));
+    const exhausted = waitForEvent<{ exitCode: number; restarts: number }>(manager, 'agent-restart-exhausted');
+
+    const spawned = await manager.spawnAgent({
+      agentId,
+      runtime: { default: 'crashing' },
+      restartPolicy: { maxRestarts: 2, backoffMs: 20, backoffMultiplier: 3 },
+    });
+    expect(spawned.success).toBe(true);
+    expect(await exhausted).toMatchObject({ exitCode: 3, restarts: 2 });
+    expect(delays).toEqual([20, 60]);
+
+    const db = getDatabase();
+    const processes = await db.query<{ status: string; exit_code: number; restart_count: number; max_restarts: number }>(
+      `SELECT status, exit_code, restart_count, max_restarts FROM agent_processes
+       WHERE agent_id = $1 ORDER BY created_at`,
+      [agentId]
+    );
+    expect(processes.rows.map(p => [p.status, p.exit_code, p.restart_count, p.max_restarts])).toEqual([
+      ['crashed', 3, 0, 2],
+      ['crashed', 3, 1, 2],
+      ['failed', 3, 2, 2],
+    ]);
+
+    const agent = await db.query<{ status: string }>(`SELECT status FROM agents WHERE id = $1`, [agentId]);
+    expect(agent.rows[0].status).toBe('failed');
+    await manager.stop();
+  });
+
+  it('should record a clean exit without restarting', async () => {
+    const manager = new AgentLifecycleManager({ resourceSampleIntervalMs: 0 });
+    const agentId = await createAgent();
+    let restarts = 0;
+    manager.on('agent-restart-scheduled', () => restarts++);
+
+    const exited = waitForEvent<{ exitCode: number; crashed: boolean }>(manager, 'agent-exited');
+    await manager.spawnAgent({ agentId, runtime: { default: 'scripted' } });
+    expect(await exited).toMatchObject({ exitCode: 0, crashed: false });
+
+    const status = await manager.getAgentStatus(agentId);
+    expect(status).toMatchObject({ processStatus: 'stopped', exitCode: 0, agentStatus: 'idle' });
+    expect(restarts).toBe(0);
+    await manager.stop();
+  });
+
+  it('should drain the output of an agent nobody reads', async () => {
+    const manager = new AgentLifecycleManager({ resourceSampleIntervalMs: 0 });
+    const agentId = await createAgent();
+
+    const exited = waitForEvent<{ exitCode: number; crashed: boolean }>(manager, 'agent-exited');
+    // The sandbox scans a jailed agent's output itself, so leave this one unjailed
+    await manager.spawnAgent({ agentId, runtime: CHATTY, sandbox: { filesystem: 'unrestricted', network: true } });
+    expect(await exited).toMatchObject({ exitCode: 0, crashed: false });
+    await manager.stop();
+  });
+});
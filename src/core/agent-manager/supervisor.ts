@@ -0,0 +1,206 @@
+/**
+ * Process Supervision
+ *
+ * Building blocks the lifecycle manager uses to own real agent processes:
+ * - Restart policies with exponential backoff
+ * - Exit-code capture (signals map to 128 + signal number, like a shell)
+ * - SIGTERM-then-SIGKILL escalation
+ * - CPU / RSS sampling from /proc/<pid>
+ */
+
+import { ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import { z } from 'zod';
+
+// ============================================================================
+// Restart Policy
+// ============================================================================
+
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+export interface RestartPolicy {
+  mode: RestartMode;
+  maxRestarts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  maxBackoffMs: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  mode: 'on-failure',
+  maxRestarts: 5,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 60000,
+};
+
+// Generous bounds that still stop a caller from scheduling a restart storm
+// or a timer Node cannot represent (setTimeout caps out at 2^31 - 1 ms)
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+const RestartPolicyOverrideSchema = z.object({
+  mode: z.enum(['never', 'on-failure', 'always']),
+  maxRestarts: z.number().int().min(0).max(100),
+  backoffMs: z.number().int().min(0).max(MAX_BACKOFF_MS),
+  backoffMultiplier: z.number().min(1).max(10),
+  maxBackoffMs: z.number().int().min(0).max(MAX_BACKOFF_MS),
+}).partial().strict().refine(
+  policy => policy.backoffMs === undefined || policy.maxBackoffMs === undefined || policy.maxBackoffMs >= policy.backoffMs,
+  { message: 'maxBackoffMs must not be less than backoffMs', path: ['maxBackoffMs'] }
+);
+
+/**
+ * Check a (partial) restart policy supplied from outside, e.g. an API body.
+ */
+export function validateRestartPolicy(input: unknown): { valid: boolean; policy?: Partial<RestartPolicy>; errors: string[] } {
+  const parsed = RestartPolicyOverrideSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'restartPolicy'}: ${issue.message}`),
+    };
+  }
+  return { valid: true, policy: parsed.data, errors: [] };
+}
+
+export function resolveRestartPolicy(...overrides: Array<Partial<RestartPolicy> | undefined>): RestartPolicy {
+  return Object.assign({}, DEFAULT_RESTART_POLICY, ...overrides.filter(Boolean));
+}
+
+/**
+ * Whether an exited process should be started again, given how many
+ * restarts it has already had.
+ */
+export function shouldRestart(policy: RestartPolicy, exit: ProcessExit, restarts: number): boolean {
+  if (restarts >= policy.maxRestarts) return false;
+  if (policy.mode === 'always') return true;
+  return policy.mode === 'on-failure' && exit.crashed;
+}
+
+/**
+ * Delay before restart number `attempt` (0-based).
+ */
+export function restartDelayMs(policy: RestartPolicy, attempt: number): number {
+  const delay = policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt);
+  return Math.min(Math.round(delay), policy.maxBackoffMs);
+}
+
+// ============================================================================
+// Exit Capture
+// ============================================================================
+
+export interface ProcessExit {
+  exitCode: number;
+  signal: NodeJS.Signals | null;
+  crashed: boolean;
+}
+
+export function describeExit(code: number | null, signal: NodeJS.Signals | null): ProcessExit {
+  const exitCode = code ?? 128 + (signal ? os.constants.signals[signal] ?? 0 : 0);
+  return { exitCode, signal, crashed: exitCode !== 0 || signal !== null };
+}
+
+/**
+ * Resolve once the process has exited, including when it already has.
+ */
+export function waitForExit(child: ChildProcess): Promise<ProcessExit> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve(describeExit(child.exitCode, child.signalCode));
+  }
+  return new Promise(resolve => {
+    child.once('exit', (code, signal) => resolve(describeExit(code, signal)));
+  });
+}
+
+export interface StopResult extends ProcessExit {
+  escalated: boolean;
+}
+
+/**
+ * Ask the process to stop with SIGTERM and SIGKILL it if it is still
+ * running after `timeoutMs`. A timeout of 0 kills straight away.
+ */
+export async function stopProcess(child: ChildProcess, timeoutMs: number): Promise<StopResult> {
+  const exited = waitForExit(child);
+
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return { ...(await exited), escalated: false };
+  }
+
+  if (timeoutMs <= 0) {
+    child.kill('SIGKILL');
+    return { ...(await exited), escalated: false };
+  }
+
+  child.kill('SIGTERM');
+  // A paused (SIGSTOPped) agent only handles SIGTERM once it is continued
+  child.kill('SIGCONT');
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+
+  const exit = await Promise.race([exited, timedOut]);
+  clearTimeout(timer);
+
+  if (exit) {
+    return { ...exit, escalated: false };
+  }
+
+  child.kill('SIGKILL');
+  return { ...(await exited), escalated: true };
+}
+
+// ============================================================================
+// Resource Sampling
+// ============================================================================
+
+// USER_HZ is 100 on every Linux architecture Node runs on
+const CLOCK_TICKS_PER_SECOND = 100;
+
+export interface ProcessSample {
+  pid: number;
+  cpuTicks: number;
+  rssBytes: number;
+  takenAt: number;
+}
+
+/**
+ * Read CPU time and resident memory for a process from /proc. Returns
+ * null if the process is gone or /proc is unavailable (non-Linux).
+ */
+export async function readProcessSample(pid: number): Promise<ProcessSample | null> {
+  try {
+    const [stat, status] = await Promise.all([
+      fs.readFile(`/proc/${pid}/stat`, 'utf8'),
+      fs.readFile(`/proc/${pid}/status`, 'utf8'),
+    ]);
+
+    // The command name may contain spaces, so split after its closing paren.
+    // Fields then start at 3 (state); utime and stime are fields 14 and 15.
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const cpuTicks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+
+    const rss = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    const rssBytes = rss ? parseInt(rss[1], 10) * 1024 : 0;
+
+    return { pid, cpuTicks, rssBytes, takenAt: Date.now() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * CPU use between two samples of the same process, as a percentage of
+ * one core (capped to fit agent_resources.cpu_percent).
+ */
+export function cpuPercentBetween(previous: ProcessSample, current: ProcessSample): number {
+  const elapsedSeconds = (current.takenAt - previous.takenAt) / 1000;
+  if (elapsedSeconds <= 0) return 0;
+
+  const cpuSeconds = (current.cpuTicks - previous.cpuTicks) / CLOCK_TICKS_PER_SECOND;
+  const percent = Math.round((cpuSeconds / elapsedSeconds) * 10000) / 100;
+  return Math.min(Math.max(0, percent), 999.99);
+}
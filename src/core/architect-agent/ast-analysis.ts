@@ -0,0 +1,505 @@
+/**
+ * AST Analysis
+ *
+ * Code analyses built on the TypeScript compiler API, used by the
+ * QualityAnalyzer:
+ * - Cyclomatic and cognitive complexity per function
+ * - Explicit `any` usage
+ * - Promises that are neither awaited nor handled (needs the type checker)
+ * - Exports no other module imports (needs the type checker)
+ * - Token-based clone detection
+ */
+
+import ts from 'typescript';
+
+export interface SourceLocation {
+  line: number;       // 1-based
+  column: number;     // 1-based
+  endLine: number;
+  endColumn: number;
+}
+
+export interface FunctionMetrics extends SourceLocation {
+  name: string;
+  cyclomatic: number;
+  cognitive: number;
+  lines: number;
+}
+
+export interface UnusedExport extends SourceLocation {
+  file: string;
+  name: string;
+}
+
+export interface CodeClone {
+  file: string;
+  location: SourceLocation;
+  otherFile: string;
+  otherLocation: SourceLocation;
+  tokens: number;
+}
+
+export interface CloneReport {
+  clones: CodeClone[];
+  totalTokens: number;
+  duplicatedTokens: number;
+}
+
+export function locationOf(node: ts.Node, sourceFile: ts.SourceFile): SourceLocation {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  };
+}
+
+type FunctionNode = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+function isFunctionWithBody(node: ts.Node): node is FunctionNode {
+  return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) || ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node)) && node.body !== undefined;
+}
+
+function isLogicalOperator(kind: ts.SyntaxKind): boolean {
+  return kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+    kind === ts.SyntaxKind.BarBarToken ||
+    kind === ts.SyntaxKind.QuestionQuestionToken;
+}
+
+function isLogicalAssignment(kind: ts.SyntaxKind): boolean {
+  return kind === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+    kind === ts.SyntaxKind.BarBarEqualsToken ||
+    kind === ts.SyntaxKind.QuestionQuestionEqualsToken;
+}
+
+function functionName(node: FunctionNode, sourceFile: ts.SourceFile): string {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name) return node.name.getText(sourceFile);
+
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) &&
+      parent.name) {
+    return parent.name.getText(sourceFile);
+  }
+  return '<anonymous>';
+}
+
+/**
+ * McCabe complexity: one plus each branch point. Nested functions are
+ * measured on their own.
+ */
+function cyclomaticComplexity(body: ts.Node): number {
+  let complexity = 1;
+
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node) || ts.isClassLike(node)) return;
+
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        complexity++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const kind = (node as ts.BinaryExpression).operatorToken.kind;
+        if (isLogicalOperator(kind) || isLogicalAssignment(kind)) complexity++;
+        break;
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(body);
+  return complexity;
+}
+
+/**
+ * Cognitive complexity (Sonar): breaks in linear flow cost one, plus one
+ * per level of nesting for structures that nest; each run of like logical
+ * operators costs one. Callbacks add nesting to the function they are in.
+ */
+function cognitiveComplexity(body: ts.Node): number {
+  let complexity = 0;
+
+  const logicalSequence = (node: ts.BinaryExpression): void => {
+    const operators: ts.SyntaxKind[] = [];
+    const flatten = (expr: ts.Expression): void => {
+      if (ts.isBinaryExpression(expr) && isLogicalOperator(expr.operatorToken.kind)) {
+        flatten(expr.left);
+        operators.push(expr.operatorToken.kind);
+        flatten(expr.right);
+      }
+    };
+    flatten(node);
+    operators.forEach((op, i) => {
+      if (i === 0 || op !== operators[i - 1]) complexity++;
+    });
+  };
+
+  const visit = (node: ts.Node, nesting: number): void => {
+    if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isClassLike(node)) return;
+
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      ts.forEachChild(node, child => visit(child, nesting + 1));
+      return;
+    }
+
+    if (ts.isIfStatement(node)) {
+      const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      complexity += isElseIf ? 1 : 1 + nesting;
+      visit(node.expression, nesting);
+      visit(node.thenStatement, nesting + 1);
+      if (node.elseStatement) {
+        if (ts.isIfStatement(node.elseStatement)) {
+          visit(node.elseStatement, nesting);
+        } else {
+          complexity++;
+          visit(node.elseStatement, nesting + 1);
+        }
+      }
+      return;
+    }
+
+    if (ts.isConditionalExpression(node) || ts.isSwitchStatement(node) || ts.isForStatement(node) ||
+        ts.isForInStatement(node) || ts.isForOfStatement(node) || ts.isWhileStatement(node) ||
+        ts.isDoStatement(node) || ts.isCatchClause(node)) {
+      complexity += 1 + nesting;
+      ts.forEachChild(node, child => visit(child, nesting + 1));
+      return;
+    }
+
+    if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+      complexity++;
+    }
+
+    if (ts.isBinaryExpression(node) && isLogicalOperator(node.operatorToken.kind) &&
+        !(ts.isBinaryExpression(node.parent) && isLogicalOperator(node.parent.operatorToken.kind))) {
+      logicalSequence(node);
+    }
+
+    ts.forEachChild(node, child => visit(child, nesting));
+  };
+
+  visit(body, 0);
+  return complexity;
+}
+
+/**
+ * Complexity of every function, method and callback in a file
+ */
+export function measureFunctions(sourceFile: ts.SourceFile): FunctionMetrics[] {
+  const functions: FunctionMetrics[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node)) {
+      const location = locationOf(node, sourceFile);
+      functions.push({
+        name: functionName(node, sourceFile),
+        ...location,
+        cyclomatic: cyclomaticComplexity(node.body),
+        cognitive: cognitiveComplexity(node.body),
+        lines: location.endLine - location.line + 1,
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return functions;
+}
+
+/**
+ * Every explicit `any` type annotation
+ */
+export function findAnyUsages(sourceFile: ts.SourceFile): SourceLocation[] {
+  const usages: SourceLocation[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      usages.push(locationOf(node, sourceFile));
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return usages;
+}
+
+function isPromiseLike(type: ts.Type): boolean {
+  if (type.isUnion()) {
+    return type.types.some(isPromiseLike);
+  }
+  return type.getProperty('then') !== undefined;
+}
+
+/**
+ * Expression statements that produce a promise nobody awaits, returns,
+ * voids or attaches a rejection handler to
+ */
+export function findUnhandledPromises(sourceFile: ts.SourceFile, checker: ts.TypeChecker): SourceLocation[] {
+  const unhandled: SourceLocation[] = [];
+
+  const isHandled = (expr: ts.Expression): boolean => {
+    if (!ts.isCallExpression(expr) || !ts.isPropertyAccessExpression(expr.expression)) return false;
+    const method = expr.expression.name.text;
+    return method === 'catch' || (method === 'then' && expr.arguments.length >= 2);
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isExpressionStatement(node)) {
+      const expr = ts.skipPartiallyEmittedExpressions(node.expression);
+      const inner = ts.isParenthesizedExpression(expr) ? expr.expression : expr;
+
+      if ((ts.isCallExpression(inner) || ts.isNewExpression(inner)) && !isHandled(inner) &&
+          isPromiseLike(checker.getTypeAtLocation(inner))) {
+        unhandled.push(locationOf(node, sourceFile));
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return unhandled;
+}
+
+/**
+ * Exports of the given files that no module in the program imports or
+ * re-exports. Entry points are the caller's to leave out.
+ */
+export function findUnusedExports(
+  program: ts.Program,
+  files: ts.SourceFile[],
+  relativePath: (sourceFile: ts.SourceFile) => string
+): UnusedExport[] {
+  const checker = program.getTypeChecker();
+  const used = new Set<ts.Symbol>();
+
+  const resolve = (symbol: ts.Symbol | undefined): ts.Symbol | undefined =>
+    symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+
+  const useModule = (specifier: ts.Expression): void => {
+    const moduleSymbol = checker.getSymbolAtLocation(specifier);
+    if (!moduleSymbol) return;
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const target = resolve(exported);
+      if (target) used.add(target);
+    }
+  };
+
+  const markUses = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && node.importClause) {
+      const { name, namedBindings } = node.importClause;
+      if (name) {
+        const target = resolve(checker.getSymbolAtLocation(name));
+        if (target) used.add(target);
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        useModule(node.moduleSpecifier);
+      } else if (namedBindings) {
+        for (const element of namedBindings.elements) {
+          const target = resolve(checker.getSymbolAtLocation(element.name));
+          if (target) used.add(target);
+        }
+      }
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+        for (const element of node.exportClause.elements) {
+          const target = resolve(checker.getSymbolAtLocation(element.name));
+          if (target) used.add(target);
+        }
+      } else {
+        useModule(node.moduleSpecifier);
+      }
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+               node.arguments.length > 0) {
+      useModule(node.arguments[0]);
+    }
+    ts.forEachChild(node, markUses);
+  };
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (!sourceFile.isDeclarationFile) {
+      markUses(sourceFile);
+    }
+  }
+
+  const unused: UnusedExport[] = [];
+
+  for (const sourceFile of files) {
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const declaration = exported.declarations?.[0];
+      // Re-exports belong to the module that declares them
+      if (!declaration || declaration.getSourceFile() !== sourceFile || exported.flags & ts.SymbolFlags.Alias) {
+        continue;
+      }
+      if (!used.has(exported)) {
+        const named = ts.getNameOfDeclaration(declaration) || declaration;
+        unused.push({
+          file: relativePath(sourceFile),
+          name: exported.getName(),
+          ...locationOf(named, sourceFile),
+        });
+      }
+    }
+  }
+
+  return unused;
+}
+
+interface Token {
+  text: string;
+  pos: number;
+}
+
+function tokenize(sourceFile: ts.SourceFile): Token[] {
+  const tokens: Token[] = [];
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, sourceFile.languageVariant);
+
+  for (const statement of sourceFile.statements) {
+    // Import lists repeat across files without being duplicated logic
+    if (ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)) continue;
+
+    scanner.setText(sourceFile.text, statement.getStart(sourceFile), statement.getEnd() - statement.getStart(sourceFile));
+    for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+      tokens.push({ text: scanner.getTokenText(), pos: scanner.getTokenStart() });
+    }
+  }
+
+  return tokens;
+}
+
+function hashToken(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+/**
+ * Find runs of at least `minTokens` identical tokens (comments and
+ * whitespace ignored) in two places, across files or within one.
+ * Windows are matched by rolling hash, then confirmed token by token.
+ */
+export function detectClones(
+  sourceFiles: Array<{ file: string; sourceFile: ts.SourceFile }>,
+  minTokens: number = 50
+): CloneReport {
+  const BASE = 1000003;
+  const MOD = 2147483647;
+  let basePower = 1;
+  for (let i = 0; i < minTokens - 1; i++) {
+    basePower = (basePower * BASE) % MOD;
+  }
+
+  const tokenized = sourceFiles.map(({ file, sourceFile }) => ({ file, sourceFile, tokens: tokenize(sourceFile) }));
+  const windows = new Map<number, Array<{ fileIndex: number; start: number }>>();
+
+  tokenized.forEach(({ tokens }, fileIndex) => {
+    if (tokens.length < minTokens) return;
+    // Kept to 22 bits so products with the base power stay exact in a double
+    const hashes = tokens.map(t => hashToken(t.text) & 0x3fffff);
+
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      if (i >= minTokens) {
+        hash = (hash - (hashes[i - minTokens] * basePower) % MOD + MOD) % MOD;
+      }
+      hash = (hash * BASE + hashes[i]) % MOD;
+      if (i >= minTokens - 1) {
+        const start = i - minTokens + 1;
+        const bucket = windows.get(hash);
+        if (bucket) bucket.push({ fileIndex, start });
+        else windows.set(hash, [{ fileIndex, start }]);
+      }
+    }
+  });
+
+  const sameTokens = (a: { fileIndex: number; start: number }, b: { fileIndex: number; start: number }): boolean => {
+    const ta = tokenized[a.fileIndex].tokens;
+    const tb = tokenized[b.fileIndex].tokens;
+    for (let k = 0; k < minTokens; k++) {
+      if (ta[a.start + k].text !== tb[b.start + k].text) return false;
+    }
+    return true;
+  };
+
+  // For each window, the first other place it occurs
+  const partners = tokenized.map(({ tokens }) => new Array<{ fileIndex: number; start: number } | undefined>(tokens.length));
+  for (const bucket of windows.values()) {
+    if (bucket.length < 2) continue;
+    for (const here of bucket) {
+      const other = bucket.find(there =>
+        (there.fileIndex !== here.fileIndex || Math.abs(there.start - here.start) >= minTokens) && sameTokens(here, there)
+      );
+      if (other) partners[here.fileIndex][here.start] = other;
+    }
+  }
+
+  const clones: CodeClone[] = [];
+  let totalTokens = 0;
+  let duplicatedTokens = 0;
+
+  const locationAt = (fileIndex: number, first: number, last: number): SourceLocation => {
+    const { sourceFile, tokens } = tokenized[fileIndex];
+    const start = sourceFile.getLineAndCharacterOfPosition(tokens[first].pos);
+    const end = sourceFile.getLineAndCharacterOfPosition(tokens[last].pos + tokens[last].text.length);
+    return { line: start.line + 1, column: start.character + 1, endLine: end.line + 1, endColumn: end.character + 1 };
+  };
+
+  tokenized.forEach(({ file, tokens }, fileIndex) => {
+    totalTokens += tokens.length;
+    const duplicated = new Uint8Array(tokens.length);
+
+    let i = 0;
+    while (i < tokens.length) {
+      const other = partners[fileIndex][i];
+      if (!other) {
+        i++;
+        continue;
+      }
+
+      // Extend while the next window continues the same clone
+      let end = i;
+      while (end + 1 < tokens.length) {
+        const next = partners[fileIndex][end + 1];
+        if (!next || next.fileIndex !== other.fileIndex || next.start !== other.start + (end + 1 - i)) break;
+        end++;
+      }
+
+      const last = end + minTokens - 1;
+      duplicated.fill(1, i, last + 1);
+
+      // Report each pair once, from the earlier location
+      if (fileIndex < other.fileIndex || (fileIndex === other.fileIndex && i < other.start)) {
+        clones.push({
+          file,
+          location: locationAt(fileIndex, i, last),
+          otherFile: tokenized[other.fileIndex].file,
+          otherLocation: locationAt(other.fileIndex, other.start, other.start + (last - i)),
+          tokens: last - i + 1,
+        });
+      }
+
+      i = end + 1;
+    }
+
+    duplicatedTokens += duplicated.reduce((sum, d) => sum + d, 0);
+  });
+
+  return { clones, totalTokens, duplicatedTokens };
+}
@@ -19,6 +19,7 @@ import { getDatabase } from '../../lib/database.js';
 import { getLearningSystem } from '../learning/index.js';
 import { QualityAnalyzer, type QualityReport } from './quality-analyzer.js';
 import { RequirementsMapper, type RequirementsReport } from './requirements-mapper.js';
+import { toSarif, type SarifLog } from './sarif.js';
 import { TestCoverageAnalyzer, type CoverageReport } from './test-coverage-analyzer.js';
 import type { AgentType } from '../../types/index.js';
 
@@ -44,7 +45,7 @@ function getUncoveredFiles(report: CoverageReport): string[] {
 }
 
 function getMissingRequirements(report: RequirementsReport): string[] {
-  return report.criticalMissing.map(r => r.description);
+  return report.criticalMissing.map(r => `${r.id}: ${r.description}`);
 }
 
 export interface ArchitectReviewConfig {
@@ -92,6 +93,9 @@ export interface ArchitectReviewResult {
   requirementsReport: RequirementsReport;
   coverageReport: CoverageReport;
 
+  // Quality issues as a SARIF log, for code scanning tools and the dashboard
+  sarif: SarifLog;
+
   // Overall verdict
   overallPass: boolean;
   score: number;  // 0-100
@@ -161,7 +165,10 @@ export class ArchitectAgent extends EventEmitter {
     this.agentId = uuidv4();
 
     this.qualityAnalyzer = new QualityAnalyzer(config.projectDir);
-    this.requirementsMapper = new RequirementsMapper(config.projectDir);
+    this.requirementsMapper = new RequirementsMapper(config.projectDir, {
+      projectId: config.projectId,
+      specFiles: config.requirementsSource ? [config.requirementsSource] : undefined,
+    });
     this.coverageAnalyzer = new TestCoverageAnalyzer(config.projectDir);
   }
 
@@ -268,6 +275,7 @@ export class ArchitectAgent extends EventEmitter {
         qualityReport,
         requirementsReport,
         coverageReport,
+        sarif: toSarif(qualityReport),
         overallPass,
         score,
         grade,
@@ -454,6 +462,13 @@ export class ArchitectAgent extends EventEmitter {
       recommendedFixes.push(`[HIGH] ${issue.file}${lineInfo} - ${issue.message}`);
     }
 
+    // Medium: Requirements implemented without tests
+    for (const req of requirements.categories.flatMap(c => c.requirements)
+      .filter(r => r.implementedIn.length > 0 && r.testedBy.length === 0)
+      .slice(0, 5)) {
+      recommendedFixes.push(`[MEDIUM] Add tests for requirement ${req.id}: ${req.description}`);
+    }
+
     // Medium: Test coverage gaps
     const uncoveredFiles = getUncoveredFiles(coverage);
     for (const file of uncoveredFiles.slice(0, 10)) {
@@ -1,23 +1,40 @@
 /**
  * Requirements Mapper Module
  *
- * Maps project requirements to implementation:
- * - Parses specification documents
- * - Identifies implemented vs missing features
- * - Calculates requirements coverage
- * - Tracks feature completion status
+ * Maps a project's requirements to implementation:
+ * - Extracts requirements from the project's spec documents (headings,
+ *   checklists, user stories), task acceptance criteria, or failing those
+ *   the project description
+ * - Assigns stable IDs so requirements can be tracked across reviews
+ * - Builds a traceability matrix linking requirements to files, tests and tasks
+ * - Calculates requirements coverage from that matrix
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { getDatabase } from '../../lib/database.js';
+import type { TaskStatus } from '../../types/index.js';
+
+export type RequirementPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface RequirementSource {
+  type: 'spec' | 'task' | 'description';
+  file?: string;
+  line?: number;
+  taskId?: string;
+}
 
 export interface Requirement {
   id: string;
   category: string;
   description: string;
-  priority: 'critical' | 'high' | 'medium' | 'low';
+  priority: RequirementPriority;
   status: 'implemented' | 'partial' | 'missing' | 'unknown';
+  source: RequirementSource;
   implementedIn: string[];
+  testedBy: string[];
+  tasks: string[];
   coverage: number;
   notes?: string;
 }
@@ -28,6 +45,22 @@ export interface RequirementsCategory {
   coverage: number;
 }
 
+export interface TraceabilityEntry {
+  requirementId: string;
+  description: string;
+  status: Requirement['status'];
+  files: string[];
+  tests: string[];
+  tasks: string[];
+}
+
+export interface TraceabilityMatrix {
+  entries: TraceabilityEntry[];
+  fileIndex: Record<string, string[]>;  // File or test path -> requirement IDs
+  taskIndex: Record<string, string[]>;  // Task ID -> requirement IDs
+  untracedTasks: string[];              // Tasks that trace to no requirement
+}
+
 export interface RequirementsReport {
   timestamp: Date;
   projectPath: string;
@@ -39,339 +72,369 @@ export interface RequirementsReport {
   overallCoverage: number;
   categories: RequirementsCategory[];
   criticalMissing: Requirement[];
+  traceability: TraceabilityMatrix;
   recommendations: string[];
 }
 
-// Known Eklavya requirements from the spec
-const EKLAVYA_REQUIREMENTS: Array<{
+export interface RequirementTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  acceptanceCriteria: string[];
+}
+
+export interface RequirementsMapperOptions {
+  projectId?: string;           // Load description and tasks from the database
+  projectDescription?: string;
+  tasks?: RequirementTask[];
+  specFiles?: string[];         // Spec documents to read besides the discovered ones
+}
+
+/**
+ * A requirement as written, before it is traced to the codebase
+ */
+export interface ExtractedRequirement {
   id: string;
   category: string;
   description: string;
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  searchPatterns: string[];
-}> = [
-  // Core Architecture
-  {
-    id: 'CORE-001',
-    category: 'Core Architecture',
-    description: 'Agent Manager for lifecycle management',
-    priority: 'critical',
-    searchPatterns: ['agent-manager', 'AgentManager', 'spawnAgent', 'terminateAgent'],
-  },
-  {
-    id: 'CORE-002',
-    category: 'Core Architecture',
-    description: 'Message Bus for inter-agent communication',
-    priority: 'critical',
-    searchPatterns: ['message-bus', 'MessageBus', 'sendMessage', 'pub/sub'],
-  },
-  {
-    id: 'CORE-003',
-    category: 'Core Architecture',
-    description: 'Checkpoint system for state persistence',
-    priority: 'critical',
-    searchPatterns: ['checkpoint', 'CheckpointManager', 'saveCheckpoint', 'restoreCheckpoint'],
-  },
-  {
-    id: 'CORE-004',
-    category: 'Core Architecture',
-    description: 'Learning system with Thompson Sampling',
-    priority: 'critical',
-    searchPatterns: ['learning', 'LearningSystem', 'ThompsonSampling', 'selectPrompt'],
-  },
-
-  // Database
-  {
-    id: 'DB-001',
-    category: 'Database',
-    description: 'PostgreSQL integration with connection pooling',
-    priority: 'critical',
-    searchPatterns: ['postgresql', 'pg', 'database', 'getDatabase', 'pool'],
-  },
-  {
-    id: 'DB-002',
-    category: 'Database',
-    description: 'Database migrations system',
-    priority: 'high',
-    searchPatterns: ['migration', 'migrate', 'schema'],
-  },
-  {
-    id: 'DB-003',
-    category: 'Database',
-    description: 'Projects table and CRUD operations',
-    priority: 'critical',
-    searchPatterns: ['projects', 'createProject', 'getProject'],
-  },
-  {
-    id: 'DB-004',
-    category: 'Database',
-    description: 'Agents table with status tracking',
-    priority: 'critical',
-    searchPatterns: ['agents', 'agent_type', 'agent status'],
-  },
-  {
-    id: 'DB-005',
-    category: 'Database',
-    description: 'Tasks table with assignment tracking',
-    priority: 'critical',
-    searchPatterns: ['tasks', 'task_assign', 'task_complete'],
-  },
-  {
-    id: 'DB-006',
-    category: 'Database',
-    description: 'Messages table for agent communication',
-    priority: 'high',
-    searchPatterns: ['messages', 'message_type', 'from_agent_id'],
-  },
-  {
-    id: 'DB-007',
-    category: 'Database',
-    description: 'Prompts table with RL parameters',
-    priority: 'critical',
-    searchPatterns: ['prompts', 'alpha', 'beta', 'thompson'],
-  },
-  {
-    id: 'DB-008',
-    category: 'Database',
-    description: 'RL Outcomes table for learning',
-    priority: 'high',
-    searchPatterns: ['rl_outcomes', 'reward', 'outcome'],
-  },
-
-  // Agent Types
-  {
-    id: 'AGENT-001',
-    category: 'Agent Types',
-    description: 'Orchestrator agent for project coordination',
-    priority: 'critical',
-    searchPatterns: ['orchestrator', 'OrchestratorAgent', 'orchestrator-agent'],
-  },
-  {
-    id: 'AGENT-002',
-    category: 'Agent Types',
-    description: 'Architect agent for technical design',
-    priority: 'high',
-    searchPatterns: ['architect', 'ArchitectAgent', 'architect-agent'],
-  },
-  {
-    id: 'AGENT-003',
-    category: 'Agent Types',
-    description: 'Developer agent for code implementation',
-    priority: 'critical',
-    searchPatterns: ['developer', 'DeveloperAgent', 'developer-agent'],
-  },
-  {
-    id: 'AGENT-004',
-    category: 'Agent Types',
-    description: 'Tester agent for test creation/execution',
-    priority: 'high',
-    searchPatterns: ['tester', 'TesterAgent', 'tester-agent'],
-  },
-  {
-    id: 'AGENT-005',
-    category: 'Agent Types',
-    description: 'QA agent for E2E validation',
-    priority: 'medium',
-    searchPatterns: ['qa-agent', 'QAAgent', 'playwright'],
-  },
-  {
-    id: 'AGENT-006',
-    category: 'Agent Types',
-    description: 'PM agent for requirements management',
-    priority: 'medium',
-    searchPatterns: ['pm-agent', 'PMAgent', 'requirements'],
-  },
-  {
-    id: 'AGENT-007',
-    category: 'Agent Types',
-    description: 'Mentor agent for guidance',
-    priority: 'medium',
-    searchPatterns: ['mentor', 'MentorAgent', 'mentor-agent'],
-  },
-
-  // API Layer
-  {
-    id: 'API-001',
-    category: 'API',
-    description: 'REST API server',
-    priority: 'critical',
-    searchPatterns: ['api/index', 'ApiServer', 'http server', 'express'],
-  },
-  {
-    id: 'API-002',
-    category: 'API',
-    description: 'Projects API endpoints',
-    priority: 'critical',
-    searchPatterns: ['/api/projects', 'getProjects', 'createProject'],
-  },
-  {
-    id: 'API-003',
-    category: 'API',
-    description: 'Agents API endpoints',
-    priority: 'high',
-    searchPatterns: ['/api/agents', 'getAgents', 'agent endpoint'],
-  },
-  {
-    id: 'API-004',
-    category: 'API',
-    description: 'Dashboard API endpoints',
-    priority: 'high',
-    searchPatterns: ['/api/dashboard', 'getDashboardStats', 'dashboard'],
-  },
-  {
-    id: 'API-005',
-    category: 'API',
-    description: 'WebSocket server for real-time updates',
-    priority: 'high',
-    searchPatterns: ['websocket', 'WebSocketService', 'ws server'],
-  },
-
-  // Frontend
-  {
-    id: 'UI-001',
-    category: 'Frontend',
-    description: 'Next.js dashboard application',
-    priority: 'high',
-    searchPatterns: ['next.config', 'app/page', 'Next.js'],
-  },
-  {
-    id: 'UI-002',
-    category: 'Frontend',
-    description: 'Project management UI',
-    priority: 'high',
-    searchPatterns: ['projects page', 'project list', 'ProjectCard'],
-  },
-  {
-    id: 'UI-003',
-    category: 'Frontend',
-    description: 'Real-time agent status display',
-    priority: 'high',
-    searchPatterns: ['agent status', 'useWebSocket', 'real-time'],
-  },
-  {
-    id: 'UI-004',
-    category: 'Frontend',
-    description: 'Dashboard with statistics',
-    priority: 'high',
-    searchPatterns: ['dashboard', 'stats', 'useDashboardStats'],
-  },
-
-  // RL Learning
-  {
-    id: 'RL-001',
-    category: 'Reinforcement Learning',
-    description: 'Thompson Sampling for prompt selection',
-    priority: 'critical',
-    searchPatterns: ['thompson', 'beta distribution', 'selectPrompt'],
-  },
-  {
-    id: 'RL-002',
-    category: 'Reinforcement Learning',
-    description: 'Reward signal processing',
-    priority: 'critical',
-    searchPatterns: ['reward', 'recordOutcome', 'updatePrompt'],
-  },
-  {
-    id: 'RL-003',
-    category: 'Reinforcement Learning',
-    description: 'Prompt version management',
-    priority: 'high',
-    searchPatterns: ['prompt version', 'experimental', 'candidate', 'production'],
-  },
-  {
-    id: 'RL-004',
-    category: 'Reinforcement Learning',
-    description: 'Exploration vs exploitation balance',
-    priority: 'medium',
-    searchPatterns: ['exploration', 'explorationRate', 'candidateRate'],
-  },
-
-  // Testing
-  {
-    id: 'TEST-001',
-    category: 'Testing',
-    description: 'Unit test framework setup',
-    priority: 'high',
-    searchPatterns: ['vitest', 'jest', 'test(', 'describe('],
-  },
-  {
-    id: 'TEST-002',
-    category: 'Testing',
-    description: 'E2E test framework setup',
-    priority: 'medium',
-    searchPatterns: ['playwright', 'e2e', 'browser test'],
-  },
-  {
-    id: 'TEST-003',
-    category: 'Testing',
-    description: 'Demo verification tests',
-    priority: 'high',
-    searchPatterns: ['demo-tester', 'verification', 'success criteria'],
-  },
-
-  // Security
-  {
-    id: 'SEC-001',
-    category: 'Security',
-    description: 'Environment variable configuration',
-    priority: 'critical',
-    searchPatterns: ['process.env', 'dotenv', 'environment'],
-  },
-  {
-    id: 'SEC-002',
-    category: 'Security',
-    description: 'Parameterized database queries',
-    priority: 'critical',
-    searchPatterns: ['$1', 'parameterized', 'query('],
-  },
-  {
-    id: 'SEC-003',
-    category: 'Security',
-    description: 'Input validation',
-    priority: 'high',
-    searchPatterns: ['validate', 'sanitize', 'input check'],
-  },
-
-  // DevOps
-  {
-    id: 'OPS-001',
-    category: 'DevOps',
-    description: 'Docker configuration',
-    priority: 'medium',
-    searchPatterns: ['Dockerfile', 'docker-compose', 'container'],
-  },
-  {
-    id: 'OPS-002',
-    category: 'DevOps',
-    description: 'Development scripts',
-    priority: 'high',
-    searchPatterns: ['npm run', 'package.json scripts', 'dev server'],
-  },
+  priority: RequirementPriority;
+  source: RequirementSource;
+  keywords: string[];
+  checked?: boolean;
+}
+
+const IGNORED_DIRS = ['node_modules', 'dist', 'build', '.git', '.next', 'coverage', 'vendor', '__pycache__'];
+
+const CODE_EXTENSIONS = [
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php', '.cs', '.swift',
+  '.sql', '.html', '.css', '.scss',
+];
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const TEST_FILE = /(\.(test|spec)\.[a-z]+$)|(^|\/)(tests?|__tests__|e2e|spec)\/|(^|\/)test_[^/]+\.py$|_test\.(go|py)$/;
+
+const SPEC_FILE = /(spec|requirement|prd|user[-_ ]?stor|feature|acceptance|scope|roadmap|milestone)/i;
+const SPEC_DIR = /^(docs?|specs?|requirements)\//i;
+const NOT_SPEC_FILE = /^(changelog|contributing|license|code_of_conduct|security)\b/i;
+
+// Sections whose plain bullets are requirements, not prose
+const REQUIREMENTS_SECTION = /requirement|feature|user stor|acceptance|criteria|scope|capabilit|deliverable|must|should|goal/i;
+
+// Headings that organise a document rather than describe something to build
+const STRUCTURAL_HEADING = /^(table of contents|contents|overview|introduction|summary|executive summary|background|appendix|references|glossary|notes|changelog|license|contributing|installation|getting started|usage|faq|open questions|out of scope|non[- ]goals)\b/i;
+
+const USER_STORY = /\bas an? ([^,]+?),?\s+i (?:want|need|would like|can|should be able)\b/i;
+const EXPLICIT_ID = /^\[?([A-Z][A-Z0-9]*-\d+[A-Z0-9]*)\]?\s*[:.)\-–]?\s+/;
+
+const PRIORITY_PATTERNS: Array<{ priority: RequirementPriority; pattern: RegExp }> = [
+  { priority: 'critical', pattern: /\b(must|critical|p0|required|mandatory|blocker)\b/i },
+  { priority: 'high', pattern: /\b(should|high|p1|important)\b/i },
+  { priority: 'low', pattern: /\b(could|nice to have|optional|low|p3|later|future)\b/i },
 ];
 
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'as', 'by',
+  'be', 'is', 'are', 'was', 'it', 'its', 'that', 'this', 'these', 'those', 'so', 'can', 'i', 'we',
+  'they', 'them', 'their', 'my', 'our', 'you', 'your', 'should', 'must', 'will', 'shall', 'could',
+  'would', 'may', 'might', 'want', 'need', 'able', 'allow', 'have', 'has', 'from', 'into', 'when',
+  'then', 'than', 'each', 'all', 'any', 'not', 'no', 'via', 'also', 'other', 'some', 'such', 'more',
+  'etc', 'e', 'g', 'ie', 'if', 'do', 'does', 'use', 'using', 'new', 'get', 'set', 'make', 'like',
+  'support', 'provide', 'system', 'feature', 'requirement', 'given', 'there', 'which', 'who', 'what',
+  'how', 'only', 'every', 'one', 'two', 'without', 'within', 'per',
+]);
+
+/**
+ * Stable requirement ID: the ID written in the spec if there is one,
+ * otherwise a hash of the normalised text, so it survives reordering
+ * and edits to the rest of the document
+ */
+export function requirementId(description: string): string {
+  const normalized = description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return `REQ-${createHash('sha1').update(normalized).digest('hex').substring(0, 8).toUpperCase()}`;
+}
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text or code into stemmed lowercase words, breaking camelCase,
+ * snake_case and kebab-case identifiers apart
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+function extractKeywords(description: string): string[] {
+  // For user stories the benefit ("so that ...") says nothing about the code
+  const want = description.match(/\bi (?:want|need|would like|can|should be able)(?: to)?\s+(.*?)(?:,?\s+so that\b.*)?$/i);
+  const text = want ? want[1] : description;
+  return [...new Set(tokenize(text).filter(w => w.length > 2 && !STOPWORDS.has(w)))];
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function detectPriority(text: string): RequirementPriority | undefined {
+  for (const { priority, pattern } of PRIORITY_PATTERNS) {
+    if (pattern.test(text)) return priority;
+  }
+  return undefined;
+}
+
+function toRequirement(
+  text: string,
+  category: string,
+  source: RequirementSource,
+  inheritedPriority?: RequirementPriority,
+  checked?: boolean
+): ExtractedRequirement | null {
+  let description = stripMarkdown(text);
+  let id: string | undefined;
+
+  const explicit = description.match(EXPLICIT_ID);
+  if (explicit) {
+    id = explicit[1];
+    description = description.slice(explicit[0].length).trim();
+  }
+
+  const keywords = extractKeywords(description);
+  if (keywords.length === 0) {
+    return null;
+  }
+
+  return {
+    id: id || requirementId(description),
+    category,
+    description,
+    priority: detectPriority(description) || inheritedPriority || 'medium',
+    source,
+    keywords,
+    checked,
+  };
+}
+
+interface SpecLine {
+  line: number;
+  kind: 'heading' | 'checklist' | 'bullet' | 'text';
+  level: number;  // Heading level, or indentation for list items
+  text: string;
+  checked?: boolean;
+}
+
+function scanMarkdown(content: string): SpecLine[] {
+  const lines: SpecLine[] = [];
+  let inFence = false;
+
+  content.split('\n').forEach((raw, index) => {
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence || !raw.trim()) return;
+
+    const line = index + 1;
+    const heading = raw.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const checklist = raw.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.+)$/);
+    const bullet = raw.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.+)$/);
+
+    if (heading) {
+      lines.push({ line, kind: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (checklist) {
+      lines.push({ line, kind: 'checklist', level: checklist[1].length, text: checklist[3], checked: checklist[2] !== ' ' });
+    } else if (bullet) {
+      lines.push({ line, kind: 'bullet', level: bullet[1].length, text: bullet[2] });
+    } else {
+      lines.push({ line, kind: 'text', level: 0, text: raw.trim() });
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Extract requirements from a markdown spec.
+ *
+ * Checklist items and user stories are requirements wherever they appear;
+ * top-level bullets are requirements inside sections that list them
+ * ("Requirements", "Features", "Acceptance Criteria", ...). A heading is a
+ * requirement when nothing finer-grained sits under it. Categories come
+ * from the nearest level-2 heading.
+ */
+export function extractSpecRequirements(content: string, file: string): ExtractedRequirement[] {
+  const lines = scanMarkdown(content);
+  const requirements: ExtractedRequirement[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  const fallbackCategory = path.basename(file, path.extname(file));
+
+  const sectionHasItems = (start: number, level: number): boolean => {
+    for (let i = start + 1; i < lines.length; i++) {
+      const entry = lines[i];
+      if (entry.kind === 'heading') {
+        if (entry.level <= level) return false;
+        return true;  // A sub-heading is finer-grained
+      }
+      if (entry.kind === 'checklist' || USER_STORY.test(entry.text)) return true;
+      if (entry.kind === 'bullet' && entry.level === 0 && REQUIREMENTS_SECTION.test(lines[start].text)) return true;
+    }
+    return false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const entry = lines[i];
+
+    if (entry.kind === 'heading') {
+      while (headings.length > 0 && headings[headings.length - 1].level >= entry.level) {
+        headings.pop();
+      }
+      headings.push({ level: entry.level, text: stripMarkdown(entry.text).replace(/^\d+(\.\d+)*\.?\s+/, '') });
+    }
+
+    const section = headings.find(h => h.level === 2) || headings.find(h => h.level === 1);
+    const category = section?.text || fallbackCategory;
+    const inheritedPriority = [...headings].reverse()
+      .map(h => detectPriority(h.text))
+      .find(Boolean);
+    const inRequirementsSection = headings.some(h => REQUIREMENTS_SECTION.test(h.text));
+    const source: RequirementSource = { type: 'spec', file, line: entry.line };
+
+    let requirement: ExtractedRequirement | null = null;
+
+    switch (entry.kind) {
+      case 'heading': {
+        const text = headings[headings.length - 1].text;
+        if (entry.level >= 2 && !STRUCTURAL_HEADING.test(text) && !sectionHasItems(i, entry.level)) {
+          // A leaf level-2 heading is its own category; file under the document title instead
+          const headingCategory = entry.level === 2
+            ? headings.find(h => h.level === 1)?.text || fallbackCategory
+            : category;
+          requirement = toRequirement(text, headingCategory, source, inheritedPriority);
+        }
+        break;
+      }
+      case 'checklist':
+        requirement = toRequirement(entry.text, category, source, inheritedPriority, entry.checked);
+        break;
+      case 'bullet':
+        if (USER_STORY.test(entry.text) || (inRequirementsSection && entry.level === 0)) {
+          requirement = toRequirement(entry.text, category, source, inheritedPriority);
+        }
+        break;
+      case 'text':
+        if (USER_STORY.test(entry.text)) {
+          requirement = toRequirement(entry.text, category, source, inheritedPriority);
+        }
+        break;
+    }
+
+    if (requirement) {
+      requirements.push(requirement);
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * Each acceptance criterion of a task is a requirement, grouped under the task
+ */
+export function extractTaskRequirements(tasks: RequirementTask[]): ExtractedRequirement[] {
+  const requirements: ExtractedRequirement[] = [];
+
+  for (const task of tasks) {
+    for (const criterion of task.acceptanceCriteria) {
+      const requirement = toRequirement(criterion, task.title, { type: 'task', taskId: task.id });
+      if (requirement) {
+        requirements.push(requirement);
+      }
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * Last resort for projects with neither a spec nor acceptance criteria:
+ * every list item, or else every sentence, of the description
+ */
+export function extractDescriptionRequirements(description: string): ExtractedRequirement[] {
+  const items = description.split('\n')
+    .map(line => line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)$/)?.[1])
+    .filter((item): item is string => Boolean(item));
+
+  const statements = items.length > 0
+    ? items
+    : description.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/);
+
+  return statements
+    .filter(statement => statement.trim().split(/\s+/).length >= 3)
+    .map(statement => toRequirement(statement.replace(/[.!?]$/, ''), 'Project Description', { type: 'description' }))
+    .filter((req): req is ExtractedRequirement => req !== null);
+}
+
 export class RequirementsMapper {
   private projectPath: string;
-  private codebaseContent: Map<string, string> = new Map();
+  private options: RequirementsMapperOptions;
+  private codebaseTokens: Map<string, Set<string>> = new Map();
+  private markdownFiles: string[] = [];
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, options: RequirementsMapperOptions = {}) {
     this.projectPath = projectPath;
+    this.options = options;
   }
 
   async analyze(): Promise<RequirementsReport> {
     console.log('Starting requirements mapping...');
 
-    // Load all source files for searching
+    // Index source files for tracing
     await this.loadCodebase();
 
-    // Find spec files
+    const { description, tasks } = await this.loadProjectContext();
+
+    // Find spec files and pull requirements out of them
     const specFiles = await this.findSpecFiles();
+    const extracted: ExtractedRequirement[] = [];
+
+    for (const file of specFiles) {
+      try {
+        const content = await fs.readFile(path.resolve(this.projectPath, file), 'utf-8');
+        extracted.push(...extractSpecRequirements(content, file));
+      } catch {
+        // Skip unreadable spec files
+      }
+    }
+
+    extracted.push(...extractTaskRequirements(tasks));
+
+    if (extracted.length === 0 && description) {
+      extracted.push(...extractDescriptionRequirements(description));
+    }
 
-    // Map each requirement to implementation
+    // Trace each requirement to implementation
     const requirements: Requirement[] = [];
+    const seen = new Set<string>();
 
-    for (const req of EKLAVYA_REQUIREMENTS) {
-      const mappedReq = await this.mapRequirement(req);
-      requirements.push(mappedReq);
+    for (const req of extracted) {
+      if (seen.has(req.id)) continue;
+      seen.add(req.id);
+      requirements.push(this.mapRequirement(req, tasks));
     }
 
     // Group by category
@@ -383,7 +446,7 @@ export class RequirementsMapper {
     const missing = requirements.filter(r => r.status === 'missing').length;
 
     const overallCoverage = requirements.length > 0
-      ? ((implemented + (partial * 0.5)) / requirements.length) * 100
+      ? requirements.reduce((sum, r) => sum + r.coverage, 0) / requirements.length
       : 0;
 
     // Find critical missing
@@ -391,8 +454,10 @@ export class RequirementsMapper {
       r => r.priority === 'critical' && (r.status === 'missing' || r.status === 'partial')
     );
 
+    const traceability = this.buildTraceabilityMatrix(requirements, tasks);
+
     // Generate recommendations
-    const recommendations = this.generateRecommendations(requirements, criticalMissing);
+    const recommendations = this.generateRecommendations(requirements, criticalMissing, traceability);
 
     return {
       timestamp: new Date(),
@@ -405,6 +470,7 @@ export class RequirementsMapper {
       overallCoverage: Math.round(overallCoverage * 10) / 10,
       categories,
       criticalMissing,
+      traceability,
       recommendations,
     };
   }
@@ -418,15 +484,22 @@ export class RequirementsMapper {
           const fullPath = path.join(dir, entry.name);
 
           if (entry.isDirectory()) {
-            if (!['node_modules', 'dist', '.git', '.next', 'coverage'].includes(entry.name)) {
+            if (!IGNORED_DIRS.includes(entry.name)) {
               await walk(fullPath);
             }
           } else if (entry.isFile()) {
+            const relativePath = path.relative(this.projectPath, fullPath);
             const ext = path.extname(entry.name);
-            if (['.ts', '.tsx', '.js', '.jsx', '.json', '.sql', '.md'].includes(ext)) {
+
+            if (ext === '.md') {
+              this.markdownFiles.push(relativePath);
+            } else if (CODE_EXTENSIONS.includes(ext)) {
               try {
+                const stat = await fs.stat(fullPath);
+                if (stat.size > MAX_FILE_SIZE) continue;
                 const content = await fs.readFile(fullPath, 'utf-8');
-                this.codebaseContent.set(path.relative(this.projectPath, fullPath), content);
+                // The path names what a file is about as much as its content does
+                this.codebaseTokens.set(relativePath, new Set([...tokenize(relativePath), ...tokenize(content)]));
               } catch {
                 // Skip unreadable files
               }
@@ -441,83 +514,162 @@ export class RequirementsMapper {
     await walk(this.projectPath);
   }
 
+  private async loadProjectContext(): Promise<{ description?: string; tasks: RequirementTask[] }> {
+    let description = this.options.projectDescription;
+    let tasks = this.options.tasks || [];
+
+    if (this.options.projectId && (description === undefined || !this.options.tasks)) {
+      const db = getDatabase();
+
+      if (description === undefined) {
+        const project = await db.query<{ description: string | null }>(
+          `SELECT description FROM projects WHERE id = $1`,
+          [this.options.projectId]
+        );
+        description = project.rows[0]?.description || undefined;
+      }
+
+      if (!this.options.tasks) {
+        const result = await db.query<{
+          id: string;
+          title: string;
+          description: string | null;
+          status: TaskStatus;
+          acceptance_criteria: unknown;
+        }>(
+          `SELECT id, title, description, status, acceptance_criteria
+           FROM tasks WHERE project_id = $1 AND status != 'cancelled'
+           ORDER BY created_at`,
+          [this.options.projectId]
+        );
+        tasks = result.rows.map(row => ({
+          id: row.id,
+          title: row.title,
+          description: row.description || undefined,
+          status: row.status,
+          acceptanceCriteria: Array.isArray(row.acceptance_criteria)
+            ? row.acceptance_criteria.filter((c): c is string => typeof c === 'string')
+            : [],
+        }));
+      }
+    }
+
+    return { description, tasks };
+  }
+
   private async findSpecFiles(): Promise<string[]> {
-    const specFiles: string[] = [];
-    const specPatterns = [
-      'EKLAVYA_COMPLETE_SPEC.md',
-      'AGENT_PROMPTS.md',
-      'eklavya.md',
-      'CLAUDE.md',
-      'README.md',
-      'DEMO2_EXECUTION_PLAN.md',
-      'MILESTONES.md',
-    ];
-
-    for (const [filePath] of this.codebaseContent) {
-      for (const pattern of specPatterns) {
-        if (filePath.endsWith(pattern)) {
-          specFiles.push(filePath);
-        }
+    const specFiles = this.markdownFiles.filter(file => {
+      const name = path.basename(file);
+      if (NOT_SPEC_FILE.test(name)) return false;
+      // Only the top-level README describes the project
+      if (/^readme\.md$/i.test(name)) return file === name;
+      return SPEC_FILE.test(name) || SPEC_DIR.test(file.split(path.sep).join('/'));
+    });
+
+    for (const file of this.options.specFiles || []) {
+      const relativePath = path.relative(this.projectPath, path.resolve(this.projectPath, file));
+      if (!specFiles.includes(relativePath)) {
+        specFiles.push(relativePath);
       }
     }
 
     return specFiles;
   }
 
-  private async mapRequirement(req: {
-    id: string;
-    category: string;
-    description: string;
-    priority: 'critical' | 'high' | 'medium' | 'low';
-    searchPatterns: string[];
-  }): Promise<Requirement> {
-    const implementedIn: string[] = [];
-    let totalMatches = 0;
-
-    // Search for each pattern in the codebase
-    for (const [filePath, content] of this.codebaseContent) {
-      const lowerContent = content.toLowerCase();
-      let fileMatches = 0;
+  private matches(keywords: string[], tokens: Set<string>): boolean {
+    if (keywords.length === 0) return false;
+    const needed = Math.max(1, Math.ceil(keywords.length * 0.6));
+    let found = 0;
+    for (const keyword of keywords) {
+      if (tokens.has(keyword) && ++found >= needed) return true;
+    }
+    return false;
+  }
 
-      for (const pattern of req.searchPatterns) {
-        if (lowerContent.includes(pattern.toLowerCase())) {
-          fileMatches++;
-        }
-      }
+  private mapRequirement(req: ExtractedRequirement, tasks: RequirementTask[]): Requirement {
+    const implementedIn: string[] = [];
+    const testedBy: string[] = [];
 
-      if (fileMatches > 0) {
-        implementedIn.push(filePath);
-        totalMatches += fileMatches;
+    for (const [filePath, tokens] of this.codebaseTokens) {
+      if (this.matches(req.keywords, tokens)) {
+        (TEST_FILE.test(filePath.split(path.sep).join('/')) ? testedBy : implementedIn).push(filePath);
       }
     }
 
-    // Calculate coverage based on pattern matches
-    const coverage = Math.min(
-      (totalMatches / (req.searchPatterns.length * 2)) * 100,
-      100
+    const linkedTasks = tasks.filter(task =>
+      task.id === req.source.taskId ||
+      this.matches(req.keywords, new Set(tokenize(`${task.title} ${task.description || ''}`)))
     );
+    const completedTask = linkedTasks.some(task => task.status === 'completed');
+
+    // Code is most of the evidence; tests and a finished task make up the rest
+    const coverage = (implementedIn.length > 0 ? 50 : 0) +
+      (testedBy.length > 0 ? 30 : 0) +
+      (completedTask ? 20 : 0);
 
     // Determine status
     let status: Requirement['status'];
-    if (coverage >= 75 && implementedIn.length >= 1) {
+    if (coverage >= 80) {
       status = 'implemented';
-    } else if (coverage >= 25 || implementedIn.length >= 1) {
+    } else if (coverage > 0) {
       status = 'partial';
     } else {
       status = 'missing';
     }
 
+    const notes: string[] = [];
+    if (implementedIn.length > 0) {
+      notes.push(`Found in ${implementedIn.length} file(s)`);
+    } else {
+      notes.push('Not found in codebase');
+    }
+    if (implementedIn.length > 0 && testedBy.length === 0) {
+      notes.push('no tests');
+    }
+    if (req.checked) {
+      notes.push('checked off in spec');
+    }
+
     return {
       id: req.id,
       category: req.category,
       description: req.description,
       priority: req.priority,
       status,
+      source: req.source,
       implementedIn,
-      coverage: Math.round(coverage),
-      notes: implementedIn.length > 0
-        ? `Found in ${implementedIn.length} file(s)`
-        : 'Not found in codebase',
+      testedBy,
+      tasks: linkedTasks.map(task => task.id),
+      coverage,
+      notes: notes.join(', '),
+    };
+  }
+
+  private buildTraceabilityMatrix(requirements: Requirement[], tasks: RequirementTask[]): TraceabilityMatrix {
+    const fileIndex: Record<string, string[]> = {};
+    const taskIndex: Record<string, string[]> = {};
+
+    for (const req of requirements) {
+      for (const file of [...req.implementedIn, ...req.testedBy]) {
+        (fileIndex[file] ||= []).push(req.id);
+      }
+      for (const taskId of req.tasks) {
+        (taskIndex[taskId] ||= []).push(req.id);
+      }
+    }
+
+    return {
+      entries: requirements.map(req => ({
+        requirementId: req.id,
+        description: req.description,
+        status: req.status,
+        files: req.implementedIn,
+        tests: req.testedBy,
+        tasks: req.tasks,
+      })),
+      fileIndex,
+      taskIndex,
+      untracedTasks: tasks.filter(task => !taskIndex[task.id]).map(task => task.id),
     };
   }
 
@@ -533,9 +685,7 @@ export class RequirementsMapper {
     const categories: RequirementsCategory[] = [];
 
     for (const [name, reqs] of categoryMap) {
-      const implemented = reqs.filter(r => r.status === 'implemented').length;
-      const partial = reqs.filter(r => r.status === 'partial').length;
-      const coverage = ((implemented + (partial * 0.5)) / reqs.length) * 100;
+      const coverage = reqs.reduce((sum, r) => sum + r.coverage, 0) / reqs.length;
 
       categories.push({
         name,
@@ -552,10 +702,18 @@ export class RequirementsMapper {
 
   private generateRecommendations(
     requirements: Requirement[],
-    criticalMissing: Requirement[]
+    criticalMissing: Requirement[],
+    traceability: TraceabilityMatrix
   ): string[] {
     const recommendations: string[] = [];
 
+    if (requirements.length === 0) {
+      recommendations.push(
+        'No requirements found - add a spec (headings, checklists or user stories) or acceptance criteria to tasks'
+      );
+      return recommendations;
+    }
+
     // Critical missing requirements
     if (criticalMissing.length > 0) {
       recommendations.push(
@@ -579,14 +737,18 @@ export class RequirementsMapper {
       }
     }
 
-    // High priority partial implementations
-    const highPartial = requirements.filter(
-      r => r.priority === 'high' && r.status === 'partial'
-    );
+    // Implemented but untested
+    const untested = requirements.filter(r => r.implementedIn.length > 0 && r.testedBy.length === 0);
+
+    if (untested.length > 0) {
+      recommendations.push(
+        `Add tests for ${untested.length} requirements that have code but no tests`
+      );
+    }
 
-    if (highPartial.length > 0) {
+    if (traceability.untracedTasks.length > 0) {
       recommendations.push(
-        `Complete ${highPartial.length} high-priority partial implementations`
+        `${traceability.untracedTasks.length} tasks trace to no requirement - check them against the spec`
       );
     }
 
@@ -608,3 +770,20 @@ export class RequirementsMapper {
     return recommendations;
   }
 }
+
+/**
+ * Map a project's requirements from its workspace (projects/<id>), its
+ * description and its tasks
+ */
+export async function mapProjectRequirements(
+  projectId: string,
+  projectDir: string = path.join(process.cwd(), 'projects', projectId)
+): Promise<RequirementsReport> {
+  const db = getDatabase();
+  const project = await db.query<{ id: string }>(`SELECT id FROM projects WHERE id = $1`, [projectId]);
+  if (project.rows.length === 0) {
+    throw new Error('Project not found');
+  }
+
+  return new RequirementsMapper(projectDir, { projectId }).analyze();
+}
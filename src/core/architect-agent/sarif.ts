@@ -0,0 +1,163 @@
+/**
+ * SARIF Output
+ *
+ * Converts a QualityReport into a SARIF 2.1.0 log, the format code
+ * scanning tools (GitHub code scanning, IDE viewers) read.
+ */
+
+import type { CodeIssue, IssueLocation, QualityReport } from './quality-analyzer.js';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: {
+      startLine: number;
+      startColumn?: number;
+      endLine?: number;
+      endColumn?: number;
+    };
+  };
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: (SarifLocation & { id: number })[];
+  partialFingerprints: { primaryLocationLineHash: string };
+  properties: {
+    severity: CodeIssue['severity'];
+    category: CodeIssue['category'];
+    suggestion?: string;
+  };
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: CodeIssue['category'] };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri?: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+    properties: {
+      overallScore: number;
+      metrics: QualityReport['metrics'];
+    };
+  }[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const PROJECT_ROOT = 'PROJECTROOT';
+
+export function sarifLevel(severity: CodeIssue['severity']): SarifLevel {
+  switch (severity) {
+    case 'critical':
+    case 'high':
+      return 'error';
+    case 'medium':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+function toSarifLocation(location: IssueLocation): SarifLocation {
+  const sarif: SarifLocation = {
+    physicalLocation: {
+      // SARIF URIs always use forward slashes
+      artifactLocation: { uri: location.file.split('\\').join('/'), uriBaseId: PROJECT_ROOT },
+    },
+  };
+
+  if (location.line !== undefined) {
+    sarif.physicalLocation.region = {
+      startLine: location.line,
+      startColumn: location.column,
+      endLine: location.endLine,
+      endColumn: location.endColumn,
+    };
+  }
+  if (location.message) {
+    sarif.message = { text: location.message };
+  }
+
+  return sarif;
+}
+
+export function toSarif(report: QualityReport): SarifLog {
+  const rules = new Map<string, SarifRule>();
+
+  const results = report.issues.map((issue): SarifResult => {
+    const ruleId = issue.rule ?? issue.category;
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        shortDescription: { text: issue.message },
+        defaultConfiguration: { level: sarifLevel(issue.severity) },
+        properties: { category: issue.category },
+      });
+    }
+
+    const result: SarifResult = {
+      ruleId,
+      level: sarifLevel(issue.severity),
+      message: { text: issue.message },
+      locations: [toSarifLocation(issue)],
+      partialFingerprints: { primaryLocationLineHash: issue.id },
+      properties: {
+        severity: issue.severity,
+        category: issue.category,
+        suggestion: issue.suggestion,
+      },
+    };
+
+    if (issue.relatedLocations?.length) {
+      result.relatedLocations = issue.relatedLocations.map((location, index) => ({
+        id: index + 1,
+        ...toSarifLocation(location),
+      }));
+    }
+
+    return result;
+  });
+
+  const rootUri = report.projectPath.split('\\').join('/');
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Eklavya QualityAnalyzer',
+          rules: [...rules.values()].sort((a, b) => a.id.localeCompare(b.id)),
+        },
+      },
+      originalUriBaseIds: {
+        [PROJECT_ROOT]: { uri: `file://${rootUri.endsWith('/') ? rootUri : `${rootUri}/`}` },
+      },
+      results,
+      properties: {
+        overallScore: report.overallScore,
+        metrics: report.metrics,
+      },
+    }],
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for Checkpoint Manager
+ * Checkpoint retention and pruning of the snapshot store
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getDatabase } from '../../lib/database.js';
+import { CheckpointManager } from './index.js';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+describe('CheckpointManager retention', () => {
+  let tempDir: string;
+  let workDir: string;
+  let agentId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const project = await db.query<{ id: string }>(
+      `INSERT INTO projects (name) VALUES ('checkpoints') RETURNING id`
+    );
+    const agent = await db.query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status) VALUES ($1, 'developer', 'idle') RETURNING id`,
+      [project.rows[0].id]
+    );
+    agentId = agent.rows[0].id;
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-checkpoint-'));
+    workDir = path.join(tempDir, 'work');
+    await fs.mkdir(workDir);
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should prune blobs only referenced by checkpoints dropped by retention', async () => {
+    const manager = new CheckpointManager({
+      intervalMs: 60000,
+      maxCheckpointsPerAgent: 1,
+      snapshotDir: path.join(tempDir, 'store'),
+    });
+    const store = manager.getSnapshotStore();
+    let pruned = 0;
+    manager.on('snapshots:pruned', ({ removed }) => { pruned += removed; });
+
+    await fs.writeFile(path.join(workDir, 'kept.txt'), 'kept');
+    await fs.writeFile(path.join(workDir, 'changed.txt'), 'before');
+    await manager.createPreRiskyCheckpoint(agentId, {}, 'first', undefined, workDir);
+    expect(await store.hasBlob(sha256('before'))).toBe(true);
+
+    await fs.writeFile(path.join(workDir, 'changed.txt'), 'after');
+    const latest = await manager.createPreRiskyCheckpoint(agentId, {}, 'second', undefined, workDir);
+
+    expect((await manager.getCheckpoints(agentId)).map(c => c.id)).toEqual([latest.id]);
+    expect(pruned).toBe(1);
+    expect(await store.hasBlob(sha256('before'))).toBe(false);
+    expect(await store.hasBlob(sha256('after'))).toBe(true);
+    expect(await store.hasBlob(sha256('kept'))).toBe(true);
+
+    // Once no checkpoint references them, every blob goes
+    await manager.createCheckpoint(agentId, {});
+    expect(pruned).toBe(3);
+    expect(await store.hasBlob(sha256('kept'))).toBe(false);
+
+    // Dropping a checkpoint without files leaves the store alone
+    let prunes = 0;
+    manager.on('snapshots:pruned', () => { prunes++; });
+    await manager.createCheckpoint(agentId, {});
+    expect(prunes).toBe(0);
+  });
+});
@@ -1,13 +1,20 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import fs from 'fs/promises';
-import path from 'path';
 import type { Checkpoint, Agent } from '../../types/index.js';
 import { getDatabase } from '../../lib/database.js';
+import {
+  SnapshotStore,
+  ManifestDiff,
+  ManifestEntry,
+  RestoreSummary,
+  diffManifests,
+  isContentHash,
+} from './snapshot-store.js';
 
 export interface CheckpointOptions {
   intervalMs: number;
   maxCheckpointsPerAgent: number;
+  snapshotDir?: string;  // Root of the content-addressed file store
 }
 
 export interface AgentState {
@@ -18,25 +25,41 @@ export interface AgentState {
   lastAction?: string;
 }
 
+/**
+ * Checkpoint file manifest. Hashes are SHA-256 digests of blobs in the
+ * snapshot store; checkpoints from before content snapshots carry
+ * `size-mtime` strings instead and cannot have their files restored.
+ */
 export interface FileState {
   workingDirectory: string;
-  modifiedFiles: Array<{
-    path: string;
-    hash: string;
-    size: number;
-    lastModified: Date;
-  }>;
+  modifiedFiles: ManifestEntry[];
+  totalBytes?: number;
+}
+
+export interface CheckpointDiff extends ManifestDiff {
+  fromCheckpointId: string;
+  toCheckpointId: string;
 }
 
 export class CheckpointManager extends EventEmitter {
   private intervalMs: number;
   private maxCheckpointsPerAgent: number;
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private store: SnapshotStore;
+  // Snapshots whose blobs are stored but not yet referenced by a checkpoint
+  private snapshotsInFlight = 0;
+  // Set when retention drops a checkpoint that referenced snapshot blobs
+  private pruneDue = false;
 
   constructor(options: CheckpointOptions = { intervalMs: 900000, maxCheckpointsPerAgent: 10 }) {
     super();
     this.intervalMs = options.intervalMs;
     this.maxCheckpointsPerAgent = options.maxCheckpointsPerAgent;
+    this.store = new SnapshotStore(options.snapshotDir);
+  }
+
+  getSnapshotStore(): SnapshotStore {
+    return this.store;
   }
 
   /**
@@ -77,7 +100,7 @@ export class CheckpointManager extends EventEmitter {
     agentId: string,
     state: Record<string, unknown>,
     taskId?: string,
-    fileState?: Record<string, unknown>,
+    fileState?: FileState,
     conversationSummary?: string,
     recoveryInstructions?: string
   ): Promise<Checkpoint> {
@@ -98,8 +121,9 @@ export class CheckpointManager extends EventEmitter {
       ]
     );
 
-    // Clean up old checkpoints
+    // Clean up old checkpoints, and the blobs only they referenced
     await this.cleanupOldCheckpoints(agentId);
+    await this.pruneIfDue();
 
     const result = await db.query<Checkpoint>(
       `SELECT * FROM checkpoints WHERE id = $1`,
@@ -136,12 +160,18 @@ export class CheckpointManager extends EventEmitter {
   }
 
   /**
-   * Restore agent state from a checkpoint
+   * Restore agent state from a checkpoint. When the checkpoint has a
+   * content snapshot, the working directory is rewritten to its exact
+   * state as well (unless `restoreFiles` is false).
    */
-  async restoreFromCheckpoint(checkpointId: string): Promise<{
+  async restoreFromCheckpoint(
+    checkpointId: string,
+    options: { restoreFiles?: boolean; targetDirectory?: string } = {}
+  ): Promise<{
     checkpoint: Checkpoint;
     state: Record<string, unknown>;
     restoredFiles: number;
+    fileChanges?: RestoreSummary;
   }> {
     const db = getDatabase();
 
@@ -160,6 +190,17 @@ export class CheckpointManager extends EventEmitter {
         ? JSON.parse(checkpoint.state)
         : checkpoint.state;
 
+      // Bring the files back before any bookkeeping, so a failed restore
+      // doesn't count as one
+      const fileState = this.parseFileState(checkpoint);
+      let fileChanges: RestoreSummary | undefined;
+      if (options.restoreFiles !== false && fileState && this.isRestorable(fileState)) {
+        fileChanges = await this.store.restore(
+          { files: fileState.modifiedFiles },
+          options.targetDirectory || fileState.workingDirectory
+        );
+      }
+
       // Update restore count
       await db.query(
         `UPDATE checkpoints
@@ -170,28 +211,27 @@ export class CheckpointManager extends EventEmitter {
       );
 
       // Update agent status
+      const agentId = checkpoint.agentId ?? (checkpoint as Checkpoint & { agent_id?: string }).agent_id;
       await db.query(
         `UPDATE agents
          SET status = 'idle',
              checkpoint_data = $2,
              updated_at = NOW()
          WHERE id = $1`,
-        [checkpoint.agentId, JSON.stringify(state)]
+        [agentId, JSON.stringify(state)]
       );
 
-      const restoredFiles = checkpoint.fileState ?
-        (typeof checkpoint.fileState === 'string'
-          ? JSON.parse(checkpoint.fileState)
-          : checkpoint.fileState
-        ).modifiedFiles?.length || 0 : 0;
+      const restoredFiles = fileState?.modifiedFiles?.length || 0;
 
       this.emit('checkpoint:restored', {
         checkpointId,
-        agentId: checkpoint.agentId,
+        agentId,
         restoredFiles,
+        filesWritten: fileChanges?.written.length || 0,
+        filesDeleted: fileChanges?.deleted.length || 0,
       });
 
-      return { checkpoint, state, restoredFiles };
+      return { checkpoint, state, restoredFiles, fileChanges };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.emit('error', { phase: 'restoreFromCheckpoint', error: errorMessage });
@@ -200,22 +240,37 @@ export class CheckpointManager extends EventEmitter {
   }
 
   /**
-   * Create a checkpoint before a risky operation
+   * Create a checkpoint before a risky operation, including a content
+   * snapshot of the agent's working directory so the files can be restored.
+   * The directory defaults to the agent's recorded working directory.
    */
   async createPreRiskyCheckpoint(
     agentId: string,
     state: Record<string, unknown>,
     operation: string,
-    taskId?: string
+    taskId?: string,
+    workingDirectory?: string
   ): Promise<Checkpoint> {
-    return this.createCheckpoint(
-      agentId,
-      state,
-      taskId,
-      undefined,
-      undefined,
-      `Checkpoint before risky operation: ${operation}. Restore if something goes wrong.`
-    );
+    const directory = workingDirectory || await this.getAgentWorkingDirectory(agentId);
+
+    let checkpoint: Checkpoint;
+    this.snapshotsInFlight++;
+    try {
+      const fileState = directory ? await this.captureFileState(directory) : undefined;
+      checkpoint = await this.createCheckpoint(
+        agentId,
+        state,
+        taskId,
+        fileState,
+        undefined,
+        `Checkpoint before risky operation: ${operation}. Restore if something goes wrong.`
+      );
+    } finally {
+      this.snapshotsInFlight--;
+    }
+
+    await this.pruneIfDue();
+    return checkpoint;
   }
 
   /**
@@ -237,30 +292,18 @@ export class CheckpointManager extends EventEmitter {
   }
 
   /**
-   * Capture current file state from working directory
+   * Capture current file state from working directory.
+   * File contents are stored in the snapshot store, deduplicated by SHA-256.
    */
   async captureFileState(workingDirectory: string): Promise<FileState> {
     try {
-      const modifiedFiles: FileState['modifiedFiles'] = [];
-      const files = await this.walkDirectory(workingDirectory);
-
-      for (const filePath of files) {
-        try {
-          const stat = await fs.stat(filePath);
-          const hash = `${stat.size}-${stat.mtime.getTime()}`;
-
-          modifiedFiles.push({
-            path: path.relative(workingDirectory, filePath),
-            hash,
-            size: stat.size,
-            lastModified: stat.mtime,
-          });
-        } catch {
-          // Skip files we can't read
-        }
-      }
+      const manifest = await this.store.snapshot(workingDirectory);
 
-      return { workingDirectory, modifiedFiles };
+      return {
+        workingDirectory,
+        modifiedFiles: manifest.files,
+        totalBytes: manifest.totalBytes,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.emit('error', { phase: 'captureFileState', error: errorMessage });
@@ -268,6 +311,73 @@ export class CheckpointManager extends EventEmitter {
     }
   }
 
+  /**
+   * Compare the file snapshots of two checkpoints
+   */
+  async diffCheckpoints(fromCheckpointId: string, toCheckpointId: string): Promise<CheckpointDiff> {
+    const db = getDatabase();
+    const result = await db.query<Checkpoint>(
+      `SELECT * FROM checkpoints WHERE id = ANY($1::uuid[])`,
+      [[fromCheckpointId, toCheckpointId]]
+    );
+
+    const find = (id: string): FileState => {
+      const checkpoint = result.rows.find(row => row.id === id);
+      if (!checkpoint) {
+        throw new Error(`Checkpoint ${id} not found`);
+      }
+      const fileState = this.parseFileState(checkpoint);
+      if (!fileState) {
+        throw new Error(`Checkpoint ${id} has no file snapshot`);
+      }
+      return fileState;
+    };
+
+    const diff = diffManifests(
+      { files: find(fromCheckpointId).modifiedFiles },
+      { files: find(toCheckpointId).modifiedFiles }
+    );
+
+    return { fromCheckpointId, toCheckpointId, ...diff };
+  }
+
+  /**
+   * Read the content of one file as it was at a checkpoint
+   */
+  async readCheckpointFile(checkpointId: string, filePath: string): Promise<Buffer | null> {
+    const db = getDatabase();
+    const result = await db.query<Checkpoint>(
+      `SELECT * FROM checkpoints WHERE id = $1`,
+      [checkpointId]
+    );
+
+    const fileState = result.rows[0] ? this.parseFileState(result.rows[0]) : null;
+    const entry = fileState?.modifiedFiles.find(file => file.path === filePath);
+    if (!entry || !isContentHash(entry.hash)) {
+      return null;
+    }
+
+    return this.store.readBlob(entry.hash);
+  }
+
+  /**
+   * Remove stored blobs no longer referenced by any checkpoint
+   */
+  async pruneSnapshotStore(): Promise<number> {
+    const db = getDatabase();
+    const result = await db.query<{ hash: string }>(
+      `SELECT DISTINCT f->>'hash' AS hash
+       FROM checkpoints, jsonb_array_elements(file_state->'modifiedFiles') AS f
+       WHERE file_state IS NOT NULL`
+    );
+
+    const referenced = new Set(result.rows.map(row => row.hash));
+    const removed = await this.store.prune(referenced);
+
+    this.emit('snapshots:pruned', { removed });
+    return removed;
+  }
+
   /**
    * Invalidate a checkpoint
    */
@@ -345,31 +455,27 @@ export class CheckpointManager extends EventEmitter {
     }
   }
 
-  /**
-   * Recursively walk a directory
-   */
-  private async walkDirectory(dir: string, files: string[] = []): Promise<string[]> {
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
+  private parseFileState(checkpoint: Checkpoint): FileState | null {
+    // Rows come back from SELECT * with snake_case columns
+    const row = checkpoint as Checkpoint & { file_state?: unknown };
+    const raw = row.fileState ?? row.file_state;
+    if (!raw) return null;
 
-        if (['node_modules', '.git', 'dist', '.next'].includes(entry.name)) {
-          continue;
-        }
+    const fileState = (typeof raw === 'string' ? JSON.parse(raw) : raw) as FileState;
+    return Array.isArray(fileState.modifiedFiles) ? fileState : null;
+  }
 
-        if (entry.isDirectory()) {
-          await this.walkDirectory(fullPath, files);
-        } else if (entry.isFile()) {
-          files.push(fullPath);
-        }
-      }
-    } catch {
-      // Ignore permission errors
-    }
+  private isRestorable(fileState: FileState): boolean {
+    return fileState.modifiedFiles.every(file => isContentHash(file.hash));
+  }
 
-    return files;
+  private async getAgentWorkingDirectory(agentId: string): Promise<string | undefined> {
+    const db = getDatabase();
+    const result = await db.query<{ working_directory: string | null }>(
+      `SELECT working_directory FROM agents WHERE id = $1`,
+      [agentId]
+    );
+    return result.rows[0]?.working_directory || undefined;
   }
 
   /**
@@ -377,7 +483,7 @@ export class CheckpointManager extends EventEmitter {
    */
   private async cleanupOldCheckpoints(agentId: string): Promise<void> {
     const db = getDatabase();
-    await db.query(
+    const result = await db.query<{ has_files: boolean }>(
       `DELETE FROM checkpoints
        WHERE agent_id = $1
        AND id NOT IN (
@@ -385,9 +491,33 @@ export class CheckpointManager extends EventEmitter {
          WHERE agent_id = $1
          ORDER BY created_at DESC
          LIMIT $2
-       )`,
+       )
+       RETURNING file_state IS NOT NULL AS has_files`,
       [agentId, this.maxCheckpointsPerAgent]
     );
+
+    if (result.rows.some(row => row.has_files)) {
+      this.pruneDue = true;
+    }
+  }
+
+  /**
+   * Prune the snapshot store after retention dropped snapshot checkpoints.
+   * Waits while a snapshot is being taken, since its blobs are not yet
+   * referenced by any checkpoint.
+   */
+  private async pruneIfDue(): Promise<void> {
+    if (!this.pruneDue || this.snapshotsInFlight > 0) {
+      return;
+    }
+
+    this.pruneDue = false;
+    try {
+      await this.pruneSnapshotStore();
+    } catch (error) {
+      this.pruneDue = true;
+      console.error('Snapshot store prune failed:', error);
+    }
   }
 
   /**
@@ -0,0 +1,154 @@
+/**
+ * Tests for Snapshot Store
+ * Content-addressed checkpoint snapshots, restore and diff
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore, diffManifests, walkDirectory } from './snapshot-store.js';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+describe('SnapshotStore', () => {
+  let tempDir: string;
+  let workDir: string;
+  let store: SnapshotStore;
+
+  async function write(relative: string, content: string): Promise<void> {
+    const target = path.join(workDir, relative);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  }
+
+  async function listFiles(): Promise<string[]> {
+    const files = await walkDirectory(workDir);
+    return files.map(f => path.relative(workDir, f).split(path.sep).join('/')).sort();
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-snapshot-'));
+    workDir = path.join(tempDir, 'work');
+    store = new SnapshotStore(path.join(tempDir, 'store'));
+    await fs.mkdir(workDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Snapshots', () => {
+    it('should record SHA-256 content hashes in the manifest', async () => {
+      await write('src/index.ts', 'export {};\n');
+      await write('README.md', '# App\n');
+
+      const manifest = await store.snapshot(workDir);
+
+      expect(manifest.files.map(f => f.path)).toEqual(['README.md', 'src/index.ts']);
+      expect(manifest.files[1].hash).toBe(sha256('export {};\n'));
+      expect(manifest.totalBytes).toBe(17);
+      expect((await store.readBlob(sha256('# App\n'))).toString()).toBe('# App\n');
+    });
+
+    it('should store identical content once', async () => {
+      await write('a.txt', 'same');
+      await write('nested/b.txt', 'same');
+
+      const manifest = await store.snapshot(workDir);
+      const blobs = await walkDirectory(path.join(tempDir, 'store', 'blobs'));
+
+      expect(manifest.files[0].hash).toBe(manifest.files[1].hash);
+      expect(blobs).toHaveLength(1);
+    });
+
+    it('should skip ignored directories', async () => {
+      await write('node_modules/pkg/index.js', 'module');
+      await write('app.js', 'app');
+
+      const manifest = await store.snapshot(workDir);
+
+      expect(manifest.files.map(f => f.path)).toEqual(['app.js']);
+    });
+  });
+
+  describe('Restore', () => {
+    it('should rewrite the directory to the exact snapshot state', async () => {
+      await write('keep.txt', 'original');
+      await write('edit.txt', 'before');
+      await write('gone/deleted.txt', 'bring me back');
+      const manifest = await store.snapshot(workDir);
+
+      await write('edit.txt', 'after');
+      await fs.rm(path.join(workDir, 'gone'), { recursive: true });
+      await write('new/extra.txt', 'should disappear');
+
+      const summary = await store.restore(manifest, workDir);
+
+      expect(await listFiles()).toEqual(['edit.txt', 'gone/deleted.txt', 'keep.txt']);
+      expect(await fs.readFile(path.join(workDir, 'edit.txt'), 'utf-8')).toBe('before');
+      expect(summary.written.sort()).toEqual(['edit.txt', 'gone/deleted.txt']);
+      expect(summary.deleted).toEqual(['new/extra.txt']);
+      expect(summary.unchanged).toBe(1);
+      await expect(fs.stat(path.join(workDir, 'new'))).rejects.toThrow();
+    });
+
+    it('should restore file modes', async () => {
+      await write('run.sh', '#!/bin/sh\n');
+      await fs.chmod(path.join(workDir, 'run.sh'), 0o755);
+      const manifest = await store.snapshot(workDir);
+
+      await fs.chmod(path.join(workDir, 'run.sh'), 0o644);
+      await write('run.sh', 'changed');
+      await store.restore(manifest, workDir);
+
+      const stat = await fs.stat(path.join(workDir, 'run.sh'));
+      expect(stat.mode & 0o777).toBe(0o755);
+    });
+
+    it('should refuse to restore when content is missing', async () => {
+      await write('a.txt', 'a');
+      const manifest = await store.snapshot(workDir);
+      await store.prune(new Set());
+
+      await write('a.txt', 'changed');
+      await expect(store.restore(manifest, workDir)).rejects.toThrow('missing content');
+      expect(await fs.readFile(path.join(workDir, 'a.txt'), 'utf-8')).toBe('changed');
+    });
+  });
+
+  describe('Diff & prune', () => {
+    it('should diff two manifests by content', async () => {
+      await write('same.txt', 'same');
+      await write('changed.txt', 'v1');
+      await write('removed.txt', 'bye');
+      const before = await store.snapshot(workDir);
+
+      await write('changed.txt', 'v2');
+      await fs.rm(path.join(workDir, 'removed.txt'));
+      await write('added.txt', 'hi');
+      const after = await store.snapshot(workDir);
+
+      const diff = diffManifests(before, after);
+
+      expect(diff.added.map(f => f.path)).toEqual(['added.txt']);
+      expect(diff.removed.map(f => f.path)).toEqual(['removed.txt']);
+      expect(diff.modified.map(f => f.path)).toEqual(['changed.txt']);
+      expect(diff.modified[0].from.hash).toBe(sha256('v1'));
+      expect(diff.unchanged).toBe(1);
+    });
+
+    it('should prune unreferenced blobs only', async () => {
+      await write('a.txt', 'a');
+      await write('b.txt', 'b');
+      await store.snapshot(workDir);
+
+      const removed = await store.prune(new Set([sha256('a')]));
+
+      expect(removed).toBe(1);
+      expect(await store.hasBlob(sha256('a'))).toBe(true);
+      expect(await store.hasBlob(sha256('b'))).toBe(false);
+    });
+  });
+});
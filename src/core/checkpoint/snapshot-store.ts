@@ -0,0 +1,317 @@
+/**
+ * Snapshot Store
+ *
+ * Content-addressed storage for checkpoint file contents:
+ * - Blobs are stored once per SHA-256 under `blobs/<aa>/<rest-of-hash>`
+ * - Each checkpoint keeps a manifest of path, hash, size and mode
+ * - Restores rewrite a directory to exactly the manifest's state
+ *
+ * Directories the checkpoint walker skips (node_modules, .git, dist, .next)
+ * are never captured and never touched by a restore.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface ManifestEntry {
+  path: string;
+  hash: string;
+  size: number;
+  mode: number;
+  lastModified: Date;
+}
+
+export interface SnapshotManifest {
+  workingDirectory: string;
+  files: ManifestEntry[];
+  totalBytes: number;
+}
+
+export interface RestoreSummary {
+  written: string[];
+  deleted: string[];
+  unchanged: number;
+}
+
+export interface ManifestDiff {
+  added: ManifestEntry[];
+  removed: ManifestEntry[];
+  modified: Array<{ path: string; from: ManifestEntry; to: ManifestEntry }>;
+  unchanged: number;
+}
+
+export const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', '.next'];
+
+export const DEFAULT_SNAPSHOT_DIR = process.env.EKLAVYA_CHECKPOINT_DIR ||
+  path.join(os.homedir(), '.eklavya', 'checkpoints');
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// ============================================================================
+// Snapshot Store
+// ============================================================================
+
+export class SnapshotStore {
+  private rootDir: string;
+
+  constructor(rootDir: string = DEFAULT_SNAPSHOT_DIR) {
+    this.rootDir = rootDir;
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Hash every file in a directory and store any blobs not already present.
+   */
+  async snapshot(workingDirectory: string): Promise<SnapshotManifest> {
+    const files: ManifestEntry[] = [];
+    let totalBytes = 0;
+
+    for (const filePath of await walkDirectory(workingDirectory)) {
+      try {
+        const stat = await fs.stat(filePath);
+        const hash = await this.storeFile(filePath);
+
+        files.push({
+          path: toManifestPath(path.relative(workingDirectory, filePath)),
+          hash,
+          size: stat.size,
+          mode: stat.mode & 0o777,
+          lastModified: stat.mtime,
+        });
+        totalBytes += stat.size;
+      } catch {
+        // Skip files that vanish or can't be read mid-walk
+      }
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { workingDirectory, files, totalBytes };
+  }
+
+  /**
+   * Rewrite a directory so it matches a manifest exactly.
+   * Every blob is checked before the directory is touched.
+   */
+  async restore(manifest: Pick<SnapshotManifest, 'files'>, targetDirectory: string): Promise<RestoreSummary> {
+    const missing: string[] = [];
+    for (const entry of manifest.files) {
+      if (!(await this.hasBlob(entry.hash))) {
+        missing.push(entry.path);
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(`Snapshot is missing content for ${missing.length} file(s): ${missing.slice(0, 5).join(', ')}`);
+    }
+
+    await fs.mkdir(targetDirectory, { recursive: true });
+
+    const summary: RestoreSummary = { written: [], deleted: [], unchanged: 0 };
+    const wanted = new Map(manifest.files.map(entry => [entry.path, entry]));
+
+    // Remove files that did not exist at checkpoint time
+    for (const filePath of await walkDirectory(targetDirectory)) {
+      const relative = toManifestPath(path.relative(targetDirectory, filePath));
+      if (!wanted.has(relative)) {
+        await fs.rm(filePath, { force: true });
+        summary.deleted.push(relative);
+      }
+    }
+    await removeEmptyDirectories(targetDirectory);
+
+    for (const entry of manifest.files) {
+      const target = path.join(targetDirectory, ...entry.path.split('/'));
+
+      const current = await hashFile(target).catch(() => null);
+      if (current === entry.hash) {
+        await fs.chmod(target, entry.mode).catch(() => undefined);
+        summary.unchanged++;
+        continue;
+      }
+
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rm(target, { recursive: true, force: true });
+      await fs.copyFile(this.blobPath(entry.hash), target);
+      await fs.chmod(target, entry.mode);
+      summary.written.push(entry.path);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Read a stored blob.
+   */
+  async readBlob(hash: string): Promise<Buffer> {
+    return fs.readFile(this.blobPath(hash));
+  }
+
+  async hasBlob(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.blobPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Delete blobs not referenced by any of the given hashes.
+   * Returns the number of blobs removed.
+   */
+  async prune(referenced: Set<string>): Promise<number> {
+    const blobsDir = path.join(this.rootDir, 'blobs');
+    let removed = 0;
+
+    const prefixes = await fs.readdir(blobsDir).catch(() => [] as string[]);
+    for (const prefix of prefixes) {
+      const names = await fs.readdir(path.join(blobsDir, prefix)).catch(() => [] as string[]);
+      for (const name of names) {
+        if (!referenced.has(prefix + name)) {
+          await fs.rm(path.join(blobsDir, prefix, name), { force: true });
+          removed++;
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  private async storeFile(filePath: string): Promise<string> {
+    const hash = await hashFile(filePath);
+    if (await this.hasBlob(hash)) {
+      return hash;
+    }
+
+    const target = this.blobPath(hash);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp name first so a partial copy is never mistaken for a blob
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.copyFile(filePath, temp);
+    if ((await hashFile(temp)) !== hash) {
+      await fs.rm(temp, { force: true });
+      throw new Error(`File changed while being stored: ${filePath}`);
+    }
+    await fs.rename(temp, target);
+
+    return hash;
+  }
+
+  private blobPath(hash: string): string {
+    if (!SHA256_PATTERN.test(hash)) {
+      throw new Error(`Invalid blob hash: ${hash}`);
+    }
+    return path.join(this.rootDir, 'blobs', hash.slice(0, 2), hash.slice(2));
+  }
+}
+
+// ============================================================================
+// Manifest helpers
+// ============================================================================
+
+/**
+ * Compare two manifests by path and content hash.
+ */
+export function diffManifests(
+  from: Pick<SnapshotManifest, 'files'>,
+  to: Pick<SnapshotManifest, 'files'>
+): ManifestDiff {
+  const before = new Map(from.files.map(entry => [entry.path, entry]));
+  const after = new Map(to.files.map(entry => [entry.path, entry]));
+  const diff: ManifestDiff = { added: [], removed: [], modified: [], unchanged: 0 };
+
+  for (const [filePath, entry] of after) {
+    const previous = before.get(filePath);
+    if (!previous) {
+      diff.added.push(entry);
+    } else if (previous.hash !== entry.hash) {
+      diff.modified.push({ path: filePath, from: previous, to: entry });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const [filePath, entry] of before) {
+    if (!after.has(filePath)) {
+      diff.removed.push(entry);
+    }
+  }
+
+  return diff;
+}
+
+export function isContentHash(hash: string): boolean {
+  return SHA256_PATTERN.test(hash);
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Recursively list regular files, skipping ignored directories.
+ */
+export async function walkDirectory(dir: string, files: string[] = []): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (IGNORED_DIRECTORIES.includes(entry.name)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await walkDirectory(fullPath, files);
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+  } catch {
+    // Ignore permission errors
+  }
+
+  return files;
+}
+
+async function removeEmptyDirectories(dir: string, isRoot = true): Promise<boolean> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => null);
+  if (!entries) return false;
+
+  let empty = true;
+  for (const entry of entries) {
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.includes(entry.name)) {
+      const removed = await removeEmptyDirectories(path.join(dir, entry.name), false);
+      if (!removed) empty = false;
+    } else {
+      empty = false;
+    }
+  }
+
+  if (empty && !isRoot) {
+    await fs.rmdir(dir).catch(() => undefined);
+    return true;
+  }
+  return false;
+}
+
+function toManifestPath(relative: string): string {
+  return relative.split(path.sep).join('/');
+}
@@ -7,7 +7,12 @@ import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import type { AgentType, Task, Message } from '../../types/index.js';
 import { getDatabase } from '../../lib/database.js';
-import { MessageBus } from '../message-bus/index.js';
+import type { MessageBusAdapter } from '../message-bus/index.js';
+import {
+  createWorktreeManager,
+  MergeFileResolution,
+  MergeResult,
+} from '../worktree/index.js';
 
 export interface AgentSpec {
   type: AgentType;
@@ -37,6 +42,8 @@ export interface FileLock {
   expiresAt: Date;
 }
 
+export type ConflictResolution = 'merge' | 'override_a' | 'override_b' | 'reject';
+
 export interface Conflict {
   id: string;
   filePath: string;
@@ -45,8 +52,40 @@ export interface Conflict {
   conflictType: string;
   status: 'pending' | 'resolved';
   resolution?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Stored in a merge conflict's details so the merge can be completed
+ * once every conflicted file of the same merge attempt is resolved.
+ */
+export interface MergeConflictDetails {
+  mergeId: string;
+  repository: string;
+  sourceBranch: string;
+  targetBranch: string;
+  taskId?: string;
 }
 
+/**
+ * Where a task's conflicted merge stands: still waiting on a resolution,
+ * or finished one way or the other.
+ */
+export type TaskMergeStatus = 'pending' | 'merged' | 'rejected' | 'failed';
+
+const MERGE_OUTCOMES: Record<string, Exclude<TaskMergeStatus, 'pending'>> = {
+  MERGE_COMPLETED: 'merged',
+  MERGE_REJECTED: 'rejected',
+  MERGE_FAILED: 'failed',
+};
+
+// Agent A is the branch being merged in, agent B the integration branch
+const MERGE_RESOLUTIONS: Record<Exclude<ConflictResolution, 'reject'>, MergeFileResolution> = {
+  merge: 'union',
+  override_a: 'theirs',
+  override_b: 'ours',
+};
+
 export interface CoordinationStatus {
   projectId: string;
   maxAgents: number;
@@ -59,7 +98,7 @@ export interface CoordinationStatus {
 
 export interface CoordinatorOptions {
   projectId: string;
-  messageBus?: MessageBus;
+  messageBus?: MessageBusAdapter;
   maxConcurrentAgents?: number;
 }
 
@@ -72,6 +111,7 @@ export interface CoordinatorOptions {
  * - Intelligent task routing based on agent type and workload
  * - File locking to prevent concurrent edit conflicts
  * - Conflict detection and resolution strategies
+ * - Git merge conflicts from agent worktrees, completed on resolution
  * - Real-time messaging between agents
  *
  * @example
@@ -83,7 +123,7 @@ export interface CoordinatorOptions {
  */
 export class AgentCoordinator extends EventEmitter {
   private readonly projectId: string;
-  private readonly messageBus?: MessageBus;
+  private readonly messageBus?: MessageBusAdapter;
   private readonly maxConcurrentAgents: number;
 
   /**
@@ -459,10 +499,17 @@ export class AgentCoordinator extends EventEmitter {
    * @param agentBId - The ID of the second agent involved in the conflict
    * @param filePath - The path of the file where conflict occurred
    * @param conflictType - Type of conflict (e.g., 'concurrent_edit', 'merge_conflict')
+   * @param details - Optional context stored with the conflict
    * @returns The created conflict record
    * @throws {Error} If any required parameter is missing
    */
-  async detectConflict(agentAId: string, agentBId: string, filePath: string, conflictType: string): Promise<Conflict> {
+  async detectConflict(
+    agentAId: string,
+    agentBId: string,
+    filePath: string,
+    conflictType: string,
+    details: Record<string, unknown> = {}
+  ): Promise<Conflict> {
     // Input validation
     if (!agentAId || !agentBId || !filePath || !conflictType) {
       throw new Error('All parameters (agentAId, agentBId, filePath, conflictType) are required');
@@ -472,9 +519,9 @@ export class AgentCoordinator extends EventEmitter {
     const conflictId = uuidv4();
 
     await db.query(
-      `INSERT INTO file_conflicts (id, project_id, file_path, agent_a_id, agent_b_id, conflict_type)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [conflictId, this.projectId, filePath, agentAId, agentBId, conflictType]
+      `INSERT INTO file_conflicts (id, project_id, file_path, agent_a_id, agent_b_id, conflict_type, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [conflictId, this.projectId, filePath, agentAId, agentBId, conflictType, JSON.stringify(details)]
     );
 
     await this.recordMessage('CONFLICT_DETECTED', agentAId, agentBId, { filePath, conflictType });
@@ -488,13 +535,52 @@ export class AgentCoordinator extends EventEmitter {
       agentBId,
       conflictType,
       status: 'pending',
+      details,
+    };
+  }
+
+  /**
+   * Record one conflict per file for a merge that could not be completed.
+   * Agent A is the agent whose branch was being merged; agent B is the agent
+   * whose merged work last touched the file (or agent A if unknown).
+   *
+   * @param merge - The conflicting merge result from the WorktreeManager
+   * @param repository - Project directory holding the repository
+   * @param taskId - Task whose work was being merged, if any
+   * @returns The created conflict records
+   */
+  async recordMergeConflicts(merge: MergeResult, repository: string, taskId?: string): Promise<Conflict[]> {
+    if (merge.status !== 'conflict' || !merge.agentId) {
+      return [];
+    }
+
+    const details: MergeConflictDetails = {
+      mergeId: uuidv4(),
+      repository,
+      sourceBranch: merge.sourceBranch,
+      targetBranch: merge.targetBranch,
+      taskId,
     };
+
+    const conflicts: Conflict[] = [];
+    for (const file of merge.conflicts) {
+      conflicts.push(await this.detectConflict(
+        merge.agentId,
+        file.lastAgentId || merge.agentId,
+        file.filePath,
+        'merge_conflict',
+        { ...details }
+      ));
+    }
+
+    return conflicts;
   }
 
   /**
-   * Resolve a conflict
+   * Resolve a conflict. Resolving the last pending file of a merge conflict
+   * completes (or, on reject, abandons) the underlying merge.
    */
-  async resolveConflict(conflictId: string, resolution: 'merge' | 'override_a' | 'override_b' | 'reject', resolvedBy: string): Promise<boolean> {
+  async resolveConflict(conflictId: string, resolution: ConflictResolution, resolvedBy: string): Promise<boolean> {
     const db = getDatabase();
     const result = await db.query(
       `UPDATE file_conflicts
@@ -508,11 +594,131 @@ export class AgentCoordinator extends EventEmitter {
 
     if (success) {
       this.emit('conflictResolved', { conflictId, resolution, resolvedBy });
+      await this.completeMergeIfResolved(conflictId, resolvedBy);
     }
 
     return success;
   }
 
+  /**
+   * Finish a merge once all of its conflicted files have a resolution.
+   * Any file that is still conflicted afterwards is recorded as a new conflict.
+   */
+  private async completeMergeIfResolved(conflictId: string, resolvedBy: string): Promise<void> {
+    const db = getDatabase();
+    const conflict = await db.query<{ conflict_type: string; details: Record<string, unknown> | null }>(
+      `SELECT conflict_type, details FROM file_conflicts WHERE id = $1`,
+      [conflictId]
+    );
+
+    const row = conflict.rows[0];
+    const details = row?.details as MergeConflictDetails | null | undefined;
+    if (row?.conflict_type !== 'merge_conflict' || !details?.mergeId) {
+      return;
+    }
+
+    const siblings = await db.query<{
+      file_path: string;
+      agent_a_id: string;
+      status: string;
+      resolution: ConflictResolution | null;
+    }>(
+      `SELECT file_path, agent_a_id, status, resolution FROM file_conflicts
+       WHERE project_id = $1 AND conflict_type = 'merge_conflict' AND details->>'mergeId' = $2`,
+      [this.projectId, details.mergeId]
+    );
+
+    if (siblings.rows.some(s => s.status !== 'resolved')) {
+      return;
+    }
+
+    const agentId = siblings.rows[0].agent_a_id;
+
+    if (siblings.rows.some(s => s.resolution === 'reject')) {
+      await this.recordMessage('MERGE_REJECTED', null, agentId, {
+        mergeId: details.mergeId,
+        resolvedBy,
+        sourceBranch: details.sourceBranch,
+        taskId: details.taskId,
+      });
+      this.emit('mergeRejected', { ...details, agentId });
+      return;
+    }
+
+    const resolutions: Record<string, MergeFileResolution> = {};
+    for (const sibling of siblings.rows) {
+      const resolution = sibling.resolution as Exclude<ConflictResolution, 'reject'>;
+      resolutions[sibling.file_path] = MERGE_RESOLUTIONS[resolution];
+    }
+
+    try {
+      const worktrees = createWorktreeManager({
+        projectDir: details.repository,
+        integrationBranch: details.targetBranch,
+      });
+      const merge = await worktrees.merge(details.sourceBranch, { agentId, resolutions });
+
+      if (merge.status === 'conflict') {
+        const conflicts = await this.recordMergeConflicts(merge, details.repository, details.taskId);
+        this.emit('mergeConflicted', { ...details, agentId, conflicts });
+        return;
+      }
+
+      await this.recordMessage('MERGE_COMPLETED', null, agentId, {
+        mergeId: details.mergeId,
+        resolvedBy,
+        sourceBranch: details.sourceBranch,
+        commit: merge.commit,
+        taskId: details.taskId,
+      });
+      this.emit('mergeCompleted', { ...details, agentId, commit: merge.commit });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to complete merge ${details.mergeId}:`, errorMessage);
+      await this.recordMessage('MERGE_FAILED', null, agentId, {
+        mergeId: details.mergeId,
+        resolvedBy,
+        sourceBranch: details.sourceBranch,
+        taskId: details.taskId,
+        error: errorMessage,
+      });
+      this.emit('mergeFailed', { ...details, agentId, error: errorMessage });
+    }
+  }
+
+  /**
+   * Where the conflicted merge of a task's work stands. A merge stays
+   * pending while any of its files (including ones that conflicted again
+   * after a resolution) awaits a decision, and until the resolved merge
+   * has been applied.
+   *
+   * @param taskId - Task whose work was being merged
+   * @param since - Only outcomes recorded from this time on count
+   */
+  async getTaskMergeStatus(taskId: string, since: Date): Promise<TaskMergeStatus> {
+    const db = getDatabase();
+    const pending = await db.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM file_conflicts
+       WHERE project_id = $1 AND conflict_type = 'merge_conflict'
+       AND status = 'pending' AND details->>'taskId' = $2`,
+      [this.projectId, taskId]
+    );
+    if (parseInt(pending.rows[0].count, 10) > 0) {
+      return 'pending';
+    }
+
+    const outcome = await db.query<{ message_type: string }>(
+      `SELECT message_type FROM coordination_messages
+       WHERE project_id = $1 AND message_type = ANY($2)
+       AND payload->>'taskId' = $3 AND created_at >= $4
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [this.projectId, Object.keys(MERGE_OUTCOMES), taskId, since]
+    );
+
+    return outcome.rows[0] ? MERGE_OUTCOMES[outcome.rows[0].message_type] : 'pending';
+  }
+
   /**
    * Get pending conflicts
    */
@@ -526,6 +732,7 @@ export class AgentCoordinator extends EventEmitter {
       conflict_type: string;
       status: string;
       resolution: string;
+      details: Record<string, unknown> | null;
     }>(
       `SELECT * FROM file_conflicts
        WHERE project_id = $1 AND status = 'pending'
@@ -541,6 +748,7 @@ export class AgentCoordinator extends EventEmitter {
       conflictType: row.conflict_type,
       status: row.status as 'pending' | 'resolved',
       resolution: row.resolution,
+      details: row.details || undefined,
     }));
   }
 
@@ -0,0 +1,105 @@
+/**
+ * Tests for merge conflict tracking
+ * A task's conflicted merge stays pending until it is resolved and applied
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../lib/database.js';
+import { WorktreeManager, createWorktreeManager } from '../worktree/index.js';
+import { AgentCoordinator, createCoordinator } from './index.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('Task merge status', () => {
+  let projectId: string;
+  let agentA: string;
+  let agentB: string;
+  let projectDir: string;
+  let worktrees: WorktreeManager;
+  let coordinator: AgentCoordinator;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const project = await db.query<{ id: string }>(
+      `INSERT INTO projects (name) VALUES ('merge status') RETURNING id`
+    );
+    projectId = project.rows[0].id;
+
+    const agents = await db.query<{ id: string }>(
+      `INSERT INTO agents (project_id, type, status)
+       VALUES ($1, 'developer', 'idle'), ($1, 'developer', 'idle') RETURNING id`,
+      [projectId]
+    );
+    [agentA, agentB] = agents.rows.map(row => row.id);
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-merge-'));
+    worktrees = createWorktreeManager({ projectDir });
+    coordinator = createCoordinator({ projectId });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  // Agent A's work lands first, so agent B's branch conflicts with it
+  async function conflictingMerge(taskId: string) {
+    await worktrees.createWorktree(agentB, 'developer');
+
+    const a = await worktrees.createWorktree(agentA, 'developer');
+    await fs.writeFile(path.join(a.path, 'shared.txt'), 'from a\n');
+    await worktrees.mergeBack(agentA);
+
+    const b = worktrees.getWorktree(agentB)!;
+    await fs.writeFile(path.join(b.path, 'shared.txt'), 'from b\n');
+    const merge = await worktrees.mergeBack(agentB);
+    expect(merge.status).toBe('conflict');
+
+    return coordinator.recordMergeConflicts(merge, projectDir, taskId);
+  }
+
+  it('should stay pending until the resolved merge is applied', async () => {
+    const taskId = uuidv4();
+    const since = new Date();
+    const [conflict] = await conflictingMerge(taskId);
+
+    expect(await coordinator.getTaskMergeStatus(taskId, since)).toBe('pending');
+
+    await coordinator.resolveConflict(conflict.id, 'override_a', agentA);
+
+    expect(await coordinator.getTaskMergeStatus(taskId, since)).toBe('merged');
+    expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from b');
+  });
+
+  it('should report a rejected merge', async () => {
+    const taskId = uuidv4();
+    const since = new Date();
+    const [conflict] = await conflictingMerge(taskId);
+
+    await coordinator.resolveConflict(conflict.id, 'reject', agentA);
+
+    expect(await coordinator.getTaskMergeStatus(taskId, since)).toBe('rejected');
+    expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from a');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for budget enforcement
+ * Threshold resolution, USD/token/time enforcement and audited extensions on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDatabase } from '../../lib/database.js';
+import {
+  getBudgetEnforcer,
+  resolveThresholds,
+  saveProjectBudgetPolicy,
+  validateBudgetPolicy,
+} from './budgets.js';
+import { getCostTracker } from './index.js';
+
+describe('BudgetEnforcer', () => {
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  async function createProject(values: string): Promise<string> {
+    const result = await getDatabase().query<{ id: string }>(
+      `INSERT INTO projects (name, budget_cost_usd, cost_used, budget_tokens, tokens_used, budget_time_hours, started_at)
+       VALUES ${values} RETURNING id`
+    );
+    return result.rows[0].id;
+  }
+
+  it('should resolve thresholds per dimension before the general list and defaults', () => {
+    const project = { dimensions: { tokens: [{ atPercent: 50, action: 'pause_workflow' as const }] } };
+    const global = { thresholds: [{ atPercent: 80, action: 'alert' as const }] };
+
+    expect(resolveThresholds('tokens', project, global)).toEqual([{ atPercent: 50, action: 'pause_workflow' }]);
+    expect(resolveThresholds('time', project, global)).toEqual([{ atPercent: 80, action: 'alert' }]);
+    expect(resolveThresholds('cost').map(t => t.action)).toEqual(['downgrade_model', 'hard_stop']);
+    expect(resolveThresholds('time').map(t => t.action)).toEqual(['alert', 'downgrade_model', 'hard_stop']);
+
+    expect(validateBudgetPolicy(project).valid).toBe(true);
+    expect(validateBudgetPolicy({ thresholds: [{ atPercent: 50, action: 'explode' }] }).valid).toBe(false);
+    expect(validateBudgetPolicy({ dimensions: { disk: [] } }).valid).toBe(false);
+  });
+
+  it('should hard stop on any exhausted budget, not just USD', async () => {
+    const tokensOut = await createProject(`('tokens-out', 100, 1, 1000, 1000, 24, NULL)`);
+    const timeOut = await createProject(`('time-out', 100, 1, 1000000, 0, 24, NOW() - INTERVAL '30 hours')`);
+    const notStarted = await createProject(`('not-started', 100, 1, 1000000, 0, 1, NULL)`);
+
+    const tracker = getCostTracker();
+    expect(await tracker.enforceBudgetLimit(tokensOut)).toBe(false);
+    expect(await tracker.enforceBudgetLimit(timeOut)).toBe(false);
+    expect(await tracker.enforceBudgetLimit(notStarted)).toBe(true);
+
+    const status = await getBudgetEnforcer().getStatus(timeOut);
+    expect(status.budgets.time.percentUsed).toBeGreaterThanOrEqual(125);
+    expect(status.budgets.cost.percentUsed).toBe(1);
+    expect(status.actions.map(a => `${a.dimension}:${a.action}`)).toEqual([
+      'time:alert', 'time:downgrade_model', 'time:hard_stop',
+    ]);
+  });
+
+  it('should carry out each threshold action once', async () => {
+    const projectId = await createProject(`('pausing', 100, 0, 1000, 600, 24, NULL)`);
+    await saveProjectBudgetPolicy(projectId, {
+      dimensions: { tokens: [{ atPercent: 50, action: 'pause_workflow' }, { atPercent: 100, action: 'hard_stop' }] },
+    });
+
+    const enforcer = getBudgetEnforcer();
+    const actions: Array<{ projectId: string; dimension: string; action: string }> = [];
+    const listener = (event: { projectId: string; dimension: string; action: string }) => {
+      if (event.projectId === projectId) actions.push(event);
+    };
+    enforcer.on('budget:action', listener);
+
+    const first = await enforcer.enforce(projectId);
+    await enforcer.enforce(projectId);
+    enforcer.off('budget:action', listener);
+
+    expect(first).toMatchObject({ allowed: true, pauseWorkflow: true, downgradeModel: false });
+    expect(actions).toHaveLength(1);
+    expect(actions[0]).toMatchObject({ dimension: 'tokens', action: 'pause_workflow' });
+  });
+
+  it('should extend a budget and record the extension', async () => {
+    const projectId = await createProject(`('extended', 100, 0, 1000, 1000, 24, NULL)`);
+    const enforcer = getBudgetEnforcer();
+    expect((await enforcer.getStatus(projectId)).allowed).toBe(false);
+
+    const extension = await enforcer.extendBudget(projectId, {
+      dimension: 'tokens',
+      amount: 500,
+      reason: 'Final integration pass',
+      grantedBy: 'ops',
+    });
+    expect(extension).toMatchObject({
+      dimension: 'tokens',
+      amount: 500,
+      previousLimit: 1000,
+      newLimit: 1500,
+      percentUsed: 100,
+      reason: 'Final integration pass',
+      grantedBy: 'ops',
+    });
+
+    const status = await enforcer.getStatus(projectId);
+    expect(status.allowed).toBe(true);
+    expect(status.budgets.tokens.limit).toBe(1500);
+
+    expect((await enforcer.getBudgetExtensions(projectId)).map(e => e.id)).toEqual([extension.id]);
+
+    await expect(enforcer.extendBudget(projectId, { dimension: 'time', amount: 1.5, reason: 'x' }))
+      .rejects.toThrow('whole number');
+    await expect(enforcer.extendBudget(projectId, { dimension: 'cost', amount: 10, reason: ' ' }))
+      .rejects.toThrow('reason is required');
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Budget Enforcement
+ *
+ * Enforces a project's three budgets the same way: USD (cost_used against
+ * budget_cost_usd), tokens (tokens_used against budget_tokens) and
+ * wall-clock hours since the project timer started (against
+ * budget_time_hours). When use of a budget crosses a threshold its action
+ * runs once: an alert, pausing the workflow, downgrading the model of new
+ * agents, or a hard stop on new work. Extensions raise a limit and are
+ * recorded in budget_extensions.
+ *
+ * A project's policy lives under `config.budgetPolicy` in the projects
+ * table and falls back to the global config, then to the defaults.
+ */
+
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { getDatabase } from '../../lib/database.js';
+import { getNotificationService } from '../notifications/index.js';
+import type {
+  BudgetAction,
+  BudgetDimension,
+  BudgetPolicy,
+  BudgetThresholdAction,
+} from '../../types/index.js';
+
+export interface BudgetUsage {
+  dimension: BudgetDimension;
+  used: number;       // USD, tokens or hours
+  limit: number;
+  percentUsed: number;
+  remaining: number;
+}
+
+export interface ActiveBudgetAction extends BudgetThresholdAction {
+  dimension: BudgetDimension;
+  percentUsed: number;
+}
+
+export interface BudgetEnforcementStatus {
+  projectId: string;
+  budgets: Record<BudgetDimension, BudgetUsage>;
+  actions: ActiveBudgetAction[];  // Every threshold currently crossed
+  allowed: boolean;               // False once any hard stop is crossed
+  pauseWorkflow: boolean;
+  downgradeModel: boolean;
+}
+
+export interface BudgetExtension {
+  id: string;
+  projectId: string;
+  dimension: BudgetDimension;
+  amount: number;
+  previousLimit: number;
+  newLimit: number;
+  percentUsed?: number;
+  reason: string;
+  grantedBy?: string;
+  createdAt: Date;
+}
+
+export interface BudgetExtensionRequest {
+  dimension: BudgetDimension;
+  amount: number;
+  reason: string;
+  grantedBy?: string;
+}
+
+/**
+ * Cost already alerts at 50/75/90/100% through CostTracker, so its
+ * defaults leave alerting out.
+ */
+export const DEFAULT_BUDGET_POLICY: Required<BudgetPolicy> = {
+  thresholds: [
+    { atPercent: 75, action: 'alert' },
+    { atPercent: 90, action: 'downgrade_model' },
+    { atPercent: 100, action: 'hard_stop' },
+  ],
+  dimensions: {
+    cost: [
+      { atPercent: 90, action: 'downgrade_model' },
+      { atPercent: 100, action: 'hard_stop' },
+    ],
+  },
+};
+
+export const BUDGET_DIMENSIONS: BudgetDimension[] = ['cost', 'tokens', 'time'];
+
+const BUDGET_COLUMNS: Record<BudgetDimension, { column: string; fallback: number }> = {
+  cost: { column: 'budget_cost_usd', fallback: 100 },
+  tokens: { column: 'budget_tokens', fallback: 1000000 },
+  time: { column: 'budget_time_hours', fallback: 24 },
+};
+
+const DIMENSION_LABELS: Record<BudgetDimension, string> = {
+  cost: 'Cost',
+  tokens: 'Token',
+  time: 'Time',
+};
+
+const ThresholdListSchema = z.array(z.object({
+  atPercent: z.number().min(0).max(1000),
+  action: z.enum(['alert', 'pause_workflow', 'downgrade_model', 'hard_stop']),
+}).strict());
+
+const BudgetPolicySchema = z.object({
+  thresholds: ThresholdListSchema.optional(),
+  dimensions: z.object({
+    cost: ThresholdListSchema.optional(),
+    tokens: ThresholdListSchema.optional(),
+    time: ThresholdListSchema.optional(),
+  }).strict().optional(),
+}).strict();
+
+interface ProjectBudgetRow {
+  budget_cost_usd: string | null;
+  cost_used: string | null;
+  budget_tokens: number | null;
+  tokens_used: number | null;
+  budget_time_hours: number | null;
+  started_at: Date | null;
+  config: Record<string, unknown> | null;
+}
+
+interface BudgetExtensionRow {
+  id: string;
+  project_id: string;
+  dimension: BudgetDimension;
+  amount: string;
+  previous_limit: string;
+  new_limit: string;
+  percent_used: string | null;
+  reason: string;
+  granted_by: string | null;
+  created_at: Date;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function usage(dimension: BudgetDimension, used: number, limit: number): BudgetUsage {
+  return {
+    dimension,
+    used: round(used),
+    limit,
+    percentUsed: limit > 0 ? round((used / limit) * 100) : 0,
+    remaining: round(Math.max(0, limit - used)),
+  };
+}
+
+/**
+ * Check a policy's shape.
+ */
+export function validateBudgetPolicy(input: unknown): { valid: boolean; policy?: BudgetPolicy; errors: string[] } {
+  const parsed = BudgetPolicySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`),
+    };
+  }
+  return { valid: true, policy: parsed.data as BudgetPolicy, errors: [] };
+}
+
+/**
+ * Thresholds for one budget: the first policy that sets that dimension,
+ * or failing that a general list, wins.
+ */
+export function resolveThresholds(
+  dimension: BudgetDimension,
+  ...policies: Array<BudgetPolicy | undefined>
+): BudgetThresholdAction[] {
+  const ordered = [...policies, DEFAULT_BUDGET_POLICY].filter((p): p is BudgetPolicy => !!p);
+  for (const policy of ordered) {
+    const thresholds = policy.dimensions?.[dimension] || policy.thresholds;
+    if (thresholds) {
+      return [...thresholds].sort((a, b) => a.atPercent - b.atPercent);
+    }
+  }
+  return [];
+}
+
+export class BudgetEnforcer extends EventEmitter {
+  // projectId -> `${dimension}:${atPercent}:${action}` already carried out
+  private applied: Map<string, Set<string>> = new Map();
+
+  constructor(private policy?: BudgetPolicy) {
+    super();
+  }
+
+  /**
+   * Current use of every budget and the thresholds crossed, without
+   * acting on them.
+   */
+  async getStatus(projectId: string): Promise<BudgetEnforcementStatus> {
+    const db = getDatabase();
+    const result = await db.query<ProjectBudgetRow>(
+      `SELECT budget_cost_usd, cost_used, budget_tokens, tokens_used, budget_time_hours, started_at, config
+       FROM projects WHERE id = $1`,
+      [projectId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    // The time budget only runs once the project timer has started
+    const hours = row.started_at ? (Date.now() - new Date(row.started_at).getTime()) / (60 * 60 * 1000) : 0;
+    const budgets: Record<BudgetDimension, BudgetUsage> = {
+      cost: usage('cost', parseFloat(row.cost_used || '0'), parseFloat(row.budget_cost_usd ?? '100')),
+      tokens: usage('tokens', row.tokens_used || 0, row.budget_tokens ?? BUDGET_COLUMNS.tokens.fallback),
+      time: usage('time', hours, row.budget_time_hours ?? BUDGET_COLUMNS.time.fallback),
+    };
+
+    const projectPolicy = row.config?.budgetPolicy as BudgetPolicy | undefined;
+    const actions: ActiveBudgetAction[] = [];
+    for (const dimension of BUDGET_DIMENSIONS) {
+      const { percentUsed } = budgets[dimension];
+      for (const threshold of resolveThresholds(dimension, projectPolicy, this.policy)) {
+        if (percentUsed >= threshold.atPercent) {
+          actions.push({ ...threshold, dimension, percentUsed });
+        }
+      }
+    }
+
+    const has = (action: BudgetAction) => actions.some(a => a.action === action);
+    return {
+      projectId,
+      budgets,
+      actions,
+      allowed: !has('hard_stop'),
+      pauseWorkflow: has('pause_workflow'),
+      downgradeModel: has('downgrade_model'),
+    };
+  }
+
+  /**
+   * Check every budget and carry out thresholds crossed since the last
+   * check. Each threshold acts once until its budget is extended.
+   */
+  async enforce(projectId: string): Promise<BudgetEnforcementStatus> {
+    const status = await this.getStatus(projectId);
+
+    let applied = this.applied.get(projectId);
+    if (!applied) {
+      applied = new Set();
+      this.applied.set(projectId, applied);
+    }
+
+    for (const action of status.actions) {
+      const key = `${action.dimension}:${action.atPercent}:${action.action}`;
+      if (applied.has(key)) continue;
+      applied.add(key);
+
+      if (action.action === 'alert') {
+        await this.sendThresholdAlert(projectId, status.budgets[action.dimension], action.atPercent);
+      }
+      this.emit('budget:action', { projectId, ...action, usage: status.budgets[action.dimension] });
+    }
+
+    if (!status.allowed) {
+      this.emit('budget:hard_stop', { projectId, status });
+    }
+
+    return status;
+  }
+
+  /**
+   * Raise one budget's limit and record who granted it and why.
+   * @throws Error if the request is invalid or the project doesn't exist
+   */
+  async extendBudget(projectId: string, request: BudgetExtensionRequest): Promise<BudgetExtension> {
+    const { dimension, amount, reason, grantedBy } = request;
+    if (!BUDGET_DIMENSIONS.includes(dimension)) {
+      throw new Error(`Unknown budget dimension: ${dimension}`);
+    }
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      throw new Error('Extension amount must be a positive number');
+    }
+    if (dimension !== 'cost' && !Number.isInteger(amount)) {
+      throw new Error(`Extension amount for ${dimension} must be a whole number`);
+    }
+    if (!reason || !reason.trim()) {
+      throw new Error('A reason is required to extend a budget');
+    }
+
+    const before = await this.getStatus(projectId);
+    const { column, fallback } = BUDGET_COLUMNS[dimension];
+    const db = getDatabase();
+
+    const extension = await db.transaction(async client => {
+      const updated = await client.query<{ previous_limit: string; new_limit: string }>(
+        `UPDATE projects p SET ${column} = COALESCE(old.${column}, $2) + $3, updated_at = NOW()
+         FROM (SELECT ${column} FROM projects WHERE id = $1 FOR UPDATE) old
+         WHERE p.id = $1
+         RETURNING COALESCE(old.${column}, $2) as previous_limit, p.${column} as new_limit`,
+        [projectId, fallback, amount]
+      );
+      if (updated.rows.length === 0) {
+        throw new Error(`Project not found: ${projectId}`);
+      }
+
+      const inserted = await client.query<BudgetExtensionRow>(
+        `INSERT INTO budget_extensions (project_id, dimension, amount, previous_limit, new_limit, percent_used, reason, granted_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          projectId,
+          dimension,
+          amount,
+          updated.rows[0].previous_limit,
+          updated.rows[0].new_limit,
+          before.budgets[dimension].percentUsed,
+          reason.trim(),
+          grantedBy || null,
+        ]
+      );
+      return this.mapRowToExtension(inserted.rows[0]);
+    });
+
+    // Thresholds of the extended budget act again when crossed anew
+    const applied = this.applied.get(projectId);
+    for (const key of [...(applied || [])]) {
+      if (key.startsWith(`${dimension}:`)) {
+        applied!.delete(key);
+      }
+    }
+
+    this.emit('budget:extended', extension);
+    return extension;
+  }
+
+  /**
+   * Extensions granted for a project, newest first.
+   */
+  async getBudgetExtensions(projectId: string, limit = 50): Promise<BudgetExtension[]> {
+    const db = getDatabase();
+    const result = await db.query<BudgetExtensionRow>(
+      `SELECT * FROM budget_extensions WHERE project_id = $1 ORDER BY created_at DESC LIMIT $2`,
+      [projectId, limit]
+    );
+    return result.rows.map(row => this.mapRowToExtension(row));
+  }
+
+  private async sendThresholdAlert(projectId: string, budget: BudgetUsage, threshold: number): Promise<void> {
+    try {
+      const label = DIMENSION_LABELS[budget.dimension];
+      const unit = budget.dimension === 'cost' ? 'USD' : budget.dimension === 'tokens' ? 'tokens' : 'hours';
+
+      await getNotificationService().createNotification(
+        projectId,
+        threshold >= 100 ? 'critical' : 'warning',
+        'budget_threshold',
+        `${label} Budget: ${threshold}% Used`,
+        {
+          message: `${label} budget is at ${budget.percentUsed.toFixed(1)}% (${budget.used} of ${budget.limit} ${unit})`,
+          metadata: { ...budget, threshold },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to send budget threshold alert:', error);
+    }
+  }
+
+  private mapRowToExtension(row: BudgetExtensionRow): BudgetExtension {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      dimension: row.dimension,
+      amount: parseFloat(row.amount),
+      previousLimit: parseFloat(row.previous_limit),
+      newLimit: parseFloat(row.new_limit),
+      percentUsed: row.percent_used === null ? undefined : parseFloat(row.percent_used),
+      reason: row.reason,
+      grantedBy: row.granted_by || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+/**
+ * Read `config.budgetPolicy` for a project, if any.
+ */
+export async function loadProjectBudgetPolicy(projectId: string): Promise<BudgetPolicy | undefined> {
+  const db = getDatabase();
+  const result = await db.query<{ config: Record<string, unknown> | null }>(
+    `SELECT config FROM projects WHERE id = $1`,
+    [projectId]
+  );
+
+  const policy = result.rows[0]?.config?.budgetPolicy;
+  return policy && typeof policy === 'object' ? policy as BudgetPolicy : undefined;
+}
+
+/**
+ * Replace a project's policy, or remove it with null.
+ * @throws Error if the project doesn't exist
+ */
+export async function saveProjectBudgetPolicy(projectId: string, policy: BudgetPolicy | null): Promise<void> {
+  const db = getDatabase();
+  const result = policy
+    ? await db.query(
+      `UPDATE projects SET config = jsonb_set(COALESCE(config, '{}'::jsonb), '{budgetPolicy}', $2::jsonb), updated_at = NOW()
+       WHERE id = $1`,
+      [projectId, JSON.stringify(policy)]
+    )
+    : await db.query(
+      `UPDATE projects SET config = COALESCE(config, '{}'::jsonb) - 'budgetPolicy', updated_at = NOW()
+       WHERE id = $1`,
+      [projectId]
+    );
+
+  if ((result.rowCount ?? 0) === 0) {
+    throw new Error(`Project not found: ${projectId}`);
+  }
+}
+
+// Singleton instance
+let budgetEnforcer: BudgetEnforcer | null = null;
+
+export function getBudgetEnforcer(policy?: BudgetPolicy): BudgetEnforcer {
+  if (!budgetEnforcer) {
+    budgetEnforcer = new BudgetEnforcer(policy);
+  }
+  return budgetEnforcer;
+}
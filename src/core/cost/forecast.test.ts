@@ -0,0 +1,140 @@
+/**
+ * Tests for budget forecasting
+ * Burn rate and remaining-work projections, plus the forecast alert on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDatabase } from '../../lib/database.js';
+import { forecastBudget } from './forecast.js';
+import { getCostTracker, type DailySummary } from './index.js';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function day(date: string, totalCost: number): DailySummary {
+  return { date, totalCost, totalTokens: 0, inputTokens: 0, outputTokens: 0, apiCalls: 1, costByModel: {} };
+}
+
+describe('forecastBudget', () => {
+  it('should price remaining tasks by type and project exhaustion from the burn rate', () => {
+    const forecast = forecastBudget({
+      currentSpend: 40,
+      budgetLimit: 100,
+      daily: [day('2026-03-08', 10), day('2026-03-09', 10), day('2026-03-10', 10)],
+      remainingTasks: { feature: 4, docs: 2 },
+      taskTypeCosts: {
+        feature: { averageCost: 15, stdDev: 0, samples: 5 },
+        docs: { averageCost: 5, stdDev: 0, samples: 5 },
+      },
+      now: NOW,
+    });
+
+    expect(forecast.burnRate.dailyAverage).toBe(10);
+    expect(forecast.remainingWork).toEqual({
+      tasks: 6,
+      estimatedCost: 70,
+      byTaskType: {
+        feature: { remaining: 4, averageCost: 15, estimatedCost: 60 },
+        docs: { remaining: 2, averageCost: 5, estimatedCost: 10 },
+      },
+    });
+    expect(forecast.projectedTotal).toEqual({ low: 110, expected: 110, high: 110 });
+    expect(forecast.willExceedBudget).toBe(true);
+    // $60 left at $10/day
+    expect(forecast.exhaustionDate.expected).toEqual(new Date('2026-03-16T12:00:00Z'));
+    expect(forecast.confidence).toBe('medium');
+  });
+
+  it('should widen the bands with spread and count missing days as zero spend', () => {
+    const forecast = forecastBudget({
+      currentSpend: 20,
+      budgetLimit: 100,
+      daily: [day('2026-03-06', 10), day('2026-03-10', 10)],
+      remainingTasks: { feature: 4, migration: 1 },
+      taskTypeCosts: { feature: { averageCost: 10, stdDev: 5, samples: 2 } },
+      now: NOW,
+    });
+
+    expect(forecast.burnRate.activeDays).toBe(2);
+    expect(forecast.burnRate.dailyAverage).toBeLessThan(10);
+    expect(forecast.burnRate.band.low).toBe(0);
+    // Unknown task types fall back to the average of everything finished so far
+    expect(forecast.remainingWork.byTaskType.migration.averageCost).toBe(10);
+    expect(forecast.projectedTotal.expected).toBe(70);
+    expect(forecast.projectedTotal.low).toBeLessThan(70);
+    expect(forecast.projectedTotal.high).toBeGreaterThan(70);
+    expect(forecast.willExceedBudget).toBe(false);
+    expect(forecast.exhaustionDate.expected).toBeNull();
+    expect(forecast.confidence).toBe('low');
+  });
+
+  it('should handle a project with no history', () => {
+    const forecast = forecastBudget({
+      currentSpend: 0,
+      budgetLimit: 50,
+      daily: [],
+      remainingTasks: { feature: 3 },
+      taskTypeCosts: {},
+      now: NOW,
+    });
+
+    expect(forecast.burnRate.dailyAverage).toBe(0);
+    expect(forecast.projectedTotal.expected).toBe(0);
+    expect(forecast.exhaustionDate).toEqual({ low: null, expected: null, high: null });
+    expect(forecast.willExceedBudget).toBe(false);
+  });
+});
+
+describe('CostTracker forecast', () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    const project = await db.query<{ id: string }>(
+      `INSERT INTO projects (name, budget_cost_usd) VALUES ('forecast-test', 1) RETURNING id`
+    );
+    projectId = project.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  it('should forecast from task history and alert before the budget is spent', async () => {
+    const db = getDatabase();
+    const tracker = getCostTracker();
+    const alerts: unknown[] = [];
+    tracker.on('budget:forecast_alert', event => alerts.push(event));
+
+    const done = await db.query<{ id: string }>(
+      `INSERT INTO tasks (project_id, title, type, status) VALUES ($1, 'done', 'feature', 'completed') RETURNING id`,
+      [projectId]
+    );
+    await db.query(
+      `INSERT INTO tasks (project_id, title, type, status)
+       SELECT $1, 'queued ' || i, 'feature', 'pending' FROM generate_series(1, 20) i`,
+      [projectId]
+    );
+
+    await tracker.recordApiCall(projectId, {
+      taskId: done.rows[0].id,
+      model: 'claude-sonnet-4-20250514',
+      inputTokens: 10000,
+      outputTokens: 2000,
+    });
+
+    const forecast = await tracker.getBudgetForecast(projectId);
+    expect(forecast.currentSpend).toBeLessThan(1);
+    expect(forecast.remainingWork.tasks).toBe(20);
+    expect(forecast.remainingWork.byTaskType.feature.averageCost).toBeGreaterThan(0);
+    expect(forecast.willExceedBudget).toBe(true);
+    expect(alerts).toHaveLength(1);
+  });
+});
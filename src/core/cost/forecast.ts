@@ -0,0 +1,182 @@
+/**
+ * Budget Forecasting
+ *
+ * Projects a project's final cost and the date its budget runs out from
+ * two signals: the daily burn rate (exponentially weighted, so recent days
+ * count most) and the work still queued, priced at the average cost of
+ * finished tasks of the same type. Both come with an 80% band.
+ */
+
+import type { DailySummary } from './index.js';
+
+/**
+ * z-score for an 80% two-sided band
+ */
+const BAND_Z = 1.28;
+
+/**
+ * Weight of the most recent day in the burn rate average
+ */
+const BURN_RATE_ALPHA = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskTypeCost {
+  averageCost: number;
+  stdDev: number;
+  samples: number;
+}
+
+export interface ForecastInput {
+  currentSpend: number;
+  budgetLimit: number;
+  daily: DailySummary[];                       // Any order; days without spend may be missing
+  remainingTasks: Record<string, number>;      // Task type -> tasks not yet finished
+  taskTypeCosts: Record<string, TaskTypeCost>; // Task type -> cost of finished tasks
+  now?: Date;
+}
+
+export interface ForecastBand<T> {
+  low: T;
+  expected: T;
+  high: T;
+}
+
+export interface BudgetForecast {
+  generatedAt: Date;
+  currentSpend: number;
+  budgetLimit: number;
+  burnRate: {
+    dailyAverage: number;   // Weighted towards recent days
+    stdDev: number;
+    activeDays: number;
+    band: ForecastBand<number>;
+  };
+  remainingWork: {
+    tasks: number;
+    estimatedCost: number;
+    byTaskType: Record<string, { remaining: number; averageCost: number; estimatedCost: number }>;
+  };
+  projectedTotal: ForecastBand<number>;
+  exhaustionDate: ForecastBand<Date | null>;  // low = earliest; null when that case stays within budget
+  willExceedBudget: boolean;
+  confidence: 'low' | 'medium' | 'high';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Daily spend from the first active day through today, with gaps as zero
+ */
+function dailySeries(daily: DailySummary[], now: Date): number[] {
+  if (daily.length === 0) return [];
+
+  const byDay = new Map(daily.map(day => [day.date, day.totalCost]));
+  const first = [...byDay.keys()].sort()[0];
+  const series: number[] = [];
+  for (let t = Date.parse(first); dayKey(new Date(t)) <= dayKey(now); t += DAY_MS) {
+    series.push(byDay.get(dayKey(new Date(t))) || 0);
+  }
+  return series;
+}
+
+/**
+ * Project final cost and budget exhaustion.
+ */
+export function forecastBudget(input: ForecastInput): BudgetForecast {
+  const now = input.now || new Date();
+
+  // Burn rate: EWMA and spread of daily spend
+  const series = dailySeries(input.daily, now);
+  let dailyAverage = 0;
+  series.forEach((cost, i) => {
+    dailyAverage = i === 0 ? cost : BURN_RATE_ALPHA * cost + (1 - BURN_RATE_ALPHA) * dailyAverage;
+  });
+  const mean = series.length > 0 ? series.reduce((a, b) => a + b, 0) / series.length : 0;
+  const stdDev = series.length > 1
+    ? Math.sqrt(series.reduce((sum, cost) => sum + (cost - mean) ** 2, 0) / (series.length - 1))
+    : 0;
+  const rateBand = {
+    low: Math.max(0, dailyAverage - BAND_Z * stdDev),
+    expected: dailyAverage,
+    high: dailyAverage + BAND_Z * stdDev,
+  };
+
+  // Remaining work: queued tasks at the average cost of their type, or of
+  // all finished tasks for types never seen
+  const known = Object.values(input.taskTypeCosts).filter(c => c.samples > 0);
+  const totalSamples = known.reduce((sum, c) => sum + c.samples, 0);
+  const overall: TaskTypeCost = totalSamples > 0
+    ? {
+      averageCost: known.reduce((sum, c) => sum + c.averageCost * c.samples, 0) / totalSamples,
+      stdDev: Math.sqrt(known.reduce((sum, c) => sum + c.stdDev ** 2 * c.samples, 0) / totalSamples),
+      samples: totalSamples,
+    }
+    : { averageCost: 0, stdDev: 0, samples: 0 };
+
+  let tasks = 0;
+  let estimatedCost = 0;
+  let variance = 0;
+  const byTaskType: BudgetForecast['remainingWork']['byTaskType'] = {};
+  for (const [type, remaining] of Object.entries(input.remainingTasks)) {
+    if (remaining <= 0) continue;
+    const cost = input.taskTypeCosts[type]?.samples ? input.taskTypeCosts[type] : overall;
+    tasks += remaining;
+    estimatedCost += remaining * cost.averageCost;
+    variance += remaining * cost.stdDev ** 2;
+    byTaskType[type] = {
+      remaining,
+      averageCost: round(cost.averageCost),
+      estimatedCost: round(remaining * cost.averageCost),
+    };
+  }
+  const costSpread = BAND_Z * Math.sqrt(variance);
+
+  const projectedTotal = {
+    low: round(input.currentSpend + Math.max(0, estimatedCost - costSpread)),
+    expected: round(input.currentSpend + estimatedCost),
+    high: round(input.currentSpend + estimatedCost + costSpread),
+  };
+
+  // The budget runs out in a case only if that case's total goes over it;
+  // the higher total pairs with the faster burn
+  const remainingBudget = Math.max(0, input.budgetLimit - input.currentSpend);
+  const exhaustion = (total: number, rate: number): Date | null => {
+    if (total <= input.budgetLimit) return null;
+    if (remainingBudget === 0) return now;
+    if (rate <= 0) return null;
+    return new Date(now.getTime() + (remainingBudget / rate) * DAY_MS);
+  };
+
+  const activeDays = series.filter(cost => cost > 0).length;
+  const confidence = activeDays >= 14 && totalSamples >= 10 ? 'high'
+    : activeDays >= 3 && totalSamples >= 3 ? 'medium'
+    : 'low';
+
+  return {
+    generatedAt: now,
+    currentSpend: round(input.currentSpend),
+    budgetLimit: round(input.budgetLimit),
+    burnRate: {
+      dailyAverage: round(dailyAverage),
+      stdDev: round(stdDev),
+      activeDays,
+      band: { low: round(rateBand.low), expected: round(rateBand.expected), high: round(rateBand.high) },
+    },
+    remainingWork: { tasks, estimatedCost: round(estimatedCost), byTaskType },
+    projectedTotal,
+    exhaustionDate: {
+      low: exhaustion(projectedTotal.high, rateBand.high),
+      expected: exhaustion(projectedTotal.expected, rateBand.expected),
+      high: exhaustion(projectedTotal.low, rateBand.low),
+    },
+    willExceedBudget: projectedTotal.expected > input.budgetLimit,
+    confidence,
+  };
+}
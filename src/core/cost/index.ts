@@ -2,6 +2,8 @@ import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../../lib/database.js';
 import { getNotificationService, NotificationLevel } from '../notifications/index.js';
+import { BudgetForecast, TaskTypeCost, forecastBudget } from './forecast.js';
+import { getBudgetEnforcer } from './budgets.js';
 
 /**
  * API call record for cost tracking
@@ -140,6 +142,16 @@ const BUDGET_THRESHOLDS = [
   { percent: 100, level: 'exceeded' as const, notification: 'critical' as NotificationLevel },
 ];
 
+/**
+ * How often a project's forecast is re-checked as spend is recorded
+ */
+const FORECAST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Days of history the forecast looks at
+ */
+const FORECAST_HISTORY_DAYS = 30;
+
 /**
  * Cost Tracking Service
  * Provides comprehensive cost tracking, budget enforcement, and alerting
@@ -147,6 +159,8 @@ const BUDGET_THRESHOLDS = [
 export class CostTracker extends EventEmitter {
   private pricingCache: Map<string, ModelPricing> = new Map();
   private lastAlertThreshold: Map<string, number> = new Map();
+  private lastForecastCheck: Map<string, number> = new Map();
+  private forecastAlerted: Set<string> = new Set();
 
   constructor() {
     super();
@@ -269,6 +283,8 @@ export class CostTracker extends EventEmitter {
 
     // Check budget and send alerts if needed
     await this.checkAndAlertBudget(projectId);
+    await this.checkForecast(projectId);
+    await this.enforceBudgetActions(projectId);
 
     return costEvent;
   }
@@ -372,19 +388,34 @@ export class CostTracker extends EventEmitter {
   }
 
   /**
-   * Enforce budget limit - returns true if spending allowed
+   * Enforce budget limits - returns true if spending allowed. USD, token
+   * and time budgets all apply; any of them crossing a hard stop threshold
+   * (100% by default) blocks new work.
    */
   async enforceBudgetLimit(projectId: string): Promise<boolean> {
-    const status = await this.checkBudget(projectId);
+    const enforcement = await getBudgetEnforcer().enforce(projectId);
 
-    if (!status.withinBudget) {
-      this.emit('budget:exceeded', { projectId, status });
+    if (!enforcement.allowed) {
+      const status = await this.checkBudget(projectId);
+      this.emit('budget:exceeded', { projectId, status, enforcement });
       return false;
     }
 
     return true;
   }
 
+  /**
+   * Carry out threshold actions for the project's budgets after usage
+   * changes
+   */
+  private async enforceBudgetActions(projectId: string): Promise<void> {
+    try {
+      await getBudgetEnforcer().enforce(projectId);
+    } catch (error) {
+      console.error('Failed to enforce budget actions:', error);
+    }
+  }
+
   /**
    * Check budget and send alerts if thresholds crossed
    */
@@ -450,6 +481,121 @@ export class CostTracker extends EventEmitter {
     }
   }
 
+  /**
+   * Project the final cost and when the budget runs out, from daily spend,
+   * the tasks still queued and what finished tasks of each type cost
+   */
+  async getBudgetForecast(projectId: string): Promise<BudgetForecast> {
+    const db = getDatabase();
+    const status = await this.checkBudget(projectId);
+    const daily = await this.getDailySummaries(projectId, FORECAST_HISTORY_DAYS);
+
+    const remaining = await db.query<{ type: string; count: string }>(
+      `SELECT COALESCE(type, 'general') as type, COUNT(*) as count
+       FROM tasks
+       WHERE project_id = $1 AND status IN ('pending', 'assigned', 'in_progress', 'blocked')
+       GROUP BY COALESCE(type, 'general')`,
+      [projectId]
+    );
+
+    const costs = await db.query<{ type: string; samples: string; average_cost: string; std_dev: string | null }>(
+      `SELECT COALESCE(t.type, 'general') as type, COUNT(*) as samples,
+              AVG(c.cost) as average_cost, STDDEV_SAMP(c.cost) as std_dev
+       FROM (
+         SELECT task_id, SUM(cost_usd) as cost
+         FROM cost_events
+         WHERE project_id = $1 AND task_id IS NOT NULL
+         GROUP BY task_id
+       ) c
+       JOIN tasks t ON t.id = c.task_id
+       WHERE t.status = 'completed'
+       GROUP BY COALESCE(t.type, 'general')`,
+      [projectId]
+    );
+
+    const remainingTasks: Record<string, number> = {};
+    for (const row of remaining.rows) {
+      remainingTasks[row.type] = parseInt(row.count, 10);
+    }
+
+    const taskTypeCosts: Record<string, TaskTypeCost> = {};
+    for (const row of costs.rows) {
+      taskTypeCosts[row.type] = {
+        averageCost: parseFloat(row.average_cost),
+        stdDev: row.std_dev === null ? 0 : parseFloat(row.std_dev),
+        samples: parseInt(row.samples, 10),
+      };
+    }
+
+    return forecastBudget({
+      currentSpend: status.currentSpend,
+      budgetLimit: status.budgetLimit,
+      daily,
+      remainingTasks,
+      taskTypeCosts,
+    });
+  }
+
+  /**
+   * Re-forecast at most every FORECAST_CHECK_INTERVAL_MS and notify once
+   * when the projected total goes over budget before spend does
+   */
+  private async checkForecast(projectId: string): Promise<void> {
+    const last = this.lastForecastCheck.get(projectId) || 0;
+    if (Date.now() - last < FORECAST_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastForecastCheck.set(projectId, Date.now());
+
+    try {
+      const forecast = await this.getBudgetForecast(projectId);
+
+      if (!forecast.willExceedBudget) {
+        // Alert again if the projection goes back over budget later
+        this.forecastAlerted.delete(projectId);
+        return;
+      }
+      if (forecast.currentSpend >= forecast.budgetLimit || this.forecastAlerted.has(projectId)) {
+        return;
+      }
+
+      await this.sendForecastAlert(projectId, forecast);
+      this.forecastAlerted.add(projectId);
+    } catch (error) {
+      console.error('Failed to check budget forecast:', error);
+    }
+  }
+
+  /**
+   * Send a notification that the project is projected to go over budget
+   */
+  async sendForecastAlert(projectId: string, forecast: BudgetForecast): Promise<void> {
+    const runsOut = forecast.exhaustionDate.expected;
+
+    const notificationService = getNotificationService();
+    await notificationService.createNotification(
+      projectId,
+      'warning',
+      'budget_forecast',
+      `Budget Forecast: $${forecast.projectedTotal.expected.toFixed(2)} of $${forecast.budgetLimit.toFixed(2)}`,
+      {
+        message: `Remaining work is projected to bring spend to $${forecast.projectedTotal.expected.toFixed(2)} ` +
+          `($${forecast.projectedTotal.low.toFixed(2)}-$${forecast.projectedTotal.high.toFixed(2)}), ` +
+          `over the $${forecast.budgetLimit.toFixed(2)} budget` +
+          (runsOut ? `; at the current burn rate the budget runs out around ${runsOut.toISOString().split('T')[0]}` : ''),
+        metadata: {
+          currentSpend: forecast.currentSpend,
+          budgetLimit: forecast.budgetLimit,
+          projectedTotal: forecast.projectedTotal,
+          exhaustionDate: forecast.exhaustionDate,
+          confidence: forecast.confidence,
+        },
+      }
+    );
+
+    this.emit('budget:forecast_alert', { projectId, forecast });
+  }
+
   /**
    * Get cost events for a project
    */
@@ -612,6 +758,8 @@ export class CostTracker extends EventEmitter {
 
     // Reset alert threshold tracking for this project
     this.lastAlertThreshold.delete(projectId);
+    this.lastForecastCheck.delete(projectId);
+    this.forecastAlerted.delete(projectId);
 
     this.emit('budget:updated', { projectId, newBudget });
   }
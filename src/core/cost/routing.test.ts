@@ -0,0 +1,122 @@
+/**
+ * Tests for model routing
+ * Policy precedence, price-tier fallback and logged decisions on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDatabase } from '../../lib/database.js';
+import {
+  ModelRouter,
+  getModelRoutingDecisions,
+  loadProjectModelPolicy,
+  priceTiers,
+  saveProjectModelPolicy,
+  validateModelRoutingPolicy,
+} from './routing.js';
+import { getCostTracker } from './index.js';
+
+const OPUS = 'claude-opus-4-5-20251101';
+const SONNET = 'claude-sonnet-4-20250514';
+const HAIKU = 'claude-3-haiku-20240307';
+
+describe('ModelRouter', () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    const project = await db.query<{ id: string }>(
+      `INSERT INTO projects (name, budget_cost_usd, cost_used) VALUES ('routing-test', 100, 10) RETURNING id`
+    );
+    projectId = project.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  it('should prefer task type over priority over agent type over default', () => {
+    const router = new ModelRouter(SONNET, { agentTypes: { monitor: HAIKU } });
+    const policy = {
+      default: SONNET,
+      agentTypes: { architect: OPUS },
+      taskTypes: { docs: HAIKU },
+      priorities: [{ minPriority: 8, model: OPUS }, { minPriority: 3, model: SONNET }],
+    };
+
+    expect(router.select({ agentType: 'architect', taskType: 'docs', taskPriority: 9 }, policy))
+      .toEqual({ model: HAIKU, rule: 'task_type' });
+    expect(router.select({ agentType: 'developer', taskPriority: 9 }, policy))
+      .toEqual({ model: OPUS, rule: 'priority' });
+    expect(router.select({ agentType: 'architect', taskPriority: 1 }, policy))
+      .toEqual({ model: OPUS, rule: 'agent_type' });
+    expect(router.select({ agentType: 'developer' }, policy))
+      .toEqual({ model: SONNET, rule: 'default' });
+
+    // Without a project policy the router's own policy, then its default, apply
+    expect(router.select({ agentType: 'monitor' })).toEqual({ model: HAIKU, rule: 'agent_type' });
+    expect(router.select({ agentType: 'developer' })).toEqual({ model: SONNET, rule: 'default' });
+  });
+
+  it('should step down price tiers from the pricing table', () => {
+    const router = new ModelRouter(SONNET);
+    const tiers = priceTiers(getCostTracker().getAllModelPricing());
+
+    expect(tiers[0]).toEqual([OPUS]);
+    expect(tiers[1]).toContain(SONNET);
+    expect(tiers[tiers.length - 1]).toEqual([HAIKU]);
+
+    expect(router.downgrade(OPUS, 1)).toBe(SONNET);
+    expect(router.downgrade(OPUS, 5)).toBe(HAIKU);
+    expect(router.downgrade(HAIKU, 1)).toBe(HAIKU);
+    expect(router.downgrade('unpriced-model', 1)).toBe('unpriced-model');
+    expect(router.downgrade(OPUS, 1, { fallbackChain: [OPUS, HAIKU] })).toBe(HAIKU);
+  });
+
+  it('should validate policies against known models', () => {
+    const known = getCostTracker().getAllModelPricing().map(p => p.model);
+
+    expect(validateModelRoutingPolicy({ agentTypes: { monitor: HAIKU } }, known).valid).toBe(true);
+
+    const invalid = validateModelRoutingPolicy({ agentTypes: { janitor: HAIKU }, default: 'gpt-x' }, known);
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual([
+      'agentTypes.janitor: unknown agent type',
+      'default: no pricing for model gpt-x',
+    ]);
+
+    expect(validateModelRoutingPolicy({ models: {} }, known).valid).toBe(false);
+  });
+
+  it('should downgrade as the budget fills and log every decision', async () => {
+    await saveProjectModelPolicy(projectId, { agentTypes: { architect: OPUS } });
+    expect(await loadProjectModelPolicy(projectId)).toEqual({ agentTypes: { architect: OPUS } });
+
+    const router = new ModelRouter(SONNET);
+    const healthy = await router.route(projectId, { agentType: 'architect' });
+    expect(healthy).toMatchObject({ model: OPUS, downgraded: false, rule: 'agent_type' });
+
+    const db = getDatabase();
+    await db.query(`UPDATE projects SET cost_used = 80 WHERE id = $1`, [projectId]);
+    const warning = await router.route(projectId, { agentType: 'architect', taskId: undefined });
+    expect(warning).toMatchObject({ model: SONNET, requestedModel: OPUS, downgraded: true, budgetPercent: 80 });
+
+    await db.query(`UPDATE projects SET cost_used = 95 WHERE id = $1`, [projectId]);
+    const critical = await router.route(projectId, { agentType: 'architect' });
+    expect(critical.model).toBe(HAIKU);
+
+    const decisions = await getModelRoutingDecisions(projectId);
+    expect(decisions.map(d => d.model)).toEqual([HAIKU, SONNET, OPUS]);
+    expect(decisions[1].reason).toContain('downgraded at 80.0% of budget');
+
+    await saveProjectModelPolicy(projectId, null);
+    expect(await loadProjectModelPolicy(projectId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Model Routing
+ *
+ * Picks the model an agent runs on from a routing policy: per task type,
+ * task priority, agent type or a default. Policies are consulted in order
+ * (project first, then the global config) and the first that names a
+ * model wins. Once a project's budget use passes a fallback threshold, or
+ * any of its budgets crosses a downgrade_model action, the chosen model
+ * steps down the price tiers, so spend follows task importance. Every
+ * decision is logged to model_routing_decisions.
+ *
+ * A project's policy lives under `config.modelRouting` in the projects
+ * table.
+ */
+
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { getDatabase } from '../../lib/database.js';
+import type { AgentType, ModelBudgetFallback, ModelRoutingPolicy } from '../../types/index.js';
+import { CostTracker, ModelPricing, getCostTracker } from './index.js';
+import { ActiveBudgetAction, BudgetEnforcer, getBudgetEnforcer } from './budgets.js';
+
+export interface ModelRoutingRequest {
+  agentType: AgentType;
+  taskType?: string;
+  taskPriority?: number;
+  agentId?: string;
+  taskId?: string;
+}
+
+export type ModelRoutingRule = 'task_type' | 'priority' | 'agent_type' | 'default';
+
+export interface ModelRoutingDecision {
+  model: string;
+  requestedModel: string;
+  rule: ModelRoutingRule;
+  downgraded: boolean;
+  budgetPercent?: number;
+  reason: string;
+}
+
+export interface LoggedRoutingDecision extends ModelRoutingDecision {
+  id: string;
+  projectId: string;
+  agentId?: string;
+  taskId?: string;
+  agentType: AgentType;
+  taskType?: string;
+  taskPriority?: number;
+  createdAt: Date;
+}
+
+export const DEFAULT_BUDGET_FALLBACK: ModelBudgetFallback[] = [
+  { atPercent: 75, downgradeSteps: 1 },
+  { atPercent: 90, downgradeSteps: 2 },
+];
+
+const ModelRoutingPolicySchema = z.object({
+  default: z.string().min(1).optional(),
+  agentTypes: z.record(z.string().min(1)).optional(),
+  taskTypes: z.record(z.string().min(1)).optional(),
+  priorities: z.array(z.object({
+    minPriority: z.number().int().min(1).max(10),
+    model: z.string().min(1),
+  })).optional(),
+  budgetFallback: z.array(z.object({
+    atPercent: z.number().min(0).max(100),
+    downgradeSteps: z.number().int().min(0),
+  })).optional(),
+  fallbackChain: z.array(z.string().min(1)).min(1).optional(),
+}).strict();
+
+const AGENT_TYPES: AgentType[] = [
+  'orchestrator', 'architect', 'developer', 'tester', 'qa', 'pm', 'uat', 'sre', 'monitor', 'mentor',
+];
+
+interface RoutingDecisionRow {
+  id: string;
+  project_id: string;
+  agent_id: string | null;
+  task_id: string | null;
+  agent_type: AgentType;
+  task_type: string | null;
+  task_priority: number | null;
+  requested_model: string;
+  model: string;
+  rule: ModelRoutingRule;
+  downgraded: boolean;
+  budget_percent: string | null;
+  reason: string;
+  created_at: Date;
+}
+
+/**
+ * Check a policy's shape and that every model it names has pricing.
+ */
+export function validateModelRoutingPolicy(
+  input: unknown,
+  knownModels: string[]
+): { valid: boolean; policy?: ModelRoutingPolicy; errors: string[] } {
+  const parsed = ModelRoutingPolicySchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`),
+    };
+  }
+
+  const policy = parsed.data as ModelRoutingPolicy;
+  const errors: string[] = [];
+
+  for (const agentType of Object.keys(policy.agentTypes || {})) {
+    if (!AGENT_TYPES.includes(agentType as AgentType)) {
+      errors.push(`agentTypes.${agentType}: unknown agent type`);
+    }
+  }
+
+  const named: Array<[string, string]> = [
+    ...(policy.default ? [['default', policy.default] as [string, string]] : []),
+    ...Object.entries(policy.agentTypes || {}).map(([key, model]) => [`agentTypes.${key}`, model!] as [string, string]),
+    ...Object.entries(policy.taskTypes || {}).map(([key, model]) => [`taskTypes.${key}`, model] as [string, string]),
+    ...(policy.priorities || []).map((entry, i) => [`priorities.${i}.model`, entry.model] as [string, string]),
+    ...(policy.fallbackChain || []).map((model, i) => [`fallbackChain.${i}`, model] as [string, string]),
+  ];
+  for (const [path, model] of named) {
+    if (!knownModels.includes(model)) {
+      errors.push(`${path}: no pricing for model ${model}`);
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, policy, errors: [] };
+}
+
+/**
+ * Models grouped into price tiers, most expensive first. Models priced the
+ * same share a tier; the first listed represents it.
+ */
+export function priceTiers(pricing: ModelPricing[]): string[][] {
+  const sorted = [...pricing].sort((a, b) =>
+    b.outputPricePer1k - a.outputPricePer1k || b.inputPricePer1k - a.inputPricePer1k
+  );
+
+  const tiers: Array<{ key: string; models: string[] }> = [];
+  for (const price of sorted) {
+    const key = `${price.inputPricePer1k}/${price.outputPricePer1k}`;
+    const tier = tiers.find(t => t.key === key);
+    if (tier) {
+      tier.models.push(price.model);
+    } else {
+      tiers.push({ key, models: [price.model] });
+    }
+  }
+  return tiers.map(t => t.models);
+}
+
+export class ModelRouter extends EventEmitter {
+  constructor(
+    private defaultModel: string,
+    private policy: ModelRoutingPolicy = {},
+    private costTracker: CostTracker = getCostTracker(),
+    private budgetEnforcer: BudgetEnforcer = getBudgetEnforcer()
+  ) {
+    super();
+  }
+
+  /**
+   * Pick a model before budget fallback. Policies are consulted in order,
+   * followed by the router's own policy.
+   */
+  select(
+    request: ModelRoutingRequest,
+    ...policies: Array<ModelRoutingPolicy | undefined>
+  ): { model: string; rule: ModelRoutingRule } {
+    for (const policy of this.ordered(policies)) {
+      if (request.taskType && policy.taskTypes?.[request.taskType]) {
+        return { model: policy.taskTypes[request.taskType], rule: 'task_type' };
+      }
+
+      if (request.taskPriority !== undefined && policy.priorities) {
+        const match = policy.priorities
+          .filter(entry => request.taskPriority! >= entry.minPriority)
+          .sort((a, b) => b.minPriority - a.minPriority)[0];
+        if (match) {
+          return { model: match.model, rule: 'priority' };
+        }
+      }
+
+      const byAgent = policy.agentTypes?.[request.agentType];
+      if (byAgent) {
+        return { model: byAgent, rule: 'agent_type' };
+      }
+
+      if (policy.default) {
+        return { model: policy.default, rule: 'default' };
+      }
+    }
+
+    return { model: this.defaultModel, rule: 'default' };
+  }
+
+  /**
+   * Step a model down the price tiers. Models without pricing, or already
+   * in the cheapest tier, are returned unchanged.
+   */
+  downgrade(model: string, steps: number, ...policies: Array<ModelRoutingPolicy | undefined>): string {
+    if (steps <= 0) return model;
+
+    const chain = this.ordered(policies).find(policy => policy.fallbackChain)?.fallbackChain;
+    const tiers = chain ? chain.map(m => [m]) : priceTiers(this.costTracker.getAllModelPricing());
+
+    const index = tiers.findIndex(tier => tier.includes(model));
+    if (index === -1) return model;
+
+    return tiers[Math.min(index + steps, tiers.length - 1)][0];
+  }
+
+  /**
+   * Choose the model for an agent in a project, applying budget fallback,
+   * and log the decision.
+   */
+  async route(projectId: string, request: ModelRoutingRequest): Promise<ModelRoutingDecision> {
+    const projectPolicy = await loadProjectModelPolicy(projectId);
+    const { model: requestedModel, rule } = this.select(request, projectPolicy);
+
+    let model = requestedModel;
+    let budgetPercent: number | undefined;
+    let downgradeFor: ActiveBudgetAction | undefined;
+    try {
+      budgetPercent = (await this.costTracker.checkBudget(projectId)).percentUsed;
+      downgradeFor = (await this.budgetEnforcer.getStatus(projectId)).actions
+        .find(action => action.action === 'downgrade_model');
+    } catch {
+      // Route without budget information if the budget can't be read
+    }
+
+    const fallback = this.ordered([projectPolicy]).find(policy => policy.budgetFallback)?.budgetFallback
+      || DEFAULT_BUDGET_FALLBACK;
+    const step = budgetPercent === undefined
+      ? undefined
+      : [...fallback].sort((a, b) => b.atPercent - a.atPercent).find(f => budgetPercent! >= f.atPercent);
+    if (step) {
+      model = this.downgrade(requestedModel, step.downgradeSteps, projectPolicy);
+    }
+    // A downgrade_model budget action steps down at least once, whichever
+    // budget crossed it
+    const byAction = !step?.downgradeSteps && downgradeFor !== undefined;
+    if (byAction) {
+      model = this.downgrade(requestedModel, 1, projectPolicy);
+    }
+
+    const source = rule === 'task_type' ? `task type ${request.taskType}`
+      : rule === 'priority' ? `priority ${request.taskPriority}`
+      : rule === 'agent_type' ? `agent type ${request.agentType}`
+      : 'default';
+    const decision: ModelRoutingDecision = {
+      model,
+      requestedModel,
+      rule,
+      downgraded: model !== requestedModel,
+      budgetPercent,
+      reason: model === requestedModel
+        ? `${source} chose ${model}`
+        : byAction
+        ? `${source} chose ${requestedModel}; downgraded with ${downgradeFor!.dimension} budget at ${downgradeFor!.percentUsed.toFixed(1)}%`
+        : `${source} chose ${requestedModel}; downgraded at ${budgetPercent!.toFixed(1)}% of budget`,
+    };
+
+    await this.logDecision(projectId, request, decision);
+    this.emit('model:routed', { projectId, ...request, ...decision });
+    return decision;
+  }
+
+  private ordered(policies: Array<ModelRoutingPolicy | undefined>): ModelRoutingPolicy[] {
+    return [...policies, this.policy].filter((p): p is ModelRoutingPolicy => !!p);
+  }
+
+  private async logDecision(
+    projectId: string,
+    request: ModelRoutingRequest,
+    decision: ModelRoutingDecision
+  ): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.query(
+        `INSERT INTO model_routing_decisions (project_id, agent_id, task_id, agent_type, task_type, task_priority,
+          requested_model, model, rule, downgraded, budget_percent, reason)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          projectId,
+          request.agentId || null,
+          request.taskId || null,
+          request.agentType,
+          request.taskType || null,
+          request.taskPriority ?? null,
+          decision.requestedModel,
+          decision.model,
+          decision.rule,
+          decision.downgraded,
+          decision.budgetPercent ?? null,
+          decision.reason,
+        ]
+      );
+    } catch (error) {
+      console.error('Failed to log model routing decision:', error);
+    }
+  }
+}
+
+/**
+ * Read `config.modelRouting` for a project, if any.
+ */
+export async function loadProjectModelPolicy(projectId: string): Promise<ModelRoutingPolicy | undefined> {
+  try {
+    const db = getDatabase();
+    const result = await db.query<{ config: Record<string, unknown> | null }>(
+      `SELECT config FROM projects WHERE id = $1`,
+      [projectId]
+    );
+
+    const policy = result.rows[0]?.config?.modelRouting;
+    if (policy && typeof policy === 'object') {
+      return policy as ModelRoutingPolicy;
+    }
+  } catch {
+    // Fall back to the global policy if the project can't be read
+  }
+  return undefined;
+}
+
+/**
+ * Replace a project's policy, or remove it with null.
+ * @throws Error if the project doesn't exist
+ */
+export async function saveProjectModelPolicy(projectId: string, policy: ModelRoutingPolicy | null): Promise<void> {
+  const db = getDatabase();
+  const result = policy
+    ? await db.query(
+      `UPDATE projects SET config = jsonb_set(COALESCE(config, '{}'::jsonb), '{modelRouting}', $2::jsonb), updated_at = NOW()
+       WHERE id = $1`,
+      [projectId, JSON.stringify(policy)]
+    )
+    : await db.query(
+      `UPDATE projects SET config = COALESCE(config, '{}'::jsonb) - 'modelRouting', updated_at = NOW()
+       WHERE id = $1`,
+      [projectId]
+    );
+
+  if ((result.rowCount ?? 0) === 0) {
+    throw new Error(`Project not found: ${projectId}`);
+  }
+}
+
+/**
+ * Most recent routing decisions for a project.
+ */
+export async function getModelRoutingDecisions(projectId: string, limit = 50): Promise<LoggedRoutingDecision[]> {
+  const db = getDatabase();
+  const result = await db.query<RoutingDecisionRow>(
+    `SELECT * FROM model_routing_decisions WHERE project_id = $1 ORDER BY created_at DESC LIMIT $2`,
+    [projectId, limit]
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    projectId: row.project_id,
+    agentId: row.agent_id || undefined,
+    taskId: row.task_id || undefined,
+    agentType: row.agent_type,
+    taskType: row.task_type || undefined,
+    taskPriority: row.task_priority ?? undefined,
+    model: row.model,
+    requestedModel: row.requested_model,
+    rule: row.rule,
+    downgraded: row.downgraded,
+    budgetPercent: row.budget_percent === null ? undefined : parseFloat(row.budget_percent),
+    reason: row.reason,
+    createdAt: row.created_at,
+  }));
+}
@@ -11,6 +11,7 @@
 import { EventEmitter } from 'events';
 import { getDatabase } from '../../lib/database.js';
 import { getDemoService } from './index.js';
+import type { VisualDiff } from '../qa-agent/index.js';
 
 export type ApprovalDecision = 'approve' | 'request_changes' | 'skip_to_build' | 'reject';
 export type NextAction = 'build_next_demo' | 'revise_demo' | 'proceed_to_build' | 'cancel';
@@ -27,6 +28,20 @@ export interface ApprovalRequest {
   comments?: string;
   changeRequests: string[];
   nextAction?: NextAction;
+  visualRegression?: ApprovalVisualRegression;
+}
+
+/**
+ * The project's visual regression run at the time of the request, so
+ * reviewers see diff images alongside the demo
+ */
+export interface ApprovalVisualRegression {
+  runId: string;
+  baselineId?: string;
+  status: string;
+  ranAt: Date;
+  summary: { total: number; passed: number; failed: number; newPages: number };
+  diffs: VisualDiff[];
 }
 
 export interface PendingApproval {
@@ -109,7 +124,7 @@ export class ApprovalService extends EventEmitter {
       throw new Error(`Approval request not found: ${requestId}`);
     }
 
-    return this.mapRowToRequest(result.rows[0]);
+    return this.withVisualRegression(this.mapRowToRequest(result.rows[0]));
   }
 
   /**
@@ -138,7 +153,7 @@ export class ApprovalService extends EventEmitter {
       return null;
     }
 
-    return this.mapRowToRequest(result.rows[0]);
+    return this.withVisualRegression(this.mapRowToRequest(result.rows[0]));
   }
 
   /**
@@ -315,6 +330,52 @@ export class ApprovalService extends EventEmitter {
     return latest !== null && latest.decision === undefined;
   }
 
+  /**
+   * Get the latest visual regression run for a project, optionally as of a
+   * point in time.
+   */
+  async getVisualRegression(projectId: string, asOf?: Date): Promise<ApprovalVisualRegression | null> {
+    const db = getDatabase();
+    const result = await db.query<{
+      id: string;
+      baseline_id: string | null;
+      status: string;
+      start_time: Date;
+      summary: ApprovalVisualRegression['summary'];
+      visual_diffs: VisualDiff[];
+    }>(
+      `SELECT id, baseline_id, status, start_time, summary, visual_diffs
+       FROM qa_test_runs
+       WHERE project_id = $1 AND test_type = 'visual' AND ($2::timestamptz IS NULL OR created_at <= $2)
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [projectId, asOf || null]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      runId: row.id,
+      baselineId: row.baseline_id || undefined,
+      status: row.status,
+      ranAt: row.start_time,
+      summary: row.summary,
+      diffs: row.visual_diffs || [],
+    };
+  }
+
+  /**
+   * Attach the visual run current when the request was decided (or the
+   * latest one while it's pending).
+   */
+  private async withVisualRegression(request: ApprovalRequest): Promise<ApprovalRequest> {
+    const visualRegression = await this.getVisualRegression(request.projectId, request.decidedAt);
+    return visualRegression ? { ...request, visualRegression } : request;
+  }
+
   /**
    * Map database row to ApprovalRequest interface.
    */
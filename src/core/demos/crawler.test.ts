@@ -0,0 +1,138 @@
+/**
+ * Tests for the Demo Crawler
+ * Reference extraction, error page detection and crawling a local site
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { crawlSite, detectErrorPage, extractReferences } from './crawler.js';
+
+const PAGES: Record<string, { status?: number; html?: string; location?: string; type?: string }> = {
+  '/': {
+    html: `<!DOCTYPE html><html><head>
+      <link rel="stylesheet" href="/app.css"><script src="/app.js"></script>
+      </head><body>
+      <a href="/about">About</a> <a href="/missing">Missing</a> <a href="/loop">Loop</a>
+      <a href="https://example.com/docs">Docs</a> <a href="mailto:team@example.com">Mail</a>
+      <form action="/search"><input name="q"></form>
+      <form method="post" action="/signup"></form>
+      <img src="/logo.png">
+      </body></html>`,
+  },
+  '/about': { html: '<html><body><a href="/team">Team</a><img src="/broken.png"></body></html>' },
+  '/team': { html: '<html><body><a href="/deep">Deeper</a></body></html>' },
+  '/search': { html: '<html><body>Results</body></html>' },
+  '/app.css': { html: 'body {}', type: 'text/css' },
+  '/app.js': { html: '', type: 'text/javascript' },
+  '/logo.png': { html: '', type: 'image/png' },
+  '/loop': { status: 302, location: '/loop-2' },
+  '/loop-2': { status: 302, location: '/loop' },
+};
+
+describe('Demo Crawler', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const page = PAGES[req.url || '/'];
+      if (!page) {
+        res.writeHead(404, { 'Content-Type': 'text/html' });
+        res.end('<html><body>Not found</body></html>');
+        return;
+      }
+      res.writeHead(page.status || 200, {
+        'Content-Type': page.type || 'text/html',
+        ...(page.location ? { Location: page.location } : {}),
+      });
+      res.end(page.html || '');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('extractReferences', () => {
+    it('should resolve links, forms and assets against the page', () => {
+      const refs = extractReferences(PAGES['/'].html!, 'http://demo.local/');
+
+      expect(refs.links).toEqual([
+        'http://demo.local/about',
+        'http://demo.local/missing',
+        'http://demo.local/loop',
+        'https://example.com/docs',
+      ]);
+      expect(refs.forms).toEqual([
+        { action: 'http://demo.local/search', method: 'get' },
+        { action: 'http://demo.local/signup', method: 'post' },
+      ]);
+      expect(refs.assets.map(a => a.kind)).toEqual(['script', 'style', 'image']);
+    });
+
+    it('should honour <base href>', () => {
+      const refs = extractReferences('<base href="/app/"><a href="settings">x</a>', 'http://demo.local/');
+      expect(refs.links).toEqual(['http://demo.local/app/settings']);
+    });
+  });
+
+  describe('detectErrorPage', () => {
+    it('should flag stack traces but not pages that mention errors', () => {
+      expect(detectErrorPage('<pre>TypeError: x is undefined\n    at render (/app/src/page.js:12:5)\n</pre>'))
+        .toBe('Page contains a stack trace');
+      expect(detectErrorPage('<h1>Error handling</h1><p>Our stack is TypeScript</p>')).toBeNull();
+    });
+  });
+
+  describe('crawlSite', () => {
+    it('should report broken links, redirect loops and exercised routes', async () => {
+      const graph = await crawlSite(`${baseUrl}/`, { maxDepth: 2 });
+
+      const issues = graph.issues.map(i => `${i.type} ${new URL(i.url).pathname}`);
+      expect(issues).toContain('http_error /missing');
+      expect(issues).toContain('http_error /broken.png');
+      expect(issues).toContain('redirect_loop /loop');
+
+      const routes = graph.nodes.filter(n => n.status !== undefined && n.kind !== 'image').map(n => new URL(n.url).pathname);
+      expect(routes).toEqual(expect.arrayContaining(['/', '/about', '/search', '/team', '/app.css', '/app.js']));
+      expect(routes).not.toContain('/deep');
+
+      const signup = graph.nodes.find(n => n.url.endsWith('/signup'));
+      expect(signup?.skipped).toBe('POST form not submitted');
+      expect(graph.nodes.find(n => n.url.startsWith('https://example.com'))?.external).toBe(true);
+    });
+
+    it('should report mixed content on HTTPS pages', async () => {
+      const fakeFetch = (async (url: string) => new Response(
+        url === 'https://secure.local/'
+          ? '<html><body><script src="http://secure.local/app.js"></script><form method="post" action="http://secure.local/login"></form></body></html>'
+          : '',
+        { status: 200, headers: { 'Content-Type': 'text/html' } }
+      )) as typeof fetch;
+
+      const graph = await crawlSite('https://secure.local/', { fetch: fakeFetch });
+
+      expect(graph.issues.filter(i => i.type === 'mixed_content').map(i => i.url)).toEqual([
+        'http://secure.local/app.js',
+        'http://secure.local/login',
+      ]);
+    });
+
+    it('should stop at maxPages', async () => {
+      const graph = await crawlSite(`${baseUrl}/`, { maxPages: 2 });
+
+      expect(graph.pagesCrawled).toBe(2);
+      expect(graph.truncated).toBe(true);
+    });
+
+    it('should report an unreachable site as a broken link', async () => {
+      const graph = await crawlSite('http://127.0.0.1:1/', { timeout: 2000 });
+
+      expect(graph.issues).toHaveLength(1);
+      expect(graph.issues[0].type).toBe('broken_link');
+    });
+  });
+});
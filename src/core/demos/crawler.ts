@@ -0,0 +1,369 @@
+/**
+ * Demo Crawler
+ * Demo₇: Demo System
+ *
+ * Bounded same-origin crawl of a demo preview:
+ * - Follows links and GET form actions up to maxDepth
+ * - Fetches the scripts, styles and images each page references
+ * - Records broken links, HTTP errors, mixed content and redirect loops
+ *
+ * The crawl graph (every URL reached and how) is kept with the
+ * verification so reviewers can see which routes were exercised.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type CrawlResourceKind = 'page' | 'form' | 'script' | 'style' | 'image';
+
+export type CrawlIssueType = 'broken_link' | 'http_error' | 'mixed_content' | 'redirect_loop';
+
+export interface CrawlNode {
+  url: string;
+  kind: CrawlResourceKind;
+  depth: number;
+  status?: number;          // Final HTTP status, after redirects
+  redirects?: string[];     // Hops followed before the final response
+  external?: boolean;       // Other origin: recorded, not fetched
+  skipped?: string;         // Why the URL was not fetched
+  error?: string;           // Network failure
+}
+
+export interface CrawlEdge {
+  from: string;
+  to: string;
+  kind: CrawlResourceKind;
+}
+
+export interface CrawlIssue {
+  type: CrawlIssueType;
+  url: string;
+  referrer?: string;
+  details: string;
+}
+
+export interface CrawlGraph {
+  root: string;
+  nodes: CrawlNode[];
+  edges: CrawlEdge[];
+  issues: CrawlIssue[];
+  pagesCrawled: number;
+  assetsChecked: number;
+  truncated: boolean;       // Stopped at maxPages with links left to follow
+}
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  maxRedirects?: number;
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+export interface PageReferences {
+  links: string[];
+  forms: Array<{ action: string; method: string }>;
+  assets: Array<{ url: string; kind: 'script' | 'style' | 'image' }>;
+}
+
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const DEFAULT_CRAWL_PAGES = 50;
+const DEFAULT_MAX_REDIRECTS = 10;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// HTML parsing
+// ============================================================================
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Resolve a reference against the page URL. Returns null for references
+ * that aren't fetchable (fragments, mailto:, javascript:, data: ...).
+ */
+export function resolveReference(ref: string, baseUrl: string): string | null {
+  const trimmed = ref.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+
+  try {
+    const url = new URL(trimmed, baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the links, forms and subresources a page references, resolved
+ * against the page URL (or its <base href>).
+ */
+export function extractReferences(html: string, pageUrl: string): PageReferences {
+  const baseTag = html.match(/<base\s[^>]*>/i)?.[0];
+  const baseHref = baseTag ? getAttribute(baseTag, 'href') : undefined;
+  const baseUrl = (baseHref && resolveReference(baseHref, pageUrl)) || pageUrl;
+
+  const refs: PageReferences = { links: [], forms: [], assets: [] };
+  const seen = new Set<string>();
+  const add = <T>(list: T[], key: string, value: T) => {
+    if (seen.has(key)) return;
+    seen.add(key);
+    list.push(value);
+  };
+
+  for (const tag of html.match(/<a\s[^>]*>/gi) || []) {
+    const url = resolveReference(getAttribute(tag, 'href') || '', baseUrl);
+    if (url) add(refs.links, `link:${url}`, url);
+  }
+
+  for (const tag of html.match(/<form[\s>][^>]*>?/gi) || []) {
+    // A form without an action submits to the page itself
+    const url = resolveReference(getAttribute(tag, 'action') || pageUrl, baseUrl);
+    const method = (getAttribute(tag, 'method') || 'get').toLowerCase();
+    if (url) add(refs.forms, `form:${method}:${url}`, { action: url, method });
+  }
+
+  for (const tag of html.match(/<script\s[^>]*>/gi) || []) {
+    const url = resolveReference(getAttribute(tag, 'src') || '', baseUrl);
+    if (url) add(refs.assets, `asset:${url}`, { url, kind: 'script' });
+  }
+
+  for (const tag of html.match(/<link\s[^>]*>/gi) || []) {
+    const rel = (getAttribute(tag, 'rel') || '').toLowerCase().split(/\s+/);
+    if (!rel.includes('stylesheet')) continue;
+    const url = resolveReference(getAttribute(tag, 'href') || '', baseUrl);
+    if (url) add(refs.assets, `asset:${url}`, { url, kind: 'style' });
+  }
+
+  for (const tag of html.match(/<img\s[^>]*>/gi) || []) {
+    const url = resolveReference(getAttribute(tag, 'src') || '', baseUrl);
+    if (url) add(refs.assets, `asset:${url}`, { url, kind: 'image' });
+  }
+
+  return refs;
+}
+
+/**
+ * Recognise server error pages that are served with a 2xx status: stack
+ * traces and the error screens of common dev servers. Returns the reason,
+ * or null for a normal page.
+ */
+export function detectErrorPage(html: string): string | null {
+  if (/^\s*at\s+\S.*\((?:file:\/\/)?[^()\s]+:\d+:\d+\)\s*$/m.test(html)) {
+    return 'Page contains a stack trace';
+  }
+  if (/<title>[^<]*(?:Internal Server Error|Application error)[^<]*<\/title>/i.test(html)) {
+    return 'Page is a server error page';
+  }
+  if (/<pre>\s*Cannot (?:GET|POST) \//.test(html)) {
+    return 'Page is a framework "Cannot GET" response';
+  }
+  if (/vite-error-overlay|nextjs__container_errors|webpack-dev-server-client-overlay/.test(html)) {
+    return 'Page shows a dev server error overlay';
+  }
+  return null;
+}
+
+// ============================================================================
+// Crawler
+// ============================================================================
+
+interface FetchOutcome {
+  status?: number;
+  redirects: string[];
+  contentType?: string;
+  body?: string;
+  error?: string;
+  redirectLoop?: boolean;
+}
+
+/**
+ * Crawl a demo from `rootUrl`. Never throws; failures end up as issues.
+ */
+export async function crawlSite(rootUrl: string, options: CrawlOptions = {}): Promise<CrawlGraph> {
+  const maxDepth = options.maxDepth ?? DEFAULT_CRAWL_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_CRAWL_PAGES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const doFetch = options.fetch ?? fetch;
+
+  const root = resolveReference(rootUrl, rootUrl) || rootUrl;
+  const origin = new URL(root).origin;
+  const nodes = new Map<string, CrawlNode>();
+  const edges: CrawlEdge[] = [];
+  const issues: CrawlIssue[] = [];
+  let pagesCrawled = 0;
+  let assetsChecked = 0;
+  let truncated = false;
+
+  async function request(url: string, withBody: boolean): Promise<FetchOutcome> {
+    const redirects: string[] = [];
+    let current = url;
+
+    for (;;) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      try {
+        const response = await doFetch(current, { redirect: 'manual', signal: controller.signal });
+        const location = response.headers.get('location');
+
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          const next = resolveReference(location, current);
+          if (!next) {
+            return { status: response.status, redirects, error: `Invalid redirect to ${location}` };
+          }
+          if (next === url || redirects.includes(next)) {
+            redirects.push(next);
+            return { status: response.status, redirects, redirectLoop: true };
+          }
+          if (redirects.length >= maxRedirects) {
+            return { status: response.status, redirects, error: `More than ${maxRedirects} redirects` };
+          }
+          redirects.push(next);
+          current = next;
+          continue;
+        }
+
+        const contentType = response.headers.get('content-type') || undefined;
+        const body = withBody && contentType?.includes('text/html') ? await response.text() : undefined;
+        if (body === undefined) {
+          await response.body?.cancel();
+        }
+        return { status: response.status, redirects, contentType, body };
+      } catch (error) {
+        const message = controller.signal.aborted
+          ? `Timed out after ${timeout}ms`
+          : error instanceof Error ? error.message : String(error);
+        return { redirects, error: message };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
+
+  function record(node: CrawlNode, outcome: FetchOutcome, referrer?: string): void {
+    node.status = outcome.status;
+    if (outcome.redirects.length > 0) node.redirects = outcome.redirects;
+
+    if (outcome.redirectLoop) {
+      issues.push({
+        type: 'redirect_loop',
+        url: node.url,
+        referrer,
+        details: `Redirect loop: ${[node.url, ...outcome.redirects].join(' -> ')}`,
+      });
+    } else if (outcome.error) {
+      node.error = outcome.error;
+      issues.push({ type: 'broken_link', url: node.url, referrer, details: outcome.error });
+    } else if (outcome.status !== undefined && outcome.status >= 400) {
+      issues.push({ type: 'http_error', url: node.url, referrer, details: `HTTP ${outcome.status}` });
+    }
+  }
+
+  function isSameOrigin(url: string): boolean {
+    return new URL(url).origin === origin;
+  }
+
+  function checkMixedContent(pageUrl: string, url: string, kind: CrawlResourceKind): void {
+    // Navigating to an http link is allowed; loading or submitting to one is not
+    if (kind === 'page') return;
+    if (pageUrl.startsWith('https:') && url.startsWith('http:')) {
+      issues.push({
+        type: 'mixed_content',
+        url,
+        referrer: pageUrl,
+        details: `HTTPS page loads ${kind} over HTTP`,
+      });
+    }
+  }
+
+  // Breadth-first, so depth is the shortest click distance from the root
+  const queue: Array<{ url: string; depth: number; kind: 'page' | 'form'; referrer?: string }> = [
+    { url: root, depth: 0, kind: 'page' },
+  ];
+  const assetQueue: Array<{ url: string; kind: 'script' | 'style' | 'image'; depth: number; referrer: string }> = [];
+
+  while (queue.length > 0) {
+    const { url, depth, kind, referrer } = queue.shift()!;
+    if (nodes.has(url)) continue;
+
+    if (pagesCrawled >= maxPages) {
+      truncated = true;
+      break;
+    }
+
+    const node: CrawlNode = { url, kind, depth };
+    nodes.set(url, node);
+
+    if (!isSameOrigin(url)) {
+      node.external = true;
+      continue;
+    }
+
+    const outcome = await request(url, true);
+    pagesCrawled++;
+    record(node, outcome, referrer);
+
+    if (!outcome.body) continue;
+
+    const finalUrl = outcome.redirects[outcome.redirects.length - 1] || url;
+    const refs = extractReferences(outcome.body, finalUrl);
+
+    for (const asset of refs.assets) {
+      edges.push({ from: url, to: asset.url, kind: asset.kind });
+      checkMixedContent(finalUrl, asset.url, asset.kind);
+      assetQueue.push({ ...asset, depth: depth + 1, referrer: url });
+    }
+
+    for (const form of refs.forms) {
+      edges.push({ from: url, to: form.action, kind: 'form' });
+      checkMixedContent(finalUrl, form.action, 'form');
+      if (form.method !== 'get') {
+        // Submitting could change data, so non-GET forms are only recorded
+        if (!nodes.has(form.action)) {
+          nodes.set(form.action, { url: form.action, kind: 'form', depth: depth + 1, skipped: `${form.method.toUpperCase()} form not submitted` });
+        }
+      } else if (depth < maxDepth) {
+        queue.push({ url: form.action, depth: depth + 1, kind: 'form', referrer: url });
+      }
+    }
+
+    for (const link of refs.links) {
+      edges.push({ from: url, to: link, kind: 'page' });
+      if (depth < maxDepth) {
+        queue.push({ url: link, depth: depth + 1, kind: 'page', referrer: url });
+      }
+    }
+  }
+
+  for (const { url, kind, depth, referrer } of assetQueue) {
+    if (nodes.has(url)) continue;
+
+    const node: CrawlNode = { url, kind, depth };
+    nodes.set(url, node);
+
+    if (!isSameOrigin(url)) {
+      node.external = true;
+      continue;
+    }
+
+    record(node, await request(url, false), referrer);
+    assetsChecked++;
+  }
+
+  return {
+    root,
+    nodes: Array.from(nodes.values()),
+    edges,
+    issues,
+    pagesCrawled,
+    assetsChecked,
+    truncated,
+  };
+}
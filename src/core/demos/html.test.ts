@@ -0,0 +1,61 @@
+/**
+ * Tests for the HTML Document Model
+ * Parsing forgiving markup and matching selectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseHtml, parseSelector, querySelector, querySelectorAll, textContent } from './html.js';
+
+const PAGE = `<!DOCTYPE html>
+<html><head><title>Tom &amp; Jerry</title><style>.x > p { color: red }</style></head>
+<body>
+  <!-- <div id="commented"></div> -->
+  <nav id="main-nav" class="nav primary"><a href="/">Home</a><a href="/about" data-test="about">About</a></nav>
+  <main>
+    <ul class="items"><li>One<li>Two<li>Three</ul>
+    <form action="/login"><input type="email" name="email"><input type=password name=password><button>Sign in</button></form>
+    <p>Prices &lt; &#36;5&nbsp;today</p>
+  </main>
+  <script>if (a < b) document.write("<div class='injected'></div>")</script>
+</body></html>`;
+
+describe('HTML Document Model', () => {
+  const document = parseHtml(PAGE);
+
+  it('should build a tree with implicit closes, void elements and raw text', () => {
+    expect(querySelectorAll(document, 'li').map(li => textContent(li))).toEqual(['One', 'Two', 'Three']);
+    expect(querySelectorAll(document, 'input')).toHaveLength(2);
+    expect(querySelector(document, '.injected')).toBeNull();
+    expect(querySelector(document, '#commented')).toBeNull();
+    expect(textContent(querySelector(document, 'title')!)).toBe('Tom & Jerry');
+  });
+
+  it('should decode entities and leave scripts out of text', () => {
+    const text = textContent(document);
+    expect(text).toContain('Prices < $5');
+    expect(text).not.toContain('document.write');
+    expect(text).not.toContain('color: red');
+  });
+
+  it('should match tags, ids, classes and attributes', () => {
+    expect(querySelector(document, 'nav#main-nav.nav.primary')).not.toBeNull();
+    expect(querySelector(document, 'nav.secondary')).toBeNull();
+    expect(querySelector(document, 'a[data-test=about]')?.attributes.href).toBe('/about');
+    expect(querySelectorAll(document, 'a[href^="/"]')).toHaveLength(2);
+    expect(querySelector(document, 'input[type=password]')?.attributes.name).toBe('password');
+    expect(querySelectorAll(document, '[name$=word], [name*=mai]')).toHaveLength(2);
+  });
+
+  it('should honour descendant and child combinators', () => {
+    expect(querySelectorAll(document, 'main button')).toHaveLength(1);
+    expect(querySelectorAll(document, 'main > button')).toHaveLength(0);
+    expect(querySelectorAll(document, 'form > button')).toHaveLength(1);
+    expect(querySelectorAll(document, 'body > nav > a')).toHaveLength(2);
+  });
+
+  it('should reject selectors it cannot evaluate', () => {
+    expect(() => parseSelector('a:hover')).toThrow('Unsupported selector');
+    expect(() => parseSelector('h1 + p')).toThrow('Unsupported selector');
+    expect(() => parseSelector('main >')).toThrow('Unsupported selector');
+  });
+});
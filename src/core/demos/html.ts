@@ -0,0 +1,366 @@
+/**
+ * HTML Document Model
+ * Demo₇: Demo System
+ *
+ * A small, forgiving HTML parser and CSS selector engine for checking demo
+ * pages without a browser. It builds an element tree (void elements, raw
+ * text in script/style, implied end tags such as <li> and <p>, unclosed
+ * tags closed by their parent) and supports selectors made of tag, #id,
+ * .class and [attr], [attr=value], [attr^=value], [attr$=value],
+ * [attr*=value] parts, joined by descendant (' ') or child ('>')
+ * combinators, with ',' for alternatives.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: Array<{ name: string; op?: '=' | '^=' | '$=' | '*='; value?: string }>;
+}
+
+interface SelectorStep {
+  compound: CompoundSelector;
+  combinator: ' ' | '>';  // Relation to the previous step
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Open elements a start tag closes implicitly (<li>One<li>Two)
+const BLOCK_TAGS = [
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+];
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  option: ['option'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  ...Object.fromEntries(BLOCK_TAGS.map(tag => [tag, ['p']])),
+};
+// Elements that stop the search for an implicitly closed one
+const SCOPE_ELEMENTS = new Set(['ul', 'ol', 'dl', 'select', 'table', 'tbody', 'thead', 'tfoot', 'div', 'body']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Parse an HTML document into a tree under a synthetic '#document' root.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attributes: {}, children: [], parent: null };
+  let current = root;
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (text) current.children.push(decodeEntities(text));
+  };
+
+  while (index < html.length) {
+    const lt = html.indexOf('<', index);
+    if (lt === -1) {
+      appendText(html.slice(index));
+      break;
+    }
+    appendText(html.slice(index, lt));
+
+    // Comments, doctype and processing instructions
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    // End tag: close up to the matching open element, ignore strays
+    const endTag = html.slice(lt).match(/^<\/([a-zA-Z][\w:-]*)\s*>/);
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+        if (el.tag === tag) {
+          current = el.parent!;
+          break;
+        }
+      }
+      index = lt + endTag[0].length;
+      continue;
+    }
+
+    const startTag = html.slice(lt).match(/^<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/);
+    if (!startTag) {
+      // A lone '<' is text
+      appendText('<');
+      index = lt + 1;
+      continue;
+    }
+
+    const tag = startTag[1].toLowerCase();
+    const closes = IMPLIED_END[tag];
+    if (closes) {
+      for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+        if (closes.includes(el.tag)) {
+          current = el.parent!;
+          break;
+        }
+        if (SCOPE_ELEMENTS.has(el.tag)) break;
+      }
+    }
+
+    const element: HtmlElement = {
+      tag,
+      attributes: parseAttributes(startTag[2]),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+    index = lt + startTag[0].length;
+
+    if (VOID_ELEMENTS.has(tag) || startTag[3] === '/') {
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const close = html.toLowerCase().indexOf(`</${tag}`, index);
+      const end = close === -1 ? html.length : close;
+      const text = html.slice(index, end);
+      if (text) element.children.push(tag === 'script' || tag === 'style' ? text : decodeEntities(text));
+      const closeEnd = close === -1 ? html.length : html.indexOf('>', close);
+      index = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    current = element;
+  }
+
+  return root;
+}
+
+// ============================================================================
+// Traversal
+// ============================================================================
+
+export function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string';
+}
+
+function* descendants(element: HtmlElement): Generator<HtmlElement> {
+  for (const child of element.children) {
+    if (isElement(child)) {
+      yield child;
+      yield* descendants(child);
+    }
+  }
+}
+
+/**
+ * The element's text, with whitespace collapsed. Script and style
+ * contents are left out.
+ */
+export function textContent(node: HtmlNode): string {
+  const parts: string[] = [];
+  const walk = (n: HtmlNode) => {
+    if (!isElement(n)) {
+      parts.push(n);
+    } else if (n.tag !== 'script' && n.tag !== 'style') {
+      n.children.forEach(walk);
+    }
+  };
+  walk(node);
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Serialize a node back to HTML, e.g. to snapshot the DOM a check saw.
+ */
+export function serializeHtml(node: HtmlNode): string {
+  if (!isElement(node)) {
+    return escapeText(node);
+  }
+
+  const children = node.children
+    .map(child => (!isElement(child) && (node.tag === 'script' || node.tag === 'style') ? child : serializeHtml(child)))
+    .join('');
+  if (node.tag === '#document') {
+    return children;
+  }
+
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`))
+    .join('');
+  if (VOID_ELEMENTS.has(node.tag)) {
+    return `<${node.tag}${attributes}>`;
+  }
+  return `<${node.tag}${attributes}>${children}</${node.tag}>`;
+}
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+function parseCompound(source: string, selector: string): CompoundSelector {
+  const compound: CompoundSelector = { classes: [], attributes: [] };
+  const pattern = /^(\*|[a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([\^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    if (match.index !== consumed) break;
+    consumed += match[0].length;
+    if (match[1]) {
+      if (match[1] !== '*') compound.tag = match[1].toLowerCase();
+    } else if (match[2]) {
+      compound.id = match[2];
+    } else if (match[3]) {
+      compound.classes.push(match[3]);
+    } else {
+      compound.attributes.push({
+        name: match[4].toLowerCase(),
+        op: match[5] as CompoundSelector['attributes'][number]['op'],
+        value: match[6] ?? match[7] ?? match[8],
+      });
+    }
+    // Only the tag may come first without a prefix
+    pattern.lastIndex = consumed;
+    if (consumed < source.length && /^[a-zA-Z*]/.test(source.slice(consumed))) break;
+  }
+
+  if (consumed !== source.length || consumed === 0) {
+    throw new Error(`Unsupported selector: ${selector}`);
+  }
+  return compound;
+}
+
+/**
+ * Parse a selector list into steps. Throws on syntax this engine doesn't
+ * support (pseudo-classes, sibling combinators, ...).
+ */
+export function parseSelector(selector: string): SelectorStep[][] {
+  return selector.split(',').map(alternative => {
+    const tokens = alternative.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      throw new Error(`Unsupported selector: ${selector}`);
+    }
+
+    const steps: SelectorStep[] = [];
+    let combinator: ' ' | '>' = ' ';
+    for (const token of tokens) {
+      if (token === '>') {
+        if (steps.length === 0 || combinator === '>') throw new Error(`Unsupported selector: ${selector}`);
+        combinator = '>';
+        continue;
+      }
+      steps.push({ compound: parseCompound(token, selector), combinator });
+      combinator = ' ';
+    }
+    if (combinator === '>') throw new Error(`Unsupported selector: ${selector}`);
+    return steps;
+  });
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attributes.id !== compound.id) return false;
+
+  if (compound.classes.length > 0) {
+    const classes = (element.attributes.class || '').split(/\s+/);
+    if (!compound.classes.every(c => classes.includes(c))) return false;
+  }
+
+  return compound.attributes.every(({ name, op, value }) => {
+    const actual = element.attributes[name];
+    if (actual === undefined) return false;
+    if (!op || value === undefined) return true;
+    switch (op) {
+      case '=': return actual === value;
+      case '^=': return actual.startsWith(value);
+      case '$=': return actual.endsWith(value);
+      case '*=': return actual.includes(value);
+    }
+  });
+}
+
+function matchesSteps(element: HtmlElement, steps: SelectorStep[], index: number): boolean {
+  if (!matchesCompound(element, steps[index].compound)) return false;
+  if (index === 0) return true;
+
+  if (steps[index].combinator === '>') {
+    return !!element.parent && matchesSteps(element.parent, steps, index - 1);
+  }
+  for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+    if (matchesSteps(ancestor, steps, index - 1)) return true;
+  }
+  return false;
+}
+
+export function matches(element: HtmlElement, selector: string): boolean {
+  return parseSelector(selector).some(steps => matchesSteps(element, steps, steps.length - 1));
+}
+
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const alternatives = parseSelector(selector);
+  const found: HtmlElement[] = [];
+  for (const element of descendants(root)) {
+    if (alternatives.some(steps => matchesSteps(element, steps, steps.length - 1))) {
+      found.push(element);
+    }
+  }
+  return found;
+}
+
+export function querySelector(root: HtmlElement, selector: string): HtmlElement | null {
+  return querySelectorAll(root, selector)[0] ?? null;
+}
@@ -7,10 +7,12 @@
  * - Status transitions
  * - Preview URL management
  * - Scaffolding tracking
+ * - Verification specs
  */
 
 import { EventEmitter } from 'events';
 import { getDatabase } from '../../lib/database.js';
+import { VerificationSpec, generateVerificationSpec, validateVerificationSpec } from './spec.js';
 
 export type DemoType = 'wow' | 'trust' | 'milestone' | 'final';
 export type DemoStatus = 'draft' | 'building' | 'ready' | 'approved' | 'revision_requested' | 'archived';
@@ -21,6 +23,8 @@ export interface DemoConfig {
   scaffoldingPercent: number;
   estimatedTime: number;
   estimatedCost: number;
+  routes?: string[];        // Pages the demo must serve
+  apiEndpoints?: string[];  // JSON endpoints the demo must answer
 }
 
 export interface ScaffoldingInfo {
@@ -54,6 +58,7 @@ export interface Demo {
   verificationResult?: VerificationResult;
   config: DemoConfig;
   scaffolding: ScaffoldingInfo;
+  verificationSpec: VerificationSpec;
   createdAt: Date;
   builtAt?: Date;
   readyAt?: Date;
@@ -107,6 +112,8 @@ export class DemoService extends EventEmitter {
       scaffoldingPercent: options.config?.scaffoldingPercent || 0,
       estimatedTime: options.config?.estimatedTime || 0,
       estimatedCost: options.config?.estimatedCost || 0,
+      ...(options.config?.routes && { routes: options.config.routes }),
+      ...(options.config?.apiEndpoints && { apiEndpoints: options.config.apiEndpoints }),
     };
 
     try {
@@ -122,6 +129,10 @@ export class DemoService extends EventEmitter {
       );
 
       const demoId = result.rows[0].create_demo;
+      await db.query(
+        `UPDATE demos SET verification_spec = $1 WHERE id = $2`,
+        [JSON.stringify(generateVerificationSpec(config)), demoId]
+      );
       const demo = await this.getDemo(demoId);
 
       this.emit('demo:created', demo);
@@ -152,6 +163,7 @@ export class DemoService extends EventEmitter {
       verification_result: VerificationResult;
       config: DemoConfig;
       scaffolding: ScaffoldingInfo;
+      verification_spec: VerificationSpec | null;
       created_at: Date;
       built_at: Date;
       ready_at: Date;
@@ -203,6 +215,7 @@ export class DemoService extends EventEmitter {
       verification_result: VerificationResult;
       config: DemoConfig;
       scaffolding: ScaffoldingInfo;
+      verification_spec: VerificationSpec | null;
       created_at: Date;
       built_at: Date;
       ready_at: Date;
@@ -280,6 +293,7 @@ export class DemoService extends EventEmitter {
       `UPDATE demos SET config = $1 WHERE id = $2`,
       [JSON.stringify(updatedConfig), demoId]
     );
+    await this.refreshGeneratedSpec(demo, updatedConfig, demo.scaffolding);
 
     return this.getDemo(demoId);
   }
@@ -303,10 +317,57 @@ export class DemoService extends EventEmitter {
       `UPDATE demos SET scaffolding = $1 WHERE id = $2`,
       [JSON.stringify(updatedScaffolding), demoId]
     );
+    await this.refreshGeneratedSpec(demo, demo.config, updatedScaffolding);
 
     return this.getDemo(demoId);
   }
 
+  /**
+   * Replace the demo's verification spec, or pass null to go back to the
+   * spec generated from its config and scaffolding.
+   * @throws Error listing every problem if the spec is invalid
+   */
+  async updateVerificationSpec(demoId: string, spec: unknown): Promise<Demo> {
+    const db = getDatabase();
+    const demo = await this.getDemo(demoId);
+
+    let updatedSpec: VerificationSpec;
+    if (spec === null) {
+      updatedSpec = generateVerificationSpec(demo.config, demo.scaffolding);
+    } else {
+      const validation = validateVerificationSpec(spec);
+      if (!validation.valid) {
+        throw new Error(`Invalid verification spec: ${validation.errors.join('; ')}`);
+      }
+      updatedSpec = { ...validation.spec!, source: 'custom' };
+    }
+
+    await db.query(
+      `UPDATE demos SET verification_spec = $1 WHERE id = $2`,
+      [JSON.stringify(updatedSpec), demoId]
+    );
+
+    const updated = await this.getDemo(demoId);
+    this.emit('demo:spec_updated', { demoId, source: updatedSpec.source });
+    return updated;
+  }
+
+  /**
+   * Regenerate a generated spec after its inputs change. Custom specs are
+   * left alone.
+   */
+  private async refreshGeneratedSpec(demo: Demo, config: DemoConfig, scaffolding: ScaffoldingInfo): Promise<void> {
+    if (demo.verificationSpec.source !== 'generated') {
+      return;
+    }
+
+    const db = getDatabase();
+    await db.query(
+      `UPDATE demos SET verification_spec = $1 WHERE id = $2`,
+      [JSON.stringify(generateVerificationSpec(config, scaffolding)), demo.id]
+    );
+  }
+
   /**
    * Set preview URL for a demo.
    */
@@ -395,6 +456,7 @@ export class DemoService extends EventEmitter {
       verification_result: VerificationResult;
       config: DemoConfig;
       scaffolding: ScaffoldingInfo;
+      verification_spec: VerificationSpec | null;
       created_at: Date;
       built_at: Date;
       ready_at: Date;
@@ -454,12 +516,29 @@ export class DemoService extends EventEmitter {
     verification_result: VerificationResult;
     config: DemoConfig;
     scaffolding: ScaffoldingInfo;
+    verification_spec: VerificationSpec | null;
     created_at: Date;
     built_at: Date;
     ready_at: Date;
     approved_at: Date;
     archived_at: Date;
   }): Demo {
+    const config: DemoConfig = row.config || {
+      features: [],
+      excludedFeatures: [],
+      scaffoldingPercent: 0,
+      estimatedTime: 0,
+      estimatedCost: 0,
+    };
+    const scaffolding: ScaffoldingInfo = row.scaffolding || {
+      totalFiles: 0,
+      reusableFiles: 0,
+      reusablePercent: 0,
+      components: [],
+      routes: [],
+      styles: [],
+    };
+
     return {
       id: row.id,
       projectId: row.project_id,
@@ -473,21 +552,10 @@ export class DemoService extends EventEmitter {
       previewPid: row.preview_pid,
       verifiedAt: row.verified_at,
       verificationResult: row.verification_result,
-      config: row.config || {
-        features: [],
-        excludedFeatures: [],
-        scaffoldingPercent: 0,
-        estimatedTime: 0,
-        estimatedCost: 0,
-      },
-      scaffolding: row.scaffolding || {
-        totalFiles: 0,
-        reusableFiles: 0,
-        reusablePercent: 0,
-        components: [],
-        routes: [],
-        styles: [],
-      },
+      config,
+      scaffolding,
+      // Demos created before specs existed get the generated one
+      verificationSpec: row.verification_spec || generateVerificationSpec(config, scaffolding),
       createdAt: row.created_at,
       builtAt: row.built_at,
       readyAt: row.ready_at,
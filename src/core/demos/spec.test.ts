@@ -0,0 +1,167 @@
+/**
+ * Tests for Demo Verification Specs
+ * Generation from demo config, validation, JSON assertions and evaluation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  evaluateVerificationSpec,
+  generateVerificationSpec,
+  validateJson,
+  validateVerificationSpec,
+} from './spec.js';
+
+describe('Demo Verification Specs', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case '/':
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('<html><body><h1>Todo</h1><form id="new-todo"><input name="title"></form></body></html>');
+          return;
+        case '/slow':
+          setTimeout(() => {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end('<html><body>Eventually</body></html>');
+          }, 150);
+          return;
+        case '/api/todos':
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify([{ id: 1, title: 'Write spec', done: false }, { id: 2, title: 'Ship', done: 'no' }]));
+          return;
+        default:
+          res.writeHead(404, { 'Content-Type': 'text/html' });
+          res.end('<html><body>Not found</body></html>');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('generateVerificationSpec', () => {
+    it('should cover the home page, declared routes and API endpoints', () => {
+      const spec = generateVerificationSpec(
+        { routes: ['/about', 'settings'], apiEndpoints: ['/api/todos'] },
+        { routes: ['/about', '/todos/[id]', '/api/health'] }
+      );
+
+      expect(spec.source).toBe('generated');
+      expect(spec.pages.map(p => p.path)).toEqual(['/', '/about', '/settings']);
+      expect(spec.apiEndpoints.map(e => e.path)).toEqual(['/api/health', '/api/todos']);
+      expect(spec.apiEndpoints[0].schema).toEqual({ type: ['object', 'array'] });
+    });
+  });
+
+  describe('validateVerificationSpec', () => {
+    it('should fill in defaults', () => {
+      const result = validateVerificationSpec({ pages: [{ path: '/' }] });
+
+      expect(result.valid).toBe(true);
+      expect(result.spec).toEqual({
+        source: 'custom',
+        maxResponseMs: 3000,
+        pages: [{ path: '/', expectedStatus: 200, requiredText: [], requiredSelectors: [] }],
+        apiEndpoints: [],
+      });
+    });
+
+    it('should report every problem with its location', () => {
+      const result = validateVerificationSpec({
+        pages: [{ path: 'about', requiredSelectors: ['a:hover'] }],
+        apiEndpoints: [{ path: '/api', expectedStatus: 700, schema: { type: 'map' } }],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        expect.stringMatching(/^pages\.0\.path:/),
+        expect.stringMatching(/^apiEndpoints\.0\.expectedStatus:/),
+        expect.stringMatching(/^apiEndpoints\.0\.schema\.type:/),
+      ]));
+
+      const selectors = validateVerificationSpec({ pages: [{ path: '/', requiredSelectors: ['main', 'a:hover'] }] });
+      expect(selectors.errors).toEqual(['pages.0.requiredSelectors.1: Unsupported selector: a:hover']);
+    });
+  });
+
+  describe('validateJson', () => {
+    const schema = {
+      type: 'array' as const,
+      minItems: 1,
+      items: {
+        type: 'object' as const,
+        required: ['id', 'title'],
+        properties: {
+          id: { type: 'integer' as const, minimum: 1 },
+          title: { type: 'string' as const, minLength: 1 },
+          status: { enum: ['open', 'done'] },
+        },
+      },
+    };
+
+    it('should accept matching values', () => {
+      expect(validateJson([{ id: 1, title: 'a', status: 'open' }], schema)).toEqual([]);
+    });
+
+    it('should report violations by path', () => {
+      expect(validateJson([{ id: 0, status: 'later' }, 'x'], schema)).toEqual([
+        '$[0].title: required',
+        '$[0].id: below minimum 1',
+        '$[0].status: not one of ["open","done"]',
+        '$[1]: expected object, got string',
+      ]);
+      expect(validateJson([], schema)).toEqual(['$: fewer than 1 items']);
+    });
+  });
+
+  describe('evaluateVerificationSpec', () => {
+    it('should check pages and endpoints against the preview', async () => {
+      const { spec } = validateVerificationSpec({
+        maxResponseMs: 1000,
+        pages: [
+          { path: '/', requiredText: ['Todo'], requiredSelectors: ['form#new-todo input[name=title]'] },
+          { path: '/', requiredText: ['Done'], requiredSelectors: ['ul.todos'] },
+          { path: '/missing', expectedStatus: 404 },
+          { path: '/slow', maxResponseMs: 50 },
+        ],
+        apiEndpoints: [{
+          path: '/api/todos',
+          schema: { type: 'array', items: { type: 'object', properties: { done: { type: 'boolean' } } } },
+        }],
+      });
+
+      const checks = await evaluateVerificationSpec(spec!, baseUrl, { timeout: 5000 });
+
+      expect(checks.map(c => [c.name, c.status])).toEqual([
+        ['Page /', 'passed'],
+        ['Page /', 'failed'],
+        ['Page /missing', 'passed'],
+        ['Page /slow', 'failed'],
+        ['API GET /api/todos', 'failed'],
+      ]);
+      expect(checks.every(c => c.type === 'spec')).toBe(true);
+      expect(checks[1].details).toBe('missing text "Done"; no element matches ul.todos');
+      expect(checks[3].details).toMatch(/max 50ms/);
+      expect(checks[4].details).toBe('$[1].done: expected boolean, got string');
+    });
+
+    it('should fail checks when the preview is unreachable', async () => {
+      const checks = await evaluateVerificationSpec(
+        generateVerificationSpec({}),
+        'http://127.0.0.1:1',
+        { timeout: 2000 }
+      );
+
+      expect(checks).toHaveLength(1);
+      expect(checks[0].status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Demo Verification Specs
+ * Demo₇: Demo System
+ *
+ * A declarative description of what a demo promises: the routes that must
+ * load, what each page must show, the JSON endpoints that must answer and
+ * how fast. Specs are generated from the demo's config and scaffolding and
+ * can be replaced by hand; verification checks every promise against the
+ * preview URL.
+ */
+
+import { z } from 'zod';
+import { parseHtml, querySelectorAll, parseSelector, textContent } from './html.js';
+import type { DemoConfig, ScaffoldingInfo } from './index.js';
+import type { VerificationCheck } from './verification.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const JSON_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'] as const;
+type JsonType = typeof JSON_TYPES[number];
+
+/**
+ * The subset of JSON Schema that endpoint assertions support.
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+const JsonTypeEnum = z.enum(JSON_TYPES);
+
+export const JsonSchemaSchema: z.ZodType<JsonSchema> = z.lazy(() => z.object({
+  type: z.union([JsonTypeEnum, z.array(JsonTypeEnum).min(1)]).optional(),
+  properties: z.record(JsonSchemaSchema).optional(),
+  required: z.array(z.string()).optional(),
+  items: JsonSchemaSchema.optional(),
+  enum: z.array(z.unknown()).min(1).optional(),
+  minItems: z.number().int().nonnegative().optional(),
+  maxItems: z.number().int().nonnegative().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  pattern: z.string().optional(),
+}).strict());
+
+const RoutePath = z.string().regex(/^\//, 'must start with /');
+const StatusCode = z.number().int().min(100).max(599);
+
+export const PageSpecSchema = z.object({
+  path: RoutePath,
+  expectedStatus: StatusCode.default(200),
+  requiredText: z.array(z.string().min(1)).default([]),
+  requiredSelectors: z.array(z.string().min(1)).default([]),
+  maxResponseMs: z.number().positive().optional(),
+});
+
+export const ApiEndpointSpecSchema = z.object({
+  path: RoutePath,
+  method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET'),
+  body: z.unknown().optional(),
+  expectedStatus: StatusCode.default(200),
+  schema: JsonSchemaSchema.optional(),
+  maxResponseMs: z.number().positive().optional(),
+});
+
+export const VerificationSpecSchema = z.object({
+  source: z.enum(['generated', 'custom']).default('custom'),
+  maxResponseMs: z.number().positive().default(3000),
+  pages: z.array(PageSpecSchema).default([]),
+  apiEndpoints: z.array(ApiEndpointSpecSchema).default([]),
+});
+
+export type PageSpec = z.infer<typeof PageSpecSchema>;
+export type ApiEndpointSpec = z.infer<typeof ApiEndpointSpecSchema>;
+export type VerificationSpec = z.infer<typeof VerificationSpecSchema>;
+
+// ============================================================================
+// Generation & validation
+// ============================================================================
+
+function isApiRoute(route: string): boolean {
+  return route === '/api' || route.startsWith('/api/');
+}
+
+function normalizeRoute(route: string): string | null {
+  const trimmed = route.trim();
+  // Dynamic segments ([id], :id) can't be requested without data
+  if (!trimmed || /[[:*]/.test(trimmed)) return null;
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Build the spec a demo's config and scaffolding imply: the home page and
+ * every declared route must load, and API routes must answer with JSON.
+ */
+export function generateVerificationSpec(
+  config: Partial<DemoConfig>,
+  scaffolding?: Partial<ScaffoldingInfo>
+): VerificationSpec {
+  const routes = new Set<string>(['/']);
+  for (const route of [...(config.routes || []), ...(scaffolding?.routes || [])]) {
+    const normalized = normalizeRoute(route);
+    if (normalized) routes.add(normalized);
+  }
+  for (const endpoint of config.apiEndpoints || []) {
+    const normalized = normalizeRoute(endpoint);
+    if (normalized) routes.add(normalized);
+  }
+
+  const pages: PageSpec[] = [];
+  const apiEndpoints: ApiEndpointSpec[] = [];
+  for (const path of routes) {
+    if (isApiRoute(path) || config.apiEndpoints?.includes(path)) {
+      apiEndpoints.push({ path, method: 'GET', expectedStatus: 200, schema: { type: ['object', 'array'] } });
+    } else {
+      pages.push({ path, expectedStatus: 200, requiredText: [], requiredSelectors: path === '/' ? ['body'] : [] });
+    }
+  }
+
+  return { source: 'generated', maxResponseMs: 3000, pages, apiEndpoints };
+}
+
+/**
+ * Validate a spec, filling in defaults. Returns every problem found,
+ * including selectors the HTML engine can't evaluate.
+ */
+export function validateVerificationSpec(input: unknown): { valid: boolean; spec?: VerificationSpec; errors: string[] } {
+  const parsed = VerificationSpecSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    };
+  }
+
+  const errors: string[] = [];
+  parsed.data.pages.forEach((page, i) => {
+    page.requiredSelectors.forEach((selector, j) => {
+      try {
+        parseSelector(selector);
+      } catch (error) {
+        errors.push(`pages.${i}.requiredSelectors.${j}: ${(error as Error).message}`);
+      }
+    });
+  });
+  parsed.data.apiEndpoints.forEach((endpoint, i) => {
+    if (endpoint.schema) {
+      for (const pattern of collectPatterns(endpoint.schema)) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          errors.push(`apiEndpoints.${i}.schema: invalid pattern ${pattern}`);
+        }
+      }
+    }
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, spec: parsed.data, errors: [] };
+}
+
+function collectPatterns(schema: JsonSchema): string[] {
+  return [
+    ...(schema.pattern ? [schema.pattern] : []),
+    ...Object.values(schema.properties || {}).flatMap(collectPatterns),
+    ...(schema.items ? collectPatterns(schema.items) : []),
+  ];
+}
+
+// ============================================================================
+// JSON schema assertions
+// ============================================================================
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+/**
+ * Check a value against a schema. Returns one message per violation,
+ * prefixed with the JSON path ($ is the root).
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const ok = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!ok) {
+      return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: not one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: below minimum ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: above maximum ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: does not match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (key in record) errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export interface SpecEvaluationOptions {
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+async function timedFetch(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  doFetch: typeof fetch
+): Promise<{ response: Response; body: string; elapsed: number }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const started = Date.now();
+  try {
+    const response = await doFetch(url, { ...init, signal: controller.signal });
+    const elapsed = Date.now() - started;
+    const body = init.method === 'HEAD' ? '' : await response.text();
+    return { response, body, elapsed };
+  } catch (error) {
+    throw controller.signal.aborted ? new Error(`Timed out after ${timeout}ms`) : error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function toCheck(name: string, failures: string[], started: number, passDetails: string): VerificationCheck {
+  return {
+    type: 'spec',
+    name,
+    status: failures.length === 0 ? 'passed' : 'failed',
+    details: failures.length === 0 ? passDetails : failures.join('; '),
+    duration: Date.now() - started,
+  };
+}
+
+async function evaluatePage(
+  baseUrl: string,
+  page: PageSpec,
+  maxResponseMs: number,
+  timeout: number,
+  doFetch: typeof fetch
+): Promise<VerificationCheck> {
+  const started = Date.now();
+  const name = `Page ${page.path}`;
+
+  try {
+    const { response, body, elapsed } = await timedFetch(new URL(page.path, baseUrl).toString(), {
+      headers: { Accept: 'text/html' },
+    }, timeout, doFetch);
+    const failures: string[] = [];
+    const limit = page.maxResponseMs ?? maxResponseMs;
+
+    if (response.status !== page.expectedStatus) {
+      failures.push(`expected HTTP ${page.expectedStatus}, got ${response.status}`);
+    }
+    if (elapsed > limit) {
+      failures.push(`responded in ${elapsed}ms (max ${limit}ms)`);
+    }
+
+    if (page.requiredText.length > 0 || page.requiredSelectors.length > 0) {
+      const document = parseHtml(body);
+      const text = textContent(document);
+      for (const expected of page.requiredText) {
+        if (!text.includes(expected)) failures.push(`missing text "${expected}"`);
+      }
+      for (const selector of page.requiredSelectors) {
+        if (querySelectorAll(document, selector).length === 0) failures.push(`no element matches ${selector}`);
+      }
+    }
+
+    return toCheck(name, failures, started, `HTTP ${response.status} in ${elapsed}ms`);
+  } catch (error) {
+    return toCheck(name, [error instanceof Error ? error.message : 'Request failed'], started, '');
+  }
+}
+
+async function evaluateEndpoint(
+  baseUrl: string,
+  endpoint: ApiEndpointSpec,
+  maxResponseMs: number,
+  timeout: number,
+  doFetch: typeof fetch
+): Promise<VerificationCheck> {
+  const started = Date.now();
+  const name = `API ${endpoint.method} ${endpoint.path}`;
+
+  try {
+    const hasBody = endpoint.body !== undefined && endpoint.method !== 'GET' && endpoint.method !== 'HEAD';
+    const { response, body, elapsed } = await timedFetch(new URL(endpoint.path, baseUrl).toString(), {
+      method: endpoint.method,
+      headers: { Accept: 'application/json', ...(hasBody ? { 'Content-Type': 'application/json' } : {}) },
+      body: hasBody ? JSON.stringify(endpoint.body) : undefined,
+    }, timeout, doFetch);
+    const failures: string[] = [];
+    const limit = endpoint.maxResponseMs ?? maxResponseMs;
+
+    if (response.status !== endpoint.expectedStatus) {
+      failures.push(`expected HTTP ${endpoint.expectedStatus}, got ${response.status}`);
+    }
+    if (elapsed > limit) {
+      failures.push(`responded in ${elapsed}ms (max ${limit}ms)`);
+    }
+
+    if (endpoint.schema) {
+      let json: unknown;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        failures.push('response is not JSON');
+      }
+      if (json !== undefined) {
+        failures.push(...validateJson(json, endpoint.schema));
+      }
+    }
+
+    return toCheck(name, failures, started, `HTTP ${response.status} in ${elapsed}ms`);
+  } catch (error) {
+    return toCheck(name, [error instanceof Error ? error.message : 'Request failed'], started, '');
+  }
+}
+
+/**
+ * Check every page and endpoint of a spec against the preview, one
+ * VerificationCheck each, in spec order.
+ */
+export async function evaluateVerificationSpec(
+  spec: VerificationSpec,
+  baseUrl: string,
+  options: SpecEvaluationOptions = {}
+): Promise<VerificationCheck[]> {
+  const timeout = options.timeout ?? 30000;
+  const doFetch = options.fetch ?? fetch;
+  const checks: VerificationCheck[] = [];
+
+  for (const page of spec.pages) {
+    checks.push(await evaluatePage(baseUrl, page, spec.maxResponseMs, timeout, doFetch));
+  }
+  for (const endpoint of spec.apiEndpoints) {
+    checks.push(await evaluateEndpoint(baseUrl, endpoint, spec.maxResponseMs, timeout, doFetch));
+  }
+
+  return checks;
+}
@@ -6,15 +6,18 @@
  * - Process health checks
  * - URL accessibility checks
  * - Page verification
- * - User flow testing
+ * - Link crawl: broken links, HTTP errors, mixed content, redirect loops
  * - Responsive checks
+ * - The demo's verification spec: routes, content, API responses, timings
  */
 
 import { EventEmitter } from 'events';
 import { getDatabase } from '../../lib/database.js';
 import { getDemoService } from './index.js';
+import { CrawlGraph, CrawlIssue, CrawlIssueType, crawlSite, detectErrorPage } from './crawler.js';
+import { VerificationSpec, evaluateVerificationSpec } from './spec.js';
 
-export type CheckType = 'process' | 'url' | 'page' | 'flow' | 'responsive';
+export type CheckType = 'process' | 'url' | 'page' | 'flow' | 'responsive' | 'spec';
 export type CheckStatus = 'pending' | 'passed' | 'failed' | 'skipped';
 
 export interface VerificationCheck {
@@ -37,6 +40,7 @@ export interface VerificationResult {
   screenshots: string[];
   consoleErrors: string[];
   summary: string;
+  crawlGraph?: CrawlGraph;
 }
 
 export interface VerificationOptions {
@@ -46,8 +50,20 @@ export interface VerificationOptions {
   skipFlow?: boolean;
   skipResponsive?: boolean;
   timeout?: number;
+  crawlDepth?: number;
+  crawlMaxPages?: number;
+  skipSpec?: boolean;
+  spec?: VerificationSpec;  // Defaults to the demo's stored spec
 }
 
+const CRAWL_ISSUE_CHECKS: Array<{ type: CrawlIssueType; name: string; label: string }> = [
+  { type: 'broken_link', name: 'Broken links', label: 'broken link' },
+  { type: 'http_error', name: 'HTTP errors', label: 'error response' },
+  { type: 'mixed_content', name: 'Mixed content', label: 'insecure resource' },
+  { type: 'redirect_loop', name: 'Redirect loops', label: 'redirect loop' },
+];
+const MAX_LISTED_ISSUES = 5;
+
 /**
  * VerificationService handles automated demo verification.
  */
@@ -70,6 +86,7 @@ export class VerificationService extends EventEmitter {
     const checks: VerificationCheck[] = [];
     const screenshots: string[] = [];
     const consoleErrors: string[] = [];
+    let crawlGraph: CrawlGraph | undefined;
 
     this.emit('verification:started', { demoId, startedAt });
 
@@ -91,10 +108,11 @@ export class VerificationService extends EventEmitter {
       checks.push(pageCheck);
     }
 
-    // Run flow testing
+    // Crawl links, forms and assets
     if (!options.skipFlow) {
-      const flowCheck = await this.checkFlow(previewUrl);
-      checks.push(flowCheck);
+      const crawl = await this.checkFlow(previewUrl, options);
+      checks.push(...crawl.checks);
+      crawlGraph = crawl.graph;
     }
 
     // Run responsive check
@@ -103,6 +121,14 @@ export class VerificationService extends EventEmitter {
       checks.push(responsiveCheck);
     }
 
+    // Check the demo's declared routes, content and endpoints
+    if (!options.skipSpec) {
+      const spec = options.spec || (await getDemoService().getDemo(demoId)).verificationSpec;
+      checks.push(...await evaluateVerificationSpec(spec, previewUrl, {
+        timeout: options.timeout || this.defaultTimeout,
+      }));
+    }
+
     const completedAt = new Date();
     const passedCount = checks.filter(c => c.status === 'passed').length;
     const failedCount = checks.filter(c => c.status === 'failed').length;
@@ -121,6 +147,7 @@ export class VerificationService extends EventEmitter {
       screenshots,
       consoleErrors,
       summary,
+      crawlGraph,
     };
 
     // Record verification result in database
@@ -233,6 +260,16 @@ export class VerificationService extends EventEmitter {
       const html = await response.text();
       const duration = Date.now() - startTime;
 
+      if (response.status >= 400) {
+        return {
+          type: 'page',
+          name: 'Page structure verification',
+          status: 'failed',
+          details: `HTTP ${response.status}: ${response.statusText}`,
+          duration,
+        };
+      }
+
       // Basic checks
       const hasDoctype = html.toLowerCase().includes('<!doctype html');
       const hasHtmlTag = html.includes('<html');
@@ -249,17 +286,14 @@ export class VerificationService extends EventEmitter {
         };
       }
 
-      // Check for error indicators
-      const hasErrorIndicator =
-        html.includes('Error') && html.includes('stack') ||
-        html.includes('500') && html.includes('Internal Server Error');
-
-      if (hasErrorIndicator) {
+      // Check for error pages served as 200
+      const errorReason = detectErrorPage(html);
+      if (errorReason) {
         return {
           type: 'page',
           name: 'Page structure verification',
           status: 'failed',
-          details: 'Page contains error indicators',
+          details: errorReason,
           duration,
         };
       }
@@ -283,48 +317,65 @@ export class VerificationService extends EventEmitter {
   }
 
   /**
-   * Check basic user flow (navigation, links).
+   * Crawl the demo and report each kind of crawl issue as its own check.
    */
-  private async checkFlow(url: string): Promise<VerificationCheck> {
+  private async checkFlow(
+    url: string,
+    options: VerificationOptions
+  ): Promise<{ checks: VerificationCheck[]; graph?: CrawlGraph }> {
     const startTime = Date.now();
 
     try {
-      const response = await fetch(url);
-      const html = await response.text();
+      const graph = await crawlSite(url, {
+        maxDepth: options.crawlDepth,
+        maxPages: options.crawlMaxPages,
+        timeout: options.timeout,
+      });
       const duration = Date.now() - startTime;
+      const routes = graph.nodes.filter(n => (n.kind === 'page' || n.kind === 'form') && n.status !== undefined);
 
-      // Extract links
-      const linkMatches = html.match(/<a[^>]+href=["']([^"']+)["']/gi) || [];
-      const links = linkMatches.map(m => {
-        const match = m.match(/href=["']([^"']+)["']/i);
-        return match ? match[1] : '';
-      }).filter(Boolean);
-
-      // Check for interactive elements
-      const hasButtons = html.includes('<button') || html.includes('type="submit"');
-      const hasForms = html.includes('<form');
-      const hasInputs = html.includes('<input');
-
-      const interactiveCount = (hasButtons ? 1 : 0) + (hasForms ? 1 : 0) + (hasInputs ? 1 : 0);
-
-      return {
+      const checks: VerificationCheck[] = [{
         type: 'flow',
         name: 'User flow check',
-        status: 'passed',
-        details: `Found ${links.length} links, ${interactiveCount} interactive element types`,
+        status: graph.pagesCrawled > 0 ? 'passed' : 'failed',
+        details: `Crawled ${routes.length} routes and ${graph.assetsChecked} assets` +
+          (graph.truncated ? ` (stopped at ${graph.pagesCrawled} pages)` : ''),
         duration,
-      };
+      }];
+
+      for (const { type, name, label } of CRAWL_ISSUE_CHECKS) {
+        const issues = graph.issues.filter(i => i.type === type);
+        checks.push({
+          type: 'flow',
+          name,
+          status: issues.length === 0 ? 'passed' : 'failed',
+          details: issues.length === 0 ? `No ${label}s found` : this.describeIssues(issues, label),
+          duration,
+        });
+      }
+
+      return { checks, graph };
     } catch (error) {
       return {
-        type: 'flow',
-        name: 'User flow check',
-        status: 'failed',
-        details: error instanceof Error ? error.message : 'Flow check failed',
-        duration: Date.now() - startTime,
+        checks: [{
+          type: 'flow',
+          name: 'User flow check',
+          status: 'failed',
+          details: error instanceof Error ? error.message : 'Flow check failed',
+          duration: Date.now() - startTime,
+        }],
       };
     }
   }
 
+  private describeIssues(issues: CrawlIssue[], label: string): string {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue =>
+      `${issue.url}${issue.referrer ? ` (from ${issue.referrer})` : ''}: ${issue.details}`
+    );
+    const more = issues.length > MAX_LISTED_ISSUES ? `; and ${issues.length - MAX_LISTED_ISSUES} more` : '';
+    return `${issues.length} ${label}${issues.length === 1 ? '' : 's'}: ${listed.join('; ')}${more}`;
+  }
+
   /**
    * Check responsive design indicators.
    */
@@ -407,7 +458,16 @@ export class VerificationService extends EventEmitter {
       ]
     );
 
-    return queryResult.rows[0].record_demo_verification;
+    const verificationId = queryResult.rows[0].record_demo_verification;
+
+    if (result.crawlGraph) {
+      await db.query(
+        `UPDATE demo_verifications SET crawl_graph = $1 WHERE id = $2`,
+        [JSON.stringify(result.crawlGraph), verificationId]
+      );
+    }
+
+    return verificationId;
   }
 
   /**
@@ -428,6 +488,7 @@ export class VerificationService extends EventEmitter {
       screenshots: string[];
       console_errors: string[];
       summary: string;
+      crawl_graph: CrawlGraph | null;
     }>(
       `SELECT * FROM demo_verifications WHERE demo_id = $1 ORDER BY completed_at DESC`,
       [demoId]
@@ -445,6 +506,7 @@ export class VerificationService extends EventEmitter {
       screenshots: row.screenshots || [],
       consoleErrors: row.console_errors || [],
       summary: row.summary || '',
+      crawlGraph: row.crawl_graph || undefined,
     }));
   }
 
@@ -15,12 +15,68 @@ export {
   type RLAgent,
 } from './agent-manager/index.js';
 
+export {
+  AgentRuntimeRegistry,
+  ClaudeCliRuntime,
+  CommandRuntime,
+  ScriptedRuntime,
+  getRuntimeRegistry,
+  initializeRuntimeRegistry,
+  type AgentRuntime,
+  type AgentLaunchContext,
+  type ScriptedRuntimeOptions,
+} from './agent-manager/runtime.js';
+
+export {
+  AgentOutputParser,
+  createOutputParser,
+  type AgentOutputSummary,
+  type ParsedUsage,
+  type ParsedToolCall,
+  type ParsedResult,
+} from './agent-manager/output-parser.js';
+
+export {
+  DEFAULT_RESTART_POLICY,
+  resolveRestartPolicy,
+  validateRestartPolicy,
+  restartDelayMs,
+  stopProcess,
+  readProcessSample,
+  type RestartPolicy,
+  type RestartMode,
+  type ProcessExit,
+  type ProcessSample,
+} from './agent-manager/supervisor.js';
+
+export {
+  SandboxEnforcer,
+  DEFAULT_SANDBOX_PROFILE,
+  SANDBOX_PROFILES,
+  getSandboxEnforcer,
+  initializeSandboxEnforcer,
+  type SandboxProfile,
+  type SandboxLimits,
+  type SandboxViolation,
+  type SandboxViolationKind,
+} from './agent-manager/sandbox.js';
+
 // Message Bus
 export {
   MessageBus,
+  InMemoryMessageBus,
   createMessageBus,
+  type MessageBusAdapter,
   type MessageBusOptions,
+  type MessageDelivery,
+  type DeadLetter,
 } from './message-bus/index.js';
+export {
+  DeliveryTracker,
+  nextDeliveryAction,
+  type AckMode,
+  type StreamDelivery,
+} from './message-bus/delivery.js';
 
 // Learning System (RL)
 export {
@@ -45,23 +101,97 @@ export {
   type CheckpointOptions,
   type AgentState,
   type FileState,
+  type CheckpointDiff,
 } from './checkpoint/index.js';
 
+export {
+  SnapshotStore,
+  diffManifests,
+  type SnapshotManifest,
+  type ManifestEntry,
+  type RestoreSummary,
+} from './checkpoint/snapshot-store.js';
+
+// Budget Forecasting
+export {
+  forecastBudget,
+  type BudgetForecast,
+  type ForecastInput,
+  type TaskTypeCost,
+} from './cost/forecast.js';
+
+// Budget Enforcement
+export {
+  BudgetEnforcer,
+  getBudgetEnforcer,
+  validateBudgetPolicy,
+  resolveThresholds,
+  loadProjectBudgetPolicy,
+  saveProjectBudgetPolicy,
+  DEFAULT_BUDGET_POLICY,
+  type BudgetUsage,
+  type BudgetEnforcementStatus,
+  type BudgetExtension,
+  type BudgetExtensionRequest,
+  type ActiveBudgetAction,
+} from './cost/budgets.js';
+
+// Model Routing
+export {
+  ModelRouter,
+  validateModelRoutingPolicy,
+  loadProjectModelPolicy,
+  saveProjectModelPolicy,
+  getModelRoutingDecisions,
+  type ModelRoutingRequest,
+  type ModelRoutingDecision,
+  type LoggedRoutingDecision,
+} from './cost/routing.js';
+
 // Orchestrator
 export {
   Orchestrator,
   createOrchestrator,
   type OrchestratorOptions,
   type ParallelExecutionPlan,
+  type PlanExecutionResult,
+  type ExecutionPolicyOptions,
 } from './orchestrator/index.js';
 
+export {
+  type FailurePolicy,
+  type RetryBackoffOptions,
+  type SkippedTask,
+} from './orchestrator/policies.js';
+
+export {
+  DagScheduler,
+  computeCriticalPaths,
+  compareByCriticalPath,
+  estimateTaskDuration,
+  type SchedulableTask,
+  type DagSchedulerOptions,
+} from './orchestrator/scheduler.js';
+
 // Coordination
 export {
   AgentCoordinator,
   createCoordinator,
   type CoordinatorOptions,
+  type Conflict,
+  type ConflictResolution,
+  type TaskMergeStatus,
 } from './coordination/index.js';
 
+// Git Worktrees
+export {
+  WorktreeManager,
+  createWorktreeManager,
+  type AgentWorktree,
+  type MergeResult,
+  type MergeFileResolution,
+} from './worktree/index.js';
+
 // Notifications
 export {
   NotificationService,
@@ -97,6 +227,7 @@ export {
   ApprovalService,
   getApprovalService,
   ApprovalDecision,
+  type ApprovalVisualRegression,
 } from './demos/approval.js';
 
 export {
@@ -105,6 +236,19 @@ export {
   type VerificationResult,
 } from './demos/verification.js';
 
+export {
+  crawlSite,
+  type CrawlGraph,
+  type CrawlIssue,
+} from './demos/crawler.js';
+
+export {
+  generateVerificationSpec,
+  validateVerificationSpec,
+  evaluateVerificationSpec,
+  type VerificationSpec,
+} from './demos/spec.js';
+
 export {
   FeedbackService,
   getFeedbackService,
@@ -128,6 +272,24 @@ export {
   type ArchitectSuccessCriteria,
   type ArchitectReviewResult,
 } from './architect-agent/index.js';
+export {
+  RequirementsMapper,
+  mapProjectRequirements,
+  type Requirement,
+  type RequirementsReport,
+  type TraceabilityMatrix,
+} from './architect-agent/requirements-mapper.js';
+export {
+  QualityAnalyzer,
+  analyzeProjectQuality,
+  type CodeIssue,
+  type QualityReport,
+} from './architect-agent/quality-analyzer.js';
+export {
+  toSarif,
+  type SarifLog,
+  type SarifResult,
+} from './architect-agent/sarif.js';
 
 // Tester Agent
 export {
@@ -157,9 +319,38 @@ export {
   type VisualResults,
   type VisualDiff,
   type FlowResult,
+  type FlowTestOptions,
+  type VisualRegressionOptions,
   type QAReport,
 } from './qa-agent/index.js';
 
+export {
+  FlowStore,
+  UserFlowSchema,
+  type StoredUserFlow,
+} from './qa-agent/flows.js';
+
+export {
+  HttpDomDriver,
+  PlaywrightDriver,
+  createBrowserDriver,
+  type BrowserDriver,
+  type DriverKind,
+} from './qa-agent/driver.js';
+
+export {
+  executeStep,
+  type StepOutcome,
+} from './qa-agent/executor.js';
+
+export {
+  VisualBaselineStore,
+  diffImages,
+  type VisualBaseline,
+  type BaselinePage,
+  type PixelDiff,
+} from './qa-agent/visual.js';
+
 // Mentor Agent
 export {
   MentorAgent,
@@ -194,3 +385,55 @@ export {
   type HealthReport,
   type AlertThresholds,
 } from './monitor-agent/index.js';
+
+// Accounts
+export {
+  AccountService,
+  createAccountService,
+  getAccountService,
+  ACCOUNT_ROLES,
+  TEAM_ROLES,
+  type AccountRole,
+  type AccountStatus,
+  type TeamRole,
+  type UserAccount,
+  type CreateUserOptions,
+  type UpdateUserOptions,
+  type Team,
+  type TeamMember,
+  type ProjectMember,
+  type Invitation,
+  type InvitationStatus,
+  type CreateInvitationOptions,
+} from './accounts/index.js';
+
+// Agent Control
+export {
+  AgentControlService,
+  createAgentControlService,
+  getAgentControlService,
+  classifyRiskyAction,
+  formatSteeringMessage,
+  RISKY_ACTION_RULES,
+  type AgentControlState,
+  type SteeringInstruction,
+  type SteeringStatus,
+  type PendingAction,
+  type PendingActionStatus,
+  type ActionDecision,
+  type PauseOptions,
+  type RequestActionOptions,
+  type DecideActionOptions,
+  type GateToolCallOptions,
+  type WaitForDecisionOptions,
+  type RiskyActionRule,
+  type RiskyAction,
+} from './agent-control/index.js';
+export {
+  preparePermissionGate,
+  writeGateDecision,
+  removePermissionGate,
+  gateDirectory,
+  DEFAULT_GATE_DIR,
+  type GateDecision,
+} from './agent-control/permission-gate.js';
@@ -0,0 +1,110 @@
+/**
+ * Tests for Message Delivery
+ * Stream entry encoding, retry decisions and in-flight tracking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DeliveryTracker,
+  StreamDelivery,
+  decodeStreamEntry,
+  encodeStreamEntry,
+  nextDeliveryAction,
+} from './delivery.js';
+import type { Message } from '../../types/index.js';
+
+const message: Message = {
+  id: 'msg-1',
+  projectId: 'project-1',
+  fromAgentId: 'agent-a',
+  toAgentId: 'agent-b',
+  type: 'task_assign',
+  payload: { taskId: 'task-1' },
+  processed: false,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+function delivery(overrides: Partial<StreamDelivery> = {}): StreamDelivery {
+  return {
+    agentId: 'agent-b',
+    messageId: 'msg-1',
+    stream: 'eklavya:project-1:stream:agent-b',
+    entryId: '1-0',
+    attempt: 1,
+    direct: true,
+    deliveredAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('Message Delivery', () => {
+  describe('stream entries', () => {
+    it('should round-trip a message and its attempt', () => {
+      const decoded = decodeStreamEntry(encodeStreamEntry(message, 3));
+
+      expect(decoded?.attempt).toBe(3);
+      expect(decoded?.message).toEqual(message);
+      expect(decoded?.message.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should ignore entries that are not messages', () => {
+      expect(decodeStreamEntry(null)).toBeNull();
+      expect(decodeStreamEntry({ other: 'field' })).toBeNull();
+      expect(decodeStreamEntry({ message: '{not json' })).toBeNull();
+    });
+
+    it('should default a missing or invalid attempt to the first', () => {
+      expect(decodeStreamEntry({ message: JSON.stringify(message) })?.attempt).toBe(1);
+      expect(decodeStreamEntry({ message: JSON.stringify(message), attempt: 'x' })?.attempt).toBe(1);
+    });
+  });
+
+  describe('nextDeliveryAction', () => {
+    it('should retry until the delivery limit, then dead-letter', () => {
+      expect(nextDeliveryAction(1, 3)).toBe('retry');
+      expect(nextDeliveryAction(2, 3)).toBe('retry');
+      expect(nextDeliveryAction(3, 3)).toBe('dead_letter');
+    });
+  });
+
+  describe('DeliveryTracker', () => {
+    let tracker: DeliveryTracker;
+
+    beforeEach(() => {
+      tracker = new DeliveryTracker();
+    });
+
+    it('should not deliver a message twice while it is in flight', () => {
+      expect(tracker.track(delivery())).toBe(true);
+      expect(tracker.track(delivery({ entryId: '2-0' }))).toBe(false);
+      expect(tracker.track(delivery({ agentId: 'agent-c' }))).toBe(true);
+      expect(tracker.size()).toBe(2);
+    });
+
+    it('should settle a delivery once', () => {
+      tracker.track(delivery());
+
+      expect(tracker.settle('agent-b', 'msg-1')?.entryId).toBe('1-0');
+      expect(tracker.settle('agent-b', 'msg-1')).toBeUndefined();
+      expect(tracker.track(delivery({ entryId: '2-0', attempt: 2 }))).toBe(true);
+    });
+
+    it('should report deliveries past the ack timeout', () => {
+      tracker.track(delivery({ deliveredAt: 1000 }));
+      tracker.track(delivery({ messageId: 'msg-2', deliveredAt: 5000 }));
+
+      expect(tracker.expired(6000, 5000).map(d => d.messageId)).toEqual(['msg-1']);
+    });
+
+    it('should drop all deliveries for an agent', () => {
+      tracker.track(delivery());
+      tracker.track(delivery({ messageId: 'msg-2' }));
+      tracker.track(delivery({ agentId: 'agent-c' }));
+
+      tracker.dropAgent('agent-b');
+
+      expect(tracker.size()).toBe(1);
+      expect(tracker.get('agent-c', 'msg-1')).toBeDefined();
+    });
+  });
+});
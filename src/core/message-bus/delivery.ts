@@ -0,0 +1,144 @@
+/**
+ * Message Delivery
+ * Stream entry encoding and in-flight delivery tracking for the message bus.
+ *
+ * Every delivery stays in flight until it is acked or nacked. A nack (or an
+ * ack timeout) retries the message until it has been delivered
+ * maxDeliveries times; after that it is dead-lettered.
+ */
+
+import type { EventEmitter } from 'events';
+import type { Message } from '../../types/index.js';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type AckMode = 'auto' | 'manual';
+
+export type DeliveryAction = 'retry' | 'dead_letter';
+
+export interface StreamDelivery {
+  agentId: string;
+  messageId: string;
+  stream: string;
+  entryId: string;
+  attempt: number;
+  direct: boolean;  // Addressed to the agent rather than broadcast
+  deliveredAt: number;
+}
+
+export const DEFAULT_MAX_DELIVERIES = 5;
+
+export const DEFAULT_ACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Listeners
+// ============================================================================
+
+/**
+ * Call every listener of the given events and wait for the promises they
+ * return, so an auto ack only follows handlers that have finished.
+ * Rejects with the first error a listener throws or rejects with.
+ */
+export async function emitDelivery(emitter: EventEmitter, events: string[], ...args: unknown[]): Promise<void> {
+  const listeners = events.flatMap(event => emitter.rawListeners(event));
+  await Promise.all(listeners.map(async listener => listener.apply(emitter, args)));
+}
+
+// ============================================================================
+// Stream entries
+// ============================================================================
+
+export function encodeStreamEntry(message: Message, attempt: number): Record<string, string> {
+  return {
+    message: JSON.stringify(message),
+    attempt: String(attempt),
+  };
+}
+
+/**
+ * Decode a stream entry. Returns null for entries that aren't messages.
+ */
+export function decodeStreamEntry(fields: Record<string, string> | null): { message: Message; attempt: number } | null {
+  if (!fields?.message) return null;
+
+  try {
+    const parsed = JSON.parse(fields.message) as Message;
+    return {
+      message: { ...parsed, createdAt: new Date(parsed.createdAt) },
+      attempt: Math.max(1, parseInt(fields.attempt || '1', 10) || 1),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What to do with a message whose delivery `attempt` failed.
+ */
+export function nextDeliveryAction(attempt: number, maxDeliveries: number = DEFAULT_MAX_DELIVERIES): DeliveryAction {
+  return attempt < maxDeliveries ? 'retry' : 'dead_letter';
+}
+
+// ============================================================================
+// Delivery tracker
+// ============================================================================
+
+export class DeliveryTracker {
+  private inFlight: Map<string, StreamDelivery> = new Map();
+
+  /**
+   * Start tracking a delivery. Returns false if the message is already in
+   * flight for this agent, in which case it must not be delivered again.
+   */
+  track(delivery: StreamDelivery): boolean {
+    const key = this.key(delivery.agentId, delivery.messageId);
+    if (this.inFlight.has(key)) {
+      return false;
+    }
+    this.inFlight.set(key, delivery);
+    return true;
+  }
+
+  get(agentId: string, messageId: string): StreamDelivery | undefined {
+    return this.inFlight.get(this.key(agentId, messageId));
+  }
+
+  /**
+   * Stop tracking a delivery and return it, if it was in flight.
+   */
+  settle(agentId: string, messageId: string): StreamDelivery | undefined {
+    const key = this.key(agentId, messageId);
+    const delivery = this.inFlight.get(key);
+    this.inFlight.delete(key);
+    return delivery;
+  }
+
+  /**
+   * Deliveries that have waited longer than `timeoutMs` for an ack.
+   */
+  expired(now: number, timeoutMs: number): StreamDelivery[] {
+    return Array.from(this.inFlight.values()).filter(d => now - d.deliveredAt >= timeoutMs);
+  }
+
+  /**
+   * Forget an agent's deliveries. Unacked entries stay pending in Redis and
+   * are delivered again when the agent resubscribes.
+   */
+  dropAgent(agentId: string): void {
+    for (const [key, delivery] of this.inFlight) {
+      if (delivery.agentId === agentId) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  size(): number {
+    return this.inFlight.size;
+  }
+
+  private key(agentId: string, messageId: string): string {
+    return `${agentId}:${messageId}`;
+  }
+}
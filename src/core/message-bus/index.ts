@@ -1,23 +1,112 @@
+/**
+ * Message Bus
+ * At-least-once messaging between agents over Redis Streams.
+ *
+ * - Each agent has its own stream; broadcasts go to a shared stream that
+ *   every subscribed agent reads through its own consumer group
+ * - Deliveries must be acked. In 'auto' mode a delivery is acked once the
+ *   listeners (and any promises they return) finish and nacked if one
+ *   throws or rejects; in 'manual' mode consumers
+ *   call ack()/nack() themselves
+ * - Nacked or timed-out deliveries are retried until maxDeliveries, then
+ *   moved to the dead-letter stream and the message_dead_letters table
+ * - Messages are persisted in the messages table first. On subscribe, an
+ *   agent's unprocessed messages that its stream no longer holds are replayed
+ *
+ * InMemoryMessageBus (memory.ts) offers the same contract inside a single
+ * process; createMessageBus() picks one by driver.
+ */
+
 import { createClient, RedisClientType } from 'redis';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import type { Message, MessageType, RedisConfig } from '../../types/index.js';
-import { getDatabase } from '../../lib/database.js';
+import type { Message, MessageBusDriver, MessageType, RedisConfig } from '../../types/index.js';
+import { MessageStore, DeadLetter } from './store.js';
+import { InMemoryMessageBus } from './memory.js';
+import {
+  AckMode,
+  DeliveryTracker,
+  StreamDelivery,
+  DEFAULT_ACK_TIMEOUT_MS,
+  DEFAULT_MAX_DELIVERIES,
+  decodeStreamEntry,
+  emitDelivery,
+  encodeStreamEntry,
+  nextDeliveryAction,
+} from './delivery.js';
 
 export interface MessageBusOptions {
+  driver?: MessageBusDriver;  // Defaults to 'redis'
   redis: RedisConfig;
   projectId: string;
+  ackMode?: AckMode;
+  maxDeliveries?: number;
+  ackTimeoutMs?: number;
+  pollIntervalMs?: number;
+  streamMaxLength?: number;
+}
+
+export interface MessageDelivery {
+  agentId: string;
+  attempt: number;
+}
+
+export type { DeadLetter };
+
+/**
+ * The contract shared by the Redis and in-process buses.
+ *
+ * Emits 'message' and the message type with (message, delivery) for every
+ * delivery, plus 'redelivery', 'dead_letter', 'dead_letter:requeued' and
+ * 'replayed'.
+ */
+export interface MessageBusAdapter extends EventEmitter {
+  readonly driver: MessageBusDriver;
+  connect(): Promise<void>;
+  subscribe(agentId: string): Promise<void>;
+  unsubscribe(agentId: string): Promise<void>;
+  publish(message: Omit<Message, 'id' | 'createdAt'>): Promise<Message>;
+  sendToAgent(toAgentId: string, type: MessageType, payload: Record<string, unknown>, fromAgentId?: string): Promise<Message>;
+  broadcast(type: MessageType, payload: Record<string, unknown>, fromAgentId?: string): Promise<Message>;
+  ack(agentId: string, messageId: string): Promise<boolean>;
+  nack(agentId: string, messageId: string, error?: string): Promise<boolean>;
+  getUnprocessedMessages(agentId: string): Promise<Message[]>;
+  markProcessed(messageId: string): Promise<void>;
+  getDeadLetters(options?: { includeRequeued?: boolean; limit?: number }): Promise<DeadLetter[]>;
+  requeueDeadLetter(deadLetterId: string): Promise<DeadLetter>;
+  close(): Promise<void>;
 }
 
-export class MessageBus extends EventEmitter {
+const READ_BATCH_SIZE = 50;
+
+export class MessageBus extends EventEmitter implements MessageBusAdapter {
+  readonly driver = 'redis' as const;
+  private store: MessageStore;
   private publisher: RedisClientType;
   private subscriber: RedisClientType;
   private projectId: string;
-  private subscriptions: Set<string> = new Set();
+  private ackMode: AckMode;
+  private maxDeliveries: number;
+  private ackTimeoutMs: number;
+  private pollIntervalMs: number;
+  private streamMaxLength: number;
+
+  // Subscribed agents, with the read cursor of each of their streams:
+  // '0' re-reads entries delivered before but never acked, '>' reads new ones
+  private subscriptions: Map<string, Map<string, string>> = new Map();
+  private deliveries: DeliveryTracker = new DeliveryTracker();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
 
   constructor(options: MessageBusOptions) {
     super();
     this.projectId = options.projectId;
+    this.store = new MessageStore(options.projectId);
+    this.ackMode = options.ackMode || 'auto';
+    this.maxDeliveries = options.maxDeliveries || DEFAULT_MAX_DELIVERIES;
+    this.ackTimeoutMs = options.ackTimeoutMs || DEFAULT_ACK_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs || 250;
+    this.streamMaxLength = options.streamMaxLength || 10000;
 
     const redisUrl = `redis://${options.redis.host}:${options.redis.port}`;
     this.publisher = createClient({ url: redisUrl });
@@ -35,33 +124,57 @@ export class MessageBus extends EventEmitter {
     return `eklavya:${this.projectId}:${target}`;
   }
 
+  /**
+   * Background delivery errors go to 'error' listeners when there are any;
+   * an 'error' event nobody listens to would throw and end the process
+   */
+  private reportError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error(`Message bus error in project ${this.projectId}:`, error);
+    }
+  }
+
+  private getStream(target: string): string {
+    return this.getChannel(`stream:${target}`);
+  }
+
   async subscribe(agentId: string): Promise<void> {
-    const channels = [
-      this.getChannel(agentId),
-      this.getChannel('broadcast'),
-    ];
-
-    for (const channel of channels) {
-      if (!this.subscriptions.has(channel)) {
-        await this.subscriber.subscribe(channel, (message) => {
-          try {
-            const parsed = JSON.parse(message) as Message;
-            this.emit('message', parsed);
-            this.emit(parsed.type, parsed);
-          } catch {
-            // Ignore parse errors
-          }
+    if (this.subscriptions.has(agentId)) {
+      return;
+    }
+
+    const ownStream = this.getStream(agentId);
+    const broadcastStream = this.getStream('broadcast');
+
+    // An agent's own stream is read from the start; broadcasts from now on
+    await this.ensureGroup(ownStream, agentId, '0');
+    await this.ensureGroup(broadcastStream, agentId, '$');
+
+    await this.replayUnprocessed(agentId);
+
+    this.subscriptions.set(agentId, new Map([
+      [ownStream, '0'],
+      [broadcastStream, '0'],
+    ]));
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => {
+        this.poll().catch((error) => {
+          this.reportError(error);
         });
-        this.subscriptions.add(channel);
-      }
+      }, this.pollIntervalMs);
     }
   }
 
   async unsubscribe(agentId: string): Promise<void> {
-    const channel = this.getChannel(agentId);
-    if (this.subscriptions.has(channel)) {
-      await this.subscriber.unsubscribe(channel);
-      this.subscriptions.delete(channel);
+    this.subscriptions.delete(agentId);
+    this.deliveries.dropAgent(agentId);
+
+    if (this.subscriptions.size === 0 && this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
     }
   }
 
@@ -73,28 +186,14 @@ export class MessageBus extends EventEmitter {
     };
 
     // Persist to database
-    const db = getDatabase();
-    await db.query(
-      `INSERT INTO messages (id, project_id, from_agent_id, to_agent_id, type, channel, payload, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [
-        fullMessage.id,
-        fullMessage.projectId,
-        fullMessage.fromAgentId || null,
-        fullMessage.toAgentId || null,
-        fullMessage.type,
-        fullMessage.channel || null,
-        JSON.stringify(fullMessage.payload),
-        fullMessage.createdAt,
-      ]
-    );
+    await this.store.insertMessage(fullMessage);
 
-    // Publish to Redis
-    const channel = fullMessage.toAgentId
-      ? this.getChannel(fullMessage.toAgentId)
-      : this.getChannel('broadcast');
+    // Append to the recipient's stream
+    const stream = fullMessage.toAgentId
+      ? this.getStream(fullMessage.toAgentId)
+      : this.getStream('broadcast');
 
-    await this.publisher.publish(channel, JSON.stringify(fullMessage));
+    await this.appendToStream(stream, fullMessage, 1);
 
     return fullMessage;
   }
@@ -130,29 +229,92 @@ export class MessageBus extends EventEmitter {
     });
   }
 
+  /**
+   * Acknowledge a delivery. Direct messages are marked processed.
+   * Returns false if the message wasn't in flight for the agent.
+   */
+  async ack(agentId: string, messageId: string): Promise<boolean> {
+    const delivery = this.deliveries.settle(agentId, messageId);
+    if (!delivery) {
+      return false;
+    }
+
+    await this.subscriber.xAck(delivery.stream, agentId, delivery.entryId);
+
+    if (delivery.direct) {
+      await this.markProcessed(messageId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Reject a delivery. It is retried on the agent's own stream until
+   * maxDeliveries is reached, then dead-lettered.
+   * Returns false if the message wasn't in flight for the agent.
+   */
+  async nack(agentId: string, messageId: string, error?: string): Promise<boolean> {
+    const delivery = this.deliveries.settle(agentId, messageId);
+    if (!delivery) {
+      return false;
+    }
+
+    const entries = await this.subscriber.xRange(delivery.stream, delivery.entryId, delivery.entryId);
+    const decoded = decodeStreamEntry(entries[0]?.message as Record<string, string> ?? null);
+
+    if (decoded) {
+      if (nextDeliveryAction(delivery.attempt, this.maxDeliveries) === 'retry') {
+        await this.appendToStream(this.getStream(agentId), decoded.message, delivery.attempt + 1);
+        this.emit('redelivery', { message: decoded.message, agentId, attempt: delivery.attempt + 1, error });
+      } else {
+        await this.deadLetter(delivery, decoded.message, error);
+      }
+    }
+
+    await this.subscriber.xAck(delivery.stream, agentId, delivery.entryId);
+    return true;
+  }
+
   async getUnprocessedMessages(agentId: string): Promise<Message[]> {
-    const db = getDatabase();
-    const result = await db.query<Message>(
-      `SELECT * FROM messages
-       WHERE (to_agent_id = $1 OR channel = 'broadcast')
-       AND processed = false
-       ORDER BY created_at ASC`,
-      [agentId]
-    );
-    return result.rows;
+    return this.store.getUnprocessedMessages(agentId);
   }
 
   async markProcessed(messageId: string): Promise<void> {
-    const db = getDatabase();
-    await db.query(
-      `UPDATE messages SET processed = true, processed_at = NOW() WHERE id = $1`,
-      [messageId]
-    );
+    await this.store.markProcessed(messageId);
+  }
+
+  /**
+   * List the project's dead letters, newest first. Requeued ones are
+   * included only when asked for.
+   */
+  async getDeadLetters(options: { includeRequeued?: boolean; limit?: number } = {}): Promise<DeadLetter[]> {
+    return this.store.listDeadLetters(options);
+  }
+
+  /**
+   * Put a dead letter back on its agent's stream with a fresh retry budget.
+   */
+  async requeueDeadLetter(deadLetterId: string): Promise<DeadLetter> {
+    const deadLetter = await this.store.getDeadLetter(deadLetterId);
+    if (!deadLetter) {
+      throw new Error(`Dead letter not found: ${deadLetterId}`);
+    }
+    if (deadLetter.requeuedAt) {
+      throw new Error(`Dead letter already requeued: ${deadLetterId}`);
+    }
+
+    await this.appendToStream(this.getStream(deadLetter.agentId), deadLetter.message, 1);
+    await this.store.markRequeued(deadLetterId);
+
+    this.emit('dead_letter:requeued', { deadLetterId, messageId: deadLetter.messageId, agentId: deadLetter.agentId });
+
+    return { ...deadLetter, requeuedAt: new Date() };
   }
 
   async close(): Promise<void> {
-    for (const channel of this.subscriptions) {
-      await this.subscriber.unsubscribe(channel);
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
     }
     this.subscriptions.clear();
     await Promise.all([
@@ -160,9 +322,146 @@ export class MessageBus extends EventEmitter {
       this.subscriber.quit(),
     ]);
   }
+
+  // ============================================================================
+  // Delivery
+  // ============================================================================
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [agentId, cursors] of this.subscriptions) {
+        for (const [stream, cursor] of cursors) {
+          const reply = await this.subscriber.xReadGroup(
+            agentId,
+            agentId,
+            { key: stream, id: cursor },
+            { COUNT: READ_BATCH_SIZE }
+          );
+          const entries = reply?.[0]?.messages || [];
+
+          // Once the backlog of unacked entries is drained, read new ones
+          if (cursor === '0' && entries.length === 0) {
+            cursors.set(stream, '>');
+          }
+
+          for (const entry of entries) {
+            await this.deliver(agentId, stream, entry.id as string, entry.message as Record<string, string> | null);
+          }
+        }
+      }
+
+      // Deliveries nobody acked in time count as failed
+      for (const delivery of this.deliveries.expired(Date.now(), this.ackTimeoutMs)) {
+        await this.nack(delivery.agentId, delivery.messageId, 'Ack timeout');
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async deliver(
+    agentId: string,
+    stream: string,
+    entryId: string,
+    fields: Record<string, string> | null
+  ): Promise<void> {
+    const decoded = decodeStreamEntry(fields);
+    if (!decoded) {
+      // Trimmed or foreign entry: nothing to deliver
+      await this.subscriber.xAck(stream, agentId, entryId);
+      return;
+    }
+
+    const { message, attempt } = decoded;
+    const tracked = this.deliveries.track({
+      agentId,
+      messageId: message.id,
+      stream,
+      entryId,
+      attempt,
+      direct: message.toAgentId === agentId,
+      deliveredAt: Date.now(),
+    });
+    if (!tracked) return;
+
+    const delivery: MessageDelivery = { agentId, attempt };
+
+    try {
+      await emitDelivery(this, ['message', message.type], message, delivery);
+    } catch (error) {
+      if (this.ackMode === 'auto') {
+        await this.nack(agentId, message.id, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    if (this.ackMode === 'auto') {
+      await this.ack(agentId, message.id);
+    }
+  }
+
+  private async deadLetter(delivery: StreamDelivery, message: Message, error?: string): Promise<void> {
+    await this.store.insertDeadLetter(message, delivery.agentId, delivery.attempt, error);
+
+    await this.appendToStream(this.getChannel('dead-letter'), message, delivery.attempt);
+
+    this.emit('dead_letter', { message, agentId: delivery.agentId, attempts: delivery.attempt, error });
+  }
+
+  /**
+   * Re-add an agent's unprocessed direct messages that its stream no
+   * longer holds (trimmed, or lost with the Redis data). Dead letters
+   * stay dead until requeued.
+   */
+  private async replayUnprocessed(agentId: string): Promise<void> {
+    const messages = await this.store.getReplayableMessages(agentId);
+    if (messages.length === 0) return;
+
+    const stream = this.getStream(agentId);
+    const inStream = new Set(
+      (await this.subscriber.xRange(stream, '-', '+'))
+        .map(entry => decodeStreamEntry(entry.message as Record<string, string>)?.message.id)
+    );
+
+    let replayed = 0;
+    for (const message of messages) {
+      if (inStream.has(message.id)) continue;
+      await this.appendToStream(stream, message, 1);
+      replayed++;
+    }
+
+    if (replayed > 0) {
+      this.emit('replayed', { agentId, count: replayed });
+    }
+  }
+
+  private async appendToStream(stream: string, message: Message, attempt: number): Promise<void> {
+    await this.publisher.xAdd(stream, '*', encodeStreamEntry(message, attempt), {
+      TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.streamMaxLength },
+    });
+  }
+
+  private async ensureGroup(stream: string, group: string, startId: string): Promise<void> {
+    try {
+      await this.subscriber.xGroupCreate(stream, group, startId, { MKSTREAM: true });
+    } catch (error) {
+      // BUSYGROUP: the group already exists
+      if (!(error instanceof Error && error.message.includes('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+  }
 }
 
 // Factory function
-export function createMessageBus(options: MessageBusOptions): MessageBus {
+export function createMessageBus(options: MessageBusOptions): MessageBusAdapter {
+  if (options.driver === 'memory') {
+    return new InMemoryMessageBus(options);
+  }
   return new MessageBus(options);
 }
+
+export { InMemoryMessageBus };
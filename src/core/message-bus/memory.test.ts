@@ -0,0 +1,168 @@
+/**
+ * Tests for the In-Memory Message Bus
+ * Delivery, acks, retries and dead letters on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { getDatabase } from '../../lib/database.js';
+import { createMessageBus, MessageBusAdapter } from './index.js';
+import type { Message } from '../../types/index.js';
+
+function nextMessage(bus: MessageBusAdapter): Promise<[Message, { agentId: string; attempt: number }]> {
+  return new Promise(resolve => bus.once('message', (message, delivery) => resolve([message, delivery])));
+}
+
+describe('InMemoryMessageBus', () => {
+  let projectId: string;
+  let agentA: string;
+  let agentB: string;
+  let bus: MessageBusAdapter;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+
+    const project = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('bus-test') RETURNING id`);
+    projectId = project.rows[0].id;
+    const agents = await db.query<{ id: string }>(
+      `INSERT INTO agents (project_id, type) VALUES ($1, 'developer'), ($1, 'tester') RETURNING id`,
+      [projectId]
+    );
+    [agentA, agentB] = agents.rows.map(r => r.id);
+  });
+
+  afterEach(async () => {
+    await bus?.close();
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+  });
+
+  function createBus(options: { ackMode?: 'auto' | 'manual'; maxDeliveries?: number } = {}): MessageBusAdapter {
+    bus = createMessageBus({
+      driver: 'memory',
+      redis: { host: 'localhost', port: 6379 },
+      projectId,
+      ...options,
+    });
+    return bus;
+  }
+
+  it('should deliver and ack direct messages', async () => {
+    createBus();
+    await bus.subscribe(agentB);
+
+    const received = nextMessage(bus);
+    const sent = await bus.sendToAgent(agentB, 'task_assign', { taskId: 'task-1' }, agentA);
+    const [message, delivery] = await received;
+
+    expect(bus.driver).toBe('memory');
+    expect(message.id).toBe(sent.id);
+    expect(delivery).toEqual({ agentId: agentB, attempt: 1 });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(await bus.getUnprocessedMessages(agentB)).toHaveLength(0);
+  });
+
+  it('should ack only once async listeners finish, and nack when one rejects', async () => {
+    createBus({ maxDeliveries: 2 });
+    await bus.subscribe(agentB);
+    const ack = vi.spyOn(bus, 'ack');
+
+    let finish!: () => void;
+    const handled = new Promise<void>(resolve => { finish = resolve; });
+    const started = new Promise<void>(resolve => {
+      bus.once('task_assign', async () => {
+        resolve();
+        await handled;
+      });
+    });
+    const sent = await bus.sendToAgent(agentB, 'task_assign', { taskId: 'task-3' });
+
+    await started;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(ack).not.toHaveBeenCalled();
+
+    finish();
+    await vi.waitFor(() => expect(ack).toHaveBeenCalledWith(agentB, sent.id));
+
+    const redelivered = new Promise(resolve => bus.once('redelivery', resolve));
+    bus.once('status_update', async () => {
+      throw new Error('handler rejected');
+    });
+    const failed = await bus.sendToAgent(agentB, 'status_update', { step: 3 });
+
+    await expect(redelivered).resolves.toMatchObject({ agentId: agentB, attempt: 2, error: 'handler rejected' });
+    await vi.waitFor(() => expect(ack).toHaveBeenCalledWith(agentB, failed.id));
+    vi.restoreAllMocks();
+  });
+
+  it('should replay unprocessed messages on subscribe', async () => {
+    createBus();
+    const sent = await bus.sendToAgent(agentA, 'status_update', { step: 1 });
+
+    const received = nextMessage(bus);
+    await bus.subscribe(agentA);
+
+    expect((await received)[0].id).toBe(sent.id);
+  });
+
+  it('should retry nacked messages and then dead-letter them', async () => {
+    createBus({ ackMode: 'manual', maxDeliveries: 2 });
+    await bus.subscribe(agentB);
+
+    const attempts: number[] = [];
+    bus.on('message', (message: Message, delivery: { attempt: number }) => {
+      attempts.push(delivery.attempt);
+      bus.nack(agentB, message.id, 'handler failed');
+    });
+    const deadLettered = new Promise(resolve => bus.once('dead_letter', resolve));
+
+    const sent = await bus.sendToAgent(agentB, 'task_assign', { taskId: 'task-2' });
+
+    await expect(deadLettered).resolves.toMatchObject({ agentId: agentB, attempts: 2, error: 'handler failed' });
+    expect(attempts).toEqual([1, 2]);
+
+    const [deadLetter] = await bus.getDeadLetters();
+    expect(deadLetter.messageId).toBe(sent.id);
+    expect(deadLetter.lastError).toBe('handler failed');
+  });
+
+  it('should redeliver a requeued dead letter', async () => {
+    createBus({ ackMode: 'manual' });
+    await bus.subscribe(agentB);
+    const [deadLetter] = await bus.getDeadLetters();
+
+    const received = nextMessage(bus);
+    await bus.requeueDeadLetter(deadLetter.id);
+    const [message, delivery] = await received;
+
+    expect(message.id).toBe(deadLetter.messageId);
+    expect(delivery.attempt).toBe(1);
+    expect(await bus.getDeadLetters()).toHaveLength(0);
+    await expect(bus.requeueDeadLetter(deadLetter.id)).rejects.toThrow('already requeued');
+  });
+
+  it('should log delivery errors when nothing listens for them', async () => {
+    createBus();
+    await bus.subscribe(agentB);
+
+    const logged = new Promise(resolve => {
+      vi.spyOn(console, 'error').mockImplementationOnce((...args) => resolve(args));
+    });
+    vi.spyOn(bus, 'ack').mockRejectedValueOnce(new Error('store unavailable'));
+
+    await bus.sendToAgent(agentB, 'status_update', { step: 2 });
+
+    expect(await logged).toEqual([expect.stringContaining(projectId), expect.objectContaining({ message: 'store unavailable' })]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * In-Memory Message Bus
+ * The message bus without Redis, for running Eklavya on a single machine.
+ *
+ * Buses for the same project share one in-process hub, so a bus created
+ * elsewhere in the process (e.g. to requeue a dead letter from the API)
+ * reaches the agents subscribed through another. Delivery, acks, retries
+ * and dead letters work as on the Redis bus. There is no stream to hold
+ * undelivered messages, so an agent's unprocessed messages are replayed
+ * from the messages table whenever it subscribes.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type { Message, MessageType } from '../../types/index.js';
+import type { MessageBusAdapter, MessageBusOptions, MessageDelivery } from './index.js';
+import { MessageStore, DeadLetter } from './store.js';
+import {
+  AckMode,
+  DeliveryTracker,
+  DEFAULT_ACK_TIMEOUT_MS,
+  DEFAULT_MAX_DELIVERIES,
+  emitDelivery,
+  nextDeliveryAction,
+} from './delivery.js';
+
+// Process-wide hub: channel -> (message, attempt)
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+type HubListener = (message: Message, attempt: number) => void;
+
+export class InMemoryMessageBus extends EventEmitter implements MessageBusAdapter {
+  readonly driver = 'memory' as const;
+  private store: MessageStore;
+  private projectId: string;
+  private ackMode: AckMode;
+  private maxDeliveries: number;
+  private ackTimeoutMs: number;
+  private pollIntervalMs: number;
+
+  private subscriptions: Map<string, Array<[string, HubListener]>> = new Map();
+  private deliveries: DeliveryTracker = new DeliveryTracker();
+  // Message bodies of in-flight deliveries, for redelivery on nack
+  private inFlight: Map<string, Message> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: MessageBusOptions) {
+    super();
+    this.projectId = options.projectId;
+    this.store = new MessageStore(options.projectId);
+    this.ackMode = options.ackMode || 'auto';
+    this.maxDeliveries = options.maxDeliveries || DEFAULT_MAX_DELIVERIES;
+    this.ackTimeoutMs = options.ackTimeoutMs || DEFAULT_ACK_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs || 250;
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  private getChannel(target: string): string {
+    return `eklavya:${this.projectId}:${target}`;
+  }
+
+  /**
+   * Background delivery errors go to 'error' listeners when there are any;
+   * an 'error' event nobody listens to would throw and end the process
+   */
+  private reportError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error(`Message bus error in project ${this.projectId}:`, error);
+    }
+  }
+
+  async subscribe(agentId: string): Promise<void> {
+    if (this.subscriptions.has(agentId)) {
+      return;
+    }
+
+    const listener: HubListener = (message, attempt) => {
+      this.deliver(agentId, message, attempt).catch((error) => {
+        this.reportError(error);
+      });
+    };
+    const channels = [this.getChannel(agentId), this.getChannel('broadcast')];
+    for (const channel of channels) {
+      hub.on(channel, listener);
+    }
+    this.subscriptions.set(agentId, channels.map(channel => [channel, listener]));
+
+    const messages = await this.store.getReplayableMessages(agentId);
+    for (const message of messages) {
+      this.dispatch(this.getChannel(agentId), message, 1);
+    }
+    if (messages.length > 0) {
+      this.emit('replayed', { agentId, count: messages.length });
+    }
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => {
+        this.sweepExpired().catch((error) => {
+          this.reportError(error);
+        });
+      }, this.pollIntervalMs);
+      this.sweepTimer.unref();
+    }
+  }
+
+  async unsubscribe(agentId: string): Promise<void> {
+    for (const [channel, listener] of this.subscriptions.get(agentId) || []) {
+      hub.off(channel, listener);
+    }
+    this.subscriptions.delete(agentId);
+    this.deliveries.dropAgent(agentId);
+    for (const key of Array.from(this.inFlight.keys())) {
+      if (key.startsWith(`${agentId}:`)) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    if (this.subscriptions.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async publish(message: Omit<Message, 'id' | 'createdAt'>): Promise<Message> {
+    const fullMessage: Message = {
+      ...message,
+      id: uuidv4(),
+      createdAt: new Date(),
+    };
+
+    await this.store.insertMessage(fullMessage);
+
+    const channel = fullMessage.toAgentId
+      ? this.getChannel(fullMessage.toAgentId)
+      : this.getChannel('broadcast');
+    this.dispatch(channel, fullMessage, 1);
+
+    return fullMessage;
+  }
+
+  async sendToAgent(
+    toAgentId: string,
+    type: MessageType,
+    payload: Record<string, unknown>,
+    fromAgentId?: string
+  ): Promise<Message> {
+    return this.publish({
+      projectId: this.projectId,
+      fromAgentId,
+      toAgentId,
+      type,
+      payload,
+      processed: false,
+    });
+  }
+
+  async broadcast(
+    type: MessageType,
+    payload: Record<string, unknown>,
+    fromAgentId?: string
+  ): Promise<Message> {
+    return this.publish({
+      projectId: this.projectId,
+      fromAgentId,
+      type,
+      channel: 'broadcast',
+      payload,
+      processed: false,
+    });
+  }
+
+  async ack(agentId: string, messageId: string): Promise<boolean> {
+    const delivery = this.deliveries.settle(agentId, messageId);
+    this.inFlight.delete(`${agentId}:${messageId}`);
+    if (!delivery) {
+      return false;
+    }
+
+    if (delivery.direct) {
+      await this.store.markProcessed(messageId);
+    }
+
+    return true;
+  }
+
+  async nack(agentId: string, messageId: string, error?: string): Promise<boolean> {
+    const delivery = this.deliveries.settle(agentId, messageId);
+    if (!delivery) {
+      return false;
+    }
+
+    const message = this.inFlight.get(`${agentId}:${messageId}`);
+    this.inFlight.delete(`${agentId}:${messageId}`);
+    if (!message) {
+      return true;
+    }
+
+    if (nextDeliveryAction(delivery.attempt, this.maxDeliveries) === 'retry') {
+      this.dispatch(this.getChannel(agentId), message, delivery.attempt + 1);
+      this.emit('redelivery', { message, agentId, attempt: delivery.attempt + 1, error });
+    } else {
+      await this.store.insertDeadLetter(message, agentId, delivery.attempt, error);
+      this.emit('dead_letter', { message, agentId, attempts: delivery.attempt, error });
+    }
+
+    return true;
+  }
+
+  async getUnprocessedMessages(agentId: string): Promise<Message[]> {
+    return this.store.getUnprocessedMessages(agentId);
+  }
+
+  async markProcessed(messageId: string): Promise<void> {
+    await this.store.markProcessed(messageId);
+  }
+
+  async getDeadLetters(options: { includeRequeued?: boolean; limit?: number } = {}): Promise<DeadLetter[]> {
+    return this.store.listDeadLetters(options);
+  }
+
+  async requeueDeadLetter(deadLetterId: string): Promise<DeadLetter> {
+    const deadLetter = await this.store.getDeadLetter(deadLetterId);
+    if (!deadLetter) {
+      throw new Error(`Dead letter not found: ${deadLetterId}`);
+    }
+    if (deadLetter.requeuedAt) {
+      throw new Error(`Dead letter already requeued: ${deadLetterId}`);
+    }
+
+    await this.store.markRequeued(deadLetterId);
+    this.dispatch(this.getChannel(deadLetter.agentId), deadLetter.message, 1);
+
+    this.emit('dead_letter:requeued', { deadLetterId, messageId: deadLetter.messageId, agentId: deadLetter.agentId });
+
+    return { ...deadLetter, requeuedAt: new Date() };
+  }
+
+  async close(): Promise<void> {
+    for (const agentId of Array.from(this.subscriptions.keys())) {
+      await this.unsubscribe(agentId);
+    }
+  }
+
+  // ============================================================================
+  // Delivery
+  // ============================================================================
+
+  /**
+   * Hand a message to the hub on the next tick, so publishers never run
+   * consumer code synchronously.
+   */
+  private dispatch(channel: string, message: Message, attempt: number): void {
+    setImmediate(() => hub.emit(channel, message, attempt));
+  }
+
+  private async deliver(agentId: string, message: Message, attempt: number): Promise<void> {
+    const direct = message.toAgentId === agentId;
+    const tracked = this.deliveries.track({
+      agentId,
+      messageId: message.id,
+      stream: this.getChannel(direct ? agentId : 'broadcast'),
+      entryId: String(attempt),
+      attempt,
+      direct,
+      deliveredAt: Date.now(),
+    });
+    if (!tracked) return;
+    this.inFlight.set(`${agentId}:${message.id}`, message);
+
+    const delivery: MessageDelivery = { agentId, attempt };
+
+    try {
+      await emitDelivery(this, ['message', message.type], message, delivery);
+    } catch (error) {
+      if (this.ackMode === 'auto') {
+        await this.nack(agentId, message.id, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    if (this.ackMode === 'auto') {
+      await this.ack(agentId, message.id);
+    }
+  }
+
+  private async sweepExpired(): Promise<void> {
+    for (const delivery of this.deliveries.expired(Date.now(), this.ackTimeoutMs)) {
+      await this.nack(delivery.agentId, delivery.messageId, 'Ack timeout');
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Message Store
+ * The database side of the message bus: the messages table and dead letters.
+ *
+ * Shared by the Redis and in-process buses, so both replay and dead-letter
+ * messages the same way.
+ */
+
+import { getDatabase } from '../../lib/database.js';
+import type { Message, MessageType } from '../../types/index.js';
+
+export interface DeadLetter {
+  id: string;
+  messageId: string;
+  agentId: string;
+  attempts: number;
+  lastError?: string;
+  deadLetteredAt: Date;
+  requeuedAt?: Date;
+  message: Message;
+}
+
+interface MessageRow {
+  id: string;
+  project_id: string;
+  from_agent_id: string | null;
+  to_agent_id: string | null;
+  type: MessageType;
+  channel: string | null;
+  payload: Record<string, unknown>;
+  processed: boolean;
+  processed_at: Date | null;
+  created_at: Date;
+}
+
+interface DeadLetterRow extends Omit<MessageRow, 'id'> {
+  id: string;
+  message_id: string;
+  agent_id: string;
+  attempts: number;
+  last_error: string | null;
+  dead_lettered_at: Date;
+  requeued_at: Date | null;
+}
+
+const DEAD_LETTER_SELECT = `
+  SELECT d.id, d.message_id, d.agent_id, d.attempts, d.last_error, d.dead_lettered_at, d.requeued_at,
+         m.project_id, m.from_agent_id, m.to_agent_id, m.type, m.channel, m.payload,
+         m.processed, m.processed_at, m.created_at
+  FROM message_dead_letters d
+  JOIN messages m ON m.id = d.message_id`;
+
+export class MessageStore {
+  constructor(private projectId: string) {}
+
+  async insertMessage(message: Message): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `INSERT INTO messages (id, project_id, from_agent_id, to_agent_id, type, channel, payload, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        message.id,
+        message.projectId,
+        message.fromAgentId || null,
+        message.toAgentId || null,
+        message.type,
+        message.channel || null,
+        JSON.stringify(message.payload),
+        message.createdAt,
+      ]
+    );
+  }
+
+  async getUnprocessedMessages(agentId: string): Promise<Message[]> {
+    const db = getDatabase();
+    const result = await db.query<Message>(
+      `SELECT * FROM messages
+       WHERE (to_agent_id = $1 OR channel = 'broadcast')
+       AND processed = false
+       ORDER BY created_at ASC`,
+      [agentId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * An agent's unprocessed direct messages, oldest first, leaving out the
+   * ones that are dead-lettered and not yet requeued.
+   */
+  async getReplayableMessages(agentId: string): Promise<Message[]> {
+    const db = getDatabase();
+    const result = await db.query<MessageRow>(
+      `SELECT m.* FROM messages m
+       WHERE m.project_id = $1 AND m.to_agent_id = $2 AND m.processed = false
+       AND NOT EXISTS (
+         SELECT 1 FROM message_dead_letters d
+         WHERE d.message_id = m.id AND d.agent_id = $2 AND d.requeued_at IS NULL
+       )
+       ORDER BY m.created_at ASC`,
+      [this.projectId, agentId]
+    );
+    return result.rows.map(row => this.mapRowToMessage(row));
+  }
+
+  async markProcessed(messageId: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `UPDATE messages SET processed = true, processed_at = NOW() WHERE id = $1`,
+      [messageId]
+    );
+  }
+
+  async insertDeadLetter(message: Message, agentId: string, attempts: number, error?: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `INSERT INTO message_dead_letters (message_id, project_id, agent_id, attempts, last_error)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [message.id, this.projectId, agentId, attempts, error || null]
+    );
+  }
+
+  async listDeadLetters(options: { includeRequeued?: boolean; limit?: number } = {}): Promise<DeadLetter[]> {
+    const db = getDatabase();
+    const result = await db.query<DeadLetterRow>(
+      `${DEAD_LETTER_SELECT}
+       WHERE d.project_id = $1 AND ($2 OR d.requeued_at IS NULL)
+       ORDER BY d.dead_lettered_at DESC
+       LIMIT $3`,
+      [this.projectId, options.includeRequeued || false, options.limit || 100]
+    );
+    return result.rows.map(row => this.mapRowToDeadLetter(row));
+  }
+
+  async getDeadLetter(deadLetterId: string): Promise<DeadLetter | null> {
+    const db = getDatabase();
+    const result = await db.query<DeadLetterRow>(
+      `${DEAD_LETTER_SELECT}
+       WHERE d.id = $1 AND d.project_id = $2`,
+      [deadLetterId, this.projectId]
+    );
+    return result.rows.length > 0 ? this.mapRowToDeadLetter(result.rows[0]) : null;
+  }
+
+  async markRequeued(deadLetterId: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      'UPDATE message_dead_letters SET requeued_at = NOW() WHERE id = $1',
+      [deadLetterId]
+    );
+  }
+
+  private mapRowToMessage(row: MessageRow): Message {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      fromAgentId: row.from_agent_id || undefined,
+      toAgentId: row.to_agent_id || undefined,
+      type: row.type,
+      channel: row.channel || undefined,
+      payload: row.payload,
+      processed: row.processed,
+      processedAt: row.processed_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapRowToDeadLetter(row: DeadLetterRow): DeadLetter {
+    return {
+      id: row.id,
+      messageId: row.message_id,
+      agentId: row.agent_id,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      deadLetteredAt: row.dead_lettered_at,
+      requeuedAt: row.requeued_at || undefined,
+      message: this.mapRowToMessage({ ...row, id: row.message_id }),
+    };
+  }
+}
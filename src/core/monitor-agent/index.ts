@@ -5,6 +5,7 @@
  * - Perform health checks on running agents
  * - Monitor resource usage (CPU, memory, tokens, costs)
  * - Detect stuck or failing agents
+ * - Alert on agents breaking out of their sandbox profile
  * - Send alerts based on configurable thresholds
  * - Generate health reports
  *
@@ -17,6 +18,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../../lib/database.js';
 import { getLearningSystem } from '../learning/index.js';
 import { getCache } from '../../lib/cache.js';
+import { getSandboxEnforcer, type SandboxViolation } from '../agent-manager/sandbox.js';
 import type { AgentType, AgentStatus } from '../../types/index.js';
 
 /**
@@ -53,6 +55,7 @@ export enum AlertType {
   PERFORMANCE_DEGRADED = 'performance_degraded',
   HEALTH_CHECK_FAILED = 'health_check_failed',
   ANOMALY_DETECTED = 'anomaly_detected',
+  SANDBOX_VIOLATION = 'sandbox_violation',
 }
 
 /**
@@ -307,6 +310,7 @@ export class MonitorAgent extends EventEmitter {
       }
     }, this.checkIntervalMs);
 
+    getSandboxEnforcer().on('violation', this.onSandboxViolation);
     this.emit('monitoring:started', { intervalMs: this.checkIntervalMs });
   }
 
@@ -319,9 +323,40 @@ export class MonitorAgent extends EventEmitter {
       this.checkInterval = undefined;
     }
 
+    getSandboxEnforcer().off('violation', this.onSandboxViolation);
     this.emit('monitoring:stopped');
   }
 
+  /**
+   * Alert on sandbox violations by this project's agents. Attempts to
+   * escape the jail are critical; running over a resource limit is a
+   * warning, since the agent has already been stopped.
+   */
+  private onSandboxViolation = async (violation: SandboxViolation): Promise<void> => {
+    if (violation.projectId !== this.projectId) return;
+
+    try {
+      await this.createAlert({
+        agentId: violation.agentId,
+        level: violation.kind === 'filesystem' || violation.kind === 'network'
+          ? AlertLevel.CRITICAL
+          : AlertLevel.WARNING,
+        type: AlertType.SANDBOX_VIOLATION,
+        title: `${violation.agentType} agent violated its sandbox (${violation.kind})`,
+        message: violation.message,
+        context: {
+          kind: violation.kind,
+          pid: violation.pid,
+          limit: violation.limit,
+          actual: violation.actual,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.emit('check:error', { error: errorMessage });
+    }
+  };
+
   /**
    * Perform a complete health check
    */
@@ -3,8 +3,20 @@ import { v4 as uuidv4 } from 'uuid';
 import type { AgentType, Task, TaskStatus } from '../../types/index.js';
 import { getDatabase } from '../../lib/database.js';
 import { AgentManager, RLAgent, SpawnAgentOptions } from '../agent-manager/index.js';
-import { MessageBus } from '../message-bus/index.js';
+import type { MessageBusAdapter } from '../message-bus/index.js';
 import { getLearningSystem } from '../learning/index.js';
+import { AgentCoordinator, TaskMergeStatus, createCoordinator } from '../coordination/index.js';
+import { DagScheduler, computeCriticalPaths, compareByCriticalPath } from './scheduler.js';
+import {
+  FailurePolicy,
+  RetryBackoffOptions,
+  SkippedTask,
+  DEFAULT_MAX_RETRIES,
+  resolveFailurePolicy,
+  blocksDependents,
+  getBackoffDelay,
+  findBlockingUpstream,
+} from './policies.js';
 
 export interface TaskDefinition {
   id?: string;
@@ -15,38 +27,73 @@ export interface TaskDefinition {
   dependencies?: string[];  // Task IDs that must complete first
   priority?: number;        // Higher = more important
   estimatedTokens?: number;
+  estimatedDurationMs?: number;
   files?: string[];         // Files this task will touch
+  failurePolicy?: FailurePolicy;  // Overrides the plan's policy
+  maxRetries?: number;      // Attempts after the first for retry-with-backoff
+  optional?: boolean;       // Failure neither fails the plan nor blocks dependents
 }
 
-export interface ParallelExecutionPlan {
+export interface ExecutionPolicyOptions {
+  failurePolicy?: FailurePolicy;
+  retryBackoff?: RetryBackoffOptions;
+  compensation?: TaskDefinition;  // Runs when a phase has a required task fail
+}
+
+export interface ParallelExecutionPlan extends ExecutionPolicyOptions {
   phases: Array<{
     phaseNumber: number;
     tasks: TaskDefinition[];
     parallelAgents: number;
+    compensation?: TaskDefinition;  // Overrides the plan's compensation task
   }>;
   totalTasks: number;
   estimatedParallelism: number;
 }
 
+export interface PlanExecutionResult {
+  success: boolean;
+  completed: number;
+  failed: number;
+  duration: number;
+  aborted: boolean;
+  skipped: SkippedTask[];
+  optionalFailures: string[];
+  retries: number;
+  compensations: Array<{ phaseNumber: number; taskId: string; success: boolean }>;
+}
+
+type PhaseResult = { taskId: string; success: boolean; agentId: string };
+
 export interface OrchestratorOptions {
   projectId: string;
   projectDir: string;
   agentManager: AgentManager;
-  messageBus: MessageBus;
+  messageBus: MessageBusAdapter;
   maxParallelAgents?: number;
+  coordinator?: AgentCoordinator;  // Records merge conflicts from agent worktrees
+  mergePollIntervalMs?: number;    // How often a conflicted merge is checked for a resolution
+  mergeTimeoutMs?: number;         // How long a conflicted task may wait before it fails
 }
 
+const DEFAULT_MERGE_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MERGE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
 /**
  * The Orchestrator coordinates parallel agent execution.
  * It breaks down work into phases, spawns agents in parallel,
+ * merges each agent's worktree back when its task completes,
  * and tracks outcomes for RL feedback.
  */
 export class Orchestrator extends EventEmitter {
   private projectId: string;
   private projectDir: string;
   private agentManager: AgentManager;
-  private messageBus: MessageBus;
+  private messageBus: MessageBusAdapter;
   private maxParallelAgents: number;
+  private coordinator: AgentCoordinator;
+  private mergePollIntervalMs: number;
+  private mergeTimeoutMs: number;
 
   private activeTasks: Map<string, { task: Task; agentId?: string }> = new Map();
   private completedTasks: Set<string> = new Set();
@@ -63,6 +110,12 @@ export class Orchestrator extends EventEmitter {
     this.agentManager = options.agentManager;
     this.messageBus = options.messageBus;
     this.maxParallelAgents = options.maxParallelAgents || 5;
+    this.coordinator = options.coordinator || createCoordinator({
+      projectId: options.projectId,
+      messageBus: options.messageBus,
+    });
+    this.mergePollIntervalMs = options.mergePollIntervalMs ?? DEFAULT_MERGE_POLL_INTERVAL_MS;
+    this.mergeTimeoutMs = options.mergeTimeoutMs ?? DEFAULT_MERGE_TIMEOUT_MS;
   }
 
   /**
@@ -104,9 +157,11 @@ export class Orchestrator extends EventEmitter {
   }
 
   /**
-   * Analyze tasks and create a parallel execution plan
+   * Analyze tasks and create a parallel execution plan.
+   * Phases group tasks by dependency depth; executePlan() doesn't wait for
+   * a phase to drain but starts each task as soon as its dependencies finish.
    */
-  createExecutionPlan(tasks: TaskDefinition[]): ParallelExecutionPlan {
+  createExecutionPlan(tasks: TaskDefinition[], policy: ExecutionPolicyOptions = {}): ParallelExecutionPlan {
     // Build dependency graph
     const taskMap = new Map<string, TaskDefinition>();
     const dependencyCount = new Map<string, number>();
@@ -126,6 +181,9 @@ export class Orchestrator extends EventEmitter {
       }
     }
 
+    // Longest remaining chain of work per task (also rejects cycles)
+    const criticalPaths = computeCriticalPaths(tasks);
+
     // Topological sort into phases
     const phases: ParallelExecutionPlan['phases'] = [];
     const remaining = new Set(taskMap.keys());
@@ -144,8 +202,8 @@ export class Orchestrator extends EventEmitter {
         throw new Error('Circular dependency detected in task graph');
       }
 
-      // Sort by priority (higher first)
-      ready.sort((a, b) => (b.priority || 0) - (a.priority || 0));
+      // Most critical first, then by priority
+      ready.sort(compareByCriticalPath(criticalPaths));
 
       // Limit to max parallel agents
       const phaseTasks = ready.slice(0, this.maxParallelAgents);
@@ -172,93 +230,309 @@ export class Orchestrator extends EventEmitter {
       phases,
       totalTasks: tasks.length,
       estimatedParallelism: totalParallelism,
+      ...policy,
     };
   }
 
   /**
-   * Execute a plan by spawning agents in parallel phases
+   * Execute a plan with a dynamic DAG scheduler: any task starts as soon as
+   * its dependencies finish, up to maxParallelAgents, most critical first.
+   * Phase events still fire per plan phase so progress reporting is unchanged.
+   * Failures are handled per task according to its failure policy.
    */
-  async executePlan(plan: ParallelExecutionPlan): Promise<{
-    success: boolean;
-    completed: number;
-    failed: number;
-    duration: number;
-  }> {
+  async executePlan(plan: ParallelExecutionPlan): Promise<PlanExecutionResult> {
     const startTime = Date.now();
 
-    try {
-      this.emit('plan:started', {
-        totalPhases: plan.phases.length,
-        totalTasks: plan.totalTasks,
-      });
+    const skipped: SkippedTask[] = [];
+    const optionalFailures: string[] = [];
+    const compensations: PlanExecutionResult['compensations'] = [];
+    const blocked = new Set<string>();
+    let retries = 0;
+    let abortedBy: string | undefined;
+
+    const buildResult = (success: boolean): PlanExecutionResult => ({
+      success,
+      completed: this.completedTasks.size,
+      failed: this.failedTasks.size,
+      duration: Date.now() - startTime,
+      aborted: abortedBy !== undefined,
+      skipped,
+      optionalFailures,
+      retries,
+      compensations,
+    });
 
+    try {
+      const tasks = plan.phases.flatMap(phase => phase.tasks);
+      const scheduler = new DagScheduler(tasks, { maxParallel: this.maxParallelAgents });
+
+      // Track each plan phase so phase events fire as its tasks settle
+      const phaseOf = new Map<string, ParallelExecutionPlan['phases'][0]>();
+      const phaseProgress = new Map<number, {
+        started: boolean;
+        settled: number;
+        succeeded: number;
+        failures: PhaseResult[];
+        requiredFailures: TaskDefinition[];
+      }>();
       for (const phase of plan.phases) {
-        this.emit('phase:started', {
-          phaseNumber: phase.phaseNumber,
-          taskCount: phase.tasks.length,
+        phaseProgress.set(phase.phaseNumber, {
+          started: false, settled: 0, succeeded: 0, failures: [], requiredFailures: [],
         });
+        for (const task of phase.tasks) {
+          phaseOf.set(task.id!, phase);
+        }
+      }
+
+      const startPhase = (phase: ParallelExecutionPlan['phases'][0]) => {
+        const progress = phaseProgress.get(phase.phaseNumber)!;
+        if (progress.started) return;
+        progress.started = true;
+        this.emit('phase:started', { phaseNumber: phase.phaseNumber, taskCount: phase.tasks.length });
+      };
 
-        // Spawn all agents for this phase in parallel
-        const results = await this.executePhase(phase);
+      const settle = async (task: TaskDefinition, result?: PhaseResult) => {
+        const phase = phaseOf.get(task.id!)!;
+        const progress = phaseProgress.get(phase.phaseNumber)!;
+        startPhase(phase);
 
-        // Check for failures
-        const failures = results.filter(r => !r.success);
-        if (failures.length > 0) {
+        progress.settled++;
+        if (result?.success) {
+          progress.succeeded++;
+        } else if (result) {
+          progress.failures.push(result);
+        }
+
+        if (progress.settled < phase.tasks.length) return;
+
+        if (progress.failures.length > 0) {
           this.emit('phase:failed', {
             phaseNumber: phase.phaseNumber,
-            failures: failures.map(f => f.taskId),
+            failures: progress.failures.map(f => f.taskId),
+            optional: progress.failures.length - progress.requiredFailures.length,
           });
+        }
 
-          // Decide whether to continue or abort
-          // For now, we continue with remaining phases
+        // Give the phase a chance to undo partial work
+        const compensation = phase.compensation || plan.compensation;
+        if (progress.requiredFailures.length > 0 && compensation) {
+          compensations.push(await this.runCompensation(compensation, phase.phaseNumber, progress.requiredFailures));
         }
 
         this.emit('phase:completed', {
           phaseNumber: phase.phaseNumber,
-          succeeded: results.filter(r => r.success).length,
-          failed: failures.length,
+          succeeded: progress.succeeded,
+          failed: progress.failures.length,
         });
+      };
+
+      const skip = async (task: TaskDefinition, reason: SkippedTask['reason'], blockedBy: string) => {
+        blocked.add(task.id!);
+        skipped.push({ taskId: task.id!, title: task.title, reason, blockedBy });
+        this.emit('task:skipped', { taskId: task.id, reason, blockedBy });
+        scheduler.finish(task.id!);
+        await settle(task);
+      };
+
+      const complete = async (task: TaskDefinition, result: PhaseResult) => {
+        const phase = phaseOf.get(task.id!)!;
+
+        if (!result.success) {
+          if (task.optional) {
+            optionalFailures.push(task.id!);
+          } else {
+            phaseProgress.get(phase.phaseNumber)!.requiredFailures.push(task);
+            if (blocksDependents(task, plan.failurePolicy)) {
+              blocked.add(task.id!);
+            }
+            if (resolveFailurePolicy(task, plan.failurePolicy) === 'fail-fast' && !abortedBy) {
+              abortedBy = task.id!;
+              this.emit('plan:aborted', { phaseNumber: phase.phaseNumber, failedTaskId: abortedBy });
+            }
+          }
+        }
+
+        scheduler.finish(task.id!);
+        await settle(task, result);
+
+        // After a fail-fast failure nothing else starts
+        if (abortedBy) {
+          for (const pending of scheduler.cancelPending()) {
+            await skip(pending, 'fail_fast', abortedBy);
+          }
+        }
+      };
+
+      this.emit('plan:started', {
+        totalPhases: plan.phases.length,
+        totalTasks: plan.totalTasks,
+        failurePolicy: resolveFailurePolicy({}, plan.failurePolicy),
+      });
+
+      const running = new Map<string, Promise<void>>();
+
+      while (!scheduler.isComplete()) {
+        let ready = scheduler.takeReady();
+
+        // Skipping a task can make more tasks ready, so drain until stable
+        while (ready.length > 0) {
+          for (const task of ready) {
+            const blocker = findBlockingUpstream(task, blocked);
+            if (blocker) {
+              await skip(task, 'upstream_failure', blocker);
+              continue;
+            }
+
+            const phase = phaseOf.get(task.id!)!;
+            startPhase(phase);
+            this.emit('task:started', {
+              taskId: task.id,
+              phaseNumber: phase.phaseNumber,
+              criticalPathMs: scheduler.getCriticalPath(task.id!),
+            });
+
+            const execution = this.runTask(task, phase.phaseNumber, plan)
+              .then(async ({ result, attempts }) => {
+                retries += attempts;
+                await complete(task, result);
+              })
+              .finally(() => running.delete(task.id!));
+            running.set(task.id!, execution);
+          }
+          ready = scheduler.takeReady();
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
       }
 
-      const duration = Date.now() - startTime;
-      const success = this.failedTasks.size === 0;
+      await Promise.all(running.values());
+
+      const optional = new Set(optionalFailures);
+      const success = Array.from(this.failedTasks).every(taskId => optional.has(taskId)) && skipped.length === 0;
+      const result = buildResult(success);
 
       // Record orchestrator outcome
-      await this.recordOrchestratorOutcome(success, duration, plan);
+      await this.recordOrchestratorOutcome(success, result.duration, plan);
 
       this.emit('plan:completed', {
         success,
-        completed: this.completedTasks.size,
-        failed: this.failedTasks.size,
-        duration,
+        completed: result.completed,
+        failed: result.failed,
+        skipped: skipped.length,
+        aborted: result.aborted,
+        duration: result.duration,
       });
 
-      return {
-        success,
-        completed: this.completedTasks.size,
-        failed: this.failedTasks.size,
-        duration,
-      };
+      return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Failed to execute plan for project ${this.projectId}:`, errorMessage);
       this.emit('plan:error', { error: errorMessage });
 
       return {
-        success: false,
-        completed: this.completedTasks.size,
+        ...buildResult(false),
         failed: this.failedTasks.size + this.activeTasks.size,
-        duration: Date.now() - startTime,
       };
     }
   }
 
+  /**
+   * Run one task on its own agent, retrying per its failure policy.
+   */
+  private async runTask(
+    task: TaskDefinition,
+    phaseNumber: number,
+    plan: ParallelExecutionPlan
+  ): Promise<{ result: PhaseResult; attempts: number }> {
+    const [result] = await this.executePhase({ phaseNumber, tasks: [task], parallelAgents: 1 });
+
+    if (result.success || resolveFailurePolicy(task, plan.failurePolicy) !== 'retry-with-backoff') {
+      return { result, attempts: 0 };
+    }
+
+    return this.retryTask(task, phaseNumber, plan.retryBackoff);
+  }
+
+  /**
+   * Re-run a failed task with exponential backoff, up to its maxRetries.
+   */
+  private async retryTask(
+    task: TaskDefinition,
+    phaseNumber: number,
+    backoff?: RetryBackoffOptions
+  ): Promise<{ result: PhaseResult; attempts: number }> {
+    const maxRetries = task.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let result: PhaseResult = { taskId: task.id!, success: false, agentId: '' };
+    let attempts = 0;
+
+    while (attempts < maxRetries) {
+      attempts++;
+      const delayMs = getBackoffDelay(attempts, backoff);
+      this.emit('task:retry', { taskId: task.id, attempt: attempts, maxRetries, delayMs });
+
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+
+      this.failedTasks.delete(task.id!);
+      await this.recordRetry(task.id!);
+
+      [result] = await this.executePhase({ phaseNumber, tasks: [task], parallelAgents: 1 }, attempts);
+      if (result.success) break;
+    }
+
+    return { result, attempts };
+  }
+
+  /**
+   * Run a phase's compensation task. Its outcome is reported separately and
+   * does not count towards the plan's completed/failed totals.
+   */
+  private async runCompensation(
+    compensation: TaskDefinition,
+    phaseNumber: number,
+    failedTasks: TaskDefinition[]
+  ): Promise<{ phaseNumber: number; taskId: string; success: boolean }> {
+    const task: TaskDefinition = {
+      ...compensation,
+      id: uuidv4(),
+      dependencies: [],
+      description: `${compensation.description}\n\nFailed tasks:\n${failedTasks.map(t => `- ${t.title}`).join('\n')}`,
+    };
+
+    this.emit('phase:compensating', {
+      phaseNumber,
+      taskId: task.id,
+      failedTasks: failedTasks.map(t => t.id),
+    });
+
+    const [result] = await this.executePhase({ phaseNumber, tasks: [task], parallelAgents: 1 });
+    this.completedTasks.delete(task.id!);
+    this.failedTasks.delete(task.id!);
+
+    this.emit('phase:compensated', { phaseNumber, taskId: task.id, success: result.success });
+
+    return { phaseNumber, taskId: task.id!, success: result.success };
+  }
+
+  private async recordRetry(taskId: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.query(
+        `UPDATE tasks SET retry_count = COALESCE(retry_count, 0) + 1, updated_at = NOW() WHERE id = $1`,
+        [taskId]
+      );
+    } catch (error) {
+      console.error(`Failed to record retry for task ${taskId}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
   /**
    * Execute a single phase by spawning agents in parallel
    */
   private async executePhase(
-    phase: ParallelExecutionPlan['phases'][0]
-  ): Promise<Array<{ taskId: string; success: boolean; agentId: string }>> {
+    phase: ParallelExecutionPlan['phases'][0],
+    retryCount = 0
+  ): Promise<PhaseResult[]> {
     try {
       const db = getDatabase();
 
@@ -274,17 +548,17 @@ export class Orchestrator extends EventEmitter {
           status: 'pending',
           priority: taskDef.priority || 5,
           acceptanceCriteria: [],
-          retryCount: 0,
-          maxRetries: 3,
+          retryCount,
+          maxRetries: taskDef.maxRetries ?? DEFAULT_MAX_RETRIES,
           createdAt: new Date(),
           updatedAt: new Date(),
         };
 
         await db.query(
-          `INSERT INTO tasks (id, project_id, title, description, type, status, priority, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          `INSERT INTO tasks (id, project_id, title, description, type, status, priority, max_retries, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
            ON CONFLICT (id) DO UPDATE SET status = 'pending', updated_at = NOW()`,
-          [task.id, task.projectId, task.title, task.description, task.type, task.status, task.priority, task.createdAt, task.updatedAt]
+          [task.id, task.projectId, task.title, task.description, task.type, task.status, task.priority, task.maxRetries, task.createdAt, task.updatedAt]
         );
 
         taskRecords.push(task);
@@ -296,6 +570,8 @@ export class Orchestrator extends EventEmitter {
         type: taskDef.agentType,
         taskId: taskDef.id,
         taskDescription: `${taskDef.title}\n\n${taskDef.description}`,
+        taskType: taskDef.type,
+        taskPriority: taskDef.priority || 5,
         parentAgentId: this.orchestratorAgentId,
       }));
 
@@ -317,6 +593,19 @@ export class Orchestrator extends EventEmitter {
       // Wait for all agents to complete
       const results = await this.waitForAgents(agents, taskRecords);
 
+      // Merge completed work back one task at a time. Work that cannot be
+      // merged fails the task, so dependents never build on a branch without it.
+      for (const result of results) {
+        if (result.success) {
+          const taskDef = phase.tasks.find(t => t.id === result.taskId);
+          if (!await this.mergeTaskWork(result.taskId, result.agentId, taskDef?.title)) {
+            result.success = false;
+            this.completedTasks.delete(result.taskId);
+            this.failedTasks.add(result.taskId);
+          }
+        }
+      }
+
       return results;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -421,6 +710,85 @@ export class Orchestrator extends EventEmitter {
     return results;
   }
 
+  /**
+   * Merge a completed task's worktree branch into the integration branch.
+   * Conflicts are recorded with the coordinator, and the task is held as
+   * blocked until they are resolved. Returns whether the work was merged.
+   */
+  private async mergeTaskWork(taskId: string, agentId: string, title?: string): Promise<boolean> {
+    const worktrees = this.agentManager.getWorktreeManager();
+    if (!worktrees?.getWorktree(agentId)) return true;
+
+    try {
+      const attemptedAt = new Date();
+      const merge = await worktrees.mergeBack(agentId, title);
+
+      if (merge.status === 'conflict') {
+        const conflicts = await this.coordinator.recordMergeConflicts(
+          merge,
+          worktrees.getProjectDir(),
+          taskId
+        );
+        this.emit('task:conflict', {
+          taskId,
+          agentId,
+          branch: merge.sourceBranch,
+          conflicts: conflicts.map(c => ({ id: c.id, filePath: c.filePath })),
+        });
+
+        await this.setTaskStatus(taskId, 'blocked');
+        const outcome = await this.waitForMergeResolution(taskId, attemptedAt);
+        if (outcome !== 'merged') {
+          await this.setTaskStatus(taskId, 'failed');
+          this.emit('task:merge:failed', { taskId, agentId, error: `Merge ${outcome}` });
+          return false;
+        }
+
+        await this.setTaskStatus(taskId, 'completed');
+      }
+
+      this.emit('task:merged', { taskId, agentId, branch: merge.sourceBranch, commit: merge.commit });
+
+      // The branch is merged, so the checkout is no longer needed
+      await worktrees.removeWorktree(agentId);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to merge work for task ${taskId}:`, errorMessage);
+      this.emit('task:merge:failed', { taskId, agentId, error: errorMessage });
+      return false;
+    }
+  }
+
+  /**
+   * Wait for a task's merge conflicts to be resolved through the
+   * coordinator, giving up after mergeTimeoutMs.
+   */
+  private async waitForMergeResolution(
+    taskId: string,
+    since: Date
+  ): Promise<Exclude<TaskMergeStatus, 'pending'> | 'timed out'> {
+    const deadline = Date.now() + this.mergeTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const status = await this.coordinator.getTaskMergeStatus(taskId, since);
+      if (status !== 'pending') {
+        return status;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.mergePollIntervalMs));
+    }
+
+    return 'timed out';
+  }
+
+  private async setTaskStatus(taskId: string, status: TaskStatus): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `UPDATE tasks SET status = $2, updated_at = NOW() WHERE id = $1`,
+      [taskId, status]
+    );
+  }
+
   /**
    * Record the orchestrator's own outcome for RL feedback
    */
@@ -567,7 +935,7 @@ export async function executeProjectWithParallelAgents(
   projectDir: string,
   tasks: TaskDefinition[],
   agentManager: AgentManager,
-  messageBus: MessageBus,
+  messageBus: MessageBusAdapter,
   options: { maxParallelAgents?: number } = {}
 ): Promise<{
   success: boolean;
@@ -0,0 +1,65 @@
+/**
+ * Tests for Orchestrator Execution Policies
+ * Failure policy resolution, backoff and upstream blocking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveFailurePolicy,
+  blocksDependents,
+  getBackoffDelay,
+  findBlockingUpstream,
+} from './policies.js';
+
+describe('Execution Policies', () => {
+  describe('resolveFailurePolicy', () => {
+    it('should default to continue', () => {
+      expect(resolveFailurePolicy({})).toBe('continue');
+    });
+
+    it('should prefer the task policy over the plan policy', () => {
+      expect(resolveFailurePolicy({}, 'fail-fast')).toBe('fail-fast');
+      expect(resolveFailurePolicy({ failurePolicy: 'skip-dependents' }, 'fail-fast')).toBe('skip-dependents');
+    });
+  });
+
+  describe('blocksDependents', () => {
+    it('should let dependents run under continue', () => {
+      expect(blocksDependents({}, 'continue')).toBe(false);
+    });
+
+    it('should block dependents for skip-dependents, retry-with-backoff and fail-fast', () => {
+      expect(blocksDependents({ failurePolicy: 'skip-dependents' })).toBe(true);
+      expect(blocksDependents({}, 'retry-with-backoff')).toBe(true);
+      expect(blocksDependents({}, 'fail-fast')).toBe(true);
+    });
+
+    it('should never block dependents of optional tasks', () => {
+      expect(blocksDependents({ optional: true, failurePolicy: 'skip-dependents' })).toBe(false);
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially from the initial delay', () => {
+      expect(getBackoffDelay(1)).toBe(1000);
+      expect(getBackoffDelay(2)).toBe(2000);
+      expect(getBackoffDelay(3)).toBe(4000);
+    });
+
+    it('should respect custom options and the maximum delay', () => {
+      const options = { initialDelayMs: 100, multiplier: 3, maxDelayMs: 500 };
+      expect(getBackoffDelay(1, options)).toBe(100);
+      expect(getBackoffDelay(2, options)).toBe(300);
+      expect(getBackoffDelay(3, options)).toBe(500);
+    });
+  });
+
+  describe('findBlockingUpstream', () => {
+    it('should return the first blocked dependency', () => {
+      const blocked = new Set(['b']);
+      expect(findBlockingUpstream({ dependencies: ['a', 'b'] }, blocked)).toBe('b');
+      expect(findBlockingUpstream({ dependencies: ['a'] }, blocked)).toBeUndefined();
+      expect(findBlockingUpstream({}, blocked)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Orchestrator Execution Policies
+ *
+ * Decides what happens when a task fails:
+ * - fail-fast: stop the plan; every task that hasn't started is skipped
+ * - continue: keep going, dependents still run (the original behaviour)
+ * - skip-dependents: keep going, but skip everything downstream of the failure
+ * - retry-with-backoff: retry up to the task's maxRetries with exponential
+ *   backoff; if it still fails, its dependents are skipped
+ *
+ * Optional tasks never fail the plan and never block their dependents.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type FailurePolicy = 'fail-fast' | 'continue' | 'skip-dependents' | 'retry-with-backoff';
+
+export const FAILURE_POLICIES: FailurePolicy[] = ['fail-fast', 'continue', 'skip-dependents', 'retry-with-backoff'];
+
+export const DEFAULT_FAILURE_POLICY: FailurePolicy = 'continue';
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+export interface RetryBackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+}
+
+export interface PolicyTask {
+  id?: string;
+  dependencies?: string[];
+  failurePolicy?: FailurePolicy;
+  optional?: boolean;
+  maxRetries?: number;
+}
+
+export interface SkippedTask {
+  taskId: string;
+  title: string;
+  reason: 'upstream_failure' | 'fail_fast';
+  blockedBy: string;  // The failed (or skipped) task that caused the skip
+}
+
+const DEFAULT_BACKOFF: Required<RetryBackoffOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+};
+
+// ============================================================================
+// Policy helpers
+// ============================================================================
+
+/**
+ * The effective policy for a task: its own, then the plan's, then the default.
+ */
+export function resolveFailurePolicy(task: PolicyTask, planPolicy?: FailurePolicy): FailurePolicy {
+  return task.failurePolicy || planPolicy || DEFAULT_FAILURE_POLICY;
+}
+
+/**
+ * Whether a permanently failed task should stop its dependents from running.
+ */
+export function blocksDependents(task: PolicyTask, planPolicy?: FailurePolicy): boolean {
+  if (task.optional) return false;
+
+  const policy = resolveFailurePolicy(task, planPolicy);
+  return policy === 'skip-dependents' || policy === 'retry-with-backoff' || policy === 'fail-fast';
+}
+
+/**
+ * Delay before retry attempt `attempt` (1-based).
+ */
+export function getBackoffDelay(attempt: number, options: RetryBackoffOptions = {}): number {
+  const { initialDelayMs, maxDelayMs, multiplier } = { ...DEFAULT_BACKOFF, ...options };
+  const delay = initialDelayMs * Math.pow(multiplier, Math.max(0, attempt - 1));
+  return Math.min(maxDelayMs, delay);
+}
+
+/**
+ * Find the dependency that prevents this task from running, if any.
+ * `blocked` holds tasks that failed with a blocking policy or were skipped.
+ */
+export function findBlockingUpstream(task: PolicyTask, blocked: Set<string>): string | undefined {
+  for (const dependency of task.dependencies || []) {
+    if (blocked.has(dependency)) {
+      return dependency;
+    }
+  }
+  return undefined;
+}
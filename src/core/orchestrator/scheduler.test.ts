@@ -0,0 +1,110 @@
+/**
+ * Tests for DAG Scheduler
+ * Critical path estimation and dependency-driven dispatch
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DagScheduler,
+  computeCriticalPaths,
+  estimateTaskDuration,
+  DEFAULT_TASK_DURATION_MS,
+  SchedulableTask,
+} from './scheduler.js';
+
+const ids = (tasks: SchedulableTask[]) => tasks.map(t => t.id);
+
+describe('DAG Scheduler', () => {
+  describe('estimateTaskDuration', () => {
+    it('should prefer explicit durations over token estimates', () => {
+      expect(estimateTaskDuration({ estimatedDurationMs: 500, estimatedTokens: 5000 })).toBe(500);
+    });
+
+    it('should convert token estimates to durations', () => {
+      expect(estimateTaskDuration({ estimatedTokens: 5000 })).toBe(100000);
+      expect(estimateTaskDuration({})).toBe(DEFAULT_TASK_DURATION_MS);
+    });
+  });
+
+  describe('computeCriticalPaths', () => {
+    it('should sum the longest chain of dependents', () => {
+      const paths = computeCriticalPaths([
+        { id: 'a', estimatedDurationMs: 10 },
+        { id: 'b', dependencies: ['a'], estimatedDurationMs: 100 },
+        { id: 'c', dependencies: ['a'], estimatedDurationMs: 5 },
+        { id: 'd', dependencies: ['b', 'c'], estimatedDurationMs: 1 },
+      ]);
+
+      expect(paths.get('d')).toBe(1);
+      expect(paths.get('b')).toBe(101);
+      expect(paths.get('c')).toBe(6);
+      expect(paths.get('a')).toBe(111);
+    });
+
+    it('should ignore dependencies outside the graph', () => {
+      const paths = computeCriticalPaths([{ id: 'a', dependencies: ['missing'], estimatedDurationMs: 3 }]);
+      expect(paths.get('a')).toBe(3);
+    });
+
+    it('should reject cycles', () => {
+      expect(() => computeCriticalPaths([
+        { id: 'a', dependencies: ['b'] },
+        { id: 'b', dependencies: ['a'] },
+      ])).toThrow('Circular dependency');
+    });
+  });
+
+  describe('DagScheduler', () => {
+    it('should start tasks as soon as their own dependencies finish', () => {
+      const scheduler = new DagScheduler([
+        { id: 'slow', estimatedDurationMs: 1000 },
+        { id: 'fast', estimatedDurationMs: 10 },
+        { id: 'after-fast', dependencies: ['fast'], estimatedDurationMs: 10 },
+      ], { maxParallel: 3 });
+
+      expect(ids(scheduler.takeReady())).toEqual(['slow', 'fast']);
+
+      // 'slow' is still running, but 'after-fast' no longer waits for it
+      scheduler.finish('fast');
+      expect(ids(scheduler.takeReady())).toEqual(['after-fast']);
+    });
+
+    it('should respect the parallelism limit', () => {
+      const scheduler = new DagScheduler([{ id: 'a' }, { id: 'b' }, { id: 'c' }], { maxParallel: 2 });
+
+      expect(scheduler.takeReady()).toHaveLength(2);
+      expect(scheduler.takeReady()).toHaveLength(0);
+      expect(scheduler.getRunningCount()).toBe(2);
+    });
+
+    it('should dispatch the longest critical path first, then priority', () => {
+      const scheduler = new DagScheduler([
+        { id: 'leaf', estimatedDurationMs: 10, priority: 10 },
+        { id: 'head', estimatedDurationMs: 10 },
+        { id: 'tail', dependencies: ['head'], estimatedDurationMs: 500 },
+        { id: 'urgent', estimatedDurationMs: 10, priority: 20 },
+      ], { maxParallel: 1 });
+
+      expect(ids(scheduler.takeReady())).toEqual(['head']);
+      scheduler.finish('head');
+      expect(ids(scheduler.takeReady())).toEqual(['tail']);
+      scheduler.finish('tail');
+      expect(ids(scheduler.takeReady())).toEqual(['urgent']);
+    });
+
+    it('should cancel tasks that have not started', () => {
+      const scheduler = new DagScheduler([
+        { id: 'a' },
+        { id: 'b', dependencies: ['a'] },
+        { id: 'c', dependencies: ['b'] },
+      ], { maxParallel: 2 });
+
+      scheduler.takeReady();
+      expect(ids(scheduler.cancelPending())).toEqual(['b', 'c']);
+      expect(scheduler.isComplete()).toBe(false);
+
+      scheduler.finish('a');
+      expect(scheduler.isComplete()).toBe(true);
+    });
+  });
+});
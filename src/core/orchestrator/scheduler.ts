@@ -0,0 +1,182 @@
+/**
+ * DAG Scheduler
+ *
+ * Starts any task as soon as all of its dependencies have finished, up to a
+ * parallelism limit, instead of waiting for a whole phase to drain. Ready
+ * tasks are ordered by critical path: the longest estimated chain of work
+ * that still depends on the task goes first, then explicit priority.
+ *
+ * The scheduler only tracks the graph. Callers decide what a failure means
+ * for dependents (see policies.ts) and report every task back with finish().
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface SchedulableTask {
+  id?: string;
+  dependencies?: string[];
+  priority?: number;             // Higher = more important
+  estimatedDurationMs?: number;
+  estimatedTokens?: number;
+}
+
+export interface DagSchedulerOptions {
+  maxParallel: number;
+}
+
+// Rough model throughput used to turn token estimates into durations
+export const ESTIMATED_TOKENS_PER_SECOND = 50;
+
+// Weight for tasks without any estimate
+export const DEFAULT_TASK_DURATION_MS = 60 * 1000;
+
+// ============================================================================
+// Critical path
+// ============================================================================
+
+/**
+ * Estimated duration of a single task. Durations win over token estimates.
+ */
+export function estimateTaskDuration(task: SchedulableTask): number {
+  if (task.estimatedDurationMs !== undefined) {
+    return task.estimatedDurationMs;
+  }
+  if (task.estimatedTokens !== undefined) {
+    return (task.estimatedTokens / ESTIMATED_TOKENS_PER_SECOND) * 1000;
+  }
+  return DEFAULT_TASK_DURATION_MS;
+}
+
+/**
+ * For each task, the estimated duration of the longest chain starting at it
+ * (its own duration plus its longest chain of dependents). Dependencies on
+ * unknown tasks are ignored.
+ *
+ * @throws {Error} If the graph has a cycle
+ */
+export function computeCriticalPaths(tasks: SchedulableTask[]): Map<string, number> {
+  const byId = new Map(tasks.map(task => [task.id!, task]));
+  const dependents = new Map<string, string[]>();
+  const remaining = new Map<string, number>();
+
+  for (const task of tasks) {
+    remaining.set(task.id!, 0);
+  }
+  for (const task of tasks) {
+    for (const dep of task.dependencies || []) {
+      if (!byId.has(dep)) continue;
+      dependents.set(dep, [...(dependents.get(dep) || []), task.id!]);
+      remaining.set(dep, remaining.get(dep)! + 1);
+    }
+  }
+
+  // Walk from the sinks back towards the roots
+  const paths = new Map<string, number>();
+  const queue = tasks.filter(task => remaining.get(task.id!) === 0).map(task => task.id!);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const task = byId.get(id)!;
+    const longestDependent = Math.max(0, ...(dependents.get(id) || []).map(d => paths.get(d)!));
+    paths.set(id, estimateTaskDuration(task) + longestDependent);
+
+    for (const dep of task.dependencies || []) {
+      if (!byId.has(dep)) continue;
+      const left = remaining.get(dep)! - 1;
+      remaining.set(dep, left);
+      if (left === 0) queue.push(dep);
+    }
+  }
+
+  if (paths.size !== byId.size) {
+    throw new Error('Circular dependency detected in task graph');
+  }
+
+  return paths;
+}
+
+/**
+ * Order tasks by critical path (longest first), then priority (highest first).
+ */
+export function compareByCriticalPath(paths: Map<string, number>) {
+  return (a: SchedulableTask, b: SchedulableTask): number =>
+    (paths.get(b.id!) || 0) - (paths.get(a.id!) || 0) ||
+    (b.priority || 0) - (a.priority || 0);
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+export class DagScheduler<T extends SchedulableTask> {
+  private tasks: Map<string, T>;
+  private criticalPaths: Map<string, number>;
+  private maxParallel: number;
+
+  private pending: Set<string>;
+  private running: Set<string> = new Set();
+  private finished: Set<string> = new Set();
+
+  constructor(tasks: T[], options: DagSchedulerOptions) {
+    this.tasks = new Map(tasks.map(task => [task.id!, task]));
+    this.criticalPaths = computeCriticalPaths(tasks);
+    this.maxParallel = Math.max(1, options.maxParallel);
+    this.pending = new Set(this.tasks.keys());
+  }
+
+  /**
+   * Claim ready tasks up to the free slots, most critical first.
+   * Claimed tasks count as running until finish() is called.
+   */
+  takeReady(): T[] {
+    const slots = this.maxParallel - this.running.size;
+    if (slots <= 0) return [];
+
+    const ready = Array.from(this.pending)
+      .map(id => this.tasks.get(id)!)
+      .filter(task => (task.dependencies || []).every(dep => !this.tasks.has(dep) || this.finished.has(dep)))
+      .sort(compareByCriticalPath(this.criticalPaths))
+      .slice(0, slots);
+
+    for (const task of ready) {
+      this.pending.delete(task.id!);
+      this.running.add(task.id!);
+    }
+
+    return ready;
+  }
+
+  /**
+   * Mark a task finished, whether it succeeded, failed or was skipped.
+   */
+  finish(taskId: string): void {
+    this.running.delete(taskId);
+    this.pending.delete(taskId);
+    this.finished.add(taskId);
+  }
+
+  /**
+   * Drop every task that hasn't started yet and return them.
+   */
+  cancelPending(): T[] {
+    const cancelled = Array.from(this.pending).map(id => this.tasks.get(id)!);
+    for (const task of cancelled) {
+      this.finish(task.id!);
+    }
+    return cancelled;
+  }
+
+  getCriticalPath(taskId: string): number {
+    return this.criticalPaths.get(taskId) || 0;
+  }
+
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  isComplete(): boolean {
+    return this.finished.size === this.tasks.size;
+  }
+}
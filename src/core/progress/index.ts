@@ -326,9 +326,14 @@ export class ProgressService extends EventEmitter {
    * Start tracking time for a project.
    */
   async startProjectTimer(projectId: string): Promise<void> {
-    this.projectStartTimes.set(projectId, new Date());
-    // Note: We use the project's created_at as the start time
-    // since there's no dedicated started_at column
+    // The first start wins, so resumed builds keep counting from it; the
+    // time budget is measured from started_at
+    const db = getDatabase();
+    const result = await db.query<{ started_at: Date }>(
+      `UPDATE projects SET started_at = COALESCE(started_at, NOW()) WHERE id = $1 RETURNING started_at`,
+      [projectId]
+    );
+    this.projectStartTimes.set(projectId, result.rows[0]?.started_at || new Date());
   }
 
   /**
@@ -340,10 +345,10 @@ export class ProgressService extends EventEmitter {
       return this.projectStartTimes.get(projectId)!;
     }
 
-    // Fall back to database - use created_at as the start time
+    // Fall back to database - created_at until the timer has started
     const db = getDatabase();
-    const result = await db.query<{ created_at: Date }>(
-      `SELECT created_at FROM projects WHERE id = $1`,
+    const result = await db.query<{ start_time: Date }>(
+      `SELECT COALESCE(started_at, created_at) as start_time FROM projects WHERE id = $1`,
       [projectId]
     );
 
@@ -351,7 +356,7 @@ export class ProgressService extends EventEmitter {
       return null;
     }
 
-    const startTime = result.rows[0].created_at;
+    const startTime = result.rows[0].start_time;
     if (startTime) {
       this.projectStartTimes.set(projectId, startTime);
     }
@@ -0,0 +1,149 @@
+/**
+ * Tests for the QA HTTP Driver and Step Executor
+ * Navigating, filling and submitting forms, and assertions against a local site
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { HttpDomDriver, createBrowserDriver } from './driver.js';
+import { executeStep } from './executor.js';
+import type { UserFlowStep } from './index.js';
+
+const LOGIN_PAGE = `<html><head><title>Sign in - Todo</title></head><body>
+  <nav><a href="/">Home</a> <a href="/missing">Broken</a></nav>
+  <form method="post" action="/login">
+    <input type="email" name="email">
+    <input type="password" name="password">
+    <select name="plan"><option value="free">Free</option><option value="pro">Pro</option></select>
+    <label><input type="checkbox" name="remember"> Remember me</label>
+    <button type="submit">Sign in</button>
+  </form>
+  <p id="hint" style="display: none">Forgot?</p>
+  <button id="js-only">Menu</button>
+</body></html>`;
+
+describe('QA HTTP Driver', () => {
+  let server: Server;
+  let baseUrl: string;
+  let lastLogin: URLSearchParams | null = null;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname === '/login' && req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          lastLogin = new URLSearchParams(body);
+          res.writeHead(303, { Location: '/dashboard', 'Set-Cookie': 'session=abc123; HttpOnly; Path=/' });
+          res.end();
+        });
+        return;
+      }
+
+      if (url.pathname === '/login') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end(LOGIN_PAGE);
+        return;
+      }
+
+      if (url.pathname === '/dashboard') {
+        const signedIn = (req.headers.cookie || '').includes('session=abc123');
+        res.writeHead(signedIn ? 200 : 302, signedIn ? { 'Content-Type': 'text/html' } : { Location: '/login' });
+        res.end(signedIn ? '<html><head><title>Dashboard</title></head><body><h1>Welcome back</h1></body></html>' : '');
+        return;
+      }
+
+      if (url.pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><body><a href="/login">Sign in</a></body></html>');
+        return;
+      }
+
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('<html><body>Not found</body></html>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const run = (driver: HttpDomDriver, step: Omit<UserFlowStep, 'id' | 'name'>) =>
+    executeStep(driver, { id: 'step', name: 'step', ...step }, { baseUrl, timeout: 2000 });
+
+  it('should fill and submit a form, follow the redirect and keep the session cookie', async () => {
+    const driver = new HttpDomDriver();
+
+    expect((await run(driver, { action: 'navigate', value: '/' })).httpStatus).toBe(200);
+    expect((await run(driver, { action: 'click', selector: 'a[href="/login"]' })).url).toBe(`${baseUrl}/login`);
+    expect((await run(driver, { action: 'fill', selector: 'input[name=email]', value: 'ada@example.com' })).status).toBe('pass');
+    expect((await run(driver, { action: 'fill', selector: 'input[name=password]', value: 'secret' })).status).toBe('pass');
+    expect((await run(driver, { action: 'select', selector: 'select[name=plan]', value: 'Pro' })).status).toBe('pass');
+    expect((await run(driver, { action: 'click', selector: 'input[name=remember]' })).status).toBe('pass');
+
+    const submit = await run(driver, { action: 'click', selector: 'form button' });
+
+    expect(submit).toMatchObject({ status: 'pass', httpStatus: 200, url: `${baseUrl}/dashboard` });
+    expect(Object.fromEntries(lastLogin!)).toEqual({
+      email: 'ada@example.com',
+      password: 'secret',
+      plan: 'pro',
+      remember: 'on',
+    });
+    expect((await run(driver, { action: 'assert', assertion: { type: 'title', expected: 'Dashboard' } })).status).toBe('pass');
+    expect((await run(driver, { action: 'assert', assertion: { type: 'text', selector: 'h1', expected: 'Welcome' } })).status).toBe('pass');
+  });
+
+  it('should report failures with what was expected and found', async () => {
+    const driver = new HttpDomDriver();
+    await run(driver, { action: 'navigate', value: '/login' });
+
+    expect(await run(driver, { action: 'assert', assertion: { type: 'visible', selector: '#hint' } })).toMatchObject({
+      status: 'fail',
+      failure: 'assertion',
+      expected: 'visible',
+      actual: 'not visible',
+    });
+    expect(await run(driver, { action: 'assert', assertion: { type: 'title', expected: 'Dashboard' } })).toMatchObject({
+      status: 'fail',
+      expected: 'Dashboard',
+      actual: 'Sign in - Todo',
+    });
+    expect(await run(driver, { action: 'click', selector: '#js-only' })).toMatchObject({
+      status: 'fail',
+      failure: 'action',
+      error: expect.stringContaining('without JavaScript'),
+    });
+    expect(await run(driver, { action: 'fill', selector: '#nope', value: 'x' })).toMatchObject({
+      status: 'fail',
+      error: 'No element matches #nope',
+    });
+    expect(await run(driver, { action: 'click', selector: 'a[href="/missing"]' })).toMatchObject({
+      status: 'fail',
+      failure: 'navigation',
+      actual: '404',
+    });
+  });
+
+  it('should fail navigation to an unreachable preview', async () => {
+    const driver = new HttpDomDriver();
+    const outcome = await executeStep(
+      driver,
+      { id: 'nav', name: 'Open', action: 'navigate', value: '/' },
+      { baseUrl: 'http://127.0.0.1:1', timeout: 2000 }
+    );
+
+    expect(outcome.status).toBe('fail');
+    expect(outcome.failure).toBe('navigation');
+  });
+
+  it('should use the HTTP driver when asked or when no browser is installed', async () => {
+    expect((await createBrowserDriver({ driver: 'http' })).name).toBe('http');
+    expect((await createBrowserDriver({ driver: 'auto' })).name).toMatch(/^(http|playwright)$/);
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * QA Browser Drivers
+ *
+ * The drivers user flows run against:
+ * - HttpDomDriver: fetches pages and works on the parsed DOM. Follows links,
+ *   submits forms with the values filled in, keeps cookies. Needs nothing
+ *   installed, but runs no JavaScript.
+ * - PlaywrightDriver: a headless browser, used when Playwright is installed
+ *   locally.
+ */
+
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  HtmlElement,
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  serializeHtml,
+  textContent,
+} from '../demos/html.js';
+
+/**
+ * Which driver to run flows with. 'auto' uses a headless browser when one
+ * is available and falls back to HTTP.
+ */
+export type DriverKind = 'http' | 'browser' | 'auto';
+
+/**
+ * A page load caused by navigating, clicking or submitting
+ */
+export interface PageLoad {
+  url: string;
+  status: number;
+}
+
+/**
+ * The operations a flow step can perform
+ */
+export interface BrowserDriver {
+  readonly name: 'http' | 'playwright';
+  navigate(url: string, timeout: number): Promise<PageLoad>;
+  /** Returns the page load the click caused, if the driver can tell */
+  click(selector: string, timeout: number): Promise<PageLoad | null>;
+  fill(selector: string, value: string, timeout: number): Promise<void>;
+  select(selector: string, value: string, timeout: number): Promise<void>;
+  waitFor(selector: string, timeout: number): Promise<void>;
+  currentUrl(): string;
+  title(): Promise<string>;
+  isVisible(selector: string): Promise<boolean>;
+  /** Text of the first match, or of the whole page without a selector */
+  textOf(selector?: string): Promise<string | null>;
+  valueOf(selector: string): Promise<string | null>;
+  /** Serialized DOM of the current page */
+  snapshot(): Promise<string>;
+  /** Save a screenshot, returning false if the driver can't render */
+  screenshot(path: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+export interface DriverOptions {
+  driver?: DriverKind;
+  browser?: 'chromium' | 'firefox' | 'webkit';
+  headless?: boolean;
+  viewport?: { width: number; height: number };
+  fetch?: typeof fetch;
+}
+
+const MAX_REDIRECTS = 10;
+const WAIT_POLL_MS = 250;
+
+// ============================================================================
+// HTTP + DOM driver
+// ============================================================================
+
+function isHidden(element: HtmlElement): boolean {
+  for (let el: HtmlElement | null = element; el && el.tag !== '#document'; el = el.parent) {
+    if ('hidden' in el.attributes) return true;
+    if (el.tag === 'input' && el.attributes.type?.toLowerCase() === 'hidden') return true;
+    if (el.tag === 'head' || el.tag === 'template') return true;
+    const style = (el.attributes.style || '').replace(/\s+/g, '').toLowerCase();
+    if (style.includes('display:none') || style.includes('visibility:hidden')) return true;
+  }
+  return false;
+}
+
+function closestForm(element: HtmlElement): HtmlElement | null {
+  for (let el: HtmlElement | null = element; el; el = el.parent) {
+    if (el.tag === 'form') return el;
+  }
+  return null;
+}
+
+function isSubmitControl(element: HtmlElement): boolean {
+  const type = (element.attributes.type || '').toLowerCase();
+  if (element.tag === 'button') return type === '' || type === 'submit';
+  return element.tag === 'input' && (type === 'submit' || type === 'image');
+}
+
+/**
+ * Fields a form submits: named inputs, selects and textareas, plus the
+ * clicked submit button.
+ */
+function formFields(form: HtmlElement, submitter: HtmlElement | null): Array<[string, string]> {
+  const fields: Array<[string, string]> = [];
+
+  for (const control of querySelectorAll(form, 'input, select, textarea')) {
+    const name = control.attributes.name;
+    if (!name || 'disabled' in control.attributes) continue;
+
+    if (control.tag === 'textarea') {
+      fields.push([name, textContent(control)]);
+    } else if (control.tag === 'select') {
+      const options = querySelectorAll(control, 'option');
+      const selected = options.find(o => 'selected' in o.attributes) || options[0];
+      if (selected) fields.push([name, selected.attributes.value ?? textContent(selected)]);
+    } else {
+      const type = (control.attributes.type || 'text').toLowerCase();
+      if (['submit', 'image', 'button', 'reset', 'file'].includes(type)) continue;
+      if ((type === 'checkbox' || type === 'radio') && !('checked' in control.attributes)) continue;
+      fields.push([name, control.attributes.value ?? (type === 'checkbox' || type === 'radio' ? 'on' : '')]);
+    }
+  }
+
+  if (submitter?.attributes.name) {
+    fields.push([submitter.attributes.name, submitter.attributes.value ?? '']);
+  }
+  return fields;
+}
+
+export class HttpDomDriver implements BrowserDriver {
+  readonly name = 'http' as const;
+  private doFetch: typeof fetch;
+  private url = 'about:blank';
+  private document: HtmlElement = parseHtml('');
+  private cookies: Map<string, string> = new Map();
+
+  constructor(options: { fetch?: typeof fetch } = {}) {
+    this.doFetch = options.fetch ?? fetch;
+  }
+
+  async navigate(url: string, timeout: number): Promise<PageLoad> {
+    return this.load(new URL(url, this.url === 'about:blank' ? undefined : this.url).toString(), { method: 'GET' }, timeout);
+  }
+
+  async click(selector: string, timeout: number): Promise<PageLoad | null> {
+    const element = this.find(selector);
+
+    const link = this.closest(element, 'a');
+    if (link?.attributes.href !== undefined) {
+      const href = link.attributes.href;
+      if (href.startsWith('#')) return null;
+      if (/^(javascript|mailto|tel):/i.test(href)) {
+        throw new Error(`Cannot follow ${href} without a browser`);
+      }
+      return this.navigate(href, timeout);
+    }
+
+    const form = closestForm(element);
+    if (form && isSubmitControl(element)) {
+      return this.submit(form, element, timeout);
+    }
+
+    const type = (element.attributes.type || '').toLowerCase();
+    if (element.tag === 'input' && type === 'checkbox') {
+      if ('checked' in element.attributes) {
+        delete element.attributes.checked;
+      } else {
+        element.attributes.checked = '';
+      }
+      return null;
+    }
+    if (element.tag === 'input' && type === 'radio') {
+      const group = form && element.attributes.name
+        ? querySelectorAll(form, 'input').filter(input => input.attributes.name === element.attributes.name)
+        : [];
+      for (const radio of group) delete radio.attributes.checked;
+      element.attributes.checked = '';
+      return null;
+    }
+
+    throw new Error(`Clicking <${element.tag}> does nothing without JavaScript (no link or form to submit)`);
+  }
+
+  async fill(selector: string, value: string, _timeout: number): Promise<void> {
+    const element = this.find(selector);
+    if (element.tag === 'textarea') {
+      element.children = [value];
+    } else if (element.tag === 'input') {
+      element.attributes.value = value;
+    } else {
+      throw new Error(`Cannot fill <${element.tag}>`);
+    }
+  }
+
+  async select(selector: string, value: string, _timeout: number): Promise<void> {
+    const element = this.find(selector);
+    if (element.tag !== 'select') {
+      throw new Error(`Cannot select an option in <${element.tag}>`);
+    }
+
+    const options = querySelectorAll(element, 'option');
+    const match = options.find(o => (o.attributes.value ?? textContent(o)) === value)
+      || options.find(o => textContent(o) === value);
+    if (!match) {
+      throw new Error(`No option "${value}" in ${selector}`);
+    }
+    for (const option of options) delete option.attributes.selected;
+    match.attributes.selected = '';
+  }
+
+  /**
+   * Without scripts the page only changes on the server, so waiting
+   * re-fetches the current URL until the element shows up. Filled-in
+   * values are lost on reload.
+   */
+  async waitFor(selector: string, timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!querySelector(this.document, selector)) {
+      if (this.url === 'about:blank' || Date.now() + WAIT_POLL_MS > deadline) {
+        throw new Error(`No element matches ${selector} after ${timeout}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, WAIT_POLL_MS));
+      await this.load(this.url, { method: 'GET' }, Math.max(deadline - Date.now(), WAIT_POLL_MS));
+    }
+  }
+
+  currentUrl(): string {
+    return this.url;
+  }
+
+  async title(): Promise<string> {
+    const title = querySelector(this.document, 'title');
+    return title ? textContent(title) : '';
+  }
+
+  async isVisible(selector: string): Promise<boolean> {
+    const element = querySelector(this.document, selector);
+    return !!element && !isHidden(element);
+  }
+
+  async textOf(selector?: string): Promise<string | null> {
+    if (!selector) {
+      return textContent(querySelector(this.document, 'body') || this.document);
+    }
+    const element = querySelector(this.document, selector);
+    return element ? textContent(element) : null;
+  }
+
+  async valueOf(selector: string): Promise<string | null> {
+    const element = querySelector(this.document, selector);
+    if (!element) return null;
+    if (element.tag === 'textarea') return textContent(element);
+    if (element.tag === 'select') {
+      const options = querySelectorAll(element, 'option');
+      const selected = options.find(o => 'selected' in o.attributes) || options[0];
+      return selected ? selected.attributes.value ?? textContent(selected) : null;
+    }
+    return element.attributes.value ?? '';
+  }
+
+  async snapshot(): Promise<string> {
+    return serializeHtml(this.document);
+  }
+
+  async screenshot(_path: string): Promise<boolean> {
+    return false;
+  }
+
+  async close(): Promise<void> {
+    this.cookies.clear();
+  }
+
+  private closest(element: HtmlElement, tag: string): HtmlElement | null {
+    for (let el: HtmlElement | null = element; el; el = el.parent) {
+      if (el.tag === tag) return el;
+    }
+    return null;
+  }
+
+  private find(selector: string): HtmlElement {
+    const element = querySelector(this.document, selector);
+    if (!element) {
+      throw new Error(`No element matches ${selector}`);
+    }
+    return element;
+  }
+
+  private async submit(form: HtmlElement, submitter: HtmlElement, timeout: number): Promise<PageLoad> {
+    const method = (submitter.attributes.formmethod || form.attributes.method || 'get').toUpperCase();
+    const action = new URL(submitter.attributes.formaction || form.attributes.action || this.url, this.url);
+    const params = new URLSearchParams(formFields(form, submitter));
+
+    if (method === 'POST') {
+      return this.load(action.toString(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString(),
+      }, timeout);
+    }
+    action.search = params.toString();
+    return this.load(action.toString(), { method: 'GET' }, timeout);
+  }
+
+  /**
+   * Fetch a page, following redirects by hand so cookies set along the way
+   * are kept.
+   */
+  private async load(url: string, init: RequestInit, timeout: number): Promise<PageLoad> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let current = url;
+    let request = init;
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const headers: Record<string, string> = { Accept: 'text/html,*/*', ...(request.headers as Record<string, string>) };
+        if (this.cookies.size > 0) {
+          headers.Cookie = Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+        }
+
+        const response = await this.doFetch(current, { ...request, headers, redirect: 'manual', signal: controller.signal });
+        this.storeCookies(response);
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`Too many redirects from ${url}`);
+          }
+          current = new URL(location, current).toString();
+          // 307/308 repeat the request; everything else becomes a GET
+          if (response.status !== 307 && response.status !== 308) {
+            request = { method: 'GET' };
+          }
+          continue;
+        }
+
+        this.url = current;
+        this.document = parseHtml(await response.text());
+        return { url: current, status: response.status };
+      }
+    } catch (error) {
+      throw controller.signal.aborted ? new Error(`Timed out loading ${current} after ${timeout}ms`) : error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private storeCookies(response: Response): void {
+    for (const header of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+      const name = pair.slice(0, separator).trim();
+      const expired = attributes.some(a => /^\s*max-age\s*=\s*0\s*$/i.test(a));
+      if (expired) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, pair.slice(separator + 1).trim());
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Headless browser driver
+// ============================================================================
+
+/**
+ * The parts of Playwright's API the driver uses. Playwright isn't a
+ * dependency; it's loaded at runtime when installed.
+ */
+interface PlaywrightPage {
+  goto(url: string, options: { timeout: number }): Promise<{ status(): number } | null>;
+  click(selector: string, options: { timeout: number }): Promise<void>;
+  fill(selector: string, value: string, options: { timeout: number }): Promise<void>;
+  selectOption(selector: string, value: string, options: { timeout: number }): Promise<unknown>;
+  waitForSelector(selector: string, options: { timeout: number }): Promise<unknown>;
+  waitForLoadState(state: 'load', options: { timeout: number }): Promise<void>;
+  url(): string;
+  title(): Promise<string>;
+  isVisible(selector: string): Promise<boolean>;
+  textContent(selector: string): Promise<string | null>;
+  inputValue(selector: string): Promise<string>;
+  $(selector: string): Promise<unknown | null>;
+  content(): Promise<string>;
+  screenshot(options: { path: string; fullPage: boolean }): Promise<unknown>;
+}
+
+interface PlaywrightBrowser {
+  newPage(options: { viewport?: { width: number; height: number } }): Promise<PlaywrightPage>;
+  close(): Promise<void>;
+}
+
+type PlaywrightModule = Record<string, { launch(options: { headless: boolean }): Promise<PlaywrightBrowser> }>;
+
+export class PlaywrightDriver implements BrowserDriver {
+  readonly name = 'playwright' as const;
+
+  private constructor(private browser: PlaywrightBrowser, private page: PlaywrightPage) {}
+
+  /**
+   * Launch a browser, or return null if Playwright or its browsers aren't
+   * installed.
+   */
+  static async launch(options: DriverOptions = {}): Promise<PlaywrightDriver | null> {
+    let playwright: PlaywrightModule;
+    try {
+      // A variable specifier keeps the compiler from resolving the module
+      const moduleName = 'playwright';
+      playwright = await import(moduleName) as PlaywrightModule;
+    } catch {
+      return null;
+    }
+
+    try {
+      const browser = await playwright[options.browser || 'chromium'].launch({ headless: options.headless ?? true });
+      const page = await browser.newPage({ viewport: options.viewport });
+      return new PlaywrightDriver(browser, page);
+    } catch {
+      return null;
+    }
+  }
+
+  async navigate(url: string, timeout: number): Promise<PageLoad> {
+    const target = this.page.url() === 'about:blank' ? url : new URL(url, this.page.url()).toString();
+    const response = await this.page.goto(target, { timeout });
+    return { url: this.page.url(), status: response?.status() ?? 200 };
+  }
+
+  async click(selector: string, timeout: number): Promise<PageLoad | null> {
+    await this.page.click(selector, { timeout });
+    await this.page.waitForLoadState('load', { timeout });
+    return null;
+  }
+
+  async fill(selector: string, value: string, timeout: number): Promise<void> {
+    await this.page.fill(selector, value, { timeout });
+  }
+
+  async select(selector: string, value: string, timeout: number): Promise<void> {
+    await this.page.selectOption(selector, value, { timeout });
+  }
+
+  async waitFor(selector: string, timeout: number): Promise<void> {
+    await this.page.waitForSelector(selector, { timeout });
+  }
+
+  currentUrl(): string {
+    return this.page.url();
+  }
+
+  async title(): Promise<string> {
+    return this.page.title();
+  }
+
+  async isVisible(selector: string): Promise<boolean> {
+    return this.page.isVisible(selector);
+  }
+
+  async textOf(selector?: string): Promise<string | null> {
+    if (!selector) {
+      return (await this.page.textContent('body'))?.replace(/\s+/g, ' ').trim() ?? null;
+    }
+    if (!(await this.page.$(selector))) return null;
+    return (await this.page.textContent(selector))?.replace(/\s+/g, ' ').trim() ?? null;
+  }
+
+  async valueOf(selector: string): Promise<string | null> {
+    if (!(await this.page.$(selector))) return null;
+    return this.page.inputValue(selector);
+  }
+
+  async snapshot(): Promise<string> {
+    return this.page.content();
+  }
+
+  async screenshot(path: string): Promise<boolean> {
+    await mkdir(dirname(path), { recursive: true });
+    await this.page.screenshot({ path, fullPage: true });
+    return true;
+  }
+
+  async close(): Promise<void> {
+    await this.browser.close();
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the driver to run flows with.
+ * @throws Error if a browser is required and none can be launched
+ */
+export async function createBrowserDriver(options: DriverOptions = {}): Promise<BrowserDriver> {
+  const kind = options.driver || 'auto';
+
+  if (kind !== 'http') {
+    const browser = await PlaywrightDriver.launch(options);
+    if (browser) return browser;
+    if (kind === 'browser') {
+      throw new Error('No headless browser available: install playwright and its browsers, or use the http driver');
+    }
+  }
+
+  return new HttpDomDriver({ fetch: options.fetch });
+}
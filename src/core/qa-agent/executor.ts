@@ -0,0 +1,212 @@
+/**
+ * QA Step Executor
+ *
+ * Runs a single user flow step against a browser driver and reports what
+ * happened: pass or fail, how long it took, and for failures what was
+ * expected and what was found.
+ */
+
+import type { UserFlowStep } from './index.js';
+import type { BrowserDriver, PageLoad } from './driver.js';
+
+/**
+ * What went wrong in a failed step
+ */
+export type StepFailureKind =
+  | 'navigation'  // Page didn't load or returned an error status
+  | 'action'      // Element missing or not interactive
+  | 'assertion';  // Page loaded but didn't match
+
+/**
+ * Result of executing one step
+ */
+export interface StepOutcome {
+  status: 'pass' | 'fail';
+  duration: number;
+  url: string;
+  httpStatus?: number;
+  failure?: StepFailureKind;
+  error?: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface StepExecutionOptions {
+  baseUrl: string;
+  timeout: number;
+}
+
+class StepFailure {
+  constructor(
+    readonly kind: StepFailureKind,
+    readonly message: string,
+    readonly expected?: string,
+    readonly actual?: string,
+    readonly httpStatus?: number
+  ) {}
+}
+
+function checkLoad(load: PageLoad | null): number | undefined {
+  if (load && load.status >= 400) {
+    throw new StepFailure('navigation', `${load.url} returned HTTP ${load.status}`, '2xx/3xx', String(load.status), load.status);
+  }
+  return load?.status;
+}
+
+function requireSelector(step: UserFlowStep): string {
+  if (!step.selector) {
+    throw new StepFailure('action', `${step.action} step requires a selector`);
+  }
+  return step.selector;
+}
+
+async function runAssertion(driver: BrowserDriver, step: UserFlowStep): Promise<void> {
+  if (!step.assertion) {
+    throw new StepFailure('action', 'assert step requires an assertion');
+  }
+
+  const { type, expected } = step.assertion;
+  const selector = step.assertion.selector || step.selector;
+  const needsSelector = type === 'visible' || type === 'hidden' || type === 'value';
+  if (needsSelector && !selector) {
+    throw new StepFailure('action', `${type} assertion requires a selector`);
+  }
+
+  switch (type) {
+    case 'visible':
+      if (!(await driver.isVisible(selector!))) {
+        throw new StepFailure('assertion', `${selector} is not visible`, 'visible', 'not visible');
+      }
+      return;
+
+    case 'hidden':
+      if (await driver.isVisible(selector!)) {
+        throw new StepFailure('assertion', `${selector} is visible`, 'hidden', 'visible');
+      }
+      return;
+
+    case 'text': {
+      const text = await driver.textOf(selector);
+      if (text === null) {
+        throw new StepFailure('assertion', `No element matches ${selector}`, expected, undefined);
+      }
+      if (expected !== undefined && !text.includes(expected)) {
+        throw new StepFailure('assertion', `Text does not contain "${expected}"`, expected, text.slice(0, 500));
+      }
+      return;
+    }
+
+    case 'value': {
+      const value = await driver.valueOf(selector!);
+      if (value === null) {
+        throw new StepFailure('assertion', `No element matches ${selector}`, expected, undefined);
+      }
+      if (value !== (expected ?? '')) {
+        throw new StepFailure('assertion', `Value of ${selector} is "${value}"`, expected ?? '', value);
+      }
+      return;
+    }
+
+    case 'url': {
+      const url = driver.currentUrl();
+      if (expected !== undefined && !url.includes(expected)) {
+        throw new StepFailure('assertion', `URL does not contain "${expected}"`, expected, url);
+      }
+      return;
+    }
+
+    case 'title': {
+      const title = await driver.title();
+      if (expected !== undefined && !title.includes(expected)) {
+        throw new StepFailure('assertion', `Title does not contain "${expected}"`, expected, title);
+      }
+      return;
+    }
+  }
+}
+
+async function runStep(driver: BrowserDriver, step: UserFlowStep, options: StepExecutionOptions): Promise<number | undefined> {
+  const timeout = step.timeout ?? options.timeout;
+
+  switch (step.action) {
+    case 'navigate': {
+      const target = new URL(step.value || step.selector || '/', options.baseUrl).toString();
+      try {
+        return checkLoad(await driver.navigate(target, timeout));
+      } catch (error) {
+        if (error instanceof StepFailure) throw error;
+        throw new StepFailure('navigation', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    case 'click': {
+      const load = await driver.click(requireSelector(step), timeout);
+      const status = checkLoad(load);
+      if (step.waitFor) await driver.waitFor(step.waitFor, timeout);
+      return status;
+    }
+
+    case 'fill':
+      if (step.value === undefined) {
+        throw new StepFailure('action', 'fill step requires a value');
+      }
+      await driver.fill(requireSelector(step), step.value, timeout);
+      return undefined;
+
+    case 'select':
+      if (step.value === undefined) {
+        throw new StepFailure('action', 'select step requires a value');
+      }
+      await driver.select(requireSelector(step), step.value, timeout);
+      return undefined;
+
+    case 'wait': {
+      const selector = step.waitFor || step.selector;
+      if (selector) {
+        await driver.waitFor(selector, timeout);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, Number(step.value) || timeout));
+      }
+      return undefined;
+    }
+
+    case 'assert':
+      await runAssertion(driver, step);
+      return undefined;
+
+    case 'screenshot':
+      // Captured by the caller, which knows where screenshots go
+      return undefined;
+  }
+}
+
+/**
+ * Execute a step. Never throws: failures come back in the outcome.
+ */
+export async function executeStep(
+  driver: BrowserDriver,
+  step: UserFlowStep,
+  options: StepExecutionOptions
+): Promise<StepOutcome> {
+  const started = Date.now();
+
+  try {
+    const httpStatus = await runStep(driver, step, options);
+    return { status: 'pass', duration: Date.now() - started, url: driver.currentUrl(), httpStatus };
+  } catch (error) {
+    const failure = error instanceof StepFailure
+      ? error
+      : new StepFailure('action', error instanceof Error ? error.message : String(error));
+
+    return {
+      status: 'fail',
+      duration: Date.now() - started,
+      url: driver.currentUrl(),
+      httpStatus: failure.httpStatus,
+      failure: failure.kind,
+      error: failure.message,
+      expected: failure.expected,
+      actual: failure.actual,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * QA Flow Store
+ *
+ * User flows are stored per project in qa_user_flows, keyed by the flow's
+ * own id, so results in qa_test_results can refer back to them.
+ */
+
+import { z } from 'zod';
+import { getDatabase } from '../../lib/database.js';
+import type { UserFlow } from './index.js';
+
+const UserFlowStepSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  action: z.enum(['navigate', 'click', 'fill', 'select', 'wait', 'assert', 'screenshot']),
+  selector: z.string().optional(),
+  value: z.string().optional(),
+  timeout: z.number().positive().optional(),
+  waitFor: z.string().optional(),
+  assertion: z.object({
+    type: z.enum(['visible', 'hidden', 'text', 'value', 'url', 'title']),
+    expected: z.string().optional(),
+    selector: z.string().optional(),
+  }).optional(),
+});
+
+export const UserFlowSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(255),
+  description: z.string().default(''),
+  priority: z.number().int().default(1),
+  steps: z.array(UserFlowStepSchema).min(1),
+  expectedOutcome: z.string().default(''),
+  tags: z.array(z.string()).optional(),
+});
+
+/**
+ * A flow as stored for a project
+ */
+export interface StoredUserFlow extends UserFlow {
+  projectId: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface UserFlowRow {
+  project_id: string;
+  flow_key: string;
+  name: string;
+  description: string | null;
+  priority: number;
+  steps: UserFlow['steps'];
+  expected_outcome: string | null;
+  tags: string[] | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class FlowStore {
+  constructor(private projectId: string) {}
+
+  /**
+   * The project's flows, highest priority (lowest number) first
+   */
+  async list(options: { includeDisabled?: boolean } = {}): Promise<StoredUserFlow[]> {
+    const db = getDatabase();
+    const result = await db.query<UserFlowRow>(
+      `SELECT * FROM qa_user_flows
+       WHERE project_id = $1 AND ($2 OR enabled = true)
+       ORDER BY priority ASC, created_at ASC`,
+      [this.projectId, options.includeDisabled || false]
+    );
+    return result.rows.map(row => this.mapRowToFlow(row));
+  }
+
+  async get(flowId: string): Promise<StoredUserFlow | null> {
+    const db = getDatabase();
+    const result = await db.query<UserFlowRow>(
+      `SELECT * FROM qa_user_flows WHERE project_id = $1 AND flow_key = $2`,
+      [this.projectId, flowId]
+    );
+    return result.rows.length > 0 ? this.mapRowToFlow(result.rows[0]) : null;
+  }
+
+  /**
+   * Create or replace a flow.
+   * @throws Error if the flow is invalid
+   */
+  async save(flow: UserFlow, enabled = true): Promise<StoredUserFlow> {
+    const parsed = UserFlowSchema.safeParse(flow);
+    if (!parsed.success) {
+      const details = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid user flow: ${details}`);
+    }
+    const valid = parsed.data;
+
+    const db = getDatabase();
+    const result = await db.query<UserFlowRow>(
+      `INSERT INTO qa_user_flows (project_id, flow_key, name, description, priority, steps, expected_outcome, tags, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (project_id, flow_key) DO UPDATE SET
+         name = EXCLUDED.name,
+         description = EXCLUDED.description,
+         priority = EXCLUDED.priority,
+         steps = EXCLUDED.steps,
+         expected_outcome = EXCLUDED.expected_outcome,
+         tags = EXCLUDED.tags,
+         enabled = EXCLUDED.enabled,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        this.projectId,
+        valid.id,
+        valid.name,
+        valid.description,
+        valid.priority,
+        JSON.stringify(valid.steps),
+        valid.expectedOutcome,
+        JSON.stringify(valid.tags || []),
+        enabled,
+      ]
+    );
+    return this.mapRowToFlow(result.rows[0]);
+  }
+
+  async delete(flowId: string): Promise<boolean> {
+    const db = getDatabase();
+    const result = await db.query(
+      `DELETE FROM qa_user_flows WHERE project_id = $1 AND flow_key = $2`,
+      [this.projectId, flowId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private mapRowToFlow(row: UserFlowRow): StoredUserFlow {
+    return {
+      id: row.flow_key,
+      projectId: row.project_id,
+      name: row.name,
+      description: row.description || '',
+      priority: row.priority,
+      steps: row.steps,
+      expectedOutcome: row.expected_outcome || '',
+      tags: row.tags && row.tags.length > 0 ? row.tags : undefined,
+      enabled: row.enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
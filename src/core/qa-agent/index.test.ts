@@ -0,0 +1,151 @@
+/**
+ * Tests for the QA Agent
+ * Stored flows run against a local preview, with results on the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { getDatabase } from '../../lib/database.js';
+import { createQAAgent, QAIssueType } from './index.js';
+import { FlowStore } from './flows.js';
+
+describe('QAAgent', () => {
+  let server: Server;
+  let baseUrl: string;
+  let projectId: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><head><title>Todo</title></head><body><h1>Todo</h1><a href="/about">About</a></body></html>');
+        return;
+      }
+      if (req.url === '/about') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><body><p>About us</p></body></html>');
+        return;
+      }
+      res.writeHead(500, { 'Content-Type': 'text/html' });
+      res.end('<html><body>Internal error</body></html>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    const project = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('qa-test') RETURNING id`);
+    projectId = project.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await getDatabase().close();
+  });
+
+  it('should store, replace and list flows per project', async () => {
+    const store = new FlowStore(projectId);
+
+    await store.save({
+      id: 'browse',
+      name: 'Browse',
+      description: '',
+      priority: 2,
+      steps: [{ id: 'open', name: 'Open home', action: 'navigate', value: '/' }],
+      expectedOutcome: '',
+    });
+    await store.save({
+      id: 'reports',
+      name: 'Reports',
+      description: 'Open the reports page',
+      priority: 1,
+      steps: [{ id: 'open', name: 'Open reports', action: 'navigate', value: '/reports' }],
+      expectedOutcome: 'Reports load',
+    });
+    await store.save({
+      id: 'browse',
+      name: 'Browse',
+      description: 'Home to about',
+      priority: 2,
+      steps: [
+        { id: 'open', name: 'Open home', action: 'navigate', value: '/' },
+        { id: 'title', name: 'Check title', action: 'assert', assertion: { type: 'title', expected: 'Todo' } },
+        { id: 'about', name: 'Go to about', action: 'click', selector: 'a[href="/about"]' },
+        { id: 'text', name: 'Check text', action: 'assert', assertion: { type: 'text', expected: 'About us' } },
+      ],
+      expectedOutcome: 'About page shows',
+    });
+
+    const flows = await store.list();
+    expect(flows.map(f => [f.id, f.steps.length])).toEqual([['reports', 1], ['browse', 4]]);
+    await expect(store.save({ id: 'bad', name: 'Bad', steps: [] } as never)).rejects.toThrow('Invalid user flow');
+  });
+
+  it('should run stored flows and record steps, snapshots and issues', async () => {
+    const qa = createQAAgent({ projectId, projectDir: '/tmp/qa-test', baseUrl });
+
+    const results = await qa.runE2ETests({ driver: 'http' });
+
+    expect(results.status).toBe('fail');
+    expect(results.summary).toMatchObject({ total: 2, passed: 1, failed: 1 });
+    expect(results.coverage).toEqual({ pages: 3, flows: 2, assertions: 2 });
+    expect(results.issues).toHaveLength(1);
+    expect(results.issues[0]).toMatchObject({
+      flowId: 'reports',
+      type: QAIssueType.NAVIGATION,
+      actual: '500',
+      testRunId: results.id,
+    });
+
+    const db = getDatabase();
+    const steps = await db.query<{ flow_id: string; step_id: string; status: string; duration: number; dom_snapshot: string | null }>(
+      `SELECT flow_id, step_id, status, duration, dom_snapshot FROM qa_test_results
+       WHERE test_run_id = $1 AND result_kind = 'step' ORDER BY created_at, step_index`,
+      [results.id]
+    );
+    expect(steps.rows.map(s => `${s.flow_id}/${s.step_id}:${s.status}`)).toEqual([
+      'reports/open:fail',
+      'browse/open:pass',
+      'browse/title:pass',
+      'browse/about:pass',
+      'browse/text:pass',
+    ]);
+    expect(steps.rows[0].dom_snapshot).toContain('Internal error');
+    expect(steps.rows[1].dom_snapshot).toBeNull();
+    expect(steps.rows.every(s => s.duration >= 0)).toBe(true);
+
+    const run = await db.query<{ status: string; test_type: string }>(
+      `SELECT status, test_type FROM qa_test_runs WHERE id = $1`,
+      [results.id]
+    );
+    expect(run.rows[0]).toEqual({ status: 'fail', test_type: 'e2e' });
+
+    const report = await qa.generateReport(results);
+    expect(report.coverage.pagesCovered).toBe(3);
+    expect(report.performance?.slowestPage).toMatch(/^http:\/\/127\.0\.0\.1/);
+  });
+
+  it('should record a single flow under its own run', async () => {
+    const qa = createQAAgent({ projectId, projectDir: '/tmp/qa-test', baseUrl });
+    const flow = (await new FlowStore(projectId).get('browse'))!;
+
+    const result = await qa.testUserFlow(flow, { config: { driver: 'http' } });
+
+    expect(result.status).toBe('pass');
+    expect(result.stepResults.map(s => s.status)).toEqual(['pass', 'pass', 'pass', 'pass']);
+
+    const run = await getDatabase().query<{ status: string; test_type: string }>(
+      `SELECT status, test_type FROM qa_test_runs WHERE id = $1`,
+      [result.testRunId]
+    );
+    expect(run.rows[0]).toEqual({ status: 'pass', test_type: 'flow' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for visual regression
+ * Pixel diffs of generated PNGs, and baselines on disk with the embedded database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PNG } from 'pngjs';
+import { getDatabase } from '../../lib/database.js';
+import { createQAAgent } from './index.js';
+import { VisualBaselineStore, diffImages, pageKey } from './visual.js';
+
+/**
+ * A white image with an optional black square in the top-left corner
+ */
+function makePng(width: number, height: number, square = 0): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = x < square && y < square ? 0 : 255;
+      png.data[i] = png.data[i + 1] = png.data[i + 2] = value;
+      png.data[i + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+describe('diffImages', () => {
+  it('should report identical images as unchanged', () => {
+    const result = diffImages(makePng(40, 40), makePng(40, 40));
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.diffPercentage).toBe(0);
+    expect(result.regions).toEqual([]);
+    expect(result.sizeMismatch).toBe(false);
+  });
+
+  it('should count changed pixels and locate them', () => {
+    const result = diffImages(makePng(40, 40), makePng(40, 40, 10));
+
+    expect(result.diffPixels).toBe(100);
+    expect(result.diffPercentage).toBe(6.25);
+    expect(result.regions.every(region => region.x < 10 && region.y < 10)).toBe(true);
+
+    const diff = PNG.sync.read(result.diffImage);
+    expect([diff.data[0], diff.data[1], diff.data[2]]).toEqual([255, 0, 0]);
+  });
+
+  it('should count the uncovered area when sizes differ', () => {
+    const result = diffImages(makePng(40, 40), makePng(40, 50));
+
+    expect(result.sizeMismatch).toBe(true);
+    expect(result.width).toBe(40);
+    expect(result.height).toBe(50);
+    expect(result.diffPixels).toBe(400);
+  });
+
+  it('should reject data that is not a PNG', () => {
+    expect(() => diffImages(Buffer.from('nope'), makePng(4, 4))).toThrow('Invalid baseline PNG');
+  });
+});
+
+describe('VisualBaselineStore', () => {
+  let rootDir: string;
+  let projectId: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'eklavya-visual-'));
+
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    const project = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('visual-test') RETURNING id`);
+    projectId = project.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await getDatabase().close();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should flag changed pages and accept them as the new baseline', async () => {
+    const store = new VisualBaselineStore(projectId, rootDir);
+    const viewport = { width: 40, height: 40 };
+
+    const baseline = await store.create('Main pages', [
+      { name: 'Home', path: '/', viewport, png: makePng(40, 40) },
+      { name: 'About', path: '/about', viewport, png: makePng(40, 40) },
+      { name: 'Pricing', path: '/pricing', viewport },
+    ]);
+    expect(baseline.pages[0].image).toBe(`baselines/${baseline.id}/${pageKey('Home', viewport)}.png`);
+    expect(baseline.pages[2].image).toBeUndefined();
+
+    const qa = createQAAgent({ projectId, projectDir: rootDir, visualDir: rootDir });
+    const run = await qa.runVisualRegression(baseline.id, {
+      screenshots: {
+        Home: makePng(40, 40),
+        About: makePng(40, 40, 20),
+        Pricing: makePng(40, 40, 5),
+      },
+    });
+
+    expect(run.status).toBe('fail');
+    expect(run.summary).toEqual({ total: 2, passed: 1, failed: 1, newPages: 1 });
+    const about = run.diffs.find(diff => diff.pageName === 'About')!;
+    expect(about.diffPercentage).toBe(25);
+    expect((await store.readImage(about.diffImage!)).length).toBeGreaterThan(0);
+
+    const stored = await getDatabase().query<{ baseline_id: string; status: string }>(
+      `SELECT baseline_id, status FROM qa_test_runs WHERE id = $1`,
+      [run.id]
+    );
+    expect(stored.rows[0]).toEqual({ baseline_id: baseline.id, status: 'fail' });
+
+    const accepted = await store.acceptRun(baseline.id, run.id, { pages: ['About', 'Pricing'], approvedBy: 'reviewer' });
+    expect(accepted.pages.find(page => page.name === 'Pricing')!.image).toBeDefined();
+    expect(accepted.pages.find(page => page.name === 'About')!.approvedBy).toBe('reviewer');
+    expect(accepted.pages.find(page => page.name === 'Home')!.approvedBy).toBeUndefined();
+
+    const rerun = await qa.runVisualRegression(baseline.id, {
+      screenshots: {
+        Home: makePng(40, 40),
+        About: makePng(40, 40, 20),
+        Pricing: makePng(40, 40, 5),
+      },
+    });
+    expect(rerun.status).toBe('pass');
+    expect(rerun.summary).toEqual({ total: 3, passed: 3, failed: 0, newPages: 0 });
+  });
+
+  it('should refuse image references outside the project', () => {
+    const store = new VisualBaselineStore(projectId, rootDir);
+
+    expect(() => store.resolveImage('../other/baselines/x/home@1x1.png')).toThrow('Invalid image reference');
+    expect(() => store.resolveImage('runs/x/notes.txt')).toThrow('Invalid image reference');
+  });
+});
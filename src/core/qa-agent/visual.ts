@@ -0,0 +1,388 @@
+/**
+ * QA Visual Baselines
+ *
+ * Baseline screenshots live on local disk, one PNG per page and viewport:
+ *
+ *   <root>/<projectId>/baselines/<baselineId>/<page>@<width>x<height>.png
+ *   <root>/<projectId>/runs/<runId>/<page>@<width>x<height>.png       (current)
+ *   <root>/<projectId>/runs/<runId>/<page>@<width>x<height>.diff.png  (diff)
+ *
+ * The visual_baselines row lists the pages. Images are referred to by their
+ * path relative to the project directory ("runs/<runId>/home@1280x720.png"),
+ * which is also how the API serves them.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve, sep } from 'path';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { getDatabase } from '../../lib/database.js';
+
+/**
+ * Where visual baselines and run images are kept
+ */
+export const DEFAULT_VISUAL_DIR = process.env.EKLAVYA_VISUAL_DIR || join(homedir(), '.eklavya', 'visual');
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+/**
+ * A page in a baseline
+ */
+export interface BaselinePage {
+  name: string;
+  path: string;          // Route on the preview
+  viewport: Viewport;
+  image?: string;        // Image reference; missing until a screenshot is accepted
+  hash?: string;         // sha256 of the PNG
+  approvedAt?: Date;
+  approvedBy?: string;
+}
+
+export interface VisualBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  pages: BaselinePage[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Pixel comparison of two screenshots
+ */
+export interface PixelDiff {
+  width: number;
+  height: number;
+  diffPixels: number;
+  diffPercentage: number;  // 0-100
+  sizeMismatch: boolean;
+  diffImage: Buffer;       // PNG: baseline dimmed, differences in red
+  regions: Array<{ x: number; y: number; width: number; height: number; diffPercentage: number }>;
+}
+
+export interface PixelDiffOptions {
+  colorThreshold?: number;  // Per-pixel color distance, 0-1 (default 0.1)
+  gridSize?: number;        // Regions are cells of a gridSize x gridSize grid (default 8)
+}
+
+interface VisualBaselineRow {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  pages: BaselinePage[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================================================
+// Pixel diff
+// ============================================================================
+
+function decodePng(png: Buffer, label: string): PNG {
+  try {
+    return PNG.sync.read(png);
+  } catch (error) {
+    throw new Error(`Invalid ${label} PNG: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+}
+
+/**
+ * Copy an image onto a canvas of the given size, leaving the rest
+ * transparent
+ */
+function padTo(image: PNG, width: number, height: number): Buffer {
+  if (image.width === width && image.height === height) {
+    return image.data;
+  }
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(data, y * width * 4, y * image.width * 4, (y + 1) * image.width * 4);
+  }
+  return data;
+}
+
+/**
+ * Compare two PNG screenshots pixel by pixel. Anti-aliasing differences
+ * are ignored; when sizes differ, the area only one image covers counts
+ * as changed.
+ * @throws Error if either buffer is not a PNG
+ */
+export function diffImages(baseline: Buffer, current: Buffer, options: PixelDiffOptions = {}): PixelDiff {
+  const before = decodePng(baseline, 'baseline');
+  const after = decodePng(current, 'current');
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const gridSize = options.gridSize ?? 8;
+
+  const diff = new PNG({ width, height });
+  let diffPixels = pixelmatch(padTo(before, width, height), padTo(after, width, height), diff.data, width, height, {
+    threshold: options.colorThreshold ?? 0.1,
+    diffColor: [255, 0, 0],
+    alpha: 0.2,
+  });
+
+  // Padding is transparent, which pixelmatch blends to white; mark the
+  // area outside the overlap as changed regardless of its content
+  const overlapWidth = Math.min(before.width, after.width);
+  const overlapHeight = Math.min(before.height, after.height);
+  for (let y = 0; y < height; y++) {
+    for (let x = y < overlapHeight ? overlapWidth : 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (diff.data[i] === 255 && diff.data[i + 1] === 0 && diff.data[i + 2] === 0) continue;
+      diff.data[i] = 255;
+      diff.data[i + 1] = 0;
+      diff.data[i + 2] = 0;
+      diff.data[i + 3] = 255;
+      diffPixels++;
+    }
+  }
+
+  // Count changed pixels per grid cell; pixelmatch paints them diffColor
+  const cellWidth = Math.ceil(width / gridSize);
+  const cellHeight = Math.ceil(height / gridSize);
+  const counts = new Array<number>(gridSize * gridSize).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (diff.data[i] === 255 && diff.data[i + 1] === 0 && diff.data[i + 2] === 0) {
+        counts[Math.floor(y / cellHeight) * gridSize + Math.floor(x / cellWidth)]++;
+      }
+    }
+  }
+
+  const regions: PixelDiff['regions'] = [];
+  counts.forEach((count, cell) => {
+    if (count === 0) return;
+    const x = (cell % gridSize) * cellWidth;
+    const y = Math.floor(cell / gridSize) * cellHeight;
+    const regionWidth = Math.min(cellWidth, width - x);
+    const regionHeight = Math.min(cellHeight, height - y);
+    regions.push({
+      x,
+      y,
+      width: regionWidth,
+      height: regionHeight,
+      diffPercentage: Math.round((count / (regionWidth * regionHeight)) * 10000) / 100,
+    });
+  });
+
+  return {
+    width,
+    height,
+    diffPixels,
+    diffPercentage: width * height > 0 ? Math.round((diffPixels / (width * height)) * 10000) / 100 : 0,
+    sizeMismatch: before.width !== after.width || before.height !== after.height,
+    diffImage: PNG.sync.write(diff),
+    regions,
+  };
+}
+
+// ============================================================================
+// Baseline store
+// ============================================================================
+
+/**
+ * File name for a page at a viewport, e.g. "checkout@1280x720"
+ */
+export function pageKey(name: string, viewport: Viewport): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'page';
+  return `${slug}@${viewport.width}x${viewport.height}`;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export class VisualBaselineStore {
+  private projectDir: string;
+
+  constructor(private projectId: string, rootDir: string = DEFAULT_VISUAL_DIR) {
+    this.projectDir = join(rootDir, projectId);
+  }
+
+  /**
+   * Absolute path of an image reference.
+   * @throws Error if the reference points outside the project's directory
+   */
+  resolveImage(ref: string): string {
+    const path = resolve(this.projectDir, ref);
+    if (!path.startsWith(this.projectDir + sep) || !path.endsWith('.png')) {
+      throw new Error(`Invalid image reference: ${ref}`);
+    }
+    return path;
+  }
+
+  async readImage(ref: string): Promise<Buffer> {
+    return readFile(this.resolveImage(ref));
+  }
+
+  async writeImage(ref: string, png: Buffer): Promise<void> {
+    const path = this.resolveImage(ref);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, png);
+  }
+
+  /**
+   * Image references for a page in a visual regression run
+   */
+  runImages(runId: string, page: Pick<BaselinePage, 'name' | 'viewport'>): { current: string; diff: string } {
+    const key = pageKey(page.name, page.viewport);
+    return { current: `runs/${runId}/${key}.png`, diff: `runs/${runId}/${key}.diff.png` };
+  }
+
+  async list(options: { includeInactive?: boolean } = {}): Promise<VisualBaseline[]> {
+    const db = getDatabase();
+    const result = await db.query<VisualBaselineRow>(
+      `SELECT * FROM visual_baselines
+       WHERE project_id = $1 AND ($2 OR active = true)
+       ORDER BY created_at DESC`,
+      [this.projectId, options.includeInactive || false]
+    );
+    return result.rows.map(row => this.mapRowToBaseline(row));
+  }
+
+  async get(baselineId: string): Promise<VisualBaseline | null> {
+    const db = getDatabase();
+    const result = await db.query<VisualBaselineRow>(
+      `SELECT * FROM visual_baselines WHERE id = $1 AND project_id = $2`,
+      [baselineId, this.projectId]
+    );
+    return result.rows.length > 0 ? this.mapRowToBaseline(result.rows[0]) : null;
+  }
+
+  /**
+   * Create a baseline. Pages given a screenshot are approved right away;
+   * the rest get one when a run's screenshots are accepted.
+   * @throws Error if a page is listed twice for the same viewport
+   */
+  async create(
+    name: string,
+    pages: Array<Omit<BaselinePage, 'image' | 'hash' | 'approvedAt' | 'approvedBy'> & { png?: Buffer }>,
+    options: { description?: string; approvedBy?: string } = {}
+  ): Promise<VisualBaseline> {
+    const keys = pages.map(page => pageKey(page.name, page.viewport));
+    const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate baseline page: ${duplicate}`);
+    }
+
+    const db = getDatabase();
+    const result = await db.query<VisualBaselineRow>(
+      `INSERT INTO visual_baselines (project_id, name, description, pages)
+       VALUES ($1, $2, $3, '[]') RETURNING *`,
+      [this.projectId, name, options.description || null]
+    );
+    const baselineId = result.rows[0].id;
+
+    const stored: BaselinePage[] = [];
+    for (const { png, ...page } of pages) {
+      stored.push(png ? await this.storePageImage(baselineId, page, png, options.approvedBy) : page);
+    }
+    return this.savePages(baselineId, stored);
+  }
+
+  /**
+   * Make a run's screenshots the new baseline, after an intentional UI
+   * change. Accepts every page the run captured unless pages are named.
+   * @throws Error if the baseline doesn't exist or a named page has no screenshot in the run
+   */
+  async acceptRun(
+    baselineId: string,
+    runId: string,
+    options: { pages?: string[]; approvedBy?: string } = {}
+  ): Promise<VisualBaseline> {
+    const baseline = await this.get(baselineId);
+    if (!baseline) {
+      throw new Error(`Baseline not found: ${baselineId}`);
+    }
+
+    const unknown = (options.pages || []).filter(name => !baseline.pages.some(page => page.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Pages not in baseline: ${unknown.join(', ')}`);
+    }
+
+    let accepted = 0;
+    const pages: BaselinePage[] = [];
+    for (const page of baseline.pages) {
+      if (options.pages && !options.pages.includes(page.name)) {
+        pages.push(page);
+        continue;
+      }
+
+      let png: Buffer;
+      try {
+        png = await this.readImage(this.runImages(runId, page).current);
+      } catch {
+        if (options.pages) {
+          throw new Error(`No screenshot of ${page.name} in run ${runId}`);
+        }
+        pages.push(page);
+        continue;
+      }
+
+      pages.push(await this.storePageImage(baselineId, page, png, options.approvedBy));
+      accepted++;
+    }
+
+    if (accepted === 0) {
+      throw new Error(`No screenshots to accept in run ${runId}`);
+    }
+    return this.savePages(baselineId, pages);
+  }
+
+  async deactivate(baselineId: string): Promise<boolean> {
+    const db = getDatabase();
+    const result = await db.query(
+      `UPDATE visual_baselines SET active = false, updated_at = NOW() WHERE id = $1 AND project_id = $2`,
+      [baselineId, this.projectId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async storePageImage(
+    baselineId: string,
+    page: BaselinePage,
+    png: Buffer,
+    approvedBy?: string
+  ): Promise<BaselinePage> {
+    decodePng(png, page.name);
+    const image = `baselines/${baselineId}/${pageKey(page.name, page.viewport)}.png`;
+    await this.writeImage(image, png);
+    return { ...page, image, hash: sha256(png), approvedAt: new Date(), approvedBy };
+  }
+
+  private async savePages(baselineId: string, pages: BaselinePage[]): Promise<VisualBaseline> {
+    const db = getDatabase();
+    const result = await db.query<VisualBaselineRow>(
+      `UPDATE visual_baselines SET pages = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+      [JSON.stringify(pages), baselineId]
+    );
+    return this.mapRowToBaseline(result.rows[0]);
+  }
+
+  private mapRowToBaseline(row: VisualBaselineRow): VisualBaseline {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      name: row.name,
+      description: row.description || undefined,
+      pages: (row.pages || []).map(page => ({
+        ...page,
+        approvedAt: page.approvedAt ? new Date(page.approvedAt) : undefined,
+      })),
+      active: row.active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
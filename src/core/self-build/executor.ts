@@ -10,9 +10,16 @@
  */
 
 import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
 import { getDatabase } from '../../lib/database.js';
+import { getRuntimeRegistry } from '../agent-manager/runtime.js';
+import { AgentOutputParser } from '../agent-manager/output-parser.js';
 import { SelfBuildConfig } from './index.js';
-import { ExecutionPhase, TaskDefinition, AgentType } from './planner.js';
+import { ExecutionPhase, TaskDefinition } from './planner.js';
 
 export interface TaskResult {
   taskId: string;
@@ -339,7 +346,8 @@ export class PhaseExecutor extends EventEmitter {
   }
 
   /**
-   * Execute task with real agent.
+   * Execute task with real agent, launched through the runtime
+   * configured for the task's agent type.
    */
   private async executeTaskReal(
     runId: string,
@@ -348,113 +356,117 @@ export class PhaseExecutor extends EventEmitter {
     startTime: number
   ): Promise<{ taskResult: TaskResult; agentResult?: AgentResult }> {
     const db = getDatabase();
+    const agentId = uuidv4();
 
-    // In a real implementation, this would:
-    // 1. Spawn a Claude Code agent with the appropriate prompt
-    // 2. Pass the task specification to the agent
-    // 3. Monitor agent progress
-    // 4. Handle agent output and completion
-
-    // For now, we'll create a placeholder implementation that
-    // could be connected to the real agent manager
+    const runtime = getRuntimeRegistry().resolve(task.agentType, config.agentRuntime);
+    const workingDirectory = path.join(
+      config.workingDirectory || path.join(os.tmpdir(), 'eklavya', 'self-build'),
+      runId,
+      task.id
+    );
+    await fs.mkdir(workingDirectory, { recursive: true });
 
-    // Check if we have an agent manager available
-    const agentManager = await this.getAgentManager();
+    const child = runtime.launch({
+      agentId,
+      projectId: runId, // Use runId as project context
+      agentType: task.agentType,
+      workingDirectory,
+      taskDescription: `${task.title}\n\n${task.specification || task.description}`,
+    });
 
-    if (agentManager) {
-      // Use real agent manager
-      const agent = await agentManager.spawnAgent({
-        type: task.agentType,
-        projectId: runId, // Use runId as project context
-        taskId: task.id,
-        specification: task.specification,
-      });
+    // Read both pipes so a chatty agent never blocks on a full buffer. Nothing
+    // steers a self-build agent, so its stdin is closed once it reports a result.
+    const parser = new AgentOutputParser();
+    parser.attach(child);
+    parser.once('result', () => child.stdin?.end());
 
-      // Increment agent count
-      await db.query(`SELECT increment_self_build_agents($1)`, [runId]);
+    // Increment agent count
+    await db.query(`SELECT increment_self_build_agents($1)`, [runId]);
 
-      this.emit('agent:spawned', {
-        runId,
-        agentId: agent.id,
-        agentType: task.agentType,
-        taskId: task.id,
-      });
+    this.emit('agent:spawned', {
+      runId,
+      agentId,
+      agentType: task.agentType,
+      taskId: task.id,
+      runtime: runtime.name,
+    });
 
-      // Wait for agent completion (with timeout)
-      const maxTime = config.maxExecutionTime
-        ? config.maxExecutionTime * 60 * 1000
-        : 60 * 60 * 1000;
-      const taskTimeout = Math.min(task.estimatedDurationMs * 3, maxTime);
+    // Wait for agent completion (with timeout)
+    const maxTime = config.maxExecutionTime
+      ? config.maxExecutionTime * 60 * 1000
+      : 60 * 60 * 1000;
+    const taskTimeout = Math.min(task.estimatedDurationMs * 3, maxTime);
 
-      const result = await Promise.race([
-        agentManager.waitForCompletion(agent.id),
-        this.timeout(taskTimeout),
-      ]);
+    let exitCode: number | undefined;
+    let error: string | undefined;
+    try {
+      exitCode = await this.withTimeout(this.waitForExit(child), taskTimeout);
+      const reported = parser.getSummary().result;
+      if (exitCode !== 0) {
+        error = `Agent exited with code ${exitCode}`;
+      } else if (reported && !reported.success) {
+        error = 'Agent reported failure';
+      }
+    } catch (err) {
+      child.kill('SIGKILL');
+      error = err instanceof Error ? err.message : 'Task failed';
+    }
 
-      const executionTimeMs = Date.now() - startTime;
-      const success = result && result.success;
+    const executionTimeMs = Date.now() - startTime;
+    const success = !error;
 
-      await db.query(
-        `SELECT complete_self_build_task($1, $2, $3)`,
-        [task.id, success, success ? null : (result?.error || 'Task failed')]
-      );
+    await db.query(
+      `SELECT complete_self_build_task($1, $2, $3)`,
+      [task.id, success, error || null]
+    );
 
-      const taskResult: TaskResult = {
-        taskId: task.id,
-        title: task.title,
-        type: task.type,
-        status: success ? 'completed' : 'failed',
-        agentId: agent.id,
-        executionTimeMs,
-        error: success ? undefined : (result?.error || 'Task failed'),
-      };
+    const taskResult: TaskResult = {
+      taskId: task.id,
+      title: task.title,
+      type: task.type,
+      status: success ? 'completed' : 'failed',
+      agentId,
+      executionTimeMs,
+      error,
+    };
 
-      const agentResult: AgentResult = {
-        agentId: agent.id,
-        type: task.agentType,
-        promptId: agent.promptId || `prompt-${task.agentType}`,
-        status: success ? 'completed' : 'failed',
-        exitCode: result?.exitCode,
-        tokensUsed: result?.tokensUsed,
-        executionTimeMs,
-      };
+    const agentResult: AgentResult = {
+      agentId,
+      type: task.agentType,
+      promptId: `prompt-${task.agentType}`,
+      status: success ? 'completed' : 'failed',
+      exitCode,
+      tokensUsed: parser.getSummary().totalTokens,
+      executionTimeMs,
+    };
 
-      this.emit('agent:completed', { runId, result: agentResult });
-      this.emit('task:completed', { runId, result: taskResult });
+    this.emit('agent:completed', { runId, result: agentResult });
+    this.emit('task:completed', { runId, result: taskResult });
 
-      return { taskResult, agentResult };
-    } else {
-      // Fallback to simulated mode if no agent manager available
-      console.warn('No agent manager available, falling back to simulated execution');
-      return this.executeTaskSimulated(runId, task, { ...config, simulatedMode: true }, startTime);
-    }
+    return { taskResult, agentResult };
   }
 
   /**
-   * Get the agent manager if available.
+   * Resolve with the exit code of an agent process once its output has
+   * been read to the end.
    */
-  private async getAgentManager(): Promise<AgentManagerInterface | null> {
-    try {
-      // Try to import the agent manager dynamically
-      const module = await import('../agent-manager/index.js');
-      if (module.AgentManager) {
-        // AgentManager class exists but we can't create an instance without config
-        // Return null since we don't have the required configuration
-        return null;
-      }
-    } catch {
-      // Agent manager not available
-    }
-    return null;
+  private waitForExit(child: ChildProcess): Promise<number> {
+    return new Promise((resolve, reject) => {
+      child.once('error', reject);
+      child.once('close', (code) => resolve(code ?? -1));
+    });
   }
 
   /**
-   * Create a timeout promise.
+   * Reject if the promise has not settled within `ms`; the timer is
+   * cleared as soon as it does.
    */
-  private timeout(ms: number): Promise<null> {
-    return new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Task execution timeout')), ms);
+  private withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Task execution timeout')), ms);
     });
+    return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
   }
 
   /**
@@ -465,25 +477,6 @@ export class PhaseExecutor extends EventEmitter {
   }
 }
 
-/**
- * Interface for agent manager (to avoid circular dependencies).
- */
-interface AgentManagerInterface {
-  spawnAgent(options: {
-    type: AgentType;
-    projectId: string;
-    taskId: string;
-    specification?: string;
-  }): Promise<{ id: string; promptId?: string }>;
-
-  waitForCompletion(agentId: string): Promise<{
-    success: boolean;
-    error?: string;
-    exitCode?: number;
-    tokensUsed?: number;
-  }>;
-}
-
 // Factory function
 export function createPhaseExecutor(): PhaseExecutor {
   return new PhaseExecutor();
@@ -11,6 +11,7 @@
 
 import { EventEmitter } from 'events';
 import { getDatabase } from '../../lib/database.js';
+import type { AgentRuntimeConfig } from '../../types/index.js';
 import { ExecutionPlanGenerator, ExecutionPlan, ExecutionPhase } from './planner.js';
 import { PhaseExecutor, PhaseResult, TaskResult, AgentResult } from './executor.js';
 
@@ -27,6 +28,8 @@ export interface SelfBuildConfig {
   simulatedMode?: boolean;    // For testing without real agents
   simulatedDuration?: number; // ms per task in simulated mode
   simulatedSuccessRate?: number; // 0.0 - 1.0
+  agentRuntime?: AgentRuntimeConfig; // Runtime per agent type for real execution
+  workingDirectory?: string;  // Root for agent working directories
 }
 
 export interface SelfBuildResult {
@@ -11,6 +11,7 @@
 
 import { EventEmitter } from 'events';
 import { SelfBuildConfig } from './index.js';
+import { computeCriticalPaths } from '../orchestrator/scheduler.js';
 
 export type TaskType = 'architecture' | 'development' | 'testing' | 'qa' | 'documentation';
 export type AgentType = 'orchestrator' | 'architect' | 'developer' | 'tester' | 'qa' | 'pm' | 'uat' | 'sre' | 'monitor' | 'mentor';
@@ -269,6 +270,8 @@ export class ExecutionPlanGenerator extends EventEmitter {
 
   /**
    * Estimate the topological order for task execution.
+   * Among ready tasks, the one heading the longest remaining chain of work
+   * goes first so slow branches start early; priority breaks ties.
    */
   getExecutionOrder(tasks: TaskDefinition[]): TaskDefinition[] {
     const taskMap = new Map<string, TaskDefinition>();
@@ -292,6 +295,15 @@ export class ExecutionPlanGenerator extends EventEmitter {
       }
     }
 
+    // Tasks on a cycle never become ready, so a cyclic graph still gets a
+    // partial order, just ranked by priority alone
+    let criticalPaths = new Map<string, number>();
+    try {
+      criticalPaths = computeCriticalPaths(tasks);
+    } catch {
+      // Circular dependency
+    }
+
     // Topological sort using Kahn's algorithm
     const queue: string[] = [];
     for (const [taskId, degree] of inDegree) {
@@ -302,11 +314,12 @@ export class ExecutionPlanGenerator extends EventEmitter {
 
     const result: TaskDefinition[] = [];
     while (queue.length > 0) {
-      // Sort by priority (higher priority first)
+      // Longest critical path first, then priority (lower number first)
       queue.sort((a, b) => {
         const taskA = taskMap.get(a)!;
         const taskB = taskMap.get(b)!;
-        return taskA.priority - taskB.priority;
+        return (criticalPaths.get(b) || 0) - (criticalPaths.get(a) || 0) ||
+          taskA.priority - taskB.priority;
       });
 
       const taskId = queue.shift()!;
@@ -0,0 +1,166 @@
+/**
+ * Tests for Workflow Definitions
+ * Parsing, validation, gates and the definition registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_WORKFLOW,
+  WorkflowRegistry,
+  evaluateGates,
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './definition.js';
+import type { BuildResult } from './engine.js';
+
+const SECURE_RELEASE = `
+name: secure-release
+phases:
+  - id: architect
+    type: architect
+  - id: build
+    type: build
+  - id: security-review
+    type: agent
+    agentType: architect
+    description: Review the code for security issues
+    gates:
+      - type: max_failed_tasks
+        max: 0
+  - id: deploy
+    type: agent
+    agentType: sre
+    description: Deploy to staging
+`;
+
+function buildResult(overrides: Partial<BuildResult> = {}): BuildResult {
+  return {
+    success: true,
+    tasksCompleted: 5,
+    tasksFailed: 0,
+    duration: 1000,
+    artifacts: [],
+    errors: [],
+    ...overrides,
+  };
+}
+
+describe('Workflow Definitions', () => {
+  describe('parseWorkflowDefinition', () => {
+    it('should parse a YAML definition', () => {
+      const definition = parseWorkflowDefinition(SECURE_RELEASE);
+
+      expect(definition.name).toBe('secure-release');
+      expect(definition.phases.map(p => p.id)).toEqual(['architect', 'build', 'security-review', 'deploy']);
+      expect(definition.phases[2].gates).toEqual([{ type: 'max_failed_tasks', max: 0 }]);
+    });
+
+    it('should parse a JSON definition', () => {
+      const definition = parseWorkflowDefinition(JSON.stringify({
+        name: 'internal-tool',
+        phases: [{ id: 'architect', type: 'architect' }, { id: 'build', type: 'build' }],
+      }), 'json');
+
+      expect(definition.phases).toHaveLength(2);
+    });
+
+    it('should reject malformed content and invalid definitions', () => {
+      expect(() => parseWorkflowDefinition('name: [unclosed')).toThrow('Invalid workflow YAML');
+      expect(() => parseWorkflowDefinition('name: empty\nphases: []')).toThrow('Invalid workflow definition');
+    });
+  });
+
+  describe('validateWorkflowDefinition', () => {
+    it('should accept the default workflow', () => {
+      expect(validateWorkflowDefinition(DEFAULT_WORKFLOW)).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should report unknown phase types and agent types', () => {
+      const { valid, errors } = validateWorkflowDefinition({
+        name: 'bad',
+        phases: [{ id: 'x', type: 'deploy' }, { id: 'y', type: 'agent', agentType: 'wizard' }],
+      });
+
+      expect(valid).toBe(false);
+      expect(errors.some(e => e.startsWith('phases.0.type'))).toBe(true);
+      expect(errors.some(e => e.startsWith('phases.1.agentType'))).toBe(true);
+    });
+
+    it('should enforce the rules between phases', () => {
+      const { errors } = validateWorkflowDefinition({
+        name: 'bad',
+        phases: [
+          { id: 'build', type: 'build' },
+          { id: 'architect', type: 'architect', gates: [{ type: 'tasks_succeeded' }] },
+          { id: 'demo', type: 'demo' },
+          { id: 'deploy', type: 'agent', agentType: 'sre', approval: true },
+          { id: 'demo', type: 'demo', demoType: 'wow' },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'Phase build needs an architect phase before it to provide tasks',
+        'Phase architect: gates are only supported on build, agent and testing phases',
+        'Demo phase demo requires a demoType',
+        'Agent phase deploy requires an agentType and a description',
+        'Phase deploy: approval is only supported on demo phases',
+        'Phase demo is defined more than once',
+      ]);
+    });
+  });
+
+  describe('evaluateGates', () => {
+    it('should require every task to succeed without gates', () => {
+      expect(evaluateGates(undefined, buildResult())).toEqual([]);
+      expect(evaluateGates([], buildResult({ success: false, tasksFailed: 2, errors: ['2 tasks failed'] })))
+        .toEqual(['2 tasks failed']);
+    });
+
+    it('should apply failure and completion thresholds', () => {
+      const result = buildResult({ success: false, tasksCompleted: 3, tasksFailed: 2 });
+
+      expect(evaluateGates([{ type: 'max_failed_tasks', max: 2 }], result)).toEqual([]);
+      expect(evaluateGates([{ type: 'max_failed_tasks', max: 1 }], result)).toEqual(['2 tasks failed (max 1)']);
+      expect(evaluateGates([{ type: 'min_tasks_completed', min: 4 }], result)).toEqual(['3 tasks completed (min 4)']);
+    });
+  });
+
+  describe('WorkflowRegistry', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-workflows-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should always provide the default workflow', () => {
+      const registry = new WorkflowRegistry();
+
+      expect(registry.get('default')).toBe(DEFAULT_WORKFLOW);
+      expect(() => registry.get('missing')).toThrow('Unknown workflow: missing');
+    });
+
+    it('should load definitions from a directory', async () => {
+      await fs.writeFile(path.join(tempDir, 'secure-release.yaml'), SECURE_RELEASE);
+      await fs.writeFile(path.join(tempDir, 'notes.txt'), 'ignored');
+
+      const registry = new WorkflowRegistry();
+      const loaded = await registry.loadDirectory(tempDir);
+
+      expect(loaded.map(d => d.name)).toEqual(['secure-release']);
+      expect(registry.list().map(d => d.name)).toEqual(['default', 'secure-release']);
+    });
+
+    it('should name the file when a definition is invalid', async () => {
+      await fs.writeFile(path.join(tempDir, 'broken.json'), '{"name": "broken", "phases": []}');
+
+      await expect(new WorkflowRegistry().loadDirectory(tempDir)).rejects.toThrow('broken.json');
+    });
+  });
+});
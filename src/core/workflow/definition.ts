@@ -0,0 +1,283 @@
+/**
+ * Workflow Definitions
+ * Declarative pipelines for the workflow engine.
+ *
+ * A definition is an ordered list of phases, written in YAML or JSON:
+ *
+ *   name: secure-release
+ *   phases:
+ *     - id: architect
+ *       type: architect
+ *     - id: build
+ *       type: build
+ *     - id: security-review
+ *       type: agent
+ *       agentType: architect
+ *       description: Review the code for security issues
+ *       gates:
+ *         - type: max_failed_tasks
+ *           max: 0
+ *     - id: deploy
+ *       type: agent
+ *       agentType: sre
+ *       description: Deploy to staging
+ *
+ * Phase types:
+ * - architect: generate the architecture and task breakdown
+ * - demo: build a demo from part of the task breakdown; `approval: true`
+ *   waits for an approval decision before moving on
+ * - build: build every task from the task breakdown
+ * - agent: run one task on an agent of the given type
+ * - testing: mark the testing phase, or run a task when `agentType` is set
+ *
+ * Gates are checked after build, agent and testing phases. A phase whose
+ * gates fail fails the workflow. Without gates every task must succeed.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { AgentTypeEnum } from '../../types/index.js';
+import type { BuildResult } from './engine.js';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const DEFAULT_WORKFLOW_NAME = 'default';
+
+export const DEFAULT_WORKFLOWS_DIR = process.env.EKLAVYA_WORKFLOWS_DIR ||
+  path.join(process.cwd(), 'workflows');
+
+const WORKFLOW_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export const WorkflowPhaseTypeEnum = z.enum(['architect', 'demo', 'build', 'agent', 'testing']);
+
+export const WorkflowGateSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('tasks_succeeded') }),
+  z.object({ type: z.literal('max_failed_tasks'), max: z.number().int().min(0) }),
+  z.object({ type: z.literal('min_tasks_completed'), min: z.number().int().min(0) }),
+]);
+
+export const WorkflowPhaseDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'must be lowercase letters, digits, - or _'),
+  type: WorkflowPhaseTypeEnum,
+  name: z.string().optional(),
+  description: z.string().optional(),
+  agentType: AgentTypeEnum.optional(),
+  demoType: z.enum(['wow', 'trust', 'milestone', 'final']).optional(),
+  approval: z.boolean().optional(),
+  gates: z.array(WorkflowGateSchema).optional(),
+});
+
+export const WorkflowDefinitionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  phases: z.array(WorkflowPhaseDefinitionSchema).min(1),
+});
+
+export type WorkflowPhaseType = z.infer<typeof WorkflowPhaseTypeEnum>;
+export type WorkflowGate = z.infer<typeof WorkflowGateSchema>;
+export type WorkflowPhaseDefinition = z.infer<typeof WorkflowPhaseDefinitionSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+/**
+ * The original pipeline: architect, wow and trust demos with approvals,
+ * full build, testing.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: DEFAULT_WORKFLOW_NAME,
+  description: 'Architect, wow and trust demos with approval, then the full build',
+  phases: [
+    { id: 'architect', type: 'architect' },
+    { id: 'wow', type: 'demo', demoType: 'wow', approval: true },
+    { id: 'trust', type: 'demo', demoType: 'trust', approval: true },
+    { id: 'build', type: 'build' },
+    { id: 'testing', type: 'testing' },
+  ],
+};
+
+// ============================================================================
+// Validation & parsing
+// ============================================================================
+
+/**
+ * Check a definition's structure and the rules between its phases.
+ */
+export function validateWorkflowDefinition(definition: unknown): { valid: boolean; errors: string[] } {
+  const parsed = WorkflowDefinitionSchema.safeParse(definition);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`),
+    };
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let hasArchitect = false;
+
+  for (const phase of parsed.data.phases) {
+    if (seen.has(phase.id)) {
+      errors.push(`Phase ${phase.id} is defined more than once`);
+    }
+    seen.add(phase.id);
+
+    if ((phase.type === 'build' || phase.type === 'demo') && !hasArchitect) {
+      errors.push(`Phase ${phase.id} needs an architect phase before it to provide tasks`);
+    }
+    if (phase.type === 'demo' && !phase.demoType) {
+      errors.push(`Demo phase ${phase.id} requires a demoType`);
+    }
+    if (phase.type === 'agent' && (!phase.agentType || !phase.description)) {
+      errors.push(`Agent phase ${phase.id} requires an agentType and a description`);
+    }
+    if (phase.type === 'testing' && phase.agentType && !phase.description) {
+      errors.push(`Testing phase ${phase.id} requires a description when it runs an agent`);
+    }
+    if (phase.approval && phase.type !== 'demo') {
+      errors.push(`Phase ${phase.id}: approval is only supported on demo phases`);
+    }
+    if (phase.gates && (phase.type === 'architect' || phase.type === 'demo')) {
+      errors.push(`Phase ${phase.id}: gates are only supported on build, agent and testing phases`);
+    }
+
+    if (phase.type === 'architect') {
+      hasArchitect = true;
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse a YAML or JSON definition and validate it.
+ *
+ * @throws {Error} If the content can't be parsed or the definition is invalid
+ */
+export function parseWorkflowDefinition(content: string, format: 'yaml' | 'json' = 'yaml'): WorkflowDefinition {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid workflow ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { valid, errors } = validateWorkflowDefinition(raw);
+  if (!valid) {
+    throw new Error(`Invalid workflow definition: ${errors.join('; ')}`);
+  }
+
+  return WorkflowDefinitionSchema.parse(raw);
+}
+
+/**
+ * Gate failures for a phase's build result. Phases without gates require
+ * every task to succeed.
+ */
+export function evaluateGates(gates: WorkflowGate[] | undefined, result: BuildResult): string[] {
+  const failures: string[] = [];
+
+  for (const gate of gates && gates.length > 0 ? gates : [{ type: 'tasks_succeeded' } as WorkflowGate]) {
+    switch (gate.type) {
+      case 'tasks_succeeded':
+        if (!result.success) {
+          failures.push(result.errors.join(', ') || `${result.tasksFailed} tasks failed`);
+        }
+        break;
+      case 'max_failed_tasks':
+        if (result.tasksFailed > gate.max) {
+          failures.push(`${result.tasksFailed} tasks failed (max ${gate.max})`);
+        }
+        break;
+      case 'min_tasks_completed':
+        if (result.tasksCompleted < gate.min) {
+          failures.push(`${result.tasksCompleted} tasks completed (min ${gate.min})`);
+        }
+        break;
+    }
+  }
+
+  return failures;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * WorkflowRegistry holds the named workflow definitions. The default
+ * workflow is always registered.
+ */
+export class WorkflowRegistry {
+  private definitions: Map<string, WorkflowDefinition> = new Map();
+
+  constructor() {
+    this.register(DEFAULT_WORKFLOW);
+  }
+
+  /**
+   * Register (or replace) a definition.
+   *
+   * @throws {Error} If the definition is invalid
+   */
+  register(definition: WorkflowDefinition): void {
+    const { valid, errors } = validateWorkflowDefinition(definition);
+    if (!valid) {
+      throw new Error(`Invalid workflow definition: ${errors.join('; ')}`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  get(name: string): WorkflowDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown workflow: ${name}`);
+    }
+    return definition;
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  list(): WorkflowDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Load every .yaml, .yml and .json definition in a directory.
+   * A missing directory loads nothing; an invalid file throws.
+   */
+  async loadDirectory(dir: string = DEFAULT_WORKFLOWS_DIR): Promise<WorkflowDefinition[]> {
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    const loaded: WorkflowDefinition[] = [];
+
+    for (const name of names.sort()) {
+      const extension = path.extname(name).toLowerCase();
+      if (!WORKFLOW_FILE_EXTENSIONS.includes(extension)) continue;
+
+      const content = await fs.readFile(path.join(dir, name), 'utf-8');
+      try {
+        const definition = parseWorkflowDefinition(content, extension === '.json' ? 'json' : 'yaml');
+        this.register(definition);
+        loaded.push(definition);
+      } catch (error) {
+        throw new Error(`${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return loaded;
+  }
+}
+
+// Singleton instance
+let workflowRegistry: WorkflowRegistry | null = null;
+
+export function getWorkflowRegistry(): WorkflowRegistry {
+  if (!workflowRegistry) {
+    workflowRegistry = new WorkflowRegistry();
+  }
+  return workflowRegistry;
+}
@@ -8,6 +8,7 @@
  * - Spawns agents via orchestrator
  * - Handles approval gates
  * - Progresses through phases automatically
+ * - Persists every step so in-flight workflows resume after a restart
  */
 
 import { EventEmitter } from 'events';
@@ -16,7 +17,7 @@ import path from 'path';
 import fs from 'fs/promises';
 import { getDatabase } from '../../lib/database.js';
 import { AgentManager, createAgentManager } from '../agent-manager/index.js';
-import { MessageBus, createMessageBus } from '../message-bus/index.js';
+import { MessageBusAdapter, createMessageBus } from '../message-bus/index.js';
 import { Orchestrator, createOrchestrator, TaskDefinition } from '../orchestrator/index.js';
 import { ArchitectAgent, createArchitectAgent, ArchitectReviewResult, ArchitectSuccessCriteria, DEFAULT_SUCCESS_CRITERIA } from '../architect-agent/index.js';
 import { getDemoService, DemoType, Demo } from '../demos/index.js';
@@ -25,6 +26,17 @@ import { getLearningSystem } from '../learning/index.js';
 import { getNotificationService, NotificationLevel } from '../notifications/index.js';
 import { getActivityService } from '../activity/index.js';
 import { getProgressService } from '../progress/index.js';
+import { getBudgetEnforcer } from '../cost/budgets.js';
+import { WorkflowStore, WorkflowRun, WorkflowRunUpdate, createWorkflowStore } from './store.js';
+import {
+  WorkflowRegistry,
+  WorkflowDefinition,
+  WorkflowPhaseDefinition,
+  DEFAULT_WORKFLOW,
+  DEFAULT_WORKFLOW_NAME,
+  evaluateGates,
+  getWorkflowRegistry,
+} from './definition.js';
 import type { Project, AgentType, EklavyaConfig, Task } from '../../types/index.js';
 
 export type WorkflowPhase =
@@ -38,7 +50,8 @@ export type WorkflowPhase =
   | 'testing'
   | 'completed'
   | 'failed'
-  | 'cancelled';
+  | 'cancelled'
+  | 'paused';
 
 export type DemoPhase = 'wow' | 'trust' | 'milestone' | 'final';
 
@@ -89,20 +102,28 @@ export interface WorkflowEngineOptions {
   projectsDir?: string;
   maxRetries?: number;
   autoApprove?: boolean;
+  store?: WorkflowStore;
+  registry?: WorkflowRegistry;
 }
 
 export interface WorkflowState {
+  runId: string;
   projectId: string;
+  workflow: WorkflowDefinition;
+  autoApprove: boolean;
   phase: WorkflowPhase;
   demoPhase?: DemoPhase;
   currentDemoId?: string;
   architectOutput?: ArchitectOutput;
   buildResult?: BuildResult;
   error?: string;
+  completedSteps: string[];
   startedAt: Date;
   lastUpdatedAt: Date;
 }
 
+const TERMINAL_PHASES: WorkflowPhase[] = ['completed', 'failed', 'cancelled', 'paused'];
+
 /**
  * WorkflowEngine orchestrates the entire project lifecycle from
  * planning through completion.
@@ -112,13 +133,19 @@ export class WorkflowEngine extends EventEmitter {
   private projectsDir: string;
   private maxRetries: number;
   private autoApprove: boolean;
+  private store: WorkflowStore;
+  private registry: WorkflowRegistry;
 
   private activeWorkflows: Map<string, WorkflowState> = new Map();
   private agentManagers: Map<string, AgentManager> = new Map();
-  private messageBuses: Map<string, MessageBus> = new Map();
+  private messageBuses: Map<string, MessageBusAdapter> = new Map();
   private orchestrators: Map<string, Orchestrator> = new Map();
 
   private cancellationTokens: Map<string, boolean> = new Map();
+  private budgetListeners: Map<string, (event: { projectId: string; action: string; dimension: string; percentUsed: number }) => void> = new Map();
+
+  // Set on shutdown: interrupted workflows stay in flight for the next start
+  private suspended = false;
 
   constructor(options: WorkflowEngineOptions) {
     super();
@@ -126,13 +153,17 @@ export class WorkflowEngine extends EventEmitter {
     this.projectsDir = options.projectsDir || path.join(process.cwd(), 'projects');
     this.maxRetries = options.maxRetries || 3;
     this.autoApprove = options.autoApprove || false;
+    this.store = options.store || createWorkflowStore();
+    this.registry = options.registry || getWorkflowRegistry();
   }
 
   /**
-   * Start the build process for a project
+   * Start the build process for a project using a named workflow
+   * definition (the built-in pipeline by default)
    */
-  async startProjectBuild(projectId: string): Promise<void> {
+  async startProjectBuild(projectId: string, workflowName: string = DEFAULT_WORKFLOW_NAME): Promise<void> {
     const db = getDatabase();
+    const workflow = this.registry.get(workflowName);
 
     // Verify project exists
     const projectResult = await db.query<Project>(
@@ -146,30 +177,24 @@ export class WorkflowEngine extends EventEmitter {
 
     const project = projectResult.rows[0];
 
-    // Check if workflow already active
-    if (this.activeWorkflows.has(projectId)) {
-      const state = this.activeWorkflows.get(projectId)!;
-      if (!['completed', 'failed', 'cancelled'].includes(state.phase)) {
-        throw new Error(`Workflow already active for project ${projectId} in phase: ${state.phase}`);
-      }
-    }
+    this.assertNotActive(projectId);
+
+    // Persist the run before doing any work
+    const run = await this.store.createRun(projectId, { autoApprove: this.autoApprove, workflow });
 
     // Initialize workflow state
     const state: WorkflowState = {
+      runId: run.id,
       projectId,
+      workflow,
+      autoApprove: this.autoApprove,
       phase: 'planning',
-      startedAt: new Date(),
+      completedSteps: [],
+      startedAt: run.startedAt,
       lastUpdatedAt: new Date(),
     };
-    this.activeWorkflows.set(projectId, state);
-    this.cancellationTokens.set(projectId, false);
-
-    // Create project directory
-    const projectDir = path.join(this.projectsDir, projectId);
-    await fs.mkdir(projectDir, { recursive: true });
-
-    // Initialize services
-    await this.initializeProjectServices(projectId, projectDir);
+    await this.activateWorkflow(state);
+    await getProgressService().startProjectTimer(projectId);
 
     // Update project status
     await db.query(
@@ -181,7 +206,7 @@ export class WorkflowEngine extends EventEmitter {
     const activityService = getActivityService();
     await activityService.logBuildEvent(projectId, 'started', `Project ${project.name} build started`);
 
-    this.emit('workflow:started', { projectId, phase: 'planning' });
+    this.emit('workflow:started', { projectId, phase: 'planning', workflow: workflow.name });
 
     // Start the workflow pipeline
     try {
@@ -257,10 +282,10 @@ export class WorkflowEngine extends EventEmitter {
 
     // Store architect output
     await db.query(
-      `INSERT INTO architect_outputs (id, project_id, architecture, task_breakdown, estimated_effort, risks, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      `INSERT INTO architect_outputs (id, project_id, architecture, task_breakdown, estimated_effort, risks, review_result, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
        ON CONFLICT (project_id) DO UPDATE SET
-         architecture = $3, task_breakdown = $4, estimated_effort = $5, risks = $6, created_at = NOW()`,
+         architecture = $3, task_breakdown = $4, estimated_effort = $5, risks = $6, review_result = $7, created_at = NOW()`,
       [
         architectOutput.id,
         projectId,
@@ -268,6 +293,7 @@ export class WorkflowEngine extends EventEmitter {
         JSON.stringify(architectOutput.taskBreakdown),
         JSON.stringify(architectOutput.estimatedEffort),
         JSON.stringify(architectOutput.risks),
+        JSON.stringify(architectOutput.reviewResult),
       ]
     );
 
@@ -308,9 +334,10 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   /**
-   * Run the build phase with parallel agents
+   * Run the build phase with parallel agents. Tasks go to the agent type
+   * matching their task type unless `agentType` is given.
    */
-  async runBuildPhase(projectId: string, tasks: Task[]): Promise<BuildResult> {
+  async runBuildPhase(projectId: string, tasks: Task[], agentType?: AgentType): Promise<BuildResult> {
     const state = this.getWorkflowState(projectId);
 
     if (this.isCancelled(projectId)) {
@@ -319,6 +346,25 @@ export class WorkflowEngine extends EventEmitter {
 
     await this.updatePhase(projectId, 'building');
 
+    // Tasks finished before a restart are not built again
+    const alreadyCompleted = await this.getCompletedTaskIds(tasks.map(task => task.id));
+    const pendingTasks = tasks.filter(task => !alreadyCompleted.has(task.id));
+
+    if (pendingTasks.length === 0) {
+      const buildResult: BuildResult = {
+        success: true,
+        tasksCompleted: alreadyCompleted.size,
+        tasksFailed: 0,
+        duration: 0,
+        artifacts: [],
+        errors: [],
+      };
+      state.buildResult = buildResult;
+      await this.persistState(projectId, { buildResult });
+      this.emit('build:completed', { projectId, result: buildResult });
+      return buildResult;
+    }
+
     const projectDir = path.join(this.projectsDir, projectId);
     const agentManager = this.agentManagers.get(projectId)!;
     const messageBus = this.messageBuses.get(projectId)!;
@@ -337,12 +383,12 @@ export class WorkflowEngine extends EventEmitter {
     await orchestrator.initialize();
 
     // Convert tasks to task definitions
-    const taskDefinitions: TaskDefinition[] = tasks.map(task => ({
+    const taskDefinitions: TaskDefinition[] = pendingTasks.map(task => ({
       id: task.id,
       title: task.title,
       description: task.description || '',
       type: task.type || 'development',
-      agentType: this.getAgentTypeForTask(task.type || 'development'),
+      agentType: agentType || this.getAgentTypeForTask(task.type || 'development'),
       priority: task.priority,
       estimatedTokens: 10000,
     }));
@@ -361,15 +407,19 @@ export class WorkflowEngine extends EventEmitter {
 
     const buildResult: BuildResult = {
       success: result.success,
-      tasksCompleted: result.completed,
+      tasksCompleted: result.completed + alreadyCompleted.size,
       tasksFailed: result.failed,
       duration: result.duration,
       artifacts: [],
-      errors: result.failed > 0 ? [`${result.failed} tasks failed`] : [],
+      errors: [
+        ...(result.failed > 0 ? [`${result.failed} tasks failed`] : []),
+        ...(result.skipped.length > 0 ? [`${result.skipped.length} tasks skipped after upstream failures`] : []),
+      ],
     };
 
     state.buildResult = buildResult;
     state.lastUpdatedAt = new Date();
+    await this.persistState(projectId, { buildResult });
 
     this.emit('build:completed', { projectId, result: buildResult });
 
@@ -411,6 +461,7 @@ export class WorkflowEngine extends EventEmitter {
     });
 
     state.currentDemoId = demo.id;
+    await this.persistState(projectId, { demoPhase: demoType, currentDemoId: demo.id });
 
     // Start building
     await demoService.startBuild(demo.id);
@@ -462,13 +513,20 @@ export class WorkflowEngine extends EventEmitter {
 
     const approvalService = getApprovalService();
 
-    // Request approval
-    const request = await approvalService.requestApproval(demoId, 'workflow_engine');
+    // Reuse the request made before a restart instead of asking again
+    let request = await approvalService.getLatestApprovalForDemo(demoId);
+    if (!request) {
+      request = await approvalService.requestApproval(demoId, 'workflow_engine');
+      this.emit('approval:requested', { projectId, demoId, requestId: request.id });
+    }
+    await this.persistState(projectId, { approvalRequestId: request.id });
 
-    this.emit('approval:requested', { projectId, demoId, requestId: request.id });
+    if (request.decision) {
+      return request;
+    }
 
-    // If auto-approve is enabled, approve immediately
-    if (this.autoApprove) {
+    // If auto-approve was enabled for this run, approve immediately
+    if (state.autoApprove) {
       await approvalService.approve(request.id, 'auto_approve', {
         comments: 'Auto-approved by workflow engine',
       });
@@ -498,7 +556,7 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   /**
-   * Handle approval decision
+   * Handle approval decision. Which phase runs next is up to the pipeline.
    */
   async handleApprovalDecision(projectId: string, decision: ApprovalRequest): Promise<void> {
     const state = this.getWorkflowState(projectId);
@@ -511,30 +569,10 @@ export class WorkflowEngine extends EventEmitter {
     this.emit('approval:decided', { projectId, decision });
 
     switch (decision.nextAction) {
-      case 'proceed_to_build':
-        // Skip remaining demos, go to full build
-        await this.updatePhase(projectId, 'building');
-        break;
-
-      case 'build_next_demo':
-        // Continue to next demo phase
-        const nextPhase = this.getNextDemoPhase(state.demoPhase);
-        if (nextPhase) {
-          state.demoPhase = nextPhase;
-          await this.buildDemo(projectId, nextPhase);
-        } else {
-          await this.updatePhase(projectId, 'building');
-        }
-        break;
-
       case 'revise_demo':
-        // Rebuild current demo with changes
         if (state.currentDemoId) {
           await demoService.updateStatus(state.currentDemoId, 'revision_requested');
         }
-        if (state.demoPhase) {
-          await this.buildDemo(projectId, state.demoPhase);
-        }
         break;
 
       case 'cancel':
@@ -542,62 +580,142 @@ export class WorkflowEngine extends EventEmitter {
         break;
 
       default:
-        // Default to continuing build
-        await this.updatePhase(projectId, 'building');
+        await this.updatePhase(projectId, 'demo_approved');
     }
   }
 
   /**
-   * Run the complete workflow pipeline
+   * Resume a project's latest workflow from its last completed step.
+   * Failed and cancelled runs are reopened; without a resumable run a new
+   * build is started.
    */
-  private async runWorkflowPipeline(projectId: string): Promise<void> {
-    const state = this.getWorkflowState(projectId);
+  async resumeWorkflow(projectId: string): Promise<void> {
+    this.assertNotActive(projectId);
+
+    const run = await this.store.getLatestRun(projectId);
+    if (!run || run.phase === 'completed') {
+      return this.startProjectBuild(projectId);
+    }
+
+    if (run.finishedAt) {
+      await this.store.reopenRun(run.id);
+    }
+
+    const state = await this.rehydrateState(run);
+    await this.activateWorkflow(state);
+
+    this.emit('workflow:resumed', {
+      projectId,
+      runId: run.id,
+      phase: state.phase,
+      completedSteps: state.completedSteps,
+    });
 
     try {
-      // Phase 1: Architect
-      const architectOutput = await this.runArchitectPhase(projectId);
+      await this.runWorkflowPipeline(projectId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.handleWorkflowError(projectId, errorMessage);
+    }
+  }
 
-      // Phase 2: Demo 0 (Wow Demo)
-      const wowDemo = await this.buildDemo(projectId, 'wow');
+  /**
+   * Pick up every workflow that was in flight when the server stopped.
+   * Workflows continue in the background; returns their project IDs.
+   */
+  async recoverWorkflows(): Promise<string[]> {
+    const runs = await this.store.listInFlightRuns();
+    const recovered: string[] = [];
 
-      // Phase 3: Wait for approval
-      const wowApproval = await this.waitForApproval(projectId, wowDemo.id);
-      await this.handleApprovalDecision(projectId, wowApproval);
+    for (const run of runs) {
+      if (this.activeWorkflows.has(run.projectId)) continue;
 
-      // Check if we should continue
-      if (this.isCancelled(projectId) || state.phase === 'cancelled') {
-        return;
-      }
+      recovered.push(run.projectId);
+      this.resumeWorkflow(run.projectId).catch((error) => {
+        console.error(`Failed to resume workflow for project ${run.projectId}:`, error instanceof Error ? error.message : error);
+      });
+    }
 
-      // If not skipping to build, do trust demo
-      if (wowApproval.nextAction === 'build_next_demo' && state.phase !== 'building') {
-        const trustDemo = await this.buildDemo(projectId, 'trust');
-        const trustApproval = await this.waitForApproval(projectId, trustDemo.id);
-        await this.handleApprovalDecision(projectId, trustApproval);
-      }
+    return recovered;
+  }
 
-      // Check again (state.phase can change externally via cancelWorkflow)
-      if (this.isCancelled(projectId) || (state.phase as WorkflowPhase) === 'cancelled') {
-        return;
-      }
+  /**
+   * Run the workflow's phases in order. Every step is recorded, so running
+   * the pipeline again after a restart replays completed steps and
+   * continues from the first one that did not finish.
+   */
+  private async runWorkflowPipeline(projectId: string): Promise<void> {
+    const state = this.getWorkflowState(projectId);
+    const phases = state.workflow.phases;
 
-      // Phase 4: Full build (if not already built via demos)
-      if (state.phase === 'building' || state.phase === 'demo_approved') {
-        const allTasks = this.generateTasks(projectId, architectOutput);
-        const buildResult = await this.runBuildPhase(projectId, allTasks);
+    try {
+      for (let index = 0; index < phases.length; index++) {
+        // state.phase can change externally via cancelWorkflow
+        if (this.isCancelled(projectId) || state.phase === 'cancelled') {
+          return;
+        }
 
-        if (!buildResult.success) {
-          throw new Error(`Build failed: ${buildResult.errors.join(', ')}`);
+        // Budgets may have run out while the last phase ran
+        const budget = await getBudgetEnforcer().enforce(projectId);
+        if (!budget.allowed) {
+          const stop = budget.actions.find(action => action.action === 'hard_stop')!;
+          throw new Error(`Budget exhausted: ${stop.dimension} at ${stop.percentUsed.toFixed(1)}%`);
+        }
+        if (this.isCancelled(projectId) || TERMINAL_PHASES.includes(state.phase)) {
+          return;
+        }
+
+        const phase = phases[index];
+        this.emit('workflow:phase', { projectId, workflow: state.workflow.name, phaseId: phase.id, type: phase.type });
+
+        switch (phase.type) {
+          case 'architect':
+            state.architectOutput = await this.runStep(projectId, phase.id, () => this.runArchitectPhase(projectId));
+            break;
+
+          case 'demo': {
+            const next = await this.runDemoPhase(projectId, phase);
+            if (next === 'cancel') {
+              return;
+            }
+            if (next === 'skip_demos') {
+              // Approved straight to build: skip the demos that follow
+              while (phases[index + 1]?.type === 'demo') {
+                index++;
+              }
+            }
+            break;
+          }
+
+          case 'build': {
+            const allTasks = await this.runStep(projectId, `${phase.id}:tasks`, async () =>
+              this.generateTasks(projectId, state.architectOutput!)
+            );
+            await this.runGatedStep(projectId, phase, () => this.runBuildPhase(projectId, allTasks));
+            break;
+          }
+
+          case 'agent':
+            await this.runGatedStep(projectId, phase, () => this.runAgentPhase(projectId, phase));
+            break;
+
+          case 'testing':
+            await this.updatePhase(projectId, 'testing');
+            if (phase.agentType) {
+              await this.runGatedStep(projectId, phase, () => this.runAgentPhase(projectId, phase));
+            }
+            break;
         }
       }
 
-      // Phase 5: Testing
-      await this.updatePhase(projectId, 'testing');
-      // Testing would run here
+      if (this.isCancelled(projectId) || state.phase === 'cancelled') {
+        return;
+      }
 
       // Phase 6: Complete
       await this.updatePhase(projectId, 'completed');
       await this.updateProjectStatus(projectId, 'completed');
+      await this.store.finishRun(state.runId, 'completed');
 
       // Send completion notification
       const notificationService = getNotificationService();
@@ -629,6 +747,7 @@ export class WorkflowEngine extends EventEmitter {
       state.phase = 'cancelled';
       state.error = reason || 'Cancelled by user';
       state.lastUpdatedAt = new Date();
+      await this.store.finishRun(state.runId, 'cancelled', state.error);
     }
 
     // Cleanup resources
@@ -639,6 +758,40 @@ export class WorkflowEngine extends EventEmitter {
     this.emit('workflow:cancelled', { projectId, reason });
   }
 
+  /**
+   * Pause a running workflow. The run is finished with its phase kept, so
+   * it is not recovered on startup and resumeWorkflow continues it from the
+   * last completed step.
+   */
+  async pauseWorkflow(projectId: string, reason?: string): Promise<void> {
+    const state = this.activeWorkflows.get(projectId);
+    if (!state || TERMINAL_PHASES.includes(state.phase)) {
+      throw new Error(`No running workflow for project: ${projectId}`);
+    }
+
+    this.cancellationTokens.set(projectId, true);
+    state.error = reason || 'Paused by user';
+    await this.store.finishRun(state.runId, state.phase, state.error);
+    state.phase = 'paused';
+    state.lastUpdatedAt = new Date();
+
+    await this.cleanupProjectResources(projectId);
+    await this.updateProjectStatus(projectId, 'paused');
+
+    const notificationService = getNotificationService();
+    await notificationService.createNotification(
+      projectId,
+      'warning' as NotificationLevel,
+      'workflow_paused',
+      'Build Paused',
+      {
+        message: state.error,
+      }
+    );
+
+    this.emit('workflow:paused', { projectId, reason: state.error });
+  }
+
   /**
    * Get current workflow state
    */
@@ -650,6 +803,242 @@ export class WorkflowEngine extends EventEmitter {
     return state;
   }
 
+  /**
+   * Run a pipeline step at most once per workflow run. A completed step
+   * returns its recorded output; anything else is (re)executed.
+   */
+  private async runStep<T>(projectId: string, key: string, execute: () => Promise<T>): Promise<T> {
+    const state = this.getWorkflowState(projectId);
+
+    const existing = await this.store.getStep(state.runId, key);
+    if (existing?.status === 'completed') {
+      this.emit('step:replayed', { projectId, step: key });
+      return existing.output as T;
+    }
+
+    await this.store.startStep(state.runId, key);
+
+    try {
+      const output = await execute();
+
+      // Work interrupted by a cancel or shutdown must not count as done
+      if (this.isCancelled(projectId)) {
+        throw new Error('Workflow cancelled');
+      }
+
+      await this.store.completeStep(state.runId, key, output);
+      state.completedSteps.push(key);
+      this.emit('step:completed', { projectId, step: key });
+
+      return output;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.store.failStep(state.runId, key, errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a demo phase and, if the phase asks for it, wait for approval.
+   * Revisions are rebuilt and re-approved up to maxRetries times.
+   * Returns what the decision means for the rest of the pipeline.
+   */
+  private async runDemoPhase(
+    projectId: string,
+    phase: WorkflowPhaseDefinition
+  ): Promise<'continue' | 'skip_demos' | 'cancel'> {
+    let demo = await this.buildDemoStep(projectId, phase.demoType!, phase.id);
+    if (!phase.approval) {
+      return 'continue';
+    }
+
+    for (let revisions = 0; ; revisions++) {
+      const current = demo;
+      const approval = await this.runStep(projectId, `approval:${current.id}`, () =>
+        this.waitForApproval(projectId, current.id)
+      );
+      await this.handleApprovalDecision(projectId, approval);
+
+      switch (approval.nextAction) {
+        case 'cancel':
+          return 'cancel';
+
+        case 'revise_demo':
+          if (revisions >= this.maxRetries) {
+            throw new Error(`Demo ${phase.id} still needs revision after ${this.maxRetries} revisions`);
+          }
+          // Keyed by the decision so each revision is built exactly once
+          demo = await this.buildDemoStep(projectId, phase.demoType!, `${phase.id}:${approval.id}`);
+          break;
+
+        case 'build_next_demo':
+          return 'continue';
+
+        default:
+          return 'skip_demos';
+      }
+    }
+  }
+
+  /**
+   * Run one task on an agent of the phase's type
+   */
+  private async runAgentPhase(projectId: string, phase: WorkflowPhaseDefinition): Promise<BuildResult> {
+    const task: Task = {
+      id: uuidv4(),
+      projectId,
+      title: phase.name || phase.id,
+      description: phase.description || '',
+      type: phase.type === 'testing' ? 'testing' : phase.id,
+      status: 'pending',
+      priority: 5,
+      acceptanceCriteria: [],
+      retryCount: 0,
+      maxRetries: 3,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    return this.runBuildPhase(projectId, [task], phase.agentType);
+  }
+
+  /**
+   * Run a phase that produces a build result and check its gates. A phase
+   * that fails its gates is recorded as a failed step so a resume retries it.
+   */
+  private async runGatedStep(
+    projectId: string,
+    phase: WorkflowPhaseDefinition,
+    execute: () => Promise<BuildResult>
+  ): Promise<BuildResult> {
+    return this.runStep(projectId, phase.id, async () => {
+      const result = await execute();
+      const failures = evaluateGates(phase.gates, result);
+      if (failures.length > 0) {
+        throw new Error(`${phase.type === 'build' ? 'Build' : `Phase ${phase.id}`} failed: ${failures.join(', ')}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Build a demo as a workflow step. Only the demo ID is recorded; a
+   * replayed step reloads the demo.
+   */
+  private async buildDemoStep(projectId: string, demoType: DemoPhase, key: string): Promise<Demo> {
+    const state = this.getWorkflowState(projectId);
+
+    const { demoId } = await this.runStep(projectId, key, async () => {
+      const demo = await this.buildDemo(projectId, demoType);
+      return { demoId: demo.id };
+    });
+
+    state.demoPhase = demoType;
+    state.currentDemoId = demoId;
+
+    return getDemoService().getDemo(demoId);
+  }
+
+  /**
+   * Rebuild in-memory state from a persisted run
+   */
+  private async rehydrateState(run: WorkflowRun): Promise<WorkflowState> {
+    const workflow = run.options.workflow || DEFAULT_WORKFLOW;
+    const architectPhase = workflow.phases.find(phase => phase.type === 'architect');
+    const architectStep = architectPhase ? await this.store.getStep(run.id, architectPhase.id) : null;
+
+    return {
+      runId: run.id,
+      projectId: run.projectId,
+      workflow,
+      autoApprove: run.options.autoApprove ?? false,
+      phase: run.phase,
+      demoPhase: run.demoPhase,
+      currentDemoId: run.currentDemoId,
+      architectOutput: architectStep?.status === 'completed'
+        ? architectStep.output as ArchitectOutput
+        : undefined,
+      buildResult: run.buildResult,
+      completedSteps: await this.store.getCompletedSteps(run.id),
+      startedAt: run.startedAt,
+      lastUpdatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Register a workflow as active and set up its project services
+   */
+  private async activateWorkflow(state: WorkflowState): Promise<void> {
+    this.activeWorkflows.set(state.projectId, state);
+    this.cancellationTokens.set(state.projectId, false);
+    this.watchBudget(state.projectId);
+
+    // Create project directory
+    const projectDir = path.join(this.projectsDir, state.projectId);
+    await fs.mkdir(projectDir, { recursive: true });
+
+    // Initialize services
+    await this.initializeProjectServices(state.projectId, projectDir);
+  }
+
+  /**
+   * Pause the workflow when one of the project's budgets crosses a
+   * pause_workflow threshold
+   */
+  private watchBudget(projectId: string): void {
+    if (this.budgetListeners.has(projectId)) return;
+
+    const listener = (event: { projectId: string; action: string; dimension: string; percentUsed: number }) => {
+      if (event.projectId !== projectId || event.action !== 'pause_workflow') return;
+
+      const reason = `Paused by budget policy: ${event.dimension} budget at ${event.percentUsed.toFixed(1)}%`;
+      this.pauseWorkflow(projectId, reason).catch(error => {
+        console.error(`Failed to pause workflow for project ${projectId}:`, error instanceof Error ? error.message : error);
+      });
+    };
+    getBudgetEnforcer().on('budget:action', listener);
+    this.budgetListeners.set(projectId, listener);
+  }
+
+  /**
+   * Whether a workflow for the project is running in this engine
+   */
+  isWorkflowActive(projectId: string): boolean {
+    const state = this.activeWorkflows.get(projectId);
+    return !!state && !TERMINAL_PHASES.includes(state.phase);
+  }
+
+  private assertNotActive(projectId: string): void {
+    if (this.isWorkflowActive(projectId)) {
+      const state = this.getWorkflowState(projectId);
+      throw new Error(`Workflow already active for project ${projectId} in phase: ${state.phase}`);
+    }
+  }
+
+  /**
+   * Persist part of a workflow's state to its run
+   */
+  private async persistState(projectId: string, update: WorkflowRunUpdate): Promise<void> {
+    const state = this.activeWorkflows.get(projectId);
+    if (state) {
+      await this.store.updateRun(state.runId, update);
+    }
+  }
+
+  /**
+   * Get the IDs of tasks that already completed
+   */
+  private async getCompletedTaskIds(taskIds: string[]): Promise<Set<string>> {
+    if (taskIds.length === 0) return new Set();
+
+    const db = getDatabase();
+    const result = await db.query<{ id: string }>(
+      "SELECT id FROM tasks WHERE id = ANY($1) AND status = 'completed'",
+      [taskIds]
+    );
+    return new Set(result.rows.map(row => row.id));
+  }
+
   /**
    * Check if workflow is cancelled
    */
@@ -663,6 +1052,7 @@ export class WorkflowEngine extends EventEmitter {
   private async initializeProjectServices(projectId: string, projectDir: string): Promise<void> {
     // Create message bus
     const messageBus = createMessageBus({
+      driver: this.config.messageBus,
       redis: this.config.redis,
       projectId,
     });
@@ -684,6 +1074,12 @@ export class WorkflowEngine extends EventEmitter {
    * Cleanup project resources
    */
   private async cleanupProjectResources(projectId: string): Promise<void> {
+    const listener = this.budgetListeners.get(projectId);
+    if (listener) {
+      getBudgetEnforcer().off('budget:action', listener);
+      this.budgetListeners.delete(projectId);
+    }
+
     // Stop orchestrator
     const orchestrator = this.orchestrators.get(projectId);
     if (orchestrator) {
@@ -716,6 +1112,7 @@ export class WorkflowEngine extends EventEmitter {
       state.lastUpdatedAt = new Date();
     }
 
+    await this.persistState(projectId, { phase });
     await this.updateProjectStatus(projectId, phase);
 
     const activityService = getActivityService();
@@ -739,11 +1136,25 @@ export class WorkflowEngine extends EventEmitter {
    * Handle workflow errors
    */
   private async handleWorkflowError(projectId: string, errorMessage: string): Promise<void> {
+    // Interrupted by shutdown: leave the run in flight so it is recovered
+    if (this.suspended) {
+      await this.cleanupProjectResources(projectId);
+      return;
+    }
+
+    // Already recorded by cancelWorkflow or pauseWorkflow
+    const phase = this.activeWorkflows.get(projectId)?.phase;
+    if (phase === 'cancelled' || phase === 'paused') {
+      await this.cleanupProjectResources(projectId);
+      return;
+    }
+
     const state = this.activeWorkflows.get(projectId);
     if (state) {
       state.phase = 'failed';
       state.error = errorMessage;
       state.lastUpdatedAt = new Date();
+      await this.store.finishRun(state.runId, 'failed', errorMessage);
     }
 
     await this.updateProjectStatus(projectId, 'failed');
@@ -919,24 +1330,17 @@ export class WorkflowEngine extends EventEmitter {
     return tasks.slice(0, Math.ceil(tasks.length * percentage));
   }
 
-  private getNextDemoPhase(currentPhase?: DemoPhase): DemoPhase | null {
-    const phases: DemoPhase[] = ['wow', 'trust', 'milestone', 'final'];
-    if (!currentPhase) return 'wow';
-
-    const currentIndex = phases.indexOf(currentPhase);
-    if (currentIndex === -1 || currentIndex >= phases.length - 1) {
-      return null;
-    }
-    return phases[currentIndex + 1];
-  }
-
   /**
-   * Shutdown the workflow engine
+   * Shutdown the workflow engine. Active workflows are stopped but stay
+   * in flight in the database, so recoverWorkflows() continues them on
+   * the next start.
    */
   async shutdown(): Promise<void> {
-    // Cancel all active workflows
+    this.suspended = true;
+
     for (const projectId of this.activeWorkflows.keys()) {
-      await this.cancelWorkflow(projectId, 'Engine shutdown');
+      this.cancellationTokens.set(projectId, true);
+      await this.cleanupProjectResources(projectId);
     }
 
     this.activeWorkflows.clear();
@@ -15,6 +15,29 @@ export {
   type WorkflowState,
 } from './engine.js';
 
+export {
+  WorkflowStore,
+  createWorkflowStore,
+  type WorkflowRun,
+  type WorkflowRunOptions,
+  type WorkflowStep,
+  type WorkflowStepStatus,
+} from './store.js';
+
+export {
+  WorkflowRegistry,
+  getWorkflowRegistry,
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+  evaluateGates,
+  DEFAULT_WORKFLOW,
+  DEFAULT_WORKFLOW_NAME,
+  type WorkflowDefinition,
+  type WorkflowPhaseDefinition,
+  type WorkflowPhaseType,
+  type WorkflowGate,
+} from './definition.js';
+
 export {
   AutoTriggerService,
   getAutoTriggerService,
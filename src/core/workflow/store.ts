@@ -0,0 +1,284 @@
+/**
+ * Workflow Store
+ * Persists workflow runs and their steps in Postgres.
+ *
+ * A run is the durable copy of a WorkflowState. Each pipeline step is
+ * recorded under a stable key; once a step is completed its output is
+ * replayed instead of running the step again, which is what lets the
+ * engine pick a workflow up again after a restart.
+ */
+
+import { getDatabase } from '../../lib/database.js';
+import type { WorkflowPhase, DemoPhase, BuildResult } from './engine.js';
+import type { WorkflowDefinition } from './definition.js';
+
+export type WorkflowStepStatus = 'running' | 'completed' | 'failed';
+
+export interface WorkflowRunOptions {
+  autoApprove?: boolean;
+  workflow?: WorkflowDefinition;  // Snapshot, so a resume runs the same phases
+}
+
+export interface WorkflowRun {
+  id: string;
+  projectId: string;
+  phase: WorkflowPhase;
+  demoPhase?: DemoPhase;
+  currentDemoId?: string;
+  approvalRequestId?: string;
+  options: WorkflowRunOptions;
+  buildResult?: BuildResult;
+  error?: string;
+  startedAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface WorkflowStep {
+  runId: string;
+  key: string;
+  status: WorkflowStepStatus;
+  output?: unknown;
+  error?: string;
+  attempts: number;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type WorkflowRunUpdate = Partial<Pick<
+  WorkflowRun,
+  'phase' | 'demoPhase' | 'currentDemoId' | 'approvalRequestId' | 'buildResult' | 'error'
+>>;
+
+interface WorkflowRunRow {
+  id: string;
+  project_id: string;
+  phase: string;
+  demo_phase: string | null;
+  current_demo_id: string | null;
+  approval_request_id: string | null;
+  options: WorkflowRunOptions | null;
+  build_result: BuildResult | null;
+  error_message: string | null;
+  started_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+}
+
+interface WorkflowStepRow {
+  run_id: string;
+  step_key: string;
+  status: string;
+  output: unknown;
+  error_message: string | null;
+  attempts: number;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+const RUN_COLUMNS: Record<keyof WorkflowRunUpdate, string> = {
+  phase: 'phase',
+  demoPhase: 'demo_phase',
+  currentDemoId: 'current_demo_id',
+  approvalRequestId: 'approval_request_id',
+  buildResult: 'build_result',
+  error: 'error_message',
+};
+
+/**
+ * WorkflowStore reads and writes workflow_runs and workflow_steps.
+ */
+export class WorkflowStore {
+  /**
+   * Create a run for a project. Any earlier unfinished run is closed first,
+   * so a project has at most one run in flight.
+   */
+  async createRun(projectId: string, options: WorkflowRunOptions = {}): Promise<WorkflowRun> {
+    const db = getDatabase();
+
+    await db.query(
+      `UPDATE workflow_runs SET finished_at = NOW(), error_message = COALESCE(error_message, 'Superseded by a new run')
+       WHERE project_id = $1 AND finished_at IS NULL`,
+      [projectId]
+    );
+
+    const result = await db.query<WorkflowRunRow>(
+      `INSERT INTO workflow_runs (project_id, phase, options)
+       VALUES ($1, 'planning', $2)
+       RETURNING *`,
+      [projectId, JSON.stringify(options)]
+    );
+
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | null> {
+    const db = getDatabase();
+    const result = await db.query<WorkflowRunRow>(
+      'SELECT * FROM workflow_runs WHERE id = $1',
+      [runId]
+    );
+    return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+  }
+
+  /**
+   * Get the most recent run for a project, finished or not.
+   */
+  async getLatestRun(projectId: string): Promise<WorkflowRun | null> {
+    const db = getDatabase();
+    const result = await db.query<WorkflowRunRow>(
+      'SELECT * FROM workflow_runs WHERE project_id = $1 ORDER BY started_at DESC LIMIT 1',
+      [projectId]
+    );
+    return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+  }
+
+  /**
+   * Get every run that has not finished, oldest first.
+   */
+  async listInFlightRuns(): Promise<WorkflowRun[]> {
+    const db = getDatabase();
+    const result = await db.query<WorkflowRunRow>(
+      'SELECT * FROM workflow_runs WHERE finished_at IS NULL ORDER BY started_at ASC'
+    );
+    return result.rows.map(row => this.mapRowToRun(row));
+  }
+
+  async updateRun(runId: string, update: WorkflowRunUpdate): Promise<void> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+
+    for (const [key, column] of Object.entries(RUN_COLUMNS) as Array<[keyof WorkflowRunUpdate, string]>) {
+      if (!(key in update)) continue;
+      const value = update[key];
+      values.push(key === 'buildResult' && value !== undefined ? JSON.stringify(value) : value ?? null);
+      sets.push(`${column} = $${values.length}`);
+    }
+
+    if (sets.length === 0) return;
+
+    const db = getDatabase();
+    values.push(runId);
+    await db.query(
+      `UPDATE workflow_runs SET ${sets.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+  }
+
+  /**
+   * Mark a run as finished. Finished runs are not recovered on startup.
+   */
+  async finishRun(runId: string, phase: WorkflowPhase, error?: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      'UPDATE workflow_runs SET phase = $1, error_message = $2, finished_at = NOW() WHERE id = $3',
+      [phase, error || null, runId]
+    );
+  }
+
+  /**
+   * Put a failed or cancelled run back in flight so it can be resumed.
+   */
+  async reopenRun(runId: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      'UPDATE workflow_runs SET finished_at = NULL, error_message = NULL WHERE id = $1',
+      [runId]
+    );
+  }
+
+  async getStep(runId: string, key: string): Promise<WorkflowStep | null> {
+    const db = getDatabase();
+    const result = await db.query<WorkflowStepRow>(
+      'SELECT * FROM workflow_steps WHERE run_id = $1 AND step_key = $2',
+      [runId, key]
+    );
+    return result.rows.length > 0 ? this.mapRowToStep(result.rows[0]) : null;
+  }
+
+  /**
+   * Get the keys of completed steps, in completion order.
+   */
+  async getCompletedSteps(runId: string): Promise<string[]> {
+    const db = getDatabase();
+    const result = await db.query<{ step_key: string }>(
+      `SELECT step_key FROM workflow_steps
+       WHERE run_id = $1 AND status = 'completed'
+       ORDER BY completed_at ASC`,
+      [runId]
+    );
+    return result.rows.map(row => row.step_key);
+  }
+
+  /**
+   * Record that a step is running. Re-running a failed or interrupted
+   * step bumps its attempt count.
+   */
+  async startStep(runId: string, key: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `INSERT INTO workflow_steps (run_id, step_key, status)
+       VALUES ($1, $2, 'running')
+       ON CONFLICT (run_id, step_key) DO UPDATE SET
+         status = 'running',
+         attempts = workflow_steps.attempts + 1,
+         error_message = NULL,
+         started_at = NOW(),
+         completed_at = NULL`,
+      [runId, key]
+    );
+  }
+
+  async completeStep(runId: string, key: string, output: unknown): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `UPDATE workflow_steps SET status = 'completed', output = $1, completed_at = NOW()
+       WHERE run_id = $2 AND step_key = $3`,
+      [JSON.stringify(output ?? null), runId, key]
+    );
+  }
+
+  async failStep(runId: string, key: string, error: string): Promise<void> {
+    const db = getDatabase();
+    await db.query(
+      `UPDATE workflow_steps SET status = 'failed', error_message = $1
+       WHERE run_id = $2 AND step_key = $3`,
+      [error, runId, key]
+    );
+  }
+
+  private mapRowToRun(row: WorkflowRunRow): WorkflowRun {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      phase: row.phase as WorkflowPhase,
+      demoPhase: (row.demo_phase as DemoPhase) || undefined,
+      currentDemoId: row.current_demo_id || undefined,
+      approvalRequestId: row.approval_request_id || undefined,
+      options: row.options || {},
+      buildResult: row.build_result || undefined,
+      error: row.error_message || undefined,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      finishedAt: row.finished_at || undefined,
+    };
+  }
+
+  private mapRowToStep(row: WorkflowStepRow): WorkflowStep {
+    return {
+      runId: row.run_id,
+      key: row.step_key,
+      status: row.status as WorkflowStepStatus,
+      output: row.output ?? undefined,
+      error: row.error_message || undefined,
+      attempts: row.attempts,
+      startedAt: row.started_at,
+      completedAt: row.completed_at || undefined,
+    };
+  }
+}
+
+// Factory function
+export function createWorkflowStore(): WorkflowStore {
+  return new WorkflowStore();
+}
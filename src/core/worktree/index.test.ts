@@ -0,0 +1,166 @@
+/**
+ * Tests for Git Worktree Isolation
+ * Per-agent worktrees, merge-back and conflict resolution
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorktreeManager, createWorktreeManager } from './index.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('WorktreeManager', () => {
+  let projectDir: string;
+  let manager: WorktreeManager;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-worktree-'));
+    manager = createWorktreeManager({ projectDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  async function writeAndMerge(agentId: string, file: string, content: string) {
+    const worktree = await manager.createWorktree(agentId, 'developer');
+    await fs.writeFile(path.join(worktree.path, file), content);
+    return manager.mergeBack(agentId, `Write ${file}`);
+  }
+
+  describe('Repository setup', () => {
+    it('should initialize an empty project with the integration branch', async () => {
+      await manager.ensureRepository();
+
+      expect(git(projectDir, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+      const exclude = await fs.readFile(path.join(projectDir, '.git', 'info', 'exclude'), 'utf-8');
+      expect(exclude).toContain('/.eklavya/worktrees/');
+    });
+
+    it('should create the integration branch in an existing repository', async () => {
+      git(projectDir, 'init', '-q', '-b', 'trunk');
+      git(projectDir, '-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-q', '--allow-empty', '-m', 'init');
+
+      const custom = createWorktreeManager({ projectDir, integrationBranch: 'integration' });
+      await custom.ensureRepository();
+
+      expect(git(projectDir, 'branch', '--list', 'integration')).toContain('integration');
+    });
+  });
+
+  describe('Worktrees', () => {
+    it('should give each agent its own branch and directory', async () => {
+      const a = await manager.createWorktree('agent-a', 'developer');
+      const b = await manager.createWorktree('agent-b', 'tester');
+
+      expect(a.branch).toBe('eklavya/developer/agent-a');
+      expect(b.branch).toBe('eklavya/tester/agent-b');
+      expect(a.path).toBe(path.join(projectDir, '.eklavya', 'worktrees', 'agent-a'));
+      expect(git(b.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('eklavya/tester/agent-b');
+      expect(manager.listWorktrees()).toHaveLength(2);
+    });
+
+    it('should commit agent work without the agent prompt file', async () => {
+      const worktree = await manager.createWorktree('agent-a', 'developer');
+      await fs.writeFile(path.join(worktree.path, 'CLAUDE.md'), 'prompt');
+      await fs.writeFile(path.join(worktree.path, 'app.ts'), 'export {};\n');
+
+      const commit = await manager.commitWorktree('agent-a', 'Add app');
+
+      expect(commit).toMatch(/^[0-9a-f]{40}$/);
+      expect(git(worktree.path, 'show', '--name-only', '--format=', 'HEAD')).toBe('app.ts');
+      expect(git(worktree.path, 'log', '-1', '--format=%B')).toContain('Eklavya-Agent: agent-a');
+      expect(await manager.commitWorktree('agent-a')).toBeNull();
+    });
+
+    it('should remove a worktree but keep its branch', async () => {
+      const worktree = await manager.createWorktree('agent-a', 'developer');
+      await manager.removeWorktree('agent-a');
+
+      await expect(fs.stat(worktree.path)).rejects.toThrow();
+      expect(git(projectDir, 'branch', '--list', worktree.branch)).toContain(worktree.branch);
+      expect(manager.getWorktree('agent-a')).toBeUndefined();
+    });
+  });
+
+  describe('Merge-back', () => {
+    it('should merge independent work into the integration branch', async () => {
+      const first = await writeAndMerge('agent-a', 'a.txt', 'a\n');
+      const second = await writeAndMerge('agent-b', 'b.txt', 'b\n');
+
+      expect(first.status).toBe('merged');
+      expect(second.status).toBe('merged');
+      expect(git(projectDir, 'ls-tree', '--name-only', 'main')).toBe('a.txt\nb.txt');
+    });
+
+    it('should report branches that are already merged', async () => {
+      await manager.createWorktree('agent-a', 'developer');
+      const result = await manager.mergeBack('agent-a');
+
+      expect(result.status).toBe('up_to_date');
+    });
+
+    it('should report conflicts with the agent that last touched the file', async () => {
+      await manager.createWorktree('agent-b', 'developer');
+      await writeAndMerge('agent-a', 'shared.txt', 'from a\n');
+
+      const b = manager.getWorktree('agent-b')!;
+      await fs.writeFile(path.join(b.path, 'shared.txt'), 'from b\n');
+      const result = await manager.mergeBack('agent-b');
+
+      expect(result.status).toBe('conflict');
+      expect(result.conflicts).toEqual([{ filePath: 'shared.txt', lastAgentId: 'agent-a' }]);
+      // The aborted merge leaves the integration branch untouched
+      expect(git(projectDir, 'status', '--porcelain')).toBe('');
+      expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from a');
+    });
+  });
+
+  describe('Conflict resolution', () => {
+    async function conflictingBranch(): Promise<string> {
+      await manager.createWorktree('agent-b', 'developer');
+      await writeAndMerge('agent-a', 'shared.txt', 'from a\n');
+
+      const b = manager.getWorktree('agent-b')!;
+      await fs.writeFile(path.join(b.path, 'shared.txt'), 'from b\n');
+      await manager.mergeBack('agent-b');
+      return b.branch;
+    }
+
+    it('should take the agent branch version', async () => {
+      const branch = await conflictingBranch();
+      const result = await manager.merge(branch, { resolutions: { 'shared.txt': 'theirs' } });
+
+      expect(result.status).toBe('merged');
+      expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from b');
+    });
+
+    it('should keep the integration branch version', async () => {
+      const branch = await conflictingBranch();
+      await manager.merge(branch, { resolutions: { 'shared.txt': 'ours' } });
+
+      expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from a');
+      expect(git(projectDir, 'merge-base', '--is-ancestor', branch, 'main')).toBe('');
+    });
+
+    it('should keep both sides for a union merge', async () => {
+      const branch = await conflictingBranch();
+      await manager.merge(branch, { resolutions: { 'shared.txt': 'union' } });
+
+      expect(git(projectDir, 'show', 'main:shared.txt')).toBe('from a\nfrom b');
+    });
+
+    it('should still report files without a resolution', async () => {
+      const branch = await conflictingBranch();
+      const result = await manager.merge(branch, { resolutions: { 'other.txt': 'ours' } });
+
+      expect(result.status).toBe('conflict');
+      expect(result.conflicts.map(c => c.filePath)).toEqual(['shared.txt']);
+    });
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Git Worktree Isolation
+ *
+ * Gives every agent its own git worktree and branch under the project
+ * directory so parallel agents never write into the same checkout:
+ * - Worktrees live in `<projectDir>/.eklavya/worktrees/<agentId>`
+ * - Branches are named `eklavya/<agentType>/<agentId>`
+ * - Finished work is merged back into the integration branch
+ *
+ * Operations that touch shared refs are serialized per manager. A
+ * conflicting merge is aborted and reported file by file; the merge can
+ * then be completed with a per-file resolution once a human or agent has
+ * decided how to resolve it.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface WorktreeManagerOptions {
+  projectDir: string;
+  integrationBranch?: string;
+  worktreeRoot?: string;
+  excludePaths?: string[];  // Never committed from agent worktrees
+}
+
+export interface AgentWorktree {
+  agentId: string;
+  branch: string;
+  path: string;
+  baseCommit: string;
+}
+
+export interface MergeConflictFile {
+  filePath: string;
+  lastAgentId?: string;  // Agent whose merged work last touched the file
+}
+
+export interface MergeResult {
+  status: 'merged' | 'up_to_date' | 'conflict';
+  sourceBranch: string;
+  targetBranch: string;
+  agentId?: string;
+  commit?: string;
+  conflicts: MergeConflictFile[];
+}
+
+/**
+ * How to settle one conflicted file, in git terms:
+ * - ours: keep the integration branch version
+ * - theirs: take the agent branch version
+ * - union: keep the lines from both sides
+ */
+export type MergeFileResolution = 'ours' | 'theirs' | 'union';
+
+export interface MergeOptions {
+  agentId?: string;
+  message?: string;
+  resolutions?: Record<string, MergeFileResolution>;
+}
+
+export const DEFAULT_INTEGRATION_BRANCH = 'main';
+
+// Trailer added to agent commits so merged work can be traced back
+const AGENT_TRAILER = 'Eklavya-Agent';
+
+// Committer identity used for agent commits and merges
+const GIT_IDENTITY = ['-c', 'user.name=Eklavya', '-c', 'user.email=agents@eklavya.local'];
+
+// ============================================================================
+// Worktree Manager
+// ============================================================================
+
+export class WorktreeManager {
+  private projectDir: string;
+  private integrationBranch: string;
+  private worktreeRoot: string;
+  private excludePaths: string[];
+
+  private worktrees: Map<string, AgentWorktree> = new Map();
+  private ready?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: WorktreeManagerOptions) {
+    this.projectDir = path.resolve(options.projectDir);
+    this.integrationBranch = options.integrationBranch || DEFAULT_INTEGRATION_BRANCH;
+    this.worktreeRoot = options.worktreeRoot || path.join(this.projectDir, '.eklavya', 'worktrees');
+    this.excludePaths = options.excludePaths || ['CLAUDE.md'];
+  }
+
+  getIntegrationBranch(): string {
+    return this.integrationBranch;
+  }
+
+  getProjectDir(): string {
+    return this.projectDir;
+  }
+
+  /**
+   * Make sure the project directory is a repository with an integration branch.
+   */
+  ensureRepository(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.prepareRepository().catch(error => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Create a worktree and branch for an agent, based on the integration branch.
+   */
+  async createWorktree(agentId: string, agentType = 'agent'): Promise<AgentWorktree> {
+    await this.ensureRepository();
+    return this.serialize(() => this.addWorktree(agentId, agentType));
+  }
+
+  private async addWorktree(agentId: string, agentType: string): Promise<AgentWorktree> {
+    const branch = `eklavya/${agentType}/${agentId}`;
+    const worktreePath = path.join(this.worktreeRoot, agentId);
+
+    await fs.mkdir(this.worktreeRoot, { recursive: true });
+    await this.git(['worktree', 'add', '-q', '-b', branch, worktreePath, this.integrationBranch]);
+
+    const worktree: AgentWorktree = {
+      agentId,
+      branch,
+      path: worktreePath,
+      baseCommit: await this.revParse(this.integrationBranch),
+    };
+
+    this.worktrees.set(agentId, worktree);
+    return worktree;
+  }
+
+  getWorktree(agentId: string): AgentWorktree | undefined {
+    return this.worktrees.get(agentId);
+  }
+
+  listWorktrees(): AgentWorktree[] {
+    return Array.from(this.worktrees.values());
+  }
+
+  /**
+   * Commit everything an agent left in its worktree.
+   * Returns the new commit, or null if there was nothing to commit.
+   */
+  async commitWorktree(agentId: string, message?: string): Promise<string | null> {
+    const worktree = this.requireWorktree(agentId);
+
+    await this.git(['add', '-A'], worktree.path);
+    if (this.excludePaths.length > 0) {
+      await this.git(['reset', '-q', '--', ...this.excludePaths], worktree.path);
+    }
+
+    const staged = await this.run(['diff', '--cached', '--quiet'], worktree.path);
+    if (staged.code === 0) {
+      return null;
+    }
+
+    const subject = message || `Agent ${agentId} work`;
+    await this.git(
+      [...GIT_IDENTITY, 'commit', '-q', '-m', `${subject}\n\n${AGENT_TRAILER}: ${agentId}`],
+      worktree.path
+    );
+
+    return this.revParse('HEAD', worktree.path);
+  }
+
+  /**
+   * Commit an agent's work and merge its branch into the integration branch.
+   */
+  async mergeBack(agentId: string, message?: string): Promise<MergeResult> {
+    const worktree = this.requireWorktree(agentId);
+    await this.commitWorktree(agentId, message);
+
+    return this.merge(worktree.branch, {
+      agentId,
+      message: message ? `Merge ${worktree.branch}: ${message}` : undefined,
+    });
+  }
+
+  /**
+   * Merge a branch into the integration branch. Conflicted files are settled
+   * with `resolutions`; any conflicted file without one aborts the merge and
+   * is reported in the result.
+   */
+  merge(sourceBranch: string, options: MergeOptions = {}): Promise<MergeResult> {
+    return this.serialize(() => this.performMerge(sourceBranch, options));
+  }
+
+  /**
+   * Remove an agent's worktree. The branch is kept unless asked otherwise,
+   * since unmerged work may still need to be resolved.
+   */
+  async removeWorktree(agentId: string, options: { deleteBranch?: boolean } = {}): Promise<void> {
+    const worktree = this.worktrees.get(agentId);
+    if (!worktree) return;
+
+    await this.run(['worktree', 'remove', '--force', worktree.path]);
+    await this.run(['worktree', 'prune']);
+    if (options.deleteBranch) {
+      await this.run(['branch', '-D', worktree.branch]);
+    }
+
+    this.worktrees.delete(agentId);
+  }
+
+  // ==========================================================================
+  // Merging
+  // ==========================================================================
+
+  private async performMerge(sourceBranch: string, options: MergeOptions): Promise<MergeResult> {
+    await this.ensureRepository();
+
+    const result: MergeResult = {
+      status: 'merged',
+      sourceBranch,
+      targetBranch: this.integrationBranch,
+      agentId: options.agentId,
+      conflicts: [],
+    };
+
+    const alreadyMerged = await this.run(['merge-base', '--is-ancestor', sourceBranch, this.integrationBranch]);
+    if (alreadyMerged.code === 0) {
+      result.status = 'up_to_date';
+      result.commit = await this.revParse(this.integrationBranch);
+      return result;
+    }
+
+    const checkout = await this.integrationCheckout();
+    const message = options.message || `Merge ${sourceBranch} into ${this.integrationBranch}`;
+
+    const merge = await this.run(
+      [...GIT_IDENTITY, 'merge', '--no-ff', '--no-edit', '-m', message, sourceBranch],
+      checkout
+    );
+    if (merge.code === 0) {
+      result.commit = await this.revParse('HEAD', checkout);
+      return result;
+    }
+
+    const conflicted = await this.conflictedFiles(checkout);
+    if (conflicted.length === 0) {
+      await this.run(['merge', '--abort'], checkout);
+      throw new Error(`git merge failed: ${(merge.stderr || merge.stdout).trim()}`);
+    }
+
+    const resolutions = options.resolutions || {};
+    const unresolved = conflicted.filter(file => !resolutions[file]);
+
+    if (unresolved.length > 0) {
+      await this.run(['merge', '--abort'], checkout);
+      result.status = 'conflict';
+      result.conflicts = await Promise.all(unresolved.map(async filePath => ({
+        filePath,
+        lastAgentId: await this.lastAgentFor(filePath),
+      })));
+      return result;
+    }
+
+    try {
+      for (const file of conflicted) {
+        await this.resolveFile(checkout, file, resolutions[file]);
+      }
+      await this.git([...GIT_IDENTITY, 'commit', '-q', '--no-edit'], checkout);
+    } catch (error) {
+      await this.run(['merge', '--abort'], checkout);
+      throw error;
+    }
+
+    result.commit = await this.revParse('HEAD', checkout);
+    return result;
+  }
+
+  private async resolveFile(checkout: string, file: string, resolution: MergeFileResolution): Promise<void> {
+    const base = await this.readStage(checkout, 1, file);
+    const ours = await this.readStage(checkout, 2, file);
+    const theirs = await this.readStage(checkout, 3, file);
+
+    let content: string | null;
+    if (resolution === 'ours') {
+      content = ours;
+    } else if (resolution === 'theirs') {
+      content = theirs;
+    } else if (ours === null || theirs === null) {
+      // One side deleted the file; keep whichever side still has it
+      content = ours ?? theirs;
+    } else {
+      content = await this.unionMerge(ours, base ?? '', theirs);
+    }
+
+    if (content === null) {
+      await this.git(['rm', '-q', '--force', '--', file], checkout);
+      return;
+    }
+
+    const target = path.join(checkout, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+    await this.git(['add', '--', file], checkout);
+  }
+
+  private async unionMerge(ours: string, base: string, theirs: string): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'eklavya-merge-'));
+    try {
+      const files = ['ours', 'base', 'theirs'].map(name => path.join(dir, name));
+      await Promise.all([
+        fs.writeFile(files[0], ours),
+        fs.writeFile(files[1], base),
+        fs.writeFile(files[2], theirs),
+      ]);
+      const merged = await this.run(['merge-file', '-p', '--union', ...files], dir);
+      return merged.stdout;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async readStage(checkout: string, stage: 1 | 2 | 3, file: string): Promise<string | null> {
+    const shown = await this.run(['show', `:${stage}:${file}`], checkout);
+    return shown.code === 0 ? shown.stdout : null;
+  }
+
+  private async conflictedFiles(checkout: string): Promise<string[]> {
+    const diff = await this.run(['diff', '--name-only', '--diff-filter=U'], checkout);
+    return diff.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  private async lastAgentFor(filePath: string): Promise<string | undefined> {
+    const log = await this.run([
+      'log', '-1', `--format=%(trailers:key=${AGENT_TRAILER},valueonly)`,
+      this.integrationBranch, '--', filePath,
+    ]);
+    return log.stdout.trim().split('\n')[0] || undefined;
+  }
+
+  /**
+   * Find (or create) a checkout of the integration branch to merge in.
+   */
+  private async integrationCheckout(): Promise<string> {
+    const list = await this.git(['worktree', 'list', '--porcelain']);
+    let current: string | undefined;
+
+    for (const line of list.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        current = line.slice('worktree '.length);
+      } else if (line === `branch refs/heads/${this.integrationBranch}` && current) {
+        return current;
+      }
+    }
+
+    const checkout = path.join(this.worktreeRoot, '_integration');
+    await fs.mkdir(this.worktreeRoot, { recursive: true });
+    await this.git(['worktree', 'add', '-q', checkout, this.integrationBranch]);
+    return checkout;
+  }
+
+  // ==========================================================================
+  // Repository setup & git helpers
+  // ==========================================================================
+
+  private async prepareRepository(): Promise<void> {
+    await fs.mkdir(this.projectDir, { recursive: true });
+
+    const inside = await this.run(['rev-parse', '--is-inside-work-tree']);
+    if (inside.code !== 0) {
+      await this.git(['init', '-q']);
+    }
+
+    const hasHead = await this.run(['rev-parse', '--verify', '-q', 'HEAD']);
+    if (hasHead.code !== 0) {
+      // Empty repository: start the integration branch with an empty commit
+      await this.git(['symbolic-ref', 'HEAD', `refs/heads/${this.integrationBranch}`]);
+      await this.git([...GIT_IDENTITY, 'commit', '-q', '--allow-empty', '-m', 'Initialize repository']);
+    } else {
+      const hasBranch = await this.run(['rev-parse', '--verify', '-q', `refs/heads/${this.integrationBranch}`]);
+      if (hasBranch.code !== 0) {
+        await this.git(['branch', this.integrationBranch, 'HEAD']);
+      }
+    }
+
+    await this.excludeWorktreeRoot();
+  }
+
+  /**
+   * Keep agent worktrees out of the project's own status.
+   */
+  private async excludeWorktreeRoot(): Promise<void> {
+    const relative = path.relative(this.projectDir, this.worktreeRoot);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return;
+
+    const gitDir = path.resolve(this.projectDir, await this.git(['rev-parse', '--git-common-dir']));
+    const excludeFile = path.join(gitDir, 'info', 'exclude');
+    const entry = `/${relative.split(path.sep).join('/')}/`;
+
+    const existing = await fs.readFile(excludeFile, 'utf-8').catch(() => '');
+    if (!existing.split('\n').includes(entry)) {
+      await fs.mkdir(path.dirname(excludeFile), { recursive: true });
+      const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+      await fs.writeFile(excludeFile, `${existing}${separator}${entry}\n`);
+    }
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private requireWorktree(agentId: string): AgentWorktree {
+    const worktree = this.worktrees.get(agentId);
+    if (!worktree) {
+      throw new Error(`No worktree for agent: ${agentId}`);
+    }
+    return worktree;
+  }
+
+  private async revParse(ref: string, cwd = this.projectDir): Promise<string> {
+    return this.git(['rev-parse', ref], cwd);
+  }
+
+  private async git(args: string[], cwd = this.projectDir): Promise<string> {
+    const result = await this.run(args, cwd);
+    if (result.code !== 0) {
+      const command = args.find(arg => !arg.startsWith('-') && !arg.includes('=')) || args[0];
+      throw new Error(`git ${command} failed: ${(result.stderr || result.stdout).trim()}`);
+    }
+    return result.stdout.trim();
+  }
+
+  private async run(args: string[], cwd = this.projectDir): Promise<{ code: number; stdout: string; stderr: string }> {
+    try {
+      const { stdout, stderr } = await execFileAsync('git', args, {
+        cwd,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return { code: 0, stdout, stderr };
+    } catch (error) {
+      const failed = error as { code?: number | string; stdout?: string; stderr?: string; message: string };
+      return {
+        code: typeof failed.code === 'number' ? failed.code : 1,
+        stdout: failed.stdout || '',
+        stderr: failed.stderr || failed.message,
+      };
+    }
+  }
+}
+
+// Factory function
+export function createWorktreeManager(options: WorktreeManagerOptions): WorktreeManager {
+  return new WorktreeManager(options);
+}
@@ -4,6 +4,8 @@ import { createMessageBus } from './core/message-bus/index.js';
 import { createAgentManager } from './core/agent-manager/index.js';
 import { getLearningSystem } from './core/learning/index.js';
 import { getCheckpointManager } from './core/checkpoint/index.js';
+import { getWorkflowEngine, getWorkflowRegistry } from './core/workflow/index.js';
+import { getBudgetEnforcer } from './core/cost/budgets.js';
 import { createApiServer } from './api/index.js';
 import { getWebSocketService } from './services/websocket.js';
 import type { EklavyaConfig } from './types/index.js';
@@ -12,6 +14,8 @@ dotenv.config();
 
 const config: EklavyaConfig = {
   database: {
+    driver: process.env.EKLAVYA_DB_DRIVER === 'embedded' ? 'embedded' : 'postgres',
+    dataDir: process.env.EKLAVYA_DATA_DIR || undefined,
     host: process.env.DB_HOST || 'localhost',
     port: parseInt(process.env.DB_PORT || '5432'),
     database: process.env.DB_NAME || 'eklavya',
@@ -22,7 +26,13 @@ const config: EklavyaConfig = {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379'),
   },
+  messageBus: process.env.EKLAVYA_MESSAGE_BUS === 'memory' ? 'memory' : 'redis',
   defaultModel: process.env.DEFAULT_MODEL || 'claude-sonnet-4-20250514',
+  worktrees: {
+    enabled: process.env.EKLAVYA_GIT_WORKTREES === 'true',
+    integrationBranch: process.env.EKLAVYA_INTEGRATION_BRANCH || 'main',
+  },
+  actionApproval: process.env.EKLAVYA_ACTION_APPROVAL !== 'false',
   maxConcurrentAgents: parseInt(process.env.MAX_CONCURRENT_AGENTS || '10'),
   checkpointIntervalMs: parseInt(process.env.CHECKPOINT_INTERVAL_MS || '900000'),
   heartbeatIntervalMs: parseInt(process.env.HEARTBEAT_INTERVAL_MS || '30000'),
@@ -35,14 +45,17 @@ async function main() {
   // Initialize database
   const db = getDatabase(config.database);
   await db.connect();
-  console.log('✓ Database connected');
+  console.log(`✓ Database connected (${db.driver})`);
 
   // Start listening for DB changes
   await db.startListening();
   console.log('✓ Database notifications active');
 
   // Initialize API server
-  const api = createApiServer({ port: 4000 });
+  const api = createApiServer({
+    port: 4000,
+    messageBus: { driver: config.messageBus, redis: config.redis },
+  });
   await api.start(4000);
   console.log('✓ API server started on port 4000');
 
@@ -59,6 +72,19 @@ async function main() {
   getCheckpointManager({ intervalMs: config.checkpointIntervalMs, maxCheckpointsPerAgent: 10 });
   console.log('✓ Checkpoint manager initialized');
 
+  // Enforce USD, token and time budgets (project policies override the global one)
+  getBudgetEnforcer(config.budgetPolicy);
+  console.log('✓ Budget enforcement initialized');
+
+  // Load custom workflow definitions (EKLAVYA_WORKFLOWS_DIR)
+  const workflows = await getWorkflowRegistry().loadDirectory();
+  console.log(`✓ Workflow definitions loaded (${workflows.length} custom)`);
+
+  // Continue workflows interrupted by the last shutdown
+  const workflowEngine = getWorkflowEngine({ config });
+  const resumed = await workflowEngine.recoverWorkflows();
+  console.log(`✓ Workflow engine ready (${resumed.length} in-flight workflow(s) resumed)`);
+
   console.log('\nEklavya Core is running!');
   console.log('API: http://localhost:4000');
   console.log('WebSocket: ws://localhost:4001');
@@ -67,6 +93,7 @@ async function main() {
   // Handle shutdown
   process.on('SIGINT', async () => {
     console.log('\nShutting down...');
+    await workflowEngine.shutdown();
     await wsService.stop();
     await api.stop();
     await db.close();
@@ -1,6 +1,7 @@
 import pg from 'pg';
 import { EventEmitter } from 'events';
-import type { DatabaseConfig } from '../types/index.js';
+import type { DatabaseConfig, DatabaseDriver } from '../types/index.js';
+import { EmbeddedDatabase } from './embedded-database.js';
 
 const { Pool } = pg;
 
@@ -14,7 +15,28 @@ export interface PoolStats {
   waitingClients: number;
 }
 
-export class Database extends EventEmitter {
+export interface Queryable {
+  query<T extends pg.QueryResultRow = pg.QueryResultRow>(text: string, params?: unknown[]): Promise<pg.QueryResult<T>>;
+}
+
+/**
+ * What the core services need from storage. Implemented by PostgresDatabase
+ * (a pg pool) and EmbeddedDatabase (in-process Postgres, no server).
+ *
+ * Emits 'change' and '<table>:<action>' for eklavya_changes notifications
+ * once startListening() has been called.
+ */
+export interface DatabaseAdapter extends EventEmitter, Queryable {
+  readonly driver: DatabaseDriver;
+  connect(): Promise<void>;
+  transaction<T>(fn: (client: Queryable) => Promise<T>): Promise<T>;
+  startListening(): Promise<void>;
+  stopListening(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class PostgresDatabase extends EventEmitter implements DatabaseAdapter {
+  readonly driver = 'postgres' as const;
   private pool: pg.Pool;
   private listenerClient: pg.PoolClient | null = null;
   private poolSize: number;
@@ -139,12 +161,19 @@ export class Database extends EventEmitter {
   }
 }
 
+export function createDatabase(config: DatabaseConfig): DatabaseAdapter {
+  if (config.driver === 'embedded') {
+    return new EmbeddedDatabase({ dataDir: config.dataDir });
+  }
+  return new PostgresDatabase(config);
+}
+
 // Singleton instance
-let db: Database | null = null;
+let db: DatabaseAdapter | null = null;
 
-export function getDatabase(config?: DatabaseConfig): Database {
+export function getDatabase(config?: DatabaseConfig): DatabaseAdapter {
   if (!db && config) {
-    db = new Database(config);
+    db = createDatabase(config);
   }
   if (!db) {
     throw new Error('Database not initialized. Call with config first.');
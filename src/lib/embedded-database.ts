@@ -0,0 +1,174 @@
+/**
+ * Embedded Database
+ * Runs Postgres inside the process (PGlite), so Eklavya works without a
+ * database server. The schema comes from the same migrations as Postgres;
+ * pending ones are applied on connect.
+ *
+ * Data lives in `dataDir`, or in memory when no directory is given. Only
+ * one process can open a data directory at a time.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type pg from 'pg';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import type { DatabaseAdapter, Queryable } from './database.js';
+
+export interface EmbeddedDatabaseOptions {
+  dataDir?: string;
+  migrationsDir?: string;
+}
+
+export const DEFAULT_MIGRATIONS_DIR = process.env.EKLAVYA_MIGRATIONS_DIR
+  || fileURLToPath(new URL('../../migrations', import.meta.url));
+
+interface PGliteQueryable {
+  query<T>(text: string, params?: unknown[]): Promise<{ rows: T[]; affectedRows?: number }>;
+}
+
+export class EmbeddedDatabase extends EventEmitter implements DatabaseAdapter {
+  readonly driver = 'embedded' as const;
+  private dataDir?: string;
+  private migrationsDir: string;
+  private pg: PGlite | null = null;
+  private connecting: Promise<PGlite> | null = null;
+  private unlisten: (() => Promise<void>) | null = null;
+
+  constructor(options: EmbeddedDatabaseOptions = {}) {
+    super();
+    this.dataDir = options.dataDir;
+    this.migrationsDir = options.migrationsDir || DEFAULT_MIGRATIONS_DIR;
+  }
+
+  async connect(): Promise<void> {
+    await this.open();
+  }
+
+  async query<T extends pg.QueryResultRow = pg.QueryResultRow>(text: string, params?: unknown[]): Promise<pg.QueryResult<T>> {
+    return this.run<T>(await this.open(), text, params);
+  }
+
+  /**
+   * PGlite has a single connection, so queries issued through
+   * getDatabase() inside `fn` wait until the transaction is done. Use the
+   * client that is passed in.
+   */
+  async transaction<T>(fn: (client: Queryable) => Promise<T>): Promise<T> {
+    const db = await this.open();
+    return db.transaction(tx => fn({
+      query: <R extends pg.QueryResultRow = pg.QueryResultRow>(text: string, params?: unknown[]) =>
+        this.run<R>(tx, text, params),
+    }));
+  }
+
+  async startListening(): Promise<void> {
+    if (this.unlisten) return;
+
+    const db = await this.open();
+    this.unlisten = await db.listen('eklavya_changes', (payload) => {
+      if (payload) {
+        try {
+          const data = JSON.parse(payload);
+          this.emit('change', data);
+          this.emit(`${data.table}:${data.action.toLowerCase()}`, data);
+        } catch {
+          // Ignore parse errors
+        }
+      }
+    });
+  }
+
+  async stopListening(): Promise<void> {
+    if (this.unlisten) {
+      await this.unlisten();
+      this.unlisten = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.stopListening();
+    if (this.pg) {
+      await this.pg.close();
+      this.pg = null;
+      this.connecting = null;
+    }
+  }
+
+  /**
+   * Start PGlite and apply pending migrations, once.
+   */
+  private async open(): Promise<PGlite> {
+    if (this.pg) return this.pg;
+
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        if (this.dataDir) {
+          await fs.mkdir(this.dataDir, { recursive: true });
+        }
+        const db = await PGlite.create({
+          dataDir: this.dataDir,
+          extensions: { uuid_ossp, pgcrypto },
+        });
+        await this.migrate(db);
+        this.pg = db;
+        return db;
+      })();
+
+      // Let a failed start be retried
+      this.connecting.catch(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  private async migrate(db: PGlite): Promise<void> {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        filename VARCHAR(255) PRIMARY KEY,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    const applied = new Set(
+      (await db.query<{ filename: string }>('SELECT filename FROM schema_migrations')).rows.map(r => r.filename)
+    );
+    const files = (await fs.readdir(this.migrationsDir))
+      .filter(file => file.endsWith('.sql'))
+      .sort();
+
+    for (const file of files) {
+      if (applied.has(file)) continue;
+
+      const sql = await fs.readFile(path.join(this.migrationsDir, file), 'utf-8');
+      try {
+        await db.transaction(async (tx) => {
+          await tx.exec(sql);
+          await tx.query('INSERT INTO schema_migrations (filename) VALUES ($1)', [file]);
+        });
+      } catch (error) {
+        throw new Error(`Migration ${file} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private async run<T extends pg.QueryResultRow>(
+    db: PGliteQueryable,
+    text: string,
+    params?: unknown[]
+  ): Promise<pg.QueryResult<T>> {
+    const result = await db.query<T>(text, params);
+    return {
+      rows: result.rows,
+      rowCount: result.affectedRows || result.rows.length,
+      command: '',
+      oid: 0,
+      fields: [],
+    };
+  }
+}
@@ -13,7 +13,7 @@ import type { IncomingMessage, ServerResponse } from 'http';
 
 export interface JwtPayload {
   sub: string;          // Subject (user ID)
-  role: 'admin' | 'user';
+  role: 'admin' | 'user' | 'viewer' | 'service';
   iat: number;          // Issued at
   exp: number;          // Expiration
   jti?: string;         // JWT ID for revocation
@@ -39,6 +39,10 @@ const REFRESH_TOKEN_EXPIRY = parseInt(process.env.REFRESH_TOKEN_EXPIRY_SECONDS |
 // Token blacklist for revoked tokens (in production, use Redis)
 const revokedTokens = new Set<string>();
 
+// Users whose tokens issued up to a point in time (seconds) are revoked,
+// e.g. after the account is disabled or deleted
+const revokedUsers = new Map<string, number>();
+
 /**
  * Base64url encode a buffer or string
  */
@@ -148,6 +152,10 @@ export function verifyToken(token: string, secret: string): JwtPayload | null {
     if (decoded.jti && revokedTokens.has(decoded.jti)) {
       return null;
     }
+    const userRevokedAt = revokedUsers.get(decoded.sub);
+    if (userRevokedAt !== undefined && decoded.iat <= userRevokedAt) {
+      return null;
+    }
 
     return decoded;
   } catch {
@@ -158,7 +166,7 @@ export function verifyToken(token: string, secret: string): JwtPayload | null {
 /**
  * Generate access and refresh token pair
  */
-export function generateTokenPair(userId: string, role: 'admin' | 'user'): TokenPair {
+export function generateTokenPair(userId: string, role: JwtPayload['role']): TokenPair {
   if (!JWT_SECRET || !JWT_REFRESH_SECRET) {
     throw new Error('JWT secrets not configured. Set JWT_SECRET and JWT_REFRESH_SECRET environment variables.');
   }
@@ -198,11 +206,63 @@ export function refreshAccessToken(refreshToken: string): TokenPair | null {
   return generateTokenPair(payload.sub, payload.role);
 }
 
+// Called with the JTI of every revoked token, e.g. to close its WebSocket sessions
+const revocationListeners = new Set<(jti: string) => void>();
+
 /**
  * Revoke a token by its JTI
  */
 export function revokeToken(jti: string): void {
   revokedTokens.add(jti);
+
+  for (const listener of revocationListeners) {
+    try {
+      listener(jti);
+    } catch (error) {
+      console.error('Token revocation listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Revoke every token issued to a user so far. Tokens issued afterwards are
+ * unaffected.
+ */
+export function revokeUserTokens(userId: string): void {
+  revokedUsers.set(userId, Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Register a listener for token revocations. Returns a function that
+ * removes it.
+ */
+export function onTokenRevoked(listener: (jti: string) => void): () => void {
+  revocationListeners.add(listener);
+  return () => {
+    revocationListeners.delete(listener);
+  };
+}
+
+/**
+ * Verify an access token presented outside an HTTP request, such as on a
+ * WebSocket handshake. With AUTH_DISABLED every token (or none) is the dev
+ * admin, as in authenticate().
+ */
+export function verifyAccessToken(token: string | null | undefined): JwtPayload | null {
+  if (process.env.AUTH_DISABLED === 'true') {
+    return {
+      sub: 'dev-user',
+      role: 'admin',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600
+    };
+  }
+
+  if (!JWT_SECRET || !token) {
+    return null;
+  }
+
+  return verifyToken(token, JWT_SECRET);
 }
 
 /**
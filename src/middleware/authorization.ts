@@ -6,7 +6,7 @@ import type { AuthenticatedRequest, JwtPayload } from './auth.js';
  * Authorization/ACL Middleware
  *
  * Provides comprehensive access control:
- * - Project ownership verification
+ * - Project membership verification (per-project roles, directly or via teams)
  * - Role-based access control (RBAC)
  * - Resource-level permissions
  * - Endpoint-level permissions
@@ -27,6 +27,20 @@ export interface ResourcePermission {
 // Extended user roles
 export type UserRole = 'admin' | 'user' | 'viewer' | 'service';
 
+// Per-project roles granted through membership, lowest first
+export type ProjectRole = 'viewer' | 'reviewer' | 'editor' | 'owner';
+
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'reviewer', 'editor', 'owner'];
+
+// What each project role may do within the project. Reviewers have the
+// viewer's access here; approval flows check for the reviewer role itself.
+const PROJECT_ROLE_ACTIONS: Record<ProjectRole, ActionType[]> = {
+  owner: ['read', 'write', 'execute', 'delete', 'admin'],
+  editor: ['read', 'write', 'execute'],
+  reviewer: ['read'],
+  viewer: ['read'],
+};
+
 // Role hierarchy - higher roles inherit lower role permissions
 const ROLE_HIERARCHY: Record<UserRole, number> = {
   admin: 100,
@@ -41,9 +55,10 @@ const ROLE_PERMISSIONS: Record<UserRole, ResourcePermission[]> = {
     // Admin has all permissions - handled specially in hasPermission
   ],
   user: [
-    // Project permissions
+    // Project permissions; 'admin' (managing members) only on projects they own
     { resource: 'project', action: 'read' },
     { resource: 'project', action: 'write' },
+    { resource: 'project', action: 'admin' },
     // Agent permissions
     { resource: 'agent', action: 'read' },
     { resource: 'agent', action: 'write' },
@@ -61,6 +76,8 @@ const ROLE_PERMISSIONS: Record<UserRole, ResourcePermission[]> = {
     // Settings permissions (own settings only)
     { resource: 'settings', action: 'read' },
     { resource: 'settings', action: 'write' },
+    // User directory, to find people and teams to add to projects
+    { resource: 'user', action: 'read' },
   ],
   viewer: [
     // Read-only access
@@ -70,6 +87,7 @@ const ROLE_PERMISSIONS: Record<UserRole, ResourcePermission[]> = {
     { resource: 'demo', action: 'read' },
     { resource: 'notification', action: 'read' },
     { resource: 'settings', action: 'read' },
+    { resource: 'user', action: 'read' },
   ],
   service: [
     // Service accounts for internal operations
@@ -94,7 +112,7 @@ export interface EndpointPermission {
   pattern: RegExp;
   resource: ResourceType;
   action: ActionType;
-  requiresOwnership?: boolean;  // Whether to check project ownership
+  requiresOwnership?: boolean;  // Whether to check project membership
   adminOnly?: boolean;          // Only admin can access
   extractResourceId?: (url: string) => string | null;  // Extract resource ID from URL
 }
@@ -104,6 +122,26 @@ export const ENDPOINT_PERMISSIONS: EndpointPermission[] = [
   // Auth endpoints - no permission needed (handled by auth middleware)
   { method: 'POST', pattern: /^\/api\/auth\//, resource: 'user', action: 'read', requiresOwnership: false },
 
+  // Accounts: the directory is readable by users, managing it is for admins.
+  // Team maintainers are checked in the team member handlers.
+  { method: 'GET', pattern: /^\/api\/(users|teams)(\/[^/]+)?(\?|$)/, resource: 'user', action: 'read', requiresOwnership: false },
+  { method: 'GET', pattern: /^\/api\/invitations(\?|$)/, resource: 'user', action: 'admin', adminOnly: true },
+  { method: 'POST', pattern: /^\/api\/(users|invitations)(\?|$)/, resource: 'user', action: 'write', adminOnly: true },
+  { method: 'PATCH', pattern: /^\/api\/users\/[^/]+$/, resource: 'user', action: 'write', adminOnly: true },
+  { method: 'DELETE', pattern: /^\/api\/(users|invitations)\/[^/]+$/, resource: 'user', action: 'delete', adminOnly: true },
+  { method: 'POST', pattern: /^\/api\/teams(\?|$)/, resource: 'user', action: 'write', adminOnly: true },
+  { method: 'DELETE', pattern: /^\/api\/teams\/[^/]+$/, resource: 'user', action: 'delete', adminOnly: true },
+  { method: 'POST', pattern: /^\/api\/teams\/[^/]+\/members(\?|$)/, resource: 'user', action: 'read', requiresOwnership: false },
+  { method: 'DELETE', pattern: /^\/api\/teams\/[^/]+\/members\/[^/]+$/, resource: 'user', action: 'read', requiresOwnership: false },
+
+  // Project membership - reading needs any role on the project, changing it the owner role
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/members(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/members/)?.[1] || null },
+  { method: 'PUT', pattern: /^\/api\/projects\/[^/]+\/members(\?|$)/, resource: 'project', action: 'admin', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/members/)?.[1] || null },
+  { method: 'DELETE', pattern: /^\/api\/projects\/[^/]+\/members\/[^/]+$/, resource: 'project', action: 'admin', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/members/)?.[1] || null },
+
   // Health check - no permission needed
   { method: 'GET', pattern: /^\/api\/health$/, resource: 'system', action: 'read', requiresOwnership: false },
 
@@ -124,6 +162,24 @@ export const ENDPOINT_PERMISSIONS: EndpointPermission[] = [
   // Agent lifecycle endpoints
   { method: 'POST', pattern: /^\/api\/agents\/[^/]+\/(spawn|terminate|kill|restart)/, resource: 'agent', action: 'execute', requiresOwnership: false },
 
+  // Dead letters - reading and requeueing a project's undeliverable messages
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/dead-letters(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/dead-letters/)?.[1] || null },
+  { method: 'POST', pattern: /^\/api\/projects\/[^/]+\/dead-letters\/[^/]+\/requeue$/, resource: 'project', action: 'write', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/dead-letters/)?.[1] || null },
+
+  // Agent control - handlers check the agent's project: editors and up may
+  // control it, reviewers and up decide its pending actions
+  { method: 'POST', pattern: /^\/api\/agents\/[^/]+\/(pause|unpause|step|steering|pending-actions)(\?|$)/, resource: 'agent', action: 'execute', requiresOwnership: false },
+  { method: 'DELETE', pattern: /^\/api\/steering\/[^/]+$/, resource: 'agent', action: 'execute', requiresOwnership: false },
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/pending-actions(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/pending-actions/)?.[1] || null },
+  { method: 'POST', pattern: /^\/api\/pending-actions\/[^/]+\/(approve|deny)$/, resource: 'agent', action: 'read', requiresOwnership: false },
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/requirements(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/requirements/)?.[1] || null },
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/quality(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/quality/)?.[1] || null },
+
   // Agent manager endpoints - admin only
   { method: 'GET', pattern: /^\/api\/agent-manager\//, resource: 'system', action: 'read', adminOnly: true },
   { method: 'POST', pattern: /^\/api\/agent-manager\//, resource: 'system', action: 'execute', adminOnly: true },
@@ -138,6 +194,30 @@ export const ENDPOINT_PERMISSIONS: EndpointPermission[] = [
   { method: 'GET', pattern: /^\/api\/orchestrator\//, resource: 'system', action: 'read', adminOnly: true },
   { method: 'POST', pattern: /^\/api\/orchestrator\//, resource: 'system', action: 'execute', adminOnly: true },
 
+  // Visual regression endpoints
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/visual[-/]/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/visual/)?.[1] || null },
+  { method: 'POST', pattern: /^\/api\/projects\/[^/]+\/visual-baselines/, resource: 'project', action: 'write', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/visual/)?.[1] || null },
+
+  // Cost forecast endpoint
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/cost-forecast(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/cost-forecast/)?.[1] || null },
+
+  // Budget enforcement endpoints - setting the policy or extending a budget needs the owner role
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/budget(s|-policy|-extensions)(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/budget/)?.[1] || null },
+  { method: 'PUT', pattern: /^\/api\/projects\/[^/]+\/budget-policy(\?|$)/, resource: 'project', action: 'admin', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/budget/)?.[1] || null },
+  { method: 'POST', pattern: /^\/api\/projects\/[^/]+\/budget-extensions(\?|$)/, resource: 'project', action: 'admin', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/budget/)?.[1] || null },
+
+  // Model routing endpoints
+  { method: 'GET', pattern: /^\/api\/projects\/[^/]+\/model-(policy|routing)(\?|$)/, resource: 'project', action: 'read', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/model-/)?.[1] || null },
+  { method: 'PUT', pattern: /^\/api\/projects\/[^/]+\/model-policy(\?|$)/, resource: 'project', action: 'write', requiresOwnership: true,
+    extractResourceId: (url) => url.match(/\/api\/projects\/([^/]+)\/model-/)?.[1] || null },
+
   // Demo endpoints
   { method: 'GET', pattern: /^\/api\/demos/, resource: 'demo', action: 'read', requiresOwnership: false },
   { method: 'POST', pattern: /^\/api\/demos/, resource: 'demo', action: 'write', requiresOwnership: false },
@@ -166,9 +246,11 @@ export const ENDPOINT_PERMISSIONS: EndpointPermission[] = [
     extractResourceId: (url) => url.match(/\/api\/coordination\/([^/]+)/)?.[1] || null },
 ];
 
-// Cache for project ownership checks (TTL-based)
+// Cache for project membership checks (TTL-based)
 interface CacheEntry {
-  isOwner: boolean;
+  exists: boolean;
+  open: boolean;              // Project has no members yet
+  role: ProjectRole | null;   // Highest role held directly or through a team
   timestamp: number;
 }
 
@@ -265,55 +347,110 @@ function cleanCache(): void {
 setInterval(cleanCache, CACHE_TTL_MS);
 
 /**
- * Check if user owns a project
+ * Look up a user's standing on a project: the highest role they hold as a
+ * member, directly or through a team, and whether the project has any
+ * members at all
  */
-export async function verifyProjectOwnership(
+async function resolveProjectMembership(
   userId: string,
   projectId: string
-): Promise<boolean> {
+): Promise<CacheEntry> {
   const cacheKey = `${userId}:${projectId}`;
 
   // Check cache first
   const cached = ownershipCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.isOwner;
-  }
+    return cached;
+  }
+
+  const db = getDatabase();
+  const result = await db.query<{ open: boolean; role: ProjectRole | null }>(
+    `SELECT NOT EXISTS (SELECT 1 FROM project_members WHERE project_id = p.id) AS open,
+            (SELECT pm.role FROM project_members pm
+               LEFT JOIN team_members tm ON tm.team_id = pm.team_id
+              WHERE pm.project_id = p.id
+                AND (pm.user_id::text = $2 OR tm.user_id::text = $2)
+              ORDER BY CASE pm.role WHEN 'owner' THEN 4 WHEN 'editor' THEN 3 WHEN 'reviewer' THEN 2 ELSE 1 END DESC
+              LIMIT 1) AS role
+     FROM projects p WHERE p.id = $1`,
+    [projectId, userId]
+  );
 
-  try {
-    const db = getDatabase();
-    const result = await db.query(
-      'SELECT owner_id FROM projects WHERE id = $1',
-      [projectId]
-    );
+  const entry: CacheEntry = result.rows.length === 0
+    ? { exists: false, open: false, role: null, timestamp: Date.now() }
+    : { exists: true, open: result.rows[0].open, role: result.rows[0].role, timestamp: Date.now() };
 
-    if (result.rows.length === 0) {
-      return false;
-    }
+  // Cache result
+  ownershipCache.set(cacheKey, entry);
+  return entry;
+}
 
-    // For now, allow access if user exists (since owner_id might not be set)
-    // In production, this would strictly check owner_id
-    const isOwner = result.rows[0].owner_id === userId ||
-                    result.rows[0].owner_id === null; // Allow if no owner set
+/**
+ * Get the highest project role a user holds, directly or through a team.
+ * Null if they are not a member.
+ */
+export async function getProjectRole(
+  userId: string,
+  projectId: string
+): Promise<ProjectRole | null> {
+  try {
+    return (await resolveProjectMembership(userId, projectId)).role;
+  } catch {
+    return null;
+  }
+}
 
-    // Cache result
-    ownershipCache.set(cacheKey, {
-      isOwner,
-      timestamp: Date.now()
-    });
+/**
+ * Check if a project role is at least the required one
+ */
+export function hasProjectRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  return role !== null && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
 
-    return isOwner;
+/**
+ * Check if a user's project membership allows an action on the project.
+ * Projects without any members (created before membership existed, or by
+ * the env-based admin) stay readable by every user; anything more needs
+ * a member role, or a global admin to assign the first owner.
+ */
+export async function verifyProjectAccess(
+  userId: string,
+  projectId: string,
+  action: ActionType = 'read'
+): Promise<boolean> {
+  try {
+    const membership = await resolveProjectMembership(userId, projectId);
+    if (!membership.exists) {
+      return false;
+    }
+    if (membership.open) {
+      return action === 'read';
+    }
+    return membership.role !== null && PROJECT_ROLE_ACTIONS[membership.role].includes(action);
   } catch {
-    // If column doesn't exist, return true (backward compatibility)
-    return true;
+    // Fail closed: a lookup error (or a malformed project ID) grants nothing
+    return false;
   }
 }
 
 /**
- * Check if user can access an agent (via project ownership)
+ * Check if user is a member of a project (any role)
+ */
+export async function verifyProjectOwnership(
+  userId: string,
+  projectId: string
+): Promise<boolean> {
+  return verifyProjectAccess(userId, projectId, 'read');
+}
+
+/**
+ * Check if user can access an agent (via project membership), optionally
+ * for an action beyond reading
  */
 export async function verifyAgentAccess(
   userId: string,
-  agentId: string
+  agentId: string,
+  action: ActionType = 'read'
 ): Promise<boolean> {
   try {
     const db = getDatabase();
@@ -326,7 +463,7 @@ export async function verifyAgentAccess(
       return false;
     }
 
-    return verifyProjectOwnership(userId, result.rows[0].project_id);
+    return verifyProjectAccess(userId, result.rows[0].project_id, action);
   } catch {
     return false;
   }
@@ -507,14 +644,14 @@ export async function authorizeEndpoint(
     return false;
   }
 
-  // Check ownership if required
+  // Check project membership if required
   if (endpointPerm.requiresOwnership && req.user && req.user.role !== 'admin') {
     const resourceId = endpointPerm.extractResourceId?.(url);
 
     if (resourceId) {
-      const isOwner = await verifyProjectOwnership(req.user.sub, resourceId);
+      const isMember = await verifyProjectAccess(req.user.sub, resourceId, endpointPerm.action);
 
-      if (!isOwner) {
+      if (!isMember) {
         logAuthorizationDecision({
           timestamp: new Date(),
           userId: req.user.sub,
@@ -522,7 +659,7 @@ export async function authorizeEndpoint(
           resourceId,
           action: endpointPerm.action,
           allowed: false,
-          reason: 'not_owner'
+          reason: 'not_member'
         });
 
         res.writeHead(403, { 'Content-Type': 'application/json' });
@@ -576,7 +713,7 @@ export async function authorizeProject(
       resourceId: projectId,
       action: 'read',
       allowed: false,
-      reason: 'not_owner'
+      reason: 'not_member'
     });
 
     res.writeHead(403, { 'Content-Type': 'application/json' });
@@ -618,7 +755,7 @@ export async function authorizeAgent(
       resourceId: agentId,
       action: 'read',
       allowed: false,
-      reason: 'not_owner'
+      reason: 'not_member'
     });
 
     res.writeHead(403, { 'Content-Type': 'application/json' });
@@ -660,7 +797,7 @@ export async function authorizeTask(
       resourceId: taskId,
       action: 'read',
       allowed: false,
-      reason: 'not_owner'
+      reason: 'not_member'
     });
 
     res.writeHead(403, { 'Content-Type': 'application/json' });
@@ -702,7 +839,7 @@ export async function authorizeDemo(
       resourceId: demoId,
       action: 'read',
       allowed: false,
-      reason: 'not_owner'
+      reason: 'not_member'
     });
 
     res.writeHead(403, { 'Content-Type': 'application/json' });
@@ -786,7 +923,64 @@ export function requireRole(
 }
 
 /**
- * Clear ownership cache (useful for testing)
+ * Check a user's access to a project without an HTTP response: the role
+ * must allow the action and, for non-admins, so must their project
+ * membership. Used for WebSocket project subscriptions.
+ */
+export async function canAccessProject(
+  user: JwtPayload | undefined,
+  projectId: string,
+  action: ActionType = 'read'
+): Promise<boolean> {
+  if (!user) {
+    return false;
+  }
+
+  if (!hasPermission(user, { resource: 'project', action })) {
+    logAuthorizationDecision({
+      timestamp: new Date(),
+      userId: user.sub,
+      resource: 'project',
+      resourceId: projectId,
+      action,
+      allowed: false,
+      reason: 'insufficient_permission'
+    });
+    return false;
+  }
+
+  if (user.role !== 'admin' && !(await verifyProjectAccess(user.sub, projectId, action))) {
+    logAuthorizationDecision({
+      timestamp: new Date(),
+      userId: user.sub,
+      resource: 'project',
+      resourceId: projectId,
+      action,
+      allowed: false,
+      reason: 'not_member'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+// Called with the project ID whenever its cached membership is invalidated
+const projectAccessListeners = new Set<(projectId: string) => void>();
+
+/**
+ * Register a listener for project access changes (invalidateProjectCache).
+ * Returns a function that removes it.
+ */
+export function onProjectAccessChanged(listener: (projectId: string) => void): () => void {
+  projectAccessListeners.add(listener);
+  return () => {
+    projectAccessListeners.delete(listener);
+  };
+}
+
+/**
+ * Clear membership cache (useful for testing)
  */
 export function clearOwnershipCache(): void {
   ownershipCache.clear();
@@ -803,6 +997,10 @@ export function invalidateProjectCache(projectId: string): void {
     }
   });
   keysToDelete.forEach(key => ownershipCache.delete(key));
+
+  for (const listener of projectAccessListeners) {
+    listener(projectId);
+  }
 }
 
 /**
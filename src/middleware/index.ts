@@ -14,6 +14,9 @@ export {
   generateTokenPair,
   refreshAccessToken,
   revokeToken,
+  revokeUserTokens,
+  onTokenRevoked,
+  verifyAccessToken,
   type JwtPayload,
   type TokenPair,
   type AuthenticatedRequest
@@ -27,6 +30,10 @@ export {
   authorizeDemo,
   requireAdmin,
   verifyProjectOwnership,
+  verifyProjectAccess,
+  getProjectRole,
+  hasProjectRole,
+  PROJECT_ROLES,
   verifyAgentAccess,
   verifyTaskAccess,
   verifyDemoAccess,
@@ -40,11 +47,14 @@ export {
   clearAuthorizationAuditLog,
   clearOwnershipCache,
   invalidateProjectCache,
+  canAccessProject,
+  onProjectAccessChanged,
   ENDPOINT_PERMISSIONS,
   type ResourcePermission,
   type ResourceType,
   type ActionType,
   type UserRole,
+  type ProjectRole,
   type EndpointPermission
 } from './authorization.js';
 
@@ -90,7 +90,9 @@ async function main(): Promise<void> {
   log('  PHASE 1: Requirements Analysis', colors.cyan);
   log('─'.repeat(70), colors.cyan);
 
-  const requirementsMapper = new RequirementsMapper(projectDir);
+  const requirementsMapper = new RequirementsMapper(projectDir, {
+    specFiles: [path.resolve(process.cwd(), 'EKLAVYA_COMPLETE_SPEC.md')],
+  });
   const requirementsReport = await requirementsMapper.analyze();
 
   log(`\n  Total Requirements: ${requirementsReport.totalRequirements}`);
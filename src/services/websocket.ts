@@ -6,19 +6,46 @@
  * - Task progress updates
  * - Activity feed events
  * - RL learning updates
+ *
+ * Clients authenticate with an access token, either as a `token` query
+ * parameter on the handshake URL or in an `auth` message sent first.
+ * Project subscriptions go through the same role and ownership checks as
+ * the REST API, and a session is closed when its token is revoked.
+ *
+ * Every broadcast event carries a sequence number per channel and is kept
+ * in a bounded replay log. A reconnecting client subscribes with the
+ * server epoch and the last sequence it saw on each channel and is sent
+ * the events it missed before live ones; if they are no longer in the log
+ * it is told to refetch instead.
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
 import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
 import { getDatabase } from '../lib/database.js';
+import { onTokenRevoked, verifyAccessToken, type JwtPayload } from '../middleware/auth.js';
+import { canAccessProject, onProjectAccessChanged } from '../middleware/authorization.js';
 
 export interface WebSocketMessage {
   type: string;
   payload: Record<string, unknown>;
   timestamp: string;
+  channel?: string;   // Broadcast events only
+  seq?: number;       // Per-channel sequence of a broadcast event
+  replay?: boolean;   // Sent again after a reconnect
+}
+
+/**
+ * What a reconnecting client sends to pick up where it left off
+ */
+export interface ResumeToken {
+  epoch: string;                    // Server epoch from the `connected` message
+  lastSeq: Record<string, number>;  // Last sequence seen per channel
 }
 
 export interface Subscription {
+  clientId: string;
+  user?: JwtPayload;  // Set once the client has authenticated
   projectId?: string;
   channels: Set<string>;
 }
@@ -26,8 +53,23 @@ export interface Subscription {
 export interface WebSocketServiceOptions {
   port?: number;
   heartbeatInterval?: number;
+  authTimeoutMs?: number;  // How long a client has to send its token
+  replayLogSize?: number;  // Events kept per channel for reconnecting clients
+}
+
+interface ReplayEntry {
+  seq: number;
+  projectId?: string;
+  message: WebSocketMessage;
 }
 
+/**
+ * Close code for missing, invalid, expired or revoked tokens
+ */
+export const WS_CLOSE_UNAUTHORIZED = 4401;
+
+const AVAILABLE_CHANNELS = ['global', 'agents', 'tasks', 'activity', 'learning'];
+
 /**
  * WebSocket service for real-time dashboard updates
  */
@@ -38,11 +80,25 @@ export class WebSocketService extends EventEmitter {
   private port: number;
   private heartbeatMs: number;
   private dbListener: (() => void) | null = null;
+  private authTimeoutMs: number;
+  private authTimers: Map<WebSocket, NodeJS.Timeout> = new Map();
+  private authListeners: Array<() => void> = [];
+  private replayLogSize: number;
+  private sequences: Map<string, number> = new Map();
+  private replayLog: Map<string, ReplayEntry[]> = new Map();
+
+  /**
+   * Unique to this process, so sequences from before a restart are never
+   * mistaken for current ones
+   */
+  readonly epoch = randomBytes(8).toString('hex');
 
   constructor(options: WebSocketServiceOptions = {}) {
     super();
     this.port = options.port || 4001;
     this.heartbeatMs = options.heartbeatInterval || 30000;
+    this.authTimeoutMs = options.authTimeoutMs || 10000;
+    this.replayLogSize = options.replayLogSize || 500;
   }
 
   /**
@@ -56,6 +112,7 @@ export class WebSocketService extends EventEmitter {
         this.wss.on('listening', () => {
           console.log(`WebSocket server started on port ${this.port}`);
           this.setupHeartbeat();
+          this.setupAuthListeners();
           this.setupDatabaseListener();
           this.emit('started', { port: this.port });
           resolve();
@@ -83,21 +140,12 @@ export class WebSocketService extends EventEmitter {
     const clientId = Math.random().toString(36).slice(2, 10);
     console.log(`WebSocket client connected: ${clientId}`);
 
-    // Initialize subscription
-    this.clients.set(ws, {
+    // Initialize subscription; nothing is delivered until authenticated
+    const subscription: Subscription = {
+      clientId,
       channels: new Set(['global']),
-    });
-
-    // Send welcome message
-    this.sendToClient(ws, {
-      type: 'connected',
-      payload: {
-        clientId,
-        message: 'Connected to Eklavya real-time service',
-        availableChannels: ['global', 'agents', 'tasks', 'activity', 'learning'],
-      },
-      timestamp: new Date().toISOString(),
-    });
+    };
+    this.clients.set(ws, subscription);
 
     // Handle messages from client
     ws.on('message', (data) => {
@@ -116,6 +164,7 @@ export class WebSocketService extends EventEmitter {
     // Handle disconnection
     ws.on('close', () => {
       console.log(`WebSocket client disconnected: ${clientId}`);
+      this.clearAuthTimer(ws);
       this.clients.delete(ws);
       this.emit('clientDisconnected', { clientId });
     });
@@ -123,10 +172,91 @@ export class WebSocketService extends EventEmitter {
     // Handle errors
     ws.on('error', (error) => {
       console.error(`WebSocket client error (${clientId}):`, error);
+      this.clearAuthTimer(ws);
       this.clients.delete(ws);
     });
 
     this.emit('clientConnected', { clientId });
+
+    const token = new URL(req.url || '/', 'ws://localhost').searchParams.get('token');
+    if (token) {
+      this.authenticateClient(ws, subscription, token);
+      return;
+    }
+
+    // Otherwise the token must arrive in the first message
+    this.sendToClient(ws, {
+      type: 'auth_required',
+      payload: { message: 'Send { type: "auth", payload: { token } } to authenticate' },
+      timestamp: new Date().toISOString(),
+    });
+    this.authTimers.set(ws, setTimeout(() => {
+      this.authTimers.delete(ws);
+      this.closeClient(ws, 'Authentication timeout');
+    }, this.authTimeoutMs));
+  }
+
+  /**
+   * Verify a client's access token and, if valid, welcome it
+   */
+  private authenticateClient(ws: WebSocket, subscription: Subscription, token: unknown): boolean {
+    const user = verifyAccessToken(typeof token === 'string' ? token : null);
+    if (!user) {
+      this.closeClient(ws, 'Invalid or expired token');
+      return false;
+    }
+
+    this.clearAuthTimer(ws);
+    const firstAuth = !subscription.user;
+    subscription.user = user;
+
+    if (firstAuth) {
+      this.sendToClient(ws, {
+        type: 'connected',
+        payload: {
+          clientId: subscription.clientId,
+          userId: user.sub,
+          message: 'Connected to Eklavya real-time service',
+          availableChannels: AVAILABLE_CHANNELS,
+          epoch: this.epoch,
+          sequences: Object.fromEntries(this.sequences),
+        },
+        timestamp: new Date().toISOString(),
+      });
+      this.emit('clientAuthenticated', { clientId: subscription.clientId, userId: user.sub });
+    } else {
+      // A refreshed token replaces the old one on the same session
+      this.sendToClient(ws, {
+        type: 'authenticated',
+        payload: { userId: user.sub },
+        timestamp: new Date().toISOString(),
+      });
+    }
+    return true;
+  }
+
+  private clearAuthTimer(ws: WebSocket): void {
+    const timer = this.authTimers.get(ws);
+    if (timer) {
+      clearTimeout(timer);
+      this.authTimers.delete(ws);
+    }
+  }
+
+  /**
+   * Tell a client why, then close it as unauthorized
+   */
+  private closeClient(ws: WebSocket, reason: string): void {
+    this.sendToClient(ws, {
+      type: 'unauthorized',
+      payload: { message: reason },
+      timestamp: new Date().toISOString(),
+    });
+    this.clearAuthTimer(ws);
+    this.clients.delete(ws);
+    if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+      ws.close(WS_CLOSE_UNAUTHORIZED, reason);
+    }
   }
 
   /**
@@ -136,9 +266,21 @@ export class WebSocketService extends EventEmitter {
     const subscription = this.clients.get(ws);
     if (!subscription) return;
 
+    if (message.type === 'auth') {
+      this.authenticateClient(ws, subscription, message.payload?.token);
+      return;
+    }
+
+    if (!subscription.user) {
+      this.closeClient(ws, 'Authentication required');
+      return;
+    }
+
     switch (message.type) {
       case 'subscribe':
-        this.handleSubscribe(ws, subscription, message.payload || {});
+        this.handleSubscribe(ws, subscription, message.payload || {}).catch((error) => {
+          console.error(`WebSocket subscribe failed (${subscription.clientId}):`, error);
+        });
         break;
 
       case 'unsubscribe':
@@ -163,16 +305,30 @@ export class WebSocketService extends EventEmitter {
   }
 
   /**
-   * Handle subscription request
+   * Handle subscription request. A project is only subscribed to if the
+   * user may read it. A `resume` token replays what the client missed
+   * once the subscription is in place.
    */
-  private handleSubscribe(
+  private async handleSubscribe(
     ws: WebSocket,
     subscription: Subscription,
     payload: Record<string, unknown>
-  ): void {
-    const { projectId, channels } = payload as { projectId?: string; channels?: string[] };
+  ): Promise<void> {
+    const { projectId, channels, resume } = payload as {
+      projectId?: string;
+      channels?: string[];
+      resume?: ResumeToken;
+    };
 
     if (projectId) {
+      if (!(await canAccessProject(subscription.user, projectId))) {
+        this.sendToClient(ws, {
+          type: 'error',
+          payload: { message: 'Access denied to this project', code: 'PROJECT_ACCESS_DENIED', projectId },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
       subscription.projectId = projectId;
     }
 
@@ -190,6 +346,53 @@ export class WebSocketService extends EventEmitter {
       },
       timestamp: new Date().toISOString(),
     });
+
+    if (resume && typeof resume === 'object') {
+      this.replayMissed(ws, subscription, resume);
+    }
+  }
+
+  /**
+   * Send a client the events after its last seen sequence on each channel,
+   * then `replay_complete` with the current sequences. Channels whose gap
+   * has fallen out of the replay log, or that predate this epoch, get
+   * `resync_required` instead and must be refetched.
+   *
+   * Runs synchronously, so no live event can be sent in between.
+   */
+  private replayMissed(ws: WebSocket, subscription: Subscription, resume: ResumeToken): void {
+    const resync: string[] = [];
+    let replayed = 0;
+
+    for (const [channel, lastSeq] of Object.entries(resume.lastSeq || {})) {
+      if (typeof lastSeq !== 'number') continue;
+
+      const currentSeq = this.sequences.get(channel) || 0;
+      const log = this.replayLog.get(channel) || [];
+      const oldestSeq = log.length > 0 ? log[0].seq : currentSeq + 1;
+
+      if (resume.epoch !== this.epoch || lastSeq > currentSeq || lastSeq + 1 < oldestSeq) {
+        resync.push(channel);
+        this.sendToClient(ws, {
+          type: 'resync_required',
+          payload: { channel, lastSeq, currentSeq },
+          timestamp: new Date().toISOString(),
+        });
+        continue;
+      }
+
+      for (const entry of log) {
+        if (entry.seq <= lastSeq || !this.shouldDeliver(subscription, channel, entry.projectId)) continue;
+        this.sendToClient(ws, { ...entry.message, replay: true });
+        replayed++;
+      }
+    }
+
+    this.sendToClient(ws, {
+      type: 'replay_complete',
+      payload: { epoch: this.epoch, sequences: Object.fromEntries(this.sequences), replayed, resync },
+      timestamp: new Date().toISOString(),
+    });
   }
 
   /**
@@ -229,27 +432,56 @@ export class WebSocketService extends EventEmitter {
   }
 
   /**
-   * Broadcast message to all subscribed clients
+   * Whether a client should get an event from this channel and project
+   */
+  private shouldDeliver(subscription: Subscription, channel: string, projectId?: string): boolean {
+    if (!subscription.user) {
+      return false;
+    }
+
+    // Check if client is subscribed to this channel
+    if (!subscription.channels.has(channel) && !subscription.channels.has('global')) {
+      return false;
+    }
+
+    // Project events go to that project's subscribers; only admins see
+    // every project's events without subscribing to one
+    if (projectId && (subscription.projectId
+      ? subscription.projectId !== projectId
+      : subscription.user.role !== 'admin')) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Broadcast message to all subscribed clients, numbering it and keeping
+   * it in the channel's replay log
    */
   broadcast(channel: string, type: string, payload: Record<string, unknown>, projectId?: string): void {
+    const seq = (this.sequences.get(channel) || 0) + 1;
+    this.sequences.set(channel, seq);
+
     const message: WebSocketMessage = {
       type,
       payload: { ...payload, channel },
       timestamp: new Date().toISOString(),
+      channel,
+      seq,
     };
 
-    for (const [ws, subscription] of this.clients) {
-      // Check if client is subscribed to this channel
-      if (!subscription.channels.has(channel) && !subscription.channels.has('global')) {
-        continue;
-      }
+    const log = this.replayLog.get(channel) || [];
+    log.push({ seq, projectId, message });
+    if (log.length > this.replayLogSize) {
+      log.shift();
+    }
+    this.replayLog.set(channel, log);
 
-      // Check if client is subscribed to this project (if project-specific)
-      if (projectId && subscription.projectId && subscription.projectId !== projectId) {
-        continue;
+    for (const [ws, subscription] of this.clients) {
+      if (this.shouldDeliver(subscription, channel, projectId)) {
+        this.sendToClient(ws, message);
       }
-
-      this.sendToClient(ws, message);
     }
   }
 
@@ -312,7 +544,13 @@ export class WebSocketService extends EventEmitter {
    */
   private setupHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
-      for (const [ws] of this.clients) {
+      const now = Math.floor(Date.now() / 1000);
+      for (const [ws, subscription] of this.clients) {
+        // Sessions end with their token unless it is refreshed with an auth message
+        if (subscription.user && subscription.user.exp < now) {
+          this.closeClient(ws, 'Token expired');
+          continue;
+        }
         if (ws.readyState === WebSocket.OPEN) {
           ws.ping();
         }
@@ -320,6 +558,39 @@ export class WebSocketService extends EventEmitter {
     }, this.heartbeatMs);
   }
 
+  /**
+   * Close sessions whose token is revoked, and drop project subscriptions
+   * when access to the project changes and no longer holds
+   */
+  private setupAuthListeners(): void {
+    this.authListeners.push(onTokenRevoked((jti) => {
+      for (const [ws, subscription] of this.clients) {
+        if (subscription.user?.jti === jti) {
+          this.closeClient(ws, 'Token revoked');
+          this.emit('clientRevoked', { clientId: subscription.clientId, userId: subscription.user.sub });
+        }
+      }
+    }));
+
+    this.authListeners.push(onProjectAccessChanged((projectId) => {
+      for (const [ws, subscription] of this.clients) {
+        if (subscription.projectId !== projectId) continue;
+
+        canAccessProject(subscription.user, projectId).then((allowed) => {
+          if (allowed || subscription.projectId !== projectId) return;
+          subscription.projectId = undefined;
+          this.sendToClient(ws, {
+            type: 'unsubscribed',
+            payload: { projectId, reason: 'access_revoked', channels: Array.from(subscription.channels) },
+            timestamp: new Date().toISOString(),
+          });
+        }).catch((error) => {
+          console.error('Failed to recheck project access:', error);
+        });
+      }
+    }));
+  }
+
   /**
    * Setup database listener for real-time updates
    */
@@ -366,9 +637,12 @@ export class WebSocketService extends EventEmitter {
    */
   getStats(): {
     connectedClients: number;
-    subscriptions: Array<{ projectId?: string; channels: string[] }>;
+    subscriptions: Array<{ userId?: string; projectId?: string; channels: string[] }>;
+    epoch: string;
+    sequences: Record<string, number>;
   } {
     const subscriptions = Array.from(this.clients.values()).map((sub) => ({
+      userId: sub.user?.sub,
       projectId: sub.projectId,
       channels: Array.from(sub.channels),
     }));
@@ -376,6 +650,8 @@ export class WebSocketService extends EventEmitter {
     return {
       connectedClients: this.clients.size,
       subscriptions,
+      epoch: this.epoch,
+      sequences: Object.fromEntries(this.sequences),
     };
   }
 
@@ -388,6 +664,15 @@ export class WebSocketService extends EventEmitter {
       this.heartbeatInterval = null;
     }
 
+    for (const unsubscribe of this.authListeners) {
+      unsubscribe();
+    }
+    this.authListeners = [];
+    for (const timer of this.authTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.authTimers.clear();
+
     // Close all client connections
     for (const [ws] of this.clients) {
       ws.close(1000, 'Server shutting down');
@@ -0,0 +1,63 @@
+/**
+ * Tests for the Embedded Database
+ * Runs the real migrations in-process, with no PostgreSQL server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { EmbeddedDatabase } from '../lib/embedded-database.js';
+
+describe('EmbeddedDatabase', () => {
+  let db: EmbeddedDatabase;
+
+  beforeAll(async () => {
+    db = new EmbeddedDatabase();
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('should apply every migration on connect', async () => {
+    const result = await db.query<{ filename: string }>('SELECT filename FROM schema_migrations ORDER BY filename');
+
+    expect(result.rows[0].filename).toBe('001_initial_schema.sql');
+    expect(result.rows.map(r => r.filename)).toContain('013_durable_messages.sql');
+  });
+
+  it('should run parameterised queries with Postgres types', async () => {
+    const result = await db.query<{ id: string; config: Record<string, unknown>; created_at: Date }>(
+      `INSERT INTO projects (name, config) VALUES ($1, $2) RETURNING id, config, created_at`,
+      ['local-project', JSON.stringify({ runtime: 'scripted' })]
+    );
+
+    expect(result.rowCount).toBe(1);
+    expect(result.rows[0].id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(result.rows[0].config).toEqual({ runtime: 'scripted' });
+    expect(result.rows[0].created_at).toBeInstanceOf(Date);
+
+    const updated = await db.query(`UPDATE projects SET status = 'paused' WHERE name = $1`, ['local-project']);
+    expect(updated.rowCount).toBe(1);
+  });
+
+  it('should roll back a failed transaction', async () => {
+    await expect(db.transaction(async (client) => {
+      await client.query(`INSERT INTO projects (name) VALUES ($1)`, ['rolled-back']);
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+
+    const result = await db.query(`SELECT id FROM projects WHERE name = $1`, ['rolled-back']);
+    expect(result.rows).toHaveLength(0);
+  });
+
+  it('should emit change notifications', async () => {
+    await db.startListening();
+    const project = await db.query<{ id: string }>(`INSERT INTO projects (name) VALUES ('notify') RETURNING id`);
+
+    const change = new Promise(resolve => db.once('agents:insert', resolve));
+    await db.query(`INSERT INTO agents (project_id, type) VALUES ($1, 'developer')`, [project.rows[0].id]);
+
+    await expect(change).resolves.toMatchObject({ table: 'agents', action: 'INSERT' });
+    await db.stopListening();
+  });
+});
@@ -4,14 +4,23 @@
  * Tests code quality analysis functionality
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { QualityAnalyzer } from '../core/architect-agent/quality-analyzer.js';
+import { QualityAnalyzer, type QualityReport } from '../core/architect-agent/quality-analyzer.js';
+import { toSarif } from '../core/architect-agent/sarif.js';
 
 describe('Quality Analyzer', () => {
   let analyzer: QualityAnalyzer;
+  let report: QualityReport;
   const projectPath = path.resolve(__dirname, '..');
 
+  // Type-checking the whole tree is slow, so the report is built once
+  beforeAll(async () => {
+    report = await new QualityAnalyzer(projectPath).analyze();
+  }, 120000);
+
   beforeEach(() => {
     analyzer = new QualityAnalyzer(projectPath);
   });
@@ -24,9 +33,7 @@ describe('Quality Analyzer', () => {
   });
 
   describe('analyze()', () => {
-    it('should return a quality report', async () => {
-      const report = await analyzer.analyze();
-
+    it('should return a quality report', () => {
       expect(report).toBeDefined();
       expect(report.timestamp).toBeInstanceOf(Date);
       expect(report.projectPath).toBe(projectPath);
@@ -35,18 +42,14 @@ describe('Quality Analyzer', () => {
       expect(report.overallScore).toBeLessThanOrEqual(100);
     });
 
-    it('should count files and lines', async () => {
-      const report = await analyzer.analyze();
-
+    it('should count files and lines', () => {
       expect(report.totalFiles).toBeGreaterThan(0);
       expect(report.totalLines).toBeGreaterThan(0);
       expect(report.totalLinesOfCode).toBeGreaterThan(0);
       expect(report.totalLinesOfCode).toBeLessThanOrEqual(report.totalLines);
     });
 
-    it('should calculate complexity metrics', async () => {
-      const report = await analyzer.analyze();
-
+    it('should calculate complexity metrics', () => {
       expect(report.avgComplexity).toBeGreaterThan(0);
       expect(report.fileMetrics.length).toBeGreaterThan(0);
 
@@ -56,15 +59,11 @@ describe('Quality Analyzer', () => {
       }
     });
 
-    it('should check TypeScript strict mode', async () => {
-      const report = await analyzer.analyze();
-
+    it('should check TypeScript strict mode', () => {
       expect(typeof report.metrics.typeScriptStrict).toBe('boolean');
     });
 
-    it('should identify issues', async () => {
-      const report = await analyzer.analyze();
-
+    it('should identify issues', () => {
       expect(Array.isArray(report.issues)).toBe(true);
 
       for (const issue of report.issues) {
@@ -76,17 +75,13 @@ describe('Quality Analyzer', () => {
       }
     });
 
-    it('should generate recommendations', async () => {
-      const report = await analyzer.analyze();
-
+    it('should generate recommendations', () => {
       expect(Array.isArray(report.recommendations)).toBe(true);
     });
   });
 
   describe('Security Checks', () => {
-    it('should not flag security analyzer itself', async () => {
-      const report = await analyzer.analyze();
-
+    it('should not flag security analyzer itself', () => {
       const selfFlags = report.issues.filter(
         i => i.file.includes('quality-analyzer') && i.category === 'security'
       );
@@ -95,9 +90,7 @@ describe('Quality Analyzer', () => {
       expect(selfFlags.length).toBe(0);
     });
 
-    it('should identify security issues by category', async () => {
-      const report = await analyzer.analyze();
-
+    it('should identify security issues by category', () => {
       const securityIssues = report.issues.filter(i => i.category === 'security');
 
       // Each security issue should have proper structure
@@ -109,9 +102,7 @@ describe('Quality Analyzer', () => {
   });
 
   describe('File Metrics', () => {
-    it('should analyze individual file metrics', async () => {
-      const report = await analyzer.analyze();
-
+    it('should analyze individual file metrics', () => {
       expect(report.fileMetrics.length).toBeGreaterThan(0);
 
       for (const metric of report.fileMetrics) {
@@ -124,9 +115,7 @@ describe('Quality Analyzer', () => {
       }
     });
 
-    it('should count functions and classes', async () => {
-      const report = await analyzer.analyze();
-
+    it('should count functions and classes', () => {
       // At least some files should have functions
       const filesWithFunctions = report.fileMetrics.filter(f => f.functions > 0);
       expect(filesWithFunctions.length).toBeGreaterThan(0);
@@ -134,32 +123,167 @@ describe('Quality Analyzer', () => {
   });
 
   describe('Score Calculation', () => {
-    it('should calculate overall score within bounds', async () => {
-      const report = await analyzer.analyze();
-
+    it('should calculate overall score within bounds', () => {
       expect(report.overallScore).toBeGreaterThanOrEqual(0);
       expect(report.overallScore).toBeLessThanOrEqual(100);
     });
 
-    it('should calculate error handling coverage', async () => {
-      const report = await analyzer.analyze();
-
+    it('should calculate error handling coverage', () => {
       expect(report.metrics.errorHandlingCoverage).toBeGreaterThanOrEqual(0);
       expect(report.metrics.errorHandlingCoverage).toBeLessThanOrEqual(100);
     });
 
-    it('should calculate security score', async () => {
-      const report = await analyzer.analyze();
-
+    it('should calculate security score', () => {
       expect(report.metrics.securityScore).toBeGreaterThanOrEqual(0);
       expect(report.metrics.securityScore).toBeLessThanOrEqual(100);
     });
 
-    it('should calculate maintainability index', async () => {
-      const report = await analyzer.analyze();
-
+    it('should calculate maintainability index', () => {
       expect(report.metrics.maintainabilityIndex).toBeGreaterThanOrEqual(0);
       expect(report.metrics.maintainabilityIndex).toBeLessThanOrEqual(100);
     });
   });
+
+  describe('AST analysis', () => {
+    let fixtureDir: string;
+    let fixture: QualityReport;
+
+    const write = (file: string, content: string): void => {
+      fs.mkdirSync(path.dirname(path.join(fixtureDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(fixtureDir, file), content);
+    };
+
+    const duplicated = `
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    const key = item.category.trim().toLowerCase();
+    totals[key] = (totals[key] || 0) + item.amount * item.quantity;
+  }
+  return Object.entries(totals).sort((a, b) => b[1] - a[1]).map(([key, value]) => key + ': ' + value.toFixed(2));
+`;
+
+    beforeAll(async () => {
+      fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quality-'));
+      write('tsconfig.json', JSON.stringify({
+        compilerOptions: { strict: true, target: 'ES2022', module: 'NodeNext', moduleResolution: 'NodeNext', skipLibCheck: true },
+      }));
+      write('classify.ts', `export function classify(value: number, flags: string[]): string {
+  if (value > 10) {
+    for (const flag of flags) {
+      if (flag === 'x' && value > 20) {
+        return flag;
+      }
+    }
+  } else if (value < 0) {
+    return 'negative';
+  } else {
+    return 'small';
+  }
+  return 'large';
+}
+`);
+      write('jobs.ts', `async function save(): Promise<void> {}
+
+export function run(data: any): void {
+  save();
+  void save();
+  save().catch(() => undefined);
+  eval(data);
+}
+`);
+      write('lib.ts', `export const used = 1;
+export const unused = 2;
+`);
+      write('index.ts', `import { used } from './lib.js';
+import { classify } from './classify.js';
+import { run } from './jobs.js';
+import { summarizeOrders } from './orders.js';
+import { summarizeRefunds } from './refunds.js';
+
+run(classify(used, []));
+summarizeOrders([]);
+summarizeRefunds([]);
+`);
+      write('orders.ts', `interface Item { category: string; amount: number; quantity: number }
+export function summarizeOrders(items: Item[]): string[] {${duplicated}}
+`);
+      write('refunds.ts', `interface Item { category: string; amount: number; quantity: number }
+export function summarizeRefunds(items: Item[]): string[] {${duplicated}}
+`);
+
+      fixture = await new QualityAnalyzer(fixtureDir).analyze();
+    }, 60000);
+
+    afterAll(() => {
+      fs.rmSync(fixtureDir, { recursive: true, force: true });
+    });
+
+    const issuesFor = (rule: string) => fixture.issues.filter(i => i.rule === rule);
+
+    it('should measure cyclomatic and cognitive complexity per function', () => {
+      const metrics = fixture.fileMetrics.find(f => f.file === 'classify.ts');
+
+      expect(metrics?.functions).toBe(1);
+      expect(metrics?.complexity).toBe(6);
+      expect(metrics?.maxCyclomatic).toBe(6);
+      expect(metrics?.maxCognitive).toBe(9);
+    });
+
+    it('should flag explicit any with its location', () => {
+      const issues = issuesFor('no-explicit-any');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ file: 'jobs.ts', line: 3, column: 27 });
+    });
+
+    it('should flag only promises that are neither awaited nor handled', () => {
+      const issues = issuesFor('no-floating-promises');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ file: 'jobs.ts', line: 4, severity: 'medium' });
+    });
+
+    it('should flag exports no module imports', () => {
+      const names = issuesFor('unused-export').map(i => i.message);
+
+      expect(names).toEqual(["Export 'unused' is not imported anywhere"]);
+    });
+
+    it('should detect token-level clones across files', () => {
+      const clones = issuesFor('duplicate-code');
+
+      expect(clones).toHaveLength(1);
+      expect(clones[0].file).toBe('orders.ts');
+      expect(clones[0].relatedLocations?.[0].file).toBe('refunds.ts');
+      expect(fixture.metrics.duplicateCodePercent).toBeGreaterThan(0);
+      expect(fixture.fileMetrics.find(f => f.file === 'refunds.ts')?.duplicateBlocks).toBe(1);
+    });
+
+    it('should flag dynamic code execution as a security issue', () => {
+      const issues = issuesFor('dangerous-eval');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ file: 'jobs.ts', line: 7, severity: 'critical', category: 'security' });
+    });
+
+    it('should convert issues to SARIF', () => {
+      const sarif = toSarif(fixture);
+      const run = sarif.runs[0];
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.results).toHaveLength(fixture.issues.length);
+      expect(run.tool.driver.rules.map(r => r.id)).toContain('no-floating-promises');
+
+      const evalResult = run.results.find(r => r.ruleId === 'dangerous-eval');
+      expect(evalResult?.level).toBe('error');
+      expect(evalResult?.locations[0].physicalLocation).toMatchObject({
+        artifactLocation: { uri: 'jobs.ts', uriBaseId: 'PROJECTROOT' },
+        region: { startLine: 7, startColumn: 3 },
+      });
+
+      const clone = run.results.find(r => r.ruleId === 'duplicate-code');
+      expect(clone?.level).toBe('note');
+      expect(clone?.relatedLocations?.[0].physicalLocation.artifactLocation.uri).toBe('refunds.ts');
+    });
+  });
 });
@@ -1,160 +1,323 @@
 /**
  * Unit Tests for Requirements Mapper
  *
- * Tests requirements mapping and coverage analysis
+ * Tests requirement extraction from specs, tasks and descriptions,
+ * traceability and coverage analysis
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
-import { RequirementsMapper } from '../core/architect-agent/requirements-mapper.js';
+import {
+  RequirementsMapper,
+  extractSpecRequirements,
+  extractDescriptionRequirements,
+  requirementId,
+  type RequirementTask,
+} from '../core/architect-agent/requirements-mapper.js';
+
+const SPEC = `# Bookshelf
+
+## Overview
+
+A small app for tracking the books you read.
+
+## Accounts
+
+- [x] Users can sign up with email and password
+- [ ] **Must** support password reset links
+
+## Library
+
+### Features
+
+- Add a book by ISBN
+- Rate books from one to five stars
+
+### Reading Lists
+
+As a reader, I want to organise books into reading lists so that I can plan what to read next.
+
+## Nice to have
+
+### Export library to CSV
+
+\`\`\`
+## Not a heading
+\`\`\`
+`;
+
+const FILES: Record<string, string> = {
+  'docs/SPEC.md': SPEC,
+  'README.md': '# Bookshelf\n\n## Getting started\n\nnpm install\n',
+  'CHANGELOG.md': '# Changelog\n\n- [ ] Release the password reset flow\n',
+  'src/auth/signup.ts': 'export async function signUpUser(email: string, password: string) {}\n',
+  'src/auth/signup.test.ts': "import { signUpUser } from './signup';\ndescribe('signUpUser email password', () => {});\n",
+  'src/books/isbn.ts': 'export function addBookByIsbn(isbn: string) {}\n',
+  'src/books/rating.ts': 'export function rateBook(book: Book, stars: number) {}\n',
+  'src/lists/reading-lists.ts': 'export function organiseBooksIntoReadingLists(books: Book[]) {}\n',
+  'src/lists/reading-lists.test.ts': "describe('organise books reading lists', () => {});\n",
+};
 
 describe('Requirements Mapper', () => {
-  let mapper: RequirementsMapper;
-  const projectPath = path.resolve(__dirname, '..');
+  let projectPath: string;
+
+  beforeAll(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'requirements-'));
+    for (const [file, content] of Object.entries(FILES)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+  });
 
-  beforeEach(() => {
-    mapper = new RequirementsMapper(projectPath);
+  afterAll(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
   });
 
   describe('Initialization', () => {
     it('should create mapper instance', () => {
+      const mapper = new RequirementsMapper(projectPath);
       expect(mapper).toBeDefined();
       expect(mapper).toBeInstanceOf(RequirementsMapper);
     });
   });
 
+  describe('extractSpecRequirements()', () => {
+    it('should extract checklists, section bullets, user stories and leaf headings', () => {
+      const requirements = extractSpecRequirements(SPEC, 'docs/SPEC.md');
+
+      expect(requirements.map(r => r.description)).toEqual([
+        'Users can sign up with email and password',
+        'Must support password reset links',
+        'Add a book by ISBN',
+        'Rate books from one to five stars',
+        'As a reader, I want to organise books into reading lists so that I can plan what to read next.',
+        'Export library to CSV',
+      ]);
+      expect(requirements.map(r => r.category)).toEqual([
+        'Accounts', 'Accounts', 'Library', 'Library', 'Library', 'Nice to have',
+      ]);
+    });
+
+    it('should read priorities from the text and enclosing headings', () => {
+      const requirements = extractSpecRequirements(SPEC, 'docs/SPEC.md');
+      const byDescription = new Map(requirements.map(r => [r.description, r]));
+
+      expect(byDescription.get('Must support password reset links')!.priority).toBe('critical');
+      expect(byDescription.get('Export library to CSV')!.priority).toBe('low');
+      expect(byDescription.get('Add a book by ISBN')!.priority).toBe('medium');
+      expect(byDescription.get('Users can sign up with email and password')!.checked).toBe(true);
+    });
+
+    it('should record where each requirement came from', () => {
+      const [first] = extractSpecRequirements(SPEC, 'docs/SPEC.md');
+      expect(first.source).toEqual({ type: 'spec', file: 'docs/SPEC.md', line: 9 });
+    });
+
+    it('should keep IDs written in the spec', () => {
+      const requirements = extractSpecRequirements(
+        '## Requirements\n\n- FR-12: Search books by title\n- [ ] [US-3] Share a list\n',
+        'spec.md'
+      );
+      expect(requirements.map(r => [r.id, r.description])).toEqual([
+        ['FR-12', 'Search books by title'],
+        ['US-3', 'Share a list'],
+      ]);
+    });
+  });
+
+  describe('Stable IDs', () => {
+    it('should derive the same ID regardless of position or formatting', () => {
+      const a = extractSpecRequirements('## Features\n\n- Add a book by ISBN\n', 'a.md');
+      const b = extractSpecRequirements('# Other\n\n## Scope\n\n- Rate books\n- **Add a book by ISBN.**\n', 'b.md');
+
+      expect(a[0].id).toBe(b[1].id);
+      expect(a[0].id).toBe(requirementId('Add a book by ISBN'));
+      expect(a[0].id).toMatch(/^REQ-[0-9A-F]{8}$/);
+    });
+  });
+
+  describe('extractDescriptionRequirements()', () => {
+    it('should use list items when the description has them', () => {
+      const requirements = extractDescriptionRequirements('A todo app.\n\n- Create todo items\n- Mark items done\n');
+      expect(requirements.map(r => r.description)).toEqual(['Create todo items', 'Mark items done']);
+      expect(requirements[0].source).toEqual({ type: 'description' });
+    });
+
+    it('should fall back to sentences', () => {
+      const requirements = extractDescriptionRequirements('Users track expenses by category. Reports export to PDF. Fast.');
+      expect(requirements.map(r => r.description)).toEqual(['Users track expenses by category', 'Reports export to PDF']);
+    });
+  });
+
   describe('analyze()', () => {
     it('should return a requirements report', async () => {
-      const report = await mapper.analyze();
+      const report = await new RequirementsMapper(projectPath).analyze();
 
       expect(report).toBeDefined();
       expect(report.timestamp).toBeInstanceOf(Date);
       expect(report.projectPath).toBe(projectPath);
     });
 
-    it('should count total requirements', async () => {
-      const report = await mapper.analyze();
+    it('should find spec files and skip unrelated markdown', async () => {
+      const report = await new RequirementsMapper(projectPath).analyze();
 
-      expect(report.totalRequirements).toBeGreaterThan(0);
+      expect(report.specFiles.sort()).toEqual(['README.md', path.join('docs', 'SPEC.md')]);
     });
 
-    it('should categorize requirements', async () => {
-      const report = await mapper.analyze();
-
-      expect(report.implementedRequirements).toBeGreaterThanOrEqual(0);
-      expect(report.partialRequirements).toBeGreaterThanOrEqual(0);
-      expect(report.missingRequirements).toBeGreaterThanOrEqual(0);
+    it('should count and categorize requirements', async () => {
+      const report = await new RequirementsMapper(projectPath).analyze();
 
-      // Sum should equal total
+      expect(report.totalRequirements).toBe(6);
       expect(
         report.implementedRequirements +
         report.partialRequirements +
         report.missingRequirements
       ).toBe(report.totalRequirements);
+      expect(report.categories.map(c => c.name).sort()).toEqual(['Accounts', 'Library', 'Nice to have']);
     });
 
     it('should calculate overall coverage', async () => {
-      const report = await mapper.analyze();
+      const report = await new RequirementsMapper(projectPath).analyze();
 
-      expect(report.overallCoverage).toBeGreaterThanOrEqual(0);
+      expect(report.overallCoverage).toBeGreaterThan(0);
       expect(report.overallCoverage).toBeLessThanOrEqual(100);
     });
 
-    it('should find spec files', async () => {
-      const report = await mapper.analyze();
-
-      expect(Array.isArray(report.specFiles)).toBe(true);
-    });
-  });
-
-  describe('Categories', () => {
-    it('should group requirements by category', async () => {
-      const report = await mapper.analyze();
-
-      expect(Array.isArray(report.categories)).toBe(true);
-      expect(report.categories.length).toBeGreaterThan(0);
+    it('should have proper requirement structure', async () => {
+      const report = await new RequirementsMapper(projectPath).analyze();
 
       for (const category of report.categories) {
-        expect(category.name).toBeDefined();
-        expect(Array.isArray(category.requirements)).toBe(true);
         expect(category.coverage).toBeGreaterThanOrEqual(0);
         expect(category.coverage).toBeLessThanOrEqual(100);
-      }
-    });
 
-    it('should include expected categories', async () => {
-      const report = await mapper.analyze();
-
-      const categoryNames = report.categories.map(c => c.name);
-
-      // Should have some standard categories
-      const expectedCategories = ['Core Architecture', 'Database', 'API'];
-      for (const expected of expectedCategories) {
-        expect(categoryNames).toContain(expected);
-      }
-    });
-  });
-
-  describe('Requirements', () => {
-    it('should have proper requirement structure', async () => {
-      const report = await mapper.analyze();
-
-      for (const category of report.categories) {
         for (const req of category.requirements) {
-          expect(req.id).toBeDefined();
           expect(req.category).toBe(category.name);
-          expect(req.description).toBeDefined();
           expect(['critical', 'high', 'medium', 'low']).toContain(req.priority);
           expect(['implemented', 'partial', 'missing', 'unknown']).toContain(req.status);
-          expect(Array.isArray(req.implementedIn)).toBe(true);
           expect(req.coverage).toBeGreaterThanOrEqual(0);
           expect(req.coverage).toBeLessThanOrEqual(100);
         }
       }
     });
 
-    it('should identify critical missing requirements', async () => {
-      const report = await mapper.analyze();
-
-      expect(Array.isArray(report.criticalMissing)).toBe(true);
-
-      for (const req of report.criticalMissing) {
-        expect(req.priority).toBe('critical');
-        expect(['missing', 'partial']).toContain(req.status);
+    it('should use spec files given explicitly', async () => {
+      const specPath = path.join(projectPath, 'notes', 'wishlist.md');
+      await fs.mkdir(path.dirname(specPath), { recursive: true });
+      await fs.writeFile(specPath, '## Requirements\n\n- Lend books to friends\n');
+
+      try {
+        const report = await new RequirementsMapper(projectPath, { specFiles: [specPath] }).analyze();
+        expect(report.specFiles).toContain(path.join('notes', 'wishlist.md'));
+        expect(report.totalRequirements).toBe(7);
+      } finally {
+        await fs.rm(path.dirname(specPath), { recursive: true, force: true });
       }
     });
   });
 
-  describe('Recommendations', () => {
-    it('should generate recommendations', async () => {
-      const report = await mapper.analyze();
+  describe('Traceability', () => {
+    const tasks: RequirementTask[] = [
+      {
+        id: 'task-isbn',
+        title: 'ISBN lookup',
+        status: 'completed',
+        acceptanceCriteria: [],
+        description: 'Add book by ISBN',
+      },
+      {
+        id: 'task-reset',
+        title: 'Password reset',
+        status: 'in_progress',
+        acceptanceCriteria: ['Reset link expires after one hour'],
+      },
+      { id: 'task-misc', title: 'Tidy the CI config', status: 'pending', acceptanceCriteria: [] },
+    ];
+
+    it('should link requirements to implementing files, tests and tasks', async () => {
+      const report = await new RequirementsMapper(projectPath, { tasks }).analyze();
+      const entries = new Map(report.traceability.entries.map(e => [e.description, e]));
+
+      expect(entries.get('Users can sign up with email and password')).toMatchObject({
+        status: 'implemented',
+        files: [path.join('src', 'auth', 'signup.ts')],
+        tests: [path.join('src', 'auth', 'signup.test.ts')],
+      });
+      expect(entries.get('Add a book by ISBN')).toMatchObject({
+        files: [path.join('src', 'books', 'isbn.ts')],
+        tests: [],
+        tasks: ['task-isbn'],
+      });
+      expect(entries.get('Export library to CSV')).toMatchObject({ status: 'missing', files: [], tests: [] });
+
+      const isbnId = entries.get('Add a book by ISBN')!.requirementId;
+      expect(report.traceability.fileIndex[path.join('src', 'books', 'isbn.ts')]).toEqual([isbnId]);
+      expect(report.traceability.taskIndex['task-isbn']).toEqual([isbnId]);
+      expect(report.traceability.untracedTasks).toEqual(['task-misc']);
+    });
 
-      expect(Array.isArray(report.recommendations)).toBe(true);
+    it('should score coverage from the evidence found', async () => {
+      const report = await new RequirementsMapper(projectPath, { tasks }).analyze();
+      const requirements = new Map(report.categories.flatMap(c => c.requirements).map(r => [r.description, r]));
+
+      // Code and tests
+      expect(requirements.get('Users can sign up with email and password')!.coverage).toBe(80);
+      expect(requirements.get('Users can sign up with email and password')!.status).toBe('implemented');
+      // Code and a completed task, but no tests
+      expect(requirements.get('Add a book by ISBN')!.coverage).toBe(70);
+      expect(requirements.get('Add a book by ISBN')!.notes).toContain('no tests');
+      expect(requirements.get('Export library to CSV')!.coverage).toBe(0);
     });
 
-    it('should prioritize critical missing in recommendations', async () => {
-      const report = await mapper.analyze();
+    it('should turn task acceptance criteria into requirements', async () => {
+      const report = await new RequirementsMapper(projectPath, { tasks }).analyze();
+      const criterion = report.categories.find(c => c.name === 'Password reset')!.requirements[0];
 
-      if (report.criticalMissing.length > 0) {
-        // Should have critical recommendations at the start
-        const hasCriticalRec = report.recommendations.some(
-          r => r.includes('CRITICAL') || r.includes('critical')
-        );
-        expect(hasCriticalRec).toBe(true);
-      }
+      expect(criterion).toMatchObject({
+        description: 'Reset link expires after one hour',
+        source: { type: 'task', taskId: 'task-reset' },
+        tasks: ['task-reset'],
+      });
+    });
+
+    it('should flag critical requirements that are not implemented', async () => {
+      const report = await new RequirementsMapper(projectPath, { tasks }).analyze();
+
+      expect(report.criticalMissing.map(r => r.description)).toEqual(['Must support password reset links']);
+      expect(report.recommendations[0]).toContain('CRITICAL');
     });
   });
 
-  describe('File Mapping', () => {
-    it('should map requirements to implementation files', async () => {
-      const report = await mapper.analyze();
+  describe('Project description fallback', () => {
+    it('should map the description when there is no spec', async () => {
+      const emptyPath = await fs.mkdtemp(path.join(os.tmpdir(), 'requirements-empty-'));
+      try {
+        const report = await new RequirementsMapper(emptyPath, {
+          projectDescription: 'A recipe manager.\n\n- Save recipes from a URL\n- Scale ingredient amounts\n',
+          tasks: [],
+        }).analyze();
+
+        expect(report.specFiles).toEqual([]);
+        expect(report.totalRequirements).toBe(2);
+        expect(report.categories.map(c => c.name)).toEqual(['Project Description']);
+        expect(report.missingRequirements).toBe(2);
+        expect(report.overallCoverage).toBe(0);
+      } finally {
+        await fs.rm(emptyPath, { recursive: true, force: true });
+      }
+    });
 
-      // At least some requirements should have implementation files
-      const reqsWithFiles = report.categories
-        .flatMap(c => c.requirements)
-        .filter(r => r.implementedIn.length > 0);
+    it('should recommend writing a spec when nothing describes the project', async () => {
+      const emptyPath = await fs.mkdtemp(path.join(os.tmpdir(), 'requirements-empty-'));
+      try {
+        const report = await new RequirementsMapper(emptyPath).analyze();
 
-      expect(reqsWithFiles.length).toBeGreaterThan(0);
+        expect(report.totalRequirements).toBe(0);
+        expect(report.recommendations[0]).toContain('No requirements found');
+      } finally {
+        await fs.rm(emptyPath, { recursive: true, force: true });
+      }
     });
   });
 });
@@ -0,0 +1,132 @@
+/**
+ * Tests for WebSocket authentication
+ * Token handshake, project-scoped delivery and disconnect on revocation
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+const SECRET = vi.hoisted(() => {
+  const secret = 'websocket-test-secret-at-least-32-chars';
+  process.env.JWT_SECRET = secret;
+  return secret;
+});
+
+import { getDatabase } from '../lib/database.js';
+import { generateToken, revokeToken, verifyToken } from '../middleware/auth.js';
+import { WS_CLOSE_UNAUTHORIZED, createWebSocketService, type WebSocketService } from '../services/websocket.js';
+
+const PORT = 4391;
+
+interface Client {
+  ws: WebSocket;
+  messages: Array<{ type: string; payload: Record<string, unknown> }>;
+  closed: Promise<number>;
+}
+
+function connect(query = ''): Promise<Client> {
+  const ws = new WebSocket(`ws://localhost:${PORT}/${query}`);
+  const messages: Client['messages'] = [];
+  ws.on('message', data => messages.push(JSON.parse(data.toString())));
+  const closed = new Promise<number>(resolve => ws.on('close', code => resolve(code)));
+  return new Promise((resolve, reject) => {
+    ws.on('open', () => resolve({ ws, messages, closed }));
+    ws.on('error', reject);
+  });
+}
+
+async function waitFor(client: Client, type: string): Promise<Record<string, unknown>> {
+  for (let i = 0; i < 100; i++) {
+    const message = client.messages.find(m => m.type === type);
+    if (message) return message.payload;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`No ${type} message`);
+}
+
+describe('WebSocketService authentication', () => {
+  let service: WebSocketService;
+  let projectId: string;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    // A project without members, which every user may read
+    const project = await db.query<{ id: string }>("INSERT INTO projects (name) VALUES ('ws-auth') RETURNING id");
+    projectId = project.rows[0].id;
+    service = createWebSocketService({ port: PORT, authTimeoutMs: 200 });
+    await service.start();
+  });
+
+  afterAll(async () => {
+    await service.stop();
+    await getDatabase().close();
+  });
+
+  it('should reject clients without a valid token', async () => {
+    const silent = await connect();
+    expect(await waitFor(silent, 'auth_required')).toBeDefined();
+    expect(await silent.closed).toBe(WS_CLOSE_UNAUTHORIZED);
+
+    const forged = await connect();
+    forged.ws.send(JSON.stringify({ type: 'auth', payload: { token: generateToken({ sub: 'u1', role: 'user' }, 60, 'wrong-secret') } }));
+    expect(await forged.closed).toBe(WS_CLOSE_UNAUTHORIZED);
+
+    const eager = await connect();
+    eager.ws.send(JSON.stringify({ type: 'subscribe', payload: { channels: ['agents'] } }));
+    expect(await eager.closed).toBe(WS_CLOSE_UNAUTHORIZED);
+  });
+
+  it('should authenticate by query parameter or first message and scope project events', async () => {
+    const admin = await connect(`?token=${generateToken({ sub: 'admin-1', role: 'admin' }, 60, SECRET)}`);
+    expect(await waitFor(admin, 'connected')).toMatchObject({ userId: 'admin-1' });
+
+    const user = await connect();
+    user.ws.send(JSON.stringify({ type: 'auth', payload: { token: generateToken({ sub: 'user-1', role: 'user' }, 60, SECRET) } }));
+    expect(await waitFor(user, 'connected')).toMatchObject({ userId: 'user-1' });
+
+    // Without a project subscription only admins get project events
+    service.broadcastTaskUpdate({ id: 't1', projectId, title: 'Task', status: 'pending' });
+    await waitFor(admin, 'task:updated');
+    expect(user.messages.some(m => m.type === 'task:updated')).toBe(false);
+
+    user.ws.send(JSON.stringify({ type: 'subscribe', payload: { projectId, channels: ['tasks'] } }));
+    expect(await waitFor(user, 'subscribed')).toMatchObject({ projectId });
+
+    service.broadcastTaskUpdate({ id: 't2', projectId: 'p2', title: 'Other', status: 'pending' });
+    service.broadcastTaskUpdate({ id: 't3', projectId, title: 'Mine', status: 'pending' });
+    expect(await waitFor(user, 'task:updated')).toMatchObject({ id: 't3' });
+    expect(user.messages.filter(m => m.type === 'task:updated')).toHaveLength(1);
+
+    admin.ws.close();
+    user.ws.close();
+  });
+
+  it('should deny project subscriptions the role does not allow', async () => {
+    const limited = await connect(`?token=${generateToken({ sub: 'svc', role: 'guest' as 'user' }, 60, SECRET)}`);
+    await waitFor(limited, 'connected');
+
+    limited.ws.send(JSON.stringify({ type: 'subscribe', payload: { projectId } }));
+    expect(await waitFor(limited, 'error')).toMatchObject({ code: 'PROJECT_ACCESS_DENIED' });
+    limited.ws.close();
+  });
+
+  it('should disconnect sessions when their token is revoked', async () => {
+    const token = generateToken({ sub: 'user-2', role: 'user' }, 60, SECRET);
+    const client = await connect(`?token=${token}`);
+    await waitFor(client, 'connected');
+
+    revokeToken(verifyToken(token, SECRET)!.jti!);
+
+    expect(await client.closed).toBe(WS_CLOSE_UNAUTHORIZED);
+    expect(client.messages.at(-1)).toMatchObject({ type: 'unauthorized', payload: { message: 'Token revoked' } });
+    expect(service.getStats().connectedClients).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for WebSocket event replay
+ * Per-channel sequences, resuming after a reconnect and resync when the gap is gone
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+const SECRET = vi.hoisted(() => {
+  const secret = 'websocket-test-secret-at-least-32-chars';
+  process.env.JWT_SECRET = secret;
+  return secret;
+});
+
+import { getDatabase } from '../lib/database.js';
+import { generateToken } from '../middleware/auth.js';
+import { createWebSocketService, type WebSocketMessage, type WebSocketService } from '../services/websocket.js';
+
+const PORT = 4392;
+
+interface Client {
+  ws: WebSocket;
+  messages: WebSocketMessage[];
+}
+
+function connect(role: 'admin' | 'user' = 'admin'): Promise<Client> {
+  const token = generateToken({ sub: `${role}-1`, role }, 60, SECRET);
+  const ws = new WebSocket(`ws://localhost:${PORT}/?token=${token}`);
+  const messages: WebSocketMessage[] = [];
+  ws.on('message', data => messages.push(JSON.parse(data.toString())));
+  return new Promise((resolve, reject) => {
+    ws.on('open', () => resolve({ ws, messages }));
+    ws.on('error', reject);
+  });
+}
+
+async function waitFor(client: Client, type: string): Promise<WebSocketMessage> {
+  for (let i = 0; i < 100; i++) {
+    const message = client.messages.find(m => m.type === type);
+    if (message) return message;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`No ${type} message`);
+}
+
+function task(id: string, projectId = 'p1') {
+  return { id, projectId, title: id, status: 'pending' };
+}
+
+describe('WebSocketService replay', () => {
+  let service: WebSocketService;
+
+  beforeAll(async () => {
+    const db = getDatabase({
+      driver: 'embedded',
+      host: '',
+      port: 0,
+      database: '',
+      user: '',
+      password: '',
+    });
+    await db.connect();
+    service = createWebSocketService({ port: PORT, replayLogSize: 5 });
+    await service.start();
+  });
+
+  afterAll(async () => {
+    await service.stop();
+    await getDatabase().close();
+  });
+
+  it('should number events per channel and replay the gap before live events', async () => {
+    const first = await connect();
+    const welcome = await waitFor(first, 'connected');
+    expect(welcome.payload.epoch).toBe(service.epoch);
+
+    service.broadcastTaskUpdate(task('t1'));
+    service.broadcastActivity({ id: 'a1', projectId: 'p1', agentType: 'coder', action: 'started' });
+    await waitFor(first, 'activity:new');
+    expect(first.messages.filter(m => m.seq !== undefined).map(m => `${m.channel}:${m.seq}`))
+      .toEqual(['tasks:1', 'activity:1']);
+    first.ws.close();
+
+    // Missed while disconnected
+    service.broadcastTaskUpdate(task('t2'));
+    service.broadcastTaskUpdate(task('t3', 'p2'));
+    service.broadcastTaskUpdate(task('t4'));
+
+    const second = await connect();
+    await waitFor(second, 'connected');
+    second.ws.send(JSON.stringify({
+      type: 'subscribe',
+      payload: { projectId: 'p1', resume: { epoch: service.epoch, lastSeq: { tasks: 1, activity: 1 } } },
+    }));
+    const complete = await waitFor(second, 'replay_complete');
+    service.broadcastTaskUpdate(task('t5'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Other projects' events are filtered out of the replay as they are live
+    const tasks = second.messages.filter(m => m.type === 'task:updated');
+    expect(tasks.map(m => [m.payload.id, m.seq, m.replay ?? false])).toEqual([
+      ['t2', 2, true],
+      ['t4', 4, true],
+      ['t5', 5, false],
+    ]);
+    expect(complete.payload).toMatchObject({ replayed: 2, resync: [], sequences: { tasks: 4, activity: 1 } });
+    expect(second.messages.indexOf(complete)).toBeLessThan(second.messages.findIndex(m => m.payload.id === 't5'));
+    second.ws.close();
+  });
+
+  it('should ask for a refetch when the gap is no longer in the log or the epoch changed', async () => {
+    for (let i = 0; i < 10; i++) {
+      service.broadcastAgentUpdate({ id: `agent-${i}`, projectId: 'p1', type: 'coder', status: 'working' });
+    }
+
+    const client = await connect();
+    await waitFor(client, 'connected');
+    client.ws.send(JSON.stringify({
+      type: 'subscribe',
+      payload: { resume: { epoch: service.epoch, lastSeq: { agents: 2, tasks: 5 } } },
+    }));
+    const complete = await waitFor(client, 'replay_complete');
+
+    expect(await waitFor(client, 'resync_required')).toMatchObject({
+      payload: { channel: 'agents', lastSeq: 2, currentSeq: 10 },
+    });
+    expect(complete.payload).toMatchObject({ replayed: 0, resync: ['agents'] });
+    expect(client.messages.some(m => m.type === 'agent:updated')).toBe(false);
+
+    client.messages.length = 0;
+    client.ws.send(JSON.stringify({
+      type: 'subscribe',
+      payload: { resume: { epoch: 'before-restart', lastSeq: { agents: 9 } } },
+    }));
+    expect((await waitFor(client, 'replay_complete')).payload).toMatchObject({ resync: ['agents'] });
+    client.ws.close();
+  });
+});
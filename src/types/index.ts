@@ -149,12 +149,20 @@ export const LearningEventSchema = z.object({
 export type LearningEvent = z.infer<typeof LearningEventSchema>;
 
 // Config types
+// 'embedded' runs Postgres in-process (PGlite), so no database server is needed
+export type DatabaseDriver = 'postgres' | 'embedded';
+
+// 'memory' keeps agent messages inside the process, so no Redis is needed
+export type MessageBusDriver = 'redis' | 'memory';
+
 export interface DatabaseConfig {
+  driver?: DatabaseDriver;  // Defaults to 'postgres'
   host: string;
   port: number;
   database: string;
   user: string;
   password: string;
+  dataDir?: string;  // Embedded only; in-memory when unset
 }
 
 export interface RedisConfig {
@@ -163,10 +171,76 @@ export interface RedisConfig {
   password?: string;
 }
 
+export interface AgentRuntimeCommandConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+export interface AgentRuntimeConfig {
+  default?: string;
+  agentTypes?: Partial<Record<AgentType, string>>;
+  commands?: Record<string, AgentRuntimeCommandConfig>;
+}
+
+/**
+ * Step down the price tiers once budget use reaches a percentage
+ */
+export interface ModelBudgetFallback {
+  atPercent: number;
+  downgradeSteps: number;
+}
+
+/**
+ * Which model an agent runs on. Within a policy a task type wins over a
+ * task priority, which wins over the agent type, which wins over the
+ * default.
+ */
+export interface ModelRoutingPolicy {
+  default?: string;
+  agentTypes?: Partial<Record<AgentType, string>>;
+  taskTypes?: Record<string, string>;
+  priorities?: Array<{ minPriority: number; model: string }>;  // Highest matching minPriority wins
+  budgetFallback?: ModelBudgetFallback[];                       // Defaults to one step at 75%, two at 90%
+  fallbackChain?: string[];                                     // Most to least expensive; defaults to the pricing table
+}
+
+export type BudgetDimension = 'cost' | 'tokens' | 'time';
+
+export type BudgetAction = 'alert' | 'pause_workflow' | 'downgrade_model' | 'hard_stop';
+
+/**
+ * Action taken once use of a budget reaches a percentage of its limit
+ */
+export interface BudgetThresholdAction {
+  atPercent: number;
+  action: BudgetAction;
+}
+
+/**
+ * Threshold actions for a project's USD, token and wall-clock budgets.
+ * A dimension without its own list uses `thresholds`.
+ */
+export interface BudgetPolicy {
+  thresholds?: BudgetThresholdAction[];  // Defaults to alert at 75%, downgrade at 90%, hard stop at 100%
+  dimensions?: Partial<Record<BudgetDimension, BudgetThresholdAction[]>>;
+}
+
+export interface WorktreeConfig {
+  enabled: boolean;
+  integrationBranch?: string;  // Defaults to 'main'
+}
+
 export interface EklavyaConfig {
   database: DatabaseConfig;
   redis: RedisConfig;
+  messageBus?: MessageBusDriver;  // Defaults to 'redis'
   defaultModel: string;
+  agentRuntime?: AgentRuntimeConfig;
+  modelRouting?: ModelRoutingPolicy;
+  budgetPolicy?: BudgetPolicy;
+  worktrees?: WorktreeConfig;
+  actionApproval?: boolean;  // Hold risky tool calls for approval (defaults to true)
   maxConcurrentAgents: number;
   checkpointIntervalMs: number;
   heartbeatIntervalMs: number;
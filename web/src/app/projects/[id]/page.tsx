@@ -19,6 +19,8 @@ import {
   Loader2,
 } from "lucide-react";
 import { cn, formatCurrency, formatRelativeTime } from "@/lib/utils";
+import { AgentControls } from "@/components/dashboard/AgentControls";
+import { PendingActions } from "@/components/dashboard/PendingActions";
 import type { AgentType, AgentStatus } from "@/types";
 
 // API response types
@@ -83,6 +85,15 @@ interface BudgetStatus {
   status: "healthy" | "caution" | "warning" | "critical" | "exceeded";
 }
 
+interface BudgetForecast {
+  projectedTotal: { low: number; expected: number; high: number };
+  exhaustionDate: { low: string | null; expected: string | null; high: string | null };
+  burnRate: { dailyAverage: number };
+  remainingWork: { tasks: number; estimatedCost: number };
+  willExceedBudget: boolean;
+  confidence: "low" | "medium" | "high";
+}
+
 interface ActivityItem {
   id: string;
   projectId: string;
@@ -92,6 +103,26 @@ interface ActivityItem {
   timestamp: string;
 }
 
+interface VisualDiff {
+  id: string;
+  pageName: string;
+  currentImage: string;
+  diffImage?: string;
+  diffPercentage: number;
+  threshold: number;
+  pass: boolean;
+  error?: string;
+}
+
+interface VisualRun {
+  id: string;
+  baselineId: string | null;
+  status: string;
+  summary: { total: number; passed: number; failed: number; newPages: number };
+  diffs: VisualDiff[];
+  startTime: string;
+}
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000";
 
 const agentTypeColors: Record<string, { bg: string; text: string }> = {
@@ -137,7 +168,9 @@ export default function ProjectDetailPage({
   const [tasks, setTasks] = useState<ApiTask[]>([]);
   const [costs, setCosts] = useState<CostSummary | null>(null);
   const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [forecast, setForecast] = useState<BudgetForecast | null>(null);
   const [activities, setActivities] = useState<ActivityItem[]>([]);
+  const [visualRun, setVisualRun] = useState<VisualRun | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -146,28 +179,32 @@ export default function ProjectDetailPage({
       try {
         setLoading(true);
 
-        const [projectRes, agentsRes, tasksRes, costsRes, budgetRes, activityRes] =
+        const [projectRes, agentsRes, tasksRes, costsRes, budgetRes, forecastRes, activityRes, visualRes] =
           await Promise.all([
             fetch(`${API_BASE}/api/projects/${projectId}`),
             fetch(`${API_BASE}/api/projects/${projectId}/agents`),
             fetch(`${API_BASE}/api/projects/${projectId}/tasks`),
             fetch(`${API_BASE}/api/projects/${projectId}/costs`),
             fetch(`${API_BASE}/api/projects/${projectId}/budget`),
+            fetch(`${API_BASE}/api/projects/${projectId}/cost-forecast`),
             fetch(`${API_BASE}/api/projects/${projectId}/activity`),
+            fetch(`${API_BASE}/api/projects/${projectId}/visual-runs?limit=1`),
           ]);
 
         if (!projectRes.ok) {
           throw new Error("Project not found");
         }
 
-        const [projectData, agentsData, tasksData, costsData, budgetData, activityData] =
+        const [projectData, agentsData, tasksData, costsData, budgetData, forecastData, activityData, visualData] =
           await Promise.all([
             projectRes.json(),
             agentsRes.ok ? agentsRes.json() : [],
             tasksRes.ok ? tasksRes.json() : [],
             costsRes.ok ? costsRes.json() : null,
             budgetRes.ok ? budgetRes.json() : null,
+            forecastRes.ok ? forecastRes.json() : null,
             activityRes.ok ? activityRes.json() : [],
+            visualRes.ok ? visualRes.json() : { runs: [] },
           ]);
 
         setProject(projectData);
@@ -175,7 +212,9 @@ export default function ProjectDetailPage({
         setTasks(tasksData);
         setCosts(costsData);
         setBudget(budgetData);
+        setForecast(forecastData);
         setActivities(activityData);
+        setVisualRun(visualData.runs?.[0] ?? null);
       } catch (err) {
         setError(err instanceof Error ? err : new Error("Failed to load project"));
       } finally {
@@ -354,6 +393,46 @@ export default function ProjectDetailPage({
               <span>100%</span>
             </div>
           </div>
+          {forecast && (
+            <div className="mt-4 border-t border-gray-100 pt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Projected total</p>
+                <p
+                  className={cn(
+                    "font-semibold",
+                    forecast.willExceedBudget ? "text-red-600" : "text-gray-900"
+                  )}
+                >
+                  {formatCurrency(forecast.projectedTotal.expected)}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {formatCurrency(forecast.projectedTotal.low)} – {formatCurrency(forecast.projectedTotal.high)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Budget runs out</p>
+                <p className="font-semibold text-gray-900">
+                  {forecast.exhaustionDate.expected
+                    ? new Date(forecast.exhaustionDate.expected).toLocaleDateString()
+                    : "Within budget"}
+                </p>
+                {forecast.exhaustionDate.low && (
+                  <p className="text-xs text-gray-400">
+                    as early as {new Date(forecast.exhaustionDate.low).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-500">Burn rate</p>
+                <p className="font-semibold text-gray-900">
+                  {formatCurrency(forecast.burnRate.dailyAverage)}/day
+                </p>
+                <p className="text-xs text-gray-400">
+                  {forecast.remainingWork.tasks} tasks left · {forecast.confidence} confidence
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -361,6 +440,8 @@ export default function ProjectDetailPage({
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Agents Section */}
         <div className="lg:col-span-2 space-y-6">
+          <PendingActions projectId={projectId} />
+
           <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-semibold text-gray-900">Agents</h2>
@@ -415,6 +496,15 @@ export default function ProjectDetailPage({
                           <span>{(agent.metrics.tokens_used / 1000).toFixed(1)}k tokens</span>
                         </div>
                       )}
+                      <AgentControls
+                        agentId={agent.id}
+                        status={agent.status}
+                        onChange={(status) =>
+                          setAgents((current) =>
+                            current.map((a) => (a.id === agent.id ? { ...a, status } : a))
+                          )
+                        }
+                      />
                     </div>
                   );
                 })}
@@ -502,6 +592,48 @@ export default function ProjectDetailPage({
                 The demo is ready for your review. Check the preview and approve
                 when satisfied.
               </p>
+              {visualRun && visualRun.diffs.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-xs font-medium text-yellow-800 mb-2">
+                    Visual changes: {visualRun.summary.failed} of{" "}
+                    {visualRun.summary.total} pages over threshold
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {visualRun.diffs.map((diff) => (
+                      <a
+                        key={diff.id}
+                        href={`${API_BASE}/api/projects/${projectId}/visual/${diff.diffImage ?? diff.currentImage}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className={cn(
+                          "block rounded-lg border bg-white p-1",
+                          diff.pass ? "border-green-200" : "border-red-300"
+                        )}
+                      >
+                        {diff.diffImage && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={`${API_BASE}/api/projects/${projectId}/visual/${diff.diffImage}`}
+                            alt={`Visual diff of ${diff.pageName}`}
+                            className="w-full rounded"
+                          />
+                        )}
+                        <p className="text-xs text-gray-700 truncate mt-1">
+                          {diff.pageName}
+                        </p>
+                        <p
+                          className={cn(
+                            "text-xs",
+                            diff.pass ? "text-green-600" : "text-red-600"
+                          )}
+                        >
+                          {diff.error ?? `${diff.diffPercentage.toFixed(2)}% changed`}
+                        </p>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="flex flex-col gap-2">
                 <button className="flex items-center justify-center gap-2 rounded-lg bg-yellow-600 px-4 py-2 text-sm font-medium text-white hover:bg-yellow-700 transition-colors">
                   <Play className="h-4 w-4" />
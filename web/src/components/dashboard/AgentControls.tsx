@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Pause, Play, StepForward, Send, Loader2 } from "lucide-react";
+import { api } from "@/lib/api";
+
+interface AgentControlsProps {
+  agentId: string;
+  status: string;
+  onChange?: (status: string) => void;
+}
+
+/**
+ * Pause, resume, step and steer one running agent.
+ */
+export function AgentControls({ agentId, status, onChange }: AgentControlsProps) {
+  const [instruction, setInstruction] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const paused = status === "blocked";
+  const running = status === "working" || status === "idle";
+
+  async function run(action: () => Promise<unknown>, nextStatus: string | null, done: string) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      if (nextStatus) onChange?.(nextStatus);
+      setMessage(done);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function steer(e: React.FormEvent) {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+    await run(() => api.steerAgent(agentId, instruction.trim()), null, "Queued for its next turn");
+    setInstruction("");
+  }
+
+  if (!paused && !running) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center gap-2">
+        {paused ? (
+          <>
+            <button
+              onClick={() => run(() => api.unpauseAgent(agentId), "working", "Resumed")}
+              disabled={busy}
+              className="flex items-center gap-1 rounded-md border border-gray-200 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <Play className="h-3.5 w-3.5" />
+              Resume
+            </button>
+            <button
+              onClick={() => run(() => api.stepAgent(agentId), "working", "Running one turn")}
+              disabled={busy}
+              className="flex items-center gap-1 rounded-md border border-gray-200 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <StepForward className="h-3.5 w-3.5" />
+              Step
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => run(() => api.pauseAgent(agentId), "blocked", "Paused")}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-md border border-gray-200 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            <Pause className="h-3.5 w-3.5" />
+            Pause
+          </button>
+        )}
+        {busy && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />}
+        {message && <span className="text-xs text-gray-500">{message}</span>}
+      </div>
+
+      <form onSubmit={steer} className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="Steer: instruction for its next turn"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          className="flex-1 rounded-md border border-gray-200 px-2 py-1 text-xs"
+        />
+        <button
+          type="submit"
+          disabled={busy || !instruction.trim()}
+          className="rounded-md bg-blue-600 p-1.5 text-white hover:bg-blue-700 disabled:opacity-50"
+          aria-label="Send instruction"
+        >
+          <Send className="h-3.5 w-3.5" />
+        </button>
+      </form>
+    </div>
+  );
+}
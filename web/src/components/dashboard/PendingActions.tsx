@@ -0,0 +1,112 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ShieldAlert, Check, X, Loader2 } from "lucide-react";
+import { api, PendingAction } from "@/lib/api";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface PendingActionsProps {
+  projectId: string;
+}
+
+/**
+ * Risky actions agents are paused on (deleting files, running migrations,
+ * ...), for a project reviewer to approve or deny.
+ */
+export function PendingActions({ projectId }: PendingActionsProps) {
+  const [actions, setActions] = useState<PendingAction[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActions = useCallback(async () => {
+    try {
+      const data = await api.getPendingActions(projectId);
+      setActions(data.actions);
+    } catch {
+      // Keep showing the last list; the next poll retries
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchActions();
+    const interval = setInterval(fetchActions, 5000); // Poll every 5 seconds
+    return () => clearInterval(interval);
+  }, [fetchActions]);
+
+  async function decide(action: PendingAction, approve: boolean) {
+    setDeciding(action.id);
+    setError(null);
+    try {
+      const reason = reasons[action.id] || undefined;
+      await (approve ? api.approveAction(action.id, reason) : api.denyAction(action.id, reason));
+      setActions((current) => current.filter((a) => a.id !== action.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record decision");
+    } finally {
+      setDeciding(null);
+    }
+  }
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl border border-orange-200 bg-orange-50 p-6 shadow-sm">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert className="h-5 w-5 text-orange-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Awaiting Approval</h2>
+        <span className="text-sm text-gray-500">{actions.length} pending</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="space-y-3">
+        {actions.map((action) => (
+          <div key={action.id} className="rounded-lg border border-orange-100 bg-white p-4">
+            <div className="flex items-center justify-between mb-1">
+              <span className="rounded-full bg-orange-100 px-2.5 py-0.5 text-xs font-medium text-orange-700">
+                {action.actionType.replace(/_/g, " ")}
+              </span>
+              <span className="text-xs text-gray-500">
+                {formatRelativeTime(new Date(action.requestedAt))}
+              </span>
+            </div>
+            <p className="text-sm text-gray-900 font-mono break-all">{action.description}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              Agent {action.agentId.substring(0, 8)}
+              {action.pausedAgent && " · paused until decided"}
+            </p>
+
+            <div className="flex items-center gap-2 mt-3">
+              <input
+                type="text"
+                placeholder="Reason (optional, sent to the agent on deny)"
+                value={reasons[action.id] || ""}
+                onChange={(e) => setReasons({ ...reasons, [action.id]: e.target.value })}
+                className="flex-1 rounded-md border border-gray-200 px-3 py-1.5 text-sm"
+              />
+              <button
+                onClick={() => decide(action, true)}
+                disabled={deciding === action.id}
+                className="flex items-center gap-1 rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {deciding === action.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Approve
+              </button>
+              <button
+                onClick={() => decide(action, false)}
+                disabled={deciding === action.id}
+                className="flex items-center gap-1 rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                <X className="h-4 w-4" />
+                Deny
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
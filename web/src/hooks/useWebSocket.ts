@@ -85,6 +85,18 @@ export function useWebSocketMessage<T = unknown>(
   }, [type]);
 }
 
+/**
+ * Hook for refetching when the server can no longer replay the events a
+ * reconnecting client missed on a channel
+ */
+export function useResyncRequired(channel: string, onResync: () => void): void {
+  useWebSocketMessage<{ channel: string }>('resync_required', (payload) => {
+    if (payload.channel === channel) {
+      onResync();
+    }
+  });
+}
+
 /**
  * Hook for real-time agent updates
  */
@@ -243,6 +243,28 @@ class ApiClient {
     });
   }
 
+  async getProjectBudgets(projectId: string): Promise<BudgetEnforcementStatus> {
+    return this.fetch(`/api/projects/${projectId}/budgets`);
+  }
+
+  async grantBudgetExtension(
+    projectId: string,
+    extension: { dimension: BudgetDimension; amount: number; reason: string }
+  ): Promise<{ extension: BudgetExtension; status: BudgetEnforcementStatus }> {
+    return this.fetch(`/api/projects/${projectId}/budget-extensions`, {
+      method: 'POST',
+      body: JSON.stringify(extension),
+    });
+  }
+
+  async getBudgetExtensions(projectId: string): Promise<{ extensions: BudgetExtension[] }> {
+    return this.fetch(`/api/projects/${projectId}/budget-extensions`);
+  }
+
+  async getCostForecast(projectId: string): Promise<BudgetForecast> {
+    return this.fetch(`/api/projects/${projectId}/cost-forecast`);
+  }
+
   async getCostOverview(): Promise<{ projects: CostOverviewItem[] }> {
     return this.fetch('/api/costs/overview');
   }
@@ -256,6 +278,129 @@ class ApiClient {
     return this.fetch('/api/costs/pricing');
   }
 
+  // Accounts
+  async listUsers(): Promise<{ users: UserAccount[] }> {
+    return this.fetch('/api/users');
+  }
+
+  async updateUser(
+    userId: string,
+    updates: Partial<Pick<UserAccount, 'email' | 'displayName' | 'role' | 'status'>>
+  ): Promise<{ user: UserAccount }> {
+    return this.fetch(`/api/users/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async createInvitation(invitation: {
+    email: string;
+    role?: AccountRole;
+    teamId?: string;
+    projectId?: string;
+    projectRole?: ProjectRole;
+  }): Promise<{ invitation: Invitation; token: string }> {
+    return this.fetch('/api/invitations', {
+      method: 'POST',
+      body: JSON.stringify(invitation),
+    });
+  }
+
+  async acceptInvitation(acceptance: {
+    token: string;
+    username: string;
+    password: string;
+    displayName?: string;
+  }): Promise<{ user: UserAccount }> {
+    return this.fetch('/api/invitations/accept', {
+      method: 'POST',
+      body: JSON.stringify(acceptance),
+    });
+  }
+
+  async listTeams(): Promise<{ teams: Team[] }> {
+    return this.fetch('/api/teams');
+  }
+
+  async getProjectMembers(projectId: string): Promise<{ members: ProjectMember[] }> {
+    return this.fetch(`/api/projects/${projectId}/members`);
+  }
+
+  async setProjectMember(
+    projectId: string,
+    member: { userId?: string; teamId?: string; role: ProjectRole }
+  ): Promise<{ member: ProjectMember }> {
+    return this.fetch(`/api/projects/${projectId}/members`, {
+      method: 'PUT',
+      body: JSON.stringify(member),
+    });
+  }
+
+  async removeProjectMember(projectId: string, memberId: string): Promise<{ success: boolean }> {
+    return this.fetch(`/api/projects/${projectId}/members/${memberId}`, { method: 'DELETE' });
+  }
+
+  // Agent Control
+  async getAgentControl(agentId: string): Promise<{ control: AgentControlState }> {
+    return this.fetch(`/api/agents/${agentId}/control`);
+  }
+
+  async pauseAgent(agentId: string, reason?: string): Promise<{ control: AgentControlState }> {
+    return this.fetch(`/api/agents/${agentId}/pause`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async unpauseAgent(agentId: string): Promise<{ control: AgentControlState }> {
+    return this.fetch(`/api/agents/${agentId}/unpause`, { method: 'POST' });
+  }
+
+  async stepAgent(agentId: string): Promise<{ control: AgentControlState }> {
+    return this.fetch(`/api/agents/${agentId}/step`, { method: 'POST' });
+  }
+
+  async listSteering(agentId: string, status?: SteeringInstruction['status']): Promise<{ steering: SteeringInstruction[] }> {
+    const query = status ? `?status=${status}` : '';
+    return this.fetch(`/api/agents/${agentId}/steering${query}`);
+  }
+
+  async steerAgent(agentId: string, instruction: string): Promise<{ steering: SteeringInstruction }> {
+    return this.fetch(`/api/agents/${agentId}/steering`, {
+      method: 'POST',
+      body: JSON.stringify({ instruction }),
+    });
+  }
+
+  async getPendingActions(projectId: string, status: PendingAction['status'] | 'all' = 'pending'): Promise<{ actions: PendingAction[] }> {
+    const query = status === 'all' ? '' : `?status=${status}`;
+    return this.fetch(`/api/projects/${projectId}/pending-actions${query}`);
+  }
+
+  async approveAction(actionId: string, reason?: string): Promise<{ action: PendingAction }> {
+    return this.fetch(`/api/pending-actions/${actionId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async denyAction(actionId: string, reason?: string): Promise<{ action: PendingAction }> {
+    return this.fetch(`/api/pending-actions/${actionId}/deny`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // Requirements
+  async getRequirements(projectId: string): Promise<{ report: RequirementsReport }> {
+    return this.fetch(`/api/projects/${projectId}/requirements`);
+  }
+
+  // Code Quality
+  async getQualityReport(projectId: string): Promise<QualityReport> {
+    return this.fetch(`/api/projects/${projectId}/quality`);
+  }
+
   // Learning Metrics
   async getLearningMetrics(): Promise<AggregateLearningMetrics> {
     return this.fetch('/api/learning/metrics');
@@ -321,6 +466,252 @@ export interface BudgetStatus {
   status: 'healthy' | 'caution' | 'warning' | 'critical' | 'exceeded';
 }
 
+export type BudgetDimension = 'cost' | 'tokens' | 'time';
+
+export interface BudgetUsage {
+  dimension: BudgetDimension;
+  used: number;
+  limit: number;
+  percentUsed: number;
+  remaining: number;
+}
+
+export interface BudgetEnforcementStatus {
+  projectId: string;
+  budgets: Record<BudgetDimension, BudgetUsage>;
+  actions: Array<{
+    dimension: BudgetDimension;
+    atPercent: number;
+    action: 'alert' | 'pause_workflow' | 'downgrade_model' | 'hard_stop';
+    percentUsed: number;
+  }>;
+  allowed: boolean;
+  pauseWorkflow: boolean;
+  downgradeModel: boolean;
+}
+
+export interface BudgetExtension {
+  id: string;
+  projectId: string;
+  dimension: BudgetDimension;
+  amount: number;
+  previousLimit: number;
+  newLimit: number;
+  percentUsed?: number;
+  reason: string;
+  grantedBy?: string;
+  createdAt: string;
+}
+
+export type AccountRole = 'admin' | 'user' | 'viewer' | 'service';
+export type ProjectRole = 'owner' | 'editor' | 'reviewer' | 'viewer';
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  email: string | null;
+  displayName: string | null;
+  role: AccountRole;
+  status: 'active' | 'disabled';
+  lastLogin: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface ProjectMember {
+  id: string;
+  projectId: string;
+  kind: 'user' | 'team';
+  userId: string | null;
+  teamId: string | null;
+  name: string;
+  role: ProjectRole;
+  addedBy: string | null;
+  createdAt: string;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: AccountRole;
+  teamId: string | null;
+  projectId: string | null;
+  projectRole: ProjectRole | null;
+  status: 'pending' | 'accepted' | 'expired' | 'revoked';
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface AgentControlState {
+  agentId: string;
+  paused: boolean;
+  pid: number | null;
+  previousStatus: string | null;
+  pauseReason: string | null;
+  pausedBy: string | null;
+  pausedAt: string | null;
+  stepPending: boolean;
+}
+
+export interface SteeringInstruction {
+  id: string;
+  agentId: string;
+  instruction: string;
+  createdBy: string | null;
+  status: 'pending' | 'delivered' | 'cancelled';
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface PendingAction {
+  id: string;
+  agentId: string;
+  projectId: string;
+  actionType: string;
+  description: string;
+  details: Record<string, unknown>;
+  pausedAgent: boolean;
+  status: 'pending' | 'approved' | 'denied';
+  decidedBy: string | null;
+  decisionReason: string | null;
+  decidedAt: string | null;
+  requestedAt: string;
+}
+
+export interface Requirement {
+  id: string;
+  category: string;
+  description: string;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  status: 'implemented' | 'partial' | 'missing' | 'unknown';
+  source: { type: 'spec' | 'task' | 'description'; file?: string; line?: number; taskId?: string };
+  implementedIn: string[];
+  testedBy: string[];
+  tasks: string[];
+  coverage: number;
+  notes?: string;
+}
+
+export interface TraceabilityEntry {
+  requirementId: string;
+  description: string;
+  status: Requirement['status'];
+  files: string[];
+  tests: string[];
+  tasks: string[];
+}
+
+export interface RequirementsReport {
+  timestamp: string;
+  specFiles: string[];
+  totalRequirements: number;
+  implementedRequirements: number;
+  partialRequirements: number;
+  missingRequirements: number;
+  overallCoverage: number;
+  categories: Array<{ name: string; requirements: Requirement[]; coverage: number }>;
+  criticalMissing: Requirement[];
+  traceability: {
+    entries: TraceabilityEntry[];
+    fileIndex: Record<string, string[]>;
+    taskIndex: Record<string, string[]>;
+    untracedTasks: string[];
+  };
+  recommendations: string[];
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number; startColumn?: number; endLine?: number; endColumn?: number };
+  };
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: Array<SarifLocation & { id: number }>;
+  partialFingerprints: { primaryLocationLineHash: string };
+  properties: {
+    severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+    category: 'security' | 'quality' | 'performance' | 'maintainability' | 'style';
+    suggestion?: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; rules: Array<{ id: string; shortDescription: { text: string } }> } };
+    results: SarifResult[];
+  }>;
+}
+
+export interface ComplexFunction {
+  file: string;
+  name: string;
+  line: number;
+  cyclomatic: number;
+  cognitive: number;
+  lines: number;
+}
+
+export interface QualityReport {
+  overallScore: number;
+  totalFiles: number;
+  metrics: {
+    typeScriptStrict: boolean;
+    errorHandlingCoverage: number;
+    securityScore: number;
+    maintainabilityIndex: number;
+    duplicateCodePercent: number;
+  };
+  complexFunctions: ComplexFunction[];
+  recommendations: string[];
+  sarif: SarifLog;
+}
+
+export interface ForecastBand<T> {
+  low: T;
+  expected: T;
+  high: T;
+}
+
+export interface BudgetForecast {
+  generatedAt: string;
+  currentSpend: number;
+  budgetLimit: number;
+  burnRate: {
+    dailyAverage: number;
+    stdDev: number;
+    activeDays: number;
+    band: ForecastBand<number>;
+  };
+  remainingWork: {
+    tasks: number;
+    estimatedCost: number;
+    byTaskType: Record<string, { remaining: number; averageCost: number; estimatedCost: number }>;
+  };
+  projectedTotal: ForecastBand<number>;
+  exhaustionDate: ForecastBand<string | null>;
+  willExceedBudget: boolean;
+  confidence: 'low' | 'medium' | 'high';
+}
+
 export interface CostOverviewItem {
   projectId: string;
   projectName: string;
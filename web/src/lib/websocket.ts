@@ -5,6 +5,14 @@
  * - Auto-reconnection with exponential backoff
  * - Channel subscriptions (agents, tasks, activity, learning)
  * - Event callbacks for real-time updates
+ *
+ * The server requires an access token: it is sent in an `auth` message as
+ * soon as the socket opens, and subscriptions follow once it is accepted.
+ *
+ * Events are numbered per channel. After a reconnect the client resumes
+ * from the last sequence it saw: missed events are replayed before live
+ * ones, and `resync_required` tells handlers to refetch a channel whose
+ * gap the server no longer has.
  */
 
 export type WebSocketStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
@@ -13,15 +21,28 @@ export interface WebSocketMessage {
   type: string;
   payload: Record<string, unknown>;
   timestamp: string;
+  channel?: string;
+  seq?: number;
+  replay?: boolean;
 }
 
 export interface WebSocketClientOptions {
   url?: string;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  getToken?: () => string | null | undefined;  // Defaults to the token in localStorage
   onStatusChange?: (status: WebSocketStatus) => void;
 }
 
+// Close code the server uses for missing, invalid or revoked tokens
+const CLOSE_UNAUTHORIZED = 4401;
+
+const TOKEN_STORAGE_KEY = 'eklavya_access_token';
+
+function storedToken(): string | null {
+  return typeof window !== 'undefined' ? window.localStorage.getItem(TOKEN_STORAGE_KEY) : null;
+}
+
 type MessageHandler = (message: WebSocketMessage) => void;
 
 class WebSocketClient {
@@ -34,14 +55,20 @@ class WebSocketClient {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private handlers: Map<string, Set<MessageHandler>> = new Map();
   private statusChangeCallback?: (status: WebSocketStatus) => void;
+  private getToken: () => string | null | undefined;
   private subscribedChannels: Set<string> = new Set(['global']);
   private subscribedProjectId?: string;
+  private epoch?: string;
+  private lastSeq: Map<string, number> = new Map();
+  private resuming = false;
+  private pendingLive: WebSocketMessage[] = [];
 
   constructor(options: WebSocketClientOptions = {}) {
     this.url = options.url || 'ws://localhost:4001';
     this.reconnectInterval = options.reconnectInterval || 3000;
     this.maxReconnectAttempts = options.maxReconnectAttempts || 10;
     this.statusChangeCallback = options.onStatusChange;
+    this.getToken = options.getToken || storedToken;
   }
 
   /**
@@ -59,19 +86,28 @@ class WebSocketClient {
 
       this.ws.onopen = () => {
         console.log('WebSocket connected');
-        this.setStatus('connected');
         this.reconnectAttempts = 0;
-
-        // Re-subscribe to channels after reconnection
-        if (this.subscribedChannels.size > 0 || this.subscribedProjectId) {
-          this.sendSubscription();
-        }
+        this.send({ type: 'auth', payload: { token: this.getToken() ?? '' } });
       };
 
       this.ws.onmessage = (event) => {
         try {
           const message: WebSocketMessage = JSON.parse(event.data);
-          this.handleMessage(message);
+
+          // Authenticated: re-subscribe to channels after (re)connection,
+          // resuming from the last events seen if there were any
+          if (message.type === 'connected') {
+            this.setStatus('connected');
+            const resume = this.epoch !== undefined && this.lastSeq.size > 0;
+            if (!resume) {
+              this.epoch = message.payload.epoch as string | undefined;
+              this.lastSeq = new Map(Object.entries((message.payload.sequences as Record<string, number>) || {}));
+            }
+            this.resuming = resume;
+            this.sendSubscription(resume);
+          }
+
+          this.receive(message);
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
@@ -81,7 +117,10 @@ class WebSocketClient {
         console.log('WebSocket disconnected:', event.code, event.reason);
         this.ws = null;
 
-        if (event.code !== 1000) {
+        if (event.code === CLOSE_UNAUTHORIZED) {
+          // Retrying with the same token would fail again
+          this.setStatus('disconnected');
+        } else if (event.code !== 1000) {
           // Abnormal close, attempt reconnection
           this.scheduleReconnect();
         } else {
@@ -115,6 +154,13 @@ class WebSocketClient {
     this.setStatus('disconnected');
   }
 
+  /**
+   * Send a refreshed access token on the open connection
+   */
+  reauthenticate(): void {
+    this.send({ type: 'auth', payload: { token: this.getToken() ?? '' } });
+  }
+
   /**
    * Subscribe to channels and/or a specific project
    */
@@ -126,7 +172,7 @@ class WebSocketClient {
       this.subscribedProjectId = options.projectId;
     }
 
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.isConnected()) {
       this.sendSubscription();
     }
   }
@@ -196,16 +242,59 @@ class WebSocketClient {
     }
   }
 
-  private sendSubscription(): void {
+  private sendSubscription(resume = false): void {
     this.send({
       type: 'subscribe',
       payload: {
         channels: Array.from(this.subscribedChannels),
         projectId: this.subscribedProjectId,
+        ...(resume && { resume: { epoch: this.epoch, lastSeq: Object.fromEntries(this.lastSeq) } }),
       },
     });
   }
 
+  /**
+   * Hold live events back while a replay is in flight, and drop anything
+   * already seen
+   */
+  private receive(message: WebSocketMessage): void {
+    if (message.channel && message.seq !== undefined) {
+      if (this.resuming && !message.replay) {
+        this.pendingLive.push(message);
+        return;
+      }
+      if (message.seq <= (this.lastSeq.get(message.channel) ?? 0)) {
+        return;
+      }
+      this.lastSeq.set(message.channel, message.seq);
+      this.handleMessage(message);
+      return;
+    }
+
+    if (message.type === 'replay_complete') {
+      this.epoch = message.payload.epoch as string;
+      const sequences = (message.payload.sequences as Record<string, number>) || {};
+      for (const [channel, seq] of Object.entries(sequences)) {
+        this.lastSeq.set(channel, Math.max(seq, this.lastSeq.get(channel) ?? 0));
+      }
+      this.finishResume();
+    } else if (this.resuming && message.type === 'error' && message.payload.code === 'PROJECT_ACCESS_DENIED') {
+      // The subscription was refused, so no replay is coming; start afresh
+      this.epoch = undefined;
+      this.lastSeq.clear();
+      this.finishResume();
+    }
+
+    this.handleMessage(message);
+  }
+
+  private finishResume(): void {
+    this.resuming = false;
+    const pending = this.pendingLive;
+    this.pendingLive = [];
+    pending.forEach(message => this.receive(message));
+  }
+
   private handleMessage(message: WebSocketMessage): void {
     // Call type-specific handlers
     const handlers = this.handlers.get(message.type);